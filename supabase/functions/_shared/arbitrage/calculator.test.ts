@@ -0,0 +1,161 @@
+/**
+ * Tests for the deterministic arbitrage calculator
+ *
+ * Run with: deno test supabase/functions/_shared/arbitrage/
+ */
+
+import { assertEquals } from "jsr:@std/assert";
+import { estimateKalshiTakerFeeUsd } from "../kalshi/utils.ts";
+import { calculateArbitrage, estimatePolymarketFeeUsd } from "./calculator.ts";
+import type { ArbitrageCalculationInput } from "./types.ts";
+
+const NOW = new Date("2026-10-22T00:00:00Z");
+
+const kalshiFeeCases: Array<{ count: number; priceCents: number; feeUsd: number }> = [
+  // 0.07 * 1 * 0.5 * 0.5 = 0.0175, rounded up to the cent
+  { count: 1, priceCents: 50, feeUsd: 0.02 },
+  // 0.07 * 10 * 0.3 * 0.7 = 0.147
+  { count: 10, priceCents: 30, feeUsd: 0.15 },
+  // Exactly 1.68 must not round up to 1.69 through float error
+  { count: 100, priceCents: 40, feeUsd: 1.68 },
+  { count: 100, priceCents: 55, feeUsd: 1.74 },
+];
+
+for (const { count, priceCents, feeUsd } of kalshiFeeCases) {
+  Deno.test(`Kalshi taker fee for ${count} @ ${priceCents}¢ is $${feeUsd}`, () => {
+    assertEquals(estimateKalshiTakerFeeUsd(count, priceCents), feeUsd);
+  });
+}
+
+const polymarketFeeCases: Array<{ size: number; price: number; feeRateBps: number; feeUsd: number }> = [
+  { size: 100, price: 40, feeRateBps: 0, feeUsd: 0 },
+  { size: 100, price: 40, feeRateBps: 200, feeUsd: 0.8 },
+  // The rate applies to the cheaper of the price and its complement
+  { size: 100, price: 70, feeRateBps: 200, feeUsd: 0.6 },
+];
+
+for (const { size, price, feeRateBps, feeUsd } of polymarketFeeCases) {
+  Deno.test(`Polymarket fee for ${size} @ ${price}¢ at ${feeRateBps} bps is $${feeUsd}`, () => {
+    assertEquals(Math.round(estimatePolymarketFeeUsd(size, price, feeRateBps) * 10000) / 10000, feeUsd);
+  });
+}
+
+const base: ArbitrageCalculationInput = {
+  buyYesOn: "polymarket",
+  yesPrice: 40,
+  buyNoOn: "kalshi",
+  noPrice: 55,
+  size: 100,
+  sameMarketConfidence: 95,
+  now: NOW,
+};
+
+const profitCases: Array<{
+  name: string;
+  input: ArbitrageCalculationInput;
+  kalshiFees: number;
+  polymarketFees: number;
+  settlementCost: number;
+  netProfit: number;
+}> = [
+  { name: "Kalshi fee only", input: base, kalshiFees: 1.74, polymarketFees: 0, settlementCost: 0, netProfit: 3.26 },
+  {
+    name: "settlement cost on the Polymarket capital",
+    input: { ...base, settlementCostBps: 50 },
+    kalshiFees: 1.74,
+    polymarketFees: 0,
+    settlementCost: 0.2,
+    netProfit: 3.06,
+  },
+  {
+    name: "Polymarket fee rate",
+    input: { ...base, polymarketFeeRateBps: 200 },
+    kalshiFees: 1.74,
+    polymarketFees: 0.8,
+    settlementCost: 0,
+    netProfit: 2.46,
+  },
+  {
+    name: "legs swapped",
+    input: { ...base, buyYesOn: "kalshi", yesPrice: 55, buyNoOn: "polymarket", noPrice: 40, settlementCostBps: 50 },
+    kalshiFees: 1.74,
+    polymarketFees: 0,
+    settlementCost: 0.2,
+    netProfit: 3.06,
+  },
+];
+
+for (const { name, input, kalshiFees, polymarketFees, settlementCost, netProfit } of profitCases) {
+  Deno.test(`calculateArbitrage: ${name}`, () => {
+    const result = calculateArbitrage(input);
+    assertEquals(
+      {
+        kalshiFees: result.kalshiFees,
+        polymarketFees: result.polymarketFees,
+        settlementCost: result.settlementCost,
+        netProfit: result.netProfit,
+      },
+      { kalshiFees, polymarketFees, settlementCost, netProfit }
+    );
+    assertEquals(result.totalCost, Math.round((100 - netProfit) * 10000) / 10000);
+  });
+}
+
+const riskCases: Array<{
+  name: string;
+  input: Partial<ArbitrageCalculationInput>;
+  mismatchRisk: string;
+  flags: string[];
+}> = [
+  {
+    name: "same resolution date",
+    input: { polymarketResolutionDate: "2026-11-01T00:00:00Z", kalshiResolutionDate: "2026-11-01T00:00:00Z" },
+    mismatchRisk: "low",
+    flags: ["settlement:low"],
+  },
+  {
+    name: "dates 2 days apart",
+    input: { polymarketResolutionDate: "2026-11-01T00:00:00Z", kalshiResolutionDate: "2026-11-03T00:00:00Z" },
+    mismatchRisk: "medium",
+    flags: ["resolution_date:medium", "settlement:low"],
+  },
+  {
+    name: "dates 10 days apart",
+    input: { polymarketResolutionDate: "2026-11-11T00:00:00Z", kalshiResolutionDate: "2026-11-01T00:00:00Z" },
+    mismatchRisk: "high",
+    flags: ["resolution_date:high", "settlement:low"],
+  },
+  {
+    name: "low same-market confidence",
+    input: { sameMarketConfidence: 80 },
+    mismatchRisk: "medium",
+    flags: ["resolution_criteria:medium", "settlement:low"],
+  },
+  {
+    name: "low confidence confirmed by a person",
+    input: { sameMarketConfidence: 60, humanConfirmed: true },
+    mismatchRisk: "low",
+    flags: ["settlement:low"],
+  },
+];
+
+for (const { name, input, mismatchRisk, flags } of riskCases) {
+  Deno.test(`calculateArbitrage risk flags: ${name}`, () => {
+    const result = calculateArbitrage({ ...base, ...input });
+    assertEquals(result.mismatchRisk, mismatchRisk);
+    assertEquals(result.riskFlags.map(flag => `${flag.type}:${flag.level}`), flags);
+  });
+}
+
+Deno.test("calculateArbitrage annualises over the later resolution date", () => {
+  const result = calculateArbitrage({
+    ...base,
+    polymarketResolutionDate: "2026-10-30T00:00:00Z",
+    kalshiResolutionDate: "2026-11-01T00:00:00Z",
+  });
+  assertEquals(result.resolutionDate, "2026-11-01T00:00:00.000Z");
+  assertEquals(result.daysToResolution, 10);
+  // $3.26 on $96.74 is 3.37% over 10 days
+  assertEquals(result.returnPercent, 3.37);
+  assertEquals(result.annualizedReturnPercent, 123);
+});
@@ -0,0 +1,213 @@
+/**
+ * Deterministic arbitrage calculator
+ *
+ * Prices a YES + NO pair across Polymarket and Kalshi after each platform's
+ * fees and the USD/USDC settlement cost, annualises the return over the time
+ * the capital is locked up, and rates the risk that the legs resolve
+ * differently. Used instead of the model's arithmetic by arbitrage-finder and
+ * for the scanner's opportunities.
+ */
+
+import { estimateKalshiTakerFeeUsd } from "../kalshi/utils.ts";
+import type {
+  ArbitrageCalculation,
+  ArbitrageCalculationInput,
+  ArbitrageMarketSource,
+  ArbitrageOpportunity,
+  ArbitrageRiskFlag,
+  ArbitrageRiskLevel,
+} from "./types.ts";
+
+const DEFAULT_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same-market confidence from which an unreviewed match is a low / medium mismatch risk
+const LOW_RISK_CONFIDENCE = 90;
+const MEDIUM_RISK_CONFIDENCE = 75;
+// Days between the legs' resolution dates from which the gap is a medium / high risk
+const MEDIUM_RISK_DATE_GAP_DAYS = 1;
+const HIGH_RISK_DATE_GAP_DAYS = 7;
+
+const RISK_ORDER: ArbitrageRiskLevel[] = ["low", "medium", "high"];
+
+const round = (value: number, decimals: number = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const maxRisk = (a: ArbitrageRiskLevel, b: ArbitrageRiskLevel) =>
+  RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+
+/**
+ * Polymarket fee in USD for buying `size` shares at `price` (0-100):
+ * the fee rate applies to the cheaper of the price and its complement
+ */
+export function estimatePolymarketFeeUsd(size: number, price: number, feeRateBps: number): number {
+  const p = price / 100;
+  return (feeRateBps / 10000) * Math.min(p, 1 - p) * size;
+}
+
+/**
+ * Trading fee in USD for buying `size` contracts at `price` (0-100) on a platform
+ */
+export function tradingFeeUsd(
+  source: ArbitrageMarketSource,
+  size: number,
+  price: number,
+  polymarketFeeRateBps: number = 0
+): number {
+  return source === "kalshi"
+    ? estimateKalshiTakerFeeUsd(size, price)
+    : estimatePolymarketFeeUsd(size, price, polymarketFeeRateBps);
+}
+
+/**
+ * Risk that the legs resolve differently, from how the match was judged and
+ * how far apart the legs resolve
+ */
+function assessRisks(input: ArbitrageCalculationInput): { mismatchRisk: ArbitrageRiskLevel; riskFlags: ArbitrageRiskFlag[] } {
+  const riskFlags: ArbitrageRiskFlag[] = [];
+  const confidence = input.sameMarketConfidence;
+
+  let criteriaRisk: ArbitrageRiskLevel;
+  if (input.humanConfirmed) {
+    criteriaRisk = "low";
+  } else if (confidence === undefined) {
+    criteriaRisk = "medium";
+  } else {
+    criteriaRisk = confidence >= LOW_RISK_CONFIDENCE ? "low" : confidence >= MEDIUM_RISK_CONFIDENCE ? "medium" : "high";
+  }
+  if (criteriaRisk !== "low") {
+    riskFlags.push({
+      type: "resolution_criteria",
+      level: criteriaRisk,
+      message: confidence === undefined
+        ? "The markets have not been confirmed to share resolution criteria"
+        : `The markets are judged the same with only ${confidence}% confidence; their resolution criteria may differ`,
+    });
+  }
+
+  let mismatchRisk = criteriaRisk;
+  const polymarketDate = input.polymarketResolutionDate ? Date.parse(input.polymarketResolutionDate) : NaN;
+  const kalshiDate = input.kalshiResolutionDate ? Date.parse(input.kalshiResolutionDate) : NaN;
+  if (!isNaN(polymarketDate) && !isNaN(kalshiDate)) {
+    const gapDays = Math.abs(polymarketDate - kalshiDate) / DAY_MS;
+    if (gapDays >= MEDIUM_RISK_DATE_GAP_DAYS) {
+      const level: ArbitrageRiskLevel = gapDays >= HIGH_RISK_DATE_GAP_DAYS ? "high" : "medium";
+      riskFlags.push({
+        type: "resolution_date",
+        level,
+        message: `The legs resolve ${gapDays.toFixed(1)} days apart; the event may settle inside one window and outside the other`,
+      });
+      mismatchRisk = maxRisk(mismatchRisk, level);
+    }
+  }
+
+  riskFlags.push({
+    type: "settlement",
+    level: "low",
+    message: "Polymarket pays out USDC on Polygon and Kalshi pays USD; moving funds between them costs time and conversion fees",
+  });
+
+  return { mismatchRisk, riskFlags };
+}
+
+/**
+ * Price a YES + NO pair after fees and settlement costs
+ */
+export function calculateArbitrage(input: ArbitrageCalculationInput): ArbitrageCalculation {
+  const size = input.size ?? DEFAULT_SIZE;
+  const feeRateBps = input.polymarketFeeRateBps ?? 0;
+
+  const yesCost = (size * input.yesPrice) / 100;
+  const noCost = (size * input.noPrice) / 100;
+  const yesFee = tradingFeeUsd(input.buyYesOn, size, input.yesPrice, feeRateBps);
+  const noFee = tradingFeeUsd(input.buyNoOn, size, input.noPrice, feeRateBps);
+  const kalshiFees = (input.buyYesOn === "kalshi" ? yesFee : 0) + (input.buyNoOn === "kalshi" ? noFee : 0);
+  const polymarketFees = (input.buyYesOn === "polymarket" ? yesFee : 0) + (input.buyNoOn === "polymarket" ? noFee : 0);
+
+  // The Polymarket leg is funded in USDC
+  const polymarketCapital = (input.buyYesOn === "polymarket" ? yesCost : 0) + (input.buyNoOn === "polymarket" ? noCost : 0);
+  const settlementCost = ((input.settlementCostBps ?? 0) / 10000) * polymarketCapital;
+
+  const totalCost = yesCost + noCost + kalshiFees + polymarketFees + settlementCost;
+  const netProfit = size - totalCost;
+  const returnPercent = totalCost > 0 ? (netProfit / totalCost) * 100 : 0;
+
+  // Capital is locked until the later leg resolves
+  const dates = [input.polymarketResolutionDate, input.kalshiResolutionDate]
+    .map(date => date ? Date.parse(date) : NaN)
+    .filter(time => !isNaN(time));
+  const resolutionTime = dates.length > 0 ? Math.max(...dates) : undefined;
+  const now = (input.now ?? new Date()).getTime();
+  // Less than a day to go is counted as a day, so the annualised return stays meaningful
+  const daysToResolution = resolutionTime !== undefined ? Math.max((resolutionTime - now) / DAY_MS, 1) : undefined;
+
+  return {
+    buyYesOn: input.buyYesOn,
+    yesPrice: input.yesPrice,
+    buyNoOn: input.buyNoOn,
+    noPrice: input.noPrice,
+    size,
+    yesCost: round(yesCost),
+    noCost: round(noCost),
+    kalshiFees: round(kalshiFees),
+    polymarketFees: round(polymarketFees),
+    settlementCost: round(settlementCost),
+    totalCost: round(totalCost),
+    guaranteedPayout: size,
+    netProfit: round(netProfit),
+    returnPercent: round(returnPercent, 2),
+    resolutionDate: resolutionTime !== undefined ? new Date(resolutionTime).toISOString() : undefined,
+    daysToResolution: daysToResolution !== undefined ? round(daysToResolution, 1) : undefined,
+    annualizedReturnPercent: daysToResolution !== undefined ? round((returnPercent * 365) / daysToResolution, 2) : undefined,
+    ...assessRisks(input),
+  };
+}
+
+/**
+ * The cheaper direction of a pair: YES on Polymarket + NO on Kalshi, or the reverse
+ */
+export function calculateBestArbitrage(
+  prices: { polymarketYes: number; polymarketNo: number; kalshiYes: number; kalshiNo: number },
+  options: Omit<ArbitrageCalculationInput, "buyYesOn" | "yesPrice" | "buyNoOn" | "noPrice"> = {}
+): ArbitrageCalculation {
+  const yesOnPolymarket = calculateArbitrage({
+    ...options,
+    buyYesOn: "polymarket",
+    yesPrice: prices.polymarketYes,
+    buyNoOn: "kalshi",
+    noPrice: prices.kalshiNo,
+  });
+  const yesOnKalshi = calculateArbitrage({
+    ...options,
+    buyYesOn: "kalshi",
+    yesPrice: prices.kalshiYes,
+    buyNoOn: "polymarket",
+    noPrice: prices.polymarketNo,
+  });
+  return yesOnPolymarket.netProfit >= yesOnKalshi.netProfit ? yesOnPolymarket : yesOnKalshi;
+}
+
+/**
+ * A calculation as an opportunity for a $100 payout
+ */
+export function toOpportunity(calculation: ArbitrageCalculation): ArbitrageOpportunity {
+  if (calculation.netProfit <= 0) {
+    return { hasArbitrage: false };
+  }
+
+  const scale = 100 / calculation.size;
+  return {
+    hasArbitrage: true,
+    profitPercent: calculation.returnPercent,
+    annualizedReturnPercent: calculation.annualizedReturnPercent,
+    strategy: {
+      buyYesOn: calculation.buyYesOn,
+      buyYesPrice: round(calculation.yesPrice, 2),
+      buyNoOn: calculation.buyNoOn,
+      buyNoPrice: round(calculation.noPrice, 2),
+      totalCost: round(calculation.totalCost * scale, 2),
+      fees: round((calculation.kalshiFees + calculation.polymarketFees + calculation.settlementCost) * scale, 2),
+      guaranteedPayout: 100,
+      netProfit: round(calculation.netProfit * scale, 2),
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for the order book depth walk
+ *
+ * Run with: deno test supabase/functions/_shared/arbitrage/
+ */
+
+import { assertEquals } from "jsr:@std/assert";
+import { walkDepth } from "./depth.ts";
+import type { DepthLeg, DepthLevel } from "./types.ts";
+
+const yesLeg: DepthLeg = { source: "polymarket", side: "yes", marketId: "token" };
+const noLeg: DepthLeg = { source: "kalshi", side: "no", marketId: "TICKER" };
+
+const cases: Array<{
+  name: string;
+  yesAsks: DepthLevel[];
+  noAsks: DepthLevel[];
+  polymarketFeeRateBps?: number;
+  maxSize: number;
+  maxNetProfit: number;
+  breakEvenSize?: number;
+  bookExhausted: boolean;
+  fees: number[];
+}> = [
+  {
+    // 0.175 + 0.175 of raw Kalshi fees is charged as $0.35, not 2 × $0.18
+    name: "Kalshi fee rounded up once across levels",
+    yesAsks: [{ price: 40, size: 10 }, { price: 45, size: 10 }],
+    noAsks: [{ price: 50, size: 20 }],
+    maxSize: 20,
+    maxNetProfit: 1.15,
+    bookExhausted: true,
+    fees: [0.18, 0.35],
+  },
+  {
+    // The second level loses $1.17 and uses up the $0.82 profit 7.01 contracts in
+    name: "break-even inside a losing level",
+    yesAsks: [{ price: 40, size: 10 }, { price: 60, size: 10 }],
+    noAsks: [{ price: 50, size: 20 }],
+    maxSize: 10,
+    maxNetProfit: 0.82,
+    breakEvenSize: 17.01,
+    bookExhausted: false,
+    fees: [0.18],
+  },
+  {
+    name: "losing level that leaves some profit",
+    yesAsks: [{ price: 30, size: 10 }, { price: 52, size: 10 }],
+    noAsks: [{ price: 50, size: 20 }],
+    maxSize: 10,
+    maxNetProfit: 1.82,
+    bookExhausted: true,
+    fees: [0.18, 0.35],
+  },
+  {
+    // 200 bps × min(0.4, 0.6) × 10 shares = $0.08 on the Polymarket leg
+    name: "Polymarket fee rate",
+    yesAsks: [{ price: 40, size: 10 }],
+    noAsks: [{ price: 50, size: 10 }],
+    polymarketFeeRateBps: 200,
+    maxSize: 10,
+    maxNetProfit: 0.74,
+    bookExhausted: true,
+    fees: [0.26],
+  },
+  {
+    name: "no profitable level",
+    yesAsks: [{ price: 50, size: 10 }],
+    noAsks: [{ price: 50, size: 10 }],
+    maxSize: 0,
+    maxNetProfit: 0,
+    breakEvenSize: 0,
+    bookExhausted: false,
+    fees: [],
+  },
+];
+
+for (const { name, yesAsks, noAsks, polymarketFeeRateBps, fees, ...expected } of cases) {
+  Deno.test(`walkDepth: ${name}`, () => {
+    const depth = walkDepth(yesLeg, yesAsks, noLeg, noAsks, polymarketFeeRateBps);
+    assertEquals(
+      {
+        maxSize: depth.maxSize,
+        maxNetProfit: depth.maxNetProfit,
+        breakEvenSize: depth.breakEvenSize,
+        bookExhausted: depth.bookExhausted,
+      },
+      { breakEvenSize: undefined, ...expected }
+    );
+    assertEquals(depth.curve.map(point => point.fees), fees);
+  });
+}
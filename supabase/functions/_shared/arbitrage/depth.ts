@@ -0,0 +1,205 @@
+/**
+ * Order-book-depth-aware arbitrage sizing
+ *
+ * Walks the asks of both legs together: every contract of YES plus every
+ * contract of NO pays out $1, so buying is profitable while a YES + NO pair
+ * costs under $1 after fees (see calculator.ts). Books come from the public
+ * Polymarket CLOB and Kalshi trade APIs (no authentication).
+ */
+
+import { kalshiTakerFeeRawUsd, roundUpKalshiFeeUsd } from "../kalshi/utils.ts";
+import { estimatePolymarketFeeUsd } from "./calculator.ts";
+import type { ArbitrageDepth, DepthLeg, DepthLevel, DepthPoint } from "./types.ts";
+
+const CLOB_HOST = "https://clob.polymarket.com";
+const KALSHI_API_URL = "https://api.elections.kalshi.com/trade-api/v2";
+
+// Levels walked per leg before giving up on finding the break-even size
+const MAX_LEVELS = 200;
+
+const round = (value: number, decimals: number = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Asks of a Polymarket outcome token, best first
+ */
+async function getPolymarketAsks(tokenId: string): Promise<DepthLevel[]> {
+  const response = await fetch(`${CLOB_HOST}/book?token_id=${encodeURIComponent(tokenId)}`, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`CLOB API error: ${response.status} ${response.statusText}`);
+  }
+
+  const book: { asks?: Array<{ price: string; size: string }> } = await response.json();
+  return (book.asks || [])
+    .map(level => ({ price: parseFloat(level.price) * 100, size: parseFloat(level.size) }))
+    .filter(level => level.size > 0)
+    .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Fee rate of a Polymarket outcome token's market (0 on most markets)
+ */
+async function getPolymarketFeeRateBps(tokenId: string): Promise<number> {
+  const response = await fetch(`${CLOB_HOST}/fee-rate?token_id=${encodeURIComponent(tokenId)}`, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`CLOB API error: ${response.status} ${response.statusText}`);
+  }
+
+  const { base_fee } = await response.json() as { base_fee?: number | string };
+  const feeRateBps = Number(base_fee ?? 0);
+  return isNaN(feeRateBps) ? 0 : feeRateBps;
+}
+
+/**
+ * Asks of one side of a Kalshi market, best first. Kalshi books only hold
+ * bids: a YES contract is sold by whoever bids for NO, at 100 minus the bid.
+ */
+async function getKalshiAsks(ticker: string, side: "yes" | "no"): Promise<DepthLevel[]> {
+  const response = await fetch(`${KALSHI_API_URL}/markets/${encodeURIComponent(ticker)}/orderbook`, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Kalshi API error: ${response.status} ${response.statusText}`);
+  }
+
+  const { orderbook } = await response.json() as {
+    orderbook?: {
+      yes?: [number, number][] | null;
+      no?: [number, number][] | null;
+      yes_dollars?: [string, number][] | null;
+      no_dollars?: [string, number][] | null;
+    };
+  };
+  const opposite = side === "yes" ? "no" : "yes";
+  const cents = orderbook?.[opposite];
+  const dollars = orderbook?.[`${opposite}_dollars`];
+  const bids: DepthLevel[] = cents
+    ? cents.map(([price, size]) => ({ price, size }))
+    : (dollars || []).map(([price, size]) => ({ price: parseFloat(price) * 100, size }));
+
+  return bids
+    .filter(level => level.size > 0)
+    .map(level => ({ price: round(100 - level.price), size: level.size }))
+    .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Asks of an arbitrage leg, best first
+ */
+export async function getLegAsks(leg: DepthLeg): Promise<DepthLevel[]> {
+  return leg.source === "polymarket"
+    ? await getPolymarketAsks(leg.marketId)
+    : await getKalshiAsks(leg.marketId, leg.side);
+}
+
+/**
+ * Walk both legs' asks together, one point per filled level, until the
+ * accumulated profit is gone or a book runs out
+ */
+export function walkDepth(
+  yesLeg: DepthLeg,
+  yesAsks: DepthLevel[],
+  noLeg: DepthLeg,
+  noAsks: DepthLevel[],
+  polymarketFeeRateBps: number = 0
+): ArbitrageDepth {
+  // The walk is priced as one order per leg: Kalshi rounds an order's fee up
+  // to the cent once, so raw Kalshi fees are summed across levels
+  let kalshiRawFees = 0;
+  let polymarketFees = 0;
+  const addLegFee = (leg: DepthLeg, size: number, price: number) => {
+    if (leg.source === "kalshi") kalshiRawFees += kalshiTakerFeeRawUsd(size, price);
+    else polymarketFees += estimatePolymarketFeeUsd(size, price, polymarketFeeRateBps);
+  };
+
+  const curve: DepthPoint[] = [];
+  let yesIndex = 0;
+  let noIndex = 0;
+  let yesLeft = yesAsks[0]?.size ?? 0;
+  let noLeft = noAsks[0]?.size ?? 0;
+  let size = 0;
+  let yesCost = 0;
+  let noCost = 0;
+  let fees = 0;
+  let maxSize = 0;
+  let maxNetProfit = 0;
+  let profitable = true;
+  let breakEvenSize: number | undefined;
+
+  while (yesIndex < Math.min(yesAsks.length, MAX_LEVELS) && noIndex < Math.min(noAsks.length, MAX_LEVELS)) {
+    const yesPrice = yesAsks[yesIndex].price;
+    const noPrice = noAsks[noIndex].price;
+    const fill = Math.min(yesLeft, noLeft);
+    addLegFee(yesLeg, fill, yesPrice);
+    addLegFee(noLeg, fill, noPrice);
+    const fillFees = polymarketFees + roundUpKalshiFeeUsd(kalshiRawFees) - fees;
+    const fillProfit = fill - (fill * (yesPrice + noPrice)) / 100 - fillFees;
+    const profitBefore = size - yesCost - noCost - fees;
+
+    // The accumulated profit runs out within this fill
+    if (fillProfit < 0 && profitBefore + fillProfit <= 0) {
+      breakEvenSize = round(size + (profitBefore / -fillProfit) * fill, 2);
+      break;
+    }
+
+    size += fill;
+    yesCost += (fill * yesPrice) / 100;
+    noCost += (fill * noPrice) / 100;
+    fees += fillFees;
+    const netProfit = size - yesCost - noCost - fees;
+
+    curve.push({
+      size: round(size, 2),
+      yesCost: round(yesCost),
+      noCost: round(noCost),
+      fees: round(fees),
+      netProfit: round(netProfit),
+      averagePairCost: round(((yesCost + noCost + fees) / size) * 100),
+    });
+
+    // Asks only get worse, so the first losing fill ends the profitable size
+    if (fillProfit < 0) profitable = false;
+    if (profitable) {
+      maxSize = size;
+      maxNetProfit = netProfit;
+    }
+
+    yesLeft -= fill;
+    noLeft -= fill;
+    if (yesLeft <= 0) yesLeft = yesAsks[++yesIndex]?.size ?? 0;
+    if (noLeft <= 0) noLeft = noAsks[++noIndex]?.size ?? 0;
+  }
+
+  return {
+    yesLeg,
+    noLeg,
+    yesAsk: yesAsks[0]?.price,
+    noAsk: noAsks[0]?.price,
+    polymarketFeeRateBps,
+    maxSize: round(maxSize, 2),
+    maxNetProfit: round(maxNetProfit),
+    breakEvenSize,
+    bookExhausted: breakEvenSize === undefined,
+    curve,
+  };
+}
+
+/**
+ * Fetch both legs' order books and size the arbitrage against them
+ */
+export async function computeArbitrageDepth(yesLeg: DepthLeg, noLeg: DepthLeg): Promise<ArbitrageDepth> {
+  const polymarketLeg = yesLeg.source === "polymarket" ? yesLeg : noLeg.source === "polymarket" ? noLeg : null;
+  const [yesAsks, noAsks, polymarketFeeRateBps] = await Promise.all([
+    getLegAsks(yesLeg),
+    getLegAsks(noLeg),
+    // Most markets charge no fee, so an unavailable fee rate does not stop the sizing
+    polymarketLeg ? getPolymarketFeeRateBps(polymarketLeg.marketId).catch(() => 0) : 0,
+  ]);
+  return walkDepth(yesLeg, yesAsks, noLeg, noAsks, polymarketFeeRateBps);
+}
@@ -0,0 +1,309 @@
+/**
+ * Two-leg arbitrage execution
+ *
+ * Buys the YES leg on one platform and the NO leg on the other with limit
+ * orders. The Kalshi leg goes first: its fills are whole contracts, so the
+ * Polymarket leg is then bought for exactly what filled. Whatever of an order
+ * has not filled after a short wait is cancelled. If the Polymarket leg falls
+ * short, the Kalshi contracts left without a partner are sold back at the best
+ * bid, so only paired contracts are held. A fractional Polymarket shortfall
+ * unwinds a whole Kalshi contract, leaving a sub-share Polymarket remainder.
+ */
+
+import type { KalshiClient } from "../kalshi/client.ts";
+import type { PolymarketClient } from "../polymarket/client.ts";
+import { createLogEntry } from "../polymarket/utils.ts";
+import type { BotLogEntry } from "../polymarket/types.ts";
+import { calculateArbitrage } from "./calculator.ts";
+import type {
+  ArbitrageExecution,
+  ArbitrageExecutionPlan,
+  ArbitrageLegExecution,
+  ArbitrageMarketSource,
+  ArbitragePositionStatus,
+} from "./types.ts";
+
+// Time an order may rest before its remainder is cancelled
+const FILL_WAIT_MS = 5000;
+const POLL_INTERVAL_MS = 1000;
+
+// Polymarket orders need at least 5 shares
+export const MIN_POLYMARKET_SHARES = 5;
+
+/**
+ * Trading clients of both platforms
+ */
+export interface ArbitrageClients {
+  polymarket: PolymarketClient;
+  kalshi: KalshiClient;
+}
+
+const PLATFORM_NAMES: Record<ArbitrageMarketSource, string> = {
+  polymarket: "Polymarket",
+  kalshi: "Kalshi",
+};
+
+const round = (value: number, decimals: number = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Contracts an order has filled, or null if it could not be fetched
+ */
+async function getFilled(clients: ArbitrageClients, source: ArbitrageMarketSource, orderId: string): Promise<number | null> {
+  if (source === "polymarket") {
+    const order = await clients.polymarket.getOrder(orderId);
+    return order ? parseFloat(order.size_matched) || 0 : null;
+  }
+  const order = await clients.kalshi.getOrder(orderId);
+  return order ? order.fill_count ?? 0 : null;
+}
+
+async function cancelOrder(clients: ArbitrageClients, source: ArbitrageMarketSource, orderId: string): Promise<boolean> {
+  if (source === "polymarket") {
+    const result = await clients.polymarket.cancelOrder(orderId);
+    return result.canceled.includes(orderId);
+  }
+  return await clients.kalshi.cancelOrder(orderId);
+}
+
+/**
+ * Wait for an order to fill, then cancel its remainder.
+ * `known` is false if the order's fills could never be read.
+ */
+async function fillOrCancel(
+  clients: ArbitrageClients,
+  source: ArbitrageMarketSource,
+  orderId: string,
+  size: number
+): Promise<{ filled: number; known: boolean; error?: string }> {
+  const deadline = Date.now() + FILL_WAIT_MS;
+  let filled: number | null = null;
+
+  while (true) {
+    filled = (await getFilled(clients, source, orderId)) ?? filled;
+    if ((filled ?? 0) >= size || Date.now() >= deadline) break;
+    await sleep(POLL_INTERVAL_MS);
+  }
+  if (filled !== null && filled >= size) {
+    return { filled, known: true };
+  }
+
+  const cancelled = await cancelOrder(clients, source, orderId);
+  // Fills may land between the last check and the cancel
+  filled = (await getFilled(clients, source, orderId)) ?? filled;
+
+  if (filled === null) {
+    return { filled: 0, known: false, error: `The fills of order ${orderId} could not be read` };
+  }
+
+  return cancelled || filled >= size
+    ? { filled, known: true }
+    : { filled, known: true, error: `The unfilled remainder of order ${orderId} could not be cancelled` };
+}
+
+/**
+ * Buy a leg and record its fills on it.
+ * Returns false if the order was placed but its fills could not be read.
+ */
+async function buyLeg(
+  clients: ArbitrageClients,
+  plan: ArbitrageExecutionPlan,
+  leg: ArbitrageLegExecution,
+  logs: BotLogEntry[]
+): Promise<boolean> {
+  const platform = PLATFORM_NAMES[leg.source];
+  logs.push(createLogEntry("INFO", `Buying ${leg.requested} ${leg.side.toUpperCase()} on ${platform} at ${leg.limitPrice}¢`));
+
+  const placed = leg.source === "polymarket"
+    ? await clients.polymarket.placeOrder({
+      tokenId: leg.marketId,
+      price: leg.limitPrice / 100,
+      size: leg.requested,
+      side: "BUY",
+      tickSize: plan.polymarketTickSize,
+      negRisk: plan.polymarketNegRisk,
+    })
+    : await clients.kalshi.placeOrder({
+      ticker: leg.marketId,
+      side: leg.side,
+      action: "buy",
+      count: leg.requested,
+      priceCents: leg.limitPrice,
+    });
+
+  if (!placed.success || !placed.orderId) {
+    leg.error = placed.errorMsg || "Order placement failed";
+    logs.push(createLogEntry("ERROR", `${platform} ${leg.side.toUpperCase()} order failed: ${leg.error}`));
+    return true;
+  }
+
+  leg.orderId = placed.orderId;
+  const { filled, known, error } = await fillOrCancel(clients, leg.source, placed.orderId, leg.requested);
+  leg.filled = round(filled);
+  leg.error = error;
+
+  logs.push(createLogEntry(
+    error ? "ERROR" : leg.filled < leg.requested ? "WARN" : "SUCCESS",
+    known
+      ? `${platform} ${leg.side.toUpperCase()} filled ${leg.filled}/${leg.requested}${error ? `: ${error}` : ""}`
+      : `${platform} ${leg.side.toUpperCase()} fills unknown: ${error}`
+  ));
+  return known;
+}
+
+/**
+ * Sell back Kalshi contracts bought without their Polymarket partner
+ */
+async function unwindKalshiLeg(
+  clients: ArbitrageClients,
+  leg: ArbitrageLegExecution,
+  count: number,
+  logs: BotLogEntry[]
+): Promise<void> {
+  const market = await clients.kalshi.getMarket(leg.marketId);
+  const bid = market ? (leg.side === "yes" ? market.yes_bid : market.no_bid) : 0;
+  if (!bid || bid <= 0) {
+    leg.error = `No ${leg.side.toUpperCase()} bids on Kalshi to unwind ${count} contract(s) into`;
+    logs.push(createLogEntry("ERROR", leg.error));
+    return;
+  }
+
+  logs.push(createLogEntry("WARN", `Unwinding ${count} Kalshi ${leg.side.toUpperCase()} contract(s) at ${bid}¢`));
+  const placed = await clients.kalshi.placeOrder({
+    ticker: leg.marketId,
+    side: leg.side,
+    action: "sell",
+    count,
+    priceCents: bid,
+  });
+
+  if (!placed.success || !placed.orderId) {
+    leg.error = `Unwind failed: ${placed.errorMsg || "order placement failed"}`;
+    logs.push(createLogEntry("ERROR", leg.error));
+    return;
+  }
+
+  leg.unwindOrderId = placed.orderId;
+  leg.unwindPrice = bid;
+  const { filled, error } = await fillOrCancel(clients, "kalshi", placed.orderId, count);
+  leg.unwound = filled;
+  if (error || filled < count) {
+    leg.error = `Unwound ${filled}/${count} contract(s)${error ? `: ${error}` : ""}`;
+  }
+
+  logs.push(createLogEntry(leg.error ? "ERROR" : "SUCCESS", `Unwound ${filled}/${count} Kalshi contract(s)`));
+}
+
+function newLeg(plan: ArbitrageExecutionPlan, side: "yes" | "no"): ArbitrageLegExecution {
+  const leg = side === "yes" ? plan.yesLeg : plan.noLeg;
+  return {
+    ...leg,
+    limitPrice: side === "yes" ? plan.yesLimit : plan.noLimit,
+    requested: 0,
+    filled: 0,
+    unwound: 0,
+  };
+}
+
+/**
+ * Execute both legs of an arbitrage. The plan must have one leg on each platform.
+ */
+export async function executeArbitrage(
+  clients: ArbitrageClients,
+  plan: ArbitrageExecutionPlan,
+  logs: BotLogEntry[]
+): Promise<ArbitrageExecution> {
+  const yesLeg = newLeg(plan, "yes");
+  const noLeg = newLeg(plan, "no");
+  const [kalshiLeg, polymarketLeg] = yesLeg.source === "kalshi" ? [yesLeg, noLeg] : [noLeg, yesLeg];
+
+  kalshiLeg.requested = plan.size;
+  const kalshiFillsKnown = await buyLeg(clients, plan, kalshiLeg, logs);
+  let polymarketFillsKnown = true;
+
+  if (!kalshiFillsKnown) {
+    logs.push(createLogEntry("ERROR", "Kalshi fills are unknown, the Polymarket leg was not bought"));
+  } else if (kalshiLeg.filled >= MIN_POLYMARKET_SHARES) {
+    polymarketLeg.requested = kalshiLeg.filled;
+    polymarketFillsKnown = await buyLeg(clients, plan, polymarketLeg, logs);
+  } else if (kalshiLeg.filled > 0) {
+    logs.push(createLogEntry("WARN", `Only ${kalshiLeg.filled} Kalshi contract(s) filled, below the ${MIN_POLYMARKET_SHARES} share Polymarket minimum`));
+  }
+
+  // With a leg's fills unknown, nothing is unwound: selling back Kalshi contracts
+  // could leave Polymarket shares that did fill without a hedge.
+  if (!kalshiFillsKnown || !polymarketFillsKnown) {
+    const unknownSize = kalshiFillsKnown ? kalshiLeg.filled : kalshiLeg.requested;
+    logs.push(createLogEntry("ERROR", `Arbitrage unhedged: fills are unknown, check up to ${unknownSize} contract(s) by hand`));
+
+    return {
+      title: plan.title,
+      polymarketId: plan.polymarketId,
+      kalshiId: plan.kalshiId,
+      yesLeg,
+      noLeg,
+      status: "unhedged",
+      size: 0,
+      costUsd: 0,
+      expectedProfitUsd: 0,
+      unhedgedSize: unknownSize,
+      resolutionDate: plan.resolutionDate,
+    };
+  }
+
+  // Leg-risk protection: never hold Kalshi contracts without their Polymarket partner.
+  // Kalshi only sells whole contracts, so a fractional Polymarket fill unwinds the
+  // partly paired contract too.
+  const excess = Math.ceil(kalshiLeg.filled - polymarketLeg.filled - 1e-9);
+  if (excess > 0) {
+    await unwindKalshiLeg(clients, kalshiLeg, excess, logs);
+  }
+
+  const kalshiHeld = kalshiLeg.filled - kalshiLeg.unwound;
+  const paired = Math.min(kalshiHeld, polymarketLeg.filled);
+  const polymarketExcess = round(polymarketLeg.filled - paired);
+  if (polymarketExcess > 0 && polymarketExcess < MIN_POLYMARKET_SHARES) {
+    logs.push(createLogEntry("WARN", `${polymarketExcess} Polymarket share(s) left over from the unwind are below the ${MIN_POLYMARKET_SHARES} share minimum and cannot be sold`));
+  }
+
+  const unhedgedSize = round(kalshiHeld - paired + polymarketExcess);
+  let status: ArbitragePositionStatus;
+  if (unhedgedSize > 0) status = "unhedged";
+  else if (paired > 0) status = "open";
+  else if (kalshiLeg.filled > 0) status = "unwound";
+  else status = "cancelled";
+
+  // Cost and profit of the pairs at the limit prices; fills can only be cheaper
+  const calculation = paired > 0
+    ? calculateArbitrage({
+      buyYesOn: yesLeg.source,
+      yesPrice: yesLeg.limitPrice,
+      buyNoOn: noLeg.source,
+      noPrice: noLeg.limitPrice,
+      size: paired,
+      polymarketFeeRateBps: plan.polymarketFeeRateBps,
+    })
+    : null;
+
+  logs.push(createLogEntry(
+    status === "open" ? "SUCCESS" : status === "unhedged" ? "ERROR" : "WARN",
+    `Arbitrage ${status}: ${round(paired, 2)} pair(s)${unhedgedSize > 0 ? `, ${unhedgedSize} contract(s) unhedged` : ""}`
+  ));
+
+  return {
+    title: plan.title,
+    polymarketId: plan.polymarketId,
+    kalshiId: plan.kalshiId,
+    yesLeg,
+    noLeg,
+    status,
+    size: round(paired),
+    costUsd: calculation?.totalCost ?? 0,
+    expectedProfitUsd: calculation?.netProfit ?? 0,
+    unhedgedSize,
+    resolutionDate: plan.resolutionDate,
+  };
+}
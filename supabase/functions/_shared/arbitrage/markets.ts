@@ -0,0 +1,177 @@
+/**
+ * Open market listings for the arbitrage scanner
+ *
+ * Polymarket events come from the public Gamma API, Kalshi events from DFlow.
+ * Both are listed by recent volume and flattened into binary markets with
+ * YES/NO ask prices on a 0-100 scale.
+ */
+
+import { request as dflowRequest } from "../dflow/client.ts";
+import type { ScanMarket } from "./types.ts";
+
+const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+const PAGE_SIZE = 100;
+
+interface GammaMarket {
+  conditionId?: string;
+  question?: string;
+  outcomePrices?: string;
+  bestBid?: number;
+  bestAsk?: number;
+  volumeNum?: number;
+  endDate?: string;
+  active?: boolean;
+  closed?: boolean;
+}
+
+interface GammaEvent {
+  slug: string;
+  title: string;
+  markets?: GammaMarket[];
+}
+
+interface DFlowMarket {
+  ticker: string;
+  title?: string;
+  yesSubTitle?: string;
+  status?: string;
+  yesBid?: string | null;
+  yesAsk?: string | null;
+  noBid?: string | null;
+  noAsk?: string | null;
+  volume?: number;
+  /** Unix timestamp (seconds) */
+  closeTime?: number;
+}
+
+interface DFlowEventsResponse {
+  cursor?: number;
+  events: Array<{
+    ticker: string;
+    title: string;
+    markets?: DFlowMarket[];
+  }>;
+}
+
+/**
+ * A 0-1 price string or number on the 0-100 scale, or null when missing
+ */
+function toPercent(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const price = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(price) ? null : price * 100;
+}
+
+/**
+ * Only prices strictly between 0 and 100 can be bought
+ */
+const isTradable = (price: number | null): price is number => price !== null && price > 0 && price < 100;
+
+/**
+ * Binary markets of the most traded open Polymarket events
+ */
+export async function listPolymarketMarkets(maxEvents: number): Promise<ScanMarket[]> {
+  const markets: ScanMarket[] = [];
+
+  for (let offset = 0; offset < maxEvents; offset += PAGE_SIZE) {
+    const limit = Math.min(PAGE_SIZE, maxEvents - offset);
+    const response = await fetch(
+      `${GAMMA_API_URL}/events?active=true&closed=false&order=volume24hr&ascending=false&limit=${limit}&offset=${offset}`,
+      { method: "GET", headers: { "Content-Type": "application/json" } }
+    );
+    if (!response.ok) {
+      throw new Error(`Gamma API error: ${response.status} ${response.statusText}`);
+    }
+
+    const events: GammaEvent[] = await response.json();
+    for (const event of events) {
+      for (const market of event.markets ?? []) {
+        if (!market.conditionId || !market.question || market.closed || market.active === false) continue;
+
+        let prices: string[] = [];
+        try {
+          prices = JSON.parse(market.outcomePrices || "[]");
+        } catch {
+          // Priced from the book only
+        }
+
+        // NO is bought at 1 - best YES bid
+        const yesAsk = toPercent(market.bestAsk) ?? toPercent(prices[0]);
+        const noAsk = market.bestBid ? 100 - market.bestBid * 100 : toPercent(prices[1]);
+        if (!isTradable(yesAsk) || !isTradable(noAsk)) continue;
+
+        markets.push({
+          source: "polymarket",
+          eventId: event.slug,
+          eventTitle: event.title,
+          marketId: market.conditionId,
+          title: market.question,
+          yesAsk,
+          noAsk,
+          volume: market.volumeNum,
+          closeTime: market.endDate,
+          url: `https://polymarket.com/event/${event.slug}`,
+        });
+      }
+    }
+
+    if (events.length < limit) break;
+  }
+
+  return markets;
+}
+
+/**
+ * Markets of the open Kalshi events, via DFlow
+ */
+export async function listKalshiMarkets(maxEvents: number): Promise<ScanMarket[]> {
+  const markets: ScanMarket[] = [];
+  let cursor: number | undefined;
+  let eventsSeen = 0;
+
+  while (eventsSeen < maxEvents) {
+    const limit = Math.min(PAGE_SIZE, maxEvents - eventsSeen);
+    const response = await dflowRequest<DFlowEventsResponse>("/events", {
+      params: {
+        status: "active",
+        withNestedMarkets: true,
+        limit,
+        cursor,
+      },
+    });
+
+    const events = response.events ?? [];
+    eventsSeen += events.length;
+
+    for (const event of events) {
+      for (const market of event.markets ?? []) {
+        if (market.status && market.status !== "active") continue;
+
+        const yesBid = toPercent(market.yesBid);
+        const yesAsk = toPercent(market.yesAsk);
+        const noAsk = toPercent(market.noAsk) ?? (yesBid !== null ? 100 - yesBid : null);
+        if (!isTradable(yesAsk) || !isTradable(noAsk)) continue;
+
+        // Outcome markets of a multi-market event only name the outcome
+        const outcome = market.yesSubTitle || market.title || "";
+        markets.push({
+          source: "kalshi",
+          eventId: event.ticker,
+          eventTitle: event.title,
+          marketId: market.ticker,
+          title: outcome && !event.title.includes(outcome) ? `${event.title} ${outcome}` : event.title,
+          yesAsk,
+          noAsk,
+          volume: market.volume,
+          closeTime: market.closeTime ? new Date(market.closeTime * 1000).toISOString() : undefined,
+          url: `https://kalshi.com/events/${event.ticker}`,
+        });
+      }
+    }
+
+    if (!response.cursor || events.length < limit) break;
+    cursor = response.cursor;
+  }
+
+  return markets;
+}
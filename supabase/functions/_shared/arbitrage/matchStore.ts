@@ -0,0 +1,304 @@
+/**
+ * Market Match Store
+ *
+ * Database access for the arbitrage_market_matches table: Polymarket <-> Kalshi
+ * pairs known to ask the same question (confirmed) or not (rejected).
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type {
+  MarketMatch,
+  MarketMatchFilter,
+  MarketMatchInput,
+  MarketMatchReviewer,
+  MarketMatchSource,
+  MarketMatchStatus,
+  MarketMatchUpdate,
+} from "./types.ts";
+
+export const DEFAULT_MATCH_LIMIT = 200;
+export const MAX_MATCH_LIMIT = 5000;
+
+const MAX_TITLE_LENGTH = 500;
+const MAX_NOTES_LENGTH = 4000;
+
+/**
+ * arbitrage_market_matches row
+ */
+interface MarketMatchRow {
+  id: string;
+  polymarket_id: string;
+  polymarket_slug: string | null;
+  polymarket_title: string;
+  kalshi_ticker: string;
+  kalshi_event_ticker: string | null;
+  kalshi_title: string;
+  status: MarketMatchStatus;
+  confidence: number | null;
+  matched_by: MarketMatchSource;
+  reviewed_by: MarketMatchReviewer | null;
+  reviewed_at: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toMarketMatch(row: MarketMatchRow): MarketMatch {
+  return {
+    id: row.id,
+    polymarketId: row.polymarket_id,
+    polymarketSlug: row.polymarket_slug ?? undefined,
+    polymarketTitle: row.polymarket_title,
+    kalshiTicker: row.kalshi_ticker,
+    kalshiEventTicker: row.kalshi_event_ticker ?? undefined,
+    kalshiTitle: row.kalshi_title,
+    status: row.status,
+    confidence: row.confidence === null ? undefined : Number(row.confidence),
+    matchedBy: row.matched_by,
+    reviewedBy: row.reviewed_by ?? undefined,
+    reviewedAt: row.reviewed_at ?? undefined,
+    resolutionNotes: row.resolution_notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const isValidConfidence = (value: unknown) =>
+  value === undefined || (typeof value === "number" && value >= 0 && value <= 100);
+
+/**
+ * Validate editable match fields, returning the first problem found
+ */
+export function validateMatchUpdate(update: MarketMatchUpdate): string | null {
+  if (!update || typeof update !== "object") return "Missing match";
+  for (const key of ["polymarketTitle", "kalshiTitle"] as const) {
+    const title = update[key];
+    if (title !== undefined && (typeof title !== "string" || !title.trim() || title.length > MAX_TITLE_LENGTH)) {
+      return `${key} must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`;
+    }
+  }
+  if (!isValidConfidence(update.confidence)) return "confidence must be a number from 0 to 100";
+  if (update.resolutionNotes !== undefined && (typeof update.resolutionNotes !== "string" || update.resolutionNotes.length > MAX_NOTES_LENGTH)) {
+    return `resolutionNotes must be a string of at most ${MAX_NOTES_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Validate a new match, returning the first problem found
+ */
+export function validateMatchInput(input: MarketMatchInput): string | null {
+  if (!input || typeof input !== "object") return "Missing match";
+  if (typeof input.polymarketId !== "string" || !input.polymarketId.trim()) return "polymarketId is required";
+  if (typeof input.kalshiTicker !== "string" || !input.kalshiTicker.trim()) return "kalshiTicker is required";
+  if (!input.polymarketTitle || !input.kalshiTitle) return "polymarketTitle and kalshiTitle are required";
+  return validateMatchUpdate(input);
+}
+
+/**
+ * Stored fields of a validated match
+ */
+function toRowFields(input: MarketMatchInput) {
+  return {
+    polymarket_id: input.polymarketId.trim(),
+    polymarket_slug: input.polymarketSlug?.trim() || null,
+    polymarket_title: input.polymarketTitle.trim(),
+    kalshi_ticker: input.kalshiTicker.trim().toUpperCase(),
+    kalshi_event_ticker: input.kalshiEventTicker?.trim().toUpperCase() || null,
+    kalshi_title: input.kalshiTitle.trim(),
+    confidence: input.confidence ?? null,
+    resolution_notes: input.resolutionNotes?.trim() || null,
+  };
+}
+
+/**
+ * List matches, most recently updated first
+ */
+export async function listMatches(db: DbClient, filter: MarketMatchFilter = {}): Promise<MarketMatch[]> {
+  let query = db
+    .from("arbitrage_market_matches")
+    .select("*");
+
+  if (filter.statuses && filter.statuses.length > 0) {
+    query = query.in("status", filter.statuses);
+  }
+  // Commas and parentheses would break the or() filters
+  const clean = (value: string) => value.trim().replace(/[,()*%]/g, " ");
+  if (filter.polymarketId) {
+    const id = clean(filter.polymarketId);
+    query = query.or(`polymarket_id.eq.${id},polymarket_slug.eq.${id}`);
+  }
+  if (filter.kalshiTicker) {
+    const ticker = clean(filter.kalshiTicker).toUpperCase();
+    query = query.or(`kalshi_ticker.eq.${ticker},kalshi_event_ticker.eq.${ticker}`);
+  }
+  if (filter.search?.trim()) {
+    const fragment = clean(filter.search);
+    query = query.or(`polymarket_title.ilike.*${fragment}*,kalshi_title.ilike.*${fragment}*`);
+  }
+
+  const limit = Math.min(Math.max(filter.limit || DEFAULT_MATCH_LIMIT, 1), MAX_MATCH_LIMIT);
+  const { data, error } = await query
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list market matches: ${error.message}`);
+  }
+
+  return (data as MarketMatchRow[]).map(toMarketMatch);
+}
+
+/**
+ * Get the match of a Polymarket and a Kalshi market. Returns null if there is none.
+ */
+async function findMatch(db: DbClient, polymarketId: string, kalshiTicker: string): Promise<MarketMatch | null> {
+  const { data, error } = await db
+    .from("arbitrage_market_matches")
+    .select("*")
+    .eq("polymarket_id", polymarketId.trim())
+    .eq("kalshi_ticker", kalshiTicker.trim().toUpperCase())
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get market match: ${error.message}`);
+  }
+
+  return data ? toMarketMatch(data as MarketMatchRow) : null;
+}
+
+/**
+ * Save a match reviewed by a person, replacing whatever was stored for the pair
+ */
+export async function saveReviewedMatch(
+  db: DbClient,
+  input: MarketMatchInput,
+  status: "confirmed" | "rejected"
+): Promise<MarketMatch> {
+  const now = new Date().toISOString();
+  const { data, error } = await db
+    .from("arbitrage_market_matches")
+    .upsert({
+      ...toRowFields(input),
+      status,
+      matched_by: "human",
+      reviewed_by: "human",
+      reviewed_at: now,
+      updated_at: now,
+    }, { onConflict: "polymarket_id,kalshi_ticker" })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save market match: ${error.message}`);
+  }
+
+  return toMarketMatch(data as MarketMatchRow);
+}
+
+/**
+ * Record a model's same-market judgement. Matches reviewed by a person are
+ * left as they are; otherwise the pair is confirmed by the model when it is
+ * confident enough, or kept as a suggestion.
+ */
+export async function recordModelMatch(
+  db: DbClient,
+  input: MarketMatchInput,
+  confirmed: boolean
+): Promise<MarketMatch> {
+  const existing = await findMatch(db, input.polymarketId, input.kalshiTicker);
+  if (existing?.reviewedBy === "human") {
+    return existing;
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await db
+    .from("arbitrage_market_matches")
+    .upsert({
+      ...toRowFields(input),
+      status: confirmed ? "confirmed" : "suggested",
+      matched_by: existing?.matchedBy ?? "llm",
+      reviewed_by: confirmed ? "llm" : null,
+      reviewed_at: confirmed ? now : null,
+      updated_at: now,
+    }, { onConflict: "polymarket_id,kalshi_ticker" })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record market match: ${error.message}`);
+  }
+
+  return toMarketMatch(data as MarketMatchRow);
+}
+
+/**
+ * Confirm or reject a match on behalf of a person. Returns null if it does not exist.
+ */
+export async function reviewMatch(
+  db: DbClient,
+  id: string,
+  status: "confirmed" | "rejected",
+  resolutionNotes?: string
+): Promise<MarketMatch | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await db
+    .from("arbitrage_market_matches")
+    .update({
+      status,
+      reviewed_by: "human",
+      reviewed_at: now,
+      updated_at: now,
+      ...(resolutionNotes !== undefined ? { resolution_notes: resolutionNotes.trim() || null } : {}),
+    })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to review market match: ${error.message}`);
+  }
+
+  return data ? toMarketMatch(data as MarketMatchRow) : null;
+}
+
+/**
+ * Edit the titles, confidence or notes of a match. Returns null if it does not exist.
+ */
+export async function updateMatch(db: DbClient, id: string, update: MarketMatchUpdate): Promise<MarketMatch | null> {
+  const fields: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (update.polymarketTitle !== undefined) fields.polymarket_title = update.polymarketTitle.trim();
+  if (update.kalshiTitle !== undefined) fields.kalshi_title = update.kalshiTitle.trim();
+  if (update.confidence !== undefined) fields.confidence = update.confidence;
+  if (update.resolutionNotes !== undefined) fields.resolution_notes = update.resolutionNotes.trim() || null;
+
+  const { data, error } = await db
+    .from("arbitrage_market_matches")
+    .update(fields)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update market match: ${error.message}`);
+  }
+
+  return data ? toMarketMatch(data as MarketMatchRow) : null;
+}
+
+/**
+ * Delete a match. Returns false if it does not exist.
+ */
+export async function deleteMatch(db: DbClient, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from("arbitrage_market_matches")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete market match: ${error.message}`);
+  }
+
+  return (data as { id: string }[]).length > 0;
+}
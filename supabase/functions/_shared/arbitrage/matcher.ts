@@ -0,0 +1,174 @@
+/**
+ * Deterministic market matching for the arbitrage scanner
+ *
+ * Pairs Polymarket and Kalshi markets by title similarity (Dice coefficient
+ * over normalized words). Numbers in a title (strikes, years, dates) must
+ * agree, and markets closing more than a month apart are never paired. Each
+ * market is used in at most one pair, best score first. Matches reviewed in
+ * the match index take precedence over titles.
+ */
+
+import type { MarketMatch, MarketPair, ScanMarket } from "./types.ts";
+
+export const DEFAULT_MIN_MATCH_SCORE = 0.6;
+
+// Markets whose close times differ by more than this are different questions
+const MAX_CLOSE_TIME_GAP_MS = 31 * 24 * 60 * 60 * 1000;
+// Words shared by this many Kalshi markets are too common to find candidates with
+const MAX_POSTINGS = 300;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "will", "be", "is", "are", "of", "in", "on", "at", "to", "for", "by",
+  "and", "or", "who", "what", "which", "does", "do", "with", "this", "that", "than",
+]);
+
+/**
+ * Normalized words of a title: lowercase, without punctuation, stopwords or
+ * thousands separators ("$100,000" and "100k" both become "100000")
+ */
+export function tokenize(title: string): Set<string> {
+  const normalized = title
+    .toLowerCase()
+    .replace(/(\d),(\d{3})/g, "$1$2")
+    .replace(/(\d+(?:\.\d+)?)k\b/g, (_, n) => String(parseFloat(n) * 1000))
+    .replace(/[^a-z0-9.%]+/g, " ")
+    .replace(/\.(?!\d)/g, " ");
+
+  return new Set(normalized.split(" ").filter(word => word && !STOPWORDS.has(word)));
+}
+
+const isNumber = (word: string) => /\d/.test(word);
+
+/**
+ * Similarity of two titles' words (0-1). 0 when their numbers disagree.
+ */
+export function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  // Every number of the title with fewer numbers must appear in the other
+  const numbersA = [...a].filter(isNumber);
+  const numbersB = [...b].filter(isNumber);
+  const [fewer, other] = numbersA.length <= numbersB.length ? [numbersA, b] : [numbersB, a];
+  if (!fewer.every(n => other.has(n))) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+function closeTimesCompatible(a: ScanMarket, b: ScanMarket): boolean {
+  if (!a.closeTime || !b.closeTime) return true;
+  return Math.abs(Date.parse(a.closeTime) - Date.parse(b.closeTime)) <= MAX_CLOSE_TIME_GAP_MS;
+}
+
+/**
+ * Pair Polymarket markets with the Kalshi markets asking the same question
+ */
+export function matchMarkets(
+  polymarketMarkets: ScanMarket[],
+  kalshiMarkets: ScanMarket[],
+  minScore: number = DEFAULT_MIN_MATCH_SCORE,
+  isExcluded: (polymarket: ScanMarket, kalshi: ScanMarket) => boolean = () => false
+): MarketPair[] {
+  const kalshiWords = kalshiMarkets.map(m => tokenize(m.title));
+
+  // Kalshi markets by word, to only score markets sharing a word
+  const postings = new Map<string, number[]>();
+  kalshiWords.forEach((words, index) => {
+    for (const word of words) {
+      const list = postings.get(word);
+      if (list) list.push(index);
+      else postings.set(word, [index]);
+    }
+  });
+
+  const candidates: { polymarket: number; kalshi: number; score: number }[] = [];
+  polymarketMarkets.forEach((market, polymarketIndex) => {
+    const words = tokenize(market.title);
+    const considered = new Set<number>();
+
+    for (const word of words) {
+      const list = postings.get(word);
+      if (!list || list.length > MAX_POSTINGS) continue;
+
+      for (const kalshiIndex of list) {
+        if (considered.has(kalshiIndex)) continue;
+        considered.add(kalshiIndex);
+
+        const kalshi = kalshiMarkets[kalshiIndex];
+        if (!closeTimesCompatible(market, kalshi) || isExcluded(market, kalshi)) continue;
+        const score = titleSimilarity(words, kalshiWords[kalshiIndex]);
+        if (score >= minScore) {
+          candidates.push({ polymarket: polymarketIndex, kalshi: kalshiIndex, score });
+        }
+      }
+    }
+  });
+
+  // Best pairs first, each market once
+  candidates.sort((a, b) => b.score - a.score);
+  const usedPolymarket = new Set<number>();
+  const usedKalshi = new Set<number>();
+  const pairs: MarketPair[] = [];
+
+  for (const candidate of candidates) {
+    if (usedPolymarket.has(candidate.polymarket) || usedKalshi.has(candidate.kalshi)) continue;
+    usedPolymarket.add(candidate.polymarket);
+    usedKalshi.add(candidate.kalshi);
+    pairs.push({
+      polymarket: polymarketMarkets[candidate.polymarket],
+      kalshi: kalshiMarkets[candidate.kalshi],
+      matchScore: Math.round(candidate.score * 1000) / 1000,
+    });
+  }
+
+  return pairs;
+}
+
+const pairKey = (polymarketId: string, kalshiTicker: string) => `${polymarketId}:${kalshiTicker.toUpperCase()}`;
+
+/**
+ * Pair markets using reviewed matches first: confirmed pairs are always
+ * formed, rejected pairs never are, and the remaining markets are paired by title
+ */
+export function matchMarketsWithReviews(
+  polymarketMarkets: ScanMarket[],
+  kalshiMarkets: ScanMarket[],
+  reviewed: MarketMatch[],
+  minScore: number = DEFAULT_MIN_MATCH_SCORE
+): MarketPair[] {
+  const polymarketById = new Map(polymarketMarkets.map(m => [m.marketId, m]));
+  const kalshiByTicker = new Map(kalshiMarkets.map(m => [m.marketId.toUpperCase(), m]));
+  const rejected = new Set<string>();
+  const pairs: MarketPair[] = [];
+
+  for (const match of reviewed) {
+    if (match.status === "rejected") {
+      rejected.add(pairKey(match.polymarketId, match.kalshiTicker));
+      continue;
+    }
+    if (match.status !== "confirmed") continue;
+
+    const polymarket = polymarketById.get(match.polymarketId);
+    const kalshi = kalshiByTicker.get(match.kalshiTicker.toUpperCase());
+    if (!polymarket || !kalshi) continue;
+
+    // Each market once
+    polymarketById.delete(match.polymarketId);
+    kalshiByTicker.delete(match.kalshiTicker.toUpperCase());
+    pairs.push({ polymarket, kalshi, matchScore: 1, matchId: match.id, matchStatus: "confirmed" });
+  }
+
+  const titlePairs = matchMarkets(
+    [...polymarketById.values()],
+    [...kalshiByTicker.values()],
+    minScore,
+    (polymarket, kalshi) => rejected.has(pairKey(polymarket.marketId, kalshi.marketId))
+  );
+
+  return [...pairs, ...titlePairs];
+}
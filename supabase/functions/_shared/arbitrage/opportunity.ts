@@ -0,0 +1,33 @@
+/**
+ * Arbitrage math for a matched market pair
+ *
+ * Buying YES on one platform and NO on the other pays out $100 per 100 shares
+ * whichever way the market resolves. When the two asks plus fees add up to
+ * less than 100, the difference is locked in.
+ */
+
+import { calculateBestArbitrage, toOpportunity } from "./calculator.ts";
+import type { ArbitrageOpportunity, MarketPair } from "./types.ts";
+
+/**
+ * Cheapest YES + NO combination of a pair at the listed ask prices, after fees
+ */
+export function computeOpportunity(pair: MarketPair): ArbitrageOpportunity {
+  const { polymarket, kalshi } = pair;
+
+  const calculation = calculateBestArbitrage(
+    {
+      polymarketYes: polymarket.yesAsk,
+      polymarketNo: polymarket.noAsk,
+      kalshiYes: kalshi.yesAsk,
+      kalshiNo: kalshi.noAsk,
+    },
+    {
+      polymarketResolutionDate: polymarket.closeTime,
+      kalshiResolutionDate: kalshi.closeTime,
+      humanConfirmed: pair.matchStatus === "confirmed",
+    }
+  );
+
+  return toOpportunity(calculation);
+}
@@ -0,0 +1,108 @@
+/**
+ * Arbitrage Position Store
+ *
+ * Database access for the arbitrage_positions table: the combined YES + NO
+ * positions bought by the arbitrage executor.
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type {
+  ArbitrageExecution,
+  ArbitrageLegExecution,
+  ArbitragePosition,
+  ArbitragePositionFilter,
+  ArbitragePositionStatus,
+} from "./types.ts";
+
+export const DEFAULT_POSITION_LIMIT = 50;
+export const MAX_POSITION_LIMIT = 500;
+
+/**
+ * arbitrage_positions row
+ */
+interface ArbitragePositionRow {
+  id: string;
+  title: string;
+  polymarket_id: string | null;
+  kalshi_id: string | null;
+  yes_leg: ArbitrageLegExecution;
+  no_leg: ArbitrageLegExecution;
+  status: ArbitragePositionStatus;
+  size: number;
+  cost_usd: number;
+  expected_profit_usd: number;
+  unhedged_size: number;
+  resolution_date: string | null;
+  created_at: string;
+}
+
+function toArbitragePosition(row: ArbitragePositionRow): ArbitragePosition {
+  return {
+    id: row.id,
+    title: row.title,
+    polymarketId: row.polymarket_id ?? undefined,
+    kalshiId: row.kalshi_id ?? undefined,
+    yesLeg: row.yes_leg,
+    noLeg: row.no_leg,
+    status: row.status,
+    size: Number(row.size),
+    costUsd: Number(row.cost_usd),
+    expectedProfitUsd: Number(row.expected_profit_usd),
+    unhedgedSize: Number(row.unhedged_size),
+    resolutionDate: row.resolution_date ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Record an executed arbitrage
+ */
+export async function insertPosition(db: DbClient, execution: ArbitrageExecution): Promise<ArbitragePosition> {
+  const { data, error } = await db
+    .from("arbitrage_positions")
+    .insert({
+      title: execution.title,
+      polymarket_id: execution.polymarketId ?? null,
+      kalshi_id: execution.kalshiId ?? null,
+      yes_leg: execution.yesLeg,
+      no_leg: execution.noLeg,
+      status: execution.status,
+      size: execution.size,
+      cost_usd: execution.costUsd,
+      expected_profit_usd: execution.expectedProfitUsd,
+      unhedged_size: execution.unhedgedSize,
+      resolution_date: execution.resolutionDate ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record arbitrage position: ${error.message}`);
+  }
+
+  return toArbitragePosition(data as ArbitragePositionRow);
+}
+
+/**
+ * List positions, newest first
+ */
+export async function listPositions(db: DbClient, filter: ArbitragePositionFilter = {}): Promise<ArbitragePosition[]> {
+  let query = db
+    .from("arbitrage_positions")
+    .select("*");
+
+  if (filter.statuses && filter.statuses.length > 0) {
+    query = query.in("status", filter.statuses);
+  }
+
+  const limit = Math.min(Math.max(filter.limit || DEFAULT_POSITION_LIMIT, 1), MAX_POSITION_LIMIT);
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list arbitrage positions: ${error.message}`);
+  }
+
+  return (data as ArbitragePositionRow[]).map(toArbitragePosition);
+}
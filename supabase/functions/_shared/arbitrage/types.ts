@@ -0,0 +1,362 @@
+/**
+ * Type definitions for cross-platform arbitrage
+ */
+
+/** Source market platform */
+export type ArbitrageMarketSource = 'polymarket' | 'kalshi';
+
+/** Arbitrage opportunity details */
+export interface ArbitrageOpportunity {
+  /** Whether an arb opportunity exists */
+  hasArbitrage: boolean;
+  /** Profit percentage if arb exists */
+  profitPercent?: number;
+  /** Profit percentage per year until both legs resolve */
+  annualizedReturnPercent?: number;
+  /** Recommended strategy */
+  strategy?: {
+    /** Which market to buy YES on */
+    buyYesOn: ArbitrageMarketSource;
+    /** Price to buy YES */
+    buyYesPrice: number;
+    /** Which market to buy NO on */
+    buyNoOn: ArbitrageMarketSource;
+    /** Price to buy NO */
+    buyNoPrice: number;
+    /** Total cost for $100 bet on each side, fees included */
+    totalCost: number;
+    /** Trading and settlement fees included in the total cost */
+    fees?: number;
+    /** Guaranteed payout ($100) */
+    guaranteedPayout: number;
+    /** Net profit */
+    netProfit: number;
+  };
+}
+
+/** Severity of an arbitrage risk */
+export type ArbitrageRiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * A risk that the two legs do not pay out $1 together
+ */
+export interface ArbitrageRiskFlag {
+  type: 'resolution_criteria' | 'resolution_date' | 'settlement';
+  level: ArbitrageRiskLevel;
+  message: string;
+}
+
+/**
+ * Input of the deterministic arbitrage calculator. Prices are 0-100.
+ */
+export interface ArbitrageCalculationInput {
+  buyYesOn: ArbitrageMarketSource;
+  yesPrice: number;
+  buyNoOn: ArbitrageMarketSource;
+  noPrice: number;
+  /** Contracts bought on each side (default 100, a $100 payout) */
+  size?: number;
+  /** Fee rate of the Polymarket market (0 on most markets) */
+  polymarketFeeRateBps?: number;
+  /** Cost of converting USD to USDC for the Polymarket leg */
+  settlementCostBps?: number;
+  /** When each leg resolves (ISO) */
+  polymarketResolutionDate?: string;
+  kalshiResolutionDate?: string;
+  /** Confidence that both legs ask the same question (0-100) */
+  sameMarketConfidence?: number;
+  /** Whether a person confirmed that both legs ask the same question */
+  humanConfirmed?: boolean;
+  now?: Date;
+}
+
+/**
+ * Fee- and settlement-aware result of the arbitrage calculator. USD.
+ */
+export interface ArbitrageCalculation {
+  buyYesOn: ArbitrageMarketSource;
+  yesPrice: number;
+  buyNoOn: ArbitrageMarketSource;
+  noPrice: number;
+  size: number;
+  yesCost: number;
+  noCost: number;
+  kalshiFees: number;
+  polymarketFees: number;
+  settlementCost: number;
+  totalCost: number;
+  guaranteedPayout: number;
+  netProfit: number;
+  /** Net profit over total cost (%) */
+  returnPercent: number;
+  /** When the later leg resolves, freeing the capital (ISO) */
+  resolutionDate?: string;
+  daysToResolution?: number;
+  annualizedReturnPercent?: number;
+  /** Risk that the legs resolve differently */
+  mismatchRisk: ArbitrageRiskLevel;
+  riskFlags: ArbitrageRiskFlag[];
+}
+
+/**
+ * One leg of an arbitrage: the side bought on a platform
+ */
+export interface DepthLeg {
+  source: ArbitrageMarketSource;
+  side: 'yes' | 'no';
+  /** CLOB token ID of the side (Polymarket) or market ticker (Kalshi) */
+  marketId: string;
+}
+
+/**
+ * Ask level of a leg's order book (price 0-100, size in contracts)
+ */
+export interface DepthLevel {
+  price: number;
+  size: number;
+}
+
+/**
+ * Cumulative cost and profit of buying `size` contracts of both legs. USD.
+ */
+export interface DepthPoint {
+  size: number;
+  /** Cost of the YES leg */
+  yesCost: number;
+  /** Cost of the NO leg */
+  noCost: number;
+  fees: number;
+  /** Guaranteed payout ($1 per contract) minus costs and fees */
+  netProfit: number;
+  /** Average cost of a YES + NO contract pair, fees included (0-100) */
+  averagePairCost: number;
+}
+
+/**
+ * Executable size of an arbitrage against both order books
+ */
+export interface ArbitrageDepth {
+  yesLeg: DepthLeg;
+  noLeg: DepthLeg;
+  /** Best asks (0-100) */
+  yesAsk?: number;
+  noAsk?: number;
+  /** Fee rate of the Polymarket leg's market */
+  polymarketFeeRateBps: number;
+  /** Contracts that can be bought while each YES + NO pair costs under $1 after fees */
+  maxSize: number;
+  /** Net profit at maxSize (USD) */
+  maxNetProfit: number;
+  /** Size at which the net profit falls back to zero, unless the books run out first */
+  breakEvenSize?: number;
+  /** Whether the books ran out before the break-even size */
+  bookExhausted: boolean;
+  /** Size vs profit, one point per filled level */
+  curve: DepthPoint[];
+}
+
+/**
+ * An open binary market listed by the scanner. Prices are normalized to 0-100.
+ */
+export interface ScanMarket {
+  source: ArbitrageMarketSource;
+  /** Event slug (Polymarket) or event ticker (Kalshi) */
+  eventId: string;
+  eventTitle: string;
+  /** Condition ID (Polymarket) or market ticker (Kalshi) */
+  marketId: string;
+  /** Market question, or the event title plus the outcome for Kalshi */
+  title: string;
+  /** Price to buy YES (best ask, or the last price when the book is empty) */
+  yesAsk: number;
+  /** Price to buy NO */
+  noAsk: number;
+  volume?: number;
+  /** When trading closes (ISO) */
+  closeTime?: string;
+  url: string;
+}
+
+/**
+ * A Polymarket market and the Kalshi market judged to be the same question
+ */
+export interface MarketPair {
+  polymarket: ScanMarket;
+  kalshi: ScanMarket;
+  /** Title similarity (0-1), 1 for confirmed matches */
+  matchScore: number;
+  /** Stored match of the pair, when it has been reviewed */
+  matchId?: string;
+  matchStatus?: MarketMatchStatus;
+}
+
+/**
+ * A matched pair with the arbitrage math at the listed prices
+ */
+export interface ScannedPair extends MarketPair {
+  opportunity: ArbitrageOpportunity;
+}
+
+/**
+ * Review state of a market match
+ */
+export type MarketMatchStatus = 'suggested' | 'confirmed' | 'rejected';
+
+/** Who proposed a match */
+export type MarketMatchSource = 'scanner' | 'llm' | 'human';
+
+/** Who confirmed or rejected a match */
+export type MarketMatchReviewer = 'llm' | 'human';
+
+/**
+ * A stored Polymarket <-> Kalshi match
+ */
+export interface MarketMatch {
+  id: string;
+  /** Condition ID, or the event slug for event-level matches */
+  polymarketId: string;
+  /** Event slug */
+  polymarketSlug?: string;
+  polymarketTitle: string;
+  /** Market ticker, or the event ticker for event-level matches */
+  kalshiTicker: string;
+  kalshiEventTicker?: string;
+  kalshiTitle: string;
+  status: MarketMatchStatus;
+  /** Confidence that both ask the same question (0-100) */
+  confidence?: number;
+  matchedBy: MarketMatchSource;
+  reviewedBy?: MarketMatchReviewer;
+  reviewedAt?: string;
+  /** Differences in resolution criteria, sources or deadlines */
+  resolutionNotes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields of a new match
+ */
+export interface MarketMatchInput {
+  polymarketId: string;
+  polymarketSlug?: string;
+  polymarketTitle: string;
+  kalshiTicker: string;
+  kalshiEventTicker?: string;
+  kalshiTitle: string;
+  confidence?: number;
+  resolutionNotes?: string;
+}
+
+/**
+ * Editable fields of a match
+ */
+export interface MarketMatchUpdate {
+  polymarketTitle?: string;
+  kalshiTitle?: string;
+  confidence?: number;
+  resolutionNotes?: string;
+}
+
+/**
+ * Filters for listing matches
+ */
+export interface MarketMatchFilter {
+  statuses?: MarketMatchStatus[];
+  /** Matches of a Polymarket condition ID or event slug */
+  polymarketId?: string;
+  /** Matches of a Kalshi market or event ticker */
+  kalshiTicker?: string;
+  /** Substring of either title */
+  search?: string;
+  limit?: number;
+}
+
+/**
+ * State of an executed arbitrage
+ * - open: both legs filled for `size` pairs
+ * - cancelled: the first leg did not fill, nothing is held
+ * - unwound: the second leg fell short and the first leg's excess was sold back
+ * - unhedged: contracts of one leg could not be paired or sold back and carry leg risk
+ *   (also when a leg's fills could not be read, in which case nothing is sold back)
+ */
+export type ArbitragePositionStatus = 'open' | 'cancelled' | 'unwound' | 'unhedged';
+
+/**
+ * Orders placed for one leg of an executed arbitrage. Prices are 0-100.
+ */
+export interface ArbitrageLegExecution extends DepthLeg {
+  /** Buy limit price */
+  limitPrice: number;
+  /** Contracts ordered */
+  requested: number;
+  /** Contracts bought */
+  filled: number;
+  orderId?: string;
+  /** Contracts sold back because the other leg fell short */
+  unwound: number;
+  unwindOrderId?: string;
+  /** Sell limit price of the unwind */
+  unwindPrice?: number;
+  /** Placement or unwind error */
+  error?: string;
+}
+
+/**
+ * Result of executing both legs of an arbitrage
+ */
+export interface ArbitrageExecution {
+  title: string;
+  /** Polymarket event slug and Kalshi event ticker, when known */
+  polymarketId?: string;
+  kalshiId?: string;
+  yesLeg: ArbitrageLegExecution;
+  noLeg: ArbitrageLegExecution;
+  status: ArbitragePositionStatus;
+  /** Paired YES + NO contracts held, each paying out $1 */
+  size: number;
+  /** Cost of the pairs at the limit prices, fees included (USD) */
+  costUsd: number;
+  /** Payout of the pairs minus their cost (USD) */
+  expectedProfitUsd: number;
+  /** Contracts of one leg held without the other */
+  unhedgedSize: number;
+  /** Resolution date of the later leg (ISO) */
+  resolutionDate?: string;
+}
+
+/**
+ * A recorded arbitrage position
+ */
+export interface ArbitragePosition extends ArbitrageExecution {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Filters for listing arbitrage positions
+ */
+export interface ArbitragePositionFilter {
+  statuses?: ArbitragePositionStatus[];
+  limit?: number;
+}
+
+/**
+ * Orders to place for an arbitrage. Limit prices are 0-100.
+ */
+export interface ArbitrageExecutionPlan {
+  title: string;
+  polymarketId?: string;
+  kalshiId?: string;
+  yesLeg: DepthLeg;
+  yesLimit: number;
+  noLeg: DepthLeg;
+  noLimit: number;
+  /** YES + NO pairs to buy */
+  size: number;
+  polymarketFeeRateBps?: number;
+  /** Order settings of the Polymarket leg's market (default "0.01" and false) */
+  polymarketTickSize?: string;
+  polymarketNegRisk?: boolean;
+  resolutionDate?: string;
+}
@@ -0,0 +1,170 @@
+/**
+ * Backtest CLI
+ *
+ * Usage (from the repo root):
+ *   deno run --allow-read supabase/functions/_shared/backtest/cli.ts --data <file|dir> [options]
+ *
+ * Options:
+ *   --mode ladder|vanilla    Strategy (default: ladder)
+ *   --max 49                 Ladder top price(s) in %
+ *   --min 35                 Ladder bottom price(s) in %
+ *   --taper 1.5              Ladder taper factor(s)
+ *   --bankroll 50            Ladder bankroll(s) in USD
+ *   --price 48               Vanilla order price(s) in %
+ *   --size 25                Vanilla USD per side
+ *   --sweep                  Run every combination of comma-separated values (e.g. --max 45,47,49)
+ *   --fill-model touch|through  Fill when trades print at (touch) or below (through) the order price
+ *   --cutoff 60              Cancel resting orders N seconds before market start
+ *   --lead 900               Place orders N seconds before market start
+ *   --top 10                 Rows to print in sweep mode
+ *   --json                   Print the full summaries as JSON
+ */
+
+import { loadHistoricalMarkets } from "./loader.ts";
+import { runBacktest, runSweep } from "./engine.ts";
+import type { BacktestParams, BacktestSummary, FillModel, SweepGrid } from "./types.ts";
+
+/**
+ * Parse --flag value pairs (flags without a value are "true")
+ */
+function parseArgs(args: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) continue;
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      flags[arg.slice(2)] = next;
+      i++;
+    } else {
+      flags[arg.slice(2)] = "true";
+    }
+  }
+  return flags;
+}
+
+/**
+ * Parse a comma-separated list of numbers
+ */
+function parseList(value: string | undefined, fallback: number): number[] {
+  if (value === undefined) return [fallback];
+  const values = value.split(",").map(v => parseFloat(v.trim()));
+  if (values.some(v => !Number.isFinite(v))) {
+    throw new Error(`Invalid number list: ${value}`);
+  }
+  return values;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Print a single summary
+ */
+function printSummary(summary: BacktestSummary): void {
+  console.log(`\n=== ${summary.label} ===`);
+  console.log(`Markets:              ${summary.markets}`);
+  console.log(`Orders placed:        ${summary.ordersPlaced}`);
+  console.log(`Order fill rate:      ${pct(summary.orderFillRate)}`);
+  console.log(`Share fill rate:      ${pct(summary.shareFillRate)}`);
+  console.log(`Both sides filled:    ${pct(summary.bothSidesFilledRate)}`);
+  console.log(`PROFIT_LOCKED:        ${pct(summary.profitLockedRate)}`);
+  console.log(`Status counts:        ${Object.entries(summary.statusCounts).filter(([, n]) => n > 0).map(([s, n]) => `${s}=${n}`).join(" ")}`);
+  console.log(`Pair cost:            mean ${summary.pairCost.mean ?? "-"} median ${summary.pairCost.median ?? "-"} p10 ${summary.pairCost.p10 ?? "-"} p90 ${summary.pairCost.p90 ?? "-"} (n=${summary.pairCost.count})`);
+  for (const { bucket, count } of summary.pairCost.histogram) {
+    console.log(`  ${bucket}  ${"#".repeat(count)} ${count}`);
+  }
+  console.log(`Total cost:           $${summary.totalCostUsd.toFixed(2)}`);
+  console.log(`Total PnL:            $${summary.totalPnlUsd.toFixed(2)} (ROI ${summary.roiPercent.toFixed(2)}%)`);
+  console.log(`Avg PnL / market:     $${summary.avgPnlPerMarketUsd.toFixed(2)}`);
+  console.log(`Win rate:             ${pct(summary.winRate)}`);
+}
+
+/**
+ * Print a sweep as a table, best PnL first
+ */
+function printSweep(summaries: BacktestSummary[], top: number): void {
+  console.log(`\n${summaries.length} parameter sets, top ${Math.min(top, summaries.length)} by total PnL:\n`);
+  console.log(["Parameters".padEnd(44), "Fill%".padStart(7), "Both%".padStart(7), "Locked%".padStart(8), "PairCost".padStart(9), "PnL".padStart(10), "ROI%".padStart(8)].join(" "));
+  for (const s of summaries.slice(0, top)) {
+    console.log([
+      s.label.padEnd(44),
+      pct(s.shareFillRate).padStart(7),
+      pct(s.bothSidesFilledRate).padStart(7),
+      pct(s.profitLockedRate).padStart(8),
+      String(s.pairCost.mean ?? "-").padStart(9),
+      `$${s.totalPnlUsd.toFixed(2)}`.padStart(10),
+      s.roiPercent.toFixed(2).padStart(8),
+    ].join(" "));
+  }
+}
+
+async function main(): Promise<void> {
+  // @ts-ignore - Deno global
+  const flags = parseArgs(Deno.args);
+
+  if (!flags.data) {
+    console.error("Missing --data <file|dir>. See the header of this file for usage.");
+    // @ts-ignore - Deno global
+    Deno.exit(1);
+  }
+
+  const mode = flags.mode === "vanilla" ? "vanilla" : "ladder";
+  const shared: Omit<BacktestParams, "strategy"> = {
+    fillModel: (flags["fill-model"] === "through" ? "through" : "touch") as FillModel,
+    cancelCutoffSeconds: flags.cutoff !== undefined ? parseFloat(flags.cutoff) : undefined,
+    placementLeadSeconds: flags.lead !== undefined ? parseFloat(flags.lead) : undefined,
+  };
+
+  const markets = await loadHistoricalMarkets(flags.data);
+  console.log(`Loaded ${markets.length} market(s) from ${flags.data}`);
+
+  const grid: SweepGrid = mode === "vanilla"
+    ? {
+        mode,
+        pricesPercent: parseList(flags.price, 48),
+        sizesUsd: parseList(flags.size, 25),
+      }
+    : {
+        mode,
+        maxPrices: parseList(flags.max, 49),
+        minPrices: parseList(flags.min, 35),
+        taperFactors: parseList(flags.taper, 1.5),
+        bankrollsUsd: parseList(flags.bankroll, 50),
+      };
+
+  if (flags.sweep) {
+    const summaries = runSweep(markets, grid, shared);
+    if (flags.json) {
+      console.log(JSON.stringify(summaries.map(({ results: _results, ...rest }) => rest), null, 2));
+    } else {
+      printSweep(summaries, parseInt(flags.top || "10", 10));
+    }
+    return;
+  }
+
+  const params: BacktestParams = grid.mode === "vanilla"
+    ? { ...shared, strategy: { mode: "vanilla", pricePercent: grid.pricesPercent[0], sizeUsd: grid.sizesUsd[0] } }
+    : {
+        ...shared,
+        strategy: {
+          mode: "ladder",
+          maxPrice: grid.maxPrices[0],
+          minPrice: grid.minPrices[0],
+          taperFactor: grid.taperFactors[0],
+          bankrollUsd: grid.bankrollsUsd[0],
+        },
+      };
+
+  const summary = runBacktest(markets, params);
+  if (flags.json) {
+    console.log(JSON.stringify(summary, null, 2));
+  } else {
+    printSummary(summary);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : String(error));
+  // @ts-ignore - Deno global
+  Deno.exit(1);
+});
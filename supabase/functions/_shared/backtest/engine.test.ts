@@ -0,0 +1,138 @@
+/**
+ * Tests for the backtest fill simulation
+ *
+ * Run with: deno test supabase/functions/_shared/backtest/
+ */
+
+import { assertEquals } from "jsr:@std/assert";
+import { simulateMarket } from "./engine.ts";
+import type { BacktestParams, HistoricalBookSnapshot, HistoricalMarket, HistoricalTrade } from "./types.ts";
+
+const START = 1760000000;
+
+// 50 shares per side at 40¢
+const vanilla: BacktestParams = { strategy: { mode: "vanilla", pricePercent: 40, sizeUsd: 20 } };
+
+const market = (trades: HistoricalTrade[], books?: HistoricalBookSnapshot[]): HistoricalMarket => ({
+  marketSlug: "btc-updown-15m-1760000000",
+  targetTimestamp: START,
+  resolution: "up",
+  trades,
+  books,
+});
+
+const trade = (offsetSeconds: number, outcome: "up" | "down", price: number, size: number): HistoricalTrade => ({
+  timestamp: START + offsetSeconds,
+  outcome,
+  price,
+  size,
+});
+
+const book = (offsetSeconds: number, outcome: "up" | "down", size: number, price = 0.4): HistoricalBookSnapshot => ({
+  timestamp: START + offsetSeconds,
+  outcome,
+  asks: [{ price, size }],
+});
+
+const fillCases: Array<{
+  name: string;
+  params?: Partial<BacktestParams>;
+  trades: HistoricalTrade[];
+  upShares: number;
+  downShares: number;
+}> = [
+  { name: "trade at the order price fills on touch", trades: [trade(0, "up", 0.4, 100)], upShares: 50, downShares: 0 },
+  {
+    name: "trade at the order price does not fill through",
+    params: { fillModel: "through" },
+    trades: [trade(0, "up", 0.4, 100)],
+    upShares: 0,
+    downShares: 0,
+  },
+  {
+    name: "trade below the order price fills through",
+    params: { fillModel: "through" },
+    trades: [trade(0, "up", 0.39, 100)],
+    upShares: 50,
+    downShares: 0,
+  },
+  { name: "trade above the order price", trades: [trade(0, "up", 0.41, 100)], upShares: 0, downShares: 0 },
+  { name: "partial fill", trades: [trade(0, "down", 0.35, 20)], upShares: 0, downShares: 20 },
+  {
+    name: "partial fills add up to the order size",
+    trades: [trade(0, "up", 0.4, 30), trade(10, "up", 0.4, 30)],
+    upShares: 50,
+    downShares: 0,
+  },
+  { name: "trade before the orders are placed", trades: [trade(-901, "up", 0.4, 100)], upShares: 0, downShares: 0 },
+  {
+    name: "trade after the cancel cutoff",
+    params: { cancelCutoffSeconds: 60 },
+    trades: [trade(-30, "up", 0.4, 100)],
+    upShares: 0,
+    downShares: 0,
+  },
+];
+
+for (const { name, params, trades, upShares, downShares } of fillCases) {
+  Deno.test(`simulateMarket fills: ${name}`, () => {
+    const result = simulateMarket(market(trades), { ...vanilla, ...params });
+    assertEquals({ up: result.yes.shares, down: result.no.shares }, { up: upShares, down: downShares });
+    assertEquals(result.sharesOrdered, 100);
+    // Unfilled shares are cancelled when the market resolves
+    assertEquals({ up: result.yes.pendingShares, down: result.no.pendingShares }, { up: 0, down: 0 });
+  });
+}
+
+const bookCases: Array<{
+  name: string;
+  trades?: HistoricalTrade[];
+  books: HistoricalBookSnapshot[];
+  upShares: number;
+  downShares: number;
+}> = [
+  { name: "first snapshot", books: [book(0, "up", 20)], upShares: 20, downShares: 0 },
+  { name: "unchanged asks count once", books: [book(0, "up", 20), book(10, "up", 20)], upShares: 20, downShares: 0 },
+  { name: "only the added size counts", books: [book(0, "up", 20), book(10, "up", 35)], upShares: 35, downShares: 0 },
+  {
+    name: "size added back after shrinking",
+    books: [book(0, "up", 20), book(10, "up", 5), book(20, "up", 20)],
+    upShares: 35,
+    downShares: 0,
+  },
+  {
+    name: "new price level",
+    books: [book(0, "up", 20), book(10, "up", 10, 0.38)],
+    upShares: 30,
+    downShares: 0,
+  },
+  {
+    name: "outcomes tracked separately",
+    books: [book(0, "up", 20), book(10, "down", 20)],
+    upShares: 20,
+    downShares: 20,
+  },
+  {
+    name: "trades between snapshots are not deducted",
+    trades: [trade(5, "up", 0.4, 10)],
+    books: [book(0, "up", 20), book(10, "up", 20)],
+    upShares: 30,
+    downShares: 0,
+  },
+];
+
+for (const { name, trades, books, upShares, downShares } of bookCases) {
+  Deno.test(`simulateMarket book snapshots: ${name}`, () => {
+    const result = simulateMarket(market(trades || [], books), vanilla);
+    assertEquals({ up: result.yes.shares, down: result.no.shares }, { up: upShares, down: downShares });
+  });
+}
+
+Deno.test("simulateMarket prices fills at the order's limit price", () => {
+  const result = simulateMarket(market([trade(0, "up", 0.3, 50), trade(10, "down", 0.35, 50)]), vanilla);
+  assertEquals(result.pairCost, 0.8);
+  assertEquals(result.status, "PROFIT_LOCKED");
+  assertEquals(result.costUsd, 40);
+  assertEquals(result.payoutUsd, 50);
+  assertEquals(result.pnlUsd, 10);
+});
@@ -0,0 +1,328 @@
+/**
+ * Backtest Engine
+ *
+ * Replays recorded trades / order book snapshots of past 15-minute up/down
+ * markets against simulated vanilla or ladder orders, using the same rung
+ * allocation and order sizing rules as the live bot.
+ */
+
+import { calculateLadderRungs } from "../polymarket/ladder.ts";
+import { determinePairStatus } from "../polymarket/utils.ts";
+import type { PairStatus, SidePosition } from "../polymarket/types.ts";
+import type {
+  BacktestParams,
+  BacktestStrategy,
+  BacktestSummary,
+  HistoricalMarket,
+  MarketBacktestResult,
+  Outcome,
+  PairCostDistribution,
+  SweepGrid,
+} from "./types.ts";
+
+const MARKET_DURATION_SECONDS = 900;
+const MIN_SHARES = 5; // Polymarket minimum order size
+const HISTOGRAM_BUCKET = 0.02;
+
+/**
+ * Simulated resting order
+ */
+interface SimOrder {
+  outcome: Outcome;
+  price: number;
+  size: number;
+  filled: number;
+}
+
+/**
+ * Build the orders the live bot would place for a strategy
+ * (mirrors placeStraddleOrders / placeLadderOrders sizing)
+ */
+function buildOrders(strategy: BacktestStrategy): SimOrder[] {
+  const orders: SimOrder[] = [];
+
+  const addStraddle = (price: number, sizeUsd: number) => {
+    const size = Math.floor(sizeUsd / price);
+    for (const outcome of ["up", "down"] as const) {
+      orders.push({ outcome, price, size, filled: 0 });
+    }
+  };
+
+  if (strategy.mode === "vanilla") {
+    addStraddle(strategy.pricePercent / 100, strategy.sizeUsd);
+    return orders;
+  }
+
+  const { rungs } = calculateLadderRungs(
+    strategy.bankrollUsd,
+    strategy.maxPrice,
+    strategy.minPrice,
+    strategy.taperFactor
+  );
+
+  for (const rung of rungs) {
+    // Same skip rules as placeLadderOrders
+    if (rung.sizeUsd < 1 || Math.floor(rung.sizeUsd / rung.priceDecimal) < MIN_SHARES) {
+      continue;
+    }
+    addStraddle(rung.priceDecimal, rung.sizeUsd);
+  }
+
+  return orders;
+}
+
+/**
+ * Fill resting orders on an outcome against available liquidity at a price,
+ * best (highest) bid first. Returns the liquidity left over.
+ */
+function fillAgainst(
+  orders: SimOrder[],
+  outcome: Outcome,
+  price: number,
+  size: number,
+  strict: boolean
+): number {
+  let remaining = size;
+
+  const eligible = orders
+    .filter(o => o.outcome === outcome && o.filled < o.size && (strict ? price < o.price : price <= o.price))
+    .sort((a, b) => b.price - a.price);
+
+  for (const order of eligible) {
+    if (remaining <= 0) break;
+    const fill = Math.min(order.size - order.filled, remaining);
+    order.filled += fill;
+    remaining -= fill;
+  }
+
+  return remaining;
+}
+
+/**
+ * Build a side position from simulated fills (fills execute at the order's limit price)
+ */
+function toSidePosition(orders: SimOrder[], outcome: Outcome): SidePosition {
+  const sideOrders = orders.filter(o => o.outcome === outcome);
+  const shares = sideOrders.reduce((sum, o) => sum + o.filled, 0);
+  const costUsd = sideOrders.reduce((sum, o) => sum + o.filled * o.price, 0);
+
+  return {
+    shares,
+    costUsd: Math.round(costUsd * 100) / 100,
+    avgPrice: shares > 0 ? costUsd / shares : 0,
+    ordersPlaced: sideOrders.length,
+    ordersFilled: sideOrders.filter(o => o.filled > 0).length,
+    pendingShares: sideOrders.reduce((sum, o) => sum + (o.size - o.filled), 0),
+  };
+}
+
+/**
+ * Simulate one market for a parameter set
+ */
+export function simulateMarket(market: HistoricalMarket, params: BacktestParams): MarketBacktestResult {
+  const orders = buildOrders(params.strategy);
+  const strict = params.fillModel === "through";
+
+  const placedAt = market.targetTimestamp - (params.placementLeadSeconds ?? MARKET_DURATION_SECONDS);
+  const cancelledAt = params.cancelCutoffSeconds !== undefined
+    ? market.targetTimestamp - params.cancelCutoffSeconds
+    : market.targetTimestamp + MARKET_DURATION_SECONDS;
+
+  // Replay trades and book snapshots in time order while orders rest
+  const events = [
+    ...market.trades.map(t => ({ timestamp: t.timestamp, outcome: t.outcome, isBook: false, levels: [{ price: t.price, size: t.size }] })),
+    ...(market.books || []).map(b => ({ timestamp: b.timestamp, outcome: b.outcome, isBook: true, levels: b.asks })),
+  ]
+    .filter(e => e.timestamp >= placedAt && e.timestamp < cancelledAt)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  // Ask size per price level in each outcome's previous snapshot. Standing asks
+  // were already offered to the orders, so only size added since counts again.
+  const previousAsks: Record<Outcome, Map<number, number>> = { up: new Map(), down: new Map() };
+
+  for (const event of events) {
+    const previous = previousAsks[event.outcome];
+    for (const level of event.levels) {
+      const size = event.isBook ? Math.max(0, level.size - (previous.get(level.price) ?? 0)) : level.size;
+      if (size > 0) {
+        fillAgainst(orders, event.outcome, level.price, size, strict);
+      }
+    }
+    if (event.isBook) {
+      previousAsks[event.outcome] = new Map(event.levels.map(l => [l.price, l.size]));
+    }
+  }
+
+  const yes = toSidePosition(orders, "up");
+  const no = toSidePosition(orders, "down");
+
+  // Resting orders are gone once the market resolves
+  yes.pendingShares = 0;
+  no.pendingShares = 0;
+
+  const status = determinePairStatus(yes, no);
+  const pairCost = yes.shares > 0 && no.shares > 0
+    ? Math.round((yes.avgPrice + no.avgPrice) * 10000) / 10000
+    : null;
+
+  const costUsd = orders.reduce((sum, o) => sum + o.filled * o.price, 0);
+  const payoutUsd = market.resolution === "up" ? yes.shares : no.shares;
+
+  return {
+    marketSlug: market.marketSlug,
+    resolution: market.resolution,
+    ordersPlaced: orders.length,
+    ordersFilled: orders.filter(o => o.filled > 0).length,
+    sharesOrdered: orders.reduce((sum, o) => sum + o.size, 0),
+    sharesFilled: orders.reduce((sum, o) => sum + o.filled, 0),
+    yes,
+    no,
+    status,
+    pairCost,
+    costUsd: Math.round(costUsd * 100) / 100,
+    payoutUsd,
+    pnlUsd: Math.round((payoutUsd - costUsd) * 100) / 100,
+  };
+}
+
+/**
+ * Percentile of a sorted array (nearest rank)
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Summarize pair costs of markets where both sides filled
+ */
+function pairCostDistribution(results: MarketBacktestResult[]): PairCostDistribution {
+  const costs = results
+    .map(r => r.pairCost)
+    .filter((c): c is number => c !== null)
+    .sort((a, b) => a - b);
+
+  const buckets = new Map<number, number>();
+  for (const cost of costs) {
+    const bucket = Math.floor(cost / HISTOGRAM_BUCKET + 1e-9);
+    buckets.set(bucket, (buckets.get(bucket) || 0) + 1);
+  }
+
+  return {
+    count: costs.length,
+    mean: costs.length > 0 ? Math.round((costs.reduce((s, c) => s + c, 0) / costs.length) * 10000) / 10000 : null,
+    median: percentile(costs, 50),
+    p10: percentile(costs, 10),
+    p90: percentile(costs, 90),
+    histogram: [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([bucket, count]) => ({
+        bucket: `${(bucket * HISTOGRAM_BUCKET).toFixed(2)}-${((bucket + 1) * HISTOGRAM_BUCKET).toFixed(2)}`,
+        count,
+      })),
+  };
+}
+
+/**
+ * Describe a parameter set
+ */
+export function describeParams(params: BacktestParams): string {
+  const { strategy } = params;
+  const base = strategy.mode === "vanilla"
+    ? `vanilla ${strategy.pricePercent}% $${strategy.sizeUsd}/side`
+    : `ladder ${strategy.maxPrice}%→${strategy.minPrice}% taper ${strategy.taperFactor} $${strategy.bankrollUsd}`;
+  return params.cancelCutoffSeconds !== undefined ? `${base} cutoff ${params.cancelCutoffSeconds}s` : base;
+}
+
+/**
+ * Run a backtest for one parameter set over all markets
+ */
+export function runBacktest(markets: HistoricalMarket[], params: BacktestParams): BacktestSummary {
+  const results = markets.map(market => simulateMarket(market, params));
+
+  const statusCounts: Record<PairStatus, number> = {
+    PROFIT_LOCKED: 0,
+    BREAK_EVEN: 0,
+    LOSS_RISK: 0,
+    DIRECTIONAL_YES: 0,
+    DIRECTIONAL_NO: 0,
+    PENDING: 0,
+    NO_POSITION: 0,
+  };
+  for (const result of results) {
+    statusCounts[result.status]++;
+  }
+
+  const sum = (values: number[]) => values.reduce((s, v) => s + v, 0);
+  const ratio = (a: number, b: number) => (b > 0 ? Math.round((a / b) * 10000) / 10000 : 0);
+
+  const ordersPlaced = sum(results.map(r => r.ordersPlaced));
+  const totalCostUsd = Math.round(sum(results.map(r => r.costUsd)) * 100) / 100;
+  const totalPnlUsd = Math.round(sum(results.map(r => r.pnlUsd)) * 100) / 100;
+  const marketsWithFills = results.filter(r => r.sharesFilled > 0);
+
+  return {
+    label: describeParams(params),
+    params,
+    markets: results.length,
+    ordersPlaced,
+    orderFillRate: ratio(sum(results.map(r => r.ordersFilled)), ordersPlaced),
+    shareFillRate: ratio(sum(results.map(r => r.sharesFilled)), sum(results.map(r => r.sharesOrdered))),
+    bothSidesFilledRate: ratio(results.filter(r => r.yes.shares > 0 && r.no.shares > 0).length, results.length),
+    statusCounts,
+    profitLockedRate: ratio(statusCounts.PROFIT_LOCKED, results.length),
+    pairCost: pairCostDistribution(results),
+    totalCostUsd,
+    totalPnlUsd,
+    roiPercent: totalCostUsd > 0 ? Math.round((totalPnlUsd / totalCostUsd) * 10000) / 100 : 0,
+    avgPnlPerMarketUsd: results.length > 0 ? Math.round((totalPnlUsd / results.length) * 100) / 100 : 0,
+    winRate: ratio(marketsWithFills.filter(r => r.pnlUsd > 0).length, marketsWithFills.length),
+    results,
+  };
+}
+
+/**
+ * Expand a sweep grid into parameter sets
+ */
+export function expandSweepGrid(
+  grid: SweepGrid,
+  shared: Omit<BacktestParams, "strategy"> = {}
+): BacktestParams[] {
+  const paramSets: BacktestParams[] = [];
+
+  if (grid.mode === "vanilla") {
+    for (const pricePercent of grid.pricesPercent) {
+      for (const sizeUsd of grid.sizesUsd) {
+        paramSets.push({ ...shared, strategy: { mode: "vanilla", pricePercent, sizeUsd } });
+      }
+    }
+    return paramSets;
+  }
+
+  for (const maxPrice of grid.maxPrices) {
+    for (const minPrice of grid.minPrices) {
+      if (minPrice > maxPrice) continue;
+      for (const taperFactor of grid.taperFactors) {
+        for (const bankrollUsd of grid.bankrollsUsd) {
+          paramSets.push({ ...shared, strategy: { mode: "ladder", maxPrice, minPrice, taperFactor, bankrollUsd } });
+        }
+      }
+    }
+  }
+
+  return paramSets;
+}
+
+/**
+ * Run every parameter set of a sweep, best total PnL first
+ */
+export function runSweep(
+  markets: HistoricalMarket[],
+  grid: SweepGrid,
+  shared: Omit<BacktestParams, "strategy"> = {}
+): BacktestSummary[] {
+  return expandSweepGrid(grid, shared)
+    .map(params => runBacktest(markets, params))
+    .sort((a, b) => b.totalPnlUsd - a.totalPnlUsd);
+}
@@ -0,0 +1,154 @@
+/**
+ * Historical Data Loader
+ *
+ * Loads recorded 15-minute up/down market data from local JSON or CSV files.
+ *
+ * JSON: a HistoricalMarket object or an array of them.
+ * CSV:  one trade per row with a header
+ *       market_slug,target_timestamp,resolution,timestamp,outcome,price,size
+ *       (market columns repeat on every row; outcome/resolution accept up/down or yes/no)
+ */
+
+import type { HistoricalMarket, HistoricalTrade, Outcome } from "./types.ts";
+
+const CSV_COLUMNS = ["market_slug", "target_timestamp", "resolution", "timestamp", "outcome", "price", "size"];
+
+/**
+ * Parse an outcome label
+ */
+function parseOutcome(value: unknown, context: string): Outcome {
+  const normalized = String(value).trim().toLowerCase();
+  if (normalized === "up" || normalized === "yes") return "up";
+  if (normalized === "down" || normalized === "no") return "down";
+  throw new Error(`${context}: invalid outcome '${value}' (expected up/down or yes/no)`);
+}
+
+/**
+ * Parse a finite number
+ */
+function parseNumber(value: unknown, context: string): number {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value));
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${context}: invalid number '${value}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Validate and normalize a market from JSON
+ */
+function parseJsonMarket(raw: Record<string, unknown>, context: string): HistoricalMarket {
+  if (!raw || typeof raw.marketSlug !== "string") {
+    throw new Error(`${context}: missing marketSlug`);
+  }
+
+  const marketContext = `${context} (${raw.marketSlug})`;
+  const trades = Array.isArray(raw.trades) ? raw.trades : [];
+  const books = Array.isArray(raw.books) ? raw.books : [];
+
+  return {
+    marketSlug: raw.marketSlug,
+    asset: raw.asset as HistoricalMarket["asset"],
+    targetTimestamp: parseNumber(raw.targetTimestamp, `${marketContext} targetTimestamp`),
+    resolution: parseOutcome(raw.resolution, `${marketContext} resolution`),
+    trades: trades.map((t: Record<string, unknown>, i: number) => ({
+      timestamp: parseNumber(t.timestamp, `${marketContext} trade ${i}`),
+      outcome: parseOutcome(t.outcome, `${marketContext} trade ${i}`),
+      price: parseNumber(t.price, `${marketContext} trade ${i}`),
+      size: parseNumber(t.size, `${marketContext} trade ${i}`),
+    })),
+    books: books.map((b: Record<string, unknown>, i: number) => ({
+      timestamp: parseNumber(b.timestamp, `${marketContext} book ${i}`),
+      outcome: parseOutcome(b.outcome, `${marketContext} book ${i}`),
+      asks: (Array.isArray(b.asks) ? b.asks : []).map((level: Record<string, unknown>) => ({
+        price: parseNumber(level.price, `${marketContext} book ${i} ask`),
+        size: parseNumber(level.size, `${marketContext} book ${i} ask`),
+      })),
+    })),
+  };
+}
+
+/**
+ * Parse markets from JSON file contents
+ */
+export function parseJsonMarkets(contents: string, source: string): HistoricalMarket[] {
+  const data = JSON.parse(contents);
+  const rawMarkets = Array.isArray(data) ? data : [data];
+  return rawMarkets.map((raw, i) => parseJsonMarket(raw, `${source}[${i}]`));
+}
+
+/**
+ * Parse markets from CSV file contents (one trade per row)
+ */
+export function parseCsvMarkets(contents: string, source: string): HistoricalMarket[] {
+  const lines = contents.split(/\r?\n/).filter(line => line.trim() !== "");
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map(h => h.trim().toLowerCase());
+  const missing = CSV_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`${source}: missing CSV column(s): ${missing.join(", ")}`);
+  }
+
+  const col = (row: string[], name: string) => row[header.indexOf(name)];
+  const markets = new Map<string, HistoricalMarket>();
+
+  for (let i = 1; i < lines.length; i++) {
+    const row = lines[i].split(",").map(v => v.trim());
+    const context = `${source}:${i + 1}`;
+    const slug = col(row, "market_slug");
+
+    let market = markets.get(slug);
+    if (!market) {
+      market = {
+        marketSlug: slug,
+        targetTimestamp: parseNumber(col(row, "target_timestamp"), context),
+        resolution: parseOutcome(col(row, "resolution"), context),
+        trades: [],
+      };
+      markets.set(slug, market);
+    }
+
+    const trade: HistoricalTrade = {
+      timestamp: parseNumber(col(row, "timestamp"), context),
+      outcome: parseOutcome(col(row, "outcome"), context),
+      price: parseNumber(col(row, "price"), context),
+      size: parseNumber(col(row, "size"), context),
+    };
+    market.trades.push(trade);
+  }
+
+  return [...markets.values()];
+}
+
+/**
+ * Load markets from a JSON/CSV file or a directory of them
+ */
+export async function loadHistoricalMarkets(path: string): Promise<HistoricalMarket[]> {
+  // @ts-ignore - Deno global
+  const info = await Deno.stat(path);
+
+  const files: string[] = [];
+  if (info.isDirectory) {
+    // @ts-ignore - Deno global
+    for await (const entry of Deno.readDir(path)) {
+      if (entry.isFile && /\.(json|csv)$/i.test(entry.name)) {
+        files.push(`${path.replace(/\/$/, "")}/${entry.name}`);
+      }
+    }
+    files.sort();
+  } else {
+    files.push(path);
+  }
+
+  const markets: HistoricalMarket[] = [];
+  for (const file of files) {
+    // @ts-ignore - Deno global
+    const contents: string = await Deno.readTextFile(file);
+    markets.push(...(file.toLowerCase().endsWith(".csv")
+      ? parseCsvMarkets(contents, file)
+      : parseJsonMarkets(contents, file)));
+  }
+
+  return markets.sort((a, b) => a.targetTimestamp - b.targetTimestamp);
+}
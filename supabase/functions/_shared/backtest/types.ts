@@ -0,0 +1,201 @@
+/**
+ * Backtest Types for the 15-minute up/down limit order strategies
+ */
+
+import type {
+  SupportedAsset,
+  OrderBookLevel,
+  PairStatus,
+  SidePosition,
+} from "../polymarket/types.ts";
+
+/**
+ * Market outcome side
+ */
+export type Outcome = "up" | "down";
+
+/**
+ * Recorded trade on one outcome token
+ */
+export interface HistoricalTrade {
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+  /** Outcome token traded */
+  outcome: Outcome;
+  /** Trade price (decimal) */
+  price: number;
+  /** Trade size in shares */
+  size: number;
+}
+
+/**
+ * Recorded order book snapshot for one outcome token (only asks are used)
+ */
+export interface HistoricalBookSnapshot {
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+  /** Outcome token */
+  outcome: Outcome;
+  /** Ask levels */
+  asks: OrderBookLevel[];
+}
+
+/**
+ * Recorded data for a past 15-minute market
+ */
+export interface HistoricalMarket {
+  /** Market slug (e.g., btc-updown-15m-1760000000) */
+  marketSlug: string;
+  /** Asset (optional, informational) */
+  asset?: SupportedAsset;
+  /** Unix timestamp of market start */
+  targetTimestamp: number;
+  /** Winning outcome */
+  resolution: Outcome;
+  /** Recorded trades */
+  trades: HistoricalTrade[];
+  /** Recorded order book snapshots (optional) */
+  books?: HistoricalBookSnapshot[];
+}
+
+/**
+ * Strategy to simulate
+ */
+export type BacktestStrategy =
+  | {
+      mode: "vanilla";
+      /** Order price as percentage */
+      pricePercent: number;
+      /** USD per side */
+      sizeUsd: number;
+    }
+  | {
+      mode: "ladder";
+      /** Highest price level (percentage) */
+      maxPrice: number;
+      /** Lowest price level (percentage) */
+      minPrice: number;
+      /** Taper factor */
+      taperFactor: number;
+      /** Total bankroll distributed across rungs */
+      bankrollUsd: number;
+    };
+
+/**
+ * Fill model for resting BUY orders
+ * - touch: a trade at or below the order price fills it
+ * - through: only a trade strictly below the order price fills it (conservative)
+ */
+export type FillModel = "touch" | "through";
+
+/**
+ * Parameters for a backtest run
+ */
+export interface BacktestParams {
+  /** Strategy to simulate */
+  strategy: BacktestStrategy;
+  /** Fill model. Default: touch */
+  fillModel?: FillModel;
+  /** Seconds before market start at which orders are placed. Default: 900 (previous boundary) */
+  placementLeadSeconds?: number;
+  /** Cancel resting orders this many seconds before market start. Default: orders rest until market end */
+  cancelCutoffSeconds?: number;
+}
+
+/**
+ * Simulated result for one market
+ */
+export interface MarketBacktestResult {
+  marketSlug: string;
+  resolution: Outcome;
+  /** Orders placed */
+  ordersPlaced: number;
+  /** Orders with any fill */
+  ordersFilled: number;
+  /** Shares ordered across all orders */
+  sharesOrdered: number;
+  /** Shares filled across all orders */
+  sharesFilled: number;
+  /** Up (YES) side position */
+  yes: SidePosition;
+  /** Down (NO) side position */
+  no: SidePosition;
+  /** Pair status at market end */
+  status: PairStatus;
+  /** avg YES + avg NO (only when both sides filled) */
+  pairCost: number | null;
+  /** USD spent on fills */
+  costUsd: number;
+  /** USD paid out at resolution */
+  payoutUsd: number;
+  /** payout - cost */
+  pnlUsd: number;
+}
+
+/**
+ * Distribution of pair costs across markets where both sides filled
+ */
+export interface PairCostDistribution {
+  count: number;
+  mean: number | null;
+  median: number | null;
+  p10: number | null;
+  p90: number | null;
+  /** Counts per 0.02 bucket, e.g. "0.94-0.96" */
+  histogram: Array<{ bucket: string; count: number }>;
+}
+
+/**
+ * Aggregated result for one parameter set
+ */
+export interface BacktestSummary {
+  /** Human-readable parameter label */
+  label: string;
+  /** Parameters simulated */
+  params: BacktestParams;
+  /** Markets simulated */
+  markets: number;
+  /** Orders placed across markets */
+  ordersPlaced: number;
+  /** Orders with any fill / orders placed */
+  orderFillRate: number;
+  /** Shares filled / shares ordered */
+  shareFillRate: number;
+  /** Markets where both sides filled / markets */
+  bothSidesFilledRate: number;
+  /** Markets per pair status */
+  statusCounts: Record<PairStatus, number>;
+  /** PROFIT_LOCKED markets / markets */
+  profitLockedRate: number;
+  /** Pair cost distribution */
+  pairCost: PairCostDistribution;
+  /** USD spent on fills */
+  totalCostUsd: number;
+  /** Total PnL in USD */
+  totalPnlUsd: number;
+  /** totalPnl / totalCost (percentage) */
+  roiPercent: number;
+  /** Average PnL per market in USD */
+  avgPnlPerMarketUsd: number;
+  /** Markets with positive PnL / markets with fills */
+  winRate: number;
+  /** Per-market results */
+  results: MarketBacktestResult[];
+}
+
+/**
+ * Parameter grid for a sweep
+ */
+export type SweepGrid =
+  | {
+      mode: "vanilla";
+      pricesPercent: number[];
+      sizesUsd: number[];
+    }
+  | {
+      mode: "ladder";
+      maxPrices: number[];
+      minPrices: number[];
+      taperFactors: number[];
+      bankrollsUsd: number[];
+    };
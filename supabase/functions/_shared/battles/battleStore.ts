@@ -0,0 +1,183 @@
+/**
+ * Agent Battle Store
+ *
+ * Database access for the agent_battles table and validation of new battles.
+ * Battle predictions live in agent_predictions (see ../calibration).
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type {
+  AgentBattle,
+  BattleContestant,
+  BattleStatus,
+  BattleTool,
+  NewBattle,
+} from "./types.ts";
+
+const VALID_TOOLS: BattleTool[] = ["x_search", "web_search"];
+const MIN_CONTESTANTS = 2;
+const MAX_CONTESTANTS = 6;
+const MAX_NAME_LENGTH = 100;
+const DEFAULT_STAKE_USD = 10;
+
+/**
+ * agent_battles row
+ */
+interface BattleRow {
+  id: string;
+  name: string;
+  status: BattleStatus;
+  contestants: BattleContestant[];
+  urls: string[];
+  stake_usd: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toBattle(row: BattleRow): AgentBattle {
+  return {
+    id: row.id,
+    name: row.name,
+    status: row.status,
+    contestants: row.contestants,
+    urls: row.urls ?? [],
+    stakeUsd: Number(row.stake_usd),
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validate a new battle, returning the first problem found
+ */
+export function validateBattle(battle: NewBattle): string | null {
+  if (!battle || typeof battle !== "object") return "Missing battle";
+  if (battle.name !== undefined && (typeof battle.name !== "string" || battle.name.trim().length > MAX_NAME_LENGTH)) {
+    return `Battle name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (!Array.isArray(battle.contestants) || battle.contestants.length < MIN_CONTESTANTS) {
+    return `A battle needs at least ${MIN_CONTESTANTS} contestants`;
+  }
+  if (battle.contestants.length > MAX_CONTESTANTS) return `A battle can have at most ${MAX_CONTESTANTS} contestants`;
+
+  for (const [i, contestant] of battle.contestants.entries()) {
+    const label = `Contestant ${i + 1}`;
+    if (!contestant || typeof contestant !== "object") return `${label} is invalid`;
+    if (typeof contestant.model !== "string" || !contestant.model) return `${label} needs a model`;
+    if (contestant.tools !== undefined && (!Array.isArray(contestant.tools) || contestant.tools.some(t => !VALID_TOOLS.includes(t)))) {
+      return `${label} has invalid tools. Valid tools: ${VALID_TOOLS.join(", ")}`;
+    }
+  }
+
+  if (battle.stakeUsd !== undefined && (typeof battle.stakeUsd !== "number" || !(battle.stakeUsd > 0))) {
+    return "stakeUsd must be a positive number";
+  }
+
+  return null;
+}
+
+/**
+ * Create a battle. Contestants get IDs A, B, C, ... in order.
+ */
+export async function createBattle(db: DbClient, battle: NewBattle): Promise<AgentBattle> {
+  const contestants: BattleContestant[] = battle.contestants.map((contestant, i) => ({
+    id: String.fromCharCode(65 + i),
+    name: contestant.name?.trim() || contestant.model,
+    model: contestant.model,
+    tools: contestant.tools?.length ? contestant.tools : undefined,
+    userCommand: contestant.userCommand?.trim() || undefined,
+  }));
+
+  const { data, error } = await db
+    .from("agent_battles")
+    .insert({
+      name: battle.name?.trim() || contestants.map(c => c.name).join(" vs "),
+      contestants,
+      urls: battle.urls ?? [],
+      stake_usd: battle.stakeUsd ?? DEFAULT_STAKE_USD,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create battle: ${error.message}`);
+  }
+
+  return toBattle(data as BattleRow);
+}
+
+/**
+ * Get a battle. Returns null if it does not exist.
+ */
+export async function getBattle(db: DbClient, id: string): Promise<AgentBattle | null> {
+  const { data, error } = await db
+    .from("agent_battles")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get battle: ${error.message}`);
+  }
+
+  return data ? toBattle(data as BattleRow) : null;
+}
+
+/**
+ * List battles, newest first
+ */
+export async function listBattles(db: DbClient, limit: number = 50): Promise<AgentBattle[]> {
+  const { data, error } = await db
+    .from("agent_battles")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list battles: ${error.message}`);
+  }
+
+  return (data as BattleRow[]).map(toBattle);
+}
+
+/**
+ * Mark a battle's run as finished (completed, or failed with an error).
+ * Returns null if it does not exist.
+ */
+export async function finishBattle(db: DbClient, id: string, error?: string): Promise<AgentBattle | null> {
+  const { data, error: dbError } = await db
+    .from("agent_battles")
+    .update({
+      status: error ? "failed" : "completed",
+      error: error ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (dbError) {
+    throw new Error(`Failed to finish battle: ${dbError.message}`);
+  }
+
+  return data ? toBattle(data as BattleRow) : null;
+}
+
+/**
+ * Delete a battle and its predictions. Returns false if it does not exist.
+ */
+export async function deleteBattle(db: DbClient, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from("agent_battles")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete battle: ${error.message}`);
+  }
+
+  return (data as { id: string }[]).length > 0;
+}
@@ -0,0 +1,167 @@
+/**
+ * Agent battle scoring
+ *
+ * Pure functions that score battle contestants on resolved markets: proper
+ * scoring rules (Brier score, log loss) plus a simulated PnL of their
+ * recommended trades at the market price at analysis time.
+ */
+
+import { summarizeCalibration } from "../calibration/metrics.ts";
+import type { Prediction } from "../calibration/types.ts";
+import type {
+  AgentBattle,
+  BattleContestant,
+  BattleResult,
+  BattleStanding,
+  ContestantScore,
+} from "./types.ts";
+
+function roundUsd(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Simulated PnL of a prediction's recommended trade: a fixed stake bought at
+ * the market price at analysis time, paid $1 per share if it wins.
+ * Returns null when the prediction is not a trade; 0 until the market resolves.
+ */
+export function simulatedTradePnl(prediction: Prediction, stakeUsd: number): number | null {
+  const isYes = prediction.recommendedAction === "BUY YES";
+  if (!isYes && prediction.recommendedAction !== "BUY NO") {
+    return null;
+  }
+
+  const yesPrice = prediction.marketProbability;
+  const price = yesPrice === undefined ? undefined : isYes ? yesPrice : 1 - yesPrice;
+  if (price === undefined || price <= 0 || price >= 1) {
+    return null;
+  }
+
+  if (!prediction.outcome) {
+    return 0;
+  }
+
+  const won = (prediction.outcome === "yes") === isYes;
+  return won ? stakeUsd / price - stakeUsd : -stakeUsd;
+}
+
+/**
+ * Score one contestant's predictions
+ */
+function scoreContestant(contestant: BattleContestant, predictions: Prediction[], stakeUsd: number): ContestantScore {
+  const calibration = summarizeCalibration(predictions);
+  let trades = 0;
+  let pnlUsd = 0;
+
+  for (const prediction of predictions) {
+    const pnl = simulatedTradePnl(prediction, stakeUsd);
+    if (pnl !== null) {
+      trades++;
+      pnlUsd += pnl;
+    }
+  }
+
+  return {
+    contestant: contestant.id,
+    name: contestant.name,
+    model: contestant.model,
+    tools: contestant.tools ?? [],
+    userCommand: contestant.userCommand,
+    predictions: calibration.predictions,
+    resolved: calibration.resolved,
+    brierScore: calibration.brierScore,
+    logLoss: calibration.logLoss,
+    hitRate: calibration.hitRate,
+    trades,
+    pnlUsd: roundUsd(pnlUsd),
+  };
+}
+
+/**
+ * Scoreboard of a battle: contestants ranked by Brier score, then simulated PnL.
+ * The winner is declared once every analysed market has resolved.
+ */
+export function scoreBattle(battle: AgentBattle, predictions: Prediction[]): BattleResult {
+  const own = predictions.filter(p => p.battleId === battle.id);
+
+  const scores = battle.contestants
+    .map(contestant => scoreContestant(contestant, own.filter(p => p.contestant === contestant.id), battle.stakeUsd))
+    .sort((a, b) => (a.brierScore ?? Infinity) - (b.brierScore ?? Infinity) || b.pnlUsd - a.pnlUsd);
+
+  let rank = 0;
+  for (const score of scores) {
+    if (score.resolved > 0) score.rank = ++rank;
+  }
+
+  const marketKey = (p: Prediction) => `${p.eventIdentifier}:${p.market ?? p.ticker}`;
+  const markets = new Set(own.map(marketKey));
+  const resolvedMarkets = new Set(own.filter(p => p.outcome).map(marketKey));
+  const isSettled = battle.status === "completed" && markets.size > 0 && resolvedMarkets.size === markets.size;
+
+  return {
+    ...battle,
+    scores,
+    markets: markets.size,
+    resolvedMarkets: resolvedMarkets.size,
+    winner: isSettled ? scores.find(s => s.rank === 1)?.contestant : undefined,
+  };
+}
+
+/**
+ * Key identifying an agent configuration across battles
+ */
+function configKey(contestant: { model: string; tools?: string[]; userCommand?: string }): string {
+  const tools = [...(contestant.tools ?? [])].sort().join(",");
+  return [contestant.model, tools, contestant.userCommand ?? ""].join("|");
+}
+
+/**
+ * Standings of every agent configuration across battles, most wins first,
+ * then best Brier score
+ */
+export function buildStandings(results: BattleResult[], predictions: Prediction[]): BattleStanding[] {
+  const standings = new Map<string, BattleStanding & { predictionList: Prediction[] }>();
+
+  for (const result of results) {
+    for (const contestant of result.contestants) {
+      const key = configKey(contestant);
+      let standing = standings.get(key);
+      if (!standing) {
+        standing = {
+          key,
+          model: contestant.model,
+          tools: contestant.tools ?? [],
+          userCommand: contestant.userCommand,
+          battles: 0,
+          wins: 0,
+          predictions: 0,
+          resolved: 0,
+          pnlUsd: 0,
+          predictionList: [],
+        };
+        standings.set(key, standing);
+      }
+
+      standing.battles++;
+      if (result.winner === contestant.id) standing.wins++;
+      standing.pnlUsd += result.scores.find(s => s.contestant === contestant.id)?.pnlUsd ?? 0;
+      standing.predictionList.push(
+        ...predictions.filter(p => p.battleId === result.id && p.contestant === contestant.id)
+      );
+    }
+  }
+
+  return [...standings.values()]
+    .map(({ predictionList, ...standing }) => {
+      const calibration = summarizeCalibration(predictionList);
+      return {
+        ...standing,
+        predictions: calibration.predictions,
+        resolved: calibration.resolved,
+        brierScore: calibration.brierScore,
+        hitRate: calibration.hitRate,
+        pnlUsd: roundUsd(standing.pnlUsd),
+      };
+    })
+    .sort((a, b) => b.wins - a.wins || (a.brierScore ?? Infinity) - (b.brierScore ?? Infinity));
+}
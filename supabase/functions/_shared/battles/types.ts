@@ -0,0 +1,115 @@
+/**
+ * Type definitions for agent battles
+ */
+
+/** Tools a battle contestant can use (those run by event-analysis-agent) */
+export type BattleTool = "x_search" | "web_search";
+
+/** Battle lifecycle */
+export type BattleStatus = "running" | "completed" | "failed";
+
+/**
+ * One agent configuration competing in a battle
+ */
+export interface BattleContestant {
+  /** Short ID, unique within the battle (A, B, ...) */
+  id: string;
+  /** Display name; defaults to the model */
+  name: string;
+  model: string;
+  tools?: BattleTool[];
+  userCommand?: string;
+}
+
+/**
+ * Contestant of a battle to create
+ */
+export interface NewBattleContestant {
+  name?: string;
+  model: string;
+  tools?: BattleTool[];
+  userCommand?: string;
+}
+
+/**
+ * Battle to create
+ */
+export interface NewBattle {
+  name?: string;
+  contestants: NewBattleContestant[];
+  urls?: string[];
+  /** Simulated stake per recommended trade (default $10) */
+  stakeUsd?: number;
+}
+
+/**
+ * Battle
+ */
+export interface AgentBattle {
+  id: string;
+  name: string;
+  status: BattleStatus;
+  contestants: BattleContestant[];
+  urls: string[];
+  stakeUsd: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A contestant's score in a battle
+ */
+export interface ContestantScore {
+  contestant: string;
+  name: string;
+  model: string;
+  tools: string[];
+  userCommand?: string;
+  /** Markets analysed */
+  predictions: number;
+  /** Markets resolved */
+  resolved: number;
+  brierScore?: number;
+  logLoss?: number;
+  hitRate?: number;
+  /** Recommended trades (BUY YES / BUY NO) */
+  trades: number;
+  /** Simulated PnL of resolved trades at the market price at analysis time */
+  pnlUsd: number;
+  /** 1 = best; contestants without resolved markets are unranked */
+  rank?: number;
+}
+
+/**
+ * Battle with its scoreboard
+ */
+export interface BattleResult extends AgentBattle {
+  scores: ContestantScore[];
+  /** Markets analysed by at least one contestant */
+  markets: number;
+  /** Markets resolved */
+  resolvedMarkets: number;
+  /** Winning contestant once every market has resolved */
+  winner?: string;
+}
+
+/**
+ * Standings of one agent configuration across battles
+ */
+export interface BattleStanding {
+  /** Configuration key (model, tools and user command) */
+  key: string;
+  model: string;
+  tools: string[];
+  userCommand?: string;
+  /** Battles entered */
+  battles: number;
+  /** Battles won */
+  wins: number;
+  predictions: number;
+  resolved: number;
+  brierScore?: number;
+  hitRate?: number;
+  pnlUsd: number;
+}
@@ -0,0 +1,116 @@
+/**
+ * Calibration metrics
+ *
+ * Pure functions that score resolved predictions (Brier score, log loss,
+ * hit rate and calibration curve), grouped by model, preset and tool set.
+ */
+
+import type {
+  CalibrationBin,
+  CalibrationGroup,
+  CalibrationReport,
+  CalibrationSummary,
+  Prediction,
+} from "./types.ts";
+
+/** Group key for predictions without a value (e.g. teams not loaded from a preset) */
+const NO_VALUE_KEY = "(none)";
+
+/** Number of equal-width bins in the calibration curve */
+const CALIBRATION_BINS = 10;
+
+/** Estimates are clipped away from 0 and 1 so a single confident miss has a finite log loss */
+const LOG_LOSS_EPSILON = 0.01;
+
+function round(value: number, digits: number = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number | undefined {
+  return values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : undefined;
+}
+
+/**
+ * Calibration curve: resolved predictions bucketed by estimated YES probability
+ */
+export function calibrationCurve(resolved: Prediction[]): CalibrationBin[] {
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ estimates: 0, yes: 0, count: 0 }));
+
+  for (const prediction of resolved) {
+    const index = Math.min(Math.floor(prediction.estimatedProbability * CALIBRATION_BINS), CALIBRATION_BINS - 1);
+    bins[index].count++;
+    bins[index].estimates += prediction.estimatedProbability;
+    if (prediction.outcome === "yes") bins[index].yes++;
+  }
+
+  return bins
+    .map((bin, i) => ({
+      lower: i / CALIBRATION_BINS,
+      upper: (i + 1) / CALIBRATION_BINS,
+      count: bin.count,
+      meanEstimate: bin.count > 0 ? round(bin.estimates / bin.count) : 0,
+      observedRate: bin.count > 0 ? round(bin.yes / bin.count) : 0,
+    }))
+    .filter(bin => bin.count > 0);
+}
+
+/**
+ * Calibration scores for a set of predictions
+ */
+export function summarizeCalibration(predictions: Prediction[]): CalibrationSummary {
+  const resolved = predictions.filter(p => p.outcome);
+  const actual = (p: Prediction) => (p.outcome === "yes" ? 1 : 0);
+
+  const withMarket = resolved.filter(p => p.marketProbability !== undefined);
+
+  return {
+    predictions: predictions.length,
+    resolved: resolved.length,
+    brierScore: mean(resolved.map(p => (p.estimatedProbability - actual(p)) ** 2)),
+    marketBrierScore: mean(withMarket.map(p => (p.marketProbability! - actual(p)) ** 2)),
+    logLoss: mean(resolved.map(p => {
+      const estimate = Math.min(Math.max(p.estimatedProbability, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON);
+      return -Math.log(actual(p) === 1 ? estimate : 1 - estimate);
+    })),
+    hitRate: mean(resolved.map(p => (p.predictedWinner.toLowerCase() === p.outcome ? 1 : 0))),
+    calibration: calibrationCurve(resolved),
+  };
+}
+
+/**
+ * Calibration per value of a key, best (lowest) Brier score first.
+ * Groups without resolved predictions sort last.
+ */
+export function groupCalibration(
+  predictions: Prediction[],
+  getKey: (prediction: Prediction) => string | undefined
+): CalibrationGroup[] {
+  const groups = new Map<string, Prediction[]>();
+
+  for (const prediction of predictions) {
+    const key = getKey(prediction) || NO_VALUE_KEY;
+    const group = groups.get(key);
+    if (group) {
+      group.push(prediction);
+    } else {
+      groups.set(key, [prediction]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...summarizeCalibration(group) }))
+    .sort((a, b) => (a.brierScore ?? Infinity) - (b.brierScore ?? Infinity) || b.resolved - a.resolved);
+}
+
+/**
+ * Build the calibration leaderboard by model, preset and tool set
+ */
+export function buildCalibrationReport(predictions: Prediction[]): CalibrationReport {
+  return {
+    total: summarizeCalibration(predictions),
+    byModel: groupCalibration(predictions, p => (p.source === "bookmaker" ? `${p.model} (bookmaker)` : p.model)),
+    byPreset: groupCalibration(predictions, p => p.presetId),
+    byTools: groupCalibration(predictions.filter(p => p.source === "agent"), p => p.tools.join(", ") || "no tools"),
+  };
+}
@@ -0,0 +1,345 @@
+/**
+ * Agent Prediction Store
+ *
+ * Database access for the agent_predictions table, which records the
+ * probability estimate of every agent and bookmaker analysis so it can be
+ * scored once the market resolves.
+ */
+
+import { createDbClient, type DbClient } from "../db/client.ts";
+import type {
+  AnalysisPrediction,
+  NewPrediction,
+  Prediction,
+  PredictionContext,
+  PredictionFilter,
+  PredictionOutcome,
+  PredictionPlatform,
+  PredictionSource,
+  PredictionUpdate,
+} from "./types.ts";
+
+/**
+ * agent_predictions row
+ */
+interface PredictionRow {
+  id: string;
+  created_at: string;
+  source: PredictionSource;
+  platform: PredictionPlatform;
+  model: string;
+  tools: string[];
+  user_command: string | null;
+  preset_id: string | null;
+  analysis_request_id: string | null;
+  battle_id: string | null;
+  contestant: string | null;
+  event_identifier: string;
+  market: string | null;
+  ticker: string;
+  title: string | null;
+  market_probability: number | null;
+  estimated_probability: number;
+  predicted_winner: "YES" | "NO";
+  winner_confidence: number | null;
+  recommended_action: string;
+  confidence: number | null;
+  outcome: PredictionOutcome | null;
+  resolved_at: string | null;
+  last_checked_at: string | null;
+}
+
+function optionalNumber(value: number | null): number | undefined {
+  return value !== null ? Number(value) : undefined;
+}
+
+function toPrediction(row: PredictionRow): Prediction {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    source: row.source,
+    platform: row.platform,
+    model: row.model,
+    tools: row.tools ?? [],
+    userCommand: row.user_command ?? undefined,
+    presetId: row.preset_id ?? undefined,
+    analysisRequestId: row.analysis_request_id ?? undefined,
+    battleId: row.battle_id ?? undefined,
+    contestant: row.contestant ?? undefined,
+    eventIdentifier: row.event_identifier,
+    market: row.market ?? undefined,
+    ticker: row.ticker,
+    title: row.title ?? undefined,
+    marketProbability: optionalNumber(row.market_probability),
+    estimatedProbability: Number(row.estimated_probability),
+    predictedWinner: row.predicted_winner,
+    winnerConfidence: optionalNumber(row.winner_confidence),
+    recommendedAction: row.recommended_action,
+    confidence: optionalNumber(row.confidence),
+    outcome: row.outcome ?? undefined,
+    resolvedAt: row.resolved_at ?? undefined,
+    lastCheckedAt: row.last_checked_at ?? undefined,
+  };
+}
+
+function toRow(prediction: NewPrediction): Partial<PredictionRow> {
+  return {
+    source: prediction.source,
+    platform: prediction.platform,
+    model: prediction.model,
+    tools: [...(prediction.tools ?? [])].sort(),
+    user_command: prediction.userCommand?.trim() || null,
+    preset_id: prediction.presetId ?? null,
+    analysis_request_id: prediction.analysisRequestId ?? null,
+    battle_id: prediction.battleId ?? null,
+    contestant: prediction.contestant ?? null,
+    event_identifier: prediction.eventIdentifier,
+    market: prediction.market ?? null,
+    ticker: prediction.ticker,
+    title: prediction.title ?? null,
+    market_probability: prediction.marketProbability ?? null,
+    estimated_probability: prediction.estimatedProbability,
+    predicted_winner: prediction.predictedWinner,
+    winner_confidence: prediction.winnerConfidence ?? null,
+    recommended_action: prediction.recommendedAction,
+    confidence: prediction.confidence ?? null,
+  };
+}
+
+/**
+ * Percentage (0-100) to a probability (0-1)
+ */
+function toProbability(percent: number | undefined): number | undefined {
+  if (typeof percent !== "number" || !Number.isFinite(percent)) {
+    return undefined;
+  }
+  return Math.min(Math.max(percent / 100, 0), 1);
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase();
+}
+
+/**
+ * Find the market an analysis refers to among the event's raw markets.
+ * Models return a Kalshi ticker, or any of a Polymarket market's condition ID,
+ * slug, ID or question, so every identifier is tried.
+ */
+export function matchPredictionMarket(
+  markets: unknown[],
+  platform: PredictionPlatform,
+  ticker: string
+): { market: string; title?: string } | undefined {
+  const candidates = markets.filter((m): m is Record<string, unknown> => !!m && typeof m === "object");
+  const idKey = platform === "Kalshi" ? "ticker" : "conditionId";
+  const titleKey = platform === "Kalshi" ? "title" : "question";
+  const wanted = normalize(ticker);
+
+  const found = candidates.length === 1
+    ? candidates[0]
+    : candidates.find(m =>
+      ["ticker", "conditionId", "slug", "id", "question", "title"].some(key => wanted && normalize(m[key]) === wanted)
+    );
+
+  if (!found || typeof found[idKey] !== "string") {
+    return undefined;
+  }
+  return {
+    market: found[idKey] as string,
+    title: typeof found[titleKey] === "string" ? found[titleKey] as string : undefined,
+  };
+}
+
+/**
+ * Build the prediction for an analysis. The market is matched against the
+ * event's raw markets when they are available.
+ */
+export function buildPrediction(
+  analysis: AnalysisPrediction,
+  context: PredictionContext,
+  markets: unknown[] = []
+): NewPrediction | null {
+  const estimatedProbability = toProbability(analysis.estimatedActualProbability);
+  if (estimatedProbability === undefined || !analysis.ticker) {
+    return null;
+  }
+
+  const matched = matchPredictionMarket(markets, context.platform, analysis.ticker);
+
+  return {
+    ...context,
+    market: matched?.market,
+    ticker: analysis.ticker,
+    title: analysis.title || matched?.title,
+    marketProbability: toProbability(analysis.marketProbability),
+    estimatedProbability,
+    predictedWinner: analysis.predictedWinner === "NO" ? "NO" : "YES",
+    winnerConfidence: analysis.winnerConfidence,
+    recommendedAction: analysis.recommendedAction,
+    confidence: analysis.confidence,
+  };
+}
+
+/**
+ * Market of an earlier prediction in the same analysis run for the same
+ * ticker. The bookmaker does not receive the raw markets, so its predictions
+ * borrow the market matched for its agents.
+ */
+async function findRunMarket(db: DbClient, analysisRequestId: string, ticker: string): Promise<string | undefined> {
+  const { data, error } = await db
+    .from("agent_predictions")
+    .select("market")
+    .eq("analysis_request_id", analysisRequestId)
+    .eq("ticker", ticker)
+    .not("market", "is", null)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up prediction market: ${error.message}`);
+  }
+
+  return (data as { market: string }[])[0]?.market;
+}
+
+/**
+ * Insert predictions
+ */
+export async function insertPredictions(db: DbClient, predictions: NewPrediction[]): Promise<Prediction[]> {
+  if (predictions.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await db
+    .from("agent_predictions")
+    .insert(predictions.map(toRow))
+    .select("*");
+
+  if (error) {
+    throw new Error(`Failed to record predictions: ${error.message}`);
+  }
+
+  return (data as PredictionRow[]).map(toPrediction);
+}
+
+/**
+ * Record a prediction without failing the caller.
+ * Returns an error message if the prediction could not be written.
+ */
+export async function recordPrediction(prediction: NewPrediction, db?: DbClient): Promise<string | null> {
+  try {
+    const client = db || createDbClient();
+    let market = prediction.market;
+    if (!market && prediction.analysisRequestId) {
+      market = await findRunMarket(client, prediction.analysisRequestId, prediction.ticker);
+    }
+
+    await insertPredictions(client, [{ ...prediction, market }]);
+    return null;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.warn(`Prediction write failed: ${errorMsg}`);
+    return errorMsg;
+  }
+}
+
+/**
+ * List predictions, newest first
+ */
+export async function listPredictions(
+  db: DbClient,
+  filter: PredictionFilter = {},
+  limit: number = 500
+): Promise<Prediction[]> {
+  let query = db
+    .from("agent_predictions")
+    .select("*");
+
+  if (filter.source) query = query.eq("source", filter.source);
+  if (filter.platform) query = query.eq("platform", filter.platform);
+  if (filter.model) query = query.eq("model", filter.model);
+  if (filter.presetId) query = query.eq("preset_id", filter.presetId);
+  if (filter.analysisRequestId) query = query.eq("analysis_request_id", filter.analysisRequestId);
+  if (filter.battleId) query = query.eq("battle_id", filter.battleId);
+  if (filter.resolved !== undefined) query = filter.resolved ? query.not("outcome", "is", null) : query.is("outcome", null);
+  if (filter.since) query = query.gte("created_at", filter.since);
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list predictions: ${error.message}`);
+  }
+
+  return (data as PredictionRow[]).map(toPrediction);
+}
+
+/**
+ * List the predictions of the given battles, or of every battle
+ */
+export async function listBattlePredictions(db: DbClient, battleIds?: string[]): Promise<Prediction[]> {
+  if (battleIds?.length === 0) {
+    return [];
+  }
+
+  let query = db
+    .from("agent_predictions")
+    .select("*");
+
+  query = battleIds ? query.in("battle_id", battleIds) : query.not("battle_id", "is", null);
+
+  const { data, error } = await query.order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list battle predictions: ${error.message}`);
+  }
+
+  return (data as PredictionRow[]).map(toPrediction);
+}
+
+/**
+ * List unresolved predictions with a known market, least recently checked first.
+ * Optionally limited to one battle, or to battle predictions.
+ */
+export async function listUnresolvedPredictions(
+  db: DbClient,
+  limit: number = 100,
+  scope: { battleId?: string; battlesOnly?: boolean } = {}
+): Promise<Prediction[]> {
+  let query = db
+    .from("agent_predictions")
+    .select("*")
+    .is("outcome", null)
+    .not("market", "is", null);
+
+  if (scope.battleId) query = query.eq("battle_id", scope.battleId);
+  else if (scope.battlesOnly) query = query.filter("battle_id", "not.is", null);
+
+  const { data, error } = await query
+    .order("last_checked_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list unresolved predictions: ${error.message}`);
+  }
+
+  return (data as PredictionRow[]).map(toPrediction);
+}
+
+/**
+ * Apply a resolution check to a prediction
+ */
+export async function updatePrediction(db: DbClient, id: string, update: PredictionUpdate): Promise<void> {
+  const { error } = await db
+    .from("agent_predictions")
+    .update({
+      ...(update.outcome ? { outcome: update.outcome } : {}),
+      ...(update.resolvedAt ? { resolved_at: update.resolvedAt } : {}),
+      last_checked_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update prediction: ${error.message}`);
+  }
+}
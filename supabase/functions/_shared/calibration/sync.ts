@@ -0,0 +1,112 @@
+/**
+ * Prediction resolution sync
+ *
+ * Checks whether the markets of unresolved predictions have settled: Polymarket
+ * through the public Gamma API and Kalshi through DFlow. Markets are fetched
+ * once per event and shared by every prediction on that event.
+ */
+
+import { getKalshiMarketsByEvent } from "../dflow/endpoints.ts";
+import type { DbClient } from "../db/client.ts";
+import { updatePrediction } from "./predictionStore.ts";
+import type { Prediction, PredictionOutcome, PredictionUpdate } from "./types.ts";
+
+const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+
+/**
+ * Result of a sync pass
+ */
+export interface PredictionSyncResult {
+  checked: number;
+  resolved: number;
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Resolved outcome of every settled market of an event, by market ID
+ */
+type EventOutcomes = Map<string, PredictionOutcome>;
+
+/**
+ * Settled Polymarket markets of an event (by condition ID).
+ * A closed market has resolved once its first outcome is priced at exactly 1 or 0.
+ */
+async function fetchPolymarketOutcomes(slug: string): Promise<EventOutcomes> {
+  const response = await fetch(`${GAMMA_API_URL}/events?slug=${encodeURIComponent(slug)}`, {
+    method: "GET",
+    headers: { "Content-Type": "application/json" },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Gamma API error: ${response.status} ${response.statusText}`);
+  }
+
+  const events = await response.json();
+  const event = Array.isArray(events) ? events[0] : events;
+  const outcomes: EventOutcomes = new Map();
+
+  for (const market of event?.markets ?? []) {
+    if (!market.closed || !market.conditionId) continue;
+
+    const prices: string[] = JSON.parse(market.outcomePrices || "[]");
+    const yesPrice = parseFloat(prices[0]);
+    if (yesPrice === 1 || yesPrice === 0) {
+      outcomes.set(market.conditionId, yesPrice === 1 ? "yes" : "no");
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Settled Kalshi markets of an event (by market ticker)
+ */
+async function fetchKalshiOutcomes(eventTicker: string): Promise<EventOutcomes> {
+  const markets = await getKalshiMarketsByEvent(eventTicker);
+  const outcomes: EventOutcomes = new Map();
+
+  for (const market of markets ?? []) {
+    const result = market.result?.toLowerCase();
+    if (result === "yes" || result === "no") {
+      outcomes.set(market.ticker, result);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Check unresolved predictions and persist their outcomes.
+ * Predictions whose event fails to load are reported and left for the next pass.
+ */
+export async function syncPredictions(db: DbClient, predictions: Prediction[]): Promise<PredictionSyncResult> {
+  const result: PredictionSyncResult = { checked: 0, resolved: 0, errors: [] };
+  const events = new Map<string, Promise<EventOutcomes>>();
+
+  for (const prediction of predictions) {
+    try {
+      const eventKey = `${prediction.platform}:${prediction.eventIdentifier}`;
+      let outcomes = events.get(eventKey);
+      if (!outcomes) {
+        outcomes = prediction.platform === "Kalshi"
+          ? fetchKalshiOutcomes(prediction.eventIdentifier)
+          : fetchPolymarketOutcomes(prediction.eventIdentifier);
+        events.set(eventKey, outcomes);
+      }
+
+      const outcome = prediction.market ? (await outcomes).get(prediction.market) : undefined;
+      const update: PredictionUpdate = outcome ? { outcome, resolvedAt: new Date().toISOString() } : {};
+
+      await updatePrediction(db, prediction.id, update);
+      result.checked++;
+      if (outcome) {
+        result.resolved++;
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      result.errors.push({ id: prediction.id, error: errorMsg });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,159 @@
+/**
+ * Type definitions for agent prediction calibration
+ */
+
+/** Who made the prediction */
+export type PredictionSource = "agent" | "bookmaker";
+
+/** Venue of the predicted market */
+export type PredictionPlatform = "Polymarket" | "Kalshi";
+
+/** Resolved outcome of the predicted market */
+export type PredictionOutcome = "yes" | "no";
+
+/**
+ * Context attached to a prediction by its caller
+ */
+export interface PredictionContext {
+  source: PredictionSource;
+  platform: PredictionPlatform;
+  model: string;
+  tools?: string[];
+  userCommand?: string;
+  /** Agent preset the team was loaded from */
+  presetId?: string;
+  /** Analysis run the prediction belongs to */
+  analysisRequestId?: string;
+  /** Agent battle the prediction was made in */
+  battleId?: string;
+  /** Battle contestant that made the prediction */
+  contestant?: string;
+  /** Kalshi event ticker or Polymarket event slug */
+  eventIdentifier: string;
+}
+
+/**
+ * Fields of an agent's MarketAnalysis that are recorded
+ */
+export interface AnalysisPrediction {
+  ticker: string;
+  title?: string;
+  /** Market probability (0-100) */
+  marketProbability?: number;
+  /** Estimated YES probability (0-100) */
+  estimatedActualProbability: number;
+  predictedWinner: "YES" | "NO";
+  winnerConfidence?: number;
+  recommendedAction: string;
+  confidence?: number;
+}
+
+/**
+ * Prediction to record
+ */
+export interface NewPrediction extends PredictionContext {
+  /** Kalshi market ticker or Polymarket condition ID */
+  market?: string;
+  /** Market identifier as returned by the model */
+  ticker: string;
+  title?: string;
+  /** Market YES probability at analysis time (0-1) */
+  marketProbability?: number;
+  /** Estimated YES probability (0-1) */
+  estimatedProbability: number;
+  predictedWinner: "YES" | "NO";
+  winnerConfidence?: number;
+  recommendedAction: string;
+  confidence?: number;
+}
+
+/**
+ * Recorded prediction
+ */
+export interface Prediction extends NewPrediction {
+  id: string;
+  createdAt: string;
+  tools: string[];
+  outcome?: PredictionOutcome;
+  resolvedAt?: string;
+  lastCheckedAt?: string;
+}
+
+/**
+ * Fields updated by a resolution check
+ */
+export interface PredictionUpdate {
+  outcome?: PredictionOutcome;
+  resolvedAt?: string;
+}
+
+/**
+ * Filters for listing predictions
+ */
+export interface PredictionFilter {
+  source?: PredictionSource;
+  platform?: PredictionPlatform;
+  model?: string;
+  presetId?: string;
+  analysisRequestId?: string;
+  battleId?: string;
+  /** Only resolved (true) or unresolved (false) predictions */
+  resolved?: boolean;
+  /** ISO timestamp; only predictions made at or after it */
+  since?: string;
+}
+
+/**
+ * One bin of a calibration curve
+ */
+export interface CalibrationBin {
+  /** Lower bound of the estimated probability (inclusive) */
+  lower: number;
+  /** Upper bound of the estimated probability (exclusive, except for the last bin) */
+  upper: number;
+  /** Resolved predictions in the bin */
+  count: number;
+  /** Mean estimated YES probability */
+  meanEstimate: number;
+  /** Fraction that resolved YES */
+  observedRate: number;
+}
+
+/**
+ * Calibration scores for a set of predictions
+ */
+export interface CalibrationSummary {
+  /** Predictions recorded */
+  predictions: number;
+  /** Predictions whose market has resolved */
+  resolved: number;
+  /** Mean squared error of the estimate (lower is better) */
+  brierScore?: number;
+  /** Brier score of the market price at analysis time, for comparison */
+  marketBrierScore?: number;
+  /** Mean negative log likelihood of the outcome (lower is better) */
+  logLoss?: number;
+  /** Fraction of resolved predictions whose predicted winner won */
+  hitRate?: number;
+  /** Calibration curve over resolved predictions (empty bins omitted) */
+  calibration: CalibrationBin[];
+}
+
+/**
+ * Calibration for one value of a grouping key
+ */
+export interface CalibrationGroup extends CalibrationSummary {
+  key: string;
+  /** Display name when the key is an ID (presets) */
+  label?: string;
+}
+
+/**
+ * Calibration leaderboard by model, preset and tool set
+ */
+export interface CalibrationReport {
+  total: CalibrationSummary;
+  byModel: CalibrationGroup[];
+  byPreset: CalibrationGroup[];
+  byTools: CalibrationGroup[];
+}
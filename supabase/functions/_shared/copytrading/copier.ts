@@ -0,0 +1,253 @@
+/**
+ * Copytrading Order Copier
+ *
+ * Applies a copy trader's rules to one leader order and places the mirrored
+ * order. Rules are checked in order and the first failing one skips the
+ * order with its reason:
+ * 1. SELL copying enabled
+ * 2. Market open, not on the deny list and on the allow list (if any)
+ * 3. Daily loss cap (BUYs only)
+ * 4. Slippage: the best price on the book is within maxSlippage of the
+ *    leader's price; the order is placed as a limit at that bound
+ * 5. Size: fixed USD or a fraction of the leader's order, trimmed to the
+ *    max per market (BUYs) or to the copied position (SELLs)
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type { PolymarketClient } from "../polymarket/client.ts";
+import { recordJournalEntries } from "../journal/journalStore.ts";
+import { createLogEntry } from "../polymarket/utils.ts";
+import type { BotLogEntry, OrderArgs, TokenMarketInfo } from "../polymarket/types.ts";
+import { claimCopyTrade, finishCopyTrade, listCopiedTrades } from "./copyTraderStore.ts";
+import type { CopyTrade, CopyTradeUpdate, CopyTrader, LeaderOrder } from "./types.ts";
+
+// Polymarket minimum order size
+const MIN_ORDER_SHARES = 5;
+
+function roundUsd(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Limit price for the mirrored order: the leader's price plus (BUY) or minus
+ * (SELL) the slippage allowance, on the 0.01 tick
+ */
+export function copyLimitPrice(side: "BUY" | "SELL", leaderPrice: number, maxSlippage: number): number {
+  // Epsilon keeps exact ticks (e.g. 0.52) from rounding away
+  return side === "BUY"
+    ? Math.min(Math.floor((leaderPrice + maxSlippage) * 100 + 1e-9) / 100, 0.99)
+    : Math.max(Math.ceil((leaderPrice - maxSlippage) * 100 - 1e-9) / 100, 0.01);
+}
+
+/**
+ * First entry of a market filter list matching the order: an exact condition
+ * ID, or a fragment of the market or event slug
+ */
+export function matchMarketList(list: string[], order: LeaderOrder, info?: TokenMarketInfo | null): string | undefined {
+  const conditionId = order.condition_id.toLowerCase();
+  const slugs = [order.market_slug, info?.slug, info?.eventSlug]
+    .filter((s): s is string => !!s)
+    .map(s => s.toLowerCase());
+
+  return list.find(entry => entry === conditionId || slugs.some(slug => slug.includes(entry)));
+}
+
+/**
+ * Mark-to-market PnL of the copy trader's orders copied today (UTC),
+ * assuming they filled at their limit price
+ */
+async function dailyCopyPnlUsd(db: DbClient, client: PolymarketClient, trader: CopyTrader): Promise<number> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const trades = await listCopiedTrades(db, trader.id, { since: startOfDay.toISOString() });
+  const marks = new Map<string, number | undefined>();
+  let pnl = 0;
+
+  for (const trade of trades) {
+    if (trade.price === undefined || trade.size === undefined) continue;
+
+    if (!marks.has(trade.tokenId)) {
+      const info = await client.getTokenMarketInfo(trade.tokenId).catch(() => null);
+      marks.set(trade.tokenId, info?.resolvedPrice ?? info?.price);
+    }
+
+    const mark = marks.get(trade.tokenId);
+    if (mark === undefined) continue;
+    pnl += trade.side === "BUY" ? trade.size * (mark - trade.price) : trade.size * (trade.price - mark);
+  }
+
+  return roundUsd(pnl);
+}
+
+/**
+ * Net USD bought in a market by the copy trader's copied orders
+ */
+async function marketExposureUsd(db: DbClient, trader: CopyTrader, conditionId: string): Promise<number> {
+  const trades = await listCopiedTrades(db, trader.id, { conditionId });
+  const exposure = trades.reduce((sum, t) => sum + (t.side === "BUY" ? 1 : -1) * (t.costUsd ?? 0), 0);
+  return Math.max(roundUsd(exposure), 0);
+}
+
+/**
+ * Apply the copy trader's rules to a leader order.
+ * Returns the skip decision, or the order to place.
+ */
+async function decideCopyOrder(
+  db: DbClient,
+  client: PolymarketClient,
+  trader: CopyTrader,
+  order: LeaderOrder,
+  info: TokenMarketInfo | null
+): Promise<{ skip: CopyTradeUpdate } | { order: OrderArgs; note?: string }> {
+  const skip = (reason: string) => ({ skip: { status: "skipped" as const, reason } });
+  const { side } = order;
+
+  if (side === "SELL" && !trader.copySells) {
+    return skip("SELL copying is disabled");
+  }
+
+  // Market filters
+  if (info?.closed) {
+    return skip("Market is closed");
+  }
+  const denied = matchMarketList(trader.denyMarkets, order, info);
+  if (denied) {
+    return skip(`Market matches deny list entry "${denied}"`);
+  }
+  if (trader.allowMarkets.length > 0 && !matchMarketList(trader.allowMarkets, order, info)) {
+    return skip("Market is not on the allow list");
+  }
+
+  // Daily loss cap
+  if (side === "BUY" && trader.dailyLossCapUsd !== undefined) {
+    const dailyPnl = await dailyCopyPnlUsd(db, client, trader);
+    if (dailyPnl <= -trader.dailyLossCapUsd) {
+      return skip(`Daily loss cap of $${trader.dailyLossCapUsd} reached (today's PnL $${dailyPnl.toFixed(2)})`);
+    }
+  }
+
+  // Slippage
+  const limitPrice = copyLimitPrice(side, order.price, trader.maxSlippage);
+  const book = await client.getOrderBook(order.token_id);
+  const best = side === "BUY" ? book?.asks[0] : book?.bids[0];
+  if (!best) {
+    return skip(`No ${side === "BUY" ? "asks" : "bids"} on the order book`);
+  }
+  if (side === "BUY" ? best.price > limitPrice : best.price < limitPrice) {
+    return skip(
+      `Best ${side === "BUY" ? "ask" : "bid"} ${best.price} is beyond the slippage limit ${limitPrice} (leader ${order.price})`
+    );
+  }
+
+  // Size
+  const { sizing } = trader;
+  let size = sizing.mode === "fixed"
+    ? (sizing.fixedUsd ?? 0) / limitPrice
+    : order.shares_normalized * (sizing.ratio ?? 0);
+  let note: string | undefined;
+
+  if (side === "BUY" && sizing.maxPerMarketUsd !== undefined) {
+    const remainingUsd = roundUsd(sizing.maxPerMarketUsd - await marketExposureUsd(db, trader, order.condition_id));
+    if (remainingUsd <= 0) {
+      return skip(`Max per market of $${sizing.maxPerMarketUsd} reached`);
+    }
+    if (size * limitPrice > remainingUsd) {
+      size = remainingUsd / limitPrice;
+      note = `Trimmed to the $${remainingUsd} left under the max per market`;
+    }
+  }
+
+  if (side === "SELL") {
+    const positions = await client.getPositions({ market: order.condition_id });
+    const held = positions.find(p => p.asset === order.token_id)?.size ?? 0;
+    if (held <= 0) {
+      return skip("No position to sell");
+    }
+    if (size > held) {
+      size = held;
+      note = `Trimmed to the ${held} shares held`;
+    }
+  }
+
+  size = Math.floor(size);
+  if (size < MIN_ORDER_SHARES) {
+    return skip(`Order size of ${size} shares is below the minimum of ${MIN_ORDER_SHARES}`);
+  }
+
+  return { order: { tokenId: order.token_id, price: limitPrice, size, side }, note };
+}
+
+/**
+ * Copy a leader order: claim it, apply the rules, place the mirrored order
+ * and log the outcome. Returns null if the order was already handled.
+ */
+export async function copyLeaderOrder(
+  db: DbClient,
+  client: PolymarketClient,
+  trader: CopyTrader,
+  order: LeaderOrder,
+  logs: BotLogEntry[]
+): Promise<CopyTrade | null> {
+  const claimed = await claimCopyTrade(db, trader, order);
+  if (!claimed) {
+    logs.push(createLogEntry("INFO", `Leader order ${order.order_hash} was already handled`));
+    return null;
+  }
+
+  let update: CopyTradeUpdate;
+  let info: TokenMarketInfo | null = null;
+
+  try {
+    info = await client.getTokenMarketInfo(order.token_id).catch(() => null);
+    const decision = await decideCopyOrder(db, client, trader, order, info);
+
+    if ("skip" in decision) {
+      update = decision.skip;
+    } else {
+      const placed = await client.placeOrder(decision.order);
+      const costUsd = roundUsd(decision.order.size * decision.order.price);
+      update = placed.success
+        ? { status: "copied", reason: decision.note, orderId: placed.orderId, price: decision.order.price, size: decision.order.size, costUsd }
+        : { status: "failed", reason: placed.errorMsg || "Order rejected", price: decision.order.price, size: decision.order.size };
+
+      // Journal failures are logged but never fail the copy
+      const journalError = await recordJournalEntries([{
+        source: "copytrade",
+        asset: info?.eventSlug || order.market_slug || undefined,
+        platform: "Polymarket",
+        paperTrading: trader.paperTrading,
+        orderId: placed.orderId,
+        market: order.condition_id,
+        marketSlug: order.market_slug || undefined,
+        title: order.title || info?.question,
+        tokenId: order.token_id,
+        outcome: order.token_label || info?.outcome,
+        side: decision.order.side,
+        price: decision.order.price,
+        size: decision.order.size,
+        orderParams: { copyTraderId: trader.id, leader: order.user, leaderOrderHash: order.order_hash },
+        status: placed.success ? "open" : "failed",
+        error: placed.errorMsg,
+      }], db);
+      if (journalError) {
+        logs.push(createLogEntry("WARN", `Failed to record the copy in the journal: ${journalError}`));
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    update = { status: "failed", reason: errorMsg };
+  }
+
+  const trade = await finishCopyTrade(db, claimed.id, update);
+  const market = order.title || order.market_slug;
+  logs.push(createLogEntry(
+    trade.status === "copied" ? "SUCCESS" : trade.status === "failed" ? "ERROR" : "INFO",
+    trade.status === "copied"
+      ? `Copied ${order.side} ${trade.size} @ ${trade.price} on ${market}`
+      : `${trade.status === "failed" ? "Failed to copy" : "Skipped"} ${order.side} on ${market}: ${trade.reason}`,
+    { copyTraderId: trader.id, leader: order.user, leaderOrderHash: order.order_hash, orderId: trade.orderId }
+  ));
+
+  return trade;
+}
@@ -0,0 +1,419 @@
+/**
+ * Copy Trader Store
+ *
+ * Database access for copy traders (copy_traders table) and the log of every
+ * leader order they handled (copy_trades table).
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type {
+  CopySizingMode,
+  CopyTrade,
+  CopyTradeStatus,
+  CopyTradeUpdate,
+  CopyTrader,
+  CopyTraderSettings,
+  CopyTraderStatus,
+  LeaderOrder,
+} from "./types.ts";
+
+export const DEFAULT_MAX_SLIPPAGE = 0.02;
+
+const MAX_LEADERS = 20;
+const MAX_NAME_LENGTH = 100;
+const WALLET_ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * copy_traders row
+ */
+interface CopyTraderRow {
+  id: string;
+  name: string;
+  leaders: string[];
+  sizing_mode: CopySizingMode;
+  fixed_usd: number | null;
+  ratio: number | null;
+  max_per_market_usd: number | null;
+  max_slippage: number;
+  allow_markets: string[];
+  deny_markets: string[];
+  daily_loss_cap_usd: number | null;
+  copy_sells: boolean;
+  paper_trading: boolean;
+  status: CopyTraderStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * copy_trades row
+ */
+interface CopyTradeRow {
+  id: string;
+  copy_trader_id: string;
+  leader: string;
+  leader_order_hash: string;
+  leader_tx_hash: string | null;
+  side: "BUY" | "SELL";
+  token_id: string;
+  condition_id: string;
+  market_slug: string | null;
+  title: string | null;
+  outcome: string | null;
+  leader_price: number;
+  leader_shares: number;
+  status: CopyTradeStatus;
+  reason: string | null;
+  order_id: string | null;
+  price: number | null;
+  size: number | null;
+  cost_usd: number | null;
+  paper_trading: boolean;
+  created_at: string;
+}
+
+function optionalNumber(value: number | null): number | undefined {
+  return value !== null ? Number(value) : undefined;
+}
+
+function toCopyTrader(row: CopyTraderRow): CopyTrader {
+  return {
+    id: row.id,
+    name: row.name,
+    leaders: row.leaders ?? [],
+    sizing: {
+      mode: row.sizing_mode,
+      fixedUsd: optionalNumber(row.fixed_usd),
+      ratio: optionalNumber(row.ratio),
+      maxPerMarketUsd: optionalNumber(row.max_per_market_usd),
+    },
+    maxSlippage: Number(row.max_slippage),
+    allowMarkets: row.allow_markets ?? [],
+    denyMarkets: row.deny_markets ?? [],
+    dailyLossCapUsd: optionalNumber(row.daily_loss_cap_usd),
+    copySells: row.copy_sells,
+    paperTrading: row.paper_trading,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toCopyTrade(row: CopyTradeRow): CopyTrade {
+  return {
+    id: row.id,
+    copyTraderId: row.copy_trader_id,
+    leader: row.leader,
+    leaderOrderHash: row.leader_order_hash,
+    leaderTxHash: row.leader_tx_hash ?? undefined,
+    side: row.side,
+    tokenId: row.token_id,
+    conditionId: row.condition_id,
+    marketSlug: row.market_slug ?? undefined,
+    title: row.title ?? undefined,
+    outcome: row.outcome ?? undefined,
+    leaderPrice: Number(row.leader_price),
+    leaderShares: Number(row.leader_shares),
+    status: row.status,
+    reason: row.reason ?? undefined,
+    orderId: row.order_id ?? undefined,
+    price: optionalNumber(row.price),
+    size: optionalNumber(row.size),
+    costUsd: optionalNumber(row.cost_usd),
+    paperTrading: row.paper_trading,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Normalise a market filter list: trimmed, lowercase, no duplicates
+ */
+function toMarketList(values: string[] | undefined): string[] {
+  return [...new Set((values ?? []).map(v => v.trim().toLowerCase()).filter(Boolean))];
+}
+
+function toRow(settings: CopyTraderSettings): Partial<CopyTraderRow> {
+  const leaders = [...new Set(settings.leaders.map(l => l.toLowerCase()))];
+
+  return {
+    name: settings.name?.trim() || `Copy ${leaders[0].slice(0, 6)}...${leaders[0].slice(-4)}`,
+    leaders,
+    sizing_mode: settings.sizing.mode,
+    fixed_usd: settings.sizing.mode === "fixed" ? settings.sizing.fixedUsd ?? null : null,
+    ratio: settings.sizing.mode === "proportional" ? settings.sizing.ratio ?? null : null,
+    max_per_market_usd: settings.sizing.maxPerMarketUsd ?? null,
+    max_slippage: settings.maxSlippage ?? DEFAULT_MAX_SLIPPAGE,
+    allow_markets: toMarketList(settings.allowMarkets),
+    deny_markets: toMarketList(settings.denyMarkets),
+    daily_loss_cap_usd: settings.dailyLossCapUsd ?? null,
+    copy_sells: settings.copySells ?? true,
+    paper_trading: settings.paperTrading ?? false,
+  };
+}
+
+const isPositiveNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === "string");
+
+/**
+ * Validate copy trader settings, returning the first problem found
+ */
+export function validateCopyTraderSettings(settings: CopyTraderSettings): string | null {
+  if (!settings || typeof settings !== "object") return "Missing copy trader settings";
+  if (settings.name !== undefined && (typeof settings.name !== "string" || settings.name.trim().length > MAX_NAME_LENGTH)) {
+    return `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+
+  if (!Array.isArray(settings.leaders) || settings.leaders.length === 0) return "At least one leader wallet is required";
+  if (settings.leaders.length > MAX_LEADERS) return `At most ${MAX_LEADERS} leader wallets can be followed`;
+  const invalidLeader = settings.leaders.find(l => typeof l !== "string" || !WALLET_ADDRESS_PATTERN.test(l));
+  if (invalidLeader !== undefined) return `Invalid leader wallet address: ${invalidLeader}`;
+
+  const { sizing } = settings;
+  if (!sizing || (sizing.mode !== "fixed" && sizing.mode !== "proportional")) {
+    return "sizing.mode must be 'fixed' or 'proportional'";
+  }
+  if (sizing.mode === "fixed" && !isPositiveNumber(sizing.fixedUsd)) return "sizing.fixedUsd must be a positive number";
+  if (sizing.mode === "proportional" && !isPositiveNumber(sizing.ratio)) return "sizing.ratio must be a positive number";
+  if (sizing.maxPerMarketUsd !== undefined && !isPositiveNumber(sizing.maxPerMarketUsd)) {
+    return "sizing.maxPerMarketUsd must be a positive number";
+  }
+
+  if (settings.maxSlippage !== undefined && (typeof settings.maxSlippage !== "number" || settings.maxSlippage < 0 || settings.maxSlippage >= 1)) {
+    return "maxSlippage must be a price difference between 0 and 1";
+  }
+  if (settings.allowMarkets !== undefined && !isStringList(settings.allowMarkets)) return "allowMarkets must be a list of strings";
+  if (settings.denyMarkets !== undefined && !isStringList(settings.denyMarkets)) return "denyMarkets must be a list of strings";
+  if (settings.dailyLossCapUsd !== undefined && !isPositiveNumber(settings.dailyLossCapUsd)) {
+    return "dailyLossCapUsd must be a positive number";
+  }
+
+  return null;
+}
+
+/**
+ * List all copy traders, newest first
+ */
+export async function listCopyTraders(db: DbClient): Promise<CopyTrader[]> {
+  const { data, error } = await db
+    .from("copy_traders")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list copy traders: ${error.message}`);
+  }
+
+  return (data as CopyTraderRow[]).map(toCopyTrader);
+}
+
+/**
+ * Get a copy trader. Returns null if it does not exist.
+ */
+export async function getCopyTrader(db: DbClient, id: string): Promise<CopyTrader | null> {
+  const { data, error } = await db
+    .from("copy_traders")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get copy trader: ${error.message}`);
+  }
+
+  return data ? toCopyTrader(data as CopyTraderRow) : null;
+}
+
+/**
+ * Create a copy trader from validated settings
+ */
+export async function createCopyTrader(
+  db: DbClient,
+  settings: CopyTraderSettings,
+  status: CopyTraderStatus
+): Promise<CopyTrader> {
+  const { data, error } = await db
+    .from("copy_traders")
+    .insert({ ...toRow(settings), status })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create copy trader: ${error.message}`);
+  }
+
+  return toCopyTrader(data as CopyTraderRow);
+}
+
+/**
+ * Replace a copy trader's settings with validated ones.
+ * Returns null if it does not exist.
+ */
+export async function updateCopyTrader(
+  db: DbClient,
+  id: string,
+  settings: CopyTraderSettings
+): Promise<CopyTrader | null> {
+  const { data, error } = await db
+    .from("copy_traders")
+    .update({ ...toRow(settings), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update copy trader: ${error.message}`);
+  }
+
+  return data ? toCopyTrader(data as CopyTraderRow) : null;
+}
+
+/**
+ * Update a copy trader's status. Returns null if it does not exist.
+ */
+export async function setCopyTraderStatus(
+  db: DbClient,
+  id: string,
+  status: CopyTraderStatus
+): Promise<CopyTrader | null> {
+  const { data, error } = await db
+    .from("copy_traders")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update copy trader status: ${error.message}`);
+  }
+
+  return data ? toCopyTrader(data as CopyTraderRow) : null;
+}
+
+/**
+ * Delete a copy trader and its trade log. Returns false if it does not exist.
+ */
+export async function deleteCopyTrader(db: DbClient, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from("copy_traders")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete copy trader: ${error.message}`);
+  }
+
+  return (data as { id: string }[]).length > 0;
+}
+
+/**
+ * Claim a leader order for a copy trader.
+ * Returns null if the order was already handled, so an order delivered twice
+ * is never copied twice.
+ */
+export async function claimCopyTrade(db: DbClient, trader: CopyTrader, order: LeaderOrder): Promise<CopyTrade | null> {
+  const { data, error } = await db
+    .from("copy_trades")
+    .insert({
+      copy_trader_id: trader.id,
+      leader: order.user.toLowerCase(),
+      leader_order_hash: order.order_hash,
+      leader_tx_hash: order.tx_hash || null,
+      side: order.side,
+      token_id: order.token_id,
+      condition_id: order.condition_id,
+      market_slug: order.market_slug || null,
+      title: order.title || null,
+      outcome: order.token_label || null,
+      leader_price: order.price,
+      leader_shares: order.shares_normalized,
+      paper_trading: trader.paperTrading,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    throw new Error(`Failed to claim leader order: ${error.message}`);
+  }
+
+  return toCopyTrade(data as CopyTradeRow);
+}
+
+/**
+ * Record the decision on a claimed leader order
+ */
+export async function finishCopyTrade(db: DbClient, id: string, update: CopyTradeUpdate): Promise<CopyTrade> {
+  const { data, error } = await db
+    .from("copy_trades")
+    .update({
+      status: update.status,
+      reason: update.reason ?? null,
+      order_id: update.orderId ?? null,
+      price: update.price ?? null,
+      size: update.size ?? null,
+      cost_usd: update.costUsd ?? null,
+    })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record copy trade: ${error.message}`);
+  }
+
+  return toCopyTrade(data as CopyTradeRow);
+}
+
+/**
+ * List copy trades, newest first, optionally for one copy trader
+ */
+export async function listCopyTrades(db: DbClient, copyTraderId?: string, limit: number = 100): Promise<CopyTrade[]> {
+  let query = db
+    .from("copy_trades")
+    .select("*");
+
+  if (copyTraderId) query = query.eq("copy_trader_id", copyTraderId);
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list copy trades: ${error.message}`);
+  }
+
+  return (data as CopyTradeRow[]).map(toCopyTrade);
+}
+
+/**
+ * List a copy trader's copied orders in one market, or since a time
+ */
+export async function listCopiedTrades(
+  db: DbClient,
+  copyTraderId: string,
+  options: { conditionId?: string; since?: string }
+): Promise<CopyTrade[]> {
+  let query = db
+    .from("copy_trades")
+    .select("*")
+    .eq("copy_trader_id", copyTraderId)
+    .eq("status", "copied");
+
+  if (options.conditionId) query = query.eq("condition_id", options.conditionId);
+  if (options.since) query = query.gte("created_at", options.since);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list copied trades: ${error.message}`);
+  }
+
+  return (data as CopyTradeRow[]).map(toCopyTrade);
+}
@@ -0,0 +1,134 @@
+/**
+ * Type definitions for copytrading
+ */
+
+/**
+ * How copied orders are sized
+ * - fixed: the same USD amount for every copied order
+ * - proportional: a fraction of the leader's order
+ */
+export type CopySizingMode = "fixed" | "proportional";
+
+/**
+ * Lifecycle status of a copy trader
+ * - running: the terminal server streams its leaders' orders and copies them
+ * - paused: kept with its history; leader orders are not streamed
+ * - stopped: halted; can be started again
+ */
+export type CopyTraderStatus = "running" | "paused" | "stopped";
+
+/**
+ * Outcome of a leader order
+ * - pending: claimed, decision in progress
+ * - copied: the mirrored order was placed
+ * - skipped: a rule rejected the order (see reason)
+ * - failed: the mirrored order was rejected by the exchange
+ */
+export type CopyTradeStatus = "pending" | "copied" | "skipped" | "failed";
+
+/**
+ * Copy trader sizing
+ */
+export interface CopySizing {
+  mode: CopySizingMode;
+  /** USD per copied order (fixed) */
+  fixedUsd?: number;
+  /** Fraction of the leader's order, e.g. 0.1 = 10% (proportional) */
+  ratio?: number;
+  /** Cap on the net USD bought per market across all copies */
+  maxPerMarketUsd?: number;
+}
+
+/**
+ * Copy trader settings (create / update)
+ */
+export interface CopyTraderSettings {
+  name?: string;
+  /** Leader proxy wallet addresses */
+  leaders: string[];
+  sizing: CopySizing;
+  /** Max price difference (0-1) accepted vs the leader's price. Default: 0.02 */
+  maxSlippage?: number;
+  /** Only copy markets matching one of these condition IDs or slug fragments */
+  allowMarkets?: string[];
+  /** Never copy markets matching one of these condition IDs or slug fragments */
+  denyMarkets?: string[];
+  /** Skip new BUYs once the day's (UTC) copied trades are down this much */
+  dailyLossCapUsd?: number;
+  /** Mirror the leaders' SELLs (from the copied position). Default: true */
+  copySells?: boolean;
+  /** Place simulated paper orders instead of live ones */
+  paperTrading?: boolean;
+}
+
+/**
+ * Persistent copy trader
+ */
+export interface CopyTrader extends Required<Omit<CopyTraderSettings, "dailyLossCapUsd">> {
+  id: string;
+  dailyLossCapUsd?: number;
+  status: CopyTraderStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Order event of a leader wallet, as delivered by the Dome WebSocket
+ */
+export interface LeaderOrder {
+  token_id: string;
+  /** Outcome of the token (Yes / No / Up / ...) */
+  token_label?: string;
+  side: "BUY" | "SELL";
+  market_slug: string;
+  condition_id: string;
+  shares: string;
+  shares_normalized: number;
+  price: number;
+  tx_hash: string;
+  title: string;
+  timestamp: number;
+  order_hash: string;
+  user: string;
+}
+
+/**
+ * A leader order and what the copy trader did with it
+ */
+export interface CopyTrade {
+  id: string;
+  copyTraderId: string;
+  leader: string;
+  leaderOrderHash: string;
+  leaderTxHash?: string;
+  side: "BUY" | "SELL";
+  tokenId: string;
+  conditionId: string;
+  marketSlug?: string;
+  title?: string;
+  outcome?: string;
+  leaderPrice: number;
+  leaderShares: number;
+  status: CopyTradeStatus;
+  /** Why the order was skipped or failed, or how it was adjusted */
+  reason?: string;
+  /** Mirrored order */
+  orderId?: string;
+  price?: number;
+  size?: number;
+  costUsd?: number;
+  paperTrading: boolean;
+  createdAt: string;
+}
+
+/**
+ * Decision on a leader order
+ */
+export interface CopyTradeUpdate {
+  status: Exclude<CopyTradeStatus, "pending">;
+  reason?: string;
+  orderId?: string;
+  price?: number;
+  size?: number;
+  costUsd?: number;
+}
@@ -0,0 +1,37 @@
+/**
+ * Supabase Postgres client for Edge Functions
+ *
+ * Uses the service role key (injected automatically into deployed and
+ * locally served edge functions) so that functions can read and write
+ * PredictOS tables regardless of row level security.
+ */
+
+// @ts-ignore - Deno npm imports
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+/**
+ * Database client type
+ */
+export type DbClient = SupabaseClient;
+
+/**
+ * Create a database client from environment variables
+ */
+export function createDbClient(): DbClient {
+  // @ts-ignore - Deno global
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  // @ts-ignore - Deno global
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl) {
+    throw new Error("SUPABASE_URL environment variable is required");
+  }
+
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY environment variable is required");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+}
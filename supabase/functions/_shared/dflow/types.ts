@@ -23,6 +23,8 @@ export interface DFlowKalshiMarket {
   volume_24h: number;
   liquidity: number;
   open_interest: number;
+  /** Settlement result ("yes" / "no") once the market is determined */
+  result?: string;
 }
 
 export interface DFlowEventResponse {
@@ -0,0 +1,246 @@
+/**
+ * Trade Journal Store
+ *
+ * Database access for the trade_journal table, which records every order
+ * placed by bots, autonomous mode, copy traders and manual put-order calls.
+ */
+
+import { createDbClient, type DbClient } from "../db/client.ts";
+import type {
+  JournalEntry,
+  JournalEntryUpdate,
+  JournalFilter,
+  NewJournalEntry,
+  TradePlatform,
+  TradeResolution,
+  TradeSide,
+  TradeSource,
+  TradeStatus,
+} from "./types.ts";
+
+/**
+ * trade_journal row
+ */
+interface JournalRow {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  source: TradeSource;
+  platform: TradePlatform;
+  strategy: string;
+  asset: string | null;
+  model: string | null;
+  analysis_request_id: string | null;
+  bot_id: string | null;
+  paper_trading: boolean;
+  order_id: string | null;
+  market: string | null;
+  market_slug: string | null;
+  title: string | null;
+  token_id: string | null;
+  outcome: string | null;
+  side: TradeSide;
+  price: number;
+  size: number;
+  order_params: Record<string, unknown> | null;
+  status: TradeStatus;
+  filled_size: number;
+  avg_fill_price: number | null;
+  fee_usd: number;
+  error: string | null;
+  current_price: number | null;
+  resolution: TradeResolution | null;
+  payout_usd: number | null;
+  realized_pnl_usd: number | null;
+  resolved_at: string | null;
+  last_synced_at: string | null;
+}
+
+function optionalNumber(value: number | null): number | undefined {
+  return value !== null ? Number(value) : undefined;
+}
+
+function toEntry(row: JournalRow): JournalEntry {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    source: row.source,
+    platform: row.platform,
+    strategy: row.strategy,
+    asset: row.asset ?? undefined,
+    model: row.model ?? undefined,
+    analysisRequestId: row.analysis_request_id ?? undefined,
+    botId: row.bot_id ?? undefined,
+    paperTrading: row.paper_trading,
+    orderId: row.order_id ?? undefined,
+    market: row.market ?? undefined,
+    marketSlug: row.market_slug ?? undefined,
+    title: row.title ?? undefined,
+    tokenId: row.token_id ?? undefined,
+    outcome: row.outcome ?? undefined,
+    side: row.side ?? "BUY",
+    price: Number(row.price),
+    size: Number(row.size),
+    orderParams: row.order_params ?? undefined,
+    status: row.status,
+    filledSize: Number(row.filled_size),
+    avgFillPrice: optionalNumber(row.avg_fill_price),
+    feeUsd: Number(row.fee_usd),
+    error: row.error ?? undefined,
+    currentPrice: optionalNumber(row.current_price),
+    resolution: row.resolution ?? undefined,
+    payoutUsd: optionalNumber(row.payout_usd),
+    realizedPnlUsd: optionalNumber(row.realized_pnl_usd),
+    resolvedAt: row.resolved_at ?? undefined,
+    lastSyncedAt: row.last_synced_at ?? undefined,
+  };
+}
+
+function toRow(entry: NewJournalEntry): Partial<JournalRow> {
+  return {
+    source: entry.source,
+    platform: entry.platform,
+    strategy: entry.strategy || entry.source,
+    asset: entry.asset ?? null,
+    model: entry.model ?? null,
+    analysis_request_id: entry.analysisRequestId ?? null,
+    bot_id: entry.botId ?? null,
+    paper_trading: entry.paperTrading ?? false,
+    order_id: entry.orderId ?? null,
+    market: entry.market ?? null,
+    market_slug: entry.marketSlug ?? null,
+    title: entry.title ?? null,
+    token_id: entry.tokenId ?? null,
+    outcome: entry.outcome ?? null,
+    side: entry.side || "BUY",
+    price: entry.price,
+    size: entry.size,
+    order_params: entry.orderParams ?? null,
+    status: entry.status || "open",
+    fee_usd: entry.feeUsd ?? 0,
+    error: entry.error ?? null,
+  };
+}
+
+/**
+ * Insert journal entries
+ */
+export async function insertJournalEntries(db: DbClient, entries: NewJournalEntry[]): Promise<JournalEntry[]> {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await db
+    .from("trade_journal")
+    .insert(entries.map(toRow))
+    .select("*");
+
+  if (error) {
+    throw new Error(`Failed to record trades: ${error.message}`);
+  }
+
+  return (data as JournalRow[]).map(toEntry);
+}
+
+/**
+ * Record orders in the journal without failing the caller.
+ * Returns an error message if the entries could not be written.
+ */
+export async function recordJournalEntries(entries: NewJournalEntry[], db?: DbClient): Promise<string | null> {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  try {
+    await insertJournalEntries(db || createDbClient(), entries);
+    return null;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.warn(`Trade journal write failed: ${errorMsg}`);
+    return errorMsg;
+  }
+}
+
+/**
+ * List journal entries, newest first
+ */
+export async function listJournalEntries(
+  db: DbClient,
+  filter: JournalFilter = {},
+  limit: number = 500
+): Promise<JournalEntry[]> {
+  let query = db
+    .from("trade_journal")
+    .select("*");
+
+  if (filter.source) query = query.eq("source", filter.source);
+  if (filter.platform) query = query.eq("platform", filter.platform);
+  if (filter.strategy) query = query.eq("strategy", filter.strategy);
+  if (filter.asset) query = query.eq("asset", filter.asset);
+  if (filter.model) query = query.eq("model", filter.model);
+  if (filter.status) query = query.eq("status", filter.status);
+  if (filter.analysisRequestId) query = query.eq("analysis_request_id", filter.analysisRequestId);
+  if (filter.botId) query = query.eq("bot_id", filter.botId);
+  if (filter.paperTrading !== undefined) query = query.eq("paper_trading", filter.paperTrading);
+  if (filter.since) query = query.gte("created_at", filter.since);
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list trade journal: ${error.message}`);
+  }
+
+  return (data as JournalRow[]).map(toEntry);
+}
+
+/**
+ * List entries that still need syncing (open orders and unresolved fills),
+ * least recently synced first
+ */
+export async function listUnsettledJournalEntries(db: DbClient, limit: number = 100): Promise<JournalEntry[]> {
+  const { data, error } = await db
+    .from("trade_journal")
+    .select("*")
+    .in("status", ["open", "filled"])
+    .order("last_synced_at", { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list unsettled trades: ${error.message}`);
+  }
+
+  return (data as JournalRow[]).map(toEntry);
+}
+
+/**
+ * Apply a sync update to a journal entry
+ */
+export async function updateJournalEntry(db: DbClient, id: string, update: JournalEntryUpdate): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await db
+    .from("trade_journal")
+    .update({
+      ...(update.status ? { status: update.status } : {}),
+      ...(update.filledSize !== undefined ? { filled_size: update.filledSize } : {}),
+      ...(update.avgFillPrice !== undefined ? { avg_fill_price: update.avgFillPrice } : {}),
+      ...(update.tokenId ? { token_id: update.tokenId } : {}),
+      ...(update.market ? { market: update.market } : {}),
+      ...(update.outcome ? { outcome: update.outcome } : {}),
+      ...(update.currentPrice !== undefined ? { current_price: update.currentPrice } : {}),
+      ...(update.resolution ? { resolution: update.resolution } : {}),
+      ...(update.payoutUsd !== undefined ? { payout_usd: update.payoutUsd } : {}),
+      ...(update.realizedPnlUsd !== undefined ? { realized_pnl_usd: update.realizedPnlUsd } : {}),
+      ...(update.resolvedAt ? { resolved_at: update.resolvedAt } : {}),
+      last_synced_at: now,
+      updated_at: now,
+    })
+    .eq("id", id);
+
+  if (error) {
+    throw new Error(`Failed to update trade journal entry: ${error.message}`);
+  }
+}
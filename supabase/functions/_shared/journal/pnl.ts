@@ -0,0 +1,119 @@
+/**
+ * Trade journal PnL
+ *
+ * Pure functions that turn journal entries into realised / unrealised PnL,
+ * grouped by strategy, asset and model.
+ */
+
+import type { JournalEntry, PnlGroup, PnlReport, PnlSummary } from "./types.ts";
+
+/** Group key for entries without a value (e.g. bot orders have no model) */
+const NO_VALUE_KEY = "(none)";
+
+function roundUsd(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 1 for entries that bought the outcome, -1 for entries that sold it
+ */
+export function entryDirection(entry: Pick<JournalEntry, "side">): number {
+  return entry.side === "SELL" ? -1 : 1;
+}
+
+/**
+ * USD spent on an entry's fills, including fees. Sales are negative.
+ */
+export function entryCostUsd(entry: JournalEntry): number {
+  if (entry.filledSize <= 0) {
+    return 0;
+  }
+  return entryDirection(entry) * entry.filledSize * (entry.avgFillPrice ?? entry.price) + entry.feeUsd;
+}
+
+/**
+ * Realised and unrealised PnL of a single entry.
+ * Resolved entries are fully realised; filled entries are marked at their
+ * latest price, or at cost when no mark is available yet.
+ */
+export function entryPnl(entry: JournalEntry): { realizedPnlUsd: number; unrealizedPnlUsd: number } {
+  const costUsd = entryCostUsd(entry);
+
+  if (entry.status === "resolved") {
+    const realized = entry.realizedPnlUsd ?? (entry.payoutUsd ?? 0) - costUsd;
+    return { realizedPnlUsd: realized, unrealizedPnlUsd: 0 };
+  }
+
+  if (entry.filledSize > 0 && entry.currentPrice !== undefined) {
+    return { realizedPnlUsd: 0, unrealizedPnlUsd: entryDirection(entry) * entry.filledSize * entry.currentPrice - costUsd };
+  }
+
+  return { realizedPnlUsd: 0, unrealizedPnlUsd: 0 };
+}
+
+/**
+ * Aggregate PnL for a set of entries
+ */
+export function summarizePnl(entries: JournalEntry[]): PnlSummary {
+  let filledOrders = 0;
+  let costUsd = 0;
+  let realizedPnlUsd = 0;
+  let unrealizedPnlUsd = 0;
+  let wins = 0;
+  let losses = 0;
+
+  for (const entry of entries) {
+    if (entry.filledSize > 0) filledOrders++;
+    if (entry.resolution === "won") wins++;
+    if (entry.resolution === "lost") losses++;
+
+    const pnl = entryPnl(entry);
+    costUsd += entryCostUsd(entry);
+    realizedPnlUsd += pnl.realizedPnlUsd;
+    unrealizedPnlUsd += pnl.unrealizedPnlUsd;
+  }
+
+  return {
+    orders: entries.length,
+    filledOrders,
+    costUsd: roundUsd(costUsd),
+    realizedPnlUsd: roundUsd(realizedPnlUsd),
+    unrealizedPnlUsd: roundUsd(unrealizedPnlUsd),
+    totalPnlUsd: roundUsd(realizedPnlUsd + unrealizedPnlUsd),
+    wins,
+    losses,
+  };
+}
+
+/**
+ * Aggregate PnL per value of a key, best total PnL first
+ */
+export function groupPnl(entries: JournalEntry[], getKey: (entry: JournalEntry) => string | undefined): PnlGroup[] {
+  const groups = new Map<string, JournalEntry[]>();
+
+  for (const entry of entries) {
+    const key = getKey(entry) || NO_VALUE_KEY;
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...summarizePnl(group) }))
+    .sort((a, b) => b.totalPnlUsd - a.totalPnlUsd);
+}
+
+/**
+ * Build the PnL report by strategy, asset and model
+ */
+export function buildPnlReport(entries: JournalEntry[]): PnlReport {
+  return {
+    total: summarizePnl(entries),
+    byStrategy: groupPnl(entries, e => e.strategy),
+    byAsset: groupPnl(entries, e => e.asset),
+    byModel: groupPnl(entries, e => e.model),
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Trade journal sync
+ *
+ * Refreshes journal entries from the venues: order fills and status, the
+ * latest mark for filled positions, and the resolution once the market settles.
+ */
+
+import { createClientForRequest } from "../polymarket/paperClient.ts";
+import type { PolymarketClient } from "../polymarket/client.ts";
+import { createKalshiClientFromEnv, type KalshiClient } from "../kalshi/client.ts";
+import type { DbClient } from "../db/client.ts";
+import { updateJournalEntry } from "./journalStore.ts";
+import { entryCostUsd, entryDirection } from "./pnl.ts";
+import type { JournalEntry, JournalEntryUpdate, TradeStatus } from "./types.ts";
+
+/**
+ * Result of a sync pass
+ */
+export interface JournalSyncResult {
+  synced: number;
+  resolved: number;
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Lazily created venue clients, shared across the entries of a sync pass
+ */
+class SyncClients {
+  private polymarket = new Map<boolean, PolymarketClient>();
+  private kalshi: KalshiClient | null = null;
+
+  getPolymarket(paperTrading: boolean): PolymarketClient {
+    let client = this.polymarket.get(paperTrading);
+    if (!client) {
+      client = createClientForRequest(paperTrading);
+      this.polymarket.set(paperTrading, client);
+    }
+    return client;
+  }
+
+  getKalshi(): KalshiClient {
+    if (!this.kalshi) {
+      this.kalshi = createKalshiClientFromEnv();
+    }
+    return this.kalshi;
+  }
+}
+
+/**
+ * Status of an order given whether it is still resting and how much filled
+ */
+function fillStatus(resting: boolean, filledSize: number): TradeStatus {
+  if (resting) return "open";
+  return filledSize > 0 ? "filled" : "cancelled";
+}
+
+/**
+ * Resolution fields for a settled position. A sale wins when its outcome loses.
+ */
+function resolutionUpdate(entry: JournalEntry, filledSize: number, outcomeWon: boolean): JournalEntryUpdate {
+  const payoutUsd = outcomeWon ? entryDirection(entry) * filledSize : 0;
+  const costUsd = entryCostUsd({ ...entry, filledSize });
+  const won = outcomeWon === (entry.side !== "SELL");
+  return {
+    status: "resolved",
+    resolution: won ? "won" : "lost",
+    currentPrice: outcomeWon ? 1 : 0,
+    payoutUsd,
+    realizedPnlUsd: Math.round((payoutUsd - costUsd) * 100) / 100,
+    resolvedAt: new Date().toISOString(),
+  };
+}
+
+async function syncPolymarketEntry(entry: JournalEntry, clients: SyncClients): Promise<JournalEntryUpdate> {
+  const client = clients.getPolymarket(entry.paperTrading);
+  const update: JournalEntryUpdate = {};
+  let filledSize = entry.filledSize;
+  let tokenId = entry.tokenId;
+
+  if (entry.status === "open" && entry.orderId) {
+    const order = await client.getOrder(entry.orderId);
+    if (order) {
+      filledSize = parseFloat(order.size_matched) || 0;
+      tokenId = tokenId || order.asset_id;
+      update.status = fillStatus(order.status === "LIVE", filledSize);
+      update.filledSize = filledSize;
+      // Fills are recorded at the limit price; maker orders never fill worse
+      update.avgFillPrice = filledSize > 0 ? parseFloat(order.price) || entry.price : undefined;
+      update.tokenId = order.asset_id;
+      update.market = order.market;
+      update.outcome = order.outcome;
+    }
+  }
+
+  if (filledSize <= 0 || !tokenId) {
+    return update;
+  }
+
+  const info = await client.getTokenMarketInfo(tokenId);
+  if (!info) {
+    return update;
+  }
+
+  const status = update.status || entry.status;
+  if (info.resolvedPrice !== undefined && status !== "open") {
+    return { ...update, ...resolutionUpdate(entry, filledSize, info.resolvedPrice === 1) };
+  }
+
+  return { ...update, currentPrice: info.price };
+}
+
+async function syncKalshiEntry(entry: JournalEntry, clients: SyncClients): Promise<JournalEntryUpdate> {
+  const client = clients.getKalshi();
+  const update: JournalEntryUpdate = {};
+  const ticker = entry.tokenId || entry.market;
+  let filledSize = entry.filledSize;
+
+  if (entry.status === "open" && entry.orderId) {
+    const order = await client.getOrder(entry.orderId);
+    if (order) {
+      filledSize = order.fill_count ?? 0;
+      update.status = fillStatus(order.status === "resting", filledSize);
+      update.filledSize = filledSize;
+      update.avgFillPrice = filledSize > 0 ? entry.price : undefined;
+    }
+  }
+
+  if (filledSize <= 0 || !ticker) {
+    return update;
+  }
+
+  const market = await client.getMarket(ticker);
+  if (!market) {
+    return update;
+  }
+
+  const isYes = (entry.outcome || "").toLowerCase() === "yes";
+  const status = update.status || entry.status;
+
+  if ((market.result === "yes" || market.result === "no") && status !== "open") {
+    return { ...update, ...resolutionUpdate(entry, filledSize, (market.result === "yes") === isYes) };
+  }
+
+  const yesCents = market.last_price;
+  if (yesCents > 0) {
+    update.currentPrice = (isYes ? yesCents : 100 - yesCents) / 100;
+  }
+  return update;
+}
+
+/**
+ * Sync journal entries and persist the updates.
+ * Entries that fail to sync are reported and left for the next pass.
+ */
+export async function syncJournalEntries(db: DbClient, entries: JournalEntry[]): Promise<JournalSyncResult> {
+  const clients = new SyncClients();
+  const result: JournalSyncResult = { synced: 0, resolved: 0, errors: [] };
+
+  for (const entry of entries) {
+    try {
+      const update = entry.platform === "Kalshi"
+        ? await syncKalshiEntry(entry, clients)
+        : await syncPolymarketEntry(entry, clients);
+
+      await updateJournalEntry(db, entry.id, update);
+      result.synced++;
+      if (update.status === "resolved") {
+        result.resolved++;
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      result.errors.push({ id: entry.id, error: errorMsg });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,176 @@
+/**
+ * Type definitions for the trade journal
+ */
+
+/** What placed the order */
+export type TradeSource = "bot" | "autonomous" | "manual" | "copytrade" | "arbitrage";
+
+/** Venue the order was sent to */
+export type TradePlatform = "Polymarket" | "Kalshi";
+
+/** Whether the order bought or sold the outcome */
+export type TradeSide = "BUY" | "SELL";
+
+/**
+ * Journal entry status
+ * - open: resting (possibly partially filled)
+ * - filled: fully filled, or cancelled after a partial fill
+ * - cancelled: cancelled without any fill
+ * - failed: placement was rejected
+ * - resolved: the market resolved and the PnL is realised
+ */
+export type TradeStatus = "open" | "filled" | "cancelled" | "failed" | "resolved";
+
+/** Outcome of a resolved position */
+export type TradeResolution = "won" | "lost";
+
+/**
+ * Context attached to an order by its caller
+ */
+export interface JournalContext {
+  source: TradeSource;
+  /** Strategy label; defaults to the source */
+  strategy?: string;
+  /** Bot asset or the event the order was placed on */
+  asset?: string;
+  /** Model that produced the recommendation */
+  model?: string;
+  /** Analysis run that triggered the order */
+  analysisRequestId?: string;
+  /** Persistent bot that placed the order */
+  botId?: string;
+}
+
+/**
+ * Order to record in the journal
+ */
+export interface NewJournalEntry extends JournalContext {
+  platform: TradePlatform;
+  paperTrading?: boolean;
+  orderId?: string;
+  market?: string;
+  marketSlug?: string;
+  title?: string;
+  tokenId?: string;
+  outcome?: string;
+  /** Default: BUY */
+  side?: TradeSide;
+  /** Limit price (0-1) */
+  price: number;
+  /** Shares or contracts */
+  size: number;
+  orderParams?: Record<string, unknown>;
+  /** Initial status; "failed" entries carry the placement error */
+  status?: TradeStatus;
+  error?: string;
+  /** Estimated fee in USD */
+  feeUsd?: number;
+}
+
+/**
+ * Journal entry
+ */
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  source: TradeSource;
+  platform: TradePlatform;
+  strategy: string;
+  asset?: string;
+  model?: string;
+  analysisRequestId?: string;
+  botId?: string;
+  paperTrading: boolean;
+  orderId?: string;
+  market?: string;
+  marketSlug?: string;
+  title?: string;
+  tokenId?: string;
+  outcome?: string;
+  side: TradeSide;
+  price: number;
+  size: number;
+  orderParams?: Record<string, unknown>;
+  status: TradeStatus;
+  filledSize: number;
+  avgFillPrice?: number;
+  feeUsd: number;
+  error?: string;
+  currentPrice?: number;
+  resolution?: TradeResolution;
+  payoutUsd?: number;
+  realizedPnlUsd?: number;
+  resolvedAt?: string;
+  lastSyncedAt?: string;
+}
+
+/**
+ * Fields updated by a sync pass
+ */
+export interface JournalEntryUpdate {
+  status?: TradeStatus;
+  filledSize?: number;
+  avgFillPrice?: number;
+  tokenId?: string;
+  market?: string;
+  outcome?: string;
+  currentPrice?: number;
+  resolution?: TradeResolution;
+  payoutUsd?: number;
+  realizedPnlUsd?: number;
+  resolvedAt?: string;
+}
+
+/**
+ * Filters for listing journal entries
+ */
+export interface JournalFilter {
+  source?: TradeSource;
+  platform?: TradePlatform;
+  strategy?: string;
+  asset?: string;
+  model?: string;
+  status?: TradeStatus;
+  analysisRequestId?: string;
+  botId?: string;
+  paperTrading?: boolean;
+  /** ISO timestamp; only entries created at or after it */
+  since?: string;
+}
+
+/**
+ * Aggregated PnL for a set of entries
+ */
+export interface PnlSummary {
+  /** Orders recorded */
+  orders: number;
+  /** Orders with at least one fill */
+  filledOrders: number;
+  /** USD spent on fills (including fees) */
+  costUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  totalPnlUsd: number;
+  /** Resolved positions that paid out */
+  wins: number;
+  /** Resolved positions that expired worthless */
+  losses: number;
+}
+
+/**
+ * PnL for one value of a grouping key
+ */
+export interface PnlGroup extends PnlSummary {
+  key: string;
+}
+
+/**
+ * PnL report by strategy, asset and model
+ */
+export interface PnlReport {
+  total: PnlSummary;
+  byStrategy: PnlGroup[];
+  byAsset: PnlGroup[];
+  byModel: PnlGroup[];
+}
@@ -0,0 +1,310 @@
+/**
+ * Kalshi Trading Client for Deno/Supabase Edge Functions
+ *
+ * This client provides functionality to:
+ * - Fetch market data from the Kalshi trade API
+ * - Place, fetch and cancel limit orders on Kalshi
+ *
+ * Requests are authenticated with an API key ID and an RSA-PSS signature
+ * over `timestamp + method + path` made with the key's private key.
+ */
+
+import type {
+  KalshiClientConfig,
+  KalshiMarket,
+  KalshiOrder,
+  KalshiOrderArgs,
+  KalshiOrderResponse,
+} from "./types.ts";
+import type { BotLogEntry } from "../polymarket/types.ts";
+import { createLogEntry } from "../polymarket/utils.ts";
+
+// API endpoints
+const KALSHI_API_BASE_URL = "https://api.elections.kalshi.com/trade-api/v2";
+
+// ASN.1 AlgorithmIdentifier for rsaEncryption, used to wrap PKCS#1 keys as PKCS#8
+const RSA_ALGORITHM_IDENTIFIER = [
+  0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00,
+];
+
+/**
+ * Encode a DER length
+ */
+function derLength(length: number): number[] {
+  if (length < 0x80) {
+    return [length];
+  }
+  const bytes: number[] = [];
+  while (length > 0) {
+    bytes.unshift(length & 0xff);
+    length >>= 8;
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+/**
+ * Wrap a PKCS#1 RSAPrivateKey in a PKCS#8 PrivateKeyInfo so WebCrypto can import it
+ */
+function pkcs1ToPkcs8(pkcs1: Uint8Array): Uint8Array {
+  const octetString = [0x04, ...derLength(pkcs1.length), ...pkcs1];
+  const body = [0x02, 0x01, 0x00, ...RSA_ALGORITHM_IDENTIFIER, ...octetString];
+  return new Uint8Array([0x30, ...derLength(body.length), ...body]);
+}
+
+/**
+ * Decode a PEM private key into PKCS#8 DER bytes
+ */
+function pemToPkcs8(pem: string): ArrayBuffer {
+  // Keys stored in env vars often have escaped newlines
+  const normalized = pem.replace(/\\n/g, "\n");
+  const isPkcs1 = normalized.includes("BEGIN RSA PRIVATE KEY");
+  const base64 = normalized
+    .replace(/-----(BEGIN|END)[A-Z ]+-----/g, "")
+    .replace(/\s+/g, "");
+
+  const der = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  const bytes = isPkcs1 ? pkcs1ToPkcs8(der) : der;
+  const buffer = new ArrayBuffer(bytes.length);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+}
+
+/**
+ * Format a price in cents as a Kalshi order price field
+ */
+function toPriceFields(side: KalshiOrderArgs["side"], priceCents: number): Record<string, number | string> {
+  if (Number.isInteger(priceCents)) {
+    return side === "yes" ? { yes_price: priceCents } : { no_price: priceCents };
+  }
+  // Sub-cent prices must be sent as fixed-point dollar strings
+  const dollars = (priceCents / 100).toFixed(4);
+  return side === "yes" ? { yes_price_dollars: dollars } : { no_price_dollars: dollars };
+}
+
+/**
+ * Kalshi Client Class
+ */
+export class KalshiClient {
+  private config: KalshiClientConfig;
+  private signingKey: CryptoKey | null = null;
+  private logs: BotLogEntry[] = [];
+
+  constructor(config: KalshiClientConfig) {
+    this.config = {
+      ...config,
+      baseUrl: (config.baseUrl || KALSHI_API_BASE_URL).replace(/\/$/, ""),
+    };
+  }
+
+  /**
+   * Get collected logs
+   */
+  getLogs(): BotLogEntry[] {
+    return [...this.logs];
+  }
+
+  /**
+   * Clear logs
+   */
+  clearLogs(): void {
+    this.logs = [];
+  }
+
+  /**
+   * Add a log entry
+   */
+  protected log(level: BotLogEntry["level"], message: string, details?: Record<string, unknown>): void {
+    this.logs.push(createLogEntry(level, message, details));
+    console.log(`[${level}] ${message}`, details || "");
+  }
+
+  /**
+   * Import the RSA private key for request signing
+   */
+  private async getSigningKey(): Promise<CryptoKey> {
+    if (this.signingKey) {
+      return this.signingKey;
+    }
+
+    try {
+      this.signingKey = await crypto.subtle.importKey(
+        "pkcs8",
+        pemToPkcs8(this.config.privateKeyPem),
+        { name: "RSA-PSS", hash: "SHA-256" },
+        false,
+        ["sign"]
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid KALSHI_PRIVATE_KEY: ${errorMsg}`);
+    }
+
+    return this.signingKey;
+  }
+
+  /**
+   * Build the authentication headers for a request
+   */
+  private async signRequest(method: string, path: string): Promise<Record<string, string>> {
+    const key = await this.getSigningKey();
+    const timestamp = Date.now().toString();
+    const message = new TextEncoder().encode(`${timestamp}${method}${path}`);
+
+    const signature = await crypto.subtle.sign({ name: "RSA-PSS", saltLength: 32 }, key, message);
+    const signatureBase64 = btoa(String.fromCharCode(...new Uint8Array(signature)));
+
+    return {
+      "KALSHI-ACCESS-KEY": this.config.apiKeyId,
+      "KALSHI-ACCESS-TIMESTAMP": timestamp,
+      "KALSHI-ACCESS-SIGNATURE": signatureBase64,
+    };
+  }
+
+  /**
+   * Make an authenticated request to the trade API
+   */
+  private async request<T>(
+    method: "GET" | "POST" | "DELETE",
+    endpoint: string,
+    body?: Record<string, unknown>
+  ): Promise<T> {
+    const url = new URL(`${this.config.baseUrl}${endpoint}`);
+    // The signature covers the path without the query string
+    const authHeaders = await this.signRequest(method, url.pathname);
+
+    const response = await fetch(url.toString(), {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Kalshi API error: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Fetch a market by ticker
+   */
+  async getMarket(ticker: string): Promise<KalshiMarket | null> {
+    this.log("INFO", `Fetching Kalshi market: ${ticker}`);
+
+    try {
+      const response = await this.request<{ market: KalshiMarket }>("GET", `/markets/${encodeURIComponent(ticker)}`);
+      return response.market;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to fetch Kalshi market ${ticker}: ${errorMsg}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get the available balance in USD
+   */
+  async getBalanceUsd(): Promise<number> {
+    const response = await this.request<{ balance: number }>("GET", "/portfolio/balance");
+    return response.balance / 100;
+  }
+
+  /**
+   * Place a limit order
+   */
+  async placeOrder(order: KalshiOrderArgs): Promise<KalshiOrderResponse> {
+    this.log("INFO", `Placing Kalshi ${order.action} ${order.side.toUpperCase()} order`, {
+      ticker: order.ticker,
+      count: order.count,
+      priceCents: order.priceCents,
+    });
+
+    try {
+      const response = await this.request<{ order: KalshiOrder }>("POST", "/portfolio/orders", {
+        ticker: order.ticker,
+        client_order_id: order.clientOrderId || crypto.randomUUID(),
+        side: order.side,
+        action: order.action,
+        count: order.count,
+        type: "limit",
+        ...toPriceFields(order.side, order.priceCents),
+      });
+
+      this.log("SUCCESS", "Kalshi order placed", {
+        orderId: response.order.order_id,
+        status: response.order.status,
+      });
+
+      return {
+        success: true,
+        orderId: response.order.order_id,
+        status: response.order.status,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to place Kalshi order: ${errorMsg}`);
+      return {
+        success: false,
+        errorMsg,
+      };
+    }
+  }
+
+  /**
+   * Fetch an order by ID
+   */
+  async getOrder(orderId: string): Promise<KalshiOrder | null> {
+    try {
+      const response = await this.request<{ order: KalshiOrder }>("GET", `/portfolio/orders/${encodeURIComponent(orderId)}`);
+      return response.order;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to fetch Kalshi order ${orderId}: ${errorMsg}`);
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a resting order
+   */
+  async cancelOrder(orderId: string): Promise<boolean> {
+    try {
+      await this.request("DELETE", `/portfolio/orders/${encodeURIComponent(orderId)}`);
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to cancel Kalshi order ${orderId}: ${errorMsg}`);
+      return false;
+    }
+  }
+}
+
+/**
+ * Create a Kalshi client from environment variables
+ */
+export function createKalshiClientFromEnv(): KalshiClient {
+  // @ts-ignore - Deno global
+  const apiKeyId = Deno.env.get("KALSHI_API_KEY_ID");
+  // @ts-ignore - Deno global
+  const privateKeyPem = Deno.env.get("KALSHI_PRIVATE_KEY");
+  // @ts-ignore - Deno global
+  const baseUrl = Deno.env.get("KALSHI_API_BASE_URL");
+
+  if (!apiKeyId) {
+    throw new Error("KALSHI_API_KEY_ID environment variable is required");
+  }
+
+  if (!privateKeyPem) {
+    throw new Error("KALSHI_PRIVATE_KEY environment variable is required");
+  }
+
+  return new KalshiClient({
+    apiKeyId,
+    privateKeyPem,
+    baseUrl,
+  });
+}
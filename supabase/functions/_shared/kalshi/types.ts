@@ -0,0 +1,93 @@
+/**
+ * Type definitions for the Kalshi trading client
+ */
+
+/**
+ * Kalshi client configuration
+ */
+export interface KalshiClientConfig {
+  /** API key ID (shown when the key is created on Kalshi) */
+  apiKeyId: string;
+  /** RSA private key in PEM format (PKCS#1 or PKCS#8) */
+  privateKeyPem: string;
+  /** Trade API base URL (defaults to production) */
+  baseUrl?: string;
+}
+
+/** Contract side */
+export type KalshiSide = "yes" | "no";
+
+/** Order action */
+export type KalshiAction = "buy" | "sell";
+
+/**
+ * Price level structure of a Kalshi market
+ * - linear_cent: 1¢ ticks from 1¢ to 99¢
+ * - deci_cent: 0.1¢ ticks from 0.1¢ to 99.9¢
+ * - tapered_deci_cent: 0.1¢ ticks below 10¢ and above 90¢, 1¢ ticks in between
+ */
+export type KalshiPriceLevelStructure = "linear_cent" | "deci_cent" | "tapered_deci_cent";
+
+/**
+ * Market as returned by the Kalshi trade API (prices in cents)
+ */
+export interface KalshiMarket {
+  ticker: string;
+  event_ticker: string;
+  title: string;
+  subtitle?: string;
+  status: string;
+  close_time: string;
+  yes_bid: number;
+  yes_ask: number;
+  no_bid: number;
+  no_ask: number;
+  last_price: number;
+  tick_size?: number;
+  price_level_structure?: KalshiPriceLevelStructure;
+  /** "yes" / "no" once the market has settled, empty before */
+  result?: string;
+}
+
+/**
+ * Order as returned by the Kalshi trade API
+ */
+export interface KalshiOrder {
+  order_id: string;
+  client_order_id?: string;
+  ticker: string;
+  side: KalshiSide;
+  action: KalshiAction;
+  type: string;
+  /** resting, canceled, executed */
+  status: string;
+  yes_price: number;
+  no_price: number;
+  fill_count?: number;
+  remaining_count?: number;
+  created_time?: string;
+}
+
+/**
+ * Arguments for placing a limit order
+ */
+export interface KalshiOrderArgs {
+  ticker: string;
+  side: KalshiSide;
+  action: KalshiAction;
+  count: number;
+  /** Limit price in cents for the chosen side (may be fractional on deci-cent markets) */
+  priceCents: number;
+  /** Idempotency key; generated if omitted */
+  clientOrderId?: string;
+}
+
+/**
+ * Result of placing an order
+ */
+export interface KalshiOrderResponse {
+  success: boolean;
+  orderId?: string;
+  status?: string;
+  errorMsg?: string;
+}
@@ -0,0 +1,98 @@
+/**
+ * Kalshi pricing helpers (tick rules and fees)
+ */
+
+import type { KalshiPriceLevelStructure } from "./types.ts";
+
+/** Kalshi taker fee coefficient: fee = ceil(0.07 * C * P * (1 - P)) */
+const TAKER_FEE_RATE = 0.07;
+
+/**
+ * Resolve a market's price level structure, falling back to its legacy
+ * tick_size (in cents) when the structure is not reported.
+ */
+export function resolvePriceLevelStructure(market: {
+  price_level_structure?: string;
+  tick_size?: number;
+}): KalshiPriceLevelStructure {
+  const structure = market.price_level_structure;
+  if (structure === "linear_cent" || structure === "deci_cent" || structure === "tapered_deci_cent") {
+    return structure;
+  }
+  return market.tick_size !== undefined && market.tick_size < 1 ? "deci_cent" : "linear_cent";
+}
+
+/**
+ * Valid price range in cents for a price level structure
+ */
+export function getPriceRangeCents(structure: KalshiPriceLevelStructure): { min: number; max: number } {
+  return structure === "linear_cent" ? { min: 1, max: 99 } : { min: 0.1, max: 99.9 };
+}
+
+/**
+ * Tick size in cents at a given price
+ */
+export function getTickSizeCents(priceCents: number, structure: KalshiPriceLevelStructure): number {
+  switch (structure) {
+    case "deci_cent":
+      return 0.1;
+    case "tapered_deci_cent":
+      return priceCents < 10 || priceCents > 90 ? 0.1 : 1;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Round a price in cents onto the market's tick grid and clamp it to the valid range
+ */
+export function roundToKalshiTick(
+  priceCents: number,
+  structure: KalshiPriceLevelStructure,
+  direction: "up" | "down" | "nearest" = "nearest"
+): number {
+  const { min, max } = getPriceRangeCents(structure);
+  const tick = getTickSizeCents(priceCents, structure);
+  const round = direction === "up" ? Math.ceil : direction === "down" ? Math.floor : Math.round;
+
+  // Work in tenths of a cent to avoid floating point drift (e.g. 0.1 * 3)
+  const ticks = round(Math.round(priceCents * 10) / (tick * 10));
+  const rounded = Math.round(ticks * tick * 10) / 10;
+
+  return Math.min(max, Math.max(min, rounded));
+}
+
+/**
+ * Check that a price in cents is inside the valid range and on the tick grid
+ */
+export function isValidKalshiPrice(priceCents: number, structure: KalshiPriceLevelStructure): boolean {
+  const { min, max } = getPriceRangeCents(structure);
+  if (!Number.isFinite(priceCents) || priceCents < min || priceCents > max) {
+    return false;
+  }
+  return roundToKalshiTick(priceCents, structure) === Math.round(priceCents * 10) / 10;
+}
+
+/**
+ * Taker fee in USD for filling `count` contracts at `priceCents`, before
+ * rounding. Sum it over the fills of one order and round the total once.
+ */
+export function kalshiTakerFeeRawUsd(count: number, priceCents: number): number {
+  const price = priceCents / 100;
+  return TAKER_FEE_RATE * count * price * (1 - price);
+}
+
+/**
+ * Round a raw taker fee up to the next cent, as Kalshi charges it
+ */
+export function roundUpKalshiFeeUsd(rawFeeUsd: number): number {
+  return Math.ceil(rawFeeUsd * 100 - 1e-9) / 100;
+}
+
+/**
+ * Estimate the taker fee in USD for filling `count` contracts at `priceCents`.
+ * Kalshi rounds the fee up to the next cent.
+ */
+export function estimateKalshiTakerFeeUsd(count: number, priceCents: number): number {
+  return roundUpKalshiFeeUsd(kalshiTakerFeeRawUsd(count, priceCents));
+}
@@ -0,0 +1,468 @@
+/**
+ * Persistent Bot Store
+ *
+ * Database access for scheduled limit order bots (bot_configs / bot_runs
+ * tables) and the per-window run step shared by the bot manager and the
+ * bot scheduler.
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type { PolymarketClient } from "./client.ts";
+import { runLimitOrderBot, getPlacedOrders, getJournalEntries } from "./limitOrderBot.ts";
+import { PaperPolymarketClient } from "./paperClient.ts";
+import { recordJournalEntries } from "../journal/journalStore.ts";
+import { buildMarketSlug, createLogEntry, formatTimeShort } from "./utils.ts";
+import type {
+  SupportedAsset,
+  BotLogEntry,
+  CancelledOrder,
+  OrderManagementConfig,
+  OrderManagementResult,
+} from "./types.ts";
+import type { BotConfig, BotRun, BotStatus } from "../../polymarket-bot-manager/types.ts";
+import type {
+  LadderConfig,
+  MarketOrderResult,
+} from "../../polymarket-up-down-15-markets-limit-order-bot/types.ts";
+
+/**
+ * bot_configs row
+ */
+interface BotConfigRow {
+  id: string;
+  name: string;
+  asset: SupportedAsset;
+  price_percent: number | null;
+  size_usd: number;
+  ladder: LadderConfig | null;
+  status: BotStatus;
+  cancel_cutoff_seconds: number | null;
+  fill_threshold_percent: number;
+  paper_trading: boolean;
+  last_target_timestamp: number | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * bot_runs row
+ */
+interface BotRunRow {
+  id: string;
+  bot_id: string;
+  target_timestamp: number;
+  market_slug: string;
+  success: boolean;
+  market_result: MarketOrderResult;
+  logs: BotLogEntry[];
+  order_management: OrderManagementResult | null;
+  cancelled_orders: CancelledOrder[] | null;
+  orders_finalized: boolean;
+  created_at: string;
+}
+
+/**
+ * bot_runs row with its bot_configs row embedded
+ */
+interface BotRunWithConfigRow extends BotRunRow {
+  bot_configs: BotConfigRow;
+}
+
+/**
+ * Input for creating a bot
+ */
+export interface CreateBotInput {
+  name: string;
+  asset: SupportedAsset;
+  price?: number;
+  sizeUsd: number;
+  ladder?: LadderConfig;
+  orderManagement?: OrderManagementConfig;
+  paperTrading?: boolean;
+  status: BotStatus;
+}
+
+function toBotConfig(row: BotConfigRow): BotConfig {
+  return {
+    id: row.id,
+    name: row.name,
+    asset: row.asset,
+    price: row.price_percent !== null ? Number(row.price_percent) : undefined,
+    sizeUsd: Number(row.size_usd),
+    ladder: row.ladder ?? undefined,
+    orderManagement: row.cancel_cutoff_seconds !== null
+      ? {
+          cutoffSeconds: Number(row.cancel_cutoff_seconds),
+          fillThresholdPercent: Number(row.fill_threshold_percent),
+        }
+      : undefined,
+    paperTrading: row.paper_trading ?? false,
+    status: row.status,
+    lastTargetTimestamp: row.last_target_timestamp !== null ? Number(row.last_target_timestamp) : undefined,
+    lastRunAt: row.last_run_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toBotRun(row: BotRunRow): BotRun {
+  return {
+    id: row.id,
+    botId: row.bot_id,
+    targetTimestamp: Number(row.target_timestamp),
+    marketSlug: row.market_slug,
+    success: row.success,
+    market: row.market_result,
+    logs: row.logs || [],
+    orderManagement: row.order_management ?? undefined,
+    cancelledOrders: row.cancelled_orders || [],
+    ordersFinalized: row.orders_finalized,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * List all bots, newest first
+ */
+export async function listBots(db: DbClient): Promise<BotConfig[]> {
+  const { data, error } = await db
+    .from("bot_configs")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list bots: ${error.message}`);
+  }
+
+  return (data as BotConfigRow[]).map(toBotConfig);
+}
+
+/**
+ * List bots that the scheduler should fire
+ */
+export async function listRunningBots(db: DbClient): Promise<BotConfig[]> {
+  const { data, error } = await db
+    .from("bot_configs")
+    .select("*")
+    .eq("status", "running");
+
+  if (error) {
+    throw new Error(`Failed to list running bots: ${error.message}`);
+  }
+
+  return (data as BotConfigRow[]).map(toBotConfig);
+}
+
+/**
+ * Create a bot
+ */
+export async function createBot(db: DbClient, input: CreateBotInput): Promise<BotConfig> {
+  const { data, error } = await db
+    .from("bot_configs")
+    .insert({
+      name: input.name,
+      asset: input.asset,
+      price_percent: input.price ?? null,
+      size_usd: input.sizeUsd,
+      ladder: input.ladder?.enabled ? input.ladder : null,
+      cancel_cutoff_seconds: input.orderManagement?.cutoffSeconds ?? null,
+      fill_threshold_percent: input.orderManagement?.fillThresholdPercent,
+      paper_trading: input.paperTrading ?? false,
+      status: input.status,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create bot: ${error.message}`);
+  }
+
+  return toBotConfig(data as BotConfigRow);
+}
+
+/**
+ * Update a bot's status. Returns null if the bot does not exist.
+ */
+export async function setBotStatus(
+  db: DbClient,
+  botId: string,
+  status: BotStatus
+): Promise<BotConfig | null> {
+  const { data, error } = await db
+    .from("bot_configs")
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq("id", botId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update bot status: ${error.message}`);
+  }
+
+  return data ? toBotConfig(data as BotConfigRow) : null;
+}
+
+/**
+ * List a bot's runs, newest first
+ */
+export async function listBotRuns(db: DbClient, botId: string, limit: number = 50): Promise<BotRun[]> {
+  const { data, error } = await db
+    .from("bot_runs")
+    .select("*")
+    .eq("bot_id", botId)
+    .order("target_timestamp", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list bot runs: ${error.message}`);
+  }
+
+  return (data as BotRunRow[]).map(toBotRun);
+}
+
+/**
+ * Claim a market window for a running bot.
+ * Only one caller can claim a given window, so overlapping scheduler
+ * invocations never place the same orders twice.
+ */
+async function claimBotWindow(db: DbClient, botId: string, timestamp: number): Promise<boolean> {
+  const { data, error } = await db
+    .from("bot_configs")
+    .update({ last_target_timestamp: timestamp, updated_at: new Date().toISOString() })
+    .eq("id", botId)
+    .eq("status", "running")
+    .or(`last_target_timestamp.is.null,last_target_timestamp.lt.${timestamp}`)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to claim market window: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Fire a bot for a market window and persist the run.
+ * Returns null if the window was already claimed or the bot is not running.
+ */
+export async function runBotForWindow(
+  db: DbClient,
+  client: PolymarketClient,
+  bot: BotConfig,
+  timestamp: number
+): Promise<BotRun | null> {
+  const claimed = await claimBotWindow(db, bot.id, timestamp);
+  if (!claimed) {
+    return null;
+  }
+
+  let market: MarketOrderResult;
+  let logs: BotLogEntry[] = [
+    createLogEntry("INFO", `Running bot "${bot.name}" for ${bot.asset} market ${formatTimeShort(timestamp)}`),
+  ];
+
+  try {
+    const result = await runLimitOrderBot(client, {
+      asset: bot.asset,
+      price: bot.price,
+      sizeUsd: bot.sizeUsd,
+      ladder: bot.ladder,
+      timestamp,
+    });
+    market = result.data.market;
+    logs = [...logs, ...result.logs];
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Bot run failed: ${errorMsg}`));
+    market = {
+      marketSlug: buildMarketSlug(bot.asset, timestamp),
+      marketStartTime: formatTimeShort(timestamp),
+      targetTimestamp: timestamp,
+      error: errorMsg,
+    };
+  }
+
+  const journalError = await recordJournalEntries(
+    getJournalEntries(bot.asset, market, { pricePercent: bot.price, sizeUsd: bot.sizeUsd }, {
+      botId: bot.id,
+      paperTrading: client instanceof PaperPolymarketClient,
+    }),
+    db
+  );
+  if (journalError) {
+    logs.push(createLogEntry("WARN", `Failed to record trades in the journal: ${journalError}`));
+  }
+
+  const { data, error } = await db
+    .from("bot_runs")
+    .insert({
+      bot_id: bot.id,
+      target_timestamp: timestamp,
+      market_slug: market.marketSlug,
+      success: !market.error,
+      market_result: market,
+      logs,
+      // Nothing to manage if order management is off or no orders rest on the book
+      orders_finalized: !bot.orderManagement || getPlacedOrders(market, bot.price).length === 0,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record bot run: ${error.message}`);
+  }
+
+  await db
+    .from("bot_configs")
+    .update({ last_run_at: new Date().toISOString() })
+    .eq("id", bot.id);
+
+  return toBotRun(data as BotRunRow);
+}
+
+/**
+ * List runs whose orders are still being managed, with their bots.
+ * Only runs for windows that have not closed yet are returned.
+ */
+export async function listRunsPendingOrderManagement(
+  db: DbClient
+): Promise<Array<{ run: BotRun; bot: BotConfig }>> {
+  const windowClosedBefore = Math.floor(Date.now() / 1000) - 900;
+
+  const { data, error } = await db
+    .from("bot_runs")
+    .select("*, bot_configs(*)")
+    .eq("orders_finalized", false)
+    .gt("target_timestamp", windowClosedBefore);
+
+  if (error) {
+    throw new Error(`Failed to list runs pending order management: ${error.message}`);
+  }
+
+  return (data as BotRunWithConfigRow[]).map(row => ({
+    run: toBotRun(row),
+    bot: toBotConfig(row.bot_configs),
+  }));
+}
+
+/**
+ * Run one order management pass for a bot run and persist the outcome.
+ * Cancellations are appended to the run's logs.
+ */
+export async function manageBotRunOrders(
+  db: DbClient,
+  client: PolymarketClient,
+  run: BotRun,
+  bot: BotConfig
+): Promise<OrderManagementResult | null> {
+  if (!bot.orderManagement) {
+    return null;
+  }
+
+  // Orders cancelled in an earlier pass are no longer watched
+  const cancelledIds = new Set(run.cancelledOrders.map(o => o.orderId));
+  const orders = getPlacedOrders(run.market, bot.price).filter(o => !cancelledIds.has(o.orderId));
+
+  client.clearLogs();
+  const result = await client.manageOrders(orders, run.targetTimestamp, bot.orderManagement);
+  const passLogs = client.getLogs();
+  client.clearLogs();
+
+  const cancelledOrders = [...run.cancelledOrders, ...result.cancelled];
+  const logs = [...run.logs];
+
+  if (result.cancelled.length > 0 || result.notCancelled.length > 0) {
+    logs.push(...passLogs);
+    logs.push(createLogEntry(result.notCancelled.length > 0 ? "WARN" : "INFO", `Order manager cancelled ${result.cancelled.length} unfilled order(s)`, {
+      upFilled: `${result.upFillPercent}%`,
+      downFilled: `${result.downFillPercent}%`,
+      notCancelled: result.notCancelled.length > 0 ? result.notCancelled : undefined,
+    }));
+  }
+
+  const { error } = await db
+    .from("bot_runs")
+    .update({
+      order_management: result,
+      cancelled_orders: cancelledOrders,
+      orders_finalized: result.finalized,
+      logs,
+    })
+    .eq("id", run.id);
+
+  if (error) {
+    throw new Error(`Failed to record order management: ${error.message}`);
+  }
+
+  return result;
+}
+
+/**
+ * Cancel the resting orders of a bot's runs whose windows have not closed yet
+ * and finalize those runs. Returns the cancelled orders.
+ */
+export async function cancelBotOrders(
+  db: DbClient,
+  client: PolymarketClient,
+  bot: BotConfig
+): Promise<CancelledOrder[]> {
+  const windowClosedBefore = Math.floor(Date.now() / 1000) - 900;
+
+  const { data, error } = await db
+    .from("bot_runs")
+    .select("*")
+    .eq("bot_id", bot.id)
+    .gt("target_timestamp", windowClosedBefore);
+
+  if (error) {
+    throw new Error(`Failed to list open bot runs: ${error.message}`);
+  }
+
+  const allCancelled: CancelledOrder[] = [];
+
+  for (const run of (data as BotRunRow[]).map(toBotRun)) {
+    const cancelledIds = new Set(run.cancelledOrders.map(o => o.orderId));
+
+    // Only orders still resting on the book need cancelling
+    const toCancel: CancelledOrder[] = [];
+    for (const order of getPlacedOrders(run.market, bot.price).filter(o => !cancelledIds.has(o.orderId))) {
+      const openOrder = await client.getOrder(order.orderId);
+      if (!openOrder) continue;
+
+      const originalSize = parseFloat(openOrder.original_size) || 0;
+      const sizeMatched = parseFloat(openOrder.size_matched) || 0;
+      if (openOrder.status === "LIVE" && sizeMatched < originalSize) {
+        toCancel.push({ ...order, originalSize, sizeMatched, reason: "STOPPED" });
+      }
+    }
+
+    if (toCancel.length === 0 && run.ordersFinalized) continue;
+
+    const { canceled, notCanceled } = await client.cancelOrders(toCancel.map(o => o.orderId));
+    const cancelled = toCancel.filter(o => canceled.includes(o.orderId));
+    const notCancelledIds = Object.keys(notCanceled);
+
+    const logs = [...run.logs, createLogEntry(notCancelledIds.length > 0 ? "WARN" : "INFO", `Bot stopped: cancelled ${cancelled.length} resting order(s)`, {
+      notCancelled: notCancelledIds.length > 0 ? notCanceled : undefined,
+    })];
+
+    const { error: updateError } = await db
+      .from("bot_runs")
+      .update({
+        cancelled_orders: [...run.cancelledOrders, ...cancelled],
+        // Orders that could not be cancelled stay with the order manager
+        orders_finalized: notCancelledIds.length === 0,
+        logs,
+      })
+      .eq("id", run.id);
+
+    if (updateError) {
+      throw new Error(`Failed to record cancelled orders: ${updateError.message}`);
+    }
+
+    allCancelled.push(...cancelled);
+  }
+
+  return allCancelled;
+}
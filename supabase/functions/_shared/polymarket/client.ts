@@ -7,7 +7,7 @@
  */
 
 // @ts-ignore - Deno npm imports
-import { ClobClient, Side, OrderType } from "npm:@polymarket/clob-client@5.1.1";
+import { ClobClient, Side, OrderType, type TickSize } from "npm:@polymarket/clob-client@5.1.1";
 // @ts-ignore - Deno npm imports  
 import { Wallet } from "npm:ethers@5.7.2";
 
@@ -19,11 +19,20 @@ import type {
   TokenIds,
   BotLogEntry,
   OpenOrder,
+  TokenMarketInfo,
+  WalletActivity,
+  WalletPosition,
   SidePosition,
   MarketPosition,
-  PairStatus,
+  ManagedOrder,
+  OrderManagementConfig,
+  OrderManagementResult,
+  CancelledOrder,
+  OrderBook,
+  CancelOrdersResult,
 } from "./types.ts";
-import { parseTokenIds, createLogEntry } from "./utils.ts";
+import { parseTokenIds, createLogEntry, determinePairStatus } from "./utils.ts";
+import { calculateLadderRungs, type LadderRung } from "./ladder.ts";
 
 // API endpoints
 const GAMMA_API_URL = "https://gamma-api.polymarket.com";
@@ -41,7 +50,7 @@ const DEFAULT_NEG_RISK = false;
 export class PolymarketClient {
   private config: PolymarketClientConfig;
   private logs: BotLogEntry[] = [];
-  private clobClient: typeof ClobClient | null = null;
+  private clobClient: ClobClient | null = null;
 
   constructor(config: PolymarketClientConfig) {
     this.config = {
@@ -67,7 +76,7 @@ export class PolymarketClient {
   /**
    * Add a log entry
    */
-  private log(level: BotLogEntry["level"], message: string, details?: Record<string, unknown>): void {
+  protected log(level: BotLogEntry["level"], message: string, details?: Record<string, unknown>): void {
     this.logs.push(createLogEntry(level, message, details));
     console.log(`[${level}] ${message}`, details || "");
   }
@@ -75,7 +84,7 @@ export class PolymarketClient {
   /**
    * Initialize the CLOB client with API credentials
    */
-  private async initClobClient(): Promise<typeof ClobClient> {
+  private async initClobClient(): Promise<ClobClient> {
     if (this.clobClient) {
       return this.clobClient;
     }
@@ -150,6 +159,48 @@ export class PolymarketClient {
     }
   }
 
+  /**
+   * Look up the market of an outcome token via Gamma
+   */
+  async getTokenMarketInfo(tokenId: string): Promise<TokenMarketInfo | null> {
+    const response = await fetch(`${GAMMA_API_URL}/markets?clob_token_ids=${encodeURIComponent(tokenId)}`, {
+      method: "GET",
+      headers: { "Content-Type": "application/json" },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Gamma API error: ${response.status} ${response.statusText}`);
+    }
+
+    const markets = await response.json();
+    const market = Array.isArray(markets) ? markets[0] : null;
+    if (!market) {
+      return null;
+    }
+
+    const tokenIds: string[] = JSON.parse(market.clobTokenIds || "[]");
+    const outcomes: string[] = JSON.parse(market.outcomes || "[]");
+    const prices: string[] = JSON.parse(market.outcomePrices || "[]");
+    const index = tokenIds.indexOf(tokenId);
+    const price = parseFloat(prices[index]);
+    const event = Array.isArray(market.events) ? market.events[0] : undefined;
+
+    return {
+      conditionId: market.conditionId,
+      slug: market.slug || undefined,
+      question: market.question || undefined,
+      outcome: outcomes[index] || "",
+      price: Number.isFinite(price) ? price : undefined,
+      endDate: market.endDate || undefined,
+      eventSlug: event?.slug || undefined,
+      eventTitle: event?.title || undefined,
+      closed: !!market.closed,
+      resolvedPrice: market.closed && (price === 0 || price === 1) ? price : undefined,
+      tickSize: market.orderPriceMinTickSize !== undefined ? String(market.orderPriceMinTickSize) : undefined,
+      negRisk: market.negRisk ?? undefined,
+    };
+  }
+
   /**
    * Extract Up and Down token IDs from market data
    */
@@ -170,7 +221,7 @@ export class PolymarketClient {
   }
 
   /**
-   * Place a limit buy order on Polymarket CLOB
+   * Place a limit order on Polymarket CLOB
    */
   async placeOrder(order: OrderArgs): Promise<OrderResponse> {
     const { privateKey, proxyAddress } = this.config;
@@ -211,8 +262,8 @@ export class PolymarketClient {
           feeRateBps: 0,
         },
         {
-          tickSize: DEFAULT_TICK_SIZE,
-          negRisk: DEFAULT_NEG_RISK,
+          tickSize: (order.tickSize ?? DEFAULT_TICK_SIZE) as TickSize,
+          negRisk: order.negRisk ?? DEFAULT_NEG_RISK,
         },
         OrderType.GTC // Good Till Cancelled
       );
@@ -282,80 +333,10 @@ export class PolymarketClient {
     maxPrice: number = 49,
     minPrice: number = 35,
     taperFactor: number = 1.5
-  ): Array<{ pricePercent: number; priceDecimal: number; sizeUsd: number; allocationPercent: number }> {
-    // Calculate minimum USD needed for 5 shares at the highest price level
-    // At maxPrice%, need: 5 shares * (maxPrice/100) = minimum USD
-    const MIN_SHARES = 5;
-    const MIN_RUNG_USD = Math.ceil(MIN_SHARES * (maxPrice / 100) * 100) / 100; // Round up to 2 decimals
-
-    // Generate all potential price levels from maxPrice down to minPrice
-    const allPriceLevels: number[] = [];
-    for (let p = maxPrice; p >= minPrice; p--) {
-      allPriceLevels.push(p);
-    }
-
-    // Calculate how many rungs we can afford with minimum allocation
-    // We need to find rungs that can be covered with taper while meeting minimum
-    let priceLevels = [...allPriceLevels];
-    let numRungs = priceLevels.length;
-
-    // Iteratively reduce rungs until all can meet minimum allocation
-    while (numRungs > 1) {
-      // Calculate raw weights using exponential decay
-      const rawWeights: number[] = [];
-      for (let i = 0; i < numRungs; i++) {
-        const weight = Math.exp(-taperFactor * i / numRungs);
-        rawWeights.push(weight);
-      }
-
-      // Normalize weights to sum to 1
-      const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
-      const normalizedWeights = rawWeights.map(w => w / totalWeight);
+  ): LadderRung[] {
+    const { rungs, effectiveMinPrice } = calculateLadderRungs(totalBankroll, maxPrice, minPrice, taperFactor);
 
-      // Check if the smallest allocation (last rung) meets minimum
-      const smallestAllocation = totalBankroll * normalizedWeights[numRungs - 1];
-
-      if (smallestAllocation >= MIN_RUNG_USD) {
-        // All rungs can meet minimum, we're done
-        break;
-      }
-
-      // Remove the lowest price level and try again
-      numRungs--;
-      priceLevels = allPriceLevels.slice(0, numRungs);
-    }
-
-    // Now calculate final rungs with the adjusted price levels
-    const rungs: Array<{ pricePercent: number; priceDecimal: number; sizeUsd: number; allocationPercent: number }> = [];
-
-    // Recalculate weights for final set of rungs
-    const rawWeights: number[] = [];
-    for (let i = 0; i < numRungs; i++) {
-      const weight = Math.exp(-taperFactor * i / numRungs);
-      rawWeights.push(weight);
-    }
-
-    const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
-    const normalizedWeights = rawWeights.map(w => w / totalWeight);
-
-    // Create rungs with allocations
-    for (let i = 0; i < numRungs; i++) {
-      const pricePercent = priceLevels[i];
-      const allocationPercent = normalizedWeights[i] * 100;
-      const sizeUsd = totalBankroll * normalizedWeights[i];
-
-      rungs.push({
-        pricePercent,
-        priceDecimal: pricePercent / 100,
-        sizeUsd: Math.round(sizeUsd * 100) / 100, // Round to 2 decimal places
-        allocationPercent: Math.round(allocationPercent * 100) / 100,
-      });
-    }
-
-    // Calculate effective minPrice (might be higher than requested if bankroll too small)
-    const effectiveMinPrice = priceLevels[priceLevels.length - 1];
-
-    this.log("INFO", `Calculated ladder with ${numRungs} rungs`, {
+    this.log("INFO", `Calculated ladder with ${rungs.length} rungs`, {
       maxPrice: `${maxPrice}%`,
       effectiveMinPrice: `${effectiveMinPrice}%`,
       requestedMinPrice: `${minPrice}%`,
@@ -381,7 +362,7 @@ export class PolymarketClient {
     minPrice: number = 35,
     taperFactor: number = 1.5
   ): Promise<{
-    rungs: Array<{ pricePercent: number; priceDecimal: number; sizeUsd: number; allocationPercent: number }>;
+    rungs: LadderRung[];
     results: Array<{ pricePercent: number; sizeUsd: number; up: OrderResponse; down: OrderResponse }>;
     totalOrders: number;
     successfulOrders: number;
@@ -458,17 +439,51 @@ export class PolymarketClient {
     return { rungs, results, totalOrders, successfulOrders };
   }
 
+  /**
+   * Get the order book for a token from the public CLOB API
+   * No authentication required
+   */
+  async getOrderBook(tokenId: string): Promise<OrderBook | null> {
+    try {
+      const url = `${CLOB_HOST}/book?token_id=${encodeURIComponent(tokenId)}`;
+
+      this.log("INFO", `Fetching order book: ${tokenId.slice(0, 16)}...`);
+
+      const response = await fetch(url, {
+        method: "GET",
+        headers: { "Content-Type": "application/json" },
+      });
+
+      if (!response.ok) {
+        throw new Error(`CLOB API error: ${response.status} ${response.statusText}`);
+      }
+
+      const book = await response.json();
+      const toLevels = (levels: Array<{ price: string; size: string }> | undefined) =>
+        (levels || []).map(l => ({ price: parseFloat(l.price), size: parseFloat(l.size) }));
+
+      // Best bid is the highest price, best ask the lowest
+      const bids = toLevels(book?.bids).sort((a, b) => b.price - a.price);
+      const asks = toLevels(book?.asks).sort((a, b) => a.price - b.price);
+
+      this.log("SUCCESS", `Order book fetched`, {
+        bestBid: bids[0]?.price,
+        bestAsk: asks[0]?.price,
+      });
+
+      return { tokenId, bids, asks };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to get order book: ${errorMsg}`);
+      return null;
+    }
+  }
+
   /**
    * Get user positions from public Data API
    * No authentication required - uses proxy wallet address
    */
-  async getPositions(options?: { market?: string }): Promise<Array<{
-    asset: string;
-    size: number;
-    avgPrice: number;
-    outcome: string;
-    conditionId: string;
-  }>> {
+  async getPositions(options?: { market?: string }): Promise<WalletPosition[]> {
     try {
       const { proxyAddress } = this.config;
 
@@ -506,16 +521,7 @@ export class PolymarketClient {
    * Get user activity (trades) from public Data API
    * No authentication required - uses proxy wallet address
    */
-  async getActivity(options?: { market?: string; asset?: string }): Promise<Array<{
-    asset: string;
-    size: number;
-    price: number;
-    side: string;
-    outcome: string;
-    conditionId: string;
-    timestamp: number;
-    type: string;
-  }>> {
+  async getActivity(options?: { market?: string; asset?: string }): Promise<WalletActivity[]> {
     try {
       const { proxyAddress } = this.config;
 
@@ -571,7 +577,7 @@ export class PolymarketClient {
         this.log("WARN", `Order not found: ${orderId}`);
       }
 
-      return order || null;
+      return (order as unknown as OpenOrder | undefined) || null;
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       this.log("ERROR", `Failed to get order: ${errorMsg}`);
@@ -580,39 +586,203 @@ export class PolymarketClient {
   }
 
   /**
-   * Determine pair status based on positions
+   * List open orders, optionally filtered by market (condition ID) or token
    */
-  private determinePairStatus(yes: SidePosition, no: SidePosition): PairStatus {
-    const hasYes = yes.shares > 0;
-    const hasNo = no.shares > 0;
+  async getOpenOrders(options?: { market?: string; assetId?: string }): Promise<OpenOrder[]> {
+    try {
+      const client = await this.initClobClient();
 
-    if (!hasYes && !hasNo) {
-      if (yes.pendingShares > 0 || no.pendingShares > 0) {
-        return "PENDING";
-      }
-      return "NO_POSITION";
+      this.log("INFO", "Fetching open orders", options);
+
+      const orders = await client.getOpenOrders({
+        market: options?.market,
+        asset_id: options?.assetId,
+      });
+
+      this.log("SUCCESS", `Found ${(orders || []).length} open orders`);
+
+      return (orders || []) as unknown as OpenOrder[];
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to get open orders: ${errorMsg}`);
+      throw error;
     }
+  }
+
+  /**
+   * Normalize a CLOB cancel response
+   */
+  private toCancelResult(response: { canceled?: string[]; not_canceled?: Record<string, string> } | null): CancelOrdersResult {
+    const canceled: string[] = response?.canceled || [];
+    const notCanceled: Record<string, string> = response?.not_canceled || {};
+
+    this.log(Object.keys(notCanceled).length > 0 ? "WARN" : "SUCCESS", `Cancelled ${canceled.length} order(s)`, {
+      notCanceled: Object.keys(notCanceled).length > 0 ? notCanceled : undefined,
+    });
+
+    return { canceled, notCanceled };
+  }
 
-    if (hasYes && !hasNo) {
-      return "DIRECTIONAL_YES";
+  /**
+   * Cancel a single order
+   */
+  async cancelOrder(orderId: string): Promise<CancelOrdersResult> {
+    return this.cancelOrders([orderId]);
+  }
+
+  /**
+   * Cancel orders by ID
+   */
+  async cancelOrders(orderIds: string[]): Promise<CancelOrdersResult> {
+    if (orderIds.length === 0) {
+      return { canceled: [], notCanceled: {} };
     }
 
-    if (!hasYes && hasNo) {
-      return "DIRECTIONAL_NO";
+    try {
+      const client = await this.initClobClient();
+
+      this.log("INFO", `Cancelling ${orderIds.length} order(s)`);
+
+      return this.toCancelResult(await client.cancelOrders(orderIds));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to cancel orders: ${errorMsg}`);
+      return {
+        canceled: [],
+        notCanceled: Object.fromEntries(orderIds.map(id => [id, errorMsg])),
+      };
     }
+  }
+
+  /**
+   * Cancel all open orders for a market (condition ID) or token
+   */
+  async cancelMarketOrders(options: { market?: string; assetId?: string }): Promise<CancelOrdersResult> {
+    try {
+      const client = await this.initClobClient();
 
-    // Both sides have shares - check pair cost
-    const pairCost = yes.avgPrice + no.avgPrice;
+      this.log("INFO", "Cancelling all orders for market", options);
 
-    if (pairCost < 0.995) {
-      return "PROFIT_LOCKED";
-    } else if (pairCost <= 1.005) {
-      return "BREAK_EVEN";
-    } else {
-      return "LOSS_RISK";
+      return this.toCancelResult(await client.cancelMarketOrders({
+        market: options.market,
+        asset_id: options.assetId,
+      }));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to cancel market orders: ${errorMsg}`);
+      throw error;
     }
   }
 
+  /**
+   * Cancel every open order of the account
+   */
+  async cancelAllOrders(): Promise<CancelOrdersResult> {
+    try {
+      const client = await this.initClobClient();
+
+      this.log("WARN", "Cancelling ALL open orders");
+
+      return this.toCancelResult(await client.cancelAll());
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `Failed to cancel all orders: ${errorMsg}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Manage orders placed for a market window after placement.
+   * Checks fills via getOrder and cancels resting orders:
+   * - once the cutoff before the window opens is reached, every resting order
+   * - before that, the resting orders of a side filled beyond the threshold
+   *   (the other side keeps resting so the pair can still complete)
+   * Meant to be called repeatedly until the result is finalized.
+   */
+  async manageOrders(
+    orders: ManagedOrder[],
+    targetTimestamp: number,
+    config: OrderManagementConfig
+  ): Promise<OrderManagementResult> {
+    const cutoffReached = Math.floor(Date.now() / 1000) >= targetTimestamp - config.cutoffSeconds;
+
+    // Fetch current fill state for every order
+    const tracked: Array<ManagedOrder & { originalSize: number; sizeMatched: number; resting: boolean }> = [];
+    for (const order of orders) {
+      const openOrder = await this.getOrder(order.orderId);
+      if (!openOrder) continue;
+
+      const originalSize = parseFloat(openOrder.original_size) || 0;
+      const sizeMatched = parseFloat(openOrder.size_matched) || 0;
+      tracked.push({
+        ...order,
+        originalSize,
+        sizeMatched,
+        resting: openOrder.status === "LIVE" && sizeMatched < originalSize,
+      });
+    }
+
+    const fillPercent = (side: ManagedOrder["side"]): number => {
+      const sideOrders = tracked.filter(o => o.side === side);
+      const original = sideOrders.reduce((sum, o) => sum + o.originalSize, 0);
+      const matched = sideOrders.reduce((sum, o) => sum + o.sizeMatched, 0);
+      return original > 0 ? Math.round((matched / original) * 10000) / 100 : 0;
+    };
+
+    const upFillPercent = fillPercent("up");
+    const downFillPercent = fillPercent("down");
+
+    // Decide what to cancel
+    const toCancel: CancelledOrder[] = [];
+    for (const order of tracked.filter(o => o.resting)) {
+      const sideFillPercent = order.side === "up" ? upFillPercent : downFillPercent;
+      const reason = cutoffReached
+        ? "CUTOFF"
+        : sideFillPercent >= config.fillThresholdPercent ? "FILL_THRESHOLD" : null;
+
+      if (reason) {
+        toCancel.push({
+          orderId: order.orderId,
+          side: order.side,
+          pricePercent: order.pricePercent,
+          originalSize: order.originalSize,
+          sizeMatched: order.sizeMatched,
+          reason,
+        });
+      }
+    }
+
+    this.log("INFO", `Order check: Up ${upFillPercent}% filled, Down ${downFillPercent}% filled`, {
+      checkedOrders: tracked.length,
+      resting: tracked.filter(o => o.resting).length,
+      cutoffReached,
+    });
+
+    const { canceled, notCanceled } = await this.cancelOrders(toCancel.map(o => o.orderId));
+    const cancelled = toCancel.filter(o => canceled.includes(o.orderId));
+
+    for (const order of cancelled) {
+      this.log("WARN", `Cancelled unfilled ${order.side === "up" ? "Up" : "Down"} order at ${order.pricePercent}% (${order.reason === "CUTOFF" ? "cutoff reached" : "side filled beyond threshold"})`, {
+        orderId: `${order.orderId.slice(0, 16)}...`,
+        filled: `${order.sizeMatched}/${order.originalSize}`,
+      });
+    }
+
+    // Orders whose state could not be fetched are treated as still resting
+    const stillResting = tracked.filter(o => o.resting && !canceled.includes(o.orderId)).length
+      + (orders.length - tracked.length);
+
+    return {
+      checkedOrders: tracked.length,
+      upFillPercent,
+      downFillPercent,
+      cutoffReached,
+      cancelled,
+      notCancelled: Object.entries(notCanceled).map(([orderId, reason]) => ({ orderId, reason })),
+      finalized: stillResting === 0,
+    };
+  }
+
   /**
    * Get position for a specific market using public Data API
    * Uses the positions endpoint which returns size and avgPrice directly
@@ -653,7 +823,7 @@ export class PolymarketClient {
       };
 
       // Determine status
-      const status = this.determinePairStatus(yesPosition, noPosition);
+      const status = determinePairStatus(yesPosition, noPosition);
 
       // Calculate pair metrics
       const hasYes = yesPosition.shares > 0;
@@ -0,0 +1,107 @@
+/**
+ * Ladder Allocation
+ *
+ * Exponential taper allocation used by ladder mode. Shared by the live
+ * client (placeLadderOrders) and the backtester so both size rungs the same way.
+ */
+
+/**
+ * A single ladder price level
+ */
+export interface LadderRung {
+  /** Price level as percentage */
+  pricePercent: number;
+  /** Price level as decimal */
+  priceDecimal: number;
+  /** USD allocated to this rung (per side) */
+  sizeUsd: number;
+  /** Share of the bankroll allocated to this rung (percentage) */
+  allocationPercent: number;
+}
+
+/**
+ * Calculate ladder rungs with exponential taper allocation
+ * Heavy allocation at top (maxPrice), tapering down to minPrice
+ * Ensures minimum allocation per rung to guarantee 5+ shares at any price level.
+ * effectiveMinPrice is higher than minPrice when the bankroll is too small for the full range.
+ */
+export function calculateLadderRungs(
+  totalBankroll: number,
+  maxPrice: number = 49,
+  minPrice: number = 35,
+  taperFactor: number = 1.5
+): { rungs: LadderRung[]; effectiveMinPrice: number } {
+  // Calculate minimum USD needed for 5 shares at the highest price level
+  // At maxPrice%, need: 5 shares * (maxPrice/100) = minimum USD
+  const MIN_SHARES = 5;
+  const MIN_RUNG_USD = Math.ceil(MIN_SHARES * (maxPrice / 100) * 100) / 100; // Round up to 2 decimals
+
+  // Generate all potential price levels from maxPrice down to minPrice
+  const allPriceLevels: number[] = [];
+  for (let p = maxPrice; p >= minPrice; p--) {
+    allPriceLevels.push(p);
+  }
+
+  // Calculate how many rungs we can afford with minimum allocation
+  // We need to find rungs that can be covered with taper while meeting minimum
+  let priceLevels = [...allPriceLevels];
+  let numRungs = priceLevels.length;
+
+  // Iteratively reduce rungs until all can meet minimum allocation
+  while (numRungs > 1) {
+    // Calculate raw weights using exponential decay
+    const rawWeights: number[] = [];
+    for (let i = 0; i < numRungs; i++) {
+      const weight = Math.exp(-taperFactor * i / numRungs);
+      rawWeights.push(weight);
+    }
+
+    // Normalize weights to sum to 1
+    const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+    const normalizedWeights = rawWeights.map(w => w / totalWeight);
+
+    // Check if the smallest allocation (last rung) meets minimum
+    const smallestAllocation = totalBankroll * normalizedWeights[numRungs - 1];
+
+    if (smallestAllocation >= MIN_RUNG_USD) {
+      // All rungs can meet minimum, we're done
+      break;
+    }
+
+    // Remove the lowest price level and try again
+    numRungs--;
+    priceLevels = allPriceLevels.slice(0, numRungs);
+  }
+
+  // Now calculate final rungs with the adjusted price levels
+  const rungs: LadderRung[] = [];
+
+  // Recalculate weights for final set of rungs
+  const rawWeights: number[] = [];
+  for (let i = 0; i < numRungs; i++) {
+    const weight = Math.exp(-taperFactor * i / numRungs);
+    rawWeights.push(weight);
+  }
+
+  const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+  const normalizedWeights = rawWeights.map(w => w / totalWeight);
+
+  // Create rungs with allocations
+  for (let i = 0; i < numRungs; i++) {
+    const pricePercent = priceLevels[i];
+    const allocationPercent = normalizedWeights[i] * 100;
+    const sizeUsd = totalBankroll * normalizedWeights[i];
+
+    rungs.push({
+      pricePercent,
+      priceDecimal: pricePercent / 100,
+      sizeUsd: Math.round(sizeUsd * 100) / 100, // Round to 2 decimal places
+      allocationPercent: Math.round(allocationPercent * 100) / 100,
+    });
+  }
+
+  // Calculate effective minPrice (might be higher than requested if bankroll too small)
+  const effectiveMinPrice = priceLevels[priceLevels.length - 1];
+
+  return { rungs, effectiveMinPrice };
+}
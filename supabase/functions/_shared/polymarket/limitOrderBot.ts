@@ -0,0 +1,470 @@
+/**
+ * 15-Minute Up/Down Limit Order Bot - shared execution logic
+ *
+ * Places straddle (vanilla) or ladder orders on the closest upcoming
+ * 15-minute up/down market. Used by the limit-order-bot edge function for
+ * one-off and multi-asset batch runs, and by the bot scheduler for persistent
+ * server-side bots.
+ */
+
+import type { PolymarketClient } from "./client.ts";
+import { buildMarketSlug, formatTimeShort, createLogEntry } from "./utils.ts";
+import type { SupportedAsset, BotLogEntry, TokenIds, ManagedOrder } from "./types.ts";
+import type { NewJournalEntry } from "../journal/types.ts";
+import type {
+  BatchAssetConfig,
+  LadderConfig,
+  LadderRungResult,
+  LimitOrderBotBatchResponse,
+  LimitOrderBotResponse,
+  MarketOrderResult,
+} from "../../polymarket-up-down-15-markets-limit-order-bot/types.ts";
+
+// Trading configuration defaults
+export const DEFAULT_ORDER_PRICE = 0.48; // 48%
+export const DEFAULT_ORDER_SIZE_USD = 25; // $25 total
+
+// Ladder betting defaults
+export const DEFAULT_LADDER_MAX_PRICE = 49;
+export const DEFAULT_LADDER_MIN_PRICE = 35;
+export const DEFAULT_LADDER_TAPER_FACTOR = 1.5;
+
+// Post-placement order management defaults
+export const DEFAULT_CANCEL_CUTOFF_SECONDS = 60; // Cancel resting orders 1 minute before the window opens
+export const DEFAULT_FILL_THRESHOLD_PERCENT = 80;
+
+/**
+ * Parameters for a single bot run
+ */
+export interface LimitOrderBotRunParams {
+  /** Asset to trade */
+  asset: SupportedAsset;
+  /** Order price as percentage (e.g., 48 for 48%) - ignored if ladder.enabled */
+  price?: number;
+  /** Total bankroll in USD */
+  sizeUsd?: number;
+  /** Ladder betting configuration */
+  ladder?: LadderConfig;
+  /** Market start timestamp to target. Defaults to the next 15-minute boundary */
+  timestamp?: number;
+}
+
+/**
+ * Result of a single bot run
+ */
+export interface LimitOrderBotRunResult {
+  /** Response data for the run */
+  data: NonNullable<LimitOrderBotResponse["data"]>;
+  /** Log entries collected during the run */
+  logs: BotLogEntry[];
+}
+
+/**
+ * Result of a batch run
+ */
+export interface LimitOrderBotBatchRunResult {
+  /** Response data for the batch */
+  data: NonNullable<LimitOrderBotBatchResponse["data"]>;
+  /** Log entries collected during the run */
+  logs: BotLogEntry[];
+}
+
+/**
+ * Validate that the asset is supported
+ */
+export function isValidAsset(asset: string): asset is SupportedAsset {
+  return ["BTC", "SOL", "ETH", "XRP"].includes(asset.toUpperCase());
+}
+
+/**
+ * Fill in a ladder's defaults and validate it.
+ * Returns the ladder to store, or the error of the first invalid field.
+ */
+export function normalizeLadder(ladder: LadderConfig): { ladder: LadderConfig } | { error: string } {
+  const maxPrice = ladder.maxPrice ?? DEFAULT_LADDER_MAX_PRICE;
+  const minPrice = ladder.minPrice ?? DEFAULT_LADDER_MIN_PRICE;
+  const taperFactor = ladder.taperFactor ?? DEFAULT_LADDER_TAPER_FACTOR;
+
+  if (typeof maxPrice !== "number" || maxPrice <= 0 || maxPrice >= 100) {
+    return { error: "ladder.maxPrice must be a percentage between 0 and 100" };
+  }
+
+  if (typeof minPrice !== "number" || minPrice <= 0 || minPrice >= 100) {
+    return { error: "ladder.minPrice must be a percentage between 0 and 100" };
+  }
+
+  if (minPrice > maxPrice) {
+    return { error: "ladder.minPrice must not be above ladder.maxPrice" };
+  }
+
+  if (typeof taperFactor !== "number" || taperFactor <= 0) {
+    return { error: "ladder.taperFactor must be a positive number" };
+  }
+
+  return { ladder: { enabled: ladder.enabled, maxPrice, minPrice, taperFactor } };
+}
+
+/**
+ * Get current UTC timestamp in seconds
+ */
+function nowUtcSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Get the closest upcoming 15-minute timestamp.
+ * Rounds UP to the next 15-minute block.
+ */
+export function getNext15MinTimestamp(): number {
+  const now = nowUtcSeconds();
+  return Math.ceil(now / 900) * 900;
+}
+
+/**
+ * Collect the successfully placed orders of a market result for the order manager
+ */
+export function getPlacedOrders(market: MarketOrderResult, pricePercent?: number): ManagedOrder[] {
+  const orders: ManagedOrder[] = [];
+
+  const addOrder = (side: ManagedOrder["side"], result: { success: boolean; orderId?: string } | undefined, price: number) => {
+    if (result?.success && result.orderId) {
+      orders.push({ orderId: result.orderId, side, pricePercent: price });
+    }
+  };
+
+  for (const rung of market.ladderOrdersPlaced || []) {
+    addOrder("up", rung.up, rung.pricePercent);
+    addOrder("down", rung.down, rung.pricePercent);
+  }
+
+  const simplePrice = pricePercent ?? DEFAULT_ORDER_PRICE * 100;
+  addOrder("up", market.ordersPlaced?.up, simplePrice);
+  addOrder("down", market.ordersPlaced?.down, simplePrice);
+
+  return orders;
+}
+
+/**
+ * Build trade journal entries for the orders of a market result.
+ * Token IDs are not part of the result; the journal sync fills them in from the order.
+ */
+export function getJournalEntries(
+  asset: SupportedAsset,
+  market: MarketOrderResult,
+  order: { pricePercent?: number; sizeUsd?: number },
+  context: { botId?: string; paperTrading?: boolean }
+): NewJournalEntry[] {
+  const strategy = market.ladderOrdersPlaced ? "ladder" : "vanilla";
+  const entries: NewJournalEntry[] = [];
+
+  const addEntry = (
+    outcome: "Up" | "Down",
+    result: { success: boolean; orderId?: string; errorMsg?: string } | undefined,
+    price: number,
+    sizeUsd: number
+  ) => {
+    if (!result) return;
+    entries.push({
+      source: "bot",
+      strategy,
+      asset,
+      botId: context.botId,
+      platform: "Polymarket",
+      paperTrading: context.paperTrading,
+      orderId: result.orderId,
+      marketSlug: market.marketSlug,
+      title: market.marketTitle,
+      outcome,
+      price,
+      size: sizeUsd / price,
+      orderParams: { pricePercent: price * 100, sizeUsd },
+      status: result.success ? "open" : "failed",
+      error: result.errorMsg,
+    });
+  };
+
+  for (const rung of market.ladderOrdersPlaced || []) {
+    addEntry("Up", rung.up, rung.pricePercent / 100, rung.sizeUsd);
+    addEntry("Down", rung.down, rung.pricePercent / 100, rung.sizeUsd);
+  }
+
+  if (market.ordersPlaced) {
+    // Straddles spend the full size on each side
+    const price = order.pricePercent ? order.pricePercent / 100 : DEFAULT_ORDER_PRICE;
+    const sizeUsd = order.sizeUsd || DEFAULT_ORDER_SIZE_USD;
+    addEntry("Up", market.ordersPlaced.up, price, sizeUsd);
+    addEntry("Down", market.ordersPlaced.down, price, sizeUsd);
+  }
+
+  return entries;
+}
+
+/**
+ * Run the bot once: fetch the target market and place straddle or ladder orders.
+ * Market-level failures are reported in `data.market.error` rather than thrown.
+ */
+export async function runLimitOrderBot(
+  client: PolymarketClient,
+  params: LimitOrderBotRunParams
+): Promise<LimitOrderBotRunResult> {
+  const logs: BotLogEntry[] = [];
+  const { asset, price, sizeUsd, ladder } = params;
+
+  // Determine if ladder mode is enabled
+  const ladderMode = ladder?.enabled ?? false;
+
+  // Get order configuration from request
+  const orderPrice = price ? price / 100 : DEFAULT_ORDER_PRICE;
+  const orderSizeUsd = sizeUsd || DEFAULT_ORDER_SIZE_USD;
+
+  // Get ladder configuration (with defaults)
+  const ladderConfig: LadderConfig = {
+    enabled: ladderMode,
+    maxPrice: ladder?.maxPrice ?? DEFAULT_LADDER_MAX_PRICE,
+    minPrice: ladder?.minPrice ?? DEFAULT_LADDER_MIN_PRICE,
+    taperFactor: ladder?.taperFactor ?? DEFAULT_LADDER_TAPER_FACTOR,
+  };
+
+  if (ladderMode) {
+    logs.push(createLogEntry("INFO", `Ladder mode enabled`, {
+      maxPrice: `${ladderConfig.maxPrice}%`,
+      minPrice: `${ladderConfig.minPrice}%`,
+      taperFactor: ladderConfig.taperFactor,
+      totalBankroll: `$${orderSizeUsd}`,
+    }));
+  }
+
+  // Get the target 15-minute market timestamp
+  const timestamp = params.timestamp ?? getNext15MinTimestamp();
+  const marketSlug = buildMarketSlug(asset, timestamp);
+
+  // Process the market
+  let marketResult: MarketOrderResult;
+
+  try {
+    // Fetch market data
+    const market = await client.getMarketBySlug(marketSlug);
+    logs.push(...client.getLogs());
+    client.clearLogs();
+
+    if (!market) {
+      marketResult = {
+        marketSlug,
+        marketStartTime: formatTimeShort(timestamp),
+        targetTimestamp: timestamp,
+        error: "Market not found - may not be created yet",
+      };
+    } else {
+      // Extract token IDs
+      let tokenIds: TokenIds | null = null;
+      try {
+        tokenIds = client.extractTokenIds(market);
+        logs.push(...client.getLogs());
+        client.clearLogs();
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logs.push(createLogEntry("ERROR", `Failed to extract token IDs: ${errorMsg}`));
+        marketResult = {
+          marketSlug,
+          marketTitle: market.title,
+          marketStartTime: formatTimeShort(timestamp),
+          targetTimestamp: timestamp,
+          error: `Token extraction failed: ${errorMsg}`,
+        };
+      }
+
+      if (tokenIds) {
+        // Place orders based on mode
+        if (ladderMode) {
+          // Ladder mode: place orders at multiple price levels
+          const ladderResults = await client.placeLadderOrders(
+            tokenIds,
+            orderSizeUsd,
+            ladderConfig.maxPrice!,
+            ladderConfig.minPrice!,
+            ladderConfig.taperFactor!
+          );
+          logs.push(...client.getLogs());
+          client.clearLogs();
+
+          // Convert ladder results to LadderRungResult format
+          const ladderOrdersPlaced: LadderRungResult[] = ladderResults.results.map(r => ({
+            pricePercent: r.pricePercent,
+            sizeUsd: r.sizeUsd,
+            up: r.up,
+            down: r.down,
+          }));
+
+          marketResult = {
+            marketSlug,
+            marketTitle: market.title,
+            marketStartTime: formatTimeShort(timestamp),
+            targetTimestamp: timestamp,
+            ladderOrdersPlaced,
+            ladderTotalOrders: ladderResults.totalOrders,
+            ladderSuccessfulOrders: ladderResults.successfulOrders,
+          };
+        } else {
+          // Simple mode: single straddle order
+          const orderResults = await client.placeStraddleOrders(tokenIds, orderPrice, orderSizeUsd);
+          logs.push(...client.getLogs());
+          client.clearLogs();
+
+          marketResult = {
+            marketSlug,
+            marketTitle: market.title,
+            marketStartTime: formatTimeShort(timestamp),
+            targetTimestamp: timestamp,
+            ordersPlaced: orderResults,
+          };
+        }
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(...client.getLogs());
+    client.clearLogs();
+    logs.push(createLogEntry("ERROR", `Error processing market ${marketSlug}: ${errorMsg}`));
+    marketResult = {
+      marketSlug,
+      marketStartTime: formatTimeShort(timestamp),
+      targetTimestamp: timestamp,
+      error: errorMsg,
+    };
+  }
+
+  return {
+    data: {
+      asset,
+      pricePercent: orderPrice * 100,
+      sizeUsd: orderSizeUsd,
+      ladderMode,
+      market: marketResult!,
+    },
+    logs,
+  };
+}
+
+/**
+ * Count attempted and successful orders in a market result
+ */
+function countOrders(market: MarketOrderResult): { total: number; successful: number } {
+  if (market.ladderOrdersPlaced) {
+    return {
+      total: market.ladderTotalOrders || 0,
+      successful: market.ladderSuccessfulOrders || 0,
+    };
+  }
+
+  if (market.ordersPlaced) {
+    const sides = [market.ordersPlaced.up, market.ordersPlaced.down].filter(Boolean);
+    return {
+      total: sides.length,
+      successful: sides.filter(side => side?.success).length,
+    };
+  }
+
+  return { total: 0, successful: 0 };
+}
+
+/**
+ * Capital an asset's orders commit: straddles place the full size on each side,
+ * and ladders split it across rungs that are each placed on both sides
+ */
+function committedUsd(sizeUsd: number): number {
+  return sizeUsd * 2;
+}
+
+/**
+ * Run the bot for several assets against the same market window.
+ * Per-asset bankrolls are scaled down proportionally if the capital they commit
+ * (both sides of every order) exceeds the global cap.
+ */
+export async function runLimitOrderBotBatch(
+  client: PolymarketClient,
+  assets: BatchAssetConfig[],
+  maxTotalBankrollUsd?: number
+): Promise<LimitOrderBotBatchRunResult> {
+  const logs: BotLogEntry[] = [];
+
+  // All assets target the same window
+  const timestamp = getNext15MinTimestamp();
+
+  // Apply the global bankroll cap to the capital committed on both sides
+  const requestedBankrollUsd = assets.reduce((sum, a) => sum + committedUsd(a.sizeUsd || DEFAULT_ORDER_SIZE_USD), 0);
+  const capApplied = maxTotalBankrollUsd !== undefined && requestedBankrollUsd > maxTotalBankrollUsd;
+  const scale = capApplied ? maxTotalBankrollUsd! / requestedBankrollUsd : 1;
+
+  if (capApplied) {
+    logs.push(createLogEntry("WARN", `Requested bankroll exceeds cap - scaling each asset down`, {
+      requested: `$${requestedBankrollUsd}`,
+      cap: `$${maxTotalBankrollUsd}`,
+      scale: `${(scale * 100).toFixed(1)}%`,
+    }));
+  }
+
+  logs.push(createLogEntry("INFO", `Batch run for ${assets.length} asset(s) on market ${formatTimeShort(timestamp)}`, {
+    assets: assets.map(a => a.asset).join(", "),
+  }));
+
+  const allocations: Partial<Record<SupportedAsset, number>> = {};
+  const markets: Partial<Record<SupportedAsset, MarketOrderResult>> = {};
+  let assetsSucceeded = 0;
+  let totalOrders = 0;
+  let successfulOrders = 0;
+
+  // Process assets sequentially - they share one CLOB client
+  for (const config of assets) {
+    const sizeUsd = Math.floor((config.sizeUsd || DEFAULT_ORDER_SIZE_USD) * scale * 100) / 100;
+    allocations[config.asset] = sizeUsd;
+
+    const result = await runLimitOrderBot(client, {
+      asset: config.asset,
+      price: config.price,
+      sizeUsd,
+      ladder: config.ladder,
+      timestamp,
+    });
+    logs.push(...result.logs);
+
+    const market = result.data.market;
+    markets[config.asset] = market;
+
+    if (!market.error) {
+      assetsSucceeded++;
+    }
+
+    const counts = countOrders(market);
+    totalOrders += counts.total;
+    successfulOrders += counts.successful;
+  }
+
+  const allocatedBankrollUsd = Math.round(
+    Object.values(allocations).reduce((sum, v) => sum + committedUsd(v || 0), 0) * 100
+  ) / 100;
+
+  logs.push(createLogEntry("SUCCESS", `Batch complete`, {
+    assetsSucceeded: `${assetsSucceeded}/${assets.length}`,
+    orders: `${successfulOrders}/${totalOrders}`,
+    allocated: `$${allocatedBankrollUsd}`,
+  }));
+
+  return {
+    data: {
+      targetTimestamp: timestamp,
+      allocations,
+      markets,
+      summary: {
+        assetsRequested: assets.length,
+        assetsSucceeded,
+        assetsFailed: assets.length - assetsSucceeded,
+        requestedBankrollUsd,
+        allocatedBankrollUsd,
+        capApplied,
+        totalOrders,
+        successfulOrders,
+      },
+    },
+    logs,
+  };
+}
@@ -0,0 +1,491 @@
+/**
+ * Paper Trading Client for Polymarket
+ *
+ * Simulated execution backend behind the PolymarketClient interface.
+ * Market data (Gamma markets, CLOB order books) is fetched as usual, but
+ * orders never reach the CLOB: they are kept in the paper_* tables against
+ * a virtual USDC balance and filled against the fetched order book (or a
+ * recorded one supplied by the caller). No private key or funds are needed.
+ *
+ * Fill rules:
+ * - On placement, a marketable order fills immediately against the book at
+ *   the book's prices (taker)
+ * - Resting orders are checked whenever orders, positions or activity are
+ *   read and fill at their own limit price (maker) once the book crosses it,
+ *   only against size added since the previous book snapshot
+ * - Positions of resolved markets are settled into the balance at $1 / $0
+ */
+
+import { PolymarketClient, createClientFromEnv } from "./client.ts";
+import { createDbClient, type DbClient } from "../db/client.ts";
+import {
+  getOrCreatePaperAccount,
+  insertPaperOrder,
+  listPaperOrders,
+  updatePaperOrder,
+  cancelPaperOrders,
+  recordPaperFill,
+  listPaperPositions,
+  closePaperPosition,
+  adjustPaperBalance,
+  listPaperTrades,
+  getPaperBookSnapshot,
+  savePaperBookSnapshot,
+} from "./paperStore.ts";
+import type {
+  OrderArgs,
+  OrderResponse,
+  OpenOrder,
+  OrderBook,
+  OrderBookLevel,
+  CancelOrdersResult,
+  PaperAccount,
+  PaperTradingOptions,
+  TokenMarketInfo,
+  WalletActivity,
+  WalletPosition,
+} from "./types.ts";
+
+export const DEFAULT_PAPER_ACCOUNT_ID = "default";
+export const DEFAULT_PAPER_STARTING_BALANCE_USD = 1000;
+
+// Polymarket minimum order size
+const MIN_ORDER_SHARES = 5;
+
+/**
+ * Paper Polymarket Client Class
+ */
+export class PaperPolymarketClient extends PolymarketClient {
+  private db: DbClient;
+  private accountId: string;
+  private startingBalanceUsd: number;
+  private books: Record<string, OrderBook>;
+  private tokenInfo = new Map<string, TokenMarketInfo>();
+
+  constructor(db: DbClient, options: PaperTradingOptions = {}) {
+    const accountId = options.accountId || DEFAULT_PAPER_ACCOUNT_ID;
+
+    super({ privateKey: "", proxyAddress: `paper:${accountId}` });
+
+    this.db = db;
+    this.accountId = accountId;
+    this.startingBalanceUsd = options.startingBalanceUsd ?? DEFAULT_PAPER_STARTING_BALANCE_USD;
+    this.books = options.books || {};
+  }
+
+  /**
+   * Get the paper account with its balance and the cash reserved by resting BUY orders
+   */
+  async getPaperAccount(): Promise<PaperAccount> {
+    const account = await getOrCreatePaperAccount(this.db, this.accountId, this.startingBalanceUsd);
+    const liveOrders = await listPaperOrders(this.db, this.accountId, { status: "LIVE" });
+
+    const reservedUsd = liveOrders
+      .filter(o => o.side === "BUY")
+      .reduce((sum, o) => sum + (parseFloat(o.original_size) - parseFloat(o.size_matched)) * parseFloat(o.price), 0);
+
+    return { ...account, reservedUsd: Math.round(reservedUsd * 100) / 100 };
+  }
+
+  /**
+   * Cached token lookup (market and outcome never change)
+   */
+  private async getTokenInfo(tokenId: string): Promise<TokenMarketInfo | null> {
+    const cached = this.tokenInfo.get(tokenId);
+    if (cached) {
+      return cached;
+    }
+
+    const info = await this.getTokenMarketInfo(tokenId);
+    if (info) {
+      this.tokenInfo.set(tokenId, info);
+    }
+    return info;
+  }
+
+  /**
+   * Order book used for fills: the recorded book if one was supplied, otherwise the live book
+   */
+  private async getFillBook(tokenId: string): Promise<OrderBook | null> {
+    return this.books[tokenId] || await this.getOrderBook(tokenId);
+  }
+
+  /**
+   * Fill LIVE orders against the current order books.
+   * Resting orders only fill against size added since the token's previous
+   * snapshot; standing size was already offered to them on an earlier pass.
+   * The taker order (just placed) matches the whole book after them.
+   * Liquidity consumed by one order is not available to the next within a pass.
+   */
+  private async matchOrders(orders: OpenOrder[], takerId?: string): Promise<number> {
+    const live = orders.filter(o => o.status === "LIVE");
+    let filledOrders = 0;
+
+    for (const tokenId of new Set(live.map(o => o.asset_id))) {
+      const book = await this.getFillBook(tokenId);
+      if (!book) continue;
+
+      const previous = await getPaperBookSnapshot(this.db, this.accountId, tokenId);
+      const withNewSize = (levels: OrderBookLevel[], previousLevels: OrderBookLevel[] = []) => {
+        const previousSize = new Map(previousLevels.map(l => [l.price, l.size]));
+        return levels.map(level => ({ ...level, newSize: Math.max(0, level.size - (previousSize.get(level.price) ?? 0)) }));
+      };
+
+      const available = {
+        BUY: withNewSize(book.asks, previous?.asks),
+        SELL: withNewSize(book.bids, previous?.bids),
+      };
+
+      // Resting orders before the taker, best-priced first: highest bids, lowest asks
+      const tokenOrders = live
+        .filter(o => o.asset_id === tokenId)
+        .sort((a, b) => {
+          const takerOrder = Number(a.id === takerId) - Number(b.id === takerId);
+          if (takerOrder !== 0) return takerOrder;
+          return a.side === "BUY" ? parseFloat(b.price) - parseFloat(a.price) : parseFloat(a.price) - parseFloat(b.price);
+        });
+
+      for (const order of tokenOrders) {
+        const taker = order.id === takerId;
+        const limit = parseFloat(order.price);
+        const crosses = (level: OrderBookLevel) => order.side === "BUY" ? level.price <= limit : level.price >= limit;
+
+        let remaining = parseFloat(order.original_size) - parseFloat(order.size_matched);
+        let matched = parseFloat(order.size_matched);
+
+        for (const level of available[order.side]) {
+          if (remaining <= 0 || !crosses(level)) break;
+
+          const size = Math.min(remaining, taker ? level.size : level.newSize);
+          if (size <= 0) continue;
+
+          level.size -= size;
+          level.newSize = taker ? Math.min(level.newSize, level.size) : level.newSize - size;
+          remaining -= size;
+          matched += size;
+
+          const info = await this.getTokenInfo(tokenId);
+          await recordPaperFill(this.db, this.accountId, order, {
+            price: taker ? level.price : limit,
+            size,
+            endDate: info?.endDate,
+          });
+        }
+
+        if (matched > parseFloat(order.size_matched)) {
+          const status = remaining <= 0 ? "MATCHED" : "LIVE";
+          await updatePaperOrder(this.db, order.id, { sizeMatched: matched, status });
+          filledOrders++;
+
+          this.log("SUCCESS", `[PAPER] ${order.side} order filled ${matched}/${order.original_size} shares`, {
+            orderId: `${order.id.slice(0, 16)}...`,
+            price: limit,
+            status,
+          });
+        }
+      }
+
+      await savePaperBookSnapshot(this.db, this.accountId, tokenId, { bids: book.bids, asks: book.asks });
+    }
+
+    return filledOrders;
+  }
+
+  /**
+   * Check all LIVE orders (optionally filtered) for fills
+   */
+  private async syncOrders(filter?: { ids?: string[]; market?: string; assetId?: string }): Promise<void> {
+    const live = await listPaperOrders(this.db, this.accountId, { ...filter, status: "LIVE" });
+    if (live.length > 0) {
+      await this.matchOrders(live);
+    }
+  }
+
+  /**
+   * Settle positions of resolved markets into the balance and close them
+   */
+  private async settleResolvedPositions(): Promise<void> {
+    const now = Date.now();
+    const positions = await listPaperPositions(this.db, this.accountId);
+
+    for (const position of positions) {
+      if (!position.endDate || new Date(position.endDate).getTime() > now) continue;
+
+      const info = await this.getTokenMarketInfo(position.asset);
+      if (!info || info.resolvedPrice === undefined) continue;
+
+      const payout = Math.round(position.size * info.resolvedPrice * 100) / 100;
+      await adjustPaperBalance(this.db, this.accountId, payout);
+      await closePaperPosition(this.db, this.accountId, position.asset);
+
+      const live = await listPaperOrders(this.db, this.accountId, { assetId: position.asset, status: "LIVE" });
+      await cancelPaperOrders(this.db, this.accountId, live.map(o => o.id));
+
+      this.log("INFO", `[PAPER] Settled ${position.outcome || "position"}: ${position.size} shares paid $${payout}`, {
+        conditionId: position.conditionId,
+      });
+    }
+  }
+
+  /**
+   * Place a simulated limit order
+   */
+  override async placeOrder(order: OrderArgs): Promise<OrderResponse> {
+    const size = Math.floor(order.size);
+
+    this.log("INFO", `[PAPER] Placing ${order.side} order`, {
+      tokenId: `${order.tokenId.slice(0, 16)}...`,
+      price: order.price,
+      size,
+    });
+
+    try {
+      if (!(order.price > 0 && order.price < 1)) {
+        throw new Error(`Invalid price ${order.price}: must be between 0 and 1`);
+      }
+
+      if (size < MIN_ORDER_SHARES) {
+        throw new Error(`Order size ${size} is below the minimum of ${MIN_ORDER_SHARES} shares`);
+      }
+
+      const info = await this.getTokenInfo(order.tokenId);
+      if (!info) {
+        throw new Error(`Unknown token: ${order.tokenId}`);
+      }
+
+      if (info.closed) {
+        throw new Error("Market is closed");
+      }
+
+      const account = await this.getPaperAccount();
+
+      if (order.side === "BUY") {
+        const costUsd = order.price * size;
+        const availableUsd = account.balanceUsd - account.reservedUsd;
+        if (costUsd > availableUsd) {
+          throw new Error(`Insufficient paper balance: order costs $${costUsd.toFixed(2)}, $${availableUsd.toFixed(2)} available`);
+        }
+      } else {
+        const positions = await listPaperPositions(this.db, this.accountId);
+        const held = positions.find(p => p.asset === order.tokenId)?.size || 0;
+        const resting = (await listPaperOrders(this.db, this.accountId, { assetId: order.tokenId, status: "LIVE" }))
+          .filter(o => o.side === "SELL")
+          .reduce((sum, o) => sum + parseFloat(o.original_size) - parseFloat(o.size_matched), 0);
+        if (size > held - resting) {
+          throw new Error(`Insufficient paper position: selling ${size} shares, ${held - resting} available`);
+        }
+      }
+
+      const placed = await insertPaperOrder(this.db, this.accountId, {
+        market: info.conditionId,
+        assetId: order.tokenId,
+        outcome: info.outcome,
+        side: order.side,
+        price: order.price,
+        size,
+      });
+
+      // Marketable orders fill right away, after the token's resting orders take any new size
+      const resting = await listPaperOrders(this.db, this.accountId, { assetId: order.tokenId, status: "LIVE" });
+      await this.matchOrders(resting, placed.id);
+      const [current] = await listPaperOrders(this.db, this.accountId, { ids: [placed.id] });
+      const status = current?.status === "MATCHED" ? "matched" : "live";
+
+      this.log("SUCCESS", `[PAPER] Order placed successfully`, {
+        orderId: placed.id,
+        status,
+      });
+
+      return {
+        success: true,
+        orderId: placed.id,
+        status,
+      };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `[PAPER] Failed to place order: ${errorMsg}`);
+      return {
+        success: false,
+        errorMsg,
+      };
+    }
+  }
+
+  /**
+   * Get a specific paper order by ID
+   */
+  override async getOrder(orderId: string): Promise<OpenOrder | null> {
+    try {
+      await this.syncOrders({ ids: [orderId] });
+      const [order] = await listPaperOrders(this.db, this.accountId, { ids: [orderId] });
+
+      if (!order) {
+        this.log("WARN", `[PAPER] Order not found: ${orderId}`);
+        return null;
+      }
+
+      return order;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `[PAPER] Failed to get order: ${errorMsg}`);
+      return null;
+    }
+  }
+
+  /**
+   * List open paper orders, optionally filtered by market (condition ID) or token
+   */
+  override async getOpenOrders(options?: { market?: string; assetId?: string }): Promise<OpenOrder[]> {
+    try {
+      await this.syncOrders(options);
+      const orders = await listPaperOrders(this.db, this.accountId, { ...options, status: "LIVE" });
+
+      this.log("SUCCESS", `[PAPER] Found ${orders.length} open orders`);
+
+      return orders;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `[PAPER] Failed to get open orders: ${errorMsg}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel paper orders by ID
+   */
+  override async cancelOrders(orderIds: string[]): Promise<CancelOrdersResult> {
+    if (orderIds.length === 0) {
+      return { canceled: [], notCanceled: {} };
+    }
+
+    try {
+      // Fills that happened before the cancel still count
+      await this.syncOrders({ ids: orderIds });
+      const canceled = await cancelPaperOrders(this.db, this.accountId, orderIds);
+      const notCanceled: Record<string, string> = Object.fromEntries(
+        orderIds.filter(id => !canceled.includes(id)).map(id => [id, "order not found or no longer live"])
+      );
+
+      this.log(Object.keys(notCanceled).length > 0 ? "WARN" : "SUCCESS", `[PAPER] Cancelled ${canceled.length} order(s)`, {
+        notCanceled: Object.keys(notCanceled).length > 0 ? notCanceled : undefined,
+      });
+
+      return { canceled, notCanceled };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `[PAPER] Failed to cancel orders: ${errorMsg}`);
+      return {
+        canceled: [],
+        notCanceled: Object.fromEntries(orderIds.map(id => [id, errorMsg])),
+      };
+    }
+  }
+
+  /**
+   * Cancel all open paper orders for a market (condition ID) or token
+   */
+  override async cancelMarketOrders(options: { market?: string; assetId?: string }): Promise<CancelOrdersResult> {
+    const orders = await listPaperOrders(this.db, this.accountId, { ...options, status: "LIVE" });
+    return this.cancelOrders(orders.map(o => o.id));
+  }
+
+  /**
+   * Cancel every open paper order of the account
+   */
+  override async cancelAllOrders(): Promise<CancelOrdersResult> {
+    const orders = await listPaperOrders(this.db, this.accountId, { status: "LIVE" });
+    return this.cancelOrders(orders.map(o => o.id));
+  }
+
+  /**
+   * Get paper positions (after checking resting orders and settling resolved markets)
+   */
+  override async getPositions(options?: { market?: string }): Promise<WalletPosition[]> {
+    try {
+      await this.syncOrders({ market: options?.market });
+      await this.settleResolvedPositions();
+
+      const positions = await listPaperPositions(this.db, this.accountId, options);
+
+      this.log("SUCCESS", `[PAPER] Found ${positions.length} positions`);
+
+      return positions.map(({ asset, size, avgPrice, outcome, conditionId, endDate }) => ({
+        asset,
+        size,
+        avgPrice,
+        outcome,
+        conditionId,
+        endDate,
+      }));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `[PAPER] Failed to get positions: ${errorMsg}`);
+      return [];
+    }
+  }
+
+  /**
+   * Get paper fills
+   */
+  override async getActivity(options?: { market?: string; asset?: string }): Promise<WalletActivity[]> {
+    try {
+      await this.syncOrders({ market: options?.market, assetId: options?.asset });
+      const trades = await listPaperTrades(this.db, this.accountId, options);
+
+      this.log("SUCCESS", `[PAPER] Found ${trades.length} trades`);
+
+      return trades.map(({ asset, size, price, side, outcome, conditionId, timestamp }) => ({
+        asset,
+        size,
+        price,
+        side,
+        outcome,
+        conditionId,
+        timestamp,
+        type: "TRADE",
+      }));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.log("ERROR", `[PAPER] Failed to get activity: ${errorMsg}`);
+      return [];
+    }
+  }
+}
+
+/**
+ * Whether paper trading is forced on for every request by environment variable
+ */
+export function isPaperTradingEnv(): boolean {
+  // @ts-ignore - Deno global
+  return (Deno.env.get("POLYMARKET_PAPER_TRADING") || "").toLowerCase() === "true";
+}
+
+/**
+ * Create a paper client from environment variables and request options
+ */
+export function createPaperClient(options: PaperTradingOptions = {}): PaperPolymarketClient {
+  // @ts-ignore - Deno global
+  const envAccountId = Deno.env.get("POLYMARKET_PAPER_ACCOUNT");
+  // @ts-ignore - Deno global
+  const envStartingBalance = parseFloat(Deno.env.get("POLYMARKET_PAPER_STARTING_BALANCE") || "");
+
+  return new PaperPolymarketClient(createDbClient(), {
+    ...options,
+    accountId: options.accountId || envAccountId || DEFAULT_PAPER_ACCOUNT_ID,
+    startingBalanceUsd: options.startingBalanceUsd
+      ?? (Number.isFinite(envStartingBalance) ? envStartingBalance : DEFAULT_PAPER_STARTING_BALANCE_USD),
+  });
+}
+
+/**
+ * Create the client for a request: a paper client if the request asks for
+ * paper trading or POLYMARKET_PAPER_TRADING=true, otherwise the live client.
+ * A request cannot switch a paper-only deployment to live trading.
+ */
+export function createClientForRequest(paperTrading?: boolean | PaperTradingOptions): PolymarketClient {
+  if (paperTrading || isPaperTradingEnv()) {
+    return createPaperClient(typeof paperTrading === "object" ? paperTrading : {});
+  }
+
+  return createClientFromEnv();
+}
@@ -0,0 +1,538 @@
+/**
+ * Paper Trading Store
+ *
+ * Database access for simulated Polymarket accounts (paper_accounts,
+ * paper_orders, paper_trades, paper_positions and paper_book_snapshots
+ * tables) used by PaperPolymarketClient.
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type { OpenOrder, OrderBookLevel, OrderSideType, OrderStatus } from "./types.ts";
+
+/**
+ * paper_accounts row
+ */
+interface PaperAccountRow {
+  id: string;
+  starting_balance_usd: number;
+  balance_usd: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * paper_orders row
+ */
+interface PaperOrderRow {
+  id: string;
+  account_id: string;
+  market: string;
+  asset_id: string;
+  outcome: string | null;
+  side: OrderSideType;
+  price: number;
+  original_size: number;
+  size_matched: number;
+  status: OrderStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * paper_trades row
+ */
+interface PaperTradeRow {
+  id: string;
+  account_id: string;
+  order_id: string;
+  market: string;
+  asset_id: string;
+  outcome: string | null;
+  side: OrderSideType;
+  price: number;
+  size: number;
+  created_at: string;
+}
+
+/**
+ * paper_positions row
+ */
+interface PaperPositionRow {
+  account_id: string;
+  asset_id: string;
+  market: string;
+  outcome: string | null;
+  size: number;
+  avg_price: number;
+  end_date: string | null;
+  updated_at: string;
+}
+
+/**
+ * paper_book_snapshots row
+ */
+interface PaperBookSnapshotRow {
+  account_id: string;
+  asset_id: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  updated_at: string;
+}
+
+/**
+ * Paper account balances
+ */
+export interface PaperAccountBalance {
+  id: string;
+  startingBalanceUsd: number;
+  balanceUsd: number;
+}
+
+/**
+ * Paper position on an outcome token
+ */
+export interface PaperPosition {
+  asset: string;
+  conditionId: string;
+  outcome: string;
+  size: number;
+  avgPrice: number;
+  endDate?: string;
+}
+
+/**
+ * Paper fill
+ */
+export interface PaperTrade {
+  orderId: string;
+  asset: string;
+  conditionId: string;
+  outcome: string;
+  side: OrderSideType;
+  price: number;
+  size: number;
+  timestamp: number;
+}
+
+/**
+ * Input for a new paper order
+ */
+export interface NewPaperOrder {
+  market: string;
+  assetId: string;
+  outcome?: string;
+  side: OrderSideType;
+  price: number;
+  size: number;
+}
+
+/**
+ * Filters for listing paper orders
+ */
+export interface PaperOrderFilter {
+  ids?: string[];
+  status?: OrderStatus;
+  market?: string;
+  assetId?: string;
+}
+
+function toAccount(row: PaperAccountRow): PaperAccountBalance {
+  return {
+    id: row.id,
+    startingBalanceUsd: Number(row.starting_balance_usd),
+    balanceUsd: Number(row.balance_usd),
+  };
+}
+
+function toOpenOrder(row: PaperOrderRow): OpenOrder {
+  return {
+    id: row.id,
+    market: row.market,
+    asset_id: row.asset_id,
+    side: row.side,
+    price: String(row.price),
+    size_matched: String(row.size_matched),
+    original_size: String(row.original_size),
+    status: row.status,
+    outcome: row.outcome ?? undefined,
+    created_at: Math.floor(new Date(row.created_at).getTime() / 1000),
+    expiration: 0,
+  };
+}
+
+function toPosition(row: PaperPositionRow): PaperPosition {
+  return {
+    asset: row.asset_id,
+    conditionId: row.market,
+    outcome: row.outcome || "",
+    size: Number(row.size),
+    avgPrice: Number(row.avg_price),
+    endDate: row.end_date ?? undefined,
+  };
+}
+
+function toTrade(row: PaperTradeRow): PaperTrade {
+  return {
+    orderId: row.order_id,
+    asset: row.asset_id,
+    conditionId: row.market,
+    outcome: row.outcome || "",
+    side: row.side,
+    price: Number(row.price),
+    size: Number(row.size),
+    timestamp: Math.floor(new Date(row.created_at).getTime() / 1000),
+  };
+}
+
+/**
+ * Get a paper account, creating it with the starting balance if it does not exist
+ */
+export async function getOrCreatePaperAccount(
+  db: DbClient,
+  accountId: string,
+  startingBalanceUsd: number
+): Promise<PaperAccountBalance> {
+  const { error: insertError } = await db
+    .from("paper_accounts")
+    .upsert(
+      { id: accountId, starting_balance_usd: startingBalanceUsd, balance_usd: startingBalanceUsd },
+      { onConflict: "id", ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    throw new Error(`Failed to create paper account: ${insertError.message}`);
+  }
+
+  const { data, error } = await db
+    .from("paper_accounts")
+    .select("*")
+    .eq("id", accountId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to get paper account: ${error.message}`);
+  }
+
+  return toAccount(data as PaperAccountRow);
+}
+
+/**
+ * Add a (possibly negative) amount to a paper account's balance
+ */
+export async function adjustPaperBalance(db: DbClient, accountId: string, deltaUsd: number): Promise<number> {
+  const { data, error } = await db
+    .from("paper_accounts")
+    .select("balance_usd")
+    .eq("id", accountId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to get paper balance: ${error.message}`);
+  }
+
+  const balanceUsd = Math.round((Number(data.balance_usd) + deltaUsd) * 1e6) / 1e6;
+
+  const { error: updateError } = await db
+    .from("paper_accounts")
+    .update({ balance_usd: balanceUsd, updated_at: new Date().toISOString() })
+    .eq("id", accountId);
+
+  if (updateError) {
+    throw new Error(`Failed to update paper balance: ${updateError.message}`);
+  }
+
+  return balanceUsd;
+}
+
+/**
+ * Insert a LIVE paper order
+ */
+export async function insertPaperOrder(db: DbClient, accountId: string, order: NewPaperOrder): Promise<OpenOrder> {
+  const { data, error } = await db
+    .from("paper_orders")
+    .insert({
+      id: `paper-${crypto.randomUUID()}`,
+      account_id: accountId,
+      market: order.market,
+      asset_id: order.assetId,
+      outcome: order.outcome ?? null,
+      side: order.side,
+      price: order.price,
+      original_size: order.size,
+      status: "LIVE",
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to insert paper order: ${error.message}`);
+  }
+
+  return toOpenOrder(data as PaperOrderRow);
+}
+
+/**
+ * List paper orders, oldest first
+ */
+export async function listPaperOrders(
+  db: DbClient,
+  accountId: string,
+  filter: PaperOrderFilter = {}
+): Promise<OpenOrder[]> {
+  let query = db
+    .from("paper_orders")
+    .select("*")
+    .eq("account_id", accountId);
+
+  if (filter.ids) query = query.in("id", filter.ids);
+  if (filter.status) query = query.eq("status", filter.status);
+  if (filter.market) query = query.eq("market", filter.market);
+  if (filter.assetId) query = query.eq("asset_id", filter.assetId);
+
+  const { data, error } = await query.order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list paper orders: ${error.message}`);
+  }
+
+  return (data as PaperOrderRow[]).map(toOpenOrder);
+}
+
+/**
+ * Update a paper order's fill state or status
+ */
+export async function updatePaperOrder(
+  db: DbClient,
+  orderId: string,
+  update: { sizeMatched?: number; status?: OrderStatus }
+): Promise<void> {
+  const { error } = await db
+    .from("paper_orders")
+    .update({
+      ...(update.sizeMatched !== undefined ? { size_matched: update.sizeMatched } : {}),
+      ...(update.status ? { status: update.status } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", orderId);
+
+  if (error) {
+    throw new Error(`Failed to update paper order: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel LIVE paper orders. Returns the IDs that were cancelled.
+ */
+export async function cancelPaperOrders(db: DbClient, accountId: string, orderIds: string[]): Promise<string[]> {
+  if (orderIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await db
+    .from("paper_orders")
+    .update({ status: "CANCELLED", updated_at: new Date().toISOString() })
+    .eq("account_id", accountId)
+    .eq("status", "LIVE")
+    .in("id", orderIds)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to cancel paper orders: ${error.message}`);
+  }
+
+  return (data as Array<{ id: string }>).map(row => row.id);
+}
+
+/**
+ * Get a paper position
+ */
+export async function getPaperPosition(db: DbClient, accountId: string, assetId: string): Promise<PaperPosition | null> {
+  const { data, error } = await db
+    .from("paper_positions")
+    .select("*")
+    .eq("account_id", accountId)
+    .eq("asset_id", assetId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get paper position: ${error.message}`);
+  }
+
+  return data ? toPosition(data as PaperPositionRow) : null;
+}
+
+/**
+ * List open paper positions
+ */
+export async function listPaperPositions(
+  db: DbClient,
+  accountId: string,
+  options?: { market?: string }
+): Promise<PaperPosition[]> {
+  let query = db
+    .from("paper_positions")
+    .select("*")
+    .eq("account_id", accountId)
+    .gt("size", 0);
+
+  if (options?.market) query = query.eq("market", options.market);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list paper positions: ${error.message}`);
+  }
+
+  return (data as PaperPositionRow[]).map(toPosition);
+}
+
+/**
+ * Close a paper position (after settlement)
+ */
+export async function closePaperPosition(db: DbClient, accountId: string, assetId: string): Promise<void> {
+  const { error } = await db
+    .from("paper_positions")
+    .update({ size: 0, updated_at: new Date().toISOString() })
+    .eq("account_id", accountId)
+    .eq("asset_id", assetId);
+
+  if (error) {
+    throw new Error(`Failed to close paper position: ${error.message}`);
+  }
+}
+
+/**
+ * Record a fill: insert the trade, update the position and the balance
+ */
+export async function recordPaperFill(
+  db: DbClient,
+  accountId: string,
+  order: OpenOrder,
+  fill: { price: number; size: number; endDate?: string }
+): Promise<void> {
+  const { error: tradeError } = await db
+    .from("paper_trades")
+    .insert({
+      account_id: accountId,
+      order_id: order.id,
+      market: order.market,
+      asset_id: order.asset_id,
+      outcome: order.outcome ?? null,
+      side: order.side,
+      price: fill.price,
+      size: fill.size,
+    });
+
+  if (tradeError) {
+    throw new Error(`Failed to record paper trade: ${tradeError.message}`);
+  }
+
+  const existing = await getPaperPosition(db, accountId, order.asset_id);
+  const currentSize = existing?.size || 0;
+  const currentAvg = existing?.avgPrice || 0;
+
+  // Buys move the average price, sells only reduce the size
+  const size = order.side === "BUY" ? currentSize + fill.size : Math.max(0, currentSize - fill.size);
+  const avgPrice = order.side === "BUY"
+    ? (currentSize * currentAvg + fill.size * fill.price) / size
+    : currentAvg;
+
+  const { error: positionError } = await db
+    .from("paper_positions")
+    .upsert({
+      account_id: accountId,
+      asset_id: order.asset_id,
+      market: order.market,
+      outcome: order.outcome ?? null,
+      size,
+      avg_price: Math.round(avgPrice * 1e6) / 1e6,
+      end_date: fill.endDate ?? existing?.endDate ?? null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "account_id,asset_id" });
+
+  if (positionError) {
+    throw new Error(`Failed to update paper position: ${positionError.message}`);
+  }
+
+  const notional = fill.price * fill.size;
+  await adjustPaperBalance(db, accountId, order.side === "BUY" ? -notional : notional);
+}
+
+/**
+ * List paper fills, newest first
+ */
+export async function listPaperTrades(
+  db: DbClient,
+  accountId: string,
+  options?: { market?: string; asset?: string },
+  limit: number = 500
+): Promise<PaperTrade[]> {
+  let query = db
+    .from("paper_trades")
+    .select("*")
+    .eq("account_id", accountId);
+
+  if (options?.market) query = query.eq("market", options.market);
+  if (options?.asset) query = query.eq("asset_id", options.asset);
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list paper trades: ${error.message}`);
+  }
+
+  return (data as PaperTradeRow[]).map(toTrade);
+}
+
+/**
+ * Get the order book levels a paper account last matched a token against
+ */
+export async function getPaperBookSnapshot(
+  db: DbClient,
+  accountId: string,
+  assetId: string
+): Promise<{ bids: OrderBookLevel[]; asks: OrderBookLevel[] } | null> {
+  const { data, error } = await db
+    .from("paper_book_snapshots")
+    .select("*")
+    .eq("account_id", accountId)
+    .eq("asset_id", assetId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get paper book snapshot: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const row = data as PaperBookSnapshotRow;
+  return { bids: row.bids, asks: row.asks };
+}
+
+/**
+ * Save the order book levels a paper account matched a token against
+ */
+export async function savePaperBookSnapshot(
+  db: DbClient,
+  accountId: string,
+  assetId: string,
+  book: { bids: OrderBookLevel[]; asks: OrderBookLevel[] }
+): Promise<void> {
+  const { error } = await db
+    .from("paper_book_snapshots")
+    .upsert({
+      account_id: accountId,
+      asset_id: assetId,
+      bids: book.bids,
+      asks: book.asks,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "account_id,asset_id" });
+
+  if (error) {
+    throw new Error(`Failed to save paper book snapshot: ${error.message}`);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Portfolio
+ *
+ * Builds a wallet-wide view of every open position from the positions and
+ * activity endpoints: cost basis, current mark, unrealised PnL and resolution
+ * date, grouped by event. Positions without market details (paper positions)
+ * are filled in from Gamma.
+ */
+
+import type { PolymarketClient } from "./client.ts";
+import type {
+  Portfolio,
+  PortfolioEvent,
+  PortfolioPosition,
+  TokenMarketInfo,
+  WalletActivity,
+  WalletPosition,
+} from "./types.ts";
+
+// Positions below this size are dust left over from merges and redemptions
+const MIN_POSITION_SIZE = 0.01;
+
+function roundUsd(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pnlPercent(pnlUsd: number, costUsd: number): number {
+  return costUsd > 0 ? Math.round((pnlUsd / costUsd) * 10000) / 100 : 0;
+}
+
+/**
+ * Trade count and last trade time per token
+ */
+function summarizeActivity(activity: WalletActivity[]): Map<string, { trades: number; lastTradeAt: number }> {
+  const byAsset = new Map<string, { trades: number; lastTradeAt: number }>();
+
+  for (const trade of activity) {
+    const summary = byAsset.get(trade.asset);
+    if (summary) {
+      summary.trades++;
+      summary.lastTradeAt = Math.max(summary.lastTradeAt, trade.timestamp);
+    } else {
+      byAsset.set(trade.asset, { trades: 1, lastTradeAt: trade.timestamp });
+    }
+  }
+
+  return byAsset;
+}
+
+/**
+ * Value a position at its mark
+ */
+function toPortfolioPosition(
+  position: WalletPosition,
+  info: TokenMarketInfo | null,
+  activity: { trades: number; lastTradeAt: number } | undefined
+): PortfolioPosition {
+  const markPrice = position.curPrice ?? info?.price ?? null;
+  const costBasisUsd = roundUsd(position.size * position.avgPrice);
+  const currentValueUsd = markPrice !== null ? roundUsd(position.size * markPrice) : costBasisUsd;
+  const unrealizedPnlUsd = roundUsd(currentValueUsd - costBasisUsd);
+
+  return {
+    asset: position.asset,
+    conditionId: position.conditionId,
+    outcome: position.outcome || info?.outcome || "",
+    title: position.title || info?.question || position.conditionId,
+    slug: position.slug || info?.slug,
+    size: position.size,
+    avgPrice: position.avgPrice,
+    costBasisUsd,
+    markPrice,
+    currentValueUsd,
+    unrealizedPnlUsd,
+    unrealizedPnlPercent: pnlPercent(unrealizedPnlUsd, costBasisUsd),
+    endDate: position.endDate || info?.endDate,
+    redeemable: position.redeemable ?? info?.resolvedPrice !== undefined,
+    trades: activity?.trades ?? 0,
+    lastTradeAt: activity?.lastTradeAt,
+  };
+}
+
+/**
+ * Readable title from an event slug, e.g. "fed-decision-in-december" -> "Fed decision in december"
+ */
+function titleFromSlug(slug: string): string {
+  const words = slug.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Group positions by event, earliest resolution first
+ */
+function groupByEvent(
+  positions: Array<{ position: PortfolioPosition; eventSlug?: string; eventTitle?: string }>
+): PortfolioEvent[] {
+  const events = new Map<string, PortfolioEvent>();
+
+  for (const { position, eventSlug, eventTitle } of positions) {
+    const key = eventSlug || position.conditionId;
+    let event = events.get(key);
+    if (!event) {
+      event = {
+        eventSlug: key,
+        title: eventTitle || position.title,
+        endDate: position.endDate,
+        positions: [],
+        costBasisUsd: 0,
+        currentValueUsd: 0,
+        unrealizedPnlUsd: 0,
+      };
+      events.set(key, event);
+    }
+
+    // Without an event title, a market question only describes single-market events
+    if (!eventTitle && eventSlug && event.positions.some(p => p.conditionId !== position.conditionId)) {
+      event.title = titleFromSlug(eventSlug);
+    }
+
+    event.positions.push(position);
+    event.costBasisUsd = roundUsd(event.costBasisUsd + position.costBasisUsd);
+    event.currentValueUsd = roundUsd(event.currentValueUsd + position.currentValueUsd);
+    event.unrealizedPnlUsd = roundUsd(event.unrealizedPnlUsd + position.unrealizedPnlUsd);
+    if (position.endDate && (!event.endDate || position.endDate < event.endDate)) {
+      event.endDate = position.endDate;
+    }
+  }
+
+  const endTime = (event: PortfolioEvent) => event.endDate ? new Date(event.endDate).getTime() : Infinity;
+  return [...events.values()].sort((a, b) => endTime(a) - endTime(b));
+}
+
+/**
+ * Build the portfolio of the client's wallet
+ */
+export async function buildPortfolio(client: PolymarketClient): Promise<Portfolio> {
+  const positions = (await client.getPositions()).filter(p => p.size >= MIN_POSITION_SIZE);
+  const activity = summarizeActivity(await client.getActivity());
+
+  const valued: Array<{ position: PortfolioPosition; eventSlug?: string; eventTitle?: string }> = [];
+
+  for (const position of positions) {
+    // Live positions carry market details; look up the rest
+    const needsLookup = !position.eventSlug || position.curPrice === undefined || !position.title;
+    let info: TokenMarketInfo | null = null;
+    if (needsLookup) {
+      try {
+        info = await client.getTokenMarketInfo(position.asset);
+      } catch {
+        // Value at cost and group by market when Gamma is unavailable
+      }
+    }
+
+    valued.push({
+      position: toPortfolioPosition(position, info, activity.get(position.asset)),
+      eventSlug: position.eventSlug || info?.eventSlug,
+      eventTitle: info?.eventTitle,
+    });
+  }
+
+  const events = groupByEvent(valued);
+  const costBasisUsd = roundUsd(valued.reduce((sum, v) => sum + v.position.costBasisUsd, 0));
+  const currentValueUsd = roundUsd(valued.reduce((sum, v) => sum + v.position.currentValueUsd, 0));
+  const unrealizedPnlUsd = roundUsd(currentValueUsd - costBasisUsd);
+
+  return {
+    events,
+    totals: {
+      positions: valued.length,
+      events: events.length,
+      costBasisUsd,
+      currentValueUsd,
+      unrealizedPnlUsd,
+      unrealizedPnlPercent: pnlPercent(unrealizedPnlUsd, costBasisUsd),
+    },
+  };
+}
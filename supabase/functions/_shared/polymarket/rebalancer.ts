@@ -0,0 +1,230 @@
+/**
+ * Position Rebalancer
+ *
+ * Acts on one-sided (DIRECTIONAL_YES / DIRECTIONAL_NO) straddle positions:
+ * - HEDGE: cancel the missing side's resting orders, then buy it at the
+ *   highest price that still keeps pairCost (avg YES + avg NO) below a target
+ * - FLATTEN: sell the excess side at the best bid when hedging cannot
+ *   keep pairCost below target
+ */
+
+import type { PolymarketClient } from "./client.ts";
+import { createLogEntry } from "./utils.ts";
+import type {
+  BotLogEntry,
+  MarketPosition,
+  OrderResponse,
+  RebalancePlan,
+} from "./types.ts";
+
+// Default pair cost target - below the 0.995 PROFIT_LOCKED threshold
+export const DEFAULT_TARGET_PAIR_COST = 0.99;
+
+// 15-min up/down markets trade in 1 cent ticks with a 5 share minimum
+const TICK_SIZE = 0.01;
+const MIN_SHARES = 5;
+
+/**
+ * Rebalance mode
+ * - auto: hedge when possible, otherwise flatten
+ * - hedge: only hedge
+ * - flatten: only flatten
+ */
+export type RebalanceMode = "auto" | "hedge" | "flatten";
+
+/**
+ * Options for a rebalance
+ */
+export interface RebalanceOptions {
+  /** Rebalance mode. Default: auto */
+  mode?: RebalanceMode;
+  /** Pair cost to stay below when hedging. Default: 0.99 */
+  targetPairCost?: number;
+  /** Compute the plan without placing the order */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of a rebalance
+ */
+export interface RebalanceResult {
+  /** Plan that was computed */
+  plan: RebalancePlan;
+  /** Order placement result (absent for dry runs and NONE plans) */
+  order?: OrderResponse;
+  /** Log entries collected during the rebalance */
+  logs: BotLogEntry[];
+}
+
+/**
+ * Highest tick-aligned price for the missing side that keeps
+ * filledAvgPrice + price at or below targetPairCost
+ */
+export function calculateMaxHedgePrice(filledAvgPrice: number, targetPairCost: number): number {
+  const raw = targetPairCost - filledAvgPrice;
+  // Round down to the tick, guarding against float error (e.g. 0.99 - 0.48)
+  return Math.floor(Math.round(raw * 10000) / 10000 / TICK_SIZE) * TICK_SIZE;
+}
+
+/**
+ * Compute the rebalance plan for a position.
+ * bestBid is the excess side's best bid, needed to flatten.
+ */
+export function planRebalance(
+  position: MarketPosition,
+  mode: RebalanceMode,
+  targetPairCost: number,
+  bestBid?: number
+): RebalancePlan {
+  const isDirectionalYes = position.status === "DIRECTIONAL_YES";
+  const isDirectionalNo = position.status === "DIRECTIONAL_NO";
+
+  if (!isDirectionalYes && !isDirectionalNo) {
+    return {
+      action: "NONE",
+      shares: 0,
+      maxHedgePrice: null,
+      targetPairCost,
+      reason: `Position is ${position.status} - nothing to rebalance`,
+    };
+  }
+
+  const filled = isDirectionalYes ? position.yes : position.no;
+  const excessSide = isDirectionalYes ? "up" : "down";
+  const missingSide = isDirectionalYes ? "down" : "up";
+  const shares = Math.floor(filled.shares);
+  const maxHedgePrice = Math.round(calculateMaxHedgePrice(filled.avgPrice, targetPairCost) * 100) / 100;
+
+  if (shares < MIN_SHARES) {
+    return {
+      action: "NONE",
+      shares,
+      maxHedgePrice,
+      targetPairCost,
+      reason: `Excess of ${shares} shares is below the ${MIN_SHARES} share minimum`,
+    };
+  }
+
+  const canHedge = maxHedgePrice >= TICK_SIZE;
+
+  if (mode !== "flatten" && canHedge) {
+    return {
+      action: "HEDGE",
+      side: missingSide,
+      tokenId: position.tokenIds[missingSide],
+      orderSide: "BUY",
+      shares,
+      price: maxHedgePrice,
+      maxHedgePrice,
+      targetPairCost,
+      reason: `Buying ${missingSide === "up" ? "YES" : "NO"} at up to $${maxHedgePrice.toFixed(2)} keeps pairCost ≤ $${targetPairCost.toFixed(2)}`,
+    };
+  }
+
+  if (mode === "hedge") {
+    return {
+      action: "NONE",
+      shares,
+      maxHedgePrice,
+      targetPairCost,
+      reason: `Cannot hedge: filled side avg $${filled.avgPrice.toFixed(4)} leaves no room under pairCost $${targetPairCost.toFixed(2)}`,
+    };
+  }
+
+  if (!bestBid || bestBid < TICK_SIZE) {
+    return {
+      action: "NONE",
+      shares,
+      maxHedgePrice,
+      targetPairCost,
+      reason: "Cannot flatten: no bids for the excess side",
+    };
+  }
+
+  return {
+    action: "FLATTEN",
+    side: excessSide,
+    tokenId: position.tokenIds[excessSide],
+    orderSide: "SELL",
+    shares,
+    price: bestBid,
+    maxHedgePrice,
+    targetPairCost,
+    reason: canHedge
+      ? `Selling ${shares} ${excessSide === "up" ? "YES" : "NO"} shares at the best bid ($${bestBid.toFixed(2)})`
+      : `Hedging cannot keep pairCost ≤ $${targetPairCost.toFixed(2)} - selling ${shares} ${excessSide === "up" ? "YES" : "NO"} shares at the best bid ($${bestBid.toFixed(2)})`,
+  };
+}
+
+/**
+ * Plan and (unless dryRun) place the rebalance order for a position
+ */
+export async function rebalancePosition(
+  client: PolymarketClient,
+  position: MarketPosition,
+  options: RebalanceOptions = {}
+): Promise<RebalanceResult> {
+  const logs: BotLogEntry[] = [];
+  const mode = options.mode ?? "auto";
+  const targetPairCost = options.targetPairCost ?? DEFAULT_TARGET_PAIR_COST;
+
+  // Flattening sells into the excess side's best bid
+  let bestBid: number | undefined;
+  const maxHedgePrice = position.status === "DIRECTIONAL_YES"
+    ? calculateMaxHedgePrice(position.yes.avgPrice, targetPairCost)
+    : position.status === "DIRECTIONAL_NO"
+      ? calculateMaxHedgePrice(position.no.avgPrice, targetPairCost)
+      : null;
+  const mayFlatten = maxHedgePrice !== null && (mode === "flatten" || (mode === "auto" && maxHedgePrice < TICK_SIZE));
+
+  if (mayFlatten) {
+    const excessTokenId = position.status === "DIRECTIONAL_YES" ? position.tokenIds.up : position.tokenIds.down;
+    const book = await client.getOrderBook(excessTokenId);
+    logs.push(...client.getLogs());
+    client.clearLogs();
+    bestBid = book?.bids[0]?.price;
+  }
+
+  const plan = planRebalance(position, mode, targetPairCost, bestBid);
+  logs.push(createLogEntry(plan.action === "NONE" ? "INFO" : "WARN", `Rebalance plan: ${plan.action} - ${plan.reason}`, {
+    status: position.status,
+    maxHedgePrice: plan.maxHedgePrice,
+    targetPairCost,
+  }));
+
+  if (plan.action === "NONE" || options.dryRun || !plan.tokenId || !plan.orderSide || !plan.price) {
+    return { plan, logs };
+  }
+
+  // Resting ladder orders on the missing side would fill on top of the hedge
+  if (plan.action === "HEDGE") {
+    let notCanceled: Record<string, string>;
+    try {
+      const result = await client.cancelMarketOrders({ assetId: plan.tokenId });
+      notCanceled = result.notCanceled;
+      logs.push(createLogEntry("INFO", `Cancelled ${result.canceled.length} resting ${plan.side === "up" ? "YES" : "NO"} order(s) before hedging`));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      notCanceled = { [plan.tokenId]: errorMsg };
+    }
+    logs.push(...client.getLogs());
+    client.clearLogs();
+
+    if (Object.keys(notCanceled).length > 0) {
+      const errorMsg = `Not hedging while ${plan.side === "up" ? "YES" : "NO"} orders may still rest on the book: ${Object.values(notCanceled).join("; ")}`;
+      logs.push(createLogEntry("ERROR", errorMsg));
+      return { plan, order: { success: false, errorMsg }, logs };
+    }
+  }
+
+  const order = await client.placeOrder({
+    tokenId: plan.tokenId,
+    price: plan.price,
+    size: plan.shares,
+    side: plan.orderSide,
+  });
+  logs.push(...client.getLogs());
+  client.clearLogs();
+
+  return { plan, order, logs };
+}
@@ -29,6 +29,29 @@ export interface PolymarketMarket {
   startDate: string;
 }
 
+/**
+ * Market data for a single outcome token
+ */
+export interface TokenMarketInfo {
+  conditionId: string;
+  slug?: string;
+  question?: string;
+  outcome: string;
+  /** Current outcome price (0-1) */
+  price?: number;
+  endDate?: string;
+  /** Parent event */
+  eventSlug?: string;
+  eventTitle?: string;
+  closed: boolean;
+  /** Resolved price of the token (1 = won, 0 = lost) once the market is closed */
+  resolvedPrice?: number;
+  /** Minimum price increment (e.g. "0.01") */
+  tickSize?: string;
+  /** Whether this is a negative risk market */
+  negRisk?: boolean;
+}
+
 /**
  * Parsed token IDs for Up and Down outcomes
  */
@@ -50,6 +73,10 @@ export interface OrderArgs {
   price: number;
   size: number;
   side: OrderSideType;
+  /** Market tick size. Default: "0.01" (15-min up/down markets) */
+  tickSize?: string;
+  /** Whether the market is negative risk. Default: false */
+  negRisk?: boolean;
 }
 
 /**
@@ -102,10 +129,22 @@ export interface OpenOrder {
   size_matched: string;
   original_size: string;
   status: OrderStatus;
+  /** Outcome the order trades (e.g., "Up" / "Down") */
+  outcome?: string;
   created_at: number;
   expiration: number;
 }
 
+/**
+ * Result of a cancel request
+ */
+export interface CancelOrdersResult {
+  /** IDs of cancelled orders */
+  canceled: string[];
+  /** Orders that could not be cancelled, keyed by ID with the reason */
+  notCanceled: Record<string, string>;
+}
+
 /**
  * Trade/fill from CLOB API
  */
@@ -124,6 +163,42 @@ export interface Trade {
   transaction_hash?: string;
 }
 
+/**
+ * Position held by the wallet (Data API positions endpoint).
+ * Market details and marks are only present on live positions.
+ */
+export interface WalletPosition {
+  /** Outcome token ID */
+  asset: string;
+  size: number;
+  avgPrice: number;
+  outcome: string;
+  conditionId: string;
+  title?: string;
+  slug?: string;
+  eventSlug?: string;
+  /** Current outcome price (0-1) */
+  curPrice?: number;
+  endDate?: string;
+  /** Whether the market resolved and the position can be redeemed */
+  redeemable?: boolean;
+}
+
+/**
+ * Trade made by the wallet (Data API activity endpoint)
+ */
+export interface WalletActivity {
+  asset: string;
+  size: number;
+  price: number;
+  side: string;
+  outcome: string;
+  conditionId: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+  type: string;
+}
+
 /**
  * Position for a single side (YES or NO)
  */
@@ -185,3 +260,210 @@ export interface MarketPosition {
   /** Timestamp of last update */
   lastUpdated: string;
 }
+
+/**
+ * Post-placement order management settings
+ */
+export interface OrderManagementConfig {
+  /** Seconds before the market window opens at which all resting orders are cancelled */
+  cutoffSeconds: number;
+  /**
+   * Fill percentage (0-100) at which a side counts as filled. Once one side
+   * reaches it, that side's remaining resting orders are cancelled so the
+   * one-sided exposure stops growing while the other side catches up.
+   */
+  fillThresholdPercent: number;
+}
+
+/**
+ * An order placed by the bot that the order manager watches
+ */
+export interface ManagedOrder {
+  /** CLOB order ID */
+  orderId: string;
+  /** Side the order buys */
+  side: "up" | "down";
+  /** Price level as percentage */
+  pricePercent: number;
+}
+
+/**
+ * Why the order manager cancelled an order
+ * - CUTOFF: the cutoff before the window opened was reached
+ * - FILL_THRESHOLD: the order's side was filled beyond the threshold
+ * - STOPPED: the bot was stopped
+ */
+export type OrderCancelReason = "CUTOFF" | "FILL_THRESHOLD" | "STOPPED";
+
+/**
+ * An order cancelled by the order manager
+ */
+export interface CancelledOrder extends ManagedOrder {
+  /** Original order size in shares */
+  originalSize: number;
+  /** Shares filled before cancellation */
+  sizeMatched: number;
+  /** Why the order was cancelled */
+  reason: OrderCancelReason;
+}
+
+/**
+ * Result of one order management pass
+ */
+export interface OrderManagementResult {
+  /** Number of orders checked via getOrder */
+  checkedOrders: number;
+  /** Filled percentage of the Up side (0-100) */
+  upFillPercent: number;
+  /** Filled percentage of the Down side (0-100) */
+  downFillPercent: number;
+  /** Whether the cutoff before the window opened was reached */
+  cutoffReached: boolean;
+  /** Orders cancelled in this pass */
+  cancelled: CancelledOrder[];
+  /** Orders that could not be cancelled, with the reason */
+  notCancelled: Array<{ orderId: string; reason: string }>;
+  /** Whether no orders are left resting (nothing more to manage) */
+  finalized: boolean;
+}
+
+/**
+ * Price level in a CLOB order book
+ */
+export interface OrderBookLevel {
+  price: number;
+  size: number;
+}
+
+/**
+ * CLOB order book for a token (bids best-first, asks best-first)
+ */
+export interface OrderBook {
+  tokenId: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+/**
+ * Rebalance action for a one-sided position
+ * - HEDGE: buy the missing side at or below the max price that keeps pairCost under target
+ * - FLATTEN: sell the excess side
+ * - NONE: nothing to do (position is not directional or no order is possible)
+ */
+export type RebalanceAction = "HEDGE" | "FLATTEN" | "NONE";
+
+/**
+ * Rebalance plan for a market position
+ */
+export interface RebalancePlan {
+  /** Action to take */
+  action: RebalanceAction;
+  /** Side the order trades (HEDGE: missing side, FLATTEN: excess side) */
+  side?: "up" | "down";
+  /** Token the order trades */
+  tokenId?: string;
+  /** Order side */
+  orderSide?: OrderSideType;
+  /** Shares to trade */
+  shares: number;
+  /** Limit price (decimal) */
+  price?: number;
+  /** Max price for the missing side that keeps pairCost under target (null if not directional) */
+  maxHedgePrice: number | null;
+  /** Target pair cost */
+  targetPairCost: number;
+  /** Why this action was chosen */
+  reason: string;
+}
+
+/**
+ * Paper trading options (simulated execution, no private key or funds needed)
+ */
+export interface PaperTradingOptions {
+  /** Paper account to trade on (default: "default") */
+  accountId?: string;
+  /** Virtual USDC balance a new account starts with (default: 1000) */
+  startingBalanceUsd?: number;
+  /** Recorded order books keyed by token ID, used instead of fetching the live book */
+  books?: Record<string, OrderBook>;
+}
+
+/**
+ * Paper trading account
+ */
+export interface PaperAccount {
+  id: string;
+  startingBalanceUsd: number;
+  /** Cash balance (USDC) */
+  balanceUsd: number;
+  /** Cash reserved by resting BUY orders */
+  reservedUsd: number;
+}
+
+/**
+ * Open position with its mark and unrealised PnL
+ */
+export interface PortfolioPosition {
+  /** Outcome token ID */
+  asset: string;
+  conditionId: string;
+  outcome: string;
+  title: string;
+  slug?: string;
+  /** Shares held */
+  size: number;
+  /** Average entry price (0-1) */
+  avgPrice: number;
+  /** size × avgPrice */
+  costBasisUsd: number;
+  /** Current outcome price (0-1), null if no mark is available */
+  markPrice: number | null;
+  /** size × markPrice (cost basis when unmarked) */
+  currentValueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPercent: number;
+  /** Market resolution date (ISO) */
+  endDate?: string;
+  /** Market resolved; the position is waiting to be redeemed */
+  redeemable: boolean;
+  /** Trades in the wallet activity for this token */
+  trades: number;
+  /** Unix timestamp (seconds) of the last trade */
+  lastTradeAt?: number;
+}
+
+/**
+ * Positions grouped by event
+ */
+export interface PortfolioEvent {
+  /** Event slug (the market's condition ID when the event is unknown) */
+  eventSlug: string;
+  title: string;
+  /** Earliest resolution date of the event's markets */
+  endDate?: string;
+  positions: PortfolioPosition[];
+  costBasisUsd: number;
+  currentValueUsd: number;
+  unrealizedPnlUsd: number;
+}
+
+/**
+ * Portfolio-wide totals
+ */
+export interface PortfolioTotals {
+  positions: number;
+  events: number;
+  costBasisUsd: number;
+  currentValueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPercent: number;
+}
+
+/**
+ * Every open position of the wallet, grouped by event
+ */
+export interface Portfolio {
+  /** Events sorted by the earliest resolution date */
+  events: PortfolioEvent[];
+  totals: PortfolioTotals;
+}
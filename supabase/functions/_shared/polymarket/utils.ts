@@ -2,7 +2,7 @@
  * Polymarket Utility Functions
  */
 
-import type { SupportedAsset, BotLogEntry } from "./types.ts";
+import type { SupportedAsset, BotLogEntry, SidePosition, PairStatus } from "./types.ts";
 
 /**
  * Asset slug prefixes for 15-minute up/down markets
@@ -58,3 +58,37 @@ export function parseTokenIds(clobTokenIdsStr: string): [string, string] {
   // First token is Up, second is Down (based on outcomes: ["Up", "Down"])
   return [tokenIds[0], tokenIds[1]];
 }
+
+/**
+ * Determine pair status based on positions
+ */
+export function determinePairStatus(yes: SidePosition, no: SidePosition): PairStatus {
+  const hasYes = yes.shares > 0;
+  const hasNo = no.shares > 0;
+
+  if (!hasYes && !hasNo) {
+    if (yes.pendingShares > 0 || no.pendingShares > 0) {
+      return "PENDING";
+    }
+    return "NO_POSITION";
+  }
+
+  if (hasYes && !hasNo) {
+    return "DIRECTIONAL_YES";
+  }
+
+  if (!hasYes && hasNo) {
+    return "DIRECTIONAL_NO";
+  }
+
+  // Both sides have shares - check pair cost
+  const pairCost = yes.avgPrice + no.avgPrice;
+
+  if (pairCost < 0.995) {
+    return "PROFIT_LOCKED";
+  } else if (pairCost <= 1.005) {
+    return "BREAK_EVEN";
+  } else {
+    return "LOSS_RISK";
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Agent Preset Store
+ *
+ * Database access for the agent_presets table (saved Super Intelligence agent
+ * teams) and validation of imported preset JSON.
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type {
+  AgentPreset,
+  AgentPresetExport,
+  PresetAgent,
+  PresetAgentTool,
+  PresetAggregator,
+} from "./types.ts";
+
+const VALID_TOOLS: PresetAgentTool[] = ["x_search", "web_search", "polyfactual", "x402"];
+const MAX_AGENTS = 10;
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * agent_presets row
+ */
+interface AgentPresetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  agents: PresetAgent[];
+  aggregator: PresetAggregator | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function toAgentPreset(row: AgentPresetRow): AgentPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    agents: row.agents,
+    aggregator: row.aggregator ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Validate a preset (save or import), returning the first problem found
+ */
+export function validatePreset(preset: AgentPresetExport): string | null {
+  if (!preset || typeof preset !== "object") return "Missing preset";
+  if (typeof preset.name !== "string" || !preset.name.trim()) return "Preset name is required";
+  if (preset.name.trim().length > MAX_NAME_LENGTH) return `Preset name must be at most ${MAX_NAME_LENGTH} characters`;
+  if (!Array.isArray(preset.agents) || preset.agents.length === 0) return "Preset needs at least one agent";
+  if (preset.agents.length > MAX_AGENTS) return `Preset can have at most ${MAX_AGENTS} agents`;
+
+  for (const [i, agent] of preset.agents.entries()) {
+    const label = `Agent ${i + 1}`;
+    if (!agent || typeof agent !== "object") return `${label} is invalid`;
+    if (agent.tools !== undefined && (!Array.isArray(agent.tools) || agent.tools.some(t => !VALID_TOOLS.includes(t)))) {
+      return `${label} has invalid tools. Valid tools: ${VALID_TOOLS.join(", ")}`;
+    }
+
+    const isX402 = agent.tools?.includes("x402") === true;
+    if (isX402 && (!agent.x402Seller?.id || !agent.x402Seller.network)) {
+      return `${label} uses x402 but has no PayAI seller`;
+    }
+    if (!isX402 && (typeof agent.model !== "string" || !agent.model)) {
+      return `${label} needs a model`;
+    }
+  }
+
+  if (preset.aggregator !== undefined && (typeof preset.aggregator?.model !== "string")) {
+    return "Aggregator needs a model";
+  }
+
+  return null;
+}
+
+/**
+ * Strip a validated preset down to the stored fields
+ */
+function toRowFields(preset: AgentPresetExport) {
+  return {
+    name: preset.name.trim(),
+    description: preset.description?.trim() || null,
+    agents: preset.agents.map(agent => ({
+      model: agent.model || "",
+      tools: agent.tools?.length ? agent.tools : undefined,
+      userCommand: agent.userCommand?.trim() || undefined,
+      x402Seller: agent.tools?.includes("x402") ? agent.x402Seller : undefined,
+    })),
+    aggregator: preset.aggregator?.model ? { model: preset.aggregator.model } : null,
+  };
+}
+
+/**
+ * Portable JSON for a saved preset
+ */
+export function toPresetExport(preset: AgentPreset): AgentPresetExport {
+  return {
+    version: 1,
+    name: preset.name,
+    description: preset.description,
+    agents: preset.agents,
+    aggregator: preset.aggregator,
+  };
+}
+
+/**
+ * List presets by name
+ */
+export async function listPresets(db: DbClient): Promise<AgentPreset[]> {
+  const { data, error } = await db
+    .from("agent_presets")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list presets: ${error.message}`);
+  }
+
+  return (data as AgentPresetRow[]).map(toAgentPreset);
+}
+
+/**
+ * Get a preset. Returns null if it does not exist.
+ */
+export async function getPreset(db: DbClient, id: string): Promise<AgentPreset | null> {
+  const { data, error } = await db
+    .from("agent_presets")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get preset: ${error.message}`);
+  }
+
+  return data ? toAgentPreset(data as AgentPresetRow) : null;
+}
+
+/**
+ * Create a preset
+ */
+export async function createPreset(db: DbClient, preset: AgentPresetExport): Promise<AgentPreset> {
+  const { data, error } = await db
+    .from("agent_presets")
+    .insert(toRowFields(preset))
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create preset: ${error.message}`);
+  }
+
+  return toAgentPreset(data as AgentPresetRow);
+}
+
+/**
+ * Overwrite a preset. Returns null if it does not exist.
+ */
+export async function updatePreset(
+  db: DbClient,
+  id: string,
+  preset: AgentPresetExport
+): Promise<AgentPreset | null> {
+  const { data, error } = await db
+    .from("agent_presets")
+    .update({ ...toRowFields(preset), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update preset: ${error.message}`);
+  }
+
+  return data ? toAgentPreset(data as AgentPresetRow) : null;
+}
+
+/**
+ * Delete a preset. Returns false if it does not exist.
+ */
+export async function deletePreset(db: DbClient, id: string): Promise<boolean> {
+  const { data, error } = await db
+    .from("agent_presets")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete preset: ${error.message}`);
+  }
+
+  return (data as { id: string }[]).length > 0;
+}
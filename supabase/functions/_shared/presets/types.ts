@@ -0,0 +1,59 @@
+/**
+ * Type definitions for agent team presets
+ */
+
+/** Tools an agent can use */
+export type PresetAgentTool = "x_search" | "web_search" | "polyfactual" | "x402";
+
+/**
+ * PayAI seller used by an x402 agent
+ */
+export interface PresetX402Seller {
+  /** Seller ID (resource URL) */
+  id: string;
+  name: string;
+  priceUsdc: string;
+  network: string;
+}
+
+/**
+ * One agent of a team (the saved part of the terminal's AgentConfig)
+ */
+export interface PresetAgent {
+  /** Model; empty for x402 agents */
+  model: string;
+  tools?: PresetAgentTool[];
+  userCommand?: string;
+  x402Seller?: PresetX402Seller;
+}
+
+/**
+ * Bookmaker aggregator settings
+ */
+export interface PresetAggregator {
+  model: string;
+}
+
+/**
+ * Saved agent team
+ */
+export interface AgentPreset {
+  id: string;
+  name: string;
+  description?: string;
+  agents: PresetAgent[];
+  aggregator?: PresetAggregator;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Portable preset JSON (export / import)
+ */
+export interface AgentPresetExport {
+  version: 1;
+  name: string;
+  description?: string;
+  agents: PresetAgent[];
+  aggregator?: PresetAggregator;
+}
@@ -0,0 +1,63 @@
+/**
+ * Wallet Tracking history types
+ */
+
+/**
+ * Order event of a tracked wallet (Dome WebSocket)
+ */
+export interface WalletOrderEvent {
+  token_id: string;
+  /** Outcome of the token (Yes / No / Up / ...) */
+  token_label?: string;
+  side: "BUY" | "SELL";
+  market_slug: string;
+  condition_id: string;
+  shares: string;
+  shares_normalized: number;
+  price: number;
+  tx_hash: string;
+  title: string;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+  order_hash: string;
+  user: string;
+}
+
+/**
+ * Recorded order of a tracked wallet
+ */
+export interface WalletOrder {
+  id: string;
+  wallet: string;
+  orderHash: string;
+  txHash?: string;
+  side: "BUY" | "SELL";
+  tokenId: string;
+  conditionId: string;
+  marketSlug?: string;
+  title?: string;
+  outcome?: string;
+  price: number;
+  shares: number;
+  /** When the order was placed (ISO) */
+  orderedAt: string;
+  createdAt: string;
+}
+
+/**
+ * History filters
+ */
+export interface WalletOrderFilter {
+  /** Wallet addresses (any case); all recorded wallets when empty */
+  wallets?: string[];
+  /** Orders placed at or after this time (ISO) */
+  from?: string;
+  /** Orders placed before this time (ISO) */
+  to?: string;
+  /** Condition ID, or a fragment of the market slug or title */
+  market?: string;
+  /** Maximum number of orders. Default: 500 */
+  limit?: number;
+  /** Oldest first (for replay). Default: newest first */
+  ascending?: boolean;
+}
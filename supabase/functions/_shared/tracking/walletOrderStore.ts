@@ -0,0 +1,156 @@
+/**
+ * Wallet Order Store
+ *
+ * Database access for the orders of tracked wallets (wallet_orders table).
+ */
+
+import type { DbClient } from "../db/client.ts";
+import type { WalletOrder, WalletOrderEvent, WalletOrderFilter } from "./types.ts";
+
+export const DEFAULT_HISTORY_LIMIT = 500;
+export const MAX_HISTORY_LIMIT = 5000;
+
+const CONDITION_ID_PATTERN = /^0x[a-fA-F0-9]{64}$/;
+
+/**
+ * wallet_orders row
+ */
+interface WalletOrderRow {
+  id: string;
+  wallet: string;
+  order_hash: string;
+  tx_hash: string | null;
+  side: "BUY" | "SELL";
+  token_id: string;
+  condition_id: string;
+  market_slug: string | null;
+  title: string | null;
+  outcome: string | null;
+  price: number;
+  shares: number;
+  ordered_at: string;
+  created_at: string;
+}
+
+function toWalletOrder(row: WalletOrderRow): WalletOrder {
+  return {
+    id: row.id,
+    wallet: row.wallet,
+    orderHash: row.order_hash,
+    txHash: row.tx_hash ?? undefined,
+    side: row.side,
+    tokenId: row.token_id,
+    conditionId: row.condition_id,
+    marketSlug: row.market_slug ?? undefined,
+    title: row.title ?? undefined,
+    outcome: row.outcome ?? undefined,
+    price: Number(row.price),
+    shares: Number(row.shares),
+    orderedAt: row.ordered_at,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Validate an order event, returning the first problem found
+ */
+export function validateWalletOrderEvent(order: WalletOrderEvent): string | null {
+  if (!order || typeof order !== "object") return "Missing order";
+  if (!order.order_hash) return "Order has no order_hash";
+  if (!order.user) return "Order has no user";
+  if (!order.token_id || !order.condition_id) return "Order has no token_id or condition_id";
+  if (order.side !== "BUY" && order.side !== "SELL") return "Order side must be BUY or SELL";
+  if (typeof order.price !== "number" || typeof order.shares_normalized !== "number") return "Order price and shares_normalized must be numbers";
+  return null;
+}
+
+/**
+ * Record orders, ignoring the ones already recorded. Returns how many were new.
+ */
+export async function recordWalletOrders(db: DbClient, orders: WalletOrderEvent[]): Promise<number> {
+  if (orders.length === 0) return 0;
+
+  const rows = orders.map(order => {
+    // Dome timestamps are in seconds
+    const timestampMs = order.timestamp < 1e12 ? order.timestamp * 1000 : order.timestamp;
+    return {
+      wallet: order.user.toLowerCase(),
+      order_hash: order.order_hash,
+      tx_hash: order.tx_hash || null,
+      side: order.side,
+      token_id: order.token_id,
+      condition_id: order.condition_id,
+      market_slug: order.market_slug || null,
+      title: order.title || null,
+      outcome: order.token_label || null,
+      price: order.price,
+      shares: order.shares_normalized,
+      ordered_at: new Date(timestampMs || Date.now()).toISOString(),
+    };
+  });
+
+  const { data, error } = await db
+    .from("wallet_orders")
+    .upsert(rows, { onConflict: "wallet,order_hash", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to record wallet orders: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * List recorded orders, newest first unless ascending
+ */
+export async function listWalletOrders(db: DbClient, filter: WalletOrderFilter): Promise<WalletOrder[]> {
+  let query = db
+    .from("wallet_orders")
+    .select("*");
+
+  if (filter.wallets && filter.wallets.length > 0) {
+    query = query.in("wallet", filter.wallets.map(w => w.toLowerCase()));
+  }
+  if (filter.from) query = query.gte("ordered_at", filter.from);
+  if (filter.to) query = query.lt("ordered_at", filter.to);
+
+  const market = filter.market?.trim();
+  if (market) {
+    if (CONDITION_ID_PATTERN.test(market)) {
+      query = query.eq("condition_id", market.toLowerCase());
+    } else {
+      // Commas and parentheses would break the or() filter
+      const fragment = market.replace(/[,()*%]/g, " ");
+      query = query.or(`market_slug.ilike.*${fragment}*,title.ilike.*${fragment}*`);
+    }
+  }
+
+  const limit = Math.min(Math.max(filter.limit || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+  const { data, error } = await query
+    .order("ordered_at", { ascending: !!filter.ascending })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to list wallet orders: ${error.message}`);
+  }
+
+  return (data as WalletOrderRow[]).map(toWalletOrder);
+}
+
+/**
+ * Delete the recorded orders of a wallet. Returns how many were deleted.
+ */
+export async function deleteWalletOrders(db: DbClient, wallet: string): Promise<number> {
+  const { data, error } = await db
+    .from("wallet_orders")
+    .delete()
+    .eq("wallet", wallet.toLowerCase())
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to delete wallet orders: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
@@ -0,0 +1,202 @@
+/**
+ * Supabase Edge Function: agent-battles
+ *
+ * Agent Battles: head-to-head tournaments between agent configurations on the
+ * same live markets. Contestants are run through event-analysis-agent by the
+ * caller; their predictions resolve through the calibration sync and are
+ * scored here. Provides the following actions:
+ * 1. create    - Create a battle
+ * 2. finish    - Mark a battle's run as completed or failed
+ * 3. list      - Battle history with scoreboards
+ * 4. get       - One battle with its scoreboard and predictions
+ * 5. delete    - Delete a battle
+ * 6. sync      - Check unresolved battle predictions for market resolution
+ * 7. standings - Standings of every agent configuration across battles
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import {
+  createBattle,
+  deleteBattle,
+  finishBattle,
+  getBattle,
+  listBattles,
+  validateBattle,
+} from "../_shared/battles/battleStore.ts";
+import { buildStandings, scoreBattle } from "../_shared/battles/scoring.ts";
+import { listBattlePredictions, listUnresolvedPredictions } from "../_shared/calibration/predictionStore.ts";
+import { syncPredictions, type PredictionSyncResult } from "../_shared/calibration/sync.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { AgentBattlesRequest, AgentBattlesResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Battles considered by the standings
+const STANDINGS_BATTLE_LIMIT = 500;
+// Unresolved predictions checked per sync
+const SYNC_PREDICTION_LIMIT = 100;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: AgentBattlesResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Check the least recently checked unresolved predictions of one battle, or of every battle
+ */
+async function syncBattles(db: DbClient, logs: BotLogEntry[], battleId?: string): Promise<PredictionSyncResult> {
+  const predictions = await listUnresolvedPredictions(db, SYNC_PREDICTION_LIMIT, { battleId, battlesOnly: true });
+  const result = await syncPredictions(db, predictions);
+
+  logs.push(createLogEntry("SUCCESS", `Checked ${result.checked} of ${predictions.length} unresolved battle prediction(s)`, {
+    resolved: result.resolved,
+    errors: result.errors.length,
+  }));
+  for (const { id, error } of result.errors) {
+    logs.push(createLogEntry("WARN", `Failed to check prediction ${id}: ${error}`));
+  }
+
+  return result;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: AgentBattlesRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action, battleId, battle } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "create": {
+        if (!battle) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'battle'", logs }, 400);
+        }
+
+        const validationError = validateBattle(battle);
+        if (validationError) {
+          return jsonResponse({ success: false, error: validationError, logs }, 400);
+        }
+
+        const created = await createBattle(db, battle);
+        logs.push(createLogEntry("SUCCESS", `Created battle "${created.name}"`, {
+          battleId: created.id,
+          contestants: created.contestants.length,
+        }));
+        return jsonResponse({ success: true, battle: created, logs });
+      }
+
+      case "finish": {
+        if (!battleId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'battleId'", logs }, 400);
+        }
+
+        const finished = await finishBattle(db, battleId, requestBody.error);
+        if (!finished) {
+          return jsonResponse({ success: false, error: `Battle not found: ${battleId}`, logs }, 404);
+        }
+        logs.push(createLogEntry(finished.error ? "WARN" : "SUCCESS", `Battle "${finished.name}" ${finished.status}`, {
+          battleId,
+          error: finished.error,
+        }));
+        return jsonResponse({ success: true, battle: finished, logs });
+      }
+
+      case "list": {
+        const sync = requestBody.sync ? await syncBattles(db, logs) : undefined;
+        const battles = await listBattles(db, Math.min(Math.max(requestBody.limit || 20, 1), 100));
+        const predictions = await listBattlePredictions(db, battles.map(b => b.id));
+        return jsonResponse({ success: true, battles: battles.map(b => scoreBattle(b, predictions)), sync, logs });
+      }
+
+      case "get": {
+        if (!battleId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'battleId'", logs }, 400);
+        }
+
+        const found = await getBattle(db, battleId);
+        if (!found) {
+          return jsonResponse({ success: false, error: `Battle not found: ${battleId}`, logs }, 404);
+        }
+
+        const sync = requestBody.sync ? await syncBattles(db, logs, found.id) : undefined;
+        const predictions = await listBattlePredictions(db, [found.id]);
+        return jsonResponse({ success: true, battle: scoreBattle(found, predictions), predictions, sync, logs });
+      }
+
+      case "delete": {
+        if (!battleId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'battleId'", logs }, 400);
+        }
+
+        const deleted = await deleteBattle(db, battleId);
+        if (!deleted) {
+          return jsonResponse({ success: false, error: `Battle not found: ${battleId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("SUCCESS", `Deleted battle ${battleId}`));
+        return jsonResponse({ success: true, logs });
+      }
+
+      case "sync": {
+        const sync = await syncBattles(db, logs, battleId);
+        return jsonResponse({ success: true, sync, logs });
+      }
+
+      case "standings": {
+        const sync = requestBody.sync ? await syncBattles(db, logs) : undefined;
+        const battles = await listBattles(db, STANDINGS_BATTLE_LIMIT);
+        const predictions = await listBattlePredictions(db);
+        const standings = buildStandings(battles.map(b => scoreBattle(b, predictions)), predictions);
+        return jsonResponse({ success: true, standings, sync, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'create', 'finish', 'list', 'get', 'delete', 'sync', 'standings'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
@@ -0,0 +1,61 @@
+/**
+ * Type definitions for agent-battles edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { Prediction } from "../_shared/calibration/types.ts";
+import type { PredictionSyncResult } from "../_shared/calibration/sync.ts";
+import type { AgentBattle, BattleResult, BattleStanding, NewBattle } from "../_shared/battles/types.ts";
+
+/**
+ * Agent battle actions
+ * - create:    create a battle; the caller then runs each contestant through
+ *              event-analysis-agent with calibration { battleId, contestant }
+ * - finish:    mark the battle's run as completed (or failed with an error)
+ * - list:      battle history with scoreboards, newest first
+ * - get:       one battle with its scoreboard and predictions
+ * - delete:    delete a battle and its predictions
+ * - sync:      check unresolved battle predictions for market resolution
+ * - standings: standings of every agent configuration across battles
+ */
+export type AgentBattlesAction = "create" | "finish" | "list" | "get" | "delete" | "sync" | "standings";
+
+/**
+ * Request body for agent battles
+ */
+export interface AgentBattlesRequest {
+  /** Action to perform */
+  action: AgentBattlesAction;
+  /** Battle ID (finish, get, delete, sync) */
+  battleId?: string;
+  /** Battle to create (create) */
+  battle?: NewBattle;
+  /** Error that stopped the run (finish) */
+  error?: string;
+  /** Maximum number of battles to return (list). Default: 20 */
+  limit?: number;
+  /** Sync unresolved predictions first (get, list, standings) */
+  sync?: boolean;
+}
+
+/**
+ * Response from agent battles
+ */
+export interface AgentBattlesResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Created / finished battle (create, finish) */
+  battle?: AgentBattle | BattleResult;
+  /** Battle history (list) */
+  battles?: BattleResult[];
+  /** Battle predictions (get) */
+  predictions?: Prediction[];
+  /** Standings across battles (standings) */
+  standings?: BattleStanding[];
+  /** Sync summary (sync, or with sync) */
+  sync?: PredictionSyncResult;
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
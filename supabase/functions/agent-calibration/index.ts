@@ -0,0 +1,131 @@
+/**
+ * Supabase Edge Function: agent-calibration
+ *
+ * Calibration tracking for Super Intelligence agents: every agent and
+ * bookmaker prediction is recorded and scored against the market outcome.
+ * Provides the following actions:
+ * 1. list        - List recorded predictions
+ * 2. sync        - Check unresolved predictions for market resolution
+ * 3. leaderboard - Brier score, log loss, hit rate and calibration curve
+ *                  by model, agent preset and tool set
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import { listPredictions, listUnresolvedPredictions } from "../_shared/calibration/predictionStore.ts";
+import { syncPredictions, type PredictionSyncResult } from "../_shared/calibration/sync.ts";
+import { buildCalibrationReport } from "../_shared/calibration/metrics.ts";
+import { listPresets } from "../_shared/presets/presetStore.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { AgentCalibrationRequest, AgentCalibrationResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Predictions considered by the leaderboard
+const LEADERBOARD_PREDICTION_LIMIT = 5000;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: AgentCalibrationResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Check the least recently checked unresolved predictions
+ */
+async function syncUnresolved(db: DbClient, limit: number, logs: BotLogEntry[]): Promise<PredictionSyncResult> {
+  const predictions = await listUnresolvedPredictions(db, limit);
+  const result = await syncPredictions(db, predictions);
+
+  logs.push(createLogEntry("SUCCESS", `Checked ${result.checked} of ${predictions.length} unresolved prediction(s)`, {
+    resolved: result.resolved,
+    errors: result.errors.length,
+  }));
+  for (const { id, error } of result.errors) {
+    logs.push(createLogEntry("WARN", `Failed to check prediction ${id}: ${error}`));
+  }
+
+  return result;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: AgentCalibrationRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action, filter, limit } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const predictions = await listPredictions(db, filter, Math.min(Math.max(limit || 200, 1), 1000));
+        return jsonResponse({ success: true, predictions, logs });
+      }
+
+      case "sync": {
+        const sync = await syncUnresolved(db, Math.min(Math.max(limit || 100, 1), 500), logs);
+        return jsonResponse({ success: true, sync, logs });
+      }
+
+      case "leaderboard": {
+        const sync = requestBody.sync ? await syncUnresolved(db, 100, logs) : undefined;
+        const predictions = await listPredictions(db, filter, LEADERBOARD_PREDICTION_LIMIT);
+        const report = buildCalibrationReport(predictions);
+
+        // Presets are grouped by ID; label them with their current names
+        const presetNames = new Map((await listPresets(db)).map(p => [p.id, p.name]));
+        for (const group of report.byPreset) {
+          group.label = presetNames.get(group.key);
+        }
+
+        return jsonResponse({ success: true, report, sync, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'sync', 'leaderboard'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
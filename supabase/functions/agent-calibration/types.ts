@@ -0,0 +1,47 @@
+/**
+ * Type definitions for agent-calibration edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { CalibrationReport, Prediction, PredictionFilter } from "../_shared/calibration/types.ts";
+import type { PredictionSyncResult } from "../_shared/calibration/sync.ts";
+
+/**
+ * Agent calibration actions
+ * - list:        list recorded predictions, newest first
+ * - sync:        check unresolved predictions for market resolution
+ * - leaderboard: Brier score, log loss, hit rate and calibration curve by model, preset and tool set
+ */
+export type AgentCalibrationAction = "list" | "sync" | "leaderboard";
+
+/**
+ * Request body for agent calibration
+ */
+export interface AgentCalibrationRequest {
+  /** Action to perform */
+  action: AgentCalibrationAction;
+  /** Prediction filters (list, leaderboard) */
+  filter?: PredictionFilter;
+  /** Maximum number of predictions to return (list) or check (sync). Default: 200 / 100 */
+  limit?: number;
+  /** Sync unresolved predictions before building the leaderboard (leaderboard) */
+  sync?: boolean;
+}
+
+/**
+ * Response from agent calibration
+ */
+export interface AgentCalibrationResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Predictions (list) */
+  predictions?: Prediction[];
+  /** Calibration leaderboard (leaderboard) */
+  report?: CalibrationReport;
+  /** Sync summary (sync, or leaderboard with sync) */
+  sync?: PredictionSyncResult;
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
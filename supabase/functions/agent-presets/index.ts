@@ -0,0 +1,153 @@
+/**
+ * Supabase Edge Function: agent-presets
+ *
+ * Saved Super Intelligence agent teams (models, tools, user commands, PayAI
+ * seller and aggregator model). Provides the following actions:
+ * 1. list   - List saved presets
+ * 2. get    - Get a preset and its portable JSON (export)
+ * 3. save   - Create a preset, or overwrite an existing one
+ * 4. delete - Delete a preset
+ * 5. import - Create a preset from exported JSON
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import {
+  createPreset,
+  deletePreset,
+  getPreset,
+  listPresets,
+  toPresetExport,
+  updatePreset,
+  validatePreset,
+} from "../_shared/presets/presetStore.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { AgentPresetsRequest, AgentPresetsResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: AgentPresetsResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: AgentPresetsRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action, presetId, preset } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const presets = await listPresets(db);
+        return jsonResponse({ success: true, presets, logs });
+      }
+
+      case "get": {
+        if (!presetId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'presetId'", logs }, 400);
+        }
+
+        const found = await getPreset(db, presetId);
+        if (!found) {
+          return jsonResponse({ success: false, error: `Preset not found: ${presetId}`, logs }, 404);
+        }
+        return jsonResponse({ success: true, preset: found, export: toPresetExport(found), logs });
+      }
+
+      case "save":
+      case "import": {
+        if (!preset) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'preset'", logs }, 400);
+        }
+        if (action === "import" && preset.version !== 1) {
+          return jsonResponse({ success: false, error: `Unsupported preset version: ${preset.version}`, logs }, 400);
+        }
+
+        const validationError = validatePreset(preset);
+        if (validationError) {
+          return jsonResponse({ success: false, error: validationError, logs }, 400);
+        }
+
+        // Imports always create a new preset
+        if (action === "save" && presetId) {
+          const updated = await updatePreset(db, presetId, preset);
+          if (!updated) {
+            return jsonResponse({ success: false, error: `Preset not found: ${presetId}`, logs }, 404);
+          }
+          logs.push(createLogEntry("SUCCESS", `Updated preset "${updated.name}"`, { presetId: updated.id }));
+          return jsonResponse({ success: true, preset: updated, logs });
+        }
+
+        const created = await createPreset(db, preset);
+        logs.push(createLogEntry("SUCCESS", `${action === "import" ? "Imported" : "Saved"} preset "${created.name}"`, {
+          presetId: created.id,
+          agents: created.agents.length,
+        }));
+        return jsonResponse({ success: true, preset: created, logs });
+      }
+
+      case "delete": {
+        if (!presetId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'presetId'", logs }, 400);
+        }
+
+        const deleted = await deletePreset(db, presetId);
+        if (!deleted) {
+          return jsonResponse({ success: false, error: `Preset not found: ${presetId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("SUCCESS", `Deleted preset ${presetId}`));
+        return jsonResponse({ success: true, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'get', 'save', 'delete', 'import'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
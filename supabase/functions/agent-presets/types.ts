@@ -0,0 +1,46 @@
+/**
+ * Type definitions for agent-presets edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { AgentPreset, AgentPresetExport } from "../_shared/presets/types.ts";
+
+/**
+ * Agent preset actions
+ * - list:   list saved presets
+ * - get:    get a preset and its portable JSON
+ * - save:   create a preset, or overwrite it when presetId is given
+ * - delete: delete a preset
+ * - import: create a preset from exported JSON
+ */
+export type AgentPresetsAction = "list" | "get" | "save" | "delete" | "import";
+
+/**
+ * Request body for agent presets
+ */
+export interface AgentPresetsRequest {
+  /** Action to perform */
+  action: AgentPresetsAction;
+  /** Preset ID (get, delete; save to overwrite) */
+  presetId?: string;
+  /** Preset to save or import (save, import) */
+  preset?: AgentPresetExport;
+}
+
+/**
+ * Response from agent presets
+ */
+export interface AgentPresetsResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Saved presets (list) */
+  presets?: AgentPreset[];
+  /** The preset (get, save, import) */
+  preset?: AgentPreset;
+  /** Portable JSON of the preset (get) */
+  export?: AgentPresetExport;
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -0,0 +1,323 @@
+/**
+ * Supabase Edge Function: arbitrage-executor
+ *
+ * One-click execution of an arbitrage found by arbitrage-finder. Provides the
+ * following actions:
+ * 1. execute - Buy the Kalshi leg, then the Polymarket leg for what filled,
+ *              unwinding unpaired Kalshi contracts, and record the position
+ * 2. list    - List recorded positions
+ *
+ * Requires POLYMARKET_WALLET_PRIVATE_KEY, POLYMARKET_PROXY_WALLET_ADDRESS,
+ * KALSHI_API_KEY_ID and KALSHI_PRIVATE_KEY. The filled buy legs and any unwind
+ * are recorded in the trade journal.
+ */
+
+import { calculateArbitrage, tradingFeeUsd } from "../_shared/arbitrage/calculator.ts";
+import { executeArbitrage, MIN_POLYMARKET_SHARES, type ArbitrageClients } from "../_shared/arbitrage/executor.ts";
+import { insertPosition, listPositions } from "../_shared/arbitrage/positionStore.ts";
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { recordJournalEntries } from "../_shared/journal/journalStore.ts";
+import { createKalshiClientFromEnv } from "../_shared/kalshi/client.ts";
+import { resolvePriceLevelStructure, roundToKalshiTick } from "../_shared/kalshi/utils.ts";
+import { createClientFromEnv } from "../_shared/polymarket/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import type {
+  ArbitrageLegExecution,
+  ArbitragePosition,
+  ArbitragePositionStatus,
+  DepthLeg,
+} from "../_shared/arbitrage/types.ts";
+import type { NewJournalEntry } from "../_shared/journal/types.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { ArbitrageExecutorRequest, ArbitrageExecutorResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const VALID_STATUSES: ArbitragePositionStatus[] = ["open", "cancelled", "unwound", "unhedged"];
+
+// Budget limit per leg, mirrors the put-order endpoints
+const MAX_LEG_COST_USD = 100;
+const MAX_SLIPPAGE_CENTS = 10;
+
+// Market statuses that accept orders
+const OPEN_STATUSES = ["active", "open"];
+
+// Tick size of markets that do not report one
+const DEFAULT_POLYMARKET_TICK_SIZE = "0.01";
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: ArbitrageExecutorResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Round a price (0-100) up onto a Polymarket tick, at most one tick below 100
+ */
+function roundUpToPolymarketTick(price: number, tickSize: string): number {
+  const tick = parseFloat(tickSize) * 100;
+  const rounded = Math.round(Math.ceil(price / tick - 1e-9) * tick * 10000) / 10000;
+  return Math.min(100 - tick, rounded);
+}
+
+/**
+ * Trade journal entries of a leg: the buy order for what filled (or its
+ * placement error) and the sale of any contracts unwound
+ */
+function toJournalEntries(
+  leg: ArbitrageLegExecution,
+  context: { title: string; eventId?: string; market?: string; polymarketFeeRateBps: number }
+): NewJournalEntry[] {
+  const order: Omit<NewJournalEntry, "price" | "size"> = {
+    source: "arbitrage",
+    asset: context.title,
+    platform: leg.source === "polymarket" ? "Polymarket" : "Kalshi",
+    market: context.market,
+    marketSlug: context.eventId,
+    title: context.title,
+    tokenId: leg.marketId,
+    outcome: leg.side === "yes" ? "Yes" : "No",
+  };
+
+  if (!leg.orderId) {
+    return leg.requested > 0
+      ? [{
+        ...order,
+        price: leg.limitPrice / 100,
+        size: leg.requested,
+        orderParams: { side: leg.side, limitPrice: leg.limitPrice, count: leg.requested },
+        status: "failed",
+        error: leg.error,
+      }]
+      : [];
+  }
+
+  const entries: NewJournalEntry[] = [];
+  if (leg.filled > 0) {
+    entries.push({
+      ...order,
+      orderId: leg.orderId,
+      price: leg.limitPrice / 100,
+      size: leg.filled,
+      orderParams: { side: leg.side, limitPrice: leg.limitPrice, count: leg.requested },
+      feeUsd: tradingFeeUsd(leg.source, leg.filled, leg.limitPrice, context.polymarketFeeRateBps),
+    });
+  }
+  if (leg.unwindOrderId && leg.unwindPrice && leg.unwound > 0) {
+    entries.push({
+      ...order,
+      side: "SELL",
+      orderId: leg.unwindOrderId,
+      price: leg.unwindPrice / 100,
+      size: leg.unwound,
+      orderParams: { side: leg.side, action: "sell", limitPrice: leg.unwindPrice, count: leg.unwound },
+      feeUsd: tradingFeeUsd(leg.source, leg.unwound, leg.unwindPrice, context.polymarketFeeRateBps),
+    });
+  }
+  return entries;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: ArbitrageExecutorRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action } = requestBody;
+
+    // Initialize the database client before anything is traded, so positions can be recorded
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const invalidStatus = (requestBody.statuses || []).find(s => !VALID_STATUSES.includes(s));
+        if (invalidStatus) {
+          return jsonResponse({ success: false, error: `Invalid status: '${invalidStatus}'. Valid statuses: ${VALID_STATUSES.join(", ")}`, logs }, 400);
+        }
+
+        const positions = await listPositions(db, requestBody);
+        return jsonResponse({ success: true, positions, logs });
+      }
+
+      case "execute": {
+        const { analysis, maxSlippageCents = 0 } = requestBody;
+        if (!analysis) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'analysis'", logs }, 400);
+        }
+
+        const strategy = analysis.arbitrage?.strategy;
+        if (!analysis.isSameMarket || !analysis.arbitrage?.hasArbitrage || !strategy) {
+          return jsonResponse({ success: false, error: "The analysis has no arbitrage to execute", logs }, 400);
+        }
+
+        const depth = analysis.depth;
+        if (!depth) {
+          return jsonResponse({ success: false, error: "The analysis has no order book legs. Run arbitrage-finder again.", logs }, 400);
+        }
+
+        const { yesLeg, noLeg } = depth;
+        if (yesLeg.source === noLeg.source || yesLeg.source !== strategy.buyYesOn || noLeg.source !== strategy.buyNoOn) {
+          return jsonResponse({ success: false, error: "The analysis legs do not match its strategy", logs }, 400);
+        }
+
+        if (typeof maxSlippageCents !== "number" || maxSlippageCents < 0 || maxSlippageCents > MAX_SLIPPAGE_CENTS) {
+          return jsonResponse({ success: false, error: `maxSlippageCents must be a number from 0 to ${MAX_SLIPPAGE_CENTS}`, logs }, 400);
+        }
+
+        const size = requestBody.size ?? Math.floor(depth.maxSize);
+        if (!Number.isInteger(size) || size < MIN_POLYMARKET_SHARES) {
+          return jsonResponse({ success: false, error: `size must be an integer of at least ${MIN_POLYMARKET_SHARES} contracts`, logs }, 400);
+        }
+
+        // Initialize trading clients
+        let clients: ArbitrageClients;
+        try {
+          clients = { polymarket: createClientFromEnv(), kalshi: createKalshiClientFromEnv() };
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          logs.push(createLogEntry("ERROR", `Failed to initialize trading clients: ${errorMsg}`));
+          return jsonResponse({ success: false, error: `Failed to initialize trading clients: ${errorMsg}`, logs }, 500);
+        }
+
+        // Re-check the live Kalshi market before trading
+        const kalshiLeg = yesLeg.source === "kalshi" ? yesLeg : noLeg;
+        const market = await clients.kalshi.getMarket(kalshiLeg.marketId);
+        if (!market) {
+          logs.push(...clients.kalshi.getLogs());
+          return jsonResponse({ success: false, error: `Market not found: ${kalshiLeg.marketId}`, logs }, 404);
+        }
+        if (!OPEN_STATUSES.includes(market.status.toLowerCase())) {
+          return jsonResponse({ success: false, error: `Market is not open for trading (status: ${market.status})`, logs }, 400);
+        }
+
+        // Re-check the Polymarket market and read its order settings
+        const polymarketLeg = yesLeg.source === "polymarket" ? yesLeg : noLeg;
+        const tokenInfo = await clients.polymarket.getTokenMarketInfo(polymarketLeg.marketId);
+        if (!tokenInfo) {
+          return jsonResponse({ success: false, error: `Market not found for token: ${polymarketLeg.marketId}`, logs }, 404);
+        }
+        if (tokenInfo.closed) {
+          return jsonResponse({ success: false, error: "Polymarket market is closed", logs }, 400);
+        }
+
+        // Limits are the strategy prices plus slippage, rounded up onto each platform's ticks
+        const priceLevelStructure = resolvePriceLevelStructure(market);
+        const limitFor = (leg: DepthLeg, price: number) => leg.source === "kalshi"
+          ? roundToKalshiTick(price + maxSlippageCents, priceLevelStructure, "up")
+          : roundUpToPolymarketTick(price + maxSlippageCents, tokenInfo.tickSize || DEFAULT_POLYMARKET_TICK_SIZE);
+        const yesLimit = limitFor(yesLeg, strategy.buyYesPrice);
+        const noLimit = limitFor(noLeg, strategy.buyNoPrice);
+
+        if ((size * Math.max(yesLimit, noLimit)) / 100 > MAX_LEG_COST_USD) {
+          return jsonResponse({ success: false, error: `Each leg must not cost more than $${MAX_LEG_COST_USD}`, logs }, 400);
+        }
+
+        const check = calculateArbitrage({
+          buyYesOn: yesLeg.source,
+          yesPrice: yesLimit,
+          buyNoOn: noLeg.source,
+          noPrice: noLimit,
+          size,
+          polymarketFeeRateBps: depth.polymarketFeeRateBps,
+        });
+        if (check.netProfit <= 0) {
+          return jsonResponse({
+            success: false,
+            error: `No profit left at the limit prices: YES ${yesLimit}¢ + NO ${noLimit}¢ cost $${check.totalCost.toFixed(2)} with fees for a $${size} payout`,
+            logs,
+          }, 400);
+        }
+
+        const title = analysis.polymarketData?.name || analysis.kalshiData?.name || kalshiLeg.marketId;
+        logs.push(createLogEntry("INFO", `Executing ${size} pair(s) of "${title}" for an expected $${check.netProfit.toFixed(2)} profit`));
+
+        const execution = await executeArbitrage(clients, {
+          title,
+          polymarketId: analysis.polymarketData?.identifier,
+          kalshiId: analysis.kalshiData?.identifier,
+          yesLeg,
+          yesLimit,
+          noLeg,
+          noLimit,
+          size,
+          polymarketFeeRateBps: depth.polymarketFeeRateBps,
+          polymarketTickSize: tokenInfo.tickSize,
+          polymarketNegRisk: tokenInfo.negRisk,
+          resolutionDate: analysis.calculation?.resolutionDate,
+        }, logs);
+        logs.push(...clients.kalshi.getLogs(), ...clients.polymarket.getLogs());
+
+        // Journal failures are logged but never fail the execution
+        await recordJournalEntries(
+          [execution.yesLeg, execution.noLeg].flatMap(leg => toJournalEntries(leg, {
+            title,
+            eventId: leg.source === "polymarket" ? execution.polymarketId : execution.kalshiId,
+            market: leg.source === "polymarket" ? tokenInfo.conditionId : leg.marketId,
+            polymarketFeeRateBps: depth.polymarketFeeRateBps,
+          })),
+          db
+        );
+
+        // The orders stand even if the position cannot be recorded
+        let position: ArbitragePosition | undefined;
+        try {
+          position = await insertPosition(db, execution);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          logs.push(createLogEntry("ERROR", errorMsg));
+        }
+
+        // Nothing was traded because the first leg could not be placed
+        const firstLeg = execution.yesLeg.source === "kalshi" ? execution.yesLeg : execution.noLeg;
+        if (execution.status === "cancelled" && !firstLeg.orderId) {
+          return jsonResponse({ success: false, error: firstLeg.error || "Order placement failed", execution, position, logs }, 500);
+        }
+
+        return jsonResponse({ success: true, execution, position, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'execute', 'list'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
@@ -0,0 +1,65 @@
+/**
+ * Type definitions for arbitrage-executor edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type {
+  ArbitrageCalculation,
+  ArbitrageDepth,
+  ArbitrageExecution,
+  ArbitrageOpportunity,
+  ArbitragePosition,
+  ArbitragePositionFilter,
+} from "../_shared/arbitrage/types.ts";
+
+/**
+ * The parts of an arbitrage-finder analysis needed to execute it
+ */
+export interface ExecutableArbitrage {
+  isSameMarket: boolean;
+  polymarketData?: { name: string; identifier: string };
+  kalshiData?: { name: string; identifier: string };
+  arbitrage: ArbitrageOpportunity;
+  calculation?: ArbitrageCalculation;
+  /** Holds the legs' token ID and ticker */
+  depth?: ArbitrageDepth;
+}
+
+/**
+ * Arbitrage executor actions
+ * - execute: buy both legs of an analysed arbitrage and record the position
+ * - list:    recorded positions, newest first
+ */
+export type ArbitrageExecutorAction = "execute" | "list";
+
+/**
+ * Request body for the arbitrage executor
+ */
+export interface ArbitrageExecutorRequest extends ArbitragePositionFilter {
+  /** Action to perform */
+  action: ArbitrageExecutorAction;
+  /** arbitrage-finder analysis to execute (execute) */
+  analysis?: ExecutableArbitrage;
+  /** YES + NO pairs to buy (execute, default: the order books' max size) */
+  size?: number;
+  /** Cents above the strategy prices each leg may pay (execute, default 0) */
+  maxSlippageCents?: number;
+}
+
+/**
+ * Response from the arbitrage executor
+ */
+export interface ArbitrageExecutorResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Orders placed and the resulting position (execute) */
+  execution?: ArbitrageExecution;
+  /** Recorded position (execute, unless recording failed) */
+  position?: ArbitragePosition;
+  /** Positions (list) */
+  positions?: ArbitragePosition[];
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -6,11 +6,17 @@
  * Flow:
  * 1. Parse input URL to determine source platform (Polymarket or Kalshi)
  * 2. Fetch event data: title + markets (title + yes price only)
- * 3. Use AI agent to generate 1-2 word search query from event title
- * 4. Search the OTHER platform using the generated query
- * 5. If no results, return early
- * 6. Pass source markets + search results to arbitrage analysis agent
- * 7. Return results to frontend
+ * 3. If the match index has a confirmed match for the event, fetch the
+ *    matched event directly and skip steps 4-5
+ * 4. Use AI agent to generate 1-2 word search query from event title
+ * 5. Search the OTHER platform using the generated query, dropping events
+ *    rejected as matches
+ * 6. If no results, return early
+ * 7. Pass source markets + search results to arbitrage analysis agent
+ * 8. Record the agent's same-market judgement in the match index
+ * 9. Size the arbitrage against both order books and recompute its profit
+ *    after fees with the deterministic calculator, overriding the agent's numbers
+ * 10. Return results to frontend
  */
 
 import { arbitrageAnalysisPrompt } from "../_shared/ai/prompts/arbitrageAnalysis.ts";
@@ -19,6 +25,11 @@ import { callGrokResponses } from "../_shared/ai/callGrok.ts";
 import { callOpenAIResponses } from "../_shared/ai/callOpenAI.ts";
 import type { GrokMessage, GrokOutputText, OpenAIMessage, OpenAIOutputText } from "../_shared/ai/types.ts";
 import { request as dflowRequest } from "../_shared/dflow/client.ts";
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { listMatches, recordModelMatch } from "../_shared/arbitrage/matchStore.ts";
+import { computeArbitrageDepth } from "../_shared/arbitrage/depth.ts";
+import { calculateArbitrage, calculateBestArbitrage, toOpportunity } from "../_shared/arbitrage/calculator.ts";
+import type { DepthLeg, MarketMatch } from "../_shared/arbitrage/types.ts";
 import type {
   ArbitrageRequest,
   ArbitrageResponse,
@@ -31,6 +42,9 @@ import type {
 const GAMMA_API_URL = "https://gamma-api.polymarket.com";
 const DFLOW_API_BASE = "https://a.prediction-markets-api.dflow.net/api/v1";
 
+// Same-market confidence from which the agent's match is confirmed rather than suggested
+const MODEL_CONFIRM_CONFIDENCE = 80;
+
 // OpenAI model identifiers
 const OPENAI_MODELS = ["gpt-5.2", "gpt-5.1", "gpt-5-nano", "gpt-4.1", "gpt-4.1-mini"];
 
@@ -50,6 +64,32 @@ interface SimplifiedMarket {
   yesPrice: number;
   /** Event identifier for URL building (slug for polymarket, event ticker for kalshi) */
   identifier?: string;
+  /** YES and NO token IDs (polymarket), for the order books */
+  clobTokenIds?: string[];
+  /** Market ticker (kalshi), for the order book */
+  ticker?: string;
+  /** When the market closes (ISO) */
+  closeTime?: string;
+}
+
+/**
+ * A DFlow unix timestamp (seconds) as an ISO date
+ */
+function unixToIso(seconds: number | undefined): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+/**
+ * CLOB token IDs of a Gamma market, parsed from their JSON string
+ */
+function parseClobTokenIds(value: unknown): string[] | undefined {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) && ids.length === 2 ? ids.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 /** Source event data */
@@ -174,7 +214,12 @@ async function fetchPolymarketEvent(slug: string): Promise<SourceEventData | nul
         }
         
         if (title) {
-          markets.push({ title, yesPrice });
+          markets.push({
+            title,
+            yesPrice,
+            clobTokenIds: parseClobTokenIds(market.clobTokenIds),
+            closeTime: market.endDate || undefined,
+          });
         }
       }
     }
@@ -205,6 +250,7 @@ async function fetchKalshiEvent(ticker: string): Promise<SourceEventData | null>
         yesSubTitle: string;
         yesBid: string | null;
         yesAsk: string | null;
+        closeTime?: number;
       }>;
     }>(`/event/${ticker}`, {
       params: { withNestedMarkets: true },
@@ -230,7 +276,7 @@ async function fetchKalshiEvent(ticker: string): Promise<SourceEventData | null>
         }
         
         if (title) {
-          markets.push({ title, yesPrice });
+          markets.push({ title, yesPrice, ticker: market.ticker, closeTime: unixToIso(market.closeTime) });
         }
       }
     }
@@ -295,6 +341,8 @@ async function searchPolymarket(query: string): Promise<SimplifiedMarket[]> {
                 title, 
                 yesPrice,
                 identifier: eventSlug, // Event slug for Polymarket URL
+                clobTokenIds: parseClobTokenIds(market.clobTokenIds),
+                closeTime: market.endDate || undefined,
               });
             }
           }
@@ -326,6 +374,7 @@ async function searchKalshi(query: string): Promise<SimplifiedMarket[]> {
           yesSubTitle?: string;
           yesAsk?: string;
           yesBid?: string;
+          closeTime?: number;
         }>;
       }>;
     }>('/search', {
@@ -366,6 +415,8 @@ async function searchKalshi(query: string): Promise<SimplifiedMarket[]> {
                 title, 
                 yesPrice,
                 identifier: eventTicker, // Event ticker for Kalshi URL
+                ticker: market.ticker,
+                closeTime: unixToIso(market.closeTime),
               });
             }
           }
@@ -380,6 +431,138 @@ async function searchKalshi(query: string): Promise<SimplifiedMarket[]> {
   }
 }
 
+// =============================================================================
+// Match Index
+// =============================================================================
+
+/**
+ * Identifier of a match's event on the given platform
+ */
+function matchedIdentifier(match: MarketMatch, platform: ArbitrageMarketSource): string {
+  return platform === 'polymarket'
+    ? match.polymarketSlug || match.polymarketId
+    : match.kalshiEventTicker || match.kalshiTicker;
+}
+
+/**
+ * Reviewed matches of a source event: the confirmed match, if any, and the
+ * identifiers of events on the other platform rejected as matches
+ */
+async function findReviewedMatches(
+  db: DbClient,
+  sourceEvent: SourceEventData,
+  searchPlatform: ArbitrageMarketSource
+): Promise<{ confirmed?: MarketMatch; rejected: Set<string> }> {
+  const matches = await listMatches(db, {
+    statuses: ["confirmed", "rejected"],
+    ...(sourceEvent.source === 'polymarket'
+      ? { polymarketId: sourceEvent.identifier }
+      : { kalshiTicker: sourceEvent.identifier }),
+  });
+
+  return {
+    confirmed: matches.find(m => m.status === "confirmed"),
+    rejected: new Set(
+      matches.filter(m => m.status === "rejected").map(m => matchedIdentifier(m, searchPlatform).toLowerCase())
+    ),
+  };
+}
+
+/**
+ * Record the agent's same-market judgement as an event-level match
+ */
+async function recordAnalysisMatch(db: DbClient, analysis: ArbitrageAnalysis): Promise<MarketMatch | null> {
+  const { polymarketData, kalshiData } = analysis;
+  if (!analysis.isSameMarket || !polymarketData?.identifier || !kalshiData?.identifier) {
+    return null;
+  }
+
+  return await recordModelMatch(db, {
+    polymarketId: polymarketData.identifier,
+    polymarketSlug: polymarketData.identifier,
+    polymarketTitle: polymarketData.name || polymarketData.identifier,
+    kalshiTicker: kalshiData.identifier,
+    kalshiEventTicker: kalshiData.identifier,
+    kalshiTitle: kalshiData.name || kalshiData.identifier,
+    confidence: Math.min(Math.max(analysis.sameMarketConfidence, 0), 100),
+    resolutionNotes: analysis.marketComparisonReasoning?.slice(0, 4000),
+  }, analysis.sameMarketConfidence >= MODEL_CONFIRM_CONFIDENCE);
+}
+
+// =============================================================================
+// Arbitrage Math
+// =============================================================================
+
+/** A side bought on a platform, in the market it is bought in */
+interface ArbitrageLeg {
+  source: ArbitrageMarketSource;
+  side: 'yes' | 'no';
+  market: SimplifiedMarket;
+}
+
+const sidePrice = (market: SimplifiedMarket, side: 'yes' | 'no') =>
+  side === 'yes' ? market.yesPrice : 100 - market.yesPrice;
+
+/**
+ * The market whose price a strategy leg quotes
+ */
+function pickLegMarket(markets: SimplifiedMarket[], side: 'yes' | 'no', price: number): SimplifiedMarket | undefined {
+  return [...markets].sort((a, b) =>
+    Math.abs(sidePrice(a, side) - price) - Math.abs(sidePrice(b, side) - price)
+  )[0];
+}
+
+/**
+ * The legs of the arbitrage: those quoted by the agent's strategy or, when
+ * it has none and both events have a single market, the cheaper direction
+ * of the pair after fees
+ */
+function resolveArbitrageLegs(
+  analysis: ArbitrageAnalysis,
+  polymarketMarkets: SimplifiedMarket[],
+  kalshiMarkets: SimplifiedMarket[]
+): { yes: ArbitrageLeg; no: ArbitrageLeg } | null {
+  const marketsOn = (source: ArbitrageMarketSource) => source === 'polymarket' ? polymarketMarkets : kalshiMarkets;
+  const strategy = analysis.arbitrage?.strategy;
+
+  if (strategy) {
+    const yesMarket = pickLegMarket(marketsOn(strategy.buyYesOn), 'yes', strategy.buyYesPrice);
+    const noMarket = pickLegMarket(marketsOn(strategy.buyNoOn), 'no', strategy.buyNoPrice);
+    if (!yesMarket || !noMarket || strategy.buyYesOn === strategy.buyNoOn) return null;
+    return {
+      yes: { source: strategy.buyYesOn, side: 'yes', market: yesMarket },
+      no: { source: strategy.buyNoOn, side: 'no', market: noMarket },
+    };
+  }
+
+  if (polymarketMarkets.length !== 1 || kalshiMarkets.length !== 1) return null;
+  const [polymarket] = polymarketMarkets;
+  const [kalshi] = kalshiMarkets;
+  const best = calculateBestArbitrage({
+    polymarketYes: polymarket.yesPrice,
+    polymarketNo: 100 - polymarket.yesPrice,
+    kalshiYes: kalshi.yesPrice,
+    kalshiNo: 100 - kalshi.yesPrice,
+  });
+  const marketOf = (source: ArbitrageMarketSource) => source === 'polymarket' ? polymarket : kalshi;
+  return {
+    yes: { source: best.buyYesOn, side: 'yes', market: marketOf(best.buyYesOn) },
+    no: { source: best.buyNoOn, side: 'no', market: marketOf(best.buyNoOn) },
+  };
+}
+
+/**
+ * A leg's order book. Returns null when its market has no order book IDs.
+ */
+function toDepthLeg(leg: ArbitrageLeg): DepthLeg | null {
+  const { source, side, market } = leg;
+  if (source === 'kalshi') {
+    return market.ticker ? { source, side, marketId: market.ticker } : null;
+  }
+  const tokenId = market.clobTokenIds?.[side === 'yes' ? 0 : 1];
+  return tokenId ? { source, side, marketId: tokenId } : null;
+}
+
 // =============================================================================
 // AI Functions
 // =============================================================================
@@ -494,17 +677,21 @@ async function analyzeArbitrage(
     url: buildMarketUrl(sourceEvent.source, sourceEvent.identifier),
   };
   
+  // Order book IDs are not needed by the agent
+  const withoutBookIds = (markets: SimplifiedMarket[]) =>
+    markets.map(({ title, yesPrice, identifier }) => ({ title, yesPrice, identifier }));
+
   // Include all source markets in raw data
   const rawSourceData = {
     eventTitle: sourceEvent.eventTitle,
-    markets: sourceEvent.markets,
+    markets: withoutBookIds(sourceEvent.markets),
   };
   
   sourceMarket.rawData = rawSourceData;
   
   const { systemPrompt, userPrompt } = arbitrageAnalysisPrompt({
     sourceMarket,
-    searchResults,
+    searchResults: withoutBookIds(searchResults),
     searchPlatform,
   });
   
@@ -615,7 +802,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { url, model } = requestBody;
+    const { url, model, settlementCostBps } = requestBody;
 
     // Validate required parameters
     if (!url) {
@@ -632,6 +819,13 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    if (settlementCostBps !== undefined && (typeof settlementCostBps !== 'number' || settlementCostBps < 0 || settlementCostBps > 1000)) {
+      return new Response(
+        JSON.stringify({ success: false, error: "settlementCostBps must be a number from 0 to 1000" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Step 1: Detect platform and fetch source event data
     const sourcePlatform = detectPlatform(url);
     if (!sourcePlatform) {
@@ -683,29 +877,60 @@ Deno.serve(async (req: Request) => {
 
     console.log("Fetched source event:", sourceEvent.eventTitle, "with", sourceEvent.markets.length, "markets");
 
-    // Step 2: Generate search query using AI agent
-    console.log("Generating search query from title:", sourceEvent.eventTitle);
-    const searchQuery = await generateSearchQuery(
-      sourceEvent.eventTitle,
-      sourcePlatform,
-      searchPlatform,
-      model
-    );
-    console.log("Generated search query:", searchQuery);
+    // Step 2: Look up reviewed matches (the match index is optional)
+    let db: DbClient | null = null;
+    let confirmedMatch: MarketMatch | undefined;
+    let rejected = new Set<string>();
+    try {
+      db = createDbClient();
+      ({ confirmed: confirmedMatch, rejected } = await findReviewedMatches(db, sourceEvent, searchPlatform));
+    } catch (error) {
+      console.error("Market match index unavailable:", error);
+    }
 
-    // Step 3: Search the other platform
-    console.log("Searching", searchPlatform, "for:", searchQuery);
-    let searchResults: SimplifiedMarket[];
-    
-    if (searchPlatform === 'polymarket') {
-      searchResults = await searchPolymarket(searchQuery);
-    } else {
-      searchResults = await searchKalshi(searchQuery);
+    let searchQuery = "";
+    let searchResults: SimplifiedMarket[] = [];
+
+    if (confirmedMatch) {
+      // Step 3: Fetch the confirmed match instead of searching
+      const matchedId = matchedIdentifier(confirmedMatch, searchPlatform);
+      console.log("Using confirmed match:", matchedId);
+      const matchedEvent = searchPlatform === 'polymarket'
+        ? await fetchPolymarketEvent(matchedId)
+        : await fetchKalshiEvent(matchedId);
+      searchResults = (matchedEvent?.markets || []).map(m => ({ ...m, identifier: matchedEvent!.identifier }));
+    }
+
+    if (searchResults.length === 0) {
+      // No confirmed match, or its event could not be fetched
+      confirmedMatch = undefined;
+
+      // Step 4: Generate search query using AI agent
+      console.log("Generating search query from title:", sourceEvent.eventTitle);
+      searchQuery = await generateSearchQuery(
+        sourceEvent.eventTitle,
+        sourcePlatform,
+        searchPlatform,
+        model
+      );
+      console.log("Generated search query:", searchQuery);
+
+      // Step 5: Search the other platform
+      console.log("Searching", searchPlatform, "for:", searchQuery);
+      if (searchPlatform === 'polymarket') {
+        searchResults = await searchPolymarket(searchQuery);
+      } else {
+        searchResults = await searchKalshi(searchQuery);
+      }
+
+      if (rejected.size > 0) {
+        searchResults = searchResults.filter(m => !m.identifier || !rejected.has(m.identifier.toLowerCase()));
+      }
     }
 
     console.log("Found", searchResults.length, "markets on", searchPlatform);
 
-    // Step 4: Return early if no search results
+    // Step 6: Return early if no search results
     if (searchResults.length === 0) {
       const processingTimeMs = Date.now() - startTime;
       console.log("No search results found. Returning early.");
@@ -757,7 +982,7 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    // Step 5: Analyze arbitrage using AI agent
+    // Step 7: Analyze arbitrage using AI agent
     console.log("Analyzing arbitrage opportunity...");
     const { analysis, modelUsed, tokensUsed } = await analyzeArbitrage(
       sourceEvent,
@@ -768,12 +993,80 @@ Deno.serve(async (req: Request) => {
 
     console.log("AI analysis complete, isSameMarket:", analysis.isSameMarket);
 
+    // Step 8: A confirmed match settles whether the markets are the same;
+    // otherwise the agent's judgement is recorded for review
+    let match: MarketMatch | undefined = confirmedMatch;
+    if (confirmedMatch) {
+      analysis.isSameMarket = true;
+      analysis.sameMarketConfidence = confirmedMatch.confidence ?? 100;
+      if (confirmedMatch.resolutionNotes) {
+        analysis.marketComparisonReasoning = confirmedMatch.resolutionNotes;
+      }
+    } else if (db) {
+      try {
+        match = (await recordAnalysisMatch(db, analysis)) ?? undefined;
+      } catch (error) {
+        console.error("Failed to record market match:", error);
+      }
+    }
+
+    // Step 9: Size the arbitrage against both order books and recompute it
+    // after fees, instead of trusting the agent's arithmetic
+    if (analysis.isSameMarket) {
+      // Markets of the matched event on the searched platform, when the agent named one
+      const matchedId = (searchPlatform === 'polymarket' ? analysis.polymarketData : analysis.kalshiData)?.identifier;
+      const matchedMarkets = searchResults.filter(m => m.identifier === matchedId);
+      const searchedMarkets = matchedMarkets.length > 0 ? matchedMarkets : searchResults;
+      const legs = sourcePlatform === 'polymarket'
+        ? resolveArbitrageLegs(analysis, sourceEvent.markets, searchedMarkets)
+        : resolveArbitrageLegs(analysis, searchedMarkets, sourceEvent.markets);
+
+      if (legs) {
+        const yesLeg = toDepthLeg(legs.yes);
+        const noLeg = toDepthLeg(legs.no);
+        if (yesLeg && noLeg) {
+          try {
+            analysis.depth = await computeArbitrageDepth(yesLeg, noLeg);
+            console.log("Max executable size:", analysis.depth.maxSize, "contracts, break-even:", analysis.depth.breakEvenSize);
+          } catch (error) {
+            console.error("Failed to size arbitrage against the order books:", error);
+          }
+        }
+
+        // Best asks when the books are known, listed prices otherwise
+        const polymarketLeg = legs.yes.source === 'polymarket' ? legs.yes : legs.no;
+        const kalshiLeg = legs.yes.source === 'kalshi' ? legs.yes : legs.no;
+        analysis.calculation = calculateArbitrage({
+          buyYesOn: legs.yes.source,
+          yesPrice: analysis.depth?.yesAsk ?? sidePrice(legs.yes.market, 'yes'),
+          buyNoOn: legs.no.source,
+          noPrice: analysis.depth?.noAsk ?? sidePrice(legs.no.market, 'no'),
+          polymarketFeeRateBps: analysis.depth?.polymarketFeeRateBps,
+          settlementCostBps,
+          polymarketResolutionDate: polymarketLeg.market.closeTime,
+          kalshiResolutionDate: kalshiLeg.market.closeTime,
+          sameMarketConfidence: analysis.sameMarketConfidence,
+          humanConfirmed: match?.status === "confirmed" && match.reviewedBy === "human",
+        });
+        analysis.modelArbitrage = analysis.arbitrage;
+        analysis.arbitrage = toOpportunity(analysis.calculation);
+
+        const newRisks = analysis.calculation.riskFlags
+          .filter(flag => flag.level !== 'low')
+          .map(flag => flag.message)
+          .filter(message => !analysis.risks?.includes(message));
+        analysis.risks = [...(analysis.risks || []), ...newRisks];
+        console.log("Calculated net profit per $100:", analysis.arbitrage.strategy?.netProfit ?? 0, "mismatch risk:", analysis.calculation.mismatchRisk);
+      }
+    }
+
     const processingTimeMs = Date.now() - startTime;
     console.log("Request completed in", processingTimeMs, "ms");
 
     const response: ArbitrageResponse = {
       success: true,
       data: analysis,
+      match,
       metadata: {
         requestId: crypto.randomUUID(),
         timestamp: new Date().toISOString(),
@@ -2,8 +2,15 @@
  * Types for arbitrage-finder edge function
  */
 
-/** Source market platform */
-export type ArbitrageMarketSource = 'polymarket' | 'kalshi';
+import type {
+  ArbitrageCalculation,
+  ArbitrageDepth,
+  ArbitrageMarketSource,
+  ArbitrageOpportunity,
+  MarketMatch,
+} from "../_shared/arbitrage/types.ts";
+
+export type { ArbitrageCalculation, ArbitrageDepth, ArbitrageMarketSource, ArbitrageOpportunity };
 
 /** Individual market data for arbitrage comparison */
 export interface ArbitrageMarketData {
@@ -29,31 +36,6 @@ export interface ArbitrageMarketData {
   rawData?: unknown;
 }
 
-/** Arbitrage opportunity details */
-export interface ArbitrageOpportunity {
-  /** Whether an arb opportunity exists */
-  hasArbitrage: boolean;
-  /** Profit percentage if arb exists */
-  profitPercent?: number;
-  /** Recommended strategy */
-  strategy?: {
-    /** Which market to buy YES on */
-    buyYesOn: ArbitrageMarketSource;
-    /** Price to buy YES */
-    buyYesPrice: number;
-    /** Which market to buy NO on */
-    buyNoOn: ArbitrageMarketSource;
-    /** Price to buy NO */
-    buyNoPrice: number;
-    /** Total cost for $100 bet on each side */
-    totalCost: number;
-    /** Guaranteed payout ($100) */
-    guaranteedPayout: number;
-    /** Net profit */
-    netProfit: number;
-  };
-}
-
 /** AI analysis result for arbitrage */
 export interface ArbitrageAnalysis {
   /** Whether the markets represent the same underlying event */
@@ -66,8 +48,14 @@ export interface ArbitrageAnalysis {
   polymarketData?: ArbitrageMarketData;
   /** Kalshi data (if found) */
   kalshiData?: ArbitrageMarketData;
-  /** Arbitrage opportunity analysis */
+  /** Arbitrage opportunity analysis, recomputed after fees when the legs are known */
   arbitrage: ArbitrageOpportunity;
+  /** The agent's own arbitrage numbers, when they were recomputed */
+  modelArbitrage?: ArbitrageOpportunity;
+  /** Fee- and settlement-aware calculation of the arbitrage */
+  calculation?: ArbitrageCalculation;
+  /** Executable size of the arbitrage against both order books */
+  depth?: ArbitrageDepth;
   /** Overall summary of findings */
   summary: string;
   /** Key risks or caveats */
@@ -82,12 +70,16 @@ export interface ArbitrageRequest {
   url: string;
   /** AI model to use */
   model: string;
+  /** Cost of converting USD to USDC for the Polymarket leg (bps, default 0) */
+  settlementCostBps?: number;
 }
 
 /** Response from arbitrage detection edge function */
 export interface ArbitrageResponse {
   success: boolean;
   data?: ArbitrageAnalysis;
+  /** Match index entry of the compared events, when there is one */
+  match?: MarketMatch;
   error?: string;
   metadata: {
     requestId: string;
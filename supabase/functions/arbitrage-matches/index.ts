@@ -0,0 +1,169 @@
+/**
+ * Supabase Edge Function: arbitrage-matches
+ *
+ * Persistent index of Polymarket <-> Kalshi market matches used by
+ * arbitrage-finder and the arbitrage scanner. Provides the following actions:
+ * 1. list    - List matches by status, market or title
+ * 2. create  - Save a pair reviewed by a person
+ * 3. confirm - Confirm a match
+ * 4. reject  - Reject a match
+ * 5. update  - Edit titles, confidence or resolution notes
+ * 6. delete  - Delete a match
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import {
+  deleteMatch,
+  listMatches,
+  reviewMatch,
+  saveReviewedMatch,
+  updateMatch,
+  validateMatchInput,
+  validateMatchUpdate,
+} from "../_shared/arbitrage/matchStore.ts";
+import type { MarketMatchStatus } from "../_shared/arbitrage/types.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { ArbitrageMatchesRequest, ArbitrageMatchesResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const VALID_STATUSES: MarketMatchStatus[] = ["suggested", "confirmed", "rejected"];
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: ArbitrageMatchesResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: ArbitrageMatchesRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action, matchId } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Actions on a stored match
+    if (["confirm", "reject", "update", "delete"].includes(action) && !matchId) {
+      return jsonResponse({ success: false, error: "Missing required parameter: 'matchId'", logs }, 400);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const invalidStatus = (requestBody.statuses || []).find(s => !VALID_STATUSES.includes(s));
+        if (invalidStatus) {
+          return jsonResponse({ success: false, error: `Invalid status: '${invalidStatus}'. Valid statuses: ${VALID_STATUSES.join(", ")}`, logs }, 400);
+        }
+
+        const matches = await listMatches(db, requestBody);
+        return jsonResponse({ success: true, matches, logs });
+      }
+
+      case "create": {
+        const { match, status = "confirmed" } = requestBody;
+        if (!match) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'match'", logs }, 400);
+        }
+        if (status !== "confirmed" && status !== "rejected") {
+          return jsonResponse({ success: false, error: "status must be 'confirmed' or 'rejected'", logs }, 400);
+        }
+        const validationError = validateMatchInput(match);
+        if (validationError) {
+          return jsonResponse({ success: false, error: validationError, logs }, 400);
+        }
+
+        const saved = await saveReviewedMatch(db, match, status);
+        logs.push(createLogEntry("INFO", `Match ${saved.polymarketId} <-> ${saved.kalshiTicker} ${status}`));
+        return jsonResponse({ success: true, match: saved, logs });
+      }
+
+      case "confirm":
+      case "reject": {
+        const { resolutionNotes } = requestBody;
+        if (resolutionNotes !== undefined && typeof resolutionNotes !== "string") {
+          return jsonResponse({ success: false, error: "resolutionNotes must be a string", logs }, 400);
+        }
+
+        const match = await reviewMatch(db, matchId!, action === "confirm" ? "confirmed" : "rejected", resolutionNotes);
+        if (!match) {
+          return jsonResponse({ success: false, error: `Match not found: ${matchId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("INFO", `Match ${match.polymarketId} <-> ${match.kalshiTicker} ${match.status}`));
+        return jsonResponse({ success: true, match, logs });
+      }
+
+      case "update": {
+        const { update } = requestBody;
+        if (!update) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'update'", logs }, 400);
+        }
+        const validationError = validateMatchUpdate(update);
+        if (validationError) {
+          return jsonResponse({ success: false, error: validationError, logs }, 400);
+        }
+
+        const match = await updateMatch(db, matchId!, update);
+        if (!match) {
+          return jsonResponse({ success: false, error: `Match not found: ${matchId}`, logs }, 404);
+        }
+        return jsonResponse({ success: true, match, logs });
+      }
+
+      case "delete": {
+        const deleted = await deleteMatch(db, matchId!);
+        if (!deleted) {
+          return jsonResponse({ success: false, error: `Match not found: ${matchId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("INFO", `Deleted match ${matchId}`));
+        return jsonResponse({ success: true, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'create', 'confirm', 'reject', 'update', 'delete'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
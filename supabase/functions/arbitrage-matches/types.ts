@@ -0,0 +1,56 @@
+/**
+ * Type definitions for arbitrage-matches edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type {
+  MarketMatch,
+  MarketMatchFilter,
+  MarketMatchInput,
+  MarketMatchUpdate,
+} from "../_shared/arbitrage/types.ts";
+
+/**
+ * Market match actions
+ * - list:    stored matches matching the filters
+ * - create:  save a pair reviewed by a person (confirmed unless status is "rejected")
+ * - confirm: confirm a stored match
+ * - reject:  reject a stored match
+ * - update:  edit the titles, confidence or resolution notes of a match
+ * - delete:  delete a match
+ */
+export type ArbitrageMatchesAction = "list" | "create" | "confirm" | "reject" | "update" | "delete";
+
+/**
+ * Request body for the market matches
+ */
+export interface ArbitrageMatchesRequest extends MarketMatchFilter {
+  /** Action to perform */
+  action: ArbitrageMatchesAction;
+  /** Match to act on (confirm, reject, update, delete) */
+  matchId?: string;
+  /** Pair to save (create) */
+  match?: MarketMatchInput;
+  /** Review of the new pair (create, default "confirmed") */
+  status?: "confirmed" | "rejected";
+  /** Fields to change (update) */
+  update?: MarketMatchUpdate;
+  /** Resolution notes to store with the review (confirm, reject) */
+  resolutionNotes?: string;
+}
+
+/**
+ * Response from the market matches
+ */
+export interface ArbitrageMatchesResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Matches (list) */
+  matches?: MarketMatch[];
+  /** Created, reviewed or updated match */
+  match?: MarketMatch;
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -0,0 +1,122 @@
+/**
+ * Supabase Edge Function: arbitrage-scanner
+ *
+ * Deterministic cross-platform arbitrage scan, without an AI model:
+ * 1. List the most traded open Polymarket events (Gamma) and Kalshi events (DFlow)
+ * 2. Pair markets asking the same question: confirmed matches of the match
+ *    index (arbitrage-matches) first, then by title similarity, never
+ *    forming rejected pairs
+ * 3. Compute the YES + NO arbitrage of every pair at the current ask prices
+ *
+ * The terminal server (terminal/src/lib/arbitrage-scanner.ts) calls `scan`
+ * on an interval and pushes the opportunities to the Arbitrage page.
+ */
+
+import { listKalshiMarkets, listPolymarketMarkets } from "../_shared/arbitrage/markets.ts";
+import { DEFAULT_MIN_MATCH_SCORE, matchMarketsWithReviews } from "../_shared/arbitrage/matcher.ts";
+import { listMatches, MAX_MATCH_LIMIT } from "../_shared/arbitrage/matchStore.ts";
+import { computeOpportunity } from "../_shared/arbitrage/opportunity.ts";
+import { createDbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import type { MarketMatch, ScannedPair } from "../_shared/arbitrage/types.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { ArbitrageScannerRequest, ArbitrageScannerResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DEFAULT_MAX_EVENTS = 200;
+const MAX_EVENTS = 500;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: ArbitrageScannerResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: ArbitrageScannerRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action } = requestBody;
+
+    // Route to appropriate handler
+    switch (action) {
+      case "scan": {
+        const maxEvents = requestBody.maxEvents ?? DEFAULT_MAX_EVENTS;
+        const minMatchScore = requestBody.minMatchScore ?? DEFAULT_MIN_MATCH_SCORE;
+        if (!Number.isInteger(maxEvents) || maxEvents < 1 || maxEvents > MAX_EVENTS) {
+          return jsonResponse({ success: false, error: `maxEvents must be an integer between 1 and ${MAX_EVENTS}`, logs }, 400);
+        }
+        if (typeof minMatchScore !== "number" || minMatchScore <= 0 || minMatchScore > 1) {
+          return jsonResponse({ success: false, error: "minMatchScore must be a number above 0 and at most 1", logs }, 400);
+        }
+
+        const [polymarketMarkets, kalshiMarkets] = await Promise.all([
+          listPolymarketMarkets(maxEvents),
+          listKalshiMarkets(maxEvents),
+        ]);
+        logs.push(createLogEntry("INFO", `Listed ${polymarketMarkets.length} Polymarket and ${kalshiMarkets.length} Kalshi markets`));
+
+        // The match index is optional: without a database, markets are paired by title only
+        let reviewed: MarketMatch[] = [];
+        try {
+          reviewed = await listMatches(createDbClient(), { statuses: ["confirmed", "rejected"], limit: MAX_MATCH_LIMIT });
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          logs.push(createLogEntry("WARN", `Market matches unavailable, pairing by title only: ${errorMsg}`));
+        }
+
+        const pairs: ScannedPair[] = matchMarketsWithReviews(polymarketMarkets, kalshiMarkets, reviewed, minMatchScore)
+          .map(pair => ({ ...pair, opportunity: computeOpportunity(pair) }))
+          .sort((a, b) => (b.opportunity.strategy?.netProfit ?? 0) - (a.opportunity.strategy?.netProfit ?? 0));
+
+        const opportunities = pairs.filter(p => p.opportunity.hasArbitrage).length;
+        logs.push(createLogEntry("INFO", `Matched ${pairs.length} pair(s), ${opportunities} with arbitrage`));
+
+        return jsonResponse({
+          success: true,
+          pairs,
+          marketCounts: { polymarket: polymarketMarkets.length, kalshi: kalshiMarkets.length },
+          logs,
+        });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'scan'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
@@ -0,0 +1,40 @@
+/**
+ * Type definitions for arbitrage-scanner edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { ScannedPair } from "../_shared/arbitrage/types.ts";
+
+/**
+ * Arbitrage scanner actions
+ * - scan: list open markets on both platforms, match them and price every pair
+ */
+export type ArbitrageScannerAction = "scan";
+
+/**
+ * Request body for the arbitrage scanner
+ */
+export interface ArbitrageScannerRequest {
+  /** Action to perform */
+  action: ArbitrageScannerAction;
+  /** Events listed per platform, by recent volume (default 200, max 500) */
+  maxEvents?: number;
+  /** Minimum title similarity for a pair (0-1, default 0.6) */
+  minMatchScore?: number;
+}
+
+/**
+ * Response from the arbitrage scanner
+ */
+export interface ArbitrageScannerResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Matched pairs, most profitable first (scan) */
+  pairs?: ScannedPair[];
+  /** Open markets listed per platform (scan) */
+  marketCounts?: { polymarket: number; kalshi: number };
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -9,6 +9,7 @@ import { bookmakerAnalysisPrompt } from "../_shared/ai/prompts/bookmakerAnalysis
 import { callGrokResponses } from "../_shared/ai/callGrok.ts";
 import { callOpenAIResponses } from "../_shared/ai/callOpenAI.ts";
 import type { GrokMessage, GrokOutputText, OpenAIMessage, OpenAIOutputText } from "../_shared/ai/types.ts";
+import { buildPrediction, recordPrediction } from "../_shared/calibration/predictionStore.ts";
 import type {
   AnalysisAggregatorRequest,
   AnalysisAggregatorResponse,
@@ -63,7 +64,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { analyses, x402Results, eventIdentifier, pmType, model } = requestBody;
+    const { analyses, x402Results, eventIdentifier, pmType, model, calibration } = requestBody;
 
     // Validate required parameters
     const hasAnalyses = analyses && Array.isArray(analyses) && analyses.length > 0;
@@ -201,6 +202,20 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Record the prediction for calibration tracking (best-effort). The market is
+    // taken from the agents' predictions in the same run.
+    const prediction = buildPrediction(aggregatedResult, {
+      source: "bookmaker",
+      platform: pmType,
+      model,
+      presetId: calibration?.presetId,
+      analysisRequestId: calibration?.analysisRequestId,
+      eventIdentifier,
+    });
+    if (prediction) {
+      await recordPrediction(prediction);
+    }
+
     const processingTimeMs = Date.now() - startTime;
     console.log("Request completed in", processingTimeMs, "ms");
 
@@ -103,6 +103,18 @@ export interface AnalysisAggregatorRequest {
   pmType: PmType;
   /** AI model to use for aggregation */
   model: string;
+  /** Optional context recorded with the prediction for calibration tracking */
+  calibration?: CalibrationContext;
+}
+
+/**
+ * Context recorded with the bookmaker's prediction
+ */
+export interface CalibrationContext {
+  /** Analysis run shared by the team's agents and bookmaker */
+  analysisRequestId?: string;
+  /** Agent preset the team was loaded from */
+  presetId?: string;
 }
 
 /**
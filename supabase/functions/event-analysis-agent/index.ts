@@ -23,6 +23,7 @@ import type {
   BlockRunMessage,
   BlockRunOutputText,
 } from "../_shared/ai/types.ts";
+import { buildPrediction, recordPrediction } from "../_shared/calibration/predictionStore.ts";
 import type {
   EventAnalysisAgentRequest,
   EventAnalysisAgentResponse,
@@ -91,7 +92,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { markets, eventIdentifier, pmType, model, question, tools, userCommand } = requestBody;
+    const { markets, eventIdentifier, pmType, model, question, tools, userCommand, calibration } = requestBody;
 
     // Validate required parameters
     if (!markets || !Array.isArray(markets) || markets.length === 0) {
@@ -244,6 +245,23 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Record the prediction for calibration tracking (best-effort)
+    const prediction = buildPrediction(analysisResult, {
+      source: "agent",
+      platform: pmType,
+      model,
+      tools: calibration?.tools ?? tools,
+      userCommand,
+      presetId: calibration?.presetId,
+      analysisRequestId: calibration?.analysisRequestId,
+      battleId: calibration?.battleId,
+      contestant: calibration?.contestant,
+      eventIdentifier,
+    }, markets);
+    if (prediction) {
+      await recordPrediction(prediction);
+    }
+
     const processingTimeMs = Date.now() - startTime;
     console.log("Request completed in", processingTimeMs, "ms");
 
@@ -26,6 +26,24 @@ export interface EventAnalysisAgentRequest {
   tools?: GrokTool[];
   /** Optional user command to prioritize in the analysis */
   userCommand?: string;
+  /** Optional context recorded with the prediction for calibration tracking */
+  calibration?: CalibrationContext;
+}
+
+/**
+ * Context recorded with an agent's prediction
+ */
+export interface CalibrationContext {
+  /** Analysis run shared by the team's agents and bookmaker */
+  analysisRequestId?: string;
+  /** Agent preset the team was loaded from */
+  presetId?: string;
+  /** The agent's full tool set, including tools run outside this function (e.g. polyfactual) */
+  tools?: string[];
+  /** Agent battle the analysis is part of */
+  battleId?: string;
+  /** Battle contestant making the analysis */
+  contestant?: string;
 }
 
 /**
@@ -0,0 +1,262 @@
+/**
+ * Supabase Edge Function: kalshi-put-order
+ *
+ * Places a buy limit order on Kalshi for the specified side (yes/no).
+ * Used by the autonomous mode to execute trades on Kalshi and Jupiter
+ * markets based on agent analysis. Takes orderParams from mapper-agent.
+ *
+ * Requires KALSHI_API_KEY_ID and KALSHI_PRIVATE_KEY.
+ *
+ * Every placement attempt is recorded in the trade journal.
+ */
+
+import { type KalshiClient, createKalshiClientFromEnv } from "../_shared/kalshi/client.ts";
+import {
+  resolvePriceLevelStructure,
+  isValidKalshiPrice,
+  estimateKalshiTakerFeeUsd,
+} from "../_shared/kalshi/utils.ts";
+import { recordJournalEntries } from "../_shared/journal/journalStore.ts";
+import type {
+  KalshiPutOrderRequest,
+  KalshiPutOrderResponse,
+  KalshiOrderResult,
+} from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Budget limit, mirrors mapper-agent
+const MAX_COST_USD = 100;
+
+// Market statuses that accept orders
+const OPEN_STATUSES = ["active", "open"];
+
+Deno.serve(async (req: Request) => {
+  const startTime = Date.now();
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  console.log("Received request:", req.method, req.url);
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ success: false, error: "Method not allowed. Use POST." }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse request body
+    let requestBody: KalshiPutOrderRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return new Response(
+        JSON.stringify({ success: false, error: "Invalid JSON in request body" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (requestBody.paperTrading) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Paper trading is only supported for Polymarket orders" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Validate mapper params
+    const params = requestBody.orderParams;
+    if (!params || !params.ticker) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Missing orderParams.ticker" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (params.side !== "yes" && params.side !== "no") {
+      return new Response(
+        JSON.stringify({ success: false, error: "Invalid orderParams.side. Must be 'yes' or 'no'" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!Number.isInteger(params.count) || params.count < 1) {
+      return new Response(
+        JSON.stringify({ success: false, error: "orderParams.count must be a positive integer" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (typeof params.limitPrice !== "number" || params.limitPrice <= 0 || params.limitPrice >= 100) {
+      return new Response(
+        JSON.stringify({ success: false, error: "orderParams.limitPrice must be in cents between 0 and 100" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const costUsd = Math.round(params.count * params.limitPrice) / 100;
+    if (costUsd > MAX_COST_USD) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Order cost must not exceed $${MAX_COST_USD}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Initialize Kalshi client
+    let client: KalshiClient;
+    try {
+      client = createKalshiClientFromEnv();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Failed to initialize Kalshi client: ${errorMsg}`,
+        }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Re-check the live market before trading
+    const market = await client.getMarket(params.ticker);
+
+    if (!market) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Market not found: ${params.ticker}`, logs: client.getLogs() }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!OPEN_STATUSES.includes(market.status.toLowerCase())) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Market is not open for trading (status: ${market.status})`, logs: client.getLogs() }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const priceLevelStructure = resolvePriceLevelStructure(market);
+    if (!isValidKalshiPrice(params.limitPrice, priceLevelStructure)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Invalid limitPrice ${params.limitPrice}¢ for a ${priceLevelStructure} market`,
+          logs: client.getLogs(),
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log("Placing order:", {
+      ticker: params.ticker,
+      side: params.side,
+      limitPrice: params.limitPrice,
+      count: params.count,
+    });
+
+    // Place the order
+    const orderResponse = await client.placeOrder({
+      ticker: params.ticker,
+      side: params.side,
+      action: "buy",
+      count: params.count,
+      priceCents: params.limitPrice,
+    });
+
+    const orderResult: KalshiOrderResult = {
+      success: orderResponse.success,
+      orderId: orderResponse.orderId,
+      status: orderResponse.status,
+      errorMsg: orderResponse.errorMsg,
+      ticker: params.ticker,
+      side: params.side === "yes" ? "YES" : "NO",
+      priceCents: params.limitPrice,
+      count: params.count,
+      costUsd,
+      estimatedFeeUsd: estimateKalshiTakerFeeUsd(params.count, params.limitPrice),
+    };
+
+    // Journal failures are logged but never fail the order
+    await recordJournalEntries([{
+      ...(requestBody.journal || { source: "manual" }),
+      platform: "Kalshi",
+      orderId: orderResponse.orderId,
+      market: market.ticker,
+      marketSlug: market.event_ticker,
+      title: market.title,
+      tokenId: market.ticker,
+      outcome: params.side === "yes" ? "Yes" : "No",
+      price: params.limitPrice / 100,
+      size: params.count,
+      orderParams: { ...params },
+      status: orderResponse.success ? "open" : "failed",
+      error: orderResponse.errorMsg,
+      feeUsd: orderResult.estimatedFeeUsd,
+    }]);
+
+    const processingTimeMs = Date.now() - startTime;
+    console.log("Request completed in", processingTimeMs, "ms");
+
+    if (!orderResponse.success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: orderResponse.errorMsg || "Order placement failed",
+          data: { order: orderResult },
+          logs: client.getLogs(),
+          metadata: {
+            requestId: crypto.randomUUID(),
+            timestamp: new Date().toISOString(),
+            processingTimeMs,
+          },
+        }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const response: KalshiPutOrderResponse = {
+      success: true,
+      data: {
+        order: orderResult,
+        market: {
+          ticker: market.ticker,
+          eventTicker: market.event_ticker,
+          title: market.title,
+        },
+      },
+      logs: client.getLogs(),
+      metadata: {
+        requestId: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        processingTimeMs,
+      },
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+        metadata: {
+          requestId: crypto.randomUUID(),
+          timestamp: new Date().toISOString(),
+          processingTimeMs: Date.now() - startTime,
+        },
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,77 @@
+/**
+ * Type definitions for kalshi-put-order edge function
+ */
+
+import type { KalshiPriceLevelStructure } from "../_shared/kalshi/types.ts";
+import type { JournalContext } from "../_shared/journal/types.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+
+/**
+ * Order parameters from mapper-agent
+ */
+export interface KalshiMapperOrderParams {
+  /** Market ticker */
+  ticker: string;
+  /** Contract side to buy */
+  side: "yes" | "no";
+  /** Number of contracts */
+  count: number;
+  /** Limit price in cents for the chosen side */
+  limitPrice: number;
+  /** Tick rules the mapper rounded to (re-checked against the live market) */
+  priceLevelStructure?: KalshiPriceLevelStructure;
+  /** Event ticker for reference */
+  eventTicker?: string;
+}
+
+/**
+ * Request body for placing a Kalshi order
+ */
+export interface KalshiPutOrderRequest {
+  /** Order parameters from mapper-agent */
+  orderParams: KalshiMapperOrderParams;
+  /** Paper trading is only available for Polymarket; rejected when set */
+  paperTrading?: boolean;
+  /** Trade journal context for the order (defaults to a manual order) */
+  journal?: JournalContext;
+}
+
+/**
+ * Order result details
+ */
+export interface KalshiOrderResult {
+  success: boolean;
+  orderId?: string;
+  status?: string;
+  errorMsg?: string;
+  ticker: string;
+  side: "YES" | "NO";
+  /** Limit price in cents */
+  priceCents: number;
+  count: number;
+  costUsd: number;
+  estimatedFeeUsd: number;
+}
+
+/**
+ * Response from kalshi-put-order endpoint
+ */
+export interface KalshiPutOrderResponse {
+  success: boolean;
+  data?: {
+    order: KalshiOrderResult;
+    market: {
+      ticker: string;
+      eventTicker: string;
+      title: string;
+    };
+  };
+  error?: string;
+  /** Kalshi client logs, once the client is initialized */
+  logs?: BotLogEntry[];
+  metadata: {
+    requestId: string;
+    timestamp: string;
+    processingTimeMs: number;
+  };
+}
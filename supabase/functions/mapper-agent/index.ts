@@ -4,14 +4,20 @@
  * Translates analysis output from bookmaker/analysis agents into platform-specific
  * order parameters that can be used to place orders.
  * 
- * Currently supports: Polymarket
- * Coming soon: Kalshi
+ * Supports: Polymarket, Kalshi (also used for Jupiter prediction markets,
+ * which trade Kalshi markets)
  */
 
+import {
+  resolvePriceLevelStructure,
+  roundToKalshiTick,
+  estimateKalshiTakerFeeUsd,
+} from "../_shared/kalshi/utils.ts";
 import type {
   MapperAgentRequest,
   MapperAgentResponse,
   PolymarketOrderParams,
+  KalshiOrderParams,
   MarketData,
   AnalysisResult,
 } from "./types.ts";
@@ -31,6 +37,10 @@ const DEFAULT_TICK_SIZE = "0.01";
 const DEFAULT_NEG_RISK = false;
 const MIN_SHARES = 5; // Polymarket minimum
 
+// Kalshi constants
+const MIN_CONTRACTS = 1;
+const KALSHI_CLOSED_STATUSES = ["closed", "settled", "determined", "finalized", "inactive"];
+
 /**
  * Parse token IDs from clobTokenIds string
  * Format: '["tokenId1", "tokenId2"]'
@@ -169,6 +179,87 @@ function mapToPolymarketOrder(
   };
 }
 
+/**
+ * Pick the limit price in cents for buying one side of a Kalshi market.
+ * Uses the best ask so the order fills immediately, falling back to the
+ * complement of the opposite side's bid and then the last traded price.
+ */
+function getKalshiEntryPriceCents(marketData: MarketData, buyYes: boolean): number | null {
+  const ask = buyYes ? marketData.yes_ask : marketData.no_ask;
+  const oppositeBid = buyYes ? marketData.no_bid : marketData.yes_bid;
+  const lastPrice = marketData.last_price
+    ? (buyYes ? marketData.last_price : 100 - marketData.last_price)
+    : undefined;
+
+  for (const price of [ask, oppositeBid ? 100 - oppositeBid : undefined, lastPrice]) {
+    if (typeof price === "number" && price > 0 && price < 100) {
+      return price;
+    }
+  }
+  return null;
+}
+
+/**
+ * Map analysis result to Kalshi order parameters
+ */
+function mapToKalshiOrder(
+  analysisResult: AnalysisResult,
+  marketData: MarketData,
+  budgetUsd: number
+): KalshiOrderParams {
+  // Validate market is tradeable
+  if (!marketData.ticker) {
+    throw new Error("Missing ticker in market data");
+  }
+  if (marketData.status && KALSHI_CLOSED_STATUSES.includes(marketData.status.toLowerCase())) {
+    throw new Error(`Market is not open for trading (status: ${marketData.status})`);
+  }
+
+  const buyYes = analysisResult.recommendedAction === "BUY YES";
+  const side: "yes" | "no" = buyYes ? "yes" : "no";
+
+  const entryPrice = getKalshiEntryPriceCents(marketData, buyYes);
+  if (entryPrice === null) {
+    throw new Error(`No ${side.toUpperCase()} price available for ${marketData.ticker}`);
+  }
+
+  // Round up onto the tick grid so the limit still crosses the ask
+  const priceLevelStructure = resolvePriceLevelStructure(marketData);
+  const limitPrice = roundToKalshiTick(entryPrice, priceLevelStructure, "up");
+
+  // Size the order so that cost plus the taker fee fits within the budget
+  let count = Math.floor((budgetUsd * 100) / limitPrice);
+  while (count > 0 && (count * limitPrice) / 100 + estimateKalshiTakerFeeUsd(count, limitPrice) > budgetUsd) {
+    count--;
+  }
+
+  if (count < MIN_CONTRACTS) {
+    throw new Error(
+      `Budget too small. At current price (${limitPrice}¢), minimum budget is ` +
+      `$${(limitPrice / 100 + estimateKalshiTakerFeeUsd(MIN_CONTRACTS, limitPrice)).toFixed(2)} for ${MIN_CONTRACTS} contract`
+    );
+  }
+
+  const estimatedFeeUsd = estimateKalshiTakerFeeUsd(count, limitPrice);
+
+  const orderDescription =
+    `BUY ${count} ${side.toUpperCase()} contracts @ ${limitPrice}¢ ` +
+    `for ~$${((count * limitPrice) / 100).toFixed(2)} (+ ~$${estimatedFeeUsd.toFixed(2)} fee) ` +
+    `on "${marketData.title || marketData.question || marketData.ticker}"`;
+
+  return {
+    ticker: marketData.ticker,
+    eventTicker: marketData.event_ticker || "",
+    side,
+    action: "buy",
+    count,
+    limitPrice,
+    priceLevelStructure,
+    estimatedFeeUsd,
+    orderDescription,
+  };
+}
+
 Deno.serve(async (req: Request) => {
   const startTime = Date.now();
 
@@ -257,40 +348,37 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Handle Kalshi (TODO)
+    // Map to platform-specific order parameters
+    let orderParams: PolymarketOrderParams | KalshiOrderParams;
     if (platform === "Kalshi") {
-      // TODO: Implement Kalshi order mapping when Kalshi autonomous mode is supported
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Kalshi autonomous mode coming soon! Currently only Polymarket is supported.",
-          metadata: {
-            requestId: crypto.randomUUID(),
-            timestamp: new Date().toISOString(),
-            processingTimeMs: Date.now() - startTime,
-          },
-        }),
-        { status: 501, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      console.log("Mapping to Kalshi order...");
+      const kalshiParams = mapToKalshiOrder(analysisResult, marketData, budgetUsd);
+      console.log("Order mapped:", {
+        ticker: kalshiParams.ticker,
+        side: kalshiParams.side,
+        limitPrice: kalshiParams.limitPrice,
+        count: kalshiParams.count,
+      });
+      orderParams = kalshiParams;
+    } else {
+      console.log("Mapping to Polymarket order...");
+      const polymarketParams = mapToPolymarketOrder(analysisResult, marketData, budgetUsd);
+      console.log("Order mapped:", {
+        side: analysisResult.recommendedAction === "BUY YES" ? "YES" : "NO",
+        price: polymarketParams.price,
+        size: polymarketParams.size,
+        tokenId: `${polymarketParams.tokenId.slice(0, 16)}...`,
+      });
+      orderParams = polymarketParams;
     }
 
-    // Map to Polymarket order parameters
-    console.log("Mapping to Polymarket order...");
-    const orderParams = mapToPolymarketOrder(analysisResult, marketData, budgetUsd);
-    console.log("Order mapped:", {
-      side: analysisResult.recommendedAction === "BUY YES" ? "YES" : "NO",
-      price: orderParams.price,
-      size: orderParams.size,
-      tokenId: `${orderParams.tokenId.slice(0, 16)}...`,
-    });
-
     const processingTimeMs = Date.now() - startTime;
     console.log("Mapper Agent completed in", processingTimeMs, "ms");
 
     const response: MapperAgentResponse = {
       success: true,
       data: {
-        platform: "Polymarket",
+        platform,
         orderParams,
         analysis: {
           recommendedAction: analysisResult.recommendedAction,
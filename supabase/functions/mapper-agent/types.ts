@@ -2,9 +2,11 @@
  * Type definitions for mapper-agent edge function
  * 
  * The Mapper Agent translates analysis output into platform-specific order parameters.
- * Currently supports Polymarket. Kalshi support coming soon.
+ * Supports Polymarket and Kalshi (Jupiter prediction markets trade Kalshi markets).
  */
 
+import type { KalshiPriceLevelStructure } from "../_shared/kalshi/types.ts";
+
 /** Supported prediction market platforms */
 export type PlatformType = 'Polymarket' | 'Kalshi';
 
@@ -29,7 +31,7 @@ export interface AnalysisResult {
 }
 
 /**
- * Raw market data from data providers (Dome for Polymarket)
+ * Raw market data from data providers (Gamma for Polymarket, DFlow for Kalshi)
  */
 export interface MarketData {
   /** Market condition ID */
@@ -56,6 +58,28 @@ export interface MarketData {
   title?: string;
   /** Market question */
   question?: string;
+
+  // Kalshi fields (prices in cents)
+  /** Kalshi market ticker */
+  ticker?: string;
+  /** Kalshi event ticker */
+  event_ticker?: string;
+  /** Kalshi market status */
+  status?: string;
+  /** Best YES bid (cents) */
+  yes_bid?: number;
+  /** Best YES ask (cents) */
+  yes_ask?: number;
+  /** Best NO bid (cents) */
+  no_bid?: number;
+  /** Best NO ask (cents) */
+  no_ask?: number;
+  /** Last traded YES price (cents) */
+  last_price?: number;
+  /** Legacy tick size (cents) */
+  tick_size?: number;
+  /** Price level structure (tick rules) */
+  price_level_structure?: KalshiPriceLevelStructure;
 }
 
 /**
@@ -99,14 +123,27 @@ export interface PolymarketOrderParams {
 }
 
 /**
- * Kalshi-specific order parameters (TODO: Coming soon)
+ * Kalshi-specific order parameters
  */
 export interface KalshiOrderParams {
-  // TODO: Implement Kalshi order parameters
+  /** Market ticker */
   ticker: string;
+  /** Event ticker for reference */
+  eventTicker: string;
+  /** Contract side to buy */
   side: "yes" | "no";
+  /** Order action (always buy for autonomous orders) */
+  action: "buy";
+  /** Number of contracts */
   count: number;
+  /** Limit price in cents for the chosen side, on the market's tick grid */
   limitPrice: number;
+  /** Tick rules the limit price was rounded to */
+  priceLevelStructure: KalshiPriceLevelStructure;
+  /** Estimated taker fee in USD if the order fills immediately */
+  estimatedFeeUsd: number;
+  /** Human-readable description of the order */
+  orderDescription: string;
 }
 
 /**
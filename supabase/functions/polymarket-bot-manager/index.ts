@@ -0,0 +1,227 @@
+/**
+ * Supabase Edge Function: polymarket-bot-manager
+ *
+ * Manages persistent 15-minute up/down limit order bots.
+ * Provides the following actions:
+ * 1. list   - List all bots
+ * 2. create - Create a named bot config (optionally starting it)
+ * 3. start  - Start or resume a bot (fires it for the next window immediately)
+ * 4. pause  - Pause a bot (skipped by the scheduler until resumed)
+ * 5. stop   - Stop a bot and cancel its resting orders
+ * 6. runs   - List a bot's persisted runs
+ *
+ * Running bots are fired on every 15-minute window by polymarket-bot-scheduler.
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createClientForRequest } from "../_shared/polymarket/paperClient.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import {
+  isValidAsset,
+  getNext15MinTimestamp,
+  DEFAULT_ORDER_SIZE_USD,
+  DEFAULT_CANCEL_CUTOFF_SECONDS,
+  DEFAULT_FILL_THRESHOLD_PERCENT,
+  normalizeLadder,
+} from "../_shared/polymarket/limitOrderBot.ts";
+import {
+  listBots,
+  createBot,
+  setBotStatus,
+  listBotRuns,
+  runBotForWindow,
+  cancelBotOrders,
+} from "../_shared/polymarket/botStore.ts";
+import type { SupportedAsset, BotLogEntry } from "../_shared/polymarket/types.ts";
+import type {
+  BotConfig,
+  BotManagerRequest,
+  BotManagerResponse,
+  BotRun,
+  BotStatus,
+} from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: BotManagerResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Fire a freshly started bot for the next market window so the user
+ * doesn't have to wait for the scheduler's next tick.
+ */
+async function runImmediately(db: DbClient, bot: BotConfig, logs: BotLogEntry[]): Promise<BotRun[]> {
+  try {
+    const client = createClientForRequest(bot.paperTrading);
+    const run = await runBotForWindow(db, client, bot, getNext15MinTimestamp());
+    return run ? [run] : [];
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Immediate run failed, the scheduler will retry: ${errorMsg}`));
+    return [];
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: BotManagerRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const bots = await listBots(db);
+        return jsonResponse({ success: true, bots, logs });
+      }
+
+      case "create": {
+        const { name, asset, price, sizeUsd, ladder, orderManagement, paperTrading, start } = requestBody;
+
+        if (!asset || !isValidAsset(asset)) {
+          return jsonResponse({
+            success: false,
+            error: "Invalid asset. Must be one of: BTC, SOL, ETH, XRP",
+            logs,
+          }, 400);
+        }
+
+        if (sizeUsd !== undefined && (typeof sizeUsd !== "number" || sizeUsd <= 0)) {
+          return jsonResponse({ success: false, error: "sizeUsd must be a positive number", logs }, 400);
+        }
+
+        if (price !== undefined && (typeof price !== "number" || price <= 0 || price >= 100)) {
+          return jsonResponse({ success: false, error: "price must be a percentage between 0 and 100", logs }, 400);
+        }
+
+        const cutoffSeconds = orderManagement?.cutoffSeconds ?? DEFAULT_CANCEL_CUTOFF_SECONDS;
+        const fillThresholdPercent = orderManagement?.fillThresholdPercent ?? DEFAULT_FILL_THRESHOLD_PERCENT;
+
+        if (typeof cutoffSeconds !== "number" || cutoffSeconds < 0 || cutoffSeconds >= 900) {
+          return jsonResponse({ success: false, error: "orderManagement.cutoffSeconds must be between 0 and 899", logs }, 400);
+        }
+
+        if (typeof fillThresholdPercent !== "number" || fillThresholdPercent <= 0 || fillThresholdPercent > 100) {
+          return jsonResponse({ success: false, error: "orderManagement.fillThresholdPercent must be between 0 and 100", logs }, 400);
+        }
+
+        const normalizedAsset = asset.toUpperCase() as SupportedAsset;
+        const ladderMode = ladder?.enabled ?? false;
+
+        const normalizedLadder = ladderMode ? normalizeLadder(ladder!) : null;
+        if (normalizedLadder && "error" in normalizedLadder) {
+          return jsonResponse({ success: false, error: normalizedLadder.error, logs }, 400);
+        }
+
+        const bot = await createBot(db, {
+          name: name?.trim() || `${normalizedAsset} ${ladderMode ? "Ladder" : "Vanilla"}`,
+          asset: normalizedAsset,
+          price: ladderMode ? undefined : price,
+          sizeUsd: sizeUsd || DEFAULT_ORDER_SIZE_USD,
+          ladder: normalizedLadder?.ladder,
+          orderManagement: orderManagement === null ? undefined : { cutoffSeconds, fillThresholdPercent },
+          paperTrading: paperTrading === true,
+          status: start ? "running" : "stopped",
+        });
+        logs.push(createLogEntry("SUCCESS", `Created bot "${bot.name}"`, { botId: bot.id, status: bot.status, paperTrading: bot.paperTrading }));
+
+        const runs = start ? await runImmediately(db, bot, logs) : [];
+        return jsonResponse({ success: true, bot, runs, logs });
+      }
+
+      case "start":
+      case "pause":
+      case "stop": {
+        const { botId } = requestBody;
+
+        if (!botId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'botId'", logs }, 400);
+        }
+
+        const statusByAction: Record<"start" | "pause" | "stop", BotStatus> = {
+          start: "running",
+          pause: "paused",
+          stop: "stopped",
+        };
+
+        const bot = await setBotStatus(db, botId, statusByAction[action]);
+        if (!bot) {
+          return jsonResponse({ success: false, error: `Bot not found: ${botId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("SUCCESS", `Bot "${bot.name}" is now ${bot.status}`, { botId: bot.id }));
+
+        if (action === "stop") {
+          const client = createClientForRequest(bot.paperTrading);
+          const cancelledOrders = await cancelBotOrders(db, client, bot);
+          logs.push(...client.getLogs());
+          logs.push(createLogEntry("INFO", `Cancelled ${cancelledOrders.length} resting order(s)`, { botId: bot.id }));
+          return jsonResponse({ success: true, bot, cancelledOrders, logs });
+        }
+
+        const runs = action === "start" ? await runImmediately(db, bot, logs) : [];
+        return jsonResponse({ success: true, bot, runs, logs });
+      }
+
+      case "runs": {
+        const { botId, limit } = requestBody;
+
+        if (!botId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'botId'", logs }, 400);
+        }
+
+        const runs = await listBotRuns(db, botId, Math.min(Math.max(limit || 50, 1), 500));
+        return jsonResponse({ success: true, runs, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'create', 'start', 'pause', 'stop', 'runs'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
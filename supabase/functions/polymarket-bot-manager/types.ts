@@ -0,0 +1,140 @@
+/**
+ * Type definitions for polymarket-bot-manager edge function
+ */
+
+import type {
+  SupportedAsset,
+  BotLogEntry,
+  CancelledOrder,
+  OrderManagementConfig,
+  OrderManagementResult,
+} from "../_shared/polymarket/types.ts";
+import type {
+  LadderConfig,
+  MarketOrderResult,
+} from "../polymarket-up-down-15-markets-limit-order-bot/types.ts";
+
+/**
+ * Lifecycle status of a persistent bot
+ * - running: fired by the scheduler on every 15-minute window
+ * - paused: kept with its history, skipped by the scheduler until resumed;
+ *   orders already placed keep resting
+ * - stopped: halted with its resting orders cancelled; can be started again
+ */
+export type BotStatus = "running" | "paused" | "stopped";
+
+/**
+ * Persistent bot configuration
+ */
+export interface BotConfig {
+  /** Bot ID */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Asset to trade */
+  asset: SupportedAsset;
+  /** Order price as percentage (vanilla mode) */
+  price?: number;
+  /** Total bankroll in USD per market window */
+  sizeUsd: number;
+  /** Ladder betting configuration (ladder mode) */
+  ladder?: LadderConfig;
+  /** Post-placement order management (undefined if disabled) */
+  orderManagement?: OrderManagementConfig;
+  /** Whether the bot places simulated paper orders */
+  paperTrading: boolean;
+  /** Current status */
+  status: BotStatus;
+  /** Unix timestamp of the last market window the bot was fired for */
+  lastTargetTimestamp?: number;
+  /** ISO timestamp of the last run */
+  lastRunAt?: string;
+  /** ISO timestamp of creation */
+  createdAt: string;
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
+
+/**
+ * Persisted result of a single bot run
+ */
+export interface BotRun {
+  /** Run ID */
+  id: string;
+  /** Bot that produced the run */
+  botId: string;
+  /** Unix timestamp of the market window */
+  targetTimestamp: number;
+  /** Market slug */
+  marketSlug: string;
+  /** Whether orders were placed without a market-level error */
+  success: boolean;
+  /** Market order result */
+  market: MarketOrderResult;
+  /** Log entries from the run, including later order management passes */
+  logs: BotLogEntry[];
+  /** Latest order management pass */
+  orderManagement?: OrderManagementResult;
+  /** Orders cancelled by the order manager so far */
+  cancelledOrders: CancelledOrder[];
+  /** Whether the order manager is done with the run's orders */
+  ordersFinalized: boolean;
+  /** ISO timestamp of the run */
+  createdAt: string;
+}
+
+/**
+ * Bot manager actions
+ */
+export type BotManagerAction = "list" | "create" | "start" | "pause" | "stop" | "runs";
+
+/**
+ * Request body for the bot manager
+ */
+export interface BotManagerRequest {
+  /** Action to perform */
+  action: BotManagerAction;
+  /** Target bot ID (start, pause, stop, runs) */
+  botId?: string;
+  /** Display name (create) */
+  name?: string;
+  /** Asset to trade (create) */
+  asset?: SupportedAsset;
+  /** Order price as percentage (create, vanilla mode) */
+  price?: number;
+  /** Total bankroll in USD per market window (create) */
+  sizeUsd?: number;
+  /** Ladder betting configuration (create, ladder mode) */
+  ladder?: LadderConfig;
+  /**
+   * Post-placement order management (create). Omitted fields use the
+   * defaults (60s cutoff, 80% fill threshold); null disables it.
+   */
+  orderManagement?: Partial<OrderManagementConfig> | null;
+  /** Place simulated paper orders instead of live ones (create) */
+  paperTrading?: boolean;
+  /** Start the bot immediately after creating it (create) */
+  start?: boolean;
+  /** Maximum number of runs to return (runs). Default: 50 */
+  limit?: number;
+}
+
+/**
+ * Response from the bot manager
+ */
+export interface BotManagerResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Bots (list) */
+  bots?: BotConfig[];
+  /** Affected bot (create, start, pause, stop) */
+  bot?: BotConfig;
+  /** Runs, newest first (runs), or the immediate run triggered by start */
+  runs?: BotRun[];
+  /** Resting orders cancelled by stop */
+  cancelledOrders?: CancelledOrder[];
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
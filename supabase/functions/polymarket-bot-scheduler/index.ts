@@ -0,0 +1,179 @@
+/**
+ * Supabase Edge Function: polymarket-bot-scheduler
+ *
+ * Server-side scheduler for persistent 15-minute up/down limit order bots.
+ * Invoked every minute by pg_cron (see supabase/migrations). Each running bot
+ * is fired once per market window from getNext15MinTimestamp - the first tick
+ * after a 15-minute boundary claims the new window, later ticks are no-ops.
+ * Every tick also runs the order manager on runs whose orders are still
+ * resting, cancelling them at the bot's cutoff or fill threshold.
+ */
+
+import { createDbClient } from "../_shared/db/client.ts";
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { createClientForRequest } from "../_shared/polymarket/paperClient.ts";
+import { createLogEntry, formatTimeShort } from "../_shared/polymarket/utils.ts";
+import { getNext15MinTimestamp } from "../_shared/polymarket/limitOrderBot.ts";
+import {
+  listRunningBots,
+  runBotForWindow,
+  listRunsPendingOrderManagement,
+  manageBotRunOrders,
+} from "../_shared/polymarket/botStore.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { BotSchedulerResponse, ManagedRunResult, ScheduledBotResult } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Method not allowed. Use POST.",
+          logs,
+        } as BotSchedulerResponse),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const db = createDbClient();
+    const targetTimestamp = getNext15MinTimestamp();
+
+    // Find bots that still need to fire for this window
+    const runningBots = await listRunningBots(db);
+    const dueBots = runningBots.filter(
+      bot => bot.lastTargetTimestamp === undefined || bot.lastTargetTimestamp < targetTimestamp
+    );
+
+    // Runs placed on earlier ticks whose orders still rest on the book
+    const pendingRuns = await listRunsPendingOrderManagement(db);
+
+    const results: ScheduledBotResult[] = [];
+    const managedRuns: ManagedRunResult[] = [];
+
+    if (dueBots.length > 0 || pendingRuns.length > 0) {
+      // Live bots trade from the same wallet and paper bots on the same
+      // paper account, so share one client per mode. A mode whose client
+      // fails to start only skips its own bots.
+      const clients = new Map<boolean, PolymarketClient>();
+      const clientErrors = new Map<boolean, string>();
+      for (const paperTrading of new Set([...dueBots, ...pendingRuns.map(r => r.bot)].map(b => b.paperTrading))) {
+        try {
+          clients.set(paperTrading, createClientForRequest(paperTrading));
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          clientErrors.set(paperTrading, `Client initialization failed: ${errorMsg}`);
+          logs.push(createLogEntry("ERROR", `Failed to initialize the ${paperTrading ? "paper" : "live"} client, skipping its bots: ${errorMsg}`));
+        }
+      }
+
+      if (dueBots.length > 0) {
+        logs.push(createLogEntry("INFO", `Firing ${dueBots.length} bot(s) for market ${formatTimeShort(targetTimestamp)}`));
+      }
+
+      for (const bot of dueBots) {
+        const client = clients.get(bot.paperTrading);
+        if (!client) {
+          results.push({ botId: bot.id, name: bot.name, fired: false, error: clientErrors.get(bot.paperTrading) });
+          continue;
+        }
+
+        try {
+          const run = await runBotForWindow(db, client, bot, targetTimestamp);
+          results.push({
+            botId: bot.id,
+            name: bot.name,
+            fired: !!run,
+            runId: run?.id,
+            success: run?.success,
+          });
+
+          if (run) {
+            logs.push(createLogEntry(run.success ? "SUCCESS" : "WARN", `Bot "${bot.name}" fired`, {
+              marketSlug: run.marketSlug,
+              error: run.market.error,
+            }));
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          logs.push(createLogEntry("ERROR", `Bot "${bot.name}" failed: ${errorMsg}`));
+          results.push({ botId: bot.id, name: bot.name, fired: false, error: errorMsg });
+        }
+      }
+
+      for (const { run, bot } of pendingRuns) {
+        const client = clients.get(bot.paperTrading);
+        if (!client) {
+          managedRuns.push({ runId: run.id, botId: bot.id, name: bot.name, cancelled: 0, finalized: false, error: clientErrors.get(bot.paperTrading) });
+          continue;
+        }
+
+        try {
+          const result = await manageBotRunOrders(db, client, run, bot);
+          managedRuns.push({
+            runId: run.id,
+            botId: bot.id,
+            name: bot.name,
+            cancelled: result?.cancelled.length ?? 0,
+            finalized: result?.finalized ?? true,
+          });
+
+          if (result && result.cancelled.length > 0) {
+            logs.push(createLogEntry("WARN", `Bot "${bot.name}" cancelled ${result.cancelled.length} unfilled order(s)`, {
+              marketSlug: run.marketSlug,
+              upFilled: `${result.upFillPercent}%`,
+              downFilled: `${result.downFillPercent}%`,
+            }));
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          logs.push(createLogEntry("ERROR", `Order management for bot "${bot.name}" failed: ${errorMsg}`));
+          managedRuns.push({ runId: run.id, botId: bot.id, name: bot.name, cancelled: 0, finalized: false, error: errorMsg });
+        }
+      }
+    }
+
+    const response: BotSchedulerResponse = {
+      success: true,
+      data: {
+        targetTimestamp,
+        runningBots: runningBots.length,
+        results,
+        managedRuns,
+      },
+      logs,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMsg,
+        logs,
+      } as BotSchedulerResponse),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,64 @@
+/**
+ * Type definitions for polymarket-bot-scheduler edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+
+/**
+ * Outcome of firing a single bot for the current window
+ */
+export interface ScheduledBotResult {
+  /** Bot ID */
+  botId: string;
+  /** Bot name */
+  name: string;
+  /** Whether a run was recorded (false if the window was already claimed) */
+  fired: boolean;
+  /** Recorded run ID */
+  runId?: string;
+  /** Whether the run placed orders without a market-level error */
+  success?: boolean;
+  /** Error message if the bot could not be fired */
+  error?: string;
+}
+
+/**
+ * Outcome of an order management pass for a run
+ */
+export interface ManagedRunResult {
+  /** Run ID */
+  runId: string;
+  /** Bot ID */
+  botId: string;
+  /** Bot name */
+  name: string;
+  /** Number of orders cancelled in this pass */
+  cancelled: number;
+  /** Whether the run's orders no longer need managing */
+  finalized: boolean;
+  /** Error message if the pass failed */
+  error?: string;
+}
+
+/**
+ * Response from the bot scheduler
+ */
+export interface BotSchedulerResponse {
+  /** Whether the tick completed */
+  success: boolean;
+  /** Tick data */
+  data?: {
+    /** Unix timestamp of the market window targeted by this tick */
+    targetTimestamp: number;
+    /** Number of running bots considered */
+    runningBots: number;
+    /** Per-bot outcomes */
+    results: ScheduledBotResult[];
+    /** Order management passes for runs with resting orders */
+    managedRuns: ManagedRunResult[];
+  };
+  /** Log entries from the tick */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
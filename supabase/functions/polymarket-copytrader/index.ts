@@ -0,0 +1,236 @@
+/**
+ * Supabase Edge Function: polymarket-copytrader
+ *
+ * Copytrading: mirrors the Polymarket orders of leader wallets with
+ * configurable sizing, slippage limits, market allow/deny lists and a daily
+ * loss cap. Provides the following actions:
+ * 1. list   - List all copy traders
+ * 2. create - Create a copy trader (optionally starting it)
+ * 3. update - Replace a copy trader's settings
+ * 4. start  - Start or resume copying
+ * 5. pause  - Pause copying
+ * 6. stop   - Stop copying
+ * 7. delete - Delete a copy trader and its trade log
+ * 8. copy   - Copy one leader order
+ * 9. trades - Log of copied, skipped and failed leader orders
+ *
+ * Leader orders are streamed from the Dome WebSocket by the terminal server
+ * (terminal/src/lib/copytrading.ts), which calls `copy` for each one.
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createClientForRequest } from "../_shared/polymarket/paperClient.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import {
+  createCopyTrader,
+  deleteCopyTrader,
+  getCopyTrader,
+  listCopyTraders,
+  listCopyTrades,
+  setCopyTraderStatus,
+  updateCopyTrader,
+  validateCopyTraderSettings,
+} from "../_shared/copytrading/copyTraderStore.ts";
+import { copyLeaderOrder } from "../_shared/copytrading/copier.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { CopyTraderStatus, LeaderOrder } from "../_shared/copytrading/types.ts";
+import type { CopyTraderRequest, CopyTraderResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: CopyTraderResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Validate a leader order, returning the first problem found
+ */
+function validateLeaderOrder(order: LeaderOrder): string | null {
+  if (!order || typeof order !== "object") return "Missing leader order";
+  if (!order.order_hash) return "Leader order has no order_hash";
+  if (!order.user) return "Leader order has no user";
+  if (!order.token_id || !order.condition_id) return "Leader order has no token_id or condition_id";
+  if (order.side !== "BUY" && order.side !== "SELL") return "Leader order side must be BUY or SELL";
+  if (typeof order.price !== "number" || order.price <= 0 || order.price >= 1) return "Leader order price must be between 0 and 1";
+  if (typeof order.shares_normalized !== "number" || order.shares_normalized <= 0) return "Leader order shares_normalized must be positive";
+  return null;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: CopyTraderRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action, copyTraderId } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const copyTraders = await listCopyTraders(db);
+        return jsonResponse({ success: true, copyTraders, logs });
+      }
+
+      case "create": {
+        const { settings, start } = requestBody;
+        if (!settings) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'settings'", logs }, 400);
+        }
+
+        const validationError = validateCopyTraderSettings(settings);
+        if (validationError) {
+          return jsonResponse({ success: false, error: validationError, logs }, 400);
+        }
+
+        const copyTrader = await createCopyTrader(db, settings, start ? "running" : "stopped");
+        logs.push(createLogEntry("SUCCESS", `Created copy trader "${copyTrader.name}"`, {
+          copyTraderId: copyTrader.id,
+          leaders: copyTrader.leaders.length,
+          status: copyTrader.status,
+          paperTrading: copyTrader.paperTrading,
+        }));
+        return jsonResponse({ success: true, copyTrader, logs });
+      }
+
+      case "update": {
+        const { settings } = requestBody;
+        if (!copyTraderId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'copyTraderId'", logs }, 400);
+        }
+        if (!settings) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'settings'", logs }, 400);
+        }
+
+        const validationError = validateCopyTraderSettings(settings);
+        if (validationError) {
+          return jsonResponse({ success: false, error: validationError, logs }, 400);
+        }
+
+        const copyTrader = await updateCopyTrader(db, copyTraderId, settings);
+        if (!copyTrader) {
+          return jsonResponse({ success: false, error: `Copy trader not found: ${copyTraderId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("SUCCESS", `Updated copy trader "${copyTrader.name}"`, { copyTraderId }));
+        return jsonResponse({ success: true, copyTrader, logs });
+      }
+
+      case "start":
+      case "pause":
+      case "stop": {
+        if (!copyTraderId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'copyTraderId'", logs }, 400);
+        }
+
+        const statusByAction: Record<"start" | "pause" | "stop", CopyTraderStatus> = {
+          start: "running",
+          pause: "paused",
+          stop: "stopped",
+        };
+
+        const copyTrader = await setCopyTraderStatus(db, copyTraderId, statusByAction[action]);
+        if (!copyTrader) {
+          return jsonResponse({ success: false, error: `Copy trader not found: ${copyTraderId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("SUCCESS", `Copy trader "${copyTrader.name}" is now ${copyTrader.status}`, { copyTraderId }));
+        return jsonResponse({ success: true, copyTrader, logs });
+      }
+
+      case "delete": {
+        if (!copyTraderId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'copyTraderId'", logs }, 400);
+        }
+
+        const deleted = await deleteCopyTrader(db, copyTraderId);
+        if (!deleted) {
+          return jsonResponse({ success: false, error: `Copy trader not found: ${copyTraderId}`, logs }, 404);
+        }
+        logs.push(createLogEntry("SUCCESS", `Deleted copy trader ${copyTraderId}`));
+        return jsonResponse({ success: true, logs });
+      }
+
+      case "copy": {
+        const { order } = requestBody;
+        if (!copyTraderId) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'copyTraderId'", logs }, 400);
+        }
+        if (!order) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'order'", logs }, 400);
+        }
+
+        const orderError = validateLeaderOrder(order);
+        if (orderError) {
+          return jsonResponse({ success: false, error: orderError, logs }, 400);
+        }
+
+        const copyTrader = await getCopyTrader(db, copyTraderId);
+        if (!copyTrader) {
+          return jsonResponse({ success: false, error: `Copy trader not found: ${copyTraderId}`, logs }, 404);
+        }
+        if (!copyTrader.leaders.includes(order.user.toLowerCase())) {
+          return jsonResponse({ success: false, error: `${order.user} is not a leader of "${copyTrader.name}"`, logs }, 400);
+        }
+        // The order stream may lag a status change by a few seconds
+        if (copyTrader.status !== "running") {
+          logs.push(createLogEntry("INFO", `Copy trader "${copyTrader.name}" is ${copyTrader.status}, order ignored`));
+          return jsonResponse({ success: true, logs });
+        }
+
+        const client = createClientForRequest(copyTrader.paperTrading);
+        const trade = await copyLeaderOrder(db, client, copyTrader, order, logs);
+        return jsonResponse({ success: true, trade: trade ?? undefined, logs });
+      }
+
+      case "trades": {
+        const trades = await listCopyTrades(db, copyTraderId, Math.min(Math.max(requestBody.limit || 100, 1), 500));
+        return jsonResponse({ success: true, trades, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'create', 'update', 'start', 'pause', 'stop', 'delete', 'copy', 'trades'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * Type definitions for polymarket-copytrader edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type {
+  CopyTrade,
+  CopyTrader,
+  CopyTraderSettings,
+  LeaderOrder,
+} from "../_shared/copytrading/types.ts";
+
+/**
+ * Copytrader actions
+ * - list:   list all copy traders
+ * - create: create a copy trader (optionally starting it)
+ * - update: replace a copy trader's settings
+ * - start:  start or resume copying
+ * - pause:  pause copying
+ * - stop:   stop copying
+ * - delete: delete a copy trader and its trade log
+ * - copy:   copy one leader order (sent by the terminal's order stream)
+ * - trades: log of copied, skipped and failed leader orders, newest first
+ */
+export type CopyTraderAction = "list" | "create" | "update" | "start" | "pause" | "stop" | "delete" | "copy" | "trades";
+
+/**
+ * Request body for the copytrader
+ */
+export interface CopyTraderRequest {
+  /** Action to perform */
+  action: CopyTraderAction;
+  /** Target copy trader ID (update, start, pause, stop, delete, copy; optional for trades) */
+  copyTraderId?: string;
+  /** Copy trader settings (create, update) */
+  settings?: CopyTraderSettings;
+  /** Start the copy trader immediately after creating it (create) */
+  start?: boolean;
+  /** Leader order to copy (copy) */
+  order?: LeaderOrder;
+  /** Maximum number of trades to return (trades). Default: 100 */
+  limit?: number;
+}
+
+/**
+ * Response from the copytrader
+ */
+export interface CopyTraderResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Copy traders (list) */
+  copyTraders?: CopyTrader[];
+  /** Affected copy trader (create, update, start, pause, stop) */
+  copyTrader?: CopyTrader;
+  /** Outcome of the leader order (copy); absent if it was already handled */
+  trade?: CopyTrade;
+  /** Copy trades, newest first (trades) */
+  trades?: CopyTrade[];
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
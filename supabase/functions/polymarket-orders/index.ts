@@ -0,0 +1,161 @@
+/**
+ * Supabase Edge Function: polymarket-orders
+ *
+ * Open order management for the Polymarket account.
+ * Provides the following actions:
+ * 1. list          - List open orders (optionally for a market)
+ * 2. cancel        - Cancel orders by ID
+ * 3. cancel-market - Cancel every open order for a market
+ * 4. cancel-all    - Cancel every open order of the account
+ */
+
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { createClientForRequest } from "../_shared/polymarket/paperClient.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { OrdersRequest, OrdersResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: OrdersResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Resolve the market filter to a condition ID (a slug is looked up via Gamma)
+ */
+async function resolveMarket(
+  client: PolymarketClient,
+  requestBody: OrdersRequest,
+  logs: BotLogEntry[]
+): Promise<string | undefined> {
+  if (requestBody.market || !requestBody.marketSlug) {
+    return requestBody.market;
+  }
+
+  const market = await client.getMarketBySlug(requestBody.marketSlug);
+  logs.push(...client.getLogs());
+  client.clearLogs();
+
+  if (!market) {
+    throw new Error(`Market not found: ${requestBody.marketSlug}`);
+  }
+
+  return market.conditionId;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: OrdersRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action } = requestBody;
+
+    // Initialize the Polymarket client
+    let client: PolymarketClient;
+    try {
+      client = createClientForRequest(requestBody.paperTrading);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Client initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const market = await resolveMarket(client, requestBody, logs);
+        const orders = await client.getOpenOrders({ market, assetId: requestBody.assetId });
+        logs.push(...client.getLogs());
+        client.clearLogs();
+
+        return jsonResponse({ success: true, data: { orders }, logs });
+      }
+
+      case "cancel": {
+        const orderIds = requestBody.orderIds || (requestBody.orderId ? [requestBody.orderId] : []);
+
+        if (orderIds.length === 0) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'orderId' or 'orderIds'", logs }, 400);
+        }
+
+        const { canceled, notCanceled } = await client.cancelOrders(orderIds);
+        logs.push(...client.getLogs());
+        client.clearLogs();
+
+        return jsonResponse({
+          success: canceled.length > 0 || Object.keys(notCanceled).length === 0,
+          data: { canceled, notCanceled },
+          logs,
+          error: canceled.length === 0 && Object.keys(notCanceled).length > 0
+            ? `No orders cancelled: ${Object.values(notCanceled)[0]}`
+            : undefined,
+        });
+      }
+
+      case "cancel-market": {
+        const market = await resolveMarket(client, requestBody, logs);
+
+        if (!market && !requestBody.assetId) {
+          return jsonResponse({
+            success: false,
+            error: "Missing required parameter: 'market', 'marketSlug' or 'assetId'",
+            logs,
+          }, 400);
+        }
+
+        const { canceled, notCanceled } = await client.cancelMarketOrders({ market, assetId: requestBody.assetId });
+        logs.push(...client.getLogs());
+        client.clearLogs();
+
+        return jsonResponse({ success: true, data: { canceled, notCanceled }, logs });
+      }
+
+      case "cancel-all": {
+        const { canceled, notCanceled } = await client.cancelAllOrders();
+        logs.push(...client.getLogs());
+        client.clearLogs();
+
+        return jsonResponse({ success: true, data: { canceled, notCanceled }, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'cancel', 'cancel-market', 'cancel-all'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
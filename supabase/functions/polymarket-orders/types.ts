@@ -0,0 +1,55 @@
+/**
+ * Type definitions for polymarket-orders edge function
+ */
+
+import type { BotLogEntry, OpenOrder, PaperTradingOptions } from "../_shared/polymarket/types.ts";
+
+/**
+ * Open order actions
+ * - list: list open orders (optionally for a market)
+ * - cancel: cancel orders by ID
+ * - cancel-market: cancel every open order for a market
+ * - cancel-all: cancel every open order of the account
+ */
+export type OrdersAction = "list" | "cancel" | "cancel-market" | "cancel-all";
+
+/**
+ * Request body for the orders endpoint
+ */
+export interface OrdersRequest {
+  /** Action to perform */
+  action: OrdersAction;
+  /** Market condition ID (list, cancel-market) */
+  market?: string;
+  /** Market slug, resolved to its condition ID (list, cancel-market) */
+  marketSlug?: string;
+  /** Token ID (list, cancel-market) */
+  assetId?: string;
+  /** Order ID to cancel (cancel) */
+  orderId?: string;
+  /** Order IDs to cancel (cancel) */
+  orderIds?: string[];
+  /** Use the simulated paper trading backend instead of the live CLOB (true or paper options) */
+  paperTrading?: boolean | PaperTradingOptions;
+}
+
+/**
+ * Response from the orders endpoint
+ */
+export interface OrdersResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Response data (only present on success) */
+  data?: {
+    /** Open orders (list) */
+    orders?: OpenOrder[];
+    /** IDs of cancelled orders (cancel actions) */
+    canceled?: string[];
+    /** Orders that could not be cancelled, keyed by ID with the reason (cancel actions) */
+    notCanceled?: Record<string, string>;
+  };
+  /** Log entries from the execution */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
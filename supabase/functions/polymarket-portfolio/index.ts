@@ -0,0 +1,114 @@
+/**
+ * Supabase Edge Function: polymarket-portfolio
+ *
+ * Lists every open position of the wallet across all Polymarket markets with
+ * its cost basis, current mark, unrealised PnL and resolution date, grouped
+ * by event.
+ */
+
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { createClientForRequest, PaperPolymarketClient } from "../_shared/polymarket/paperClient.ts";
+import { buildPortfolio } from "../_shared/polymarket/portfolio.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { PortfolioRequest, PortfolioResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      logs.push(createLogEntry("ERROR", "Invalid request method", { method: req.method }));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Method not allowed. Use POST.",
+          logs,
+        } as PortfolioResponse),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse request body
+    let requestBody: PortfolioRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      logs.push(createLogEntry("ERROR", "Invalid JSON in request body"));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Invalid JSON in request body",
+          logs,
+        } as PortfolioResponse),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Initialize the Polymarket client
+    let client: PolymarketClient;
+    try {
+      client = createClientForRequest(requestBody.paperTrading);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize client: ${errorMsg}`));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Client initialization failed: ${errorMsg}`,
+          logs,
+        } as PortfolioResponse),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const portfolio = await buildPortfolio(client);
+    logs.push(...client.getLogs());
+    client.clearLogs();
+
+    logs.push(createLogEntry("SUCCESS", `Portfolio: ${portfolio.totals.positions} position(s) in ${portfolio.totals.events} event(s)`, {
+      costBasis: `$${portfolio.totals.costBasisUsd}`,
+      value: `$${portfolio.totals.currentValueUsd}`,
+      unrealizedPnl: `$${portfolio.totals.unrealizedPnlUsd}`,
+    }));
+
+    const response: PortfolioResponse = {
+      success: true,
+      data: {
+        ...portfolio,
+        paperTrading: client instanceof PaperPolymarketClient,
+      },
+      logs,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMsg,
+        logs,
+      } as PortfolioResponse),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+/**
+ * Type definitions for polymarket-portfolio edge function
+ */
+
+import type { BotLogEntry, PaperTradingOptions, Portfolio } from "../_shared/polymarket/types.ts";
+
+/**
+ * Request body for the portfolio
+ */
+export interface PortfolioRequest {
+  /** Use the simulated paper trading backend instead of the live CLOB (true or paper options) */
+  paperTrading?: boolean | PaperTradingOptions;
+}
+
+/**
+ * Response from the portfolio
+ */
+export interface PortfolioResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Portfolio (only present on success) */
+  data?: Portfolio & {
+    /** Whether the positions belong to the paper trading account */
+    paperTrading: boolean;
+  };
+  /** Log entries from the execution */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -0,0 +1,230 @@
+/**
+ * Supabase Edge Function: polymarket-position-rebalancer
+ *
+ * Rebalances one-sided positions on Polymarket 15-minute up/down markets.
+ * For DIRECTIONAL_YES / DIRECTIONAL_NO positions it buys the missing side at
+ * the max price that keeps pairCost below target, or sells the excess side.
+ */
+
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { createClientForRequest } from "../_shared/polymarket/paperClient.ts";
+import {
+  buildMarketSlug,
+  createLogEntry,
+} from "../_shared/polymarket/utils.ts";
+import { isValidAsset } from "../_shared/polymarket/limitOrderBot.ts";
+import { rebalancePosition } from "../_shared/polymarket/rebalancer.ts";
+import type { SupportedAsset, BotLogEntry } from "../_shared/polymarket/types.ts";
+import type {
+  PositionRebalancerRequest,
+  PositionRebalancerResponse,
+} from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const VALID_MODES = ["auto", "hedge", "flatten"];
+
+/**
+ * Get the current 15-minute market timestamp
+ * Returns the most recent 15-minute block (the current active market)
+ */
+function getCurrent15MinTimestamp(): number {
+  const now = Math.floor(Date.now() / 1000);
+  return Math.floor(now / 900) * 900;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      logs.push(createLogEntry("ERROR", "Invalid request method", { method: req.method }));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Method not allowed. Use POST.",
+          logs,
+        } as PositionRebalancerResponse),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Parse request body
+    let requestBody: PositionRebalancerRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      logs.push(createLogEntry("ERROR", "Invalid JSON in request body"));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Invalid JSON in request body",
+          logs,
+        } as PositionRebalancerResponse),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const {
+      asset,
+      marketSlug: customSlug,
+      tokenIds: customTokenIds,
+      mode = "auto",
+      targetPairCost,
+      dryRun = false,
+    } = requestBody;
+
+    // Validate asset
+    if (!asset || !isValidAsset(asset)) {
+      logs.push(createLogEntry("ERROR", "Invalid or missing asset", { asset }));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "Invalid asset. Must be one of: BTC, SOL, ETH, XRP",
+          logs,
+        } as PositionRebalancerResponse),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Validate mode and target
+    if (!VALID_MODES.includes(mode)) {
+      logs.push(createLogEntry("ERROR", "Invalid mode", { mode }));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Invalid mode. Must be one of: ${VALID_MODES.join(", ")}`,
+          logs,
+        } as PositionRebalancerResponse),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (targetPairCost !== undefined && (typeof targetPairCost !== "number" || targetPairCost <= 0 || targetPairCost > 1)) {
+      logs.push(createLogEntry("ERROR", "Invalid targetPairCost", { targetPairCost }));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: "targetPairCost must be between 0 and 1",
+          logs,
+        } as PositionRebalancerResponse),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const normalizedAsset = asset.toUpperCase() as SupportedAsset;
+
+    // Initialize the Polymarket client
+    let client: PolymarketClient;
+    try {
+      client = createClientForRequest(requestBody.paperTrading);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize client: ${errorMsg}`));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Client initialization failed: ${errorMsg}`,
+          logs,
+        } as PositionRebalancerResponse),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Determine market slug
+    const marketSlug = customSlug || buildMarketSlug(normalizedAsset, getCurrent15MinTimestamp());
+
+    logs.push(createLogEntry("INFO", `Rebalancing position for market: ${marketSlug}`, { mode, dryRun }));
+
+    // Get token IDs (either from request or fetch from market)
+    let tokenIds = customTokenIds;
+    let marketTitle: string | undefined;
+
+    if (!tokenIds) {
+      const market = await client.getMarketBySlug(marketSlug);
+      logs.push(...client.getLogs());
+      client.clearLogs();
+
+      if (!market) {
+        logs.push(createLogEntry("WARN", "Market not found - may not be created yet"));
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: "Market not found - may not be created yet",
+            logs,
+          } as PositionRebalancerResponse),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      marketTitle = market.title;
+
+      try {
+        tokenIds = client.extractTokenIds(market);
+        logs.push(...client.getLogs());
+        client.clearLogs();
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logs.push(createLogEntry("ERROR", `Failed to extract token IDs: ${errorMsg}`));
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: `Token extraction failed: ${errorMsg}`,
+            logs,
+          } as PositionRebalancerResponse),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // Get the current position and rebalance it
+    const position = await client.getMarketPosition(marketSlug, tokenIds, marketTitle);
+    logs.push(...client.getLogs());
+    client.clearLogs();
+
+    const result = await rebalancePosition(client, position, { mode, targetPairCost, dryRun });
+    logs.push(...result.logs);
+
+    const orderFailed = result.order !== undefined && !result.order.success;
+
+    const response: PositionRebalancerResponse = {
+      success: !orderFailed,
+      data: {
+        asset: normalizedAsset,
+        position,
+        plan: result.plan,
+        order: result.order,
+      },
+      logs,
+      error: orderFailed ? `Rebalance order failed: ${result.order?.errorMsg || "unknown error"}` : undefined,
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMsg,
+        logs,
+      } as PositionRebalancerResponse),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
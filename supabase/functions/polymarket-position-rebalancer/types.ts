@@ -0,0 +1,57 @@
+/**
+ * Type definitions for polymarket-position-rebalancer edge function
+ */
+
+import type {
+  SupportedAsset,
+  BotLogEntry,
+  MarketPosition,
+  OrderResponse,
+  RebalancePlan,
+  TokenIds,
+  PaperTradingOptions,
+} from "../_shared/polymarket/types.ts";
+import type { RebalanceMode } from "../_shared/polymarket/rebalancer.ts";
+
+/**
+ * Request body for the position rebalancer
+ */
+export interface PositionRebalancerRequest {
+  /** Asset of the market to rebalance (BTC, SOL, ETH, XRP) */
+  asset: SupportedAsset;
+  /** Market slug (optional - if not provided, uses the current 15-min market) */
+  marketSlug?: string;
+  /** Token IDs for the market (optional - required if marketSlug is custom) */
+  tokenIds?: TokenIds;
+  /** auto (hedge, else flatten), hedge or flatten. Default: auto */
+  mode?: RebalanceMode;
+  /** Pair cost to stay below when hedging (e.g., 0.99). Default: 0.99 */
+  targetPairCost?: number;
+  /** Compute the plan without placing the order */
+  dryRun?: boolean;
+  /** Use the simulated paper trading backend instead of the live CLOB (true or paper options) */
+  paperTrading?: boolean | PaperTradingOptions;
+}
+
+/**
+ * Response from the position rebalancer
+ */
+export interface PositionRebalancerResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Rebalance data (only present on success) */
+  data?: {
+    /** Asset rebalanced */
+    asset: SupportedAsset;
+    /** Position the plan was computed from */
+    position: MarketPosition;
+    /** Rebalance plan */
+    plan: RebalancePlan;
+    /** Order placement result (absent for dry runs and NONE plans) */
+    order?: OrderResponse;
+  };
+  /** Log entries from the execution */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
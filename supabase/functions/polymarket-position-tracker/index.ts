@@ -5,7 +5,8 @@
  * Shows filled orders, average costs, and profit lock status.
  */
 
-import { PolymarketClient, createClientFromEnv } from "../_shared/polymarket/client.ts";
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { createClientForRequest } from "../_shared/polymarket/paperClient.ts";
 import {
   buildMarketSlug,
   createLogEntry,
@@ -103,7 +104,7 @@ Deno.serve(async (req: Request) => {
     // Initialize the Polymarket client
     let client: PolymarketClient;
     try {
-      client = createClientFromEnv();
+      client = createClientForRequest(requestBody.paperTrading);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       logs.push(createLogEntry("ERROR", `Failed to initialize client: ${errorMsg}`));
@@ -2,7 +2,7 @@
  * Type definitions for polymarket-position-tracker edge function
  */
 
-import type { SupportedAsset, BotLogEntry, MarketPosition, TokenIds } from "../_shared/polymarket/types.ts";
+import type { SupportedAsset, BotLogEntry, MarketPosition, TokenIds, PaperTradingOptions } from "../_shared/polymarket/types.ts";
 
 /**
  * Request body for the position tracker
@@ -14,6 +14,8 @@ export interface PositionTrackerRequest {
   marketSlug?: string;
   /** Token IDs for the market (optional - required if marketSlug is custom) */
   tokenIds?: TokenIds;
+  /** Use the simulated paper trading backend instead of the live CLOB (true or paper options) */
+  paperTrading?: boolean | PaperTradingOptions;
 }
 
 /**
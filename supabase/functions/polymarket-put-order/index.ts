@@ -7,9 +7,17 @@
  * Supports two modes:
  * 1. Mapper mode (preferred): Pass orderParams from mapper-agent with pre-calculated values
  * 2. Legacy mode: Pass individual fields and let the endpoint figure out order params
+ *
+ * Set paperTrading (or POLYMARKET_PAPER_TRADING=true) to simulate the order
+ * on a paper account instead of placing it on the CLOB.
+ *
+ * Every placement attempt is recorded in the trade journal with the caller's
+ * `journal` context.
  */
 
-import { PolymarketClient, createClientFromEnv } from "../_shared/polymarket/client.ts";
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { PaperPolymarketClient, createClientForRequest } from "../_shared/polymarket/paperClient.ts";
+import { recordJournalEntries } from "../_shared/journal/journalStore.ts";
 import type {
   PolymarketPutOrderRequest,
   PolymarketPutOrderResponse,
@@ -59,7 +67,7 @@ Deno.serve(async (req: Request) => {
     // Initialize Polymarket client
     let client: PolymarketClient;
     try {
-      client = createClientFromEnv();
+      client = createClientForRequest(requestBody.paperTrading);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       return new Response(
@@ -248,6 +256,24 @@ Deno.serve(async (req: Request) => {
       costUsd: Math.round(size * orderPrice * 100) / 100,
     };
 
+    // Journal failures are logged but never fail the order
+    await recordJournalEntries([{
+      ...(requestBody.journal || { source: "manual" }),
+      platform: "Polymarket",
+      paperTrading: client instanceof PaperPolymarketClient,
+      orderId: orderResponse.orderId,
+      market: conditionId,
+      marketSlug,
+      title: marketTitle || undefined,
+      tokenId,
+      outcome: requestBody.orderParams ? undefined : (side === "YES" ? "Yes" : "No"),
+      price: orderPrice,
+      size,
+      orderParams: requestBody.orderParams ? { ...requestBody.orderParams } : { side, budgetUsd: requestBody.budgetUsd },
+      status: orderResponse.success ? "open" : "failed",
+      error: orderResponse.errorMsg,
+    }]);
+
     const processingTimeMs = Date.now() - startTime;
     console.log("Request completed in", processingTimeMs, "ms");
 
@@ -276,6 +302,7 @@ Deno.serve(async (req: Request) => {
           title: marketTitle,
           conditionId,
         },
+        paperTrading: client instanceof PaperPolymarketClient,
       },
       metadata: {
         requestId: crypto.randomUUID(),
@@ -2,6 +2,9 @@
  * Type definitions for polymarket-put-order edge function
  */
 
+import type { PaperTradingOptions } from "../_shared/polymarket/types.ts";
+import type { JournalContext } from "../_shared/journal/types.ts";
+
 /**
  * Order parameters from mapper-agent (preferred method)
  */
@@ -43,6 +46,12 @@ export interface PolymarketPutOrderRequest {
   budgetUsd?: number;
   /** Optional: specific price to buy at (0-1). If not provided, uses current market price */
   price?: number;
+
+  /** Simulate the order on a paper account instead of sending it to the CLOB */
+  paperTrading?: boolean | PaperTradingOptions;
+
+  /** Trade journal context for the order (defaults to a manual order) */
+  journal?: JournalContext;
 }
 
 /**
@@ -72,6 +81,8 @@ export interface PolymarketPutOrderResponse {
       title: string;
       conditionId: string;
     };
+    /** Whether the order was simulated on a paper account */
+    paperTrading?: boolean;
   };
   error?: string;
   metadata: {
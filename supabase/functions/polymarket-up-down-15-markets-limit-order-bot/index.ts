@@ -3,32 +3,30 @@
  *
  * Automated limit order bot for Polymarket 15-minute up/down markets.
  * Places straddle orders on the closest upcoming market.
+ * Accepts a single asset, or a batch of assets (`assets`) with a global bankroll cap.
  */
 
-import { PolymarketClient, createClientFromEnv } from "../_shared/polymarket/client.ts";
+import type { PolymarketClient } from "../_shared/polymarket/client.ts";
+import { createClientForRequest, PaperPolymarketClient } from "../_shared/polymarket/paperClient.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
 import {
-  buildMarketSlug,
-  formatTimeShort,
-  createLogEntry,
-} from "../_shared/polymarket/utils.ts";
+  getJournalEntries,
+  isValidAsset,
+  normalizeLadder,
+  runLimitOrderBot,
+  runLimitOrderBotBatch,
+} from "../_shared/polymarket/limitOrderBot.ts";
+import { recordJournalEntries } from "../_shared/journal/journalStore.ts";
+import type { NewJournalEntry } from "../_shared/journal/types.ts";
 import type { SupportedAsset, BotLogEntry } from "../_shared/polymarket/types.ts";
 import type {
+  BatchAssetConfig,
   LimitOrderBotRequest,
   LimitOrderBotResponse,
-  MarketOrderResult,
-  LadderConfig,
-  LadderRungResult,
+  LimitOrderBotBatchRequest,
+  LimitOrderBotBatchResponse,
 } from "./types.ts";
 
-// Trading configuration defaults
-const DEFAULT_ORDER_PRICE = 0.48; // 48%
-const DEFAULT_ORDER_SIZE_USD = 25; // $25 total
-
-// Ladder betting defaults
-const DEFAULT_LADDER_MAX_PRICE = 49;
-const DEFAULT_LADDER_MIN_PRICE = 35;
-const DEFAULT_LADDER_TAPER_FACTOR = 1.5;
-
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
@@ -36,26 +34,104 @@ const corsHeaders = {
 };
 
 /**
- * Validate that the asset is supported
+ * Record placed orders in the trade journal. The journal is optional here:
+ * a missing or failing database only produces a warning.
  */
-function isValidAsset(asset: string): asset is SupportedAsset {
-  return ["BTC", "SOL", "ETH", "XRP"].includes(asset.toUpperCase());
+async function recordTrades(entries: NewJournalEntry[], logs: BotLogEntry[]): Promise<void> {
+  const journalError = await recordJournalEntries(entries);
+  if (journalError) {
+    logs.push(createLogEntry("WARN", `Failed to record trades in the journal: ${journalError}`));
+  }
 }
 
 /**
- * Get current UTC timestamp in seconds
+ * Handle a batch request: validate per-asset settings and place all straddles
+ * for the next window in one call
  */
-function nowUtcSeconds(): number {
-  return Math.floor(Date.now() / 1000);
-}
+async function handleBatchRequest(
+  requestBody: LimitOrderBotBatchRequest,
+  logs: BotLogEntry[]
+): Promise<Response> {
+  const { assets, maxTotalBankrollUsd } = requestBody;
+
+  const errorResponse = (error: string, status: number) => {
+    logs.push(createLogEntry("ERROR", error));
+    return new Response(
+      JSON.stringify({ success: false, error, logs } as LimitOrderBotBatchResponse),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  };
 
-/**
- * Get the closest upcoming 15-minute timestamp.
- * Rounds UP to the next 15-minute block.
- */
-function getNext15MinTimestamp(): number {
-  const now = nowUtcSeconds();
-  return Math.ceil(now / 900) * 900;
+  if (assets.length === 0) {
+    return errorResponse("assets must contain at least one asset", 400);
+  }
+
+  // Validate and normalize per-asset settings
+  const normalizedAssets: BatchAssetConfig[] = [];
+  for (const config of assets) {
+    if (typeof config?.asset !== "string" || !isValidAsset(config.asset)) {
+      return errorResponse(`Invalid asset '${config?.asset}'. Must be one of: BTC, SOL, ETH, XRP`, 400);
+    }
+
+    const asset = config.asset.toUpperCase() as SupportedAsset;
+    if (normalizedAssets.some(a => a.asset === asset)) {
+      return errorResponse(`Duplicate asset in batch: ${asset}`, 400);
+    }
+
+    if (config.sizeUsd !== undefined && (typeof config.sizeUsd !== "number" || config.sizeUsd <= 0)) {
+      return errorResponse(`sizeUsd for ${asset} must be a positive number`, 400);
+    }
+
+    if (config.price !== undefined && (typeof config.price !== "number" || config.price <= 0 || config.price >= 100)) {
+      return errorResponse(`price for ${asset} must be a percentage between 0 and 100`, 400);
+    }
+
+    const normalizedLadder = config.ladder?.enabled ? normalizeLadder(config.ladder) : null;
+    if (normalizedLadder && "error" in normalizedLadder) {
+      return errorResponse(`${normalizedLadder.error} for ${asset}`, 400);
+    }
+
+    normalizedAssets.push({ ...config, asset, ...(normalizedLadder ? { ladder: normalizedLadder.ladder } : {}) });
+  }
+
+  if (maxTotalBankrollUsd !== undefined && (typeof maxTotalBankrollUsd !== "number" || maxTotalBankrollUsd <= 0)) {
+    return errorResponse("maxTotalBankrollUsd must be a positive number", 400);
+  }
+
+  // Initialize the Polymarket client
+  let client: PolymarketClient;
+  try {
+    client = createClientForRequest(requestBody.paperTrading);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    return errorResponse(`Client initialization failed: ${errorMsg}`, 500);
+  }
+
+  const result = await runLimitOrderBotBatch(client, normalizedAssets, maxTotalBankrollUsd);
+  logs.push(...result.logs);
+
+  const paperTrading = client instanceof PaperPolymarketClient;
+  await recordTrades(normalizedAssets.flatMap(config => {
+    const market = result.data.markets[config.asset];
+    return market
+      ? getJournalEntries(config.asset, market, { pricePercent: config.price, sizeUsd: result.data.allocations[config.asset] }, { paperTrading })
+      : [];
+  }), logs);
+
+  const { summary } = result.data;
+  const response: LimitOrderBotBatchResponse = {
+    success: summary.assetsFailed === 0,
+    data: result.data,
+    logs,
+    error: summary.assetsFailed > 0
+      ? `${summary.assetsFailed} of ${summary.assetsRequested} asset(s) failed`
+      : undefined,
+  };
+
+  return new Response(JSON.stringify(response), {
+    status: 200,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 }
 
 Deno.serve(async (req: Request) => {
@@ -81,7 +157,7 @@ Deno.serve(async (req: Request) => {
     }
 
     // Parse request body
-    let requestBody: LimitOrderBotRequest;
+    let requestBody: LimitOrderBotRequest | LimitOrderBotBatchRequest;
     try {
       requestBody = await req.json();
     } catch {
@@ -96,7 +172,12 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const { asset, price, sizeUsd, ladder } = requestBody;
+    // Batch mode: several assets in one call
+    if ("assets" in requestBody && Array.isArray(requestBody.assets)) {
+      return await handleBatchRequest(requestBody, logs);
+    }
+
+    const { asset, price, sizeUsd, ladder } = requestBody as LimitOrderBotRequest;
 
     // Validate asset
     if (!asset || !isValidAsset(asset)) {
@@ -113,38 +194,10 @@ Deno.serve(async (req: Request) => {
 
     const normalizedAsset = asset.toUpperCase() as SupportedAsset;
 
-    // Determine if ladder mode is enabled
-    const ladderMode = ladder?.enabled ?? false;
-
-    // Get order configuration from request
-    const orderPrice = price ? price / 100 : DEFAULT_ORDER_PRICE;
-    const orderSizeUsd = sizeUsd || DEFAULT_ORDER_SIZE_USD;
-
-    // Get ladder configuration (with defaults)
-    const ladderConfig: LadderConfig = {
-      enabled: ladderMode,
-      maxPrice: ladder?.maxPrice ?? DEFAULT_LADDER_MAX_PRICE,
-      minPrice: ladder?.minPrice ?? DEFAULT_LADDER_MIN_PRICE,
-      taperFactor: ladder?.taperFactor ?? DEFAULT_LADDER_TAPER_FACTOR,
-    };
-
-    if (ladderMode) {
-      logs.push(createLogEntry("INFO", `Ladder mode enabled`, {
-        maxPrice: `${ladderConfig.maxPrice}%`,
-        minPrice: `${ladderConfig.minPrice}%`,
-        taperFactor: ladderConfig.taperFactor,
-        totalBankroll: `$${orderSizeUsd}`,
-      }));
-    }
-
-    // Get the closest upcoming 15-minute market timestamp
-    const timestamp = getNext15MinTimestamp();
-    const marketSlug = buildMarketSlug(normalizedAsset, timestamp);
-
     // Initialize the Polymarket client
     let client: PolymarketClient;
     try {
-      client = createClientFromEnv();
+      client = createClientForRequest(requestBody.paperTrading);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       logs.push(createLogEntry("ERROR", `Failed to initialize client: ${errorMsg}`));
@@ -158,124 +211,27 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    // Process the market
-    let marketResult: MarketOrderResult;
-
-    try {
-      // Fetch market data
-      const market = await client.getMarketBySlug(marketSlug);
-      logs.push(...client.getLogs());
-      client.clearLogs();
-
-      if (!market) {
-        marketResult = {
-          marketSlug,
-          marketStartTime: formatTimeShort(timestamp),
-          targetTimestamp: timestamp,
-          error: "Market not found - may not be created yet",
-        };
-      } else {
-        // Extract token IDs
-        let tokenIds;
-        try {
-          tokenIds = client.extractTokenIds(market);
-          logs.push(...client.getLogs());
-          client.clearLogs();
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          logs.push(createLogEntry("ERROR", `Failed to extract token IDs: ${errorMsg}`));
-          marketResult = {
-            marketSlug,
-            marketTitle: market.title,
-            marketStartTime: formatTimeShort(timestamp),
-            targetTimestamp: timestamp,
-            error: `Token extraction failed: ${errorMsg}`,
-          };
-
-          return new Response(
-            JSON.stringify({
-              success: false,
-              error: marketResult.error,
-              data: {
-                asset: normalizedAsset,
-                pricePercent: orderPrice * 100,
-                sizeUsd: orderSizeUsd,
-                ladderMode,
-                market: marketResult,
-              },
-              logs,
-            } as LimitOrderBotResponse),
-            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-
-        // Place orders based on mode
-        if (ladderMode) {
-          // Ladder mode: place orders at multiple price levels
-          const ladderResults = await client.placeLadderOrders(
-            tokenIds,
-            orderSizeUsd,
-            ladderConfig.maxPrice!,
-            ladderConfig.minPrice!,
-            ladderConfig.taperFactor!
-          );
-          logs.push(...client.getLogs());
-          client.clearLogs();
-
-          // Convert ladder results to LadderRungResult format
-          const ladderOrdersPlaced: LadderRungResult[] = ladderResults.results.map(r => ({
-            pricePercent: r.pricePercent,
-            sizeUsd: r.sizeUsd,
-            up: r.up,
-            down: r.down,
-          }));
-
-          marketResult = {
-            marketSlug,
-            marketTitle: market.title,
-            marketStartTime: formatTimeShort(timestamp),
-            targetTimestamp: timestamp,
-            ladderOrdersPlaced,
-            ladderTotalOrders: ladderResults.totalOrders,
-            ladderSuccessfulOrders: ladderResults.successfulOrders,
-          };
-        } else {
-          // Simple mode: single straddle order
-          const orderResults = await client.placeStraddleOrders(tokenIds, orderPrice, orderSizeUsd);
-          logs.push(...client.getLogs());
-          client.clearLogs();
-
-          marketResult = {
-            marketSlug,
-            marketTitle: market.title,
-            marketStartTime: formatTimeShort(timestamp),
-            targetTimestamp: timestamp,
-            ordersPlaced: orderResults,
-          };
-        }
-      }
+    // Place orders on the closest upcoming market
+    const result = await runLimitOrderBot(client, {
+      asset: normalizedAsset,
+      price,
+      sizeUsd,
+      ladder,
+    });
+    logs.push(...result.logs);
 
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      logs.push(createLogEntry("ERROR", `Error processing market ${marketSlug}: ${errorMsg}`));
-      marketResult = {
-        marketSlug,
-        marketStartTime: formatTimeShort(timestamp),
-        targetTimestamp: timestamp,
-        error: errorMsg,
-      };
-    }
+    await recordTrades(
+      getJournalEntries(normalizedAsset, result.data.market, { pricePercent: price, sizeUsd }, {
+        paperTrading: client instanceof PaperPolymarketClient,
+      }),
+      logs
+    );
 
     const response: LimitOrderBotResponse = {
-      success: !marketResult.error,
-      data: {
-        asset: normalizedAsset,
-        pricePercent: orderPrice * 100,
-        sizeUsd: orderSizeUsd,
-        ladderMode,
-        market: marketResult,
-      },
+      success: !result.data.market.error,
+      data: result.data,
       logs,
+      error: result.data.market.error,
     };
 
     return new Response(JSON.stringify(response), {
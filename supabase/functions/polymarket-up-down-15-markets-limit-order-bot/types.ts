@@ -2,7 +2,7 @@
  * Type definitions for polymarket-up-down-15-markets-limit-order-bot edge function
  */
 
-import type { SupportedAsset, BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { SupportedAsset, BotLogEntry, PaperTradingOptions } from "../_shared/polymarket/types.ts";
 
 /**
  * Ladder betting configuration
@@ -30,6 +30,38 @@ export interface LimitOrderBotRequest {
   sizeUsd?: number;
   /** Ladder betting configuration */
   ladder?: LadderConfig;
+  /** Place simulated paper orders instead of live ones */
+  paperTrading?: boolean | PaperTradingOptions;
+}
+
+/**
+ * Per-asset settings for a batch request
+ */
+export interface BatchAssetConfig {
+  /** Asset to trade (BTC, SOL, ETH, XRP) */
+  asset: SupportedAsset;
+  /** Order price as percentage (e.g., 48 for 48%). Defaults to 48% - ignored if ladder.enabled */
+  price?: number;
+  /** Bankroll in USD for this asset. Defaults to $25 */
+  sizeUsd?: number;
+  /** Ladder betting configuration */
+  ladder?: LadderConfig;
+}
+
+/**
+ * Batch request body - places orders for several assets in one call
+ */
+export interface LimitOrderBotBatchRequest {
+  /** Assets to trade with per-asset settings (each asset at most once) */
+  assets: BatchAssetConfig[];
+  /**
+   * Global bankroll cap in USD across all assets, counting both sides of every
+   * order (an asset commits twice its sizeUsd). If the committed capital adds
+   * up to more than this, the per-asset bankrolls are scaled down proportionally.
+   */
+  maxTotalBankrollUsd?: number;
+  /** Place simulated paper orders for every asset instead of live ones */
+  paperTrading?: boolean | PaperTradingOptions;
 }
 
 /**
@@ -107,3 +139,48 @@ export interface LimitOrderBotResponse {
   /** Error message (only present on failure) */
   error?: string;
 }
+
+/**
+ * Aggregated summary of a batch run
+ */
+export interface BatchSummary {
+  /** Number of assets requested */
+  assetsRequested: number;
+  /** Assets whose market was processed without error */
+  assetsSucceeded: number;
+  /** Assets whose market failed (not found, token extraction, etc.) */
+  assetsFailed: number;
+  /** Capital the requested bankrolls commit across assets and both sides (USD) */
+  requestedBankrollUsd: number;
+  /** Capital committed across assets and both sides after applying the cap (USD) */
+  allocatedBankrollUsd: number;
+  /** Whether per-asset bankrolls were scaled down to fit the cap */
+  capApplied: boolean;
+  /** Total orders attempted across all assets */
+  totalOrders: number;
+  /** Successful orders across all assets */
+  successfulOrders: number;
+}
+
+/**
+ * Response from a batch request
+ */
+export interface LimitOrderBotBatchResponse {
+  /** Whether every asset was processed without error */
+  success: boolean;
+  /** Response data */
+  data?: {
+    /** Unix timestamp of the targeted market window */
+    targetTimestamp: number;
+    /** Bankroll (sizeUsd, per side) allocated to each asset (USD) */
+    allocations: Partial<Record<SupportedAsset, number>>;
+    /** Market result per asset */
+    markets: Partial<Record<SupportedAsset, MarketOrderResult>>;
+    /** Aggregated summary */
+    summary: BatchSummary;
+  };
+  /** Log entries from the bot execution */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
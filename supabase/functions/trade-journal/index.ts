@@ -0,0 +1,121 @@
+/**
+ * Supabase Edge Function: trade-journal
+ *
+ * Historical trade journal for every order placed by bots, autonomous mode
+ * and manual put-order calls. Provides the following actions:
+ * 1. list - List journal entries
+ * 2. sync - Refresh fills, marks and resolutions of unsettled entries
+ * 3. pnl  - Realised / unrealised PnL by strategy, asset and model
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import { listJournalEntries, listUnsettledJournalEntries } from "../_shared/journal/journalStore.ts";
+import { syncJournalEntries, type JournalSyncResult } from "../_shared/journal/sync.ts";
+import { buildPnlReport } from "../_shared/journal/pnl.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { TradeJournalRequest, TradeJournalResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Entries considered by the PnL report
+const PNL_ENTRY_LIMIT = 5000;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: TradeJournalResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Sync the least recently synced unsettled entries
+ */
+async function syncUnsettled(db: DbClient, limit: number, logs: BotLogEntry[]): Promise<JournalSyncResult> {
+  const entries = await listUnsettledJournalEntries(db, limit);
+  const result = await syncJournalEntries(db, entries);
+
+  logs.push(createLogEntry("SUCCESS", `Synced ${result.synced} of ${entries.length} unsettled trade(s)`, {
+    resolved: result.resolved,
+    errors: result.errors.length,
+  }));
+  for (const { id, error } of result.errors) {
+    logs.push(createLogEntry("WARN", `Failed to sync trade ${id}: ${error}`));
+  }
+
+  return result;
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: TradeJournalRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action, filter, limit } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "list": {
+        const entries = await listJournalEntries(db, filter, Math.min(Math.max(limit || 200, 1), 1000));
+        return jsonResponse({ success: true, entries, logs });
+      }
+
+      case "sync": {
+        const sync = await syncUnsettled(db, Math.min(Math.max(limit || 50, 1), 200), logs);
+        return jsonResponse({ success: true, sync, logs });
+      }
+
+      case "pnl": {
+        const sync = requestBody.sync ? await syncUnsettled(db, 50, logs) : undefined;
+        const entries = await listJournalEntries(db, filter, PNL_ENTRY_LIMIT);
+        const report = buildPnlReport(entries);
+        return jsonResponse({ success: true, report, sync, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'list', 'sync', 'pnl'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
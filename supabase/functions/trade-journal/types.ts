@@ -0,0 +1,47 @@
+/**
+ * Type definitions for trade-journal edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { JournalEntry, JournalFilter, PnlReport } from "../_shared/journal/types.ts";
+import type { JournalSyncResult } from "../_shared/journal/sync.ts";
+
+/**
+ * Trade journal actions
+ * - list: list journal entries, newest first
+ * - sync: refresh fills, marks and resolutions of unsettled entries
+ * - pnl:  realised / unrealised PnL by strategy, asset and model
+ */
+export type TradeJournalAction = "list" | "sync" | "pnl";
+
+/**
+ * Request body for the trade journal
+ */
+export interface TradeJournalRequest {
+  /** Action to perform */
+  action: TradeJournalAction;
+  /** Entry filters (list, pnl) */
+  filter?: JournalFilter;
+  /** Maximum number of entries to return (list) or sync (sync). Default: 200 / 50 */
+  limit?: number;
+  /** Sync unsettled entries before building the report (pnl) */
+  sync?: boolean;
+}
+
+/**
+ * Response from the trade journal
+ */
+export interface TradeJournalResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Journal entries (list) */
+  entries?: JournalEntry[];
+  /** PnL report (pnl) */
+  report?: PnlReport;
+  /** Sync summary (sync, or pnl with sync) */
+  sync?: JournalSyncResult;
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -0,0 +1,149 @@
+/**
+ * Supabase Edge Function: wallet-tracking-history
+ *
+ * Persists the orders of tracked wallets so they can be replayed and
+ * exported. Provides the following actions:
+ * 1. record - Record orders (duplicates are ignored)
+ * 2. list   - Recorded orders by wallet, time range and market
+ * 3. clear  - Delete the recorded orders of a wallet
+ *
+ * Orders are streamed from the Dome WebSocket by the terminal server
+ * (terminal/src/lib/wallet-history.ts), which calls `record` in batches.
+ */
+
+import { createDbClient, type DbClient } from "../_shared/db/client.ts";
+import { createLogEntry } from "../_shared/polymarket/utils.ts";
+import {
+  deleteWalletOrders,
+  listWalletOrders,
+  recordWalletOrders,
+  validateWalletOrderEvent,
+} from "../_shared/tracking/walletOrderStore.ts";
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { WalletHistoryRequest, WalletHistoryResponse } from "./types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Orders accepted per record call
+const MAX_RECORD_BATCH = 500;
+const WALLET_ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: WalletHistoryResponse, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Check an optional ISO time parameter
+ */
+function isValidTime(value?: string): boolean {
+  return value === undefined || !isNaN(Date.parse(value));
+}
+
+Deno.serve(async (req: Request) => {
+  const logs: BotLogEntry[] = [];
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Validate request method
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, error: "Method not allowed. Use POST.", logs }, 405);
+    }
+
+    // Parse request body
+    let requestBody: WalletHistoryRequest;
+    try {
+      requestBody = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON in request body", logs }, 400);
+    }
+
+    const { action } = requestBody;
+
+    // Initialize the database client
+    let db: DbClient;
+    try {
+      db = createDbClient();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logs.push(createLogEntry("ERROR", `Failed to initialize database client: ${errorMsg}`));
+      return jsonResponse({ success: false, error: `Database initialization failed: ${errorMsg}`, logs }, 500);
+    }
+
+    // Route to appropriate handler
+    switch (action) {
+      case "record": {
+        const { orders } = requestBody;
+        if (!Array.isArray(orders)) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'orders'", logs }, 400);
+        }
+        if (orders.length > MAX_RECORD_BATCH) {
+          return jsonResponse({ success: false, error: `At most ${MAX_RECORD_BATCH} orders can be recorded at once`, logs }, 400);
+        }
+
+        const validOrders = orders.filter(order => {
+          const validationError = validateWalletOrderEvent(order);
+          if (validationError) {
+            logs.push(createLogEntry("WARN", `Skipped order: ${validationError}`, { orderHash: order?.order_hash }));
+          }
+          return !validationError;
+        });
+
+        const count = await recordWalletOrders(db, validOrders);
+        return jsonResponse({ success: true, count, logs });
+      }
+
+      case "list": {
+        const { wallets, from, to } = requestBody;
+        const invalidWallet = (wallets || []).find(w => !WALLET_ADDRESS_PATTERN.test(w));
+        if (invalidWallet) {
+          return jsonResponse({ success: false, error: `Invalid wallet address format: ${invalidWallet}`, logs }, 400);
+        }
+        if (!isValidTime(from) || !isValidTime(to)) {
+          return jsonResponse({ success: false, error: "'from' and 'to' must be ISO timestamps", logs }, 400);
+        }
+
+        const orders = await listWalletOrders(db, requestBody);
+        return jsonResponse({ success: true, orders, logs });
+      }
+
+      case "clear": {
+        const { wallet } = requestBody;
+        if (!wallet) {
+          return jsonResponse({ success: false, error: "Missing required parameter: 'wallet'", logs }, 400);
+        }
+        if (!WALLET_ADDRESS_PATTERN.test(wallet)) {
+          return jsonResponse({ success: false, error: `Invalid wallet address format: ${wallet}`, logs }, 400);
+        }
+
+        const count = await deleteWalletOrders(db, wallet);
+        logs.push(createLogEntry("INFO", `Deleted ${count} order(s) of ${wallet}`));
+        return jsonResponse({ success: true, count, logs });
+      }
+
+      default:
+        return jsonResponse({
+          success: false,
+          error: `Unknown action: '${action}'. Valid actions: 'record', 'list', 'clear'`,
+          logs,
+        }, 400);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logs.push(createLogEntry("ERROR", `Unhandled error: ${errorMsg}`));
+    return jsonResponse({ success: false, error: errorMsg, logs }, 500);
+  }
+});
@@ -0,0 +1,42 @@
+/**
+ * Type definitions for wallet-tracking-history edge function
+ */
+
+import type { BotLogEntry } from "../_shared/polymarket/types.ts";
+import type { WalletOrder, WalletOrderEvent, WalletOrderFilter } from "../_shared/tracking/types.ts";
+
+/**
+ * Wallet history actions
+ * - record: record orders of tracked wallets (sent by the terminal's wallet-tracking stream)
+ * - list:   recorded orders matching the filters
+ * - clear:  delete the recorded orders of a wallet
+ */
+export type WalletHistoryAction = "record" | "list" | "clear";
+
+/**
+ * Request body for the wallet history
+ */
+export interface WalletHistoryRequest extends WalletOrderFilter {
+  /** Action to perform */
+  action: WalletHistoryAction;
+  /** Orders to record (record) */
+  orders?: WalletOrderEvent[];
+  /** Wallet whose history is deleted (clear) */
+  wallet?: string;
+}
+
+/**
+ * Response from the wallet history
+ */
+export interface WalletHistoryResponse {
+  /** Whether the request was successful */
+  success: boolean;
+  /** Recorded orders (list) */
+  orders?: WalletOrder[];
+  /** Orders newly recorded (record) or deleted (clear) */
+  count?: number;
+  /** Log entries from the request */
+  logs: BotLogEntry[];
+  /** Error message (only present on failure) */
+  error?: string;
+}
@@ -0,0 +1,78 @@
+-- =============================================================================
+-- Persistent bots for the Polymarket 15-minute up/down limit order bot
+-- =============================================================================
+-- Bot configs are created/started/paused/stopped from the terminal via the
+-- polymarket-bot-manager edge function. The polymarket-bot-scheduler edge
+-- function is invoked every minute by pg_cron and fires each running bot once
+-- per 15-minute market window, persisting the result of every run.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- -----------------------------------------------------------------------------
+-- Bot configurations
+-- -----------------------------------------------------------------------------
+create table if not exists public.bot_configs (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  asset text not null check (asset in ('BTC', 'SOL', 'ETH', 'XRP')),
+  -- Order price as percentage (vanilla mode)
+  price_percent numeric,
+  -- Total bankroll in USD per market window
+  size_usd numeric not null check (size_usd > 0),
+  -- LadderConfig (ladder mode), null for vanilla mode
+  ladder jsonb,
+  status text not null default 'stopped' check (status in ('running', 'paused', 'stopped')),
+  -- Market window (unix seconds) most recently claimed by the scheduler
+  last_target_timestamp bigint,
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists bot_configs_status_idx on public.bot_configs (status);
+
+-- -----------------------------------------------------------------------------
+-- Bot runs (one per bot per market window)
+-- -----------------------------------------------------------------------------
+create table if not exists public.bot_runs (
+  id uuid primary key default gen_random_uuid(),
+  bot_id uuid not null references public.bot_configs (id) on delete cascade,
+  target_timestamp bigint not null,
+  market_slug text not null,
+  success boolean not null,
+  -- MarketOrderResult
+  market_result jsonb not null,
+  -- BotLogEntry[]
+  logs jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (bot_id, target_timestamp)
+);
+
+create index if not exists bot_runs_bot_id_created_at_idx on public.bot_runs (bot_id, created_at desc);
+
+-- Only edge functions (service role) access these tables
+alter table public.bot_configs enable row level security;
+alter table public.bot_runs enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- Scheduler
+-- -----------------------------------------------------------------------------
+-- Requires two Vault secrets (see docs/features/betting-bots.md):
+--   project_url - e.g. https://<project-ref>.supabase.co
+--   anon_key    - the project's anon key
+select cron.schedule(
+  'polymarket-bot-scheduler',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/polymarket-bot-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'anon_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,32 @@
+-- =============================================================================
+-- Post-placement order management for persistent bots
+-- =============================================================================
+-- After a bot places its orders, the polymarket-bot-scheduler checks their
+-- fills on every tick and cancels resting orders once one side is filled
+-- beyond the threshold, and all remaining resting orders at the cutoff before
+-- the market window opens.
+
+-- Cancel all resting orders this many seconds before the window opens
+-- (null disables order management for the bot)
+alter table public.bot_configs
+  add column if not exists cancel_cutoff_seconds integer default 60 check (cancel_cutoff_seconds >= 0);
+
+-- Fill percentage (0-100) at which a side's remaining orders are cancelled
+alter table public.bot_configs
+  add column if not exists fill_threshold_percent numeric not null default 80
+    check (fill_threshold_percent > 0 and fill_threshold_percent <= 100);
+
+-- Latest OrderManagementResult and cumulative cancellations (CancelledOrder[])
+alter table public.bot_runs
+  add column if not exists order_management jsonb;
+
+alter table public.bot_runs
+  add column if not exists cancelled_orders jsonb not null default '[]'::jsonb;
+
+-- Set once no orders are left resting; the scheduler stops checking the run
+alter table public.bot_runs
+  add column if not exists orders_finalized boolean not null default false;
+
+create index if not exists bot_runs_pending_management_idx
+  on public.bot_runs (target_timestamp)
+  where not orders_finalized;
@@ -0,0 +1,85 @@
+-- =============================================================================
+-- Paper trading accounts for the simulated Polymarket execution backend
+-- =============================================================================
+-- When paper trading is enabled (per request or via POLYMARKET_PAPER_TRADING),
+-- edge functions use PaperPolymarketClient instead of the live CLOB client.
+-- Orders, fills and positions are kept here against a virtual USDC balance;
+-- resting orders are filled against fetched (or caller-supplied) order books.
+
+-- -----------------------------------------------------------------------------
+-- Accounts (virtual USDC balance)
+-- -----------------------------------------------------------------------------
+create table if not exists public.paper_accounts (
+  id text primary key,
+  starting_balance_usd numeric not null check (starting_balance_usd >= 0),
+  balance_usd numeric not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- -----------------------------------------------------------------------------
+-- Orders (same shape as CLOB open orders)
+-- -----------------------------------------------------------------------------
+create table if not exists public.paper_orders (
+  id text primary key,
+  account_id text not null references public.paper_accounts (id) on delete cascade,
+  -- Market condition ID
+  market text not null,
+  asset_id text not null,
+  outcome text,
+  side text not null check (side in ('BUY', 'SELL')),
+  price numeric not null check (price > 0 and price < 1),
+  original_size numeric not null check (original_size > 0),
+  size_matched numeric not null default 0,
+  status text not null default 'LIVE' check (status in ('LIVE', 'MATCHED', 'CANCELLED')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists paper_orders_account_status_idx on public.paper_orders (account_id, status);
+
+-- -----------------------------------------------------------------------------
+-- Fills
+-- -----------------------------------------------------------------------------
+create table if not exists public.paper_trades (
+  id uuid primary key default gen_random_uuid(),
+  account_id text not null references public.paper_accounts (id) on delete cascade,
+  order_id text not null references public.paper_orders (id) on delete cascade,
+  market text not null,
+  asset_id text not null,
+  outcome text,
+  side text not null check (side in ('BUY', 'SELL')),
+  price numeric not null,
+  size numeric not null check (size > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists paper_trades_account_created_at_idx on public.paper_trades (account_id, created_at desc);
+
+-- -----------------------------------------------------------------------------
+-- Positions (one row per outcome token)
+-- -----------------------------------------------------------------------------
+create table if not exists public.paper_positions (
+  account_id text not null references public.paper_accounts (id) on delete cascade,
+  asset_id text not null,
+  market text not null,
+  outcome text,
+  size numeric not null default 0,
+  avg_price numeric not null default 0,
+  -- Market end date; resolved positions are settled into the balance after it
+  end_date timestamptz,
+  updated_at timestamptz not null default now(),
+  primary key (account_id, asset_id)
+);
+
+-- Only edge functions (service role) access these tables
+alter table public.paper_accounts enable row level security;
+alter table public.paper_orders enable row level security;
+alter table public.paper_trades enable row level security;
+alter table public.paper_positions enable row level security;
+
+-- -----------------------------------------------------------------------------
+-- Persistent bots can trade on the paper account
+-- -----------------------------------------------------------------------------
+alter table public.bot_configs
+  add column if not exists paper_trading boolean not null default false;
@@ -0,0 +1,62 @@
+-- =============================================================================
+-- Trade journal for every order placed by bots, autonomous mode and manual calls
+-- =============================================================================
+-- One row per order. Rows are written when the order is placed and updated by
+-- the trade-journal function's sync action as the order fills and the market
+-- resolves. Prices are normalised to 0-1 for every platform (Kalshi cents / 100).
+
+create table if not exists public.trade_journal (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- Who placed the order
+  source text not null check (source in ('bot', 'autonomous', 'manual')),
+  platform text not null check (platform in ('Polymarket', 'Kalshi')),
+  -- vanilla / ladder for bots, autonomous for agent orders, manual otherwise
+  strategy text not null,
+  -- Bot asset (BTC, ETH, ...) or the event the order was placed on
+  asset text,
+  -- Model that produced the recommendation (autonomous orders)
+  model text,
+  -- Analysis run that triggered the order (autonomous orders)
+  analysis_request_id text,
+  bot_id uuid references public.bot_configs (id) on delete set null,
+  paper_trading boolean not null default false,
+
+  -- Order
+  order_id text,
+  -- Polymarket condition ID or Kalshi market ticker
+  market text,
+  market_slug text,
+  title text,
+  -- Polymarket outcome token ID or Kalshi market ticker
+  token_id text,
+  -- Outcome bought (Yes / No / Up / Down)
+  outcome text,
+  price numeric not null check (price > 0 and price < 1),
+  size numeric not null check (size > 0),
+  order_params jsonb,
+
+  -- Fills
+  status text not null default 'open' check (status in ('open', 'filled', 'cancelled', 'failed', 'resolved')),
+  filled_size numeric not null default 0,
+  avg_fill_price numeric,
+  fee_usd numeric not null default 0,
+  error text,
+
+  -- Marks and resolution
+  current_price numeric,
+  resolution text check (resolution in ('won', 'lost')),
+  payout_usd numeric,
+  realized_pnl_usd numeric,
+  resolved_at timestamptz,
+  last_synced_at timestamptz
+);
+
+create index if not exists trade_journal_created_at_idx on public.trade_journal (created_at desc);
+create index if not exists trade_journal_status_idx on public.trade_journal (status);
+create index if not exists trade_journal_analysis_request_id_idx on public.trade_journal (analysis_request_id);
+
+-- Only edge functions (service role) access this table
+alter table public.trade_journal enable row level security;
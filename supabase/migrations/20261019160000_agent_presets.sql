@@ -0,0 +1,23 @@
+-- =============================================================================
+-- Saved agent team presets for Super Intelligence
+-- =============================================================================
+-- A preset is a named agent team (models, tools, user commands, PayAI seller)
+-- plus the bookmaker aggregator model. Presets are managed through the
+-- agent-presets edge function and can be exported / imported as JSON.
+
+create table if not exists public.agent_presets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  -- PresetAgent[]
+  agents jsonb not null,
+  -- PresetAggregator, null when the team has a single agent
+  aggregator jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists agent_presets_name_idx on public.agent_presets (name);
+
+-- Only edge functions (service role) access this table
+alter table public.agent_presets enable row level security;
@@ -0,0 +1,54 @@
+-- =============================================================================
+-- Agent predictions for calibration tracking
+-- =============================================================================
+-- One row per MarketAnalysis returned by an analysis agent or the bookmaker.
+-- Rows are written when the analysis completes and resolved by the
+-- agent-calibration function's sync action once the market settles.
+-- Probabilities are stored as 0-1 and always refer to the market's YES outcome
+-- (the first outcome for Polymarket markets).
+
+create table if not exists public.agent_predictions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+
+  -- Who made the prediction
+  source text not null check (source in ('agent', 'bookmaker')),
+  platform text not null check (platform in ('Polymarket', 'Kalshi')),
+  model text not null,
+  tools text[] not null default '{}',
+  user_command text,
+  preset_id uuid references public.agent_presets (id) on delete set null,
+  -- Analysis run the prediction belongs to (shared by its agents and bookmaker)
+  analysis_request_id text,
+
+  -- Market
+  -- Kalshi event ticker or Polymarket event slug
+  event_identifier text not null,
+  -- Kalshi market ticker or Polymarket condition ID, null when it could not be matched
+  market text,
+  -- Market identifier as returned by the model
+  ticker text not null,
+  title text,
+
+  -- Prediction
+  market_probability numeric check (market_probability >= 0 and market_probability <= 1),
+  estimated_probability numeric not null check (estimated_probability >= 0 and estimated_probability <= 1),
+  predicted_winner text not null check (predicted_winner in ('YES', 'NO')),
+  winner_confidence numeric,
+  recommended_action text not null,
+  confidence numeric,
+
+  -- Resolution
+  outcome text check (outcome in ('yes', 'no')),
+  resolved_at timestamptz,
+  last_checked_at timestamptz
+);
+
+create index if not exists agent_predictions_created_at_idx on public.agent_predictions (created_at desc);
+create index if not exists agent_predictions_model_idx on public.agent_predictions (model);
+create index if not exists agent_predictions_preset_id_idx on public.agent_predictions (preset_id);
+create index if not exists agent_predictions_analysis_request_id_idx on public.agent_predictions (analysis_request_id);
+create index if not exists agent_predictions_unresolved_idx on public.agent_predictions (last_checked_at) where outcome is null;
+
+-- Only edge functions (service role) access this table
+alter table public.agent_predictions enable row level security;
@@ -0,0 +1,34 @@
+-- =============================================================================
+-- Agent Battles: head-to-head agent tournaments on live markets
+-- =============================================================================
+-- A battle runs two or more agent configurations (contestants) on the same
+-- markets. Each contestant's analyses are recorded in agent_predictions with
+-- the battle ID and contestant ID, so they resolve through the
+-- agent-calibration sync and are scored by the agent-battles function.
+
+create table if not exists public.agent_battles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  -- BattleContestant[]
+  contestants jsonb not null,
+  -- Event URLs the markets were taken from
+  urls text[] not null default '{}',
+  -- Simulated stake per recommended trade
+  stake_usd numeric not null default 10 check (stake_usd > 0),
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists agent_battles_created_at_idx on public.agent_battles (created_at desc);
+
+-- Only edge functions (service role) access this table
+alter table public.agent_battles enable row level security;
+
+-- Battle predictions
+alter table public.agent_predictions
+  add column if not exists battle_id uuid references public.agent_battles (id) on delete cascade,
+  add column if not exists contestant text;
+
+create index if not exists agent_predictions_battle_id_idx on public.agent_predictions (battle_id);
@@ -0,0 +1,81 @@
+-- =============================================================================
+-- Copytrading: mirror the Polymarket orders of leader wallets
+-- =============================================================================
+-- A copy trader follows one or more leader wallets. The terminal server keeps
+-- a Dome WebSocket subscription open for every running copy trader and sends
+-- each leader order to the polymarket-copytrader edge function, which applies
+-- the copy trader's sizing and risk rules and places the mirrored order.
+-- Every leader order is logged in copy_trades as copied, skipped or failed.
+
+create table if not exists public.copy_traders (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Leader proxy wallet addresses (lowercase)
+  leaders text[] not null,
+  -- fixed: fixed_usd per copied order; proportional: ratio x the leader's order
+  sizing_mode text not null check (sizing_mode in ('fixed', 'proportional')),
+  fixed_usd numeric check (fixed_usd > 0),
+  ratio numeric check (ratio > 0),
+  -- Cap on the net USD bought per market across all copies
+  max_per_market_usd numeric check (max_per_market_usd > 0),
+  -- Max price difference (0-1) accepted vs the leader's price
+  max_slippage numeric not null default 0.02 check (max_slippage >= 0 and max_slippage < 1),
+  -- Market filters: condition IDs or slug fragments
+  allow_markets text[] not null default '{}',
+  deny_markets text[] not null default '{}',
+  -- New BUYs are skipped once the day's copied trades are down this much
+  daily_loss_cap_usd numeric check (daily_loss_cap_usd > 0),
+  copy_sells boolean not null default true,
+  paper_trading boolean not null default false,
+  status text not null default 'stopped' check (status in ('running', 'paused', 'stopped')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists copy_traders_status_idx on public.copy_traders (status);
+
+-- -----------------------------------------------------------------------------
+-- Copy trades (one per copy trader per leader order)
+-- -----------------------------------------------------------------------------
+create table if not exists public.copy_trades (
+  id uuid primary key default gen_random_uuid(),
+  copy_trader_id uuid not null references public.copy_traders (id) on delete cascade,
+
+  -- Leader order
+  leader text not null,
+  leader_order_hash text not null,
+  leader_tx_hash text,
+  side text not null check (side in ('BUY', 'SELL')),
+  token_id text not null,
+  condition_id text not null,
+  market_slug text,
+  title text,
+  outcome text,
+  leader_price numeric not null,
+  leader_shares numeric not null,
+
+  -- Decision and mirrored order
+  status text not null default 'pending' check (status in ('pending', 'copied', 'skipped', 'failed')),
+  reason text,
+  order_id text,
+  price numeric,
+  size numeric,
+  cost_usd numeric,
+  paper_trading boolean not null default false,
+  created_at timestamptz not null default now(),
+
+  -- A leader order is handled once per copy trader, even if it is delivered twice
+  unique (copy_trader_id, leader_order_hash)
+);
+
+create index if not exists copy_trades_copy_trader_id_created_at_idx on public.copy_trades (copy_trader_id, created_at desc);
+create index if not exists copy_trades_condition_id_idx on public.copy_trades (copy_trader_id, condition_id);
+
+-- Only edge functions (service role) access these tables
+alter table public.copy_traders enable row level security;
+alter table public.copy_trades enable row level security;
+
+-- Copied BUYs are recorded in the trade journal
+alter table public.trade_journal drop constraint if exists trade_journal_source_check;
+alter table public.trade_journal
+  add constraint trade_journal_source_check check (source in ('bot', 'autonomous', 'manual', 'copytrade'));
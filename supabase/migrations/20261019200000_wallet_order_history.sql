@@ -0,0 +1,35 @@
+-- =============================================================================
+-- Wallet Tracking history: orders received for tracked wallets
+-- =============================================================================
+-- The terminal server records every order the /api/wallet-tracking stream
+-- delivers, so a wallet's activity can be replayed and exported after the
+-- page is closed. Orders are only recorded while at least one tracker is
+-- following the wallet.
+
+create table if not exists public.wallet_orders (
+  id uuid primary key default gen_random_uuid(),
+  -- Wallet the order belongs to (lowercase)
+  wallet text not null,
+  order_hash text not null,
+  tx_hash text,
+  side text not null check (side in ('BUY', 'SELL')),
+  token_id text not null,
+  condition_id text not null,
+  market_slug text,
+  title text,
+  outcome text,
+  price numeric not null,
+  shares numeric not null,
+  -- When the order was placed (Dome event timestamp)
+  ordered_at timestamptz not null,
+  created_at timestamptz not null default now(),
+
+  -- Several trackers may deliver the same order
+  unique (wallet, order_hash)
+);
+
+create index if not exists wallet_orders_wallet_ordered_at_idx on public.wallet_orders (wallet, ordered_at desc);
+create index if not exists wallet_orders_ordered_at_idx on public.wallet_orders (ordered_at desc);
+
+-- Only edge functions (service role) access this table
+alter table public.wallet_orders enable row level security;
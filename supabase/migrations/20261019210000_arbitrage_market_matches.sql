@@ -0,0 +1,43 @@
+-- =============================================================================
+-- Arbitrage: Polymarket <-> Kalshi market matches
+-- =============================================================================
+-- Pairs of markets (or events) known to ask the same question, or known not
+-- to. arbitrage-finder reuses confirmed matches instead of searching and asks
+-- the model again only for prices; the arbitrage scanner always prices
+-- confirmed pairs and never pairs rejected ones. Matches are proposed by the
+-- scanner, the model or a person, and confirmed or rejected by the model
+-- (high confidence) or a person.
+
+create table if not exists public.arbitrage_market_matches (
+  id uuid primary key default gen_random_uuid(),
+  -- Polymarket condition ID, or the event slug for event-level matches
+  polymarket_id text not null,
+  -- Polymarket event slug (market URL)
+  polymarket_slug text,
+  polymarket_title text not null,
+  -- Kalshi market ticker, or the event ticker for event-level matches
+  kalshi_ticker text not null,
+  kalshi_event_ticker text,
+  kalshi_title text not null,
+  status text not null default 'suggested' check (status in ('suggested', 'confirmed', 'rejected')),
+  -- Confidence that both ask the same question (0-100)
+  confidence numeric check (confidence >= 0 and confidence <= 100),
+  matched_by text not null check (matched_by in ('scanner', 'llm', 'human')),
+  -- Who confirmed or rejected the match
+  reviewed_by text check (reviewed_by in ('llm', 'human')),
+  reviewed_at timestamptz,
+  -- Differences in resolution criteria, sources or deadlines
+  resolution_notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  unique (polymarket_id, kalshi_ticker)
+);
+
+create index if not exists arbitrage_market_matches_kalshi_idx on public.arbitrage_market_matches (kalshi_ticker);
+create index if not exists arbitrage_market_matches_polymarket_slug_idx on public.arbitrage_market_matches (polymarket_slug);
+create index if not exists arbitrage_market_matches_kalshi_event_idx on public.arbitrage_market_matches (kalshi_event_ticker);
+create index if not exists arbitrage_market_matches_status_idx on public.arbitrage_market_matches (status, updated_at desc);
+
+-- Only edge functions (service role) access this table
+alter table public.arbitrage_market_matches enable row level security;
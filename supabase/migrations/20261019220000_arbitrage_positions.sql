@@ -0,0 +1,43 @@
+-- =============================================================================
+-- Arbitrage: executed Polymarket + Kalshi positions
+-- =============================================================================
+-- One row per arbitrage executed by the arbitrage-executor edge function: the
+-- YES and NO legs bought on the two platforms, how many contract pairs were
+-- matched, and any contracts left without the other leg. Each leg's orders
+-- are also recorded in the trade journal.
+
+create table if not exists public.arbitrage_positions (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  -- Polymarket event slug and Kalshi event ticker
+  polymarket_id text,
+  kalshi_id text,
+  -- Leg executions: platform, side, market, limit price, requested / filled /
+  -- unwound contracts and order IDs
+  yes_leg jsonb not null,
+  no_leg jsonb not null,
+  status text not null check (status in ('open', 'cancelled', 'unwound', 'unhedged')),
+  -- Paired YES + NO contracts, each paying out $1
+  size numeric not null default 0,
+  cost_usd numeric not null default 0,
+  expected_profit_usd numeric not null default 0,
+  -- Contracts of one leg held without the other
+  unhedged_size numeric not null default 0,
+  resolution_date timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists arbitrage_positions_created_at_idx on public.arbitrage_positions (created_at desc);
+create index if not exists arbitrage_positions_status_idx on public.arbitrage_positions (status, created_at desc);
+
+-- Only edge functions (service role) access this table
+alter table public.arbitrage_positions enable row level security;
+
+-- Arbitrage legs are recorded in the trade journal
+alter table public.trade_journal drop constraint if exists trade_journal_source_check;
+alter table public.trade_journal
+  add constraint trade_journal_source_check check (source in ('bot', 'autonomous', 'manual', 'copytrade', 'arbitrage'));
+
+-- Unwound arbitrage legs are recorded as sales of the outcome
+alter table public.trade_journal
+  add column if not exists side text not null default 'BUY' check (side in ('BUY', 'SELL'));
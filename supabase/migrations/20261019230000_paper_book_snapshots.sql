@@ -0,0 +1,18 @@
+-- =============================================================================
+-- Last order book each paper account matched against
+-- =============================================================================
+-- Resting paper orders only fill against size that is new since the token's
+-- previous snapshot, so standing liquidity is not filled against on every sync.
+
+create table if not exists public.paper_book_snapshots (
+  account_id text not null references public.paper_accounts (id) on delete cascade,
+  asset_id text not null,
+  -- Levels as [{ price, size }], best first
+  bids jsonb not null default '[]'::jsonb,
+  asks jsonb not null default '[]'::jsonb,
+  updated_at timestamptz not null default now(),
+  primary key (account_id, asset_id)
+);
+
+-- Only edge functions (service role) access this table
+alter table public.paper_book_snapshots enable row level security;
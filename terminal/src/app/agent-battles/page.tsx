@@ -0,0 +1,21 @@
+"use client";
+
+import AgentBattlesTerminal from "@/components/AgentBattlesTerminal";
+import Sidebar from "@/components/Sidebar";
+
+export default function AgentBattlesPage() {
+  return (
+    <div className="flex h-screen">
+      {/* Sidebar Navigation */}
+      <div className="relative z-10 overflow-visible">
+        <Sidebar activeTab="agent-battles" />
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto overflow-x-hidden">
+        <AgentBattlesTerminal />
+      </main>
+    </div>
+  );
+}
+
@@ -0,0 +1,176 @@
+import { NextRequest } from "next/server";
+import type { AgentPipelineEvent, AgentPipelineEventType, AgentPipelineRequest } from "@/types/agentic";
+import { resolvePipelinePreset, runAgentPipeline, validatePipelineRequest } from "@/lib/agent-pipeline";
+import { generateRequestId } from "@/lib/irys";
+
+// Force Node.js runtime (not Edge) so runs outlive the request that started them
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Finished runs stay available for re-attaching for an hour
+const RUN_TTL_MS = 60 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface PipelineRun {
+  events: AgentPipelineEvent[];
+  listeners: Set<(event: AgentPipelineEvent) => void>;
+  finishedAt?: number;
+}
+
+// Runs in progress and recently finished, by run ID
+const runs = new Map<string, PipelineRun>();
+
+function pruneRuns() {
+  const now = Date.now();
+  for (const [runId, run] of runs) {
+    if (run.finishedAt && now - run.finishedAt > RUN_TTL_MS) {
+      runs.delete(runId);
+    }
+  }
+}
+
+function jsonError(error: string, status: number) {
+  return new Response(JSON.stringify({ success: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Start the pipeline in the background; it keeps running if every client disconnects
+ */
+function startRun(runId: string, body: AgentPipelineRequest): PipelineRun {
+  const run: PipelineRun = { events: [], listeners: new Set() };
+  runs.set(runId, run);
+
+  const emit = (type: AgentPipelineEventType, data?: Record<string, unknown>) => {
+    const event: AgentPipelineEvent = { id: run.events.length + 1, type, data, timestamp: new Date().toISOString() };
+    run.events.push(event);
+    run.listeners.forEach(listener => listener(event));
+  };
+
+  emit("run", { runId, mode: body.mode });
+
+  runAgentPipeline(runId, body, emit)
+    .then(result => emit("done", { result }))
+    .catch(error => {
+      console.error("[Agent Pipeline] Run failed:", error);
+      emit("error", { error: error instanceof Error ? error.message : "An unexpected error occurred" });
+    })
+    .finally(() => {
+      run.finishedAt = Date.now();
+      run.listeners.clear();
+    });
+
+  return run;
+}
+
+/**
+ * Stream a run's events after `afterId` over SSE, closing once the run ends
+ */
+function streamRun(run: PipelineRun, request: NextRequest, afterId: number): Response {
+  const encoder = new TextEncoder();
+  let isConnectionClosed = false;
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  let listener: ((event: AgentPipelineEvent) => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const close = () => {
+        if (isConnectionClosed) return;
+        isConnectionClosed = true;
+        if (heartbeatInterval) clearInterval(heartbeatInterval);
+        if (listener) run.listeners.delete(listener);
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+
+      const send = (event: AgentPipelineEvent) => {
+        if (isConnectionClosed) return;
+        try {
+          controller.enqueue(encoder.encode(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          // Connection might be closed
+        }
+        if (event.type === "done" || event.type === "error") close();
+      };
+
+      run.events.filter(e => e.id > afterId).forEach(send);
+      if (run.finishedAt || isConnectionClosed) {
+        close();
+        return;
+      }
+
+      listener = send;
+      run.listeners.add(listener);
+
+      heartbeatInterval = setInterval(() => {
+        send({ id: run.events.length, type: "heartbeat", timestamp: new Date().toISOString() });
+      }, HEARTBEAT_INTERVAL_MS);
+
+      // The run continues without the client; only stop streaming to it
+      request.signal.addEventListener("abort", close);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+/**
+ * Start a pipeline run and stream its progress
+ */
+export async function POST(request: NextRequest) {
+  let body: AgentPipelineRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError("Invalid JSON in request body", 400);
+  }
+
+  try {
+    body = await resolvePipelinePreset(body);
+  } catch (error) {
+    return jsonError(error instanceof Error ? error.message : "Failed to load preset", 400);
+  }
+
+  const validationError = validatePipelineRequest(body);
+  if (validationError) {
+    return jsonError(validationError, 400);
+  }
+
+  pruneRuns();
+  const runId = generateRequestId();
+  const run = startRun(runId, body);
+
+  return streamRun(run, request, 0);
+}
+
+/**
+ * Re-attach to a run: replays the events after `after` (or the Last-Event-ID header)
+ * and follows the run until it ends
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const runId = searchParams.get("runId");
+
+  if (!runId) {
+    return jsonError("runId is required", 400);
+  }
+
+  const run = runs.get(runId);
+  if (!run) {
+    return jsonError(`Run not found: ${runId}`, 404);
+  }
+
+  const afterId = parseInt(searchParams.get("after") || request.headers.get("last-event-id") || "0") || 0;
+  return streamRun(run, request, afterId);
+}
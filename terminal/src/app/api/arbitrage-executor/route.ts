@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ArbitrageExecutorRequest, ArbitrageExecutorResponse } from "@/types/arbitrage";
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 2000; // 2 seconds between retries
+
+const VALID_ACTIONS = ["execute", "list"];
+
+// Only reads are retried: a non-JSON reply to "execute" may come after the
+// orders were placed, and re-sending it would buy both legs again
+const RETRYABLE_ACTIONS = ["list"];
+
+/**
+ * Helper to delay execution
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Call the Supabase Edge Function with retry logic for cold starts
+ */
+async function callEdgeFunction(
+  url: string,
+  headers: Record<string, string>,
+  body: object,
+  maxAttempts: number,
+  attempt: number = 1
+): Promise<{ response: Response; isRetry: boolean }> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  // Check if we got a non-JSON response (likely a timeout/error page)
+  const contentType = response.headers.get("content-type");
+  const isJsonResponse = contentType && contentType.includes("application/json");
+
+  // If non-JSON response and we have retries left, retry (handles cold start timeouts)
+  if (!isJsonResponse && attempt < maxAttempts) {
+    console.log(`Edge function returned non-JSON (attempt ${attempt}/${maxAttempts}), retrying in ${RETRY_DELAY_MS}ms...`);
+    await delay(RETRY_DELAY_MS);
+    return callEdgeFunction(url, headers, body, maxAttempts, attempt + 1);
+  }
+
+  return { response, isRetry: attempt > 1 };
+}
+
+/**
+ * Server-side API route to proxy requests to the Supabase Edge Function (arbitrage-executor).
+ * Executes analysed arbitrages on Polymarket and Kalshi and lists the recorded positions.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Read environment variables server-side
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Server configuration error: Missing Supabase credentials",
+          logs: [{
+            timestamp: new Date().toISOString(),
+            level: "ERROR",
+            message: "Server configuration error: Missing Supabase credentials",
+          }],
+        } as ArbitrageExecutorResponse,
+        { status: 500 }
+      );
+    }
+
+    // Parse request body
+    let body: ArbitrageExecutorRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid JSON in request body",
+          logs: [{
+            timestamp: new Date().toISOString(),
+            level: "ERROR",
+            message: "Invalid JSON in request body",
+          }],
+        } as ArbitrageExecutorResponse,
+        { status: 400 }
+      );
+    }
+
+    // Validate action
+    if (!body.action || !VALID_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid action. Must be one of: ${VALID_ACTIONS.join(", ")}`,
+          logs: [{
+            timestamp: new Date().toISOString(),
+            level: "ERROR",
+            message: `Invalid action: ${body.action}`,
+          }],
+        } as ArbitrageExecutorResponse,
+        { status: 400 }
+      );
+    }
+
+    // Call the Supabase Edge Function, with retry logic for reads only
+    const maxAttempts = RETRYABLE_ACTIONS.includes(body.action) ? MAX_RETRIES : 1;
+    const edgeFunctionUrl = process.env.SUPABASE_EDGE_FUNCTION_ARBITRAGE_EXECUTOR
+      || `${supabaseUrl}/functions/v1/arbitrage-executor`;
+
+    const { response, isRetry } = await callEdgeFunction(
+      edgeFunctionUrl,
+      {
+        Authorization: `Bearer ${supabaseAnonKey}`,
+        apikey: supabaseAnonKey,
+      },
+      body,
+      maxAttempts
+    );
+
+    // Check if response is JSON before parsing
+    const contentType = response.headers.get("content-type");
+    if (!contentType || !contentType.includes("application/json")) {
+      const text = await response.text();
+      console.error("Non-JSON response from edge function:", text.substring(0, 500));
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Edge function error (${response.status}): Server returned non-JSON response after ${maxAttempts} attempt(s). The function may be timing out.${body.action === "execute" ? " Orders may have been placed: check your positions before retrying." : ""}`,
+          logs: [{
+            timestamp: new Date().toISOString(),
+            level: "ERROR",
+            message: `Edge function returned status ${response.status} with non-JSON response`,
+          }],
+        } as ArbitrageExecutorResponse,
+        { status: 502 }
+      );
+    }
+
+    const data: ArbitrageExecutorResponse = await response.json();
+
+    // Add a note if we had to retry
+    if (isRetry && data.logs) {
+      data.logs.unshift({
+        timestamp: new Date().toISOString(),
+        level: "INFO",
+        message: "Request succeeded after retry (cold start recovery)",
+      });
+    }
+
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error("Error in arbitrage-executor API route:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+        logs: [{
+          timestamp: new Date().toISOString(),
+          level: "ERROR",
+          message: error instanceof Error ? error.message : "An unexpected error occurred",
+        }],
+      } as ArbitrageExecutorResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -55,6 +55,7 @@ export async function POST(request: NextRequest) {
       body: JSON.stringify({
         url: body.url,
         model: body.model,
+        settlementCostBps: body.settlementCostBps,
       }),
     });
 
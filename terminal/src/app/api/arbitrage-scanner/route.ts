@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ArbitrageScannerRequest, ArbitrageScannerResponse } from "@/types/arbitrage";
+import {
+  getArbitrageScannerState,
+  startArbitrageScanner,
+  stopArbitrageScanner,
+  subscribeArbitrageScanner,
+  validateArbitrageScannerSettings,
+} from "@/lib/arbitrage-scanner";
+
+// Force Node.js runtime (not Edge) for the long-lived scanner
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VALID_ACTIONS = ["get", "start", "stop"];
+
+/**
+ * Streams arbitrage opportunities and scanner status changes to the browser (SSE)
+ */
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let isConnectionClosed = false;
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const sendEvent = (type: string, data: unknown) => {
+        if (isConnectionClosed) return;
+        try {
+          const message = JSON.stringify({
+            type,
+            data,
+            timestamp: new Date().toISOString(),
+          });
+          controller.enqueue(encoder.encode(`data: ${message}\n\n`));
+        } catch {
+          // Connection might be closed
+        }
+      };
+
+      const state = getArbitrageScannerState();
+      sendEvent("status", state.status);
+      sendEvent("opportunities", state.opportunities);
+      unsubscribe = subscribeArbitrageScanner((event, data) => sendEvent(event, data));
+
+      // Send periodic heartbeats (every 30 seconds)
+      heartbeatInterval = setInterval(() => {
+        sendEvent("heartbeat", { status: "alive" });
+      }, 30000);
+
+      // Handle stream cancellation
+      request.signal.addEventListener("abort", () => {
+        isConnectionClosed = true;
+        if (heartbeatInterval) {
+          clearInterval(heartbeatInterval);
+        }
+        unsubscribe?.();
+        unsubscribe = null;
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+/**
+ * Server-side API route to control the arbitrage scanner (lib/arbitrage-scanner.ts).
+ * Starts, restarts and stops it, and returns its settings, status and current opportunities.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    let body: ArbitrageScannerRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" } as ArbitrageScannerResponse,
+        { status: 400 }
+      );
+    }
+
+    // Validate action
+    if (!body.action || !VALID_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid action. Must be one of: ${VALID_ACTIONS.join(", ")}` } as ArbitrageScannerResponse,
+        { status: 400 }
+      );
+    }
+
+    switch (body.action) {
+      case "start": {
+        if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
+          return NextResponse.json(
+            { success: false, error: "Server configuration error: Missing Supabase credentials" } as ArbitrageScannerResponse,
+            { status: 500 }
+          );
+        }
+
+        const validationError = validateArbitrageScannerSettings(body.settings);
+        if (validationError) {
+          return NextResponse.json(
+            { success: false, error: validationError } as ArbitrageScannerResponse,
+            { status: 400 }
+          );
+        }
+        startArbitrageScanner(body.settings!);
+        break;
+      }
+
+      case "stop":
+        stopArbitrageScanner();
+        break;
+    }
+
+    const state = getArbitrageScannerState();
+    return NextResponse.json({
+      success: true,
+      settings: state.settings ?? undefined,
+      status: state.status,
+      opportunities: state.opportunities,
+    } as ArbitrageScannerResponse);
+  } catch (error) {
+    console.error("Error in arbitrage-scanner API route:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+      } as ArbitrageScannerResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -82,6 +82,7 @@ export async function POST(request: NextRequest) {
         eventIdentifier: body.eventIdentifier,
         pmType: body.pmType,
         model: body.model,
+        calibration: body.calibration,
       }),
     });
 
@@ -80,6 +80,7 @@ export async function POST(request: NextRequest) {
         question: body.question,
         tools: body.tools,
         userCommand: body.userCommand,
+        calibration: body.calibration,
       }),
     });
 
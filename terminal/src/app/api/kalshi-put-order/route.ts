@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { JournalContext } from "@/types/trade-journal";
+
+/**
+ * Kalshi order parameters from mapper-agent
+ */
+interface KalshiMapperOrderParams {
+  ticker: string;
+  side: "yes" | "no";
+  count: number;
+  /** Limit price in cents */
+  limitPrice: number;
+  priceLevelStructure?: string;
+  eventTicker?: string;
+}
+
+/**
+ * Request body for placing a Kalshi order
+ */
+interface KalshiPutOrderRequest {
+  orderParams: KalshiMapperOrderParams;
+  /** Paper trading is only available for Polymarket orders */
+  paperTrading?: boolean;
+  /** Trade journal context for the order */
+  journal?: JournalContext;
+}
+
+/**
+ * Server-side API route to proxy requests to the kalshi-put-order Edge Function.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Server configuration error: Missing Supabase credentials",
+        },
+        { status: 500 }
+      );
+    }
+
+    const body: KalshiPutOrderRequest = await request.json();
+
+    if (!body.orderParams?.ticker) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Missing required field: orderParams.ticker",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (body.orderParams.side !== "yes" && body.orderParams.side !== "no") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid field: orderParams.side must be 'yes' or 'no'",
+        },
+        { status: 400 }
+      );
+    }
+
+    const edgeFunctionUrl = process.env.SUPABASE_EDGE_FUNCTION_KALSHI_PUT_ORDER
+      || `${supabaseUrl}/functions/v1/kalshi-put-order`;
+
+    const response = await fetch(edgeFunctionUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${supabaseAnonKey}`,
+        apikey: supabaseAnonKey,
+      },
+      body: JSON.stringify({
+        orderParams: body.orderParams,
+        paperTrading: body.paperTrading,
+        journal: body.journal,
+      }),
+    });
+
+    const data = await response.json();
+
+    return NextResponse.json(data, { status: response.status });
+  } catch (error) {
+    console.error("Error in kalshi-put-order API route:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
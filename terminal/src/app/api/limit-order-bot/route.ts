@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { LimitOrderBotRequest, LimitOrderBotResponse } from "@/types/betting-bot";
+import type {
+  LimitOrderBotRequest,
+  LimitOrderBotResponse,
+  LimitOrderBotBatchRequest,
+  LimitOrderBotBatchResponse,
+} from "@/types/betting-bot";
 
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 2000; // 2 seconds between retries
 
+const VALID_ASSETS = ["BTC", "SOL", "ETH", "XRP"];
+
 /**
  * Helper to delay execution
  */
@@ -45,6 +52,7 @@ async function callEdgeFunction(
 
 /**
  * Server-side API route to proxy requests to the Supabase Edge Function (polymarket-up-down-15-markets-limit-order-bot).
+ * Accepts a single-asset request or a batch request (`assets` + optional `maxTotalBankrollUsd`).
  * This keeps the Supabase URL and keys secure on the server.
  * Includes retry logic to handle cold start timeouts.
  */
@@ -70,7 +78,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse request body
-    let body: LimitOrderBotRequest;
+    let body: LimitOrderBotRequest | LimitOrderBotBatchRequest;
     try {
       body = await request.json();
     } catch {
@@ -88,37 +96,89 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate required fields
-    if (!body.asset) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Missing required field: asset",
-          logs: [{
-            timestamp: new Date().toISOString(),
-            level: "ERROR",
-            message: "Missing required field: asset",
-          }],
-        } as LimitOrderBotResponse,
-        { status: 400 }
-      );
-    }
+    // Batch mode: validate each asset and forward the batch
+    const isBatch = "assets" in body && Array.isArray(body.assets);
+    let edgeFunctionBody: object;
+
+    if (isBatch) {
+      const batch = body as LimitOrderBotBatchRequest;
+      const invalidAsset = batch.assets.find(a => !a?.asset || !VALID_ASSETS.includes(a.asset.toUpperCase()));
+
+      if (batch.assets.length === 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "assets must contain at least one asset",
+            logs: [{
+              timestamp: new Date().toISOString(),
+              level: "ERROR",
+              message: "assets must contain at least one asset",
+            }],
+          } as LimitOrderBotBatchResponse,
+          { status: 400 }
+        );
+      }
 
-    // Validate asset value
-    const validAssets = ["BTC", "SOL", "ETH", "XRP"];
-    if (!validAssets.includes(body.asset.toUpperCase())) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: `Invalid asset. Must be one of: ${validAssets.join(", ")}`,
-          logs: [{
-            timestamp: new Date().toISOString(),
-            level: "ERROR",
-            message: `Invalid asset: ${body.asset}`,
-          }],
-        } as LimitOrderBotResponse,
-        { status: 400 }
-      );
+      if (invalidAsset) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Invalid asset. Must be one of: ${VALID_ASSETS.join(", ")}`,
+            logs: [{
+              timestamp: new Date().toISOString(),
+              level: "ERROR",
+              message: `Invalid asset: ${invalidAsset?.asset}`,
+            }],
+          } as LimitOrderBotBatchResponse,
+          { status: 400 }
+        );
+      }
+
+      edgeFunctionBody = {
+        assets: batch.assets.map(a => ({ ...a, asset: a.asset.toUpperCase() })),
+        maxTotalBankrollUsd: batch.maxTotalBankrollUsd,
+      };
+    } else {
+      const single = body as LimitOrderBotRequest;
+
+      // Validate required fields
+      if (!single.asset) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Missing required field: asset",
+            logs: [{
+              timestamp: new Date().toISOString(),
+              level: "ERROR",
+              message: "Missing required field: asset",
+            }],
+          } as LimitOrderBotResponse,
+          { status: 400 }
+        );
+      }
+
+      // Validate asset value
+      if (!VALID_ASSETS.includes(single.asset.toUpperCase())) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Invalid asset. Must be one of: ${VALID_ASSETS.join(", ")}`,
+            logs: [{
+              timestamp: new Date().toISOString(),
+              level: "ERROR",
+              message: `Invalid asset: ${single.asset}`,
+            }],
+          } as LimitOrderBotResponse,
+          { status: 400 }
+        );
+      }
+
+      edgeFunctionBody = {
+        asset: single.asset.toUpperCase(),
+        price: single.price,
+        sizeUsd: single.sizeUsd,
+        ladder: single.ladder,
+      };
     }
 
     // Call the Supabase Edge Function with retry logic
@@ -131,12 +191,7 @@ export async function POST(request: NextRequest) {
         Authorization: `Bearer ${supabaseAnonKey}`,
         apikey: supabaseAnonKey,
       },
-      {
-        asset: body.asset.toUpperCase(),
-        price: body.price,
-        sizeUsd: body.sizeUsd,
-        ladder: body.ladder,
-      }
+      edgeFunctionBody
     );
 
     // Check if response is JSON before parsing
@@ -158,7 +213,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const data: LimitOrderBotResponse = await response.json();
+    const data: LimitOrderBotResponse | LimitOrderBotBatchResponse = await response.json();
 
     // Add a note if we had to retry
     if (isRetry && data.logs) {
@@ -29,6 +29,17 @@ interface MarketData {
   negRisk?: boolean;
   title?: string;
   question?: string;
+  // Kalshi fields (prices in cents)
+  ticker?: string;
+  event_ticker?: string;
+  status?: string;
+  yes_bid?: number;
+  yes_ask?: number;
+  no_bid?: number;
+  no_ask?: number;
+  last_price?: number;
+  tick_size?: number;
+  price_level_structure?: string;
 }
 
 /**
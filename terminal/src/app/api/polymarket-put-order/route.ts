@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { JournalContext } from "@/types/trade-journal";
 
 /**
  * Order parameters from mapper-agent
@@ -27,6 +28,10 @@ interface PolymarketPutOrderRequest {
   side?: "YES" | "NO";
   budgetUsd?: number;
   price?: number;
+  /** Simulate the order on the paper trading account */
+  paperTrading?: boolean;
+  /** Trade journal context for the order */
+  journal?: JournalContext;
 }
 
 /**
@@ -114,12 +119,14 @@ export async function POST(request: NextRequest) {
         Authorization: `Bearer ${supabaseAnonKey}`,
         apikey: supabaseAnonKey,
       },
-      body: JSON.stringify(body.orderParams ? { orderParams: body.orderParams } : {
+      body: JSON.stringify(body.orderParams ? { orderParams: body.orderParams, paperTrading: body.paperTrading, journal: body.journal } : {
         conditionId: body.conditionId,
         marketSlug: body.marketSlug,
         side: body.side,
         budgetUsd: body.budgetUsd,
         price: body.price,
+        paperTrading: body.paperTrading,
+        journal: body.journal,
       }),
     });
 
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWalletProfile } from "@/lib/wallet-profile";
+import type { WalletProfileResponse } from "@/types/wallet-tracking";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Historical trading profile of a Polymarket wallet (see lib/wallet-profile.ts)
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const walletAddress = searchParams.get("wallet");
+
+  if (!walletAddress) {
+    return NextResponse.json(
+      { success: false, error: "Wallet address is required" } as WalletProfileResponse,
+      { status: 400 }
+    );
+  }
+
+  // Validate wallet address format
+  if (!walletAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid wallet address format" } as WalletProfileResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profile = await getWalletProfile(walletAddress);
+    return NextResponse.json({ success: true, profile } as WalletProfileResponse);
+  } catch (error) {
+    console.error("Error in wallet-profile API route:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+      } as WalletProfileResponse,
+      { status: 502 }
+    );
+  }
+}
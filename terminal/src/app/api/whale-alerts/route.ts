@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { WhaleAlertRequest, WhaleAlertResponse } from "@/types/whale-alerts";
+import {
+  getWhaleAlertState,
+  sendTestAlert,
+  startWhaleAlerts,
+  stopWhaleAlerts,
+  subscribeWhaleAlerts,
+  validateWhaleAlertSettings,
+} from "@/lib/whale-alerts";
+import { validateSink } from "@/lib/whale-alert-sinks";
+
+// Force Node.js runtime (not Edge) for the WebSocket order stream
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const VALID_ACTIONS = ["get", "start", "stop", "test-sink"];
+
+/**
+ * Streams whale alerts and monitor status changes to the browser (SSE)
+ */
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let isConnectionClosed = false;
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const sendEvent = (type: string, data: unknown) => {
+        if (isConnectionClosed) return;
+        try {
+          const message = JSON.stringify({
+            type,
+            data,
+            timestamp: new Date().toISOString(),
+          });
+          controller.enqueue(encoder.encode(`data: ${message}\n\n`));
+        } catch {
+          // Connection might be closed
+        }
+      };
+
+      sendEvent("status", getWhaleAlertState().status);
+      unsubscribe = subscribeWhaleAlerts((event, data) => sendEvent(event, data));
+
+      // Send periodic heartbeats (every 30 seconds)
+      heartbeatInterval = setInterval(() => {
+        sendEvent("heartbeat", { status: "alive" });
+      }, 30000);
+
+      // Handle stream cancellation
+      request.signal.addEventListener("abort", () => {
+        isConnectionClosed = true;
+        if (heartbeatInterval) {
+          clearInterval(heartbeatInterval);
+        }
+        unsubscribe?.();
+        unsubscribe = null;
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    },
+  });
+}
+
+/**
+ * Server-side API route to control the whale alert monitor (lib/whale-alerts.ts).
+ * Starts, restarts and stops it, returns its settings, status and recent alerts,
+ * and sends sample alerts to sinks.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    let body: WhaleAlertRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" } as WhaleAlertResponse,
+        { status: 400 }
+      );
+    }
+
+    // Validate action
+    if (!body.action || !VALID_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid action. Must be one of: ${VALID_ACTIONS.join(", ")}` } as WhaleAlertResponse,
+        { status: 400 }
+      );
+    }
+
+    switch (body.action) {
+      case "start": {
+        if (!process.env.DOME_API_KEY) {
+          return NextResponse.json(
+            { success: false, error: "DOME_API_KEY not configured" } as WhaleAlertResponse,
+            { status: 500 }
+          );
+        }
+
+        const validationError = validateWhaleAlertSettings(body.settings);
+        if (validationError) {
+          return NextResponse.json(
+            { success: false, error: validationError } as WhaleAlertResponse,
+            { status: 400 }
+          );
+        }
+        startWhaleAlerts(body.settings!);
+        break;
+      }
+
+      case "stop":
+        stopWhaleAlerts();
+        break;
+
+      case "test-sink": {
+        const sinkError = body.sink ? validateSink(body.sink) : "Missing required parameter: 'sink'";
+        if (sinkError) {
+          return NextResponse.json(
+            { success: false, error: sinkError } as WhaleAlertResponse,
+            { status: 400 }
+          );
+        }
+
+        try {
+          await sendTestAlert(body.sink!);
+        } catch (error) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `Sink delivery failed: ${error instanceof Error ? error.message : String(error)}`,
+            } as WhaleAlertResponse,
+            { status: 502 }
+          );
+        }
+        break;
+      }
+    }
+
+    const state = getWhaleAlertState();
+    return NextResponse.json({
+      success: true,
+      settings: state.settings ?? undefined,
+      status: state.status,
+      alerts: state.alerts,
+    } as WhaleAlertResponse);
+  } catch (error) {
+    console.error("Error in whale-alerts API route:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "An unexpected error occurred",
+      } as WhaleAlertResponse,
+      { status: 500 }
+    );
+  }
+}
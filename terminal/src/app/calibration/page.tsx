@@ -0,0 +1,21 @@
+"use client";
+
+import CalibrationLeaderboard from "@/components/CalibrationLeaderboard";
+import Sidebar from "@/components/Sidebar";
+
+export default function CalibrationPage() {
+  return (
+    <div className="flex h-screen">
+      {/* Sidebar Navigation */}
+      <div className="relative z-10 overflow-visible">
+        <Sidebar activeTab="calibration" />
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto overflow-x-hidden">
+        <CalibrationLeaderboard />
+      </main>
+    </div>
+  );
+}
+
@@ -0,0 +1,21 @@
+"use client";
+
+import PortfolioTerminal from "@/components/PortfolioTerminal";
+import Sidebar from "@/components/Sidebar";
+
+export default function PortfolioPage() {
+  return (
+    <div className="flex h-screen">
+      {/* Sidebar Navigation */}
+      <div className="relative z-10 overflow-visible">
+        <Sidebar activeTab="portfolio" />
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto overflow-x-hidden">
+        <PortfolioTerminal />
+      </main>
+    </div>
+  );
+}
+
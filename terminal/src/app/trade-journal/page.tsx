@@ -0,0 +1,21 @@
+"use client";
+
+import TradeJournalTerminal from "@/components/TradeJournalTerminal";
+import Sidebar from "@/components/Sidebar";
+
+export default function TradeJournalPage() {
+  return (
+    <div className="flex h-screen">
+      {/* Sidebar Navigation */}
+      <div className="relative z-10 overflow-visible">
+        <Sidebar activeTab="trade-journal" />
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto overflow-x-hidden">
+        <TradeJournalTerminal />
+      </main>
+    </div>
+  );
+}
+
@@ -0,0 +1,21 @@
+"use client";
+
+import WhaleTrackingTerminal from "@/components/WhaleTrackingTerminal";
+import Sidebar from "@/components/Sidebar";
+
+export default function WhaleTrackingPage() {
+  return (
+    <div className="flex h-screen">
+      {/* Sidebar Navigation */}
+      <div className="relative z-10 overflow-visible">
+        <Sidebar activeTab="whale-tracking" />
+      </div>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto overflow-x-hidden">
+        <WhaleTrackingTerminal />
+      </main>
+    </div>
+  );
+}
+
@@ -0,0 +1,679 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Swords, Plus, Trash2, Play, RefreshCw, AlertTriangle, Loader2, Trophy, ChevronDown } from "lucide-react";
+import type {
+  AgentBattlesRequest,
+  AgentBattlesResponse,
+  AgentBattle,
+  BattleResult,
+  BattleStanding,
+  BattleTool,
+  NewBattleContestant,
+} from "@/types/agent-battles";
+import type { EventAnalysisAgentResponse, GetEventsResponse, MarketAnalysis, PmType } from "@/types/agentic";
+
+interface ModelOption {
+  value: string;
+  label: string;
+  provider: "grok" | "openai";
+}
+
+const GROK_MODELS: ModelOption[] = [
+  { value: "grok-4-1-fast-reasoning", label: "Grok 4.1 Fast (Reasoning)", provider: "grok" },
+  { value: "grok-4-1-fast-non-reasoning", label: "Grok 4.1 Fast (Non-Reasoning)", provider: "grok" },
+  { value: "grok-4-fast-reasoning", label: "Grok 4 Fast (Reasoning)", provider: "grok" },
+  { value: "grok-4-fast-non-reasoning", label: "Grok 4 Fast (Non-Reasoning)", provider: "grok" },
+];
+
+const OPENAI_MODELS: ModelOption[] = [
+  { value: "gpt-5.2", label: "GPT-5.2", provider: "openai" },
+  { value: "gpt-5.1", label: "GPT-5.1", provider: "openai" },
+  { value: "gpt-5-nano", label: "GPT-5 Nano", provider: "openai" },
+  { value: "gpt-4.1", label: "GPT-4.1", provider: "openai" },
+  { value: "gpt-4.1-mini", label: "GPT-4.1 Mini", provider: "openai" },
+];
+
+const ALL_MODELS: ModelOption[] = [...GROK_MODELS, ...OPENAI_MODELS];
+
+const TOOL_OPTIONS: { value: BattleTool; label: string }[] = [
+  { value: "x_search", label: "X Search" },
+  { value: "web_search", label: "Web Search" },
+];
+
+const MAX_CONTESTANTS = 6;
+const MAX_MARKETS_PER_EVENT = 10;
+
+/**
+ * A market in the battle being run and each contestant's analysis of it
+ */
+interface BattleMarketRun {
+  key: string;
+  title: string;
+  cells: Record<string, { status: "pending" | "running" | "done" | "error"; analysis?: MarketAnalysis; error?: string }>;
+}
+
+/**
+ * Call the agent-battles API
+ */
+async function callBattles(request: AgentBattlesRequest): Promise<AgentBattlesResponse> {
+  const response = await fetch("/api/agent-battles", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+/**
+ * Whether a market still accepts orders (Polymarket flags or Kalshi status)
+ */
+function isOpenMarket(market: Record<string, unknown>): boolean {
+  if (market.closed === true || market.acceptingOrders === false) return false;
+  return !["closed", "settled", "finalized", "determined"].includes(String(market.status ?? "").toLowerCase());
+}
+
+const isGrokModel = (model: string) => ALL_MODELS.find(m => m.value === model)?.provider === "grok";
+
+const modelLabel = (model: string) => ALL_MODELS.find(m => m.value === model)?.label || model;
+
+const formatScore = (value?: number) => value !== undefined ? value.toFixed(3) : "—";
+
+const formatPercent = (value?: number) => value !== undefined ? `${(value * 100).toFixed(1)}%` : "—";
+
+const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+const pnlClass = (value: number) => value > 0 ? "text-success" : value < 0 ? "text-destructive" : "text-muted-foreground";
+
+const newContestant = (model: string): NewBattleContestant => ({ model, tools: undefined, userCommand: "" });
+
+const AgentBattlesTerminal = () => {
+  // Setup
+  const [name, setName] = useState("");
+  const [urlsInput, setUrlsInput] = useState("");
+  const [marketsPerEvent, setMarketsPerEvent] = useState<number>(3);
+  const [stakeUsd, setStakeUsd] = useState<number>(10);
+  const [contestants, setContestants] = useState<NewBattleContestant[]>([
+    newContestant("grok-4-1-fast-reasoning"),
+    newContestant("gpt-5.2"),
+  ]);
+
+  // Run in progress
+  const [isRunning, setIsRunning] = useState(false);
+  const [runBattle, setRunBattle] = useState<AgentBattle | null>(null);
+  const [runMarkets, setRunMarkets] = useState<BattleMarketRun[]>([]);
+
+  // History and standings
+  const [battles, setBattles] = useState<BattleResult[]>([]);
+  const [standings, setStandings] = useState<BattleStanding[]>([]);
+  const [expandedBattle, setExpandedBattle] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // State is only set once both responses arrive, so the mount effect can call this
+  const fetchBattles = useCallback(() => Promise.all([
+    callBattles({ action: "list", limit: 20 }),
+    callBattles({ action: "standings" }),
+  ])
+    .then(([listData, standingsData]) => {
+      if (listData.success) {
+        setBattles(listData.battles || []);
+      } else {
+        setError(listData.error || "Failed to load battles");
+      }
+
+      if (standingsData.success) {
+        setStandings(standingsData.standings || []);
+      } else {
+        setError(standingsData.error || "Failed to load standings");
+      }
+    })
+    .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+    .finally(() => setIsLoading(false)), []);
+
+  const refreshBattles = useCallback(() => {
+    setIsLoading(true);
+    fetchBattles();
+  }, [fetchBattles]);
+
+  useEffect(() => {
+    fetchBattles();
+  }, [fetchBattles]);
+
+  // Check unresolved markets, then reload
+  const syncBattles = useCallback(async () => {
+    setIsSyncing(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await callBattles({ action: "sync" });
+      if (data.success && data.sync) {
+        const failed = data.sync.errors.length;
+        setMessage(`Checked ${data.sync.checked} prediction(s), ${data.sync.resolved} resolved${failed > 0 ? `, ${failed} failed` : ""}`);
+      } else {
+        setError(data.error || "Sync failed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSyncing(false);
+      refreshBattles();
+    }
+  }, [refreshBattles]);
+
+  const updateContestant = (index: number, update: Partial<NewBattleContestant>) => {
+    setContestants(prev => prev.map((c, i) => {
+      if (i !== index) return c;
+      const next = { ...c, ...update };
+      // Search tools are only available to Grok models
+      if (!isGrokModel(next.model)) next.tools = undefined;
+      return next;
+    }));
+  };
+
+  const toggleTool = (index: number, tool: BattleTool) => {
+    const tools = contestants[index].tools || [];
+    const next = tools.includes(tool) ? tools.filter(t => t !== tool) : [...tools, tool];
+    updateContestant(index, { tools: next.length > 0 ? next : undefined });
+  };
+
+  const deleteBattle = async (battle: BattleResult) => {
+    if (!window.confirm(`Delete battle "${battle.name}" and its predictions?`)) return;
+    const data = await callBattles({ action: "delete", battleId: battle.id });
+    if (!data.success) {
+      setError(data.error || "Failed to delete battle");
+    }
+    refreshBattles();
+  };
+
+  const startBattle = async () => {
+    const urls = urlsInput.split(/[\s,]+/).filter(Boolean);
+    if (urls.length === 0) {
+      setError("Enter at least one Polymarket or Kalshi event URL");
+      return;
+    }
+    if (contestants.some(c => !c.model)) {
+      setError("Every contestant needs a model");
+      return;
+    }
+
+    setError(null);
+    setMessage(null);
+    setIsRunning(true);
+    setRunMarkets([]);
+
+    let battle: AgentBattle | null = null;
+    try {
+      // Step 1: Create the battle
+      const created = await callBattles({
+        action: "create",
+        battle: { name: name.trim() || undefined, contestants, urls, stakeUsd },
+      });
+      if (!created.success || !created.battle) {
+        throw new Error(created.error || "Failed to create battle");
+      }
+      battle = created.battle;
+      setRunBattle(battle);
+
+      // Step 2: Collect the open markets of every event
+      const targets: { market: Record<string, unknown>; eventIdentifier: string; pmType: PmType; run: BattleMarketRun }[] = [];
+      for (const eventUrl of urls) {
+        const eventsResponse = await fetch("/api/get-events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: eventUrl, dataProvider: 'dome' }),
+        });
+        const eventsData: GetEventsResponse = await eventsResponse.json();
+
+        if (!eventsData.success || !eventsData.markets || !eventsData.eventIdentifier || !eventsData.pmType) {
+          throw new Error(`${eventUrl}: ${eventsData.error || "Failed to fetch event data"}`);
+        }
+
+        const open = (eventsData.markets as Record<string, unknown>[]).filter(isOpenMarket).slice(0, marketsPerEvent);
+        for (const market of open) {
+          const key = String(market.ticker ?? market.conditionId ?? "");
+          if (!key || targets.some(t => t.run.key === key)) continue;
+          targets.push({
+            market,
+            eventIdentifier: eventsData.eventIdentifier,
+            pmType: eventsData.pmType,
+            run: {
+              key,
+              title: String(market.title || market.question || key),
+              cells: Object.fromEntries(battle.contestants.map(c => [c.id, { status: "pending" as const }])),
+            },
+          });
+        }
+      }
+
+      if (targets.length === 0) {
+        throw new Error("No open markets found");
+      }
+      setRunMarkets(targets.map(t => t.run));
+
+      const setCell = (key: string, contestantId: string, cell: BattleMarketRun["cells"][string]) => {
+        setRunMarkets(prev => prev.map(m => m.key === key ? { ...m, cells: { ...m.cells, [contestantId]: cell } } : m));
+      };
+
+      // Step 3: Every contestant analyses every market; contestants run side by side
+      let completed = 0;
+      for (const target of targets) {
+        await Promise.all(battle.contestants.map(async contestant => {
+          setCell(target.run.key, contestant.id, { status: "running" });
+          try {
+            const agentResponse = await fetch("/api/event-analysis-agent", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({
+                markets: [target.market],
+                eventIdentifier: target.eventIdentifier,
+                pmType: target.pmType,
+                model: contestant.model,
+                tools: contestant.tools,
+                userCommand: contestant.userCommand,
+                calibration: {
+                  analysisRequestId: battle!.id,
+                  tools: contestant.tools,
+                  battleId: battle!.id,
+                  contestant: contestant.id,
+                },
+              }),
+            });
+            const agentData: EventAnalysisAgentResponse = await agentResponse.json();
+
+            if (!agentData.success || !agentData.data) {
+              throw new Error(agentData.error || "Agent analysis failed");
+            }
+            completed++;
+            setCell(target.run.key, contestant.id, { status: "done", analysis: agentData.data });
+          } catch (agentError) {
+            setCell(target.run.key, contestant.id, {
+              status: "error",
+              error: agentError instanceof Error ? agentError.message : "Unknown error",
+            });
+          }
+        }));
+      }
+
+      if (completed === 0) {
+        throw new Error("Every analysis failed");
+      }
+
+      await callBattles({ action: "finish", battleId: battle.id });
+      setMessage(`Battle "${battle.name}" recorded: ${targets.length} market(s). Sync once the markets resolve to score it.`);
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Battle failed";
+      setError(errorMsg);
+      if (battle) {
+        await callBattles({ action: "finish", battleId: battle.id, error: errorMsg }).catch(() => undefined);
+      }
+    } finally {
+      setIsRunning(false);
+      refreshBattles();
+    }
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg bg-secondary/50 border border-border text-sm hover:border-primary/50 transition-all focus:outline-none focus:border-primary disabled:opacity-50";
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center py-8 fade-in">
+            <div className="relative mb-8">
+              <h2 className="font-display text-xl md:text-2xl font-bold text-primary text-glow mb-1">
+                Agent Battles
+              </h2>
+              <p className="text-muted-foreground max-w-lg mx-auto">
+                Pit agent configurations against each other on the same live markets. Scored on resolution by Brier score and simulated PnL.
+              </p>
+            </div>
+          </div>
+
+          {/* Setup Card */}
+          <div className="relative z-20 border border-border rounded-lg bg-card/80 backdrop-blur-sm border-glow">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <div className="flex items-center gap-2">
+                <Swords className="w-4 h-4 text-primary" />
+                <span className="text-xs text-muted-foreground font-display">NEW BATTLE</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setContestants(prev => [...prev, newContestant("")])}
+                disabled={isRunning || contestants.length >= MAX_CONTESTANTS}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-3 h-3" />
+                Add Contestant
+              </button>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_140px_140px] gap-3">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Battle name (optional)"
+                  disabled={isRunning}
+                  className={inputClass}
+                />
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  MARKETS/EVENT
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_MARKETS_PER_EVENT}
+                    value={marketsPerEvent}
+                    onChange={(e) => setMarketsPerEvent(Math.min(Math.max(parseInt(e.target.value) || 1, 1), MAX_MARKETS_PER_EVENT))}
+                    disabled={isRunning}
+                    className={`${inputClass} w-16`}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  STAKE $
+                  <input
+                    type="number"
+                    min={1}
+                    value={stakeUsd}
+                    onChange={(e) => setStakeUsd(Math.max(parseFloat(e.target.value) || 1, 1))}
+                    disabled={isRunning}
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+              </div>
+
+              <textarea
+                value={urlsInput}
+                onChange={(e) => setUrlsInput(e.target.value)}
+                placeholder="Polymarket / Kalshi event URLs (one per line)"
+                rows={2}
+                disabled={isRunning}
+                className={`${inputClass} w-full font-mono resize-y`}
+              />
+
+              {/* Contestants */}
+              <div className="space-y-2">
+                {contestants.map((contestant, index) => (
+                  <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg bg-secondary/30 border border-border/50 px-3 py-2">
+                    <span className="font-display text-xs text-primary w-4">{String.fromCharCode(65 + index)}</span>
+                    <select
+                      value={contestant.model}
+                      onChange={(e) => updateContestant(index, { model: e.target.value })}
+                      disabled={isRunning}
+                      className={inputClass}
+                    >
+                      <option value="">Select a model...</option>
+                      {ALL_MODELS.map(model => (
+                        <option key={model.value} value={model.value}>{model.label}</option>
+                      ))}
+                    </select>
+                    {TOOL_OPTIONS.map(tool => (
+                      <label key={tool.value} className={`flex items-center gap-1 text-xs ${isGrokModel(contestant.model) ? "text-muted-foreground" : "text-muted-foreground/40"}`}>
+                        <input
+                          type="checkbox"
+                          checked={contestant.tools?.includes(tool.value) ?? false}
+                          onChange={() => toggleTool(index, tool.value)}
+                          disabled={isRunning || !isGrokModel(contestant.model)}
+                          className="accent-primary"
+                        />
+                        {tool.label}
+                      </label>
+                    ))}
+                    <input
+                      type="text"
+                      value={contestant.userCommand || ""}
+                      onChange={(e) => updateContestant(index, { userCommand: e.target.value })}
+                      placeholder="User command (optional)"
+                      disabled={isRunning}
+                      className={`${inputClass} flex-1 min-w-[160px]`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setContestants(prev => prev.filter((_, i) => i !== index))}
+                      disabled={isRunning || contestants.length <= 2}
+                      className="p-1 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-30"
+                      title="Remove contestant"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                type="button"
+                onClick={startBattle}
+                disabled={isRunning}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-primary/20 border border-primary/50 text-primary font-display text-sm hover:bg-primary/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                {isRunning ? "BATTLE IN PROGRESS" : "START BATTLE"}
+              </button>
+
+              {message && <p className="text-xs text-muted-foreground">{message}</p>}
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {error && (
+            <div className="border border-destructive/50 rounded-lg bg-destructive/10 p-4 fade-in">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <p className="text-destructive text-sm font-mono">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Current Battle */}
+          {runBattle && runMarkets.length > 0 && (
+            <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+                <span className="text-xs text-muted-foreground font-display">{runBattle.name.toUpperCase()}</span>
+                <span className="text-xs text-muted-foreground">estimated YES · recommendation</span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="text-xs text-muted-foreground border-b border-border/50">
+                      <th className="text-left px-4 py-2 font-normal">Market</th>
+                      {runBattle.contestants.map(c => (
+                        <th key={c.id} className="text-right px-4 py-2 font-normal" title={modelLabel(c.model)}>{c.id} · {c.name}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border/30">
+                    {runMarkets.map(market => (
+                      <tr key={market.key}>
+                        <td className="px-4 py-2 text-foreground max-w-[280px] truncate" title={market.title}>{market.title}</td>
+                        {runBattle.contestants.map(c => {
+                          const cell = market.cells[c.id];
+                          return (
+                            <td key={c.id} className="px-4 py-2 text-right text-xs">
+                              {cell?.status === "running" && <Loader2 className="w-3 h-3 animate-spin inline text-primary" />}
+                              {cell?.status === "pending" && <span className="text-muted-foreground">—</span>}
+                              {cell?.status === "error" && <span className="text-destructive" title={cell.error}>ERROR</span>}
+                              {cell?.status === "done" && cell.analysis && (
+                                <span>
+                                  <span className="text-primary">{cell.analysis.estimatedActualProbability}%</span>
+                                  <span className="text-muted-foreground"> · {cell.analysis.recommendedAction}</span>
+                                </span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Standings */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <div className="flex items-center gap-2">
+                <Trophy className="w-4 h-4 text-primary" />
+                <span className="text-xs text-muted-foreground font-display">STANDINGS</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={syncBattles}
+                  disabled={isSyncing}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  {isSyncing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                  Sync Resolutions
+                </button>
+                <button
+                  type="button"
+                  onClick={refreshBattles}
+                  disabled={isLoading}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+                  Refresh
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm font-mono">
+                <thead>
+                  <tr className="text-xs text-muted-foreground border-b border-border/50">
+                    <th className="text-left px-4 py-2 font-normal">Agent</th>
+                    <th className="text-right px-4 py-2 font-normal">Wins</th>
+                    <th className="text-right px-4 py-2 font-normal">Resolved</th>
+                    <th className="text-right px-4 py-2 font-normal">Brier</th>
+                    <th className="text-right px-4 py-2 font-normal">Hit Rate</th>
+                    <th className="text-right px-4 py-2 font-normal">Sim. PnL</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {standings.map(standing => (
+                    <tr key={standing.key}>
+                      <td className="px-4 py-2 text-foreground">
+                        {modelLabel(standing.model)}
+                        <div className="text-[10px] text-muted-foreground truncate max-w-[280px]" title={standing.userCommand}>
+                          {standing.tools.length > 0 ? standing.tools.join(", ") : "no tools"}
+                          {standing.userCommand ? ` · "${standing.userCommand}"` : ""}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-right">{standing.wins}/{standing.battles}</td>
+                      <td className="px-4 py-2 text-right text-muted-foreground">{standing.resolved}/{standing.predictions}</td>
+                      <td className="px-4 py-2 text-right">{formatScore(standing.brierScore)}</td>
+                      <td className="px-4 py-2 text-right">{formatPercent(standing.hitRate)}</td>
+                      <td className={`px-4 py-2 text-right ${pnlClass(standing.pnlUsd)}`}>{formatUsd(standing.pnlUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {standings.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No battles yet</p>
+              )}
+            </div>
+          </div>
+
+          {/* Battle History */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">BATTLE HISTORY</span>
+              <span className="text-xs text-muted-foreground">({battles.length})</span>
+            </div>
+
+            <div className="divide-y divide-border/30">
+              {battles.map(battle => {
+                const isExpanded = expandedBattle === battle.id;
+                const winner = battle.contestants.find(c => c.id === battle.winner);
+                return (
+                  <div key={battle.id}>
+                    <button
+                      type="button"
+                      onClick={() => setExpandedBattle(isExpanded ? null : battle.id)}
+                      className="w-full flex items-center justify-between gap-4 px-4 py-2 text-sm text-left hover:bg-secondary/30 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="truncate text-foreground">{battle.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {new Date(battle.createdAt).toLocaleString()} · {battle.contestants.length} contestants · {battle.resolvedMarkets}/{battle.markets} markets resolved
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 font-mono text-xs shrink-0">
+                        {winner ? (
+                          <span className="flex items-center gap-1 text-success"><Trophy className="w-3 h-3" /> {winner.name}</span>
+                        ) : (
+                          <span className={battle.status === "failed" ? "text-destructive" : "text-warning"} title={battle.error}>
+                            {battle.status === "completed" ? "AWAITING RESOLUTION" : battle.status.toUpperCase()}
+                          </span>
+                        )}
+                        <ChevronDown className={`w-4 h-4 text-muted-foreground transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+                      </div>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="px-4 pb-3">
+                        <table className="w-full text-xs font-mono">
+                          <thead>
+                            <tr className="text-muted-foreground border-b border-border/50">
+                              <th className="text-left py-1 font-normal">#</th>
+                              <th className="text-left py-1 font-normal">Contestant</th>
+                              <th className="text-right py-1 font-normal">Resolved</th>
+                              <th className="text-right py-1 font-normal">Brier</th>
+                              <th className="text-right py-1 font-normal">Log Loss</th>
+                              <th className="text-right py-1 font-normal">Hit Rate</th>
+                              <th className="text-right py-1 font-normal">Trades</th>
+                              <th className="text-right py-1 font-normal">Sim. PnL</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-border/30">
+                            {battle.scores.map(score => (
+                              <tr key={score.contestant}>
+                                <td className="py-1 text-muted-foreground">{score.rank ?? "—"}</td>
+                                <td className="py-1 text-foreground" title={score.userCommand}>
+                                  {score.contestant} · {score.name}
+                                  {score.tools.length > 0 && <span className="text-muted-foreground"> ({score.tools.join(", ")})</span>}
+                                </td>
+                                <td className="py-1 text-right text-muted-foreground">{score.resolved}/{score.predictions}</td>
+                                <td className="py-1 text-right">{formatScore(score.brierScore)}</td>
+                                <td className="py-1 text-right">{formatScore(score.logLoss)}</td>
+                                <td className="py-1 text-right">{formatPercent(score.hitRate)}</td>
+                                <td className="py-1 text-right text-muted-foreground">{score.trades}</td>
+                                <td className={`py-1 text-right ${pnlClass(score.pnlUsd)}`}>{formatUsd(score.pnlUsd)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="flex items-center justify-between pt-2 text-[10px] text-muted-foreground">
+                          <span className="truncate">{battle.urls.join(" · ")} · ${battle.stakeUsd} per trade</span>
+                          <button
+                            type="button"
+                            onClick={() => deleteBattle(battle)}
+                            className="flex items-center gap-1 hover:text-destructive transition-colors"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {battles.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No battles yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgentBattlesTerminal;
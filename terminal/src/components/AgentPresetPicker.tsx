@@ -0,0 +1,192 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { BookMarked, FolderOpen, Save, Trash2, Download, Upload, Loader2 } from "lucide-react";
+import type { AgentConfig, AggregatorConfig } from "@/types/agentic";
+import type { AgentPreset, AgentPresetsRequest, AgentPresetsResponse } from "@/types/agent-presets";
+import { configsToPreset, presetToConfigs } from "@/lib/agent-presets";
+
+interface AgentPresetPickerProps {
+  agents: AgentConfig[];
+  aggregator: AggregatorConfig;
+  disabled?: boolean;
+  onLoad: (agents: AgentConfig[], aggregator: AggregatorConfig, preset: AgentPreset) => void;
+  /** Called after the current team is saved as a preset */
+  onSave?: (preset: AgentPreset) => void;
+}
+
+/**
+ * Save, load, export and import agent team presets
+ */
+const AgentPresetPicker = ({ agents, aggregator, disabled, onLoad, onSave }: AgentPresetPickerProps) => {
+  const [presets, setPresets] = useState<AgentPreset[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const selected = presets.find(p => p.id === selectedId);
+
+  const callPresets = async (body: AgentPresetsRequest): Promise<AgentPresetsResponse> => {
+    const response = await fetch("/api/agent-presets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data: AgentPresetsResponse = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || "Preset request failed");
+    }
+    return data;
+  };
+
+  const run = async (task: () => Promise<string | void>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const text = await task();
+      if (text) setMessage({ text, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : "Network error", isError: true });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // State is only set once the response arrives, so the mount effect can call this
+  const fetchPresets = useCallback(() => fetch("/api/agent-presets", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "list" }),
+  })
+    .then(response => response.json() as Promise<AgentPresetsResponse>)
+    .then(data => {
+      if (data.success) {
+        setPresets(data.presets || []);
+      }
+    })
+    .catch(() => {
+      // Presets are optional; the picker just stays empty
+    }), []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const handleLoad = () => {
+    if (!selected) return;
+    const { agents: loadedAgents, aggregator: loadedAggregator } = presetToConfigs(selected);
+    onLoad(loadedAgents, loadedAggregator, selected);
+    setMessage({ text: `Loaded "${selected.name}"`, isError: false });
+  };
+
+  const handleSave = () => run(async () => {
+    const name = window.prompt("Preset name", selected?.name || "")?.trim();
+    if (!name) return;
+
+    // Saving under the selected preset's name overwrites it
+    const overwrite = selected && selected.name === name;
+    const data = await callPresets({
+      action: "save",
+      presetId: overwrite ? selected.id : undefined,
+      preset: configsToPreset(name, agents, aggregator, overwrite ? selected.description : undefined),
+    });
+    await fetchPresets();
+    setSelectedId(data.preset?.id || "");
+    if (data.preset) onSave?.(data.preset);
+    return `${overwrite ? "Updated" : "Saved"} "${name}"`;
+  });
+
+  const handleDelete = () => run(async () => {
+    if (!selected || !window.confirm(`Delete preset "${selected.name}"?`)) return;
+    await callPresets({ action: "delete", presetId: selected.id });
+    await fetchPresets();
+    setSelectedId("");
+    return `Deleted "${selected.name}"`;
+  });
+
+  const handleExport = () => run(async () => {
+    if (!selected) return;
+    const data = await callPresets({ action: "get", presetId: selected.id });
+    const blob = new Blob([JSON.stringify(data.export, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${selected.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.preset.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const handleImport = (file: File) => run(async () => {
+    let preset: unknown;
+    try {
+      preset = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${file.name} is not valid JSON`);
+    }
+    const data = await callPresets({ action: "import", preset: preset as AgentPresetsRequest["preset"] });
+    await fetchPresets();
+    setSelectedId(data.preset?.id || "");
+    return `Imported "${data.preset?.name}"`;
+  });
+
+  const buttonClass = "flex items-center gap-1 px-2 py-1 rounded border border-border/50 bg-secondary/30 text-muted-foreground hover:text-primary hover:border-primary/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed";
+  const isDisabled = disabled || isBusy;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-[10px] font-mono">
+      <BookMarked className="w-3.5 h-3.5 text-primary" />
+      <span className="font-display text-muted-foreground">PRESETS</span>
+      <select
+        value={selectedId}
+        onChange={(e) => setSelectedId(e.target.value)}
+        disabled={isDisabled}
+        className="bg-secondary/50 border border-border/50 rounded px-2 py-1 text-foreground focus:outline-none focus:border-primary/50 disabled:opacity-50"
+      >
+        <option value="">{presets.length > 0 ? "Select a preset..." : "No saved presets"}</option>
+        {presets.map(preset => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name} ({preset.agents.length} agent{preset.agents.length === 1 ? "" : "s"})
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={handleLoad} disabled={isDisabled || !selected} className={buttonClass} title="Replace the current agents with this preset">
+        <FolderOpen className="w-3 h-3" />
+        Load
+      </button>
+      <button type="button" onClick={handleSave} disabled={isDisabled} className={buttonClass} title="Save the current agents as a preset">
+        <Save className="w-3 h-3" />
+        Save
+      </button>
+      <button type="button" onClick={handleDelete} disabled={isDisabled || !selected} className={buttonClass}>
+        <Trash2 className="w-3 h-3" />
+        Delete
+      </button>
+      <button type="button" onClick={handleExport} disabled={isDisabled || !selected} className={buttonClass} title="Download the preset as JSON">
+        <Download className="w-3 h-3" />
+        Export
+      </button>
+      <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isDisabled} className={buttonClass} title="Import a preset JSON file">
+        <Upload className="w-3 h-3" />
+        Import
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = "";
+        }}
+      />
+      {isBusy && <Loader2 className="w-3 h-3 text-primary animate-spin" />}
+      {message && (
+        <span className={message.isError ? "text-destructive" : "text-muted-foreground"}>{message.text}</span>
+      )}
+    </div>
+  );
+};
+
+export default AgentPresetPicker;
@@ -26,6 +26,7 @@ import {
   AlertCircle,
   ShieldCheck,
   Upload,
+  ListOrdered,
 } from "lucide-react";
 import Image from "next/image";
 import type { 
@@ -37,18 +38,27 @@ import type {
   PmType,
   UrlSource,
   MarketAnalysis,
+  AggregatedAnalysis,
   GrokTool,
   AgentTool,
   PolyfactualResearchResult,
   IrysUploadStatus,
   IrysAgentData,
   X402SellerConfig,
+  AutonomousOrderResult,
+  BatchMarketResult,
+  PredictionCalibrationContext,
 } from "@/types/agentic";
 import type { X402SellerInfo, CallSellerResponse } from "@/types/x402";
 import { DEFAULT_X402_NETWORK } from "@/types/x402";
 import X402SellerModal from "./X402SellerModal";
+import AgentPresetPicker from "./AgentPresetPicker";
+import type { AgentPreset } from "@/types/agent-presets";
+import { matchesPreset } from "@/lib/agent-presets";
 import { generateRequestId, formatCombinedAnalysisForUpload, type IrysUploadResult } from "@/lib/irys";
 import type { PolyfactualResearchResponse } from "@/types/polyfactual";
+import type { JournalContext } from "@/types/trade-journal";
+import { rankOpportunities, allocateBudget } from "@/lib/allocation";
 import AnalysisOutput from "./AnalysisOutput";
 import AggregatedAnalysisOutput from "./AggregatedAnalysisOutput";
 
@@ -118,6 +128,27 @@ function buildJupiterUrl(eventTicker: string): string {
   return `https://jup.ag/prediction/${eventTicker}`;
 }
 
+/**
+ * Split the URL input into one URL per whitespace- or comma-separated entry
+ */
+function parseUrls(input: string): string[] {
+  return input.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Whether a market still accepts orders (Polymarket flags or Kalshi status)
+ */
+function isOpenMarket(market: Record<string, unknown>): boolean {
+  if (market.closed === true || market.acceptingOrders === false) return false;
+  return !["closed", "settled", "finalized", "determined"].includes(String(market.status ?? "").toLowerCase());
+}
+
+// Batch autonomous limits
+const MAX_BUDGET = 100; // per order, enforced by the mapper agent
+const MAX_BATCH_BUDGET = 1000;
+const MAX_BATCH_MARKETS = 20;
+const MIN_BATCH_ORDER_USD = 1;
+
 function generateAgentId(): string {
   return `agent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -154,6 +185,9 @@ const AgenticMarketAnalysis = () => {
     model: "",
     status: 'idle'
   });
+
+  // Preset the team was loaded from or saved as (predictions are attributed to it while unchanged)
+  const [loadedPreset, setLoadedPreset] = useState<AgentPreset | null>(null);
   
   // Global verifiable state (applies to all agents)
   const [verifiable, setVerifiable] = useState(false);
@@ -172,24 +206,36 @@ const AgenticMarketAnalysis = () => {
   
   // Autonomous mode state
   const [autonomousBudget, setAutonomousBudget] = useState<number>(10);
+  const [autonomousPaperTrading, setAutonomousPaperTrading] = useState(false);
   const [autonomousOrderStatus, setAutonomousOrderStatus] = useState<'idle' | 'placing' | 'success' | 'error' | 'skipped'>('idle');
-  const [autonomousOrderResult, setAutonomousOrderResult] = useState<{
-    orderId?: string;
-    side?: string;
-    size?: number;
-    price?: number;
-    costUsd?: number;
-    errorMsg?: string;
-  } | null>(null);
+  const [autonomousOrderResult, setAutonomousOrderResult] = useState<AutonomousOrderResult | null>(null);
+  // Batch mode: analyse each market on its own and split the budget across the best
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchTopN, setBatchTopN] = useState<number>(3);
+  const [batchMaxPerMarket, setBatchMaxPerMarket] = useState<number>(25);
+  const [batchResults, setBatchResults] = useState<BatchMarketResult[]>([]);
   // Mapper agent data for Irys upload (in autonomous mode)
   const [mapperAgentData, setMapperAgentData] = useState<Record<string, unknown> | null>(null);
   
   const dropdownRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
   
   // Derived state
+  const urls = useMemo(() => parseUrls(url), [url]);
   const detectedUrlType = useMemo(() => detectUrlType(url), [url]);
   const showAggregator = agents.length > 1;
-  const isAutonomousAvailable = detectedUrlType === 'polymarket'; // Only Polymarket supports autonomous mode (Kalshi and Jupiter do not)
+  const isBatch = analysisMode === 'autonomous' && batchMode;
+  const isAutonomousAvailable = detectedUrlType !== 'none'; // Polymarket, Kalshi and Jupiter (Kalshi markets) all support autonomous mode
+  const isPaperTradingAvailable = urls.length > 0 && urls.every(u => detectUrlType(u) === 'polymarket'); // Paper trading only simulates Polymarket orders
+  const activePresetId = loadedPreset && matchesPreset(loadedPreset, agents, aggregator) ? loadedPreset.id : undefined;
+
+  /**
+   * Calibration context sent with each agent / bookmaker call of a run
+   */
+  const calibrationContext = (analysisRequestId: string, tools?: AgentTool[]): PredictionCalibrationContext => ({
+    analysisRequestId,
+    presetId: activePresetId,
+    tools: tools?.length ? tools : undefined,
+  });
   
   // Check if analysis is complete (at least one agent completed, or aggregator completed if multiple agents)
   const isAnalysisComplete = useMemo(() => {
@@ -516,6 +562,20 @@ const AgenticMarketAnalysis = () => {
       return;
     }
 
+    if (urls.length > 1 && !isBatch) {
+      setError("Multiple URLs are only supported in Autonomous batch mode");
+      return;
+    }
+
+    if (isBatch) {
+      if (agents.some(isX402Agent)) {
+        setError("PayAI sellers are not supported in batch mode");
+        return;
+      }
+      await runBatchAnalysis();
+      return;
+    }
+
     setError(null);
     setIsRunning(true);
     setExpandedAgents(new Set());
@@ -639,6 +699,7 @@ const AgenticMarketAnalysis = () => {
               model: agent.model,
               tools: grokTools && grokTools.length > 0 ? grokTools : undefined,
               userCommand: agent.userCommand?.trim() || undefined,
+              calibration: calibrationContext(newRequestId, agent.tools),
             }),
           });
 
@@ -737,6 +798,7 @@ const AgenticMarketAnalysis = () => {
               eventIdentifier: eventsData.eventIdentifier,
               pmType: eventsData.pmType,
               model: aggregator.model,
+              calibration: calibrationContext(newRequestId),
             }),
           });
 
@@ -750,11 +812,13 @@ const AgenticMarketAnalysis = () => {
           setExpandedAggregator(true); // Auto-expand aggregator when done
 
           // Autonomous mode: Place order based on aggregated recommendation
-          if (analysisMode === 'autonomous' && eventsData.pmType === 'Polymarket' && aggregatorData.data) {
+          if (analysisMode === 'autonomous' && eventsData.pmType && aggregatorData.data) {
             await placeAutonomousOrder(
               aggregatorData.data,
               eventsData.eventIdentifier,
-              eventsData.markets
+              eventsData.markets,
+              eventsData.pmType,
+              { source: "autonomous", model: aggregator.model, asset: eventsData.eventIdentifier, analysisRequestId: newRequestId }
             );
           }
 
@@ -765,13 +829,15 @@ const AgenticMarketAnalysis = () => {
             error: aggError instanceof Error ? aggError.message : "Unknown error" 
           }));
         }
-      } else if (completedAnalyses.length === 1 && analysisMode === 'autonomous' && eventsData.pmType === 'Polymarket') {
+      } else if (completedAnalyses.length === 1 && analysisMode === 'autonomous' && eventsData.pmType) {
         // Single agent autonomous mode: Place order based on agent recommendation
         const agentResult = completedAnalyses[0].analysis;
         await placeAutonomousOrder(
           agentResult,
           eventsData.eventIdentifier,
-          eventsData.markets
+          eventsData.markets,
+          eventsData.pmType,
+          { source: "autonomous", model: completedAnalyses[0].model, asset: eventsData.eventIdentifier, analysisRequestId: newRequestId }
         );
       }
 
@@ -823,13 +889,15 @@ const AgenticMarketAnalysis = () => {
   };
 
   /**
-   * Place an autonomous order on Polymarket based on agent recommendation
-   * Uses Mapper Agent to translate analysis output to Polymarket order parameters
+   * Place an autonomous order on Polymarket or Kalshi based on agent recommendation
+   * Uses Mapper Agent to translate analysis output to platform order parameters
    */
   const placeAutonomousOrder = async (
     analysisResult: MarketAnalysis,
     marketSlug: string,
-    markets: unknown[]
+    markets: unknown[],
+    pmType: PmType,
+    journal: JournalContext
   ) => {
     // Only proceed if there's a buy recommendation
     if (analysisResult.recommendedAction === "NO TRADE") {
@@ -838,14 +906,41 @@ const AgenticMarketAnalysis = () => {
       return;
     }
 
-    const side = analysisResult.recommendedAction === "BUY YES" ? "YES" : "NO";
-    
-    // Get the first market for data extraction
-    const market = markets[0] as Record<string, unknown>;
-    
+    // Kalshi events hold one market per strike, so use the one the agents analyzed;
+    // Polymarket uses the first market for data extraction
+    const market = (pmType === 'Kalshi'
+      ? markets.find(m => (m as Record<string, unknown>).ticker === analysisResult.ticker) ?? markets[0]
+      : markets[0]) as Record<string, unknown>;
+
     setAutonomousOrderStatus('placing');
     setAutonomousOrderResult(null);
 
+    const outcome = await executeAutonomousOrder(analysisResult, marketSlug, market, pmType, autonomousBudget, journal);
+
+    // Store mapper data for Irys upload
+    if (outcome.orderParams) {
+      setMapperAgentData(outcome.orderParams);
+    }
+    setAutonomousOrderStatus(outcome.status);
+    setAutonomousOrderResult(outcome.result);
+  };
+
+  /**
+   * Map an analysis to order params with the Mapper Agent and send them to the
+   * platform's put-order function
+   */
+  const executeAutonomousOrder = async (
+    analysisResult: MarketAnalysis,
+    marketSlug: string,
+    market: Record<string, unknown>,
+    pmType: PmType,
+    budgetUsd: number,
+    journal: JournalContext
+  ): Promise<{ status: 'success' | 'error'; result: AutonomousOrderResult; orderParams?: Record<string, unknown> }> => {
+    const side = analysisResult.recommendedAction === "BUY YES" ? "YES" : "NO";
+
+    const isKalshi = pmType === 'Kalshi';
+
     try {
       // Step 1: Call Mapper Agent to translate analysis to order params
       console.log("Calling Mapper Agent...");
@@ -853,7 +948,7 @@ const AgenticMarketAnalysis = () => {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          platform: "Polymarket",
+          platform: pmType,
           analysisResult: {
             recommendedAction: analysisResult.recommendedAction,
             predictedWinner: analysisResult.predictedWinner,
@@ -863,7 +958,19 @@ const AgenticMarketAnalysis = () => {
             ticker: analysisResult.ticker,
             title: analysisResult.title,
           },
-          marketData: {
+          marketData: isKalshi ? {
+            ticker: market.ticker,
+            event_ticker: market.event_ticker,
+            status: market.status,
+            yes_bid: market.yes_bid,
+            yes_ask: market.yes_ask,
+            no_bid: market.no_bid,
+            no_ask: market.no_ask,
+            last_price: market.last_price,
+            tick_size: market.tick_size,
+            price_level_structure: market.price_level_structure,
+            title: market.title,
+          } : {
             conditionId: market.conditionId,
             slug: marketSlug,
             clobTokenIds: market.clobTokenIds,
@@ -876,61 +983,334 @@ const AgenticMarketAnalysis = () => {
             negRisk: market.negRisk,
             title: market.title || market.question,
           },
-          budgetUsd: autonomousBudget,
+          budgetUsd,
         }),
       });
 
       const mapperData = await mapperResponse.json();
 
       if (!mapperData.success) {
-        setAutonomousOrderStatus('error');
-        setAutonomousOrderResult({
-          errorMsg: mapperData.error || "Mapper Agent failed",
-          side,
-        });
-        return;
+        return { status: 'error', result: { errorMsg: mapperData.error || "Mapper Agent failed", side } };
       }
 
       console.log("Mapper Agent response:", mapperData.data?.orderParams);
+      const orderParams = mapperData.data?.orderParams || undefined;
 
-      // Store mapper data for Irys upload
-      setMapperAgentData(mapperData.data?.orderParams || null);
-
-      // Step 2: Call polymarket-put-order with mapper output
-      console.log("Placing order via polymarket-put-order...");
-      const orderResponse = await fetch("/api/polymarket-put-order", {
+      // Step 2: Call the platform's put-order function with mapper output
+      const putOrderFunction = isKalshi ? "kalshi-put-order" : "polymarket-put-order";
+      console.log(`Placing order via ${putOrderFunction}...`);
+      const orderResponse = await fetch(`/api/${putOrderFunction}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           orderParams: mapperData.data.orderParams,
+          paperTrading: isKalshi ? undefined : autonomousPaperTrading,
+          journal,
         }),
       });
 
       const orderData = await orderResponse.json();
 
       if (!orderData.success) {
-        setAutonomousOrderStatus('error');
-        setAutonomousOrderResult({
-          errorMsg: orderData.error || "Order placement failed",
-          side,
+        return { status: 'error', result: { errorMsg: orderData.error || "Order placement failed", side }, orderParams };
+      }
+
+      return {
+        status: 'success',
+        result: {
+          orderId: orderData.data?.order?.orderId,
+          side: mapperData.data?.analysis?.side || side,
+          // Kalshi reports contracts and a limit price in cents
+          size: isKalshi ? orderData.data?.order?.count : orderData.data?.order?.size,
+          price: isKalshi ? (orderData.data?.order?.priceCents ?? 0) / 100 : orderData.data?.order?.price,
+          costUsd: orderData.data?.order?.costUsd,
+          paperTrading: orderData.data?.paperTrading,
+          platform: pmType,
+        },
+        orderParams,
+      };
+    } catch (orderError) {
+      return {
+        status: 'error',
+        result: { errorMsg: orderError instanceof Error ? orderError.message : "Unknown error", side },
+      };
+    }
+  };
+
+  /**
+   * Run every non-x402 agent on a single market, then the aggregator when more
+   * than one agent completed
+   */
+  const analyzeSingleMarket = async (
+    market: Record<string, unknown>,
+    eventIdentifier: string,
+    pmType: PmType,
+    analysisRequestId: string
+  ): Promise<{
+    analyses: { agentId: string; model: string; analysis: MarketAnalysis }[];
+    aggregated?: AggregatedAnalysis;
+    final: MarketAnalysis;
+    model: string;
+  }> => {
+    const analyses: { agentId: string; model: string; analysis: MarketAnalysis }[] = [];
+    const errors: string[] = [];
+
+    for (const agent of agents) {
+      try {
+        const grokTools = agent.tools?.filter(t => t === 'x_search' || t === 'web_search') as GrokTool[] | undefined;
+
+        const agentResponse = await fetch("/api/event-analysis-agent", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            markets: [market],
+            eventIdentifier,
+            pmType,
+            model: agent.model,
+            tools: grokTools && grokTools.length > 0 ? grokTools : undefined,
+            userCommand: agent.userCommand?.trim() || undefined,
+            calibration: calibrationContext(analysisRequestId, agent.tools),
+          }),
         });
-        return;
+
+        const agentData: EventAnalysisAgentResponse = await agentResponse.json();
+
+        if (!agentData.success || !agentData.data) {
+          throw new Error(agentData.error || "Agent analysis failed");
+        }
+
+        analyses.push({ agentId: agent.id, model: agent.model, analysis: agentData.data });
+      } catch (agentError) {
+        errors.push(agentError instanceof Error ? agentError.message : "Unknown error");
       }
+    }
+
+    if (analyses.length === 0) {
+      throw new Error(errors[0] || "Agent analysis failed");
+    }
 
-      setAutonomousOrderStatus('success');
-      setAutonomousOrderResult({
-        orderId: orderData.data?.order?.orderId,
-        side: mapperData.data?.analysis?.side || side,
-        size: orderData.data?.order?.size,
-        price: orderData.data?.order?.price,
-        costUsd: orderData.data?.order?.costUsd,
+    if (analyses.length === 1) {
+      return { analyses, final: analyses[0].analysis, model: analyses[0].model };
+    }
+
+    const aggregatorResponse = await fetch("/api/bookmaker-agent", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        analyses,
+        eventIdentifier,
+        pmType,
+        model: aggregator.model,
+        calibration: calibrationContext(analysisRequestId),
+      }),
+    });
+
+    const aggregatorData: AnalysisAggregatorResponse = await aggregatorResponse.json();
+
+    if (!aggregatorData.success || !aggregatorData.data) {
+      throw new Error(aggregatorData.error || "Aggregation failed");
+    }
+
+    return { analyses, aggregated: aggregatorData.data, final: aggregatorData.data, model: aggregator.model };
+  };
+
+  /**
+   * Batch autonomous mode: analyse every open market of every URL on its own,
+   * rank by alpha and split the budget across the top N markets
+   */
+  const runBatchAnalysis = async () => {
+    setError(null);
+    setIsRunning(true);
+    setExpandedAgents(new Set());
+    setExpandedAggregator(false);
+
+    const newRequestId = generateRequestId();
+    setIrysRequestId(newRequestId);
+    console.log(`[Batch] Starting with request ID: ${newRequestId}`);
+
+    setAgents(prev => prev.map(a => ({ ...a, status: 'idle', result: undefined, error: undefined, polyfactualResearch: undefined })));
+    setAggregator(prev => ({ ...prev, status: 'idle', result: undefined, error: undefined }));
+    setAutonomousOrderStatus('idle');
+    setAutonomousOrderResult(null);
+    setBatchResults([]);
+    setMapperAgentData(null);
+    setIrysUploadStatus({ status: 'idle' });
+
+    const updateBatchResult = (key: string, update: Partial<BatchMarketResult>) => {
+      setBatchResults(prev => prev.map(r => r.key === key ? { ...r, ...update } : r));
+    };
+
+    try {
+      // Step 1: Fetch every event and collect its open markets
+      setIsLoadingEvents(true);
+      const targets: { result: BatchMarketResult; market: Record<string, unknown> }[] = [];
+
+      for (const eventUrl of urls) {
+        const eventsResponse = await fetch("/api/get-events", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url: eventUrl, dataProvider: 'dome' }),
+        });
+
+        const eventsData: GetEventsResponse = await eventsResponse.json();
+
+        if (!eventsData.success || !eventsData.markets || !eventsData.eventIdentifier || !eventsData.pmType) {
+          throw new Error(`${eventUrl}: ${eventsData.error || "Failed to fetch event data"}`);
+        }
+
+        if (targets.length === 0) {
+          setEventData({
+            eventIdentifier: eventsData.eventIdentifier,
+            eventId: eventsData.eventId,
+            pmType: eventsData.pmType,
+            urlSource: eventsData.urlSource,
+            markets: eventsData.markets,
+          });
+        }
+
+        for (const raw of eventsData.markets) {
+          const market = raw as Record<string, unknown>;
+          const key = String(market.ticker ?? market.conditionId ?? "");
+          if (!key || !isOpenMarket(market) || targets.some(t => t.result.key === key)) continue;
+
+          targets.push({
+            market,
+            result: {
+              key,
+              eventIdentifier: eventsData.eventIdentifier,
+              pmType: eventsData.pmType,
+              title: String(market.title || market.question || key),
+              status: 'pending',
+            },
+          });
+        }
+      }
+      setIsLoadingEvents(false);
+
+      if (targets.length === 0) {
+        throw new Error("No open markets found");
+      }
+
+      const batch = targets.slice(0, MAX_BATCH_MARKETS);
+      if (targets.length > batch.length) {
+        console.warn(`[Batch] Analysing the first ${batch.length} of ${targets.length} markets`);
+      }
+      setBatchResults(batch.map(t => t.result));
+
+      // Step 2: Analyse each market on its own
+      setAgents(prev => prev.map(a => ({ ...a, status: 'running' })));
+      const results: BatchMarketResult[] = [];
+      const details = new Map<string, Awaited<ReturnType<typeof analyzeSingleMarket>>>();
+
+      for (const { result, market } of batch) {
+        updateBatchResult(result.key, { status: 'analyzing' });
+        try {
+          const analysis = await analyzeSingleMarket(market, result.eventIdentifier, result.pmType, newRequestId);
+          details.set(result.key, analysis);
+          results.push({ ...result, status: 'analyzed', analysis: analysis.final });
+          updateBatchResult(result.key, { status: 'analyzed', analysis: analysis.final });
+        } catch (marketError) {
+          const message = marketError instanceof Error ? marketError.message : "Unknown error";
+          results.push({ ...result, status: 'error', error: message });
+          updateBatchResult(result.key, { status: 'error', error: message });
+        }
+      }
+
+      // Step 3: Rank by alpha and split the budget
+      const ranked = rankOpportunities(results);
+      const allocation = allocateBudget(ranked, {
+        budgetUsd: autonomousBudget,
+        topN: batchTopN,
+        maxPerMarketUsd: batchMaxPerMarket,
+        minOrderUsd: MIN_BATCH_ORDER_USD,
       });
-    } catch (orderError) {
-      setAutonomousOrderStatus('error');
-      setAutonomousOrderResult({
-        errorMsg: orderError instanceof Error ? orderError.message : "Unknown error",
-        side,
+      ranked.forEach((result, i) => {
+        updateBatchResult(result.key, { rank: i + 1, allocationUsd: allocation.get(result.key) });
       });
+
+      // Show the agents' analyses of the best opportunity (or the first analysed market)
+      const shown = details.get(ranked[0]?.key ?? results.find(r => r.analysis)?.key ?? "");
+      setAgents(prev => prev.map(a => {
+        const own = shown?.analyses.find(x => x.agentId === a.id);
+        return own
+          ? { ...a, status: 'completed', result: own.analysis }
+          : { ...a, status: 'error', error: shown ? "Agent analysis failed" : "No market could be analysed" };
+      }));
+      if (shown?.aggregated) {
+        setAggregator(prev => ({ ...prev, status: 'completed', result: shown.aggregated }));
+        setExpandedAggregator(true);
+      }
+
+      // Step 4: Place an order for every market that received a share of the budget
+      let topOrder: { status: 'success' | 'error'; result: AutonomousOrderResult; orderParams?: Record<string, unknown> } | null = null;
+      if (allocation.size === 0) {
+        setAutonomousOrderStatus('skipped');
+        setAutonomousOrderResult({ errorMsg: "No market has enough alpha to trade - no orders placed" });
+      } else {
+        setAutonomousOrderStatus('placing');
+        let placed = 0;
+        let spentUsd = 0;
+
+        for (const [key, budgetUsd] of allocation) {
+          const target = batch.find(t => t.result.key === key)!;
+          const analysed = details.get(key)!;
+          updateBatchResult(key, { orderStatus: 'placing' });
+
+          const outcome = await executeAutonomousOrder(
+            analysed.final,
+            target.result.eventIdentifier,
+            target.market,
+            target.result.pmType,
+            budgetUsd,
+            {
+              source: "autonomous",
+              strategy: "autonomous-batch",
+              model: analysed.model,
+              asset: target.result.eventIdentifier,
+              analysisRequestId: newRequestId,
+            }
+          );
+          topOrder = topOrder ?? outcome;
+          updateBatchResult(key, { orderStatus: outcome.status, order: outcome.result });
+
+          if (outcome.status === 'success') {
+            placed++;
+            spentUsd += outcome.result.costUsd ?? 0;
+          }
+        }
+
+        setMapperAgentData(topOrder?.orderParams || null);
+        setAutonomousOrderStatus(placed > 0 ? 'success' : 'error');
+        setAutonomousOrderResult(placed > 0
+          ? { costUsd: spentUsd, paperTrading: autonomousPaperTrading && isPaperTradingAvailable }
+          : { errorMsg: "All batch orders failed" });
+      }
+
+      // Upload the best opportunity's analyses and order to Irys if verifiable is enabled
+      if (verifiable && shown) {
+        const topKey = ranked[0]?.key ?? results.find(r => r.analysis)!.key;
+        const top = batch.find(t => t.result.key === topKey)!.result;
+        await uploadCombinedToIrys(
+          agents.map(a => {
+            const own = shown.analyses.find(x => x.agentId === a.id);
+            return own ? { ...a, status: 'completed', result: own.analysis } : a;
+          }),
+          shown.aggregated ? { ...aggregator, status: 'completed', result: shown.aggregated } : null,
+          topOrder?.orderParams || null,
+          topOrder?.result || null,
+          topOrder ? topOrder.status : 'skipped',
+          { pmType: top.pmType, eventIdentifier: top.eventIdentifier },
+          newRequestId,
+          analysisMode
+        );
+      }
+
+    } catch (err) {
+      setAgents(prev => prev.map(a => a.status === 'running' ? { ...a, status: 'idle' } : a));
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsRunning(false);
+      setIsLoadingEvents(false);
     }
   };
 
@@ -1594,7 +1974,9 @@ const AgenticMarketAnalysis = () => {
                 type="text"
                 value={url}
                 onChange={(e) => setUrl(e.target.value)}
-                placeholder="Paste Kalshi, Polymarket, or Jupiter URL ..."
+                placeholder={isBatch
+                  ? "Paste one or more Kalshi, Polymarket, or Jupiter URLs (space separated) ..."
+                  : "Paste Kalshi, Polymarket, or Jupiter URL ..."}
                 disabled={isRunning}
                 className="flex-1 bg-transparent border-none outline-none text-foreground placeholder:text-muted-foreground/50 font-mono"
               />
@@ -1755,7 +2137,7 @@ const AgenticMarketAnalysis = () => {
               
               {/* Autonomous Mode Budget Input */}
               {analysisMode === 'autonomous' && (
-                <div className={`flex items-center gap-3 px-3 py-2 rounded-lg ${
+                <div className={`flex flex-wrap items-center gap-3 px-3 py-2 rounded-lg ${
                   isAutonomousAvailable 
                     ? 'bg-emerald-500/10 border border-emerald-500/30' 
                     : 'bg-emerald-500/5 border border-emerald-500/20'
@@ -1769,9 +2151,9 @@ const AgenticMarketAnalysis = () => {
                     <input
                       type="number"
                       min={1}
-                      max={100}
+                      max={isBatch ? MAX_BATCH_BUDGET : MAX_BUDGET}
                       value={autonomousBudget}
-                      onChange={(e) => setAutonomousBudget(Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+                      onChange={(e) => setAutonomousBudget(Math.min(isBatch ? MAX_BATCH_BUDGET : MAX_BUDGET, Math.max(1, parseInt(e.target.value) || 1)))}
                       disabled={isRunning}
                       className={`w-16 bg-secondary/50 border rounded px-2 py-1 text-sm font-mono focus:outline-none disabled:opacity-50 ${
                         isAutonomousAvailable 
@@ -1780,16 +2162,71 @@ const AgenticMarketAnalysis = () => {
                       }`}
                     />
                   </div>
-                  <span className={`text-[10px] ${isAutonomousAvailable ? 'text-emerald-400/70' : 'text-emerald-400/50'}`}>($1 - $100)</span>
+                  <span className={`text-[10px] ${isAutonomousAvailable ? 'text-emerald-400/70' : 'text-emerald-400/50'}`}>
+                    {isBatch ? `($1 - $${MAX_BATCH_BUDGET} total)` : `($1 - $${MAX_BUDGET})`}
+                  </span>
+                  <label
+                    className={`flex items-center gap-1.5 text-[10px] ${isPaperTradingAvailable ? 'cursor-pointer text-emerald-400/70' : 'cursor-not-allowed text-emerald-400/40'}`}
+                    title={isPaperTradingAvailable ? undefined : "Paper trading is only available for Polymarket"}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={autonomousPaperTrading && isPaperTradingAvailable}
+                      onChange={(e) => setAutonomousPaperTrading(e.target.checked)}
+                      disabled={isRunning || !isPaperTradingAvailable}
+                      className="accent-emerald-500"
+                    />
+                    Paper
+                  </label>
+                  <label
+                    className="flex items-center gap-1.5 text-[10px] cursor-pointer text-emerald-400/70"
+                    title="Analyse every market on its own and split the budget across the best opportunities"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={batchMode}
+                      onChange={(e) => {
+                        setBatchMode(e.target.checked);
+                        if (!e.target.checked) setAutonomousBudget(prev => Math.min(MAX_BUDGET, prev));
+                      }}
+                      disabled={isRunning}
+                      className="accent-emerald-500"
+                    />
+                    Batch
+                  </label>
+                  {batchMode && (
+                    <div className="flex items-center gap-2 text-[10px] text-emerald-400/70">
+                      <span className="font-display">TOP</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_BATCH_MARKETS}
+                        value={batchTopN}
+                        onChange={(e) => setBatchTopN(Math.min(MAX_BATCH_MARKETS, Math.max(1, parseInt(e.target.value) || 1)))}
+                        disabled={isRunning}
+                        className="w-12 bg-secondary/50 border border-emerald-500/30 rounded px-2 py-1 text-sm font-mono text-emerald-300 focus:outline-none focus:border-emerald-400 disabled:opacity-50"
+                      />
+                      <span className="font-display">MAX/MARKET $</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_BUDGET}
+                        value={batchMaxPerMarket}
+                        onChange={(e) => setBatchMaxPerMarket(Math.min(MAX_BUDGET, Math.max(1, parseInt(e.target.value) || 1)))}
+                        disabled={isRunning}
+                        className="w-14 bg-secondary/50 border border-emerald-500/30 rounded px-2 py-1 text-sm font-mono text-emerald-300 focus:outline-none focus:border-emerald-400 disabled:opacity-50"
+                      />
+                    </div>
+                  )}
                   <div className="ml-auto flex items-center gap-1.5 text-[10px]">
-                    {isAutonomousAvailable ? (
+                    {detectedUrlType === 'polymarket' ? (
                       <span className="px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-400 font-mono">Polymarket</span>
                     ) : detectedUrlType === 'kalshi' ? (
-                      <span className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 font-mono">Kalshi - Soon</span>
+                      <span className="px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 font-mono">Kalshi</span>
                     ) : detectedUrlType === 'jupiter' ? (
-                      <span className="px-1.5 py-0.5 rounded bg-gradient-to-r from-[#00D18C]/20 to-[#C7F284]/20 text-[#00D18C] font-mono">Jupiter - Soon</span>
+                      <span className="px-1.5 py-0.5 rounded bg-gradient-to-r from-[#00D18C]/20 to-[#C7F284]/20 text-[#00D18C] font-mono">Jupiter (Kalshi)</span>
                     ) : (
-                      <span className="px-1.5 py-0.5 rounded bg-muted text-muted-foreground font-mono">Polymarket Only (Kalshi Soon)</span>
+                      <span className="px-1.5 py-0.5 rounded bg-muted text-muted-foreground font-mono">Polymarket, Kalshi or Jupiter</span>
                     )}
                   </div>
                 </div>
@@ -1804,6 +2241,22 @@ const AgenticMarketAnalysis = () => {
               </button>
             </div>
 
+            {/* Agent Team Presets */}
+            <div className="my-3">
+              <AgentPresetPicker
+                agents={agents}
+                aggregator={aggregator}
+                disabled={isRunning}
+                onLoad={(loadedAgents, loadedAggregator, preset) => {
+                  setAgents(loadedAgents);
+                  setAggregator(loadedAggregator);
+                  setExpandedAgents(new Set());
+                  setLoadedPreset(preset);
+                }}
+                onSave={setLoadedPreset}
+              />
+            </div>
+
             {/* Workflow Pipeline Progress Indicator */}
             {isRunning && (
               <div className="mb-4 p-3 rounded-lg bg-card/40 border border-border/50 backdrop-blur-sm stagger-fade-in">
@@ -2367,7 +2820,7 @@ const AgenticMarketAnalysis = () => {
                 </>
               )}
 
-              {/* Autonomous Order Box - Shows in autonomous mode for Polymarket */}
+              {/* Autonomous Order Box - Shows in autonomous mode for supported markets */}
               {analysisMode === 'autonomous' && isAutonomousAvailable && (
                 <>
                   {/* Connector to Order */}
@@ -2452,17 +2905,80 @@ const AgenticMarketAnalysis = () => {
                     </div>
                     
                     <div className="px-4 pb-4 relative">
-                      {autonomousOrderStatus === 'success' && autonomousOrderResult ? (
+                      {isBatch && batchResults.length > 0 ? (
+                        <div className="space-y-2">
+                          <div className="flex items-center gap-2 text-xs text-emerald-400/80">
+                            <ListOrdered className="w-3.5 h-3.5" />
+                            {autonomousOrderStatus === 'success' && autonomousOrderResult ? (
+                              <span>
+                                {autonomousOrderResult.paperTrading ? "Paper orders placed" : "Orders placed"}: $
+                                {autonomousOrderResult.costUsd?.toFixed(2)} of ${autonomousBudget} across the top {batchTopN} market(s)
+                              </span>
+                            ) : autonomousOrderResult?.errorMsg ? (
+                              <span className={autonomousOrderStatus === 'skipped' ? 'text-amber-400/80' : 'text-destructive'}>
+                                {autonomousOrderResult.errorMsg}
+                              </span>
+                            ) : (
+                              <span>
+                                Analysing {batchResults.filter(r => r.status === 'analyzed' || r.status === 'error').length}/{batchResults.length} markets
+                                (${autonomousBudget} across the top {batchTopN}, max ${batchMaxPerMarket} each)
+                              </span>
+                            )}
+                          </div>
+                          <div className="divide-y divide-border/30 rounded border border-border/30 bg-secondary/10">
+                            {[...batchResults]
+                              .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity))
+                              .map(result => (
+                                <div key={result.key} className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs">
+                                  <div className="flex items-center gap-2 min-w-0">
+                                    <span className="w-6 shrink-0 font-mono text-muted-foreground">
+                                      {result.rank ? `#${result.rank}` : "—"}
+                                    </span>
+                                    <span className="truncate text-foreground" title={result.title}>{result.title}</span>
+                                  </div>
+                                  <div className="flex items-center gap-2 shrink-0 font-mono">
+                                    {result.status === 'analyzing' && <Loader2 className="w-3 h-3 text-emerald-400 animate-spin" />}
+                                    {result.status === 'error' && (
+                                      <span className="text-destructive" title={result.error}>failed</span>
+                                    )}
+                                    {result.analysis && (
+                                      <>
+                                        <span className={result.analysis.alphaOpportunity > 0 ? 'text-success' : result.analysis.alphaOpportunity < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                                          {result.analysis.alphaOpportunity > 0 ? '+' : ''}{result.analysis.alphaOpportunity.toFixed(1)}
+                                        </span>
+                                        <span className="text-muted-foreground">{result.analysis.recommendedAction}</span>
+                                      </>
+                                    )}
+                                    {result.allocationUsd !== undefined && (
+                                      <span className="px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-300">${result.allocationUsd.toFixed(2)}</span>
+                                    )}
+                                    {result.orderStatus === 'placing' && <span className="text-emerald-400/70">placing</span>}
+                                    {result.orderStatus === 'success' && result.order && (
+                                      <span className="text-emerald-300" title={result.order.orderId}>
+                                        {result.order.side} {result.order.size} @ {((result.order.price || 0) * 100).toFixed(1)}%
+                                      </span>
+                                    )}
+                                    {result.orderStatus === 'error' && (
+                                      <span className="text-destructive" title={result.order?.errorMsg}>order failed</span>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
+                          </div>
+                        </div>
+                      ) : autonomousOrderStatus === 'success' && autonomousOrderResult ? (
                         <div className="stagger-fade-in space-y-2">
                           <p className="text-xs text-emerald-400/80">
-                            Order successfully placed on Polymarket!
+                            {autonomousOrderResult.paperTrading
+                              ? "Paper order placed (simulated, no real funds)"
+                              : `Order successfully placed on ${autonomousOrderResult.platform || "Polymarket"}!`}
                           </p>
                           <div className="flex flex-wrap gap-2 text-xs">
                             <span className="px-2 py-1 rounded bg-emerald-500/20 text-emerald-300 font-mono">
                               {autonomousOrderResult.side}
                             </span>
                             <span className="px-2 py-1 rounded bg-secondary/50 text-muted-foreground font-mono">
-                              {autonomousOrderResult.size} shares
+                              {autonomousOrderResult.size} {autonomousOrderResult.platform === 'Kalshi' ? 'contracts' : 'shares'}
                             </span>
                             <span className="px-2 py-1 rounded bg-secondary/50 text-muted-foreground font-mono">
                               @ {((autonomousOrderResult.price || 0) * 100).toFixed(1)}%
@@ -2494,7 +3010,11 @@ const AgenticMarketAnalysis = () => {
                           {isRunning ? (
                             <span>Waiting for agent analysis to complete...</span>
                           ) : (
-                            <span>Order will be placed automatically based on agent recommendation (Budget: ${autonomousBudget})</span>
+                            <span>
+                              {isBatch
+                                ? `Orders will be placed on the top ${batchTopN} market(s) by alpha (Budget: $${autonomousBudget}, max $${batchMaxPerMarket} per market)`
+                                : `Order will be placed automatically based on agent recommendation (Budget: $${autonomousBudget})`}
+                            </span>
                           )}
                         </div>
                       )}
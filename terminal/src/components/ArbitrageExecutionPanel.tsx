@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { Zap, Loader2, AlertTriangle } from "lucide-react";
+import type {
+  ArbitrageAnalysis,
+  ArbitrageExecution,
+  ArbitrageExecutorRequest,
+  ArbitrageExecutorResponse,
+  ArbitrageLegExecution,
+  ArbitragePositionStatus,
+} from "@/types/arbitrage";
+
+const STATUS_CLASSES: Record<ArbitragePositionStatus, string> = {
+  open: "text-success",
+  cancelled: "text-muted-foreground",
+  unwound: "text-yellow-500",
+  unhedged: "text-danger",
+};
+
+const STATUS_DESCRIPTIONS: Record<ArbitragePositionStatus, string> = {
+  open: "Both legs filled. The pairs pay out $1 each whichever way the market resolves.",
+  cancelled: "The first leg did not fill, so nothing was bought.",
+  unwound: "The second leg did not fill and the first leg's contracts were sold back.",
+  unhedged: "Some contracts could not be paired or sold back, or their fills could not be read. Close them by hand.",
+};
+
+/**
+ * Call the arbitrage executor API
+ */
+async function callArbitrageExecutor(request: ArbitrageExecutorRequest): Promise<ArbitrageExecutorResponse> {
+  const response = await fetch("/api/arbitrage-executor", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const platformName = (leg: ArbitrageLegExecution) => leg.source === "polymarket" ? "Polymarket" : "Kalshi";
+
+/**
+ * Buy both legs of an analysed arbitrage in one click
+ */
+const ArbitrageExecutionPanel = ({ analysis }: { analysis: ArbitrageAnalysis }) => {
+  const [size, setSize] = useState(String(Math.floor(analysis.depth?.maxSize ?? 0)));
+  const [slippage, setSlippage] = useState("0");
+  const [isExecuting, setIsExecuting] = useState(false);
+  const [execution, setExecution] = useState<ArbitrageExecution | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const strategy = analysis.arbitrage.strategy;
+
+  const handleExecute = async () => {
+    if (!strategy) return;
+    const pairs = Number(size);
+    const maxSlippageCents = Number(slippage);
+    if (!Number.isInteger(pairs) || pairs < 1) {
+      setError("Size must be a whole number of contracts");
+      return;
+    }
+    if (isNaN(maxSlippageCents) || maxSlippageCents < 0) {
+      setError("Slippage must be a number of cents");
+      return;
+    }
+    if (!window.confirm(
+      `Buy ${pairs} YES on ${strategy.buyYesOn === "polymarket" ? "Polymarket" : "Kalshi"} and ${pairs} NO on ${strategy.buyNoOn === "polymarket" ? "Polymarket" : "Kalshi"} with real funds?`
+    )) return;
+
+    setIsExecuting(true);
+    setError(null);
+    setExecution(null);
+
+    try {
+      const data = await callArbitrageExecutor({ action: "execute", analysis, size: pairs, maxSlippageCents });
+      if (data.execution) {
+        setExecution(data.execution);
+      }
+      if (!data.success) {
+        setError(data.error || "Failed to execute the arbitrage");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-secondary rounded-lg border border-border focus:border-primary focus:ring-1 focus:ring-primary/50 transition-all text-sm text-foreground disabled:opacity-50";
+
+  const renderLeg = (leg: ArbitrageLegExecution) => (
+    <tr key={leg.side} className="border-t border-border/50">
+      <td className="py-1">{leg.side.toUpperCase()} on {platformName(leg)}</td>
+      <td className="text-right py-1">{leg.limitPrice}¢</td>
+      <td className="text-right py-1">{leg.filled}/{leg.requested}</td>
+      <td className="text-right py-1">{leg.unwound > 0 ? `${leg.unwound} @ ${leg.unwindPrice}¢` : "-"}</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-card rounded-xl terminal-border p-6">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Zap className="w-4 h-4" />
+        Execute Arbitrage
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+        <div>
+          <label className="block text-xs text-muted-foreground uppercase font-mono mb-1">Size (contracts)</label>
+          <input
+            type="number"
+            min={1}
+            value={size}
+            onChange={(e) => setSize(e.target.value)}
+            disabled={isExecuting}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground uppercase font-mono mb-1">Max Slippage (¢)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={slippage}
+            onChange={(e) => setSlippage(e.target.value)}
+            disabled={isExecuting}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={handleExecute}
+          disabled={isExecuting || !strategy}
+          className="h-[38px] px-4 flex items-center justify-center gap-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-all disabled:opacity-50"
+        >
+          {isExecuting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Zap className="w-4 h-4" />}
+          Execute Both Legs
+        </button>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-3">
+        The Kalshi leg is bought first and the Polymarket leg for whatever filled. Unfilled orders are cancelled after a few seconds, and Kalshi contracts left without a Polymarket partner are sold back at the best bid.
+      </p>
+
+      {error && <p className="text-sm text-destructive mt-4">{error}</p>}
+
+      {execution && (
+        <div className="mt-4 bg-secondary/50 rounded-lg p-4 text-xs font-mono">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <div className={`text-sm uppercase font-bold ${STATUS_CLASSES[execution.status]}`}>{execution.status}</div>
+              <div className="text-muted-foreground">{STATUS_DESCRIPTIONS[execution.status]}</div>
+            </div>
+            <div className="text-right shrink-0">
+              <div className="text-foreground">{execution.size} pair(s) for ${execution.costUsd.toFixed(2)}</div>
+              <div className={execution.expectedProfitUsd > 0 ? "text-success" : "text-muted-foreground"}>
+                +${execution.expectedProfitUsd.toFixed(2)} at resolution
+              </div>
+            </div>
+          </div>
+
+          <table className="w-full">
+            <thead>
+              <tr className="text-muted-foreground uppercase">
+                <th className="text-left py-1">Leg</th>
+                <th className="text-right py-1">Limit</th>
+                <th className="text-right py-1">Filled</th>
+                <th className="text-right py-1">Unwound</th>
+              </tr>
+            </thead>
+            <tbody>
+              {renderLeg(execution.yesLeg)}
+              {renderLeg(execution.noLeg)}
+            </tbody>
+          </table>
+
+          {execution.unhedgedSize > 0 && (
+            <p className="text-danger mt-3 flex items-start gap-2">
+              <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+              {execution.unhedgedSize} contract(s) are held without the other leg.
+            </p>
+          )}
+          {[execution.yesLeg, execution.noLeg].filter(leg => leg.error).map(leg => (
+            <p key={leg.side} className="text-muted-foreground mt-2">
+              {platformName(leg)}: {leg.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArbitrageExecutionPanel;
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Link2, Search, Loader2, Check, X, Pencil, Trash2 } from "lucide-react";
+import type {
+  ArbitrageMatchesRequest,
+  ArbitrageMatchesResponse,
+  MarketMatch,
+  MarketMatchStatus,
+} from "@/types/arbitrage";
+
+const STATUS_FILTERS: { value: MarketMatchStatus | "all"; label: string }[] = [
+  { value: "all", label: "All matches" },
+  { value: "suggested", label: "Suggested" },
+  { value: "confirmed", label: "Confirmed" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const STATUS_CLASSES: Record<MarketMatchStatus, string> = {
+  suggested: "text-yellow-500",
+  confirmed: "text-success",
+  rejected: "text-danger",
+};
+
+/**
+ * Call the market matches API
+ */
+async function callArbitrageMatches(request: ArbitrageMatchesRequest): Promise<ArbitrageMatchesResponse> {
+  const response = await fetch("/api/arbitrage-matches", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const reviewerName = (match: MarketMatch) =>
+  match.reviewedBy === "human" ? "you" : match.reviewedBy === "llm" ? "AI" : null;
+
+/**
+ * Stored Polymarket <-> Kalshi market matches: review, edit and delete
+ */
+const ArbitrageMatchesPanel = () => {
+  const [matches, setMatches] = useState<MarketMatch[]>([]);
+  const [statusFilter, setStatusFilter] = useState<MarketMatchStatus | "all">("suggested");
+  const [search, setSearch] = useState("");
+  // Search applied on Enter or the Search button
+  const [query, setQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; confidence: string; notes: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // State is only set once the response arrives, so the filter effect can call this
+  const loadMatches = useCallback(() => callArbitrageMatches({
+    action: "list",
+    statuses: statusFilter === "all" ? undefined : [statusFilter],
+    search: query || undefined,
+  })
+    .then(data => {
+      if (data.success) {
+        setMatches(data.matches || []);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to load market matches");
+      }
+    })
+    .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+    .finally(() => setIsLoading(false)), [statusFilter, query]);
+
+  // Reload when the status filter or the applied search changes
+  useEffect(() => {
+    loadMatches();
+  }, [loadMatches]);
+
+  // Apply the search box, or reload if it is already applied
+  const applySearch = () => {
+    const next = search.trim();
+    setIsLoading(true);
+    if (next === query) loadMatches();
+    else setQuery(next);
+  };
+
+  // Run an action on one match and apply the result to the list
+  const runAction = async (match: MarketMatch, request: ArbitrageMatchesRequest) => {
+    setBusyId(match.id);
+    setError(null);
+
+    try {
+      const data = await callArbitrageMatches({ ...request, matchId: match.id });
+      if (!data.success) {
+        setError(data.error || `Failed to ${request.action} the market match`);
+        return;
+      }
+
+      if (request.action === "delete") {
+        setMatches(prev => prev.filter(m => m.id !== match.id));
+      } else if (data.match) {
+        const updated = data.match;
+        setMatches(prev => prev.map(m => m.id === updated.id ? updated : m));
+      }
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveEdit = (match: MarketMatch) => {
+    if (!editing) return;
+    const confidence = editing.confidence.trim() === "" ? undefined : Number(editing.confidence);
+    if (confidence !== undefined && (isNaN(confidence) || confidence < 0 || confidence > 100)) {
+      setError("Confidence must be a number from 0 to 100");
+      return;
+    }
+    runAction(match, { action: "update", update: { confidence, resolutionNotes: editing.notes } });
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-secondary rounded-lg border border-border focus:border-primary focus:ring-1 focus:ring-primary/50 transition-all text-sm text-foreground disabled:opacity-50";
+  const actionClass = "flex items-center gap-1 transition-colors disabled:opacity-50";
+
+  return (
+    <div className="bg-card rounded-xl terminal-border p-6 mb-8">
+      <h3 className="text-sm font-mono text-primary uppercase tracking-wider flex items-center gap-2 mb-4">
+        <Link2 className="w-4 h-4" />
+        Market Matches
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-[200px_1fr_auto] gap-4 items-end">
+        <select
+          value={statusFilter}
+          onChange={(e) => { setIsLoading(true); setStatusFilter(e.target.value as MarketMatchStatus | "all"); }}
+          className={inputClass}
+        >
+          {STATUS_FILTERS.map(filter => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && applySearch()}
+          placeholder="Search Polymarket or Kalshi titles"
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={applySearch}
+          disabled={isLoading}
+          className="h-[38px] px-4 flex items-center justify-center gap-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-all disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+          Load
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-destructive mt-4">{error}</p>}
+
+      <div className="mt-6 space-y-2 max-h-[480px] overflow-y-auto">
+        {matches.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {isLoading ? "Loading..." : "No market matches. Confirm or reject pairs from the scanner or Find Arb results."}
+          </p>
+        ) : (
+          matches.map(match => {
+            const reviewer = reviewerName(match);
+            const isBusy = busyId === match.id;
+            const isEditing = editing?.id === match.id;
+
+            return (
+              <div key={match.id} className="rounded-lg bg-secondary/30 border border-border p-3 text-xs font-mono">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-sm text-foreground truncate" title={match.polymarketTitle}>
+                      {match.polymarketTitle}
+                    </div>
+                    <div className="text-muted-foreground truncate" title={match.kalshiTitle}>
+                      ↔ {match.kalshiTitle} <span className="text-muted-foreground/60">({match.kalshiTicker})</span>
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className={`uppercase ${STATUS_CLASSES[match.status]}`}>{match.status}</div>
+                    <div className="text-muted-foreground">
+                      {match.confidence !== undefined && `${match.confidence}% · `}
+                      {reviewer ? `by ${reviewer}` : `from ${match.matchedBy === "llm" ? "AI" : match.matchedBy}`}
+                    </div>
+                  </div>
+                </div>
+
+                {isEditing ? (
+                  <div className="grid grid-cols-1 md:grid-cols-[100px_1fr] gap-2 mt-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={editing.confidence}
+                      onChange={(e) => setEditing({ ...editing, confidence: e.target.value })}
+                      placeholder="Conf. %"
+                      className={inputClass}
+                    />
+                    <textarea
+                      value={editing.notes}
+                      onChange={(e) => setEditing({ ...editing, notes: e.target.value })}
+                      placeholder="Differences in resolution criteria, sources or deadlines"
+                      rows={2}
+                      className={inputClass}
+                    />
+                  </div>
+                ) : (
+                  match.resolutionNotes && (
+                    <p className="text-muted-foreground mt-2 whitespace-pre-wrap">{match.resolutionNotes}</p>
+                  )
+                )}
+
+                <div className="flex flex-wrap items-center gap-4 mt-2 text-muted-foreground">
+                  {isBusy ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : isEditing ? (
+                    <>
+                      <button type="button" onClick={() => saveEdit(match)} className={`${actionClass} hover:text-success`}>
+                        <Check className="w-3 h-3" />
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setEditing(null)} className={`${actionClass} hover:text-foreground`}>
+                        <X className="w-3 h-3" />
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      {match.status !== "confirmed" && (
+                        <button
+                          type="button"
+                          onClick={() => runAction(match, { action: "confirm" })}
+                          disabled={busyId !== null}
+                          className={`${actionClass} hover:text-success`}
+                        >
+                          <Check className="w-3 h-3" />
+                          Confirm
+                        </button>
+                      )}
+                      {match.status !== "rejected" && (
+                        <button
+                          type="button"
+                          onClick={() => runAction(match, { action: "reject" })}
+                          disabled={busyId !== null}
+                          className={`${actionClass} hover:text-danger`}
+                        >
+                          <X className="w-3 h-3" />
+                          Reject
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setEditing({
+                          id: match.id,
+                          confidence: match.confidence !== undefined ? String(match.confidence) : "",
+                          notes: match.resolutionNotes || "",
+                        })}
+                        disabled={busyId !== null}
+                        className={`${actionClass} hover:text-foreground`}
+                      >
+                        <Pencil className="w-3 h-3" />
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => runAction(match, { action: "delete" })}
+                        disabled={busyId !== null}
+                        className={`${actionClass} hover:text-danger`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArbitrageMatchesPanel;
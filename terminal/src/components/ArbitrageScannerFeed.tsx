@@ -0,0 +1,407 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Radar, Play, Square, Loader2, ExternalLink, Check, X } from "lucide-react";
+import type {
+  ArbitrageMatchesResponse,
+  ArbitrageScannerMessage,
+  ArbitrageScannerRequest,
+  ArbitrageScannerResponse,
+  ArbitrageScannerSettings,
+  ArbitrageScannerStatus,
+  ScanMarket,
+  TrackedArbitragePair,
+} from "@/types/arbitrage";
+
+// Settings are kept in the browser so the scanner can be restarted after a server restart
+const STORAGE_KEY = "predictos.arbitrage-scanner.settings";
+
+const DEFAULT_SETTINGS: ArbitrageScannerSettings = {
+  minNetProfit: 1,
+  intervalSeconds: 60,
+  maxEvents: 200,
+  minMatchScore: 0.6,
+};
+
+interface SavedScannerSettings {
+  settings: ArbitrageScannerSettings;
+  running: boolean;
+}
+
+/**
+ * Call the arbitrage scanner API
+ */
+async function callArbitrageScanner(request: ArbitrageScannerRequest): Promise<ArbitrageScannerResponse> {
+  const response = await fetch("/api/arbitrage-scanner", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+/**
+ * Save a scanned pair in the market match index as confirmed or rejected
+ */
+async function reviewScannedPair(pair: TrackedArbitragePair, status: "confirmed" | "rejected"): Promise<ArbitrageMatchesResponse> {
+  const response = await fetch("/api/arbitrage-matches", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      action: "create",
+      status,
+      match: {
+        polymarketId: pair.polymarket.marketId,
+        polymarketSlug: pair.polymarket.eventId,
+        polymarketTitle: pair.polymarket.title,
+        kalshiTicker: pair.kalshi.marketId,
+        kalshiEventTicker: pair.kalshi.eventId,
+        kalshiTitle: pair.kalshi.title,
+        confidence: Math.round(pair.matchScore * 100),
+      },
+    }),
+  });
+  return response.json();
+}
+
+const platformName = (source: ScanMarket["source"]) => source === "polymarket" ? "Polymarket" : "Kalshi";
+
+const formatAge = (iso?: string) => {
+  if (!iso) return "—";
+  const minutes = Math.floor((Date.now() - Date.parse(iso)) / 60000);
+  return minutes < 1 ? "new" : minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+/**
+ * Live feed of the background arbitrage scanner (lib/arbitrage-scanner.ts)
+ */
+const ArbitrageScannerFeed = () => {
+  const [settings, setSettings] = useState<ArbitrageScannerSettings>(DEFAULT_SETTINGS);
+  const [status, setStatus] = useState<ArbitrageScannerStatus | null>(null);
+  const [opportunities, setOpportunities] = useState<TrackedArbitragePair[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const saveSettings = (saved: SavedScannerSettings) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    } catch {
+      // Storage might be unavailable
+    }
+  };
+
+  // Load the scanner's state; restart it from the saved settings if the server lost them
+  useEffect(() => {
+    const load = async () => {
+      let saved: SavedScannerSettings | null = null;
+      try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        saved = raw ? JSON.parse(raw) : null;
+      } catch {
+        // Ignore unreadable storage
+      }
+
+      try {
+        let data = await callArbitrageScanner({ action: "get" });
+        if (data.success && !data.status?.running && saved?.running && saved.settings) {
+          data = await callArbitrageScanner({ action: "start", settings: saved.settings });
+        }
+
+        if (!data.success) {
+          setError(data.error || "Failed to load the arbitrage scanner");
+        } else {
+          setStatus(data.status || null);
+          setOpportunities(data.opportunities || []);
+        }
+
+        const loaded = data.settings || saved?.settings;
+        if (loaded) setSettings(loaded);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error");
+      }
+    };
+    load();
+  }, []);
+
+  // Live opportunities and status
+  useEffect(() => {
+    const eventSource = new EventSource("/api/arbitrage-scanner");
+
+    eventSource.onmessage = (event) => {
+      try {
+        const message: ArbitrageScannerMessage = JSON.parse(event.data);
+
+        switch (message.type) {
+          case "opportunities":
+            setOpportunities(message.data as TrackedArbitragePair[]);
+            break;
+
+          case "status":
+            setStatus(message.data as ArbitrageScannerStatus);
+            break;
+
+          default:
+            // Heartbeats and unknown event types
+            break;
+        }
+      } catch (e) {
+        console.error("Failed to parse SSE message:", e);
+      }
+    };
+
+    return () => eventSource.close();
+  }, []);
+
+  const startScanner = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const data = await callArbitrageScanner({ action: "start", settings });
+      if (!data.success) {
+        setError(data.error || "Failed to start the arbitrage scanner");
+        return;
+      }
+      setStatus(data.status || null);
+      saveSettings({ settings, running: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const stopScanner = async () => {
+    setIsSubmitting(true);
+    try {
+      const data = await callArbitrageScanner({ action: "stop" });
+      if (!data.success) {
+        setError(data.error || "Failed to stop the arbitrage scanner");
+        return;
+      }
+      setStatus(data.status || null);
+      saveSettings({ settings, running: false });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Rejected pairs are dropped now; the scanner stops pairing them from its next refresh
+  const reviewPair = async (pair: TrackedArbitragePair, status: "confirmed" | "rejected") => {
+    setReviewingId(pair.id);
+    try {
+      const data = await reviewScannedPair(pair, status);
+      if (!data.success || !data.match) {
+        setError(data.error || "Failed to save the market match");
+        return;
+      }
+      const matchId = data.match.id;
+      setOpportunities(prev => status === "rejected"
+        ? prev.filter(p => p.id !== pair.id)
+        : prev.map(p => p.id === pair.id ? { ...p, matchId, matchStatus: "confirmed" } : p));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const updateSetting = (key: keyof ArbitrageScannerSettings, value: string, integer = false) => {
+    const parsed = integer ? parseInt(value) : parseFloat(value);
+    setSettings(prev => ({ ...prev, [key]: isNaN(parsed) ? 0 : parsed }));
+  };
+
+  const isRunning = !!status?.running;
+  const inputClass = "w-full px-3 py-2 bg-secondary rounded-lg border border-border focus:border-primary focus:ring-1 focus:ring-primary/50 transition-all text-sm text-foreground disabled:opacity-50";
+  const labelClass = "text-xs font-mono text-muted-foreground uppercase tracking-wider mb-2 block";
+
+  const renderLeg = (side: "YES" | "NO", market: ScanMarket, price: number) => (
+    <a
+      href={market.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-1 hover:text-primary transition-colors"
+    >
+      <span className={side === "YES" ? "text-success" : "text-danger"}>{side}</span>
+      <span>{platformName(market.source)} @ {price.toFixed(1)}¢</span>
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  );
+
+  return (
+    <div className="bg-card rounded-xl terminal-border p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-mono text-primary uppercase tracking-wider flex items-center gap-2">
+          <Radar className="w-4 h-4" />
+          Live Scanner
+        </h3>
+        {isRunning && (
+          <div className="flex items-center gap-2 text-xs font-mono" title={status?.lastError}>
+            <div className={`w-2 h-2 rounded-full ${status?.lastError ? "bg-yellow-500" : "bg-green-500"} animate-pulse`} />
+            <span className="text-muted-foreground">
+              {status?.scanning ? "SCANNING" : `${status?.pairsMatched ?? 0} pairs · scan ${status?.scans ?? 0}`}
+              {status?.lastScanAt && ` · ${new Date(status.lastScanAt).toLocaleTimeString()}`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+        <div>
+          <label className={labelClass}>Min Profit $/100</label>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={settings.minNetProfit}
+            onChange={(e) => updateSetting("minNetProfit", e.target.value)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Interval (s)</label>
+          <input
+            type="number"
+            min={30}
+            value={settings.intervalSeconds}
+            onChange={(e) => updateSetting("intervalSeconds", e.target.value, true)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Events / Platform</label>
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={settings.maxEvents}
+            onChange={(e) => updateSetting("maxEvents", e.target.value, true)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Min Match</label>
+          <input
+            type="number"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={settings.minMatchScore}
+            onChange={(e) => updateSetting("minMatchScore", e.target.value)}
+            disabled={isSubmitting}
+            className={inputClass}
+          />
+        </div>
+        {isRunning ? (
+          <button
+            type="button"
+            onClick={stopScanner}
+            disabled={isSubmitting}
+            className="h-[38px] flex items-center justify-center gap-2 rounded-lg border border-destructive/50 bg-destructive/20 text-destructive text-sm font-medium hover:bg-destructive/30 transition-all disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Square className="w-4 h-4" />}
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={startScanner}
+            disabled={isSubmitting}
+            className="h-[38px] flex items-center justify-center gap-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 transition-all disabled:opacity-50"
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Start
+          </button>
+        )}
+      </div>
+
+      {(error || status?.lastError) && (
+        <p className="text-sm text-destructive mt-4">{error || status?.lastError}</p>
+      )}
+
+      <div className="mt-6 space-y-2">
+        {opportunities.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            {isRunning
+              ? `No pair above $${settings.minNetProfit} net profit per $100 yet.`
+              : "Start the scanner to watch matched Polymarket and Kalshi markets for arbitrage."}
+          </p>
+        ) : (
+          opportunities.map(pair => {
+            const strategy = pair.opportunity.strategy!;
+            const yesMarket = strategy.buyYesOn === "polymarket" ? pair.polymarket : pair.kalshi;
+            const noMarket = strategy.buyNoOn === "polymarket" ? pair.polymarket : pair.kalshi;
+
+            return (
+              <div key={pair.id} className="rounded-lg bg-success/5 border border-success/20 p-3 text-xs font-mono">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="text-sm text-foreground truncate" title={pair.polymarket.title}>
+                      {pair.polymarket.title}
+                    </div>
+                    <div className="text-muted-foreground truncate" title={pair.kalshi.title}>
+                      ↔ {pair.kalshi.title}{" "}
+                      <span className="text-muted-foreground/60">
+                        ({pair.matchStatus === "confirmed" ? "confirmed match" : `${Math.round(pair.matchScore * 100)}% match`})
+                      </span>
+                    </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-lg font-bold text-success">+${strategy.netProfit.toFixed(2)}</div>
+                    <div className="text-muted-foreground">{pair.opportunity.profitPercent?.toFixed(2)}% · {formatAge(pair.opportunitySince)}</div>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-4 mt-2 text-muted-foreground">
+                  {renderLeg("YES", yesMarket, strategy.buyYesPrice)}
+                  {renderLeg("NO", noMarket, strategy.buyNoPrice)}
+                  <span>
+                    cost ${strategy.totalCost.toFixed(2)}{strategy.fees ? ` (fees $${strategy.fees.toFixed(2)})` : ""} → $100
+                    {pair.opportunity.annualizedReturnPercent !== undefined && ` · ${pair.opportunity.annualizedReturnPercent.toFixed(0)}%/yr`}
+                  </span>
+                  {pair.matchStatus !== "confirmed" && (
+                    <span className="flex items-center gap-3 ml-auto">
+                      {reviewingId === pair.id ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => reviewPair(pair, "confirmed")}
+                            disabled={reviewingId !== null}
+                            className="flex items-center gap-1 hover:text-success transition-colors disabled:opacity-50"
+                            title="Same question: always pair these markets"
+                          >
+                            <Check className="w-3 h-3" />
+                            Confirm
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => reviewPair(pair, "rejected")}
+                            disabled={reviewingId !== null}
+                            className="flex items-center gap-1 hover:text-danger transition-colors disabled:opacity-50"
+                            title="Different questions: never pair these markets"
+                          >
+                            <X className="w-3 h-3" />
+                            Reject
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArbitrageScannerFeed;
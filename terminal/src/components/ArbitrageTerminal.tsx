@@ -17,9 +17,20 @@ import {
   Percent,
   Target,
   Shield,
+  Layers,
+  Calculator,
 } from "lucide-react";
 import Image from "next/image";
-import type { ArbitrageResponse, ArbitrageAnalysis, ArbitrageMarketData } from "@/types/arbitrage";
+import ArbitrageExecutionPanel from "./ArbitrageExecutionPanel";
+import ArbitrageMatchesPanel from "./ArbitrageMatchesPanel";
+import ArbitrageScannerFeed from "./ArbitrageScannerFeed";
+import type {
+  ArbitrageResponse,
+  ArbitrageAnalysis,
+  ArbitrageMarketData,
+  ArbitrageMatchesResponse,
+  MarketMatch,
+} from "@/types/arbitrage";
 
 // Model types
 type AIModel = string;
@@ -63,6 +74,8 @@ const ArbitrageTerminal = () => {
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ArbitrageAnalysis | null>(null);
   const [metadata, setMetadata] = useState<ArbitrageResponse['metadata'] | null>(null);
+  const [match, setMatch] = useState<MarketMatch | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
   const [dropdownOpen, setDropdownOpen] = useState(false);
 
   // Derived state
@@ -78,6 +91,7 @@ const ArbitrageTerminal = () => {
     setError(null);
     setResult(null);
     setMetadata(null);
+    setMatch(null);
 
     try {
       const response = await fetch("/api/arbitrage-finder", {
@@ -95,6 +109,7 @@ const ArbitrageTerminal = () => {
 
       setResult(data.data || null);
       setMetadata(data.metadata || null);
+      setMatch(data.match || null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An unexpected error occurred");
     } finally {
@@ -102,6 +117,31 @@ const ArbitrageTerminal = () => {
     }
   };
 
+  // Confirm or reject the stored match of the compared events
+  const handleReviewMatch = async (action: "confirm" | "reject") => {
+    if (!match) return;
+
+    setIsReviewing(true);
+    try {
+      const response = await fetch("/api/arbitrage-matches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, matchId: match.id }),
+      });
+
+      const data: ArbitrageMatchesResponse = await response.json();
+      if (!data.success || !data.match) {
+        setError(data.error || "Failed to review the market match");
+        return;
+      }
+      setMatch(data.match);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
   // Render market card
   const renderMarketCard = (market: ArbitrageMarketData, label: string) => (
     <div className="bg-secondary/30 rounded-lg p-4 terminal-border">
@@ -341,6 +381,12 @@ const ArbitrageTerminal = () => {
           </div>
         </div>
 
+        {/* Live Scanner */}
+        <ArbitrageScannerFeed />
+
+        {/* Market Matches */}
+        <ArbitrageMatchesPanel />
+
         {/* Error State */}
         {error && (
           <div className="bg-destructive/10 border border-destructive/30 rounded-xl p-6 mb-8">
@@ -385,6 +431,36 @@ const ArbitrageTerminal = () => {
                         ? `Same market detected (${result.sameMarketConfidence}% confidence)` 
                         : 'Markets do not appear to be the same'}
                     </p>
+                    {match && (
+                      <div className="flex items-center gap-3 mt-1 text-xs font-mono text-muted-foreground">
+                        <span>
+                          Match {match.status}
+                          {match.reviewedBy && ` by ${match.reviewedBy === 'human' ? 'you' : 'AI'}`}
+                        </span>
+                        {match.reviewedBy !== 'human' && (
+                          isReviewing ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => handleReviewMatch("confirm")}
+                                className="flex items-center gap-1 hover:text-success transition-colors"
+                              >
+                                <CheckCircle2 className="w-3 h-3" />
+                                Confirm
+                              </button>
+                              <button
+                                onClick={() => handleReviewMatch("reject")}
+                                className="flex items-center gap-1 hover:text-danger transition-colors"
+                              >
+                                <XCircle className="w-3 h-3" />
+                                Reject
+                              </button>
+                            </>
+                          )
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -458,6 +534,147 @@ const ArbitrageTerminal = () => {
               </div>
             )}
 
+            {/* Profit Calculation */}
+            {result.calculation && (
+              <div className="bg-card rounded-xl terminal-border p-6">
+                <h3 className="text-sm font-mono text-primary uppercase tracking-wider mb-4 flex items-center gap-2">
+                  <Calculator className="w-4 h-4" />
+                  Profit Calculation
+                </h3>
+
+                <div className="bg-secondary/50 rounded-lg p-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Fees / ${result.calculation.size}</div>
+                      <div className="text-lg font-bold text-foreground">
+                        ${(result.calculation.kalshiFees + result.calculation.polymarketFees + result.calculation.settlementCost).toFixed(2)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Kalshi ${result.calculation.kalshiFees.toFixed(2)} · Polymarket ${result.calculation.polymarketFees.toFixed(2)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Return</div>
+                      <div className={`text-lg font-bold ${result.calculation.netProfit > 0 ? 'text-success' : 'text-danger'}`}>
+                        {result.calculation.returnPercent.toFixed(2)}%
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        ${result.calculation.netProfit.toFixed(2)} net
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Annualized</div>
+                      <div className="text-lg font-bold text-foreground">
+                        {result.calculation.annualizedReturnPercent !== undefined
+                          ? `${result.calculation.annualizedReturnPercent.toFixed(1)}%`
+                          : 'N/A'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {result.calculation.daysToResolution !== undefined
+                          ? `${result.calculation.daysToResolution} days to resolution`
+                          : 'Resolution date unknown'}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Mismatch Risk</div>
+                      <div className={`text-lg font-bold uppercase ${
+                        result.calculation.mismatchRisk === 'low'
+                          ? 'text-success'
+                          : result.calculation.mismatchRisk === 'medium' ? 'text-yellow-500' : 'text-danger'
+                      }`}>
+                        {result.calculation.mismatchRisk}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {result.modelArbitrage && (
+                  result.modelArbitrage.hasArbitrage !== result.arbitrage.hasArbitrage ||
+                  Math.abs((result.modelArbitrage.strategy?.netProfit ?? 0) - (result.arbitrage.strategy?.netProfit ?? 0)) >= 0.5
+                ) && (
+                  <p className="text-xs text-muted-foreground mt-3 flex items-start gap-2">
+                    <AlertTriangle className="w-3 h-3 text-yellow-500 shrink-0 mt-0.5" />
+                    The AI estimated {result.modelArbitrage.hasArbitrage
+                      ? `$${(result.modelArbitrage.strategy?.netProfit ?? 0).toFixed(2)} net profit per $100`
+                      : 'no arbitrage'}; the numbers above are recomputed from live prices after fees.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Order Book Depth */}
+            {result.depth && (
+              <div className="bg-card rounded-xl terminal-border p-6">
+                <h3 className="text-sm font-mono text-primary uppercase tracking-wider mb-4 flex items-center gap-2">
+                  <Layers className="w-4 h-4" />
+                  Order Book Depth
+                </h3>
+
+                <div className="bg-secondary/50 rounded-lg p-4 mb-4">
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Max Size</div>
+                      <div className="text-lg font-bold text-foreground">
+                        {result.depth.maxSize.toLocaleString()} contracts
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Profit at Max Size</div>
+                      <div className={`text-lg font-bold ${result.depth.maxNetProfit > 0 ? 'text-success' : 'text-muted-foreground'}`}>
+                        +${result.depth.maxNetProfit.toFixed(2)}
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-muted-foreground uppercase mb-1">Break-even Size</div>
+                      <div className="text-lg font-bold text-foreground">
+                        {result.depth.breakEvenSize !== undefined
+                          ? `${result.depth.breakEvenSize.toLocaleString()} contracts`
+                          : 'Beyond book'}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {result.depth.curve.length > 0 ? (
+                  <div className="max-h-[240px] overflow-y-auto">
+                    <table className="w-full text-xs font-mono">
+                      <thead>
+                        <tr className="text-muted-foreground uppercase">
+                          <th className="text-left py-1">Size</th>
+                          <th className="text-right py-1">Cost</th>
+                          <th className="text-right py-1">Fees</th>
+                          <th className="text-right py-1">Avg Pair</th>
+                          <th className="text-right py-1">Net Profit</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.depth.curve.map(point => (
+                          <tr key={point.size} className="border-t border-border/50">
+                            <td className="py-1">{point.size.toLocaleString()}</td>
+                            <td className="text-right py-1">${(point.yesCost + point.noCost).toFixed(2)}</td>
+                            <td className="text-right py-1">${point.fees.toFixed(2)}</td>
+                            <td className="text-right py-1">{point.averagePairCost.toFixed(2)}¢</td>
+                            <td className={`text-right py-1 ${point.netProfit > 0 ? 'text-success' : 'text-danger'}`}>
+                              ${point.netProfit.toFixed(2)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    No executable size: the best asks already cost $1 or more per pair after fees.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Execution */}
+            {result.arbitrage.hasArbitrage && result.depth && (
+              <ArbitrageExecutionPanel key={metadata?.requestId} analysis={result} />
+            )}
+
             {/* Market Comparison */}
             {result.isSameMarket && (
               <div className="bg-card rounded-xl terminal-border p-6">
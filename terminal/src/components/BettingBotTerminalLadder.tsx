@@ -1,9 +1,17 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { Play, Square, ChevronDown, Bot, DollarSign, AlertTriangle, Loader2, Layers, TrendingDown } from "lucide-react";
-import type { SupportedAsset, BotLogEntry, LimitOrderBotResponse, LadderConfig } from "@/types/betting-bot";
+import { Play, Pause, Square, ChevronDown, Bot, DollarSign, AlertTriangle, Loader2, Layers, TrendingDown } from "lucide-react";
+import type {
+  SupportedAsset,
+  BotLogEntry,
+  BotConfig,
+  BotRun,
+  BotManagerRequest,
+  BotManagerResponse,
+} from "@/types/betting-bot";
 import PositionDashboard from "./PositionDashboard";
+import OpenOrdersPanel from "./OpenOrdersPanel";
 
 const ASSETS: { value: SupportedAsset; label: string; icon: string }[] = [
   { value: "BTC", label: "Bitcoin (BTC)", icon: "₿" },
@@ -33,7 +41,7 @@ const TAPER_FACTOR_OPTIONS = [
   { value: 2.5, label: "2.5 (Very Heavy Top)" },
 ];
 
-const POLL_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const RUNS_POLL_INTERVAL_MS = 30 * 1000; // Refresh persisted runs every 30 seconds
 
 /**
  * Calculate ladder rungs preview (matches backend logic)
@@ -98,26 +106,22 @@ function calculateLadderRungs(
 }
 
 /**
- * Get the next 15-minute market timestamp (rounds up to the next 15-min block)
+ * Format a date to a human-readable string
  */
-function getNext15MinTimestamp(): Date {
-  const now = new Date();
-  const minutes = now.getMinutes();
-  const nextQuarter = Math.ceil(minutes / 15) * 15;
-  const next = new Date(now);
-  next.setMinutes(nextQuarter, 0, 0);
-  if (nextQuarter >= 60) {
-    next.setHours(next.getHours() + 1);
-    next.setMinutes(0);
-  }
-  return next;
+function formatNextMarketTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true });
 }
 
 /**
- * Format a date to a human-readable string
+ * Call the bot manager API (server-side bots)
  */
-function formatNextMarketTime(date: Date): string {
-  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true });
+async function callBotManager(request: BotManagerRequest): Promise<BotManagerResponse> {
+  const response = await fetch("/api/bot-manager", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
 }
 
 const BettingBotTerminalLadder = () => {
@@ -125,12 +129,17 @@ const BettingBotTerminalLadder = () => {
   const [orderSize, setOrderSize] = useState<number>(50);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isBotRunning, setIsBotRunning] = useState(false);
+  const [isBotPaused, setIsBotPaused] = useState(false);
+  const [botId, setBotId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [paperTrading, setPaperTrading] = useState(false);
   const [logs, setLogs] = useState<BotLogEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const seenRunIdsRef = useRef<Set<string>>(new Set());
+  const reportedCancellationsRef = useRef<Map<string, number>>(new Map());
 
   // Ladder mode state
   const [ladderMaxPrice, setLadderMaxPrice] = useState(49);
@@ -190,113 +199,209 @@ const BettingBotTerminalLadder = () => {
     }]);
   }, []);
 
-  // Submit a single order to the limit order bot
-  const submitOrder = useCallback(async () => {
-    setIsSubmitting(true);
-    setError(null);
+  // Log a persisted run with Polymarket URL and order status
+  const logRun = useCallback((run: BotRun, asset: SupportedAsset, sizeUsd: number) => {
+    const market = run.market;
+    const polymarketUrl = `https://polymarket.com/event/${market.marketSlug}`;
+
+    // Calculate market start and end times from the timestamp
+    const marketStartTime = new Date(market.targetTimestamp * 1000);
+    const marketEndTime = new Date(marketStartTime.getTime() + 15 * 60 * 1000);
+    const startTimeStr = formatNextMarketTime(marketStartTime);
+    const endTimeStr = formatNextMarketTime(marketEndTime);
+
+    if (market.error) {
+      addLog("ERROR", `${asset} Market ${startTimeStr} -- ${endTimeStr}: ${polymarketUrl} — Failed: ${market.error}`);
+    } else if (market.ladderOrdersPlaced) {
+      // Ladder mode logging
+      const successCount = market.ladderSuccessfulOrders || 0;
+      const totalCount = market.ladderTotalOrders || 0;
+      addLog("SUCCESS", `${asset} LADDER ${startTimeStr} -- ${endTimeStr}: ${polymarketUrl}`);
+      addLog("INFO", `Ladder: ${successCount}/${totalCount} orders placed across ${market.ladderOrdersPlaced.length} price levels ($${sizeUsd} total)`);
+      // Log individual rungs
+      for (const rung of market.ladderOrdersPlaced) {
+        const upStatus = rung.up?.success ? "✓" : "✗";
+        const downStatus = rung.down?.success ? "✓" : "✗";
+        addLog("INFO", `  ${rung.pricePercent}%: Up ${upStatus} Down ${downStatus} ($${rung.sizeUsd.toFixed(2)})`);
+      }
+    }
 
+    // Log the next market time (15 minutes after the one we just placed orders for)
+    const nextMarketStart = new Date(marketStartTime.getTime() + 15 * 60 * 1000);
+    const nextMarketEnd = new Date(nextMarketStart.getTime() + 15 * 60 * 1000);
+    addLog("INFO", `Next Market Up: ${asset} Market ${formatNextMarketTime(nextMarketStart)} -- ${formatNextMarketTime(nextMarketEnd)}`);
+  }, [addLog]);
+
+  // Fetch the bot's persisted runs and log the ones we haven't shown yet
+  const refreshRuns = useCallback(async (bot: BotConfig) => {
     try {
-      const requestBody: {
-        asset: SupportedAsset;
-        sizeUsd: number;
-        ladder: LadderConfig;
-      } = {
-        asset: selectedAsset,
-        sizeUsd: orderSize,
-        ladder: {
-          enabled: true,
-          maxPrice: ladderMaxPrice,
-          minPrice: ladderMinPrice,
-          taperFactor: taperFactor,
-        },
-      };
-
-      const response = await fetch("/api/limit-order-bot", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
-
-      const data: LimitOrderBotResponse = await response.json();
+      const data = await callBotManager({ action: "runs", botId: bot.id, limit: 20 });
 
       if (!data.success) {
-        setError(data.error || "Order submission failed");
-        addLog("ERROR", data.error || "Order submission failed");
-        // Still show next market time after error (15 minutes after current)
-        const nextMarketStart = new Date(getNext15MinTimestamp().getTime() + 15 * 60 * 1000);
-        const nextMarketEnd = new Date(nextMarketStart.getTime() + 15 * 60 * 1000);
-        addLog("INFO", `Next Market Up: ${selectedAsset} Market ${formatNextMarketTime(nextMarketStart)} -- ${formatNextMarketTime(nextMarketEnd)}`);
+        setError(data.error || "Failed to fetch bot runs");
         return;
       }
 
-      // Log market result with Polymarket URL and order status
-      if (data.data?.market) {
-        const market = data.data.market;
-        const asset = data.data.asset;
-        const sizeUsd = data.data.sizeUsd;
-        const polymarketUrl = `https://polymarket.com/event/${market.marketSlug}`;
-        
-        // Calculate market start and end times from the timestamp
-        const marketStartTime = new Date(market.targetTimestamp * 1000);
-        const marketEndTime = new Date(marketStartTime.getTime() + 15 * 60 * 1000);
-        const startTimeStr = formatNextMarketTime(marketStartTime);
-        const endTimeStr = formatNextMarketTime(marketEndTime);
-        
-        if (market.error) {
-          addLog("ERROR", `${asset} Market ${startTimeStr} -- ${endTimeStr}: ${polymarketUrl} — Failed: ${market.error}`);
-        } else if (market.ladderOrdersPlaced) {
-          // Ladder mode logging
-          const successCount = market.ladderSuccessfulOrders || 0;
-          const totalCount = market.ladderTotalOrders || 0;
-          addLog("SUCCESS", `${asset} LADDER ${startTimeStr} -- ${endTimeStr}: ${polymarketUrl}`);
-          addLog("INFO", `Ladder: ${successCount}/${totalCount} orders placed across ${market.ladderOrdersPlaced.length} price levels ($${sizeUsd} total)`);
-          // Log individual rungs
-          for (const rung of market.ladderOrdersPlaced) {
-            const upStatus = rung.up?.success ? "✓" : "✗";
-            const downStatus = rung.down?.success ? "✓" : "✗";
-            addLog("INFO", `  ${rung.pricePercent}%: Up ${upStatus} Down ${downStatus} ($${rung.sizeUsd.toFixed(2)})`);
-          }
+      const newRuns = (data.runs || [])
+        .filter(run => !seenRunIdsRef.current.has(run.id))
+        .sort((a, b) => a.targetTimestamp - b.targetTimestamp);
+
+      for (const run of newRuns) {
+        seenRunIdsRef.current.add(run.id);
+        logRun(run, bot.asset, bot.sizeUsd);
+      }
+
+      // Report orders the server cancelled since the last poll
+      for (const run of data.runs || []) {
+        const reported = reportedCancellationsRef.current.get(run.id) || 0;
+        const cancelled = (run.cancelledOrders || []).slice(reported);
+        if (cancelled.length === 0) continue;
+
+        reportedCancellationsRef.current.set(run.id, reported + cancelled.length);
+        const summary = cancelled
+          .map(o => `${o.side === "up" ? "Up" : "Down"} ${o.pricePercent}% (${o.sizeMatched}/${o.originalSize} filled)`)
+          .join(", ");
+        const reason = cancelled.some(o => o.reason === "STOPPED")
+          ? "bot stopped"
+          : cancelled.some(o => o.reason === "CUTOFF") ? "cutoff before market start" : "side filled beyond threshold";
+        addLog("WARN", `${run.marketSlug}: cancelled ${cancelled.length} unfilled order(s) — ${reason}: ${summary}`);
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Network error";
+      setError(errorMsg);
+    }
+  }, [logRun, addLog]);
+
+  // Attach the terminal to a server-side bot and follow its runs
+  const attachToBot = useCallback((bot: BotConfig) => {
+    setBotId(bot.id);
+    setSelectedAsset(bot.asset);
+    setOrderSize(bot.sizeUsd);
+    if (bot.ladder?.maxPrice) setLadderMaxPrice(bot.ladder.maxPrice);
+    if (bot.ladder?.minPrice) setLadderMinPrice(bot.ladder.minPrice);
+    if (bot.ladder?.taperFactor) setTaperFactor(bot.ladder.taperFactor);
+    setPaperTrading(bot.paperTrading ?? false);
+    setIsBotRunning(bot.status !== "stopped");
+    setIsBotPaused(bot.status === "paused");
+
+    refreshRuns(bot);
+
+    if (pollIntervalRef.current) {
+      clearInterval(pollIntervalRef.current);
+    }
+    pollIntervalRef.current = setInterval(() => {
+      refreshRuns(bot);
+    }, RUNS_POLL_INTERVAL_MS);
+  }, [refreshRuns]);
+
+  // Attach to an existing ladder bot running on the server
+  useEffect(() => {
+    const attachExistingBot = async () => {
+      try {
+        const data = await callBotManager({ action: "list" });
+        const bot = data.bots?.find(b => b.status !== "stopped" && b.ladder?.enabled);
+        if (bot) {
+          addLog("INFO", `Attached to server-side bot "${bot.name}" (${bot.status})`);
+          attachToBot(bot);
         }
-        
-        // Log the next market time (15 minutes after the one we just placed orders for)
-        const nextMarketStart = new Date(marketStartTime.getTime() + 15 * 60 * 1000);
-        const nextMarketEnd = new Date(nextMarketStart.getTime() + 15 * 60 * 1000);
-        addLog("INFO", `Next Market Up: ${asset} Market ${formatNextMarketTime(nextMarketStart)} -- ${formatNextMarketTime(nextMarketEnd)}`);
+      } catch {
+        // Bot manager unavailable - terminal starts detached
+      }
+    };
+    attachExistingBot();
+  }, [addLog, attachToBot]);
+
+  // Start (or resume) the bot on the server
+  const startBot = useCallback(async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const data = botId && isBotPaused
+        ? await callBotManager({ action: "start", botId })
+        : await callBotManager({
+            action: "create",
+            name: `${selectedAsset} Ladder ${ladderMaxPrice}%-${ladderMinPrice}%`,
+            asset: selectedAsset,
+            sizeUsd: orderSize,
+            ladder: {
+              enabled: true,
+              maxPrice: ladderMaxPrice,
+              minPrice: ladderMinPrice,
+              taperFactor: taperFactor,
+            },
+            paperTrading,
+            start: true,
+          });
+
+      if (!data.success || !data.bot) {
+        setError(data.error || "Failed to start bot");
+        addLog("ERROR", data.error || "Failed to start bot");
+        return;
       }
 
+      addLog("INFO", isBotPaused
+        ? "Bot resumed"
+        : `Bot started — ${selectedAsset} LADDER MODE (${ladderMaxPrice}% → ${ladderMinPrice}%) with $${orderSize} total bankroll (runs server-side every 15 minutes)`);
+      for (const log of data.logs.filter(l => l.level === "ERROR")) {
+        addLog(log.level, log.message);
+      }
+
+      attachToBot(data.bot);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Network error";
       setError(errorMsg);
-      addLog("ERROR", `Submission failed: ${errorMsg}`);
+      addLog("ERROR", `Failed to start bot: ${errorMsg}`);
     } finally {
       setIsSubmitting(false);
     }
-  }, [selectedAsset, orderSize, ladderMaxPrice, ladderMinPrice, taperFactor, addLog]);
+  }, [botId, isBotPaused, selectedAsset, orderSize, ladderMaxPrice, ladderMinPrice, taperFactor, paperTrading, addLog, attachToBot]);
 
-  // Start the bot with polling
-  const startBot = useCallback(() => {
-    setIsBotRunning(true);
-    setError(null);
-    addLog("INFO", `Bot started — ${selectedAsset} LADDER MODE (${ladderMaxPrice}% → ${ladderMinPrice}%) with $${orderSize} total bankroll`);
-    
-    // Submit immediately
-    submitOrder();
-    
-    // Set up 15-minute polling
-    pollIntervalRef.current = setInterval(() => {
-      submitOrder();
-    }, POLL_INTERVAL_MS);
-  }, [selectedAsset, orderSize, ladderMaxPrice, ladderMinPrice, addLog, submitOrder]);
+  // Pause the bot - the server skips upcoming markets until resumed
+  const pauseBot = useCallback(async () => {
+    if (!botId) return;
+    setIsSubmitting(true);
 
-  // Stop the bot
-  const stopBot = useCallback(() => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current);
-      pollIntervalRef.current = null;
+    try {
+      const data = await callBotManager({ action: "pause", botId });
+      if (!data.success) {
+        setError(data.error || "Failed to pause bot");
+        return;
+      }
+      setIsBotPaused(true);
+      addLog("INFO", "Bot paused");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
     }
-    setIsBotRunning(false);
-    addLog("INFO", "Bot stopped");
-  }, [addLog]);
+  }, [botId, addLog]);
+
+  // Stop the bot and detach
+  const stopBot = useCallback(async () => {
+    if (!botId) return;
+    setIsSubmitting(true);
+
+    try {
+      const data = await callBotManager({ action: "stop", botId });
+      if (!data.success) {
+        setError(data.error || "Failed to stop bot");
+        return;
+      }
+      if (pollIntervalRef.current) {
+        clearInterval(pollIntervalRef.current);
+        pollIntervalRef.current = null;
+      }
+      setBotId(null);
+      setIsBotRunning(false);
+      setIsBotPaused(false);
+      addLog("INFO", `Bot stopped, ${data.cancelledOrders?.length ?? 0} resting order(s) cancelled`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [botId, addLog]);
 
   // Get log level styling
   const getLogLevelStyle = (level: BotLogEntry["level"]) => {
@@ -368,7 +473,7 @@ const BettingBotTerminalLadder = () => {
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-primary">5.</span>
-                <span>The bot automatically runs every 15 minutes to place orders on each new market</span>
+                <span>The bot runs server-side every 15 minutes to place orders on each new market — you can close this tab and it keeps running. Unfilled orders are cancelled 1 minute before each market opens, or once one side is 80% filled, to avoid one-sided exposure</span>
               </li>
             </ul>
           </div>
@@ -462,12 +567,20 @@ const BettingBotTerminalLadder = () => {
                 <span className="text-xs text-muted-foreground font-display">
                   BOT CONFIGURATION
                 </span>
+                {paperTrading && <span className="text-xs text-warning font-mono">PAPER</span>}
               </div>
               {isBotRunning && (
-                <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
-                  <span className="text-xs text-green-500 font-mono">RUNNING</span>
-                </div>
+                isBotPaused ? (
+                  <div className="flex items-center gap-2">
+                    <div className="w-2 h-2 rounded-full bg-warning" />
+                    <span className="text-xs text-warning font-mono">PAUSED</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                    <span className="text-xs text-green-500 font-mono">RUNNING</span>
+                  </div>
+                )
               )}
             </div>
 
@@ -703,23 +816,56 @@ const BettingBotTerminalLadder = () => {
                 </div>
               )}
 
+              {/* Paper Trading Row */}
+              <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+                <label className="text-sm font-medium text-muted-foreground min-w-[120px]">
+                  Paper Trading:
+                </label>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={paperTrading}
+                    onChange={(e) => setPaperTrading(e.target.checked)}
+                    disabled={isBotRunning}
+                    className="accent-primary disabled:cursor-not-allowed"
+                  />
+                  Simulate orders on a virtual balance (no real funds)
+                </label>
+              </div>
+
               {/* Start/Stop Bot Button Row */}
               <div className="flex flex-wrap items-center gap-4 pt-2">
-                {!isBotRunning ? (
+                {!isBotRunning || isBotPaused ? (
                   <button
                     type="button"
                     onClick={startBot}
                     disabled={isSubmitting}
                     className="flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all bg-primary/20 border border-primary/50 text-primary hover:bg-primary/30 glow-box-hover disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    <Play className="w-4 h-4" />
-                    <span>Start Bot</span>
+                    {isSubmitting && !isBotRunning ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4" />
+                    )}
+                    <span>{isBotPaused ? "Resume Bot" : "Start Bot"}</span>
                   </button>
                 ) : (
+                  <button
+                    type="button"
+                    onClick={pauseBot}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all bg-warning/20 border border-warning/50 text-warning hover:bg-warning/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Pause className="w-4 h-4" />
+                    <span>Pause Bot</span>
+                  </button>
+                )}
+                {isBotRunning && (
                   <button
                     type="button"
                     onClick={stopBot}
-                    className="flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all bg-destructive/20 border border-destructive/50 text-destructive hover:bg-destructive/30"
+                    disabled={isSubmitting}
+                    className="flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all bg-destructive/20 border border-destructive/50 text-destructive hover:bg-destructive/30 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {isSubmitting ? (
                       <Loader2 className="w-4 h-4 animate-spin" />
@@ -747,8 +893,12 @@ const BettingBotTerminalLadder = () => {
           <PositionDashboard
             asset={selectedAsset}
             isActive={isBotRunning}
+            paperTrading={paperTrading}
           />
 
+          {/* Open Orders - cancel resting ladder rungs without leaving the terminal */}
+          <OpenOrdersPanel isActive={isBotRunning} paperTrading={paperTrading} />
+
           {/* Logs Output */}
           <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
             <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
@@ -0,0 +1,367 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Target, RefreshCw, AlertTriangle, Loader2 } from "lucide-react";
+import type {
+  AgentCalibrationRequest,
+  AgentCalibrationResponse,
+  CalibrationGroup,
+  CalibrationReport,
+  CalibrationSummary,
+  Prediction,
+  PredictionFilter,
+  PredictionSource,
+} from "@/types/calibration";
+
+type GroupBy = "model" | "preset" | "tools";
+
+const GROUP_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: "model", label: "Model" },
+  { value: "preset", label: "Preset" },
+  { value: "tools", label: "Tools" },
+];
+
+const SOURCE_OPTIONS: { value: PredictionSource | ""; label: string }[] = [
+  { value: "", label: "Agents & bookmaker" },
+  { value: "agent", label: "Agents" },
+  { value: "bookmaker", label: "Bookmaker" },
+];
+
+/**
+ * Call the agent-calibration API
+ */
+async function callCalibration(request: AgentCalibrationRequest): Promise<AgentCalibrationResponse> {
+  const response = await fetch("/api/agent-calibration", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const formatScore = (value?: number) => value !== undefined ? value.toFixed(3) : "—";
+
+const formatPercent = (value?: number) => value !== undefined ? `${(value * 100).toFixed(1)}%` : "—";
+
+// Skill relative to the market price: positive when the agents beat it
+const skillClass = (summary: CalibrationSummary) => {
+  if (summary.brierScore === undefined || summary.marketBrierScore === undefined) return "text-muted-foreground";
+  return summary.brierScore < summary.marketBrierScore ? "text-success" : summary.brierScore > summary.marketBrierScore ? "text-destructive" : "text-muted-foreground";
+};
+
+const CalibrationLeaderboard = () => {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>("model");
+  const [source, setSource] = useState<PredictionSource | "">("");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const filter: PredictionFilter = source ? { source } : {};
+  const filterKey = JSON.stringify(filter);
+
+  // State is only set once both responses arrive, so the filter effect can call this
+  const fetchCalibration = useCallback(() => {
+    const currentFilter: PredictionFilter = JSON.parse(filterKey);
+    return Promise.all([
+      callCalibration({ action: "leaderboard", filter: currentFilter }),
+      callCalibration({ action: "list", filter: currentFilter, limit: 200 }),
+    ])
+      .then(([leaderboardData, listData]) => {
+        setError(null);
+
+        if (leaderboardData.success && leaderboardData.report) {
+          setReport(leaderboardData.report);
+        } else {
+          setError(leaderboardData.error || "Failed to load leaderboard");
+        }
+
+        if (listData.success) {
+          setPredictions(listData.predictions || []);
+        } else {
+          setError(listData.error || "Failed to load predictions");
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+      .finally(() => setIsLoading(false));
+  }, [filterKey]);
+
+  const refreshCalibration = useCallback(() => {
+    setIsLoading(true);
+    fetchCalibration();
+  }, [fetchCalibration]);
+
+  useEffect(() => {
+    fetchCalibration();
+  }, [fetchCalibration]);
+
+  // Check unresolved markets, then reload
+  const syncResolutions = useCallback(async () => {
+    setIsSyncing(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await callCalibration({ action: "sync" });
+      if (data.success && data.sync) {
+        const failed = data.sync.errors.length;
+        setMessage(`Checked ${data.sync.checked} prediction(s), ${data.sync.resolved} resolved${failed > 0 ? `, ${failed} failed` : ""}`);
+      } else {
+        setError(data.error || "Sync failed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSyncing(false);
+      refreshCalibration();
+    }
+  }, [refreshCalibration]);
+
+  const groups: CalibrationGroup[] = report
+    ? groupBy === "model" ? report.byModel : groupBy === "preset" ? report.byPreset : report.byTools
+    : [];
+
+  // Curve of the selected row, or of every prediction
+  const selectedGroup = groups.find(g => g.key === selectedKey);
+  const curve = selectedGroup || report?.total;
+
+  const summaryCards = report ? [
+    { label: "Resolved", value: `${report.total.resolved}/${report.total.predictions}`, className: "text-foreground" },
+    { label: "Brier Score", value: formatScore(report.total.brierScore), className: skillClass(report.total) },
+    { label: "Market Brier", value: formatScore(report.total.marketBrierScore), className: "text-foreground" },
+    { label: "Log Loss", value: formatScore(report.total.logLoss), className: "text-foreground" },
+    { label: "Hit Rate", value: formatPercent(report.total.hitRate), className: "text-foreground" },
+  ] : [];
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center py-8 fade-in">
+            <div className="relative mb-8">
+              <h2 className="font-display text-xl md:text-2xl font-bold text-primary text-glow mb-1">
+                Agent Calibration
+              </h2>
+              <p className="text-muted-foreground max-w-lg mx-auto">
+                How well each model, preset and tool set predicts resolved markets. Lower Brier score and log loss are better.
+              </p>
+            </div>
+          </div>
+
+          {/* Controls Card */}
+          <div className="relative z-20 border border-border rounded-lg bg-card/80 backdrop-blur-sm border-glow">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <div className="flex items-center gap-2">
+                <Target className="w-4 h-4 text-primary" />
+                <span className="text-xs text-muted-foreground font-display">
+                  CALIBRATION
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={syncResolutions}
+                  disabled={isSyncing}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  {isSyncing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                  Sync Resolutions
+                </button>
+                <button
+                  type="button"
+                  onClick={refreshCalibration}
+                  disabled={isLoading}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+                  Refresh
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-4">
+                <select
+                  value={source}
+                  onChange={(e) => { setIsLoading(true); setSource(e.target.value as PredictionSource | ""); }}
+                  className="px-3 py-2 rounded-lg bg-secondary/50 border border-border text-sm hover:border-primary/50 transition-all focus:outline-none focus:border-primary"
+                >
+                  {SOURCE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Summary */}
+              {report && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {summaryCards.map(card => (
+                    <div key={card.label} className="rounded-lg bg-secondary/30 border border-border/50 px-3 py-2">
+                      <div className="text-xs text-muted-foreground">{card.label}</div>
+                      <div className={`font-mono text-sm ${card.className}`}>{card.value}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {message && <p className="text-xs text-muted-foreground">{message}</p>}
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {error && (
+            <div className="border border-destructive/50 rounded-lg bg-destructive/10 p-4 fade-in">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <p className="text-destructive text-sm font-mono">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Leaderboard */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">LEADERBOARD BY {groupBy.toUpperCase()}</span>
+              <div className="flex items-center gap-1">
+                {GROUP_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => {
+                      setGroupBy(option.value);
+                      setSelectedKey(null);
+                    }}
+                    className={`px-2 py-1 rounded text-xs transition-colors ${
+                      groupBy === option.value ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm font-mono">
+                <thead>
+                  <tr className="text-xs text-muted-foreground border-b border-border/50">
+                    <th className="text-left px-4 py-2 font-normal">{GROUP_OPTIONS.find(o => o.value === groupBy)?.label}</th>
+                    <th className="text-right px-4 py-2 font-normal">Resolved</th>
+                    <th className="text-right px-4 py-2 font-normal">Brier</th>
+                    <th className="text-right px-4 py-2 font-normal">Market</th>
+                    <th className="text-right px-4 py-2 font-normal">Log Loss</th>
+                    <th className="text-right px-4 py-2 font-normal">Hit Rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {groups.map(group => (
+                    <tr
+                      key={group.key}
+                      onClick={() => setSelectedKey(selectedKey === group.key ? null : group.key)}
+                      className={`cursor-pointer transition-colors ${selectedKey === group.key ? "bg-primary/10" : "hover:bg-secondary/30"}`}
+                    >
+                      <td className="px-4 py-2 text-foreground">{group.label || group.key}</td>
+                      <td className="px-4 py-2 text-right text-muted-foreground">{group.resolved}/{group.predictions}</td>
+                      <td className={`px-4 py-2 text-right ${skillClass(group)}`}>{formatScore(group.brierScore)}</td>
+                      <td className="px-4 py-2 text-right text-muted-foreground">{formatScore(group.marketBrierScore)}</td>
+                      <td className="px-4 py-2 text-right">{formatScore(group.logLoss)}</td>
+                      <td className="px-4 py-2 text-right">{formatPercent(group.hitRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {groups.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No predictions recorded yet</p>
+              )}
+            </div>
+          </div>
+
+          {/* Calibration Curve */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">
+                CALIBRATION CURVE{selectedGroup ? ` · ${(selectedGroup.label || selectedGroup.key).toUpperCase()}` : ""}
+              </span>
+              <span className="text-xs text-muted-foreground">estimated vs observed YES rate</span>
+            </div>
+
+            <div className="p-4 space-y-2">
+              {curve?.calibration.map(bin => (
+                <div key={bin.lower} className="grid grid-cols-[80px_1fr_60px] items-center gap-3 text-xs font-mono">
+                  <span className="text-muted-foreground">
+                    {(bin.lower * 100).toFixed(0)}–{(bin.upper * 100).toFixed(0)}%
+                  </span>
+                  <div className="space-y-1">
+                    <div className="h-1.5 rounded bg-secondary/50 overflow-hidden">
+                      <div className="h-full bg-primary/60" style={{ width: `${bin.meanEstimate * 100}%` }} />
+                    </div>
+                    <div className="h-1.5 rounded bg-secondary/50 overflow-hidden">
+                      <div className="h-full bg-success/70" style={{ width: `${bin.observedRate * 100}%` }} />
+                    </div>
+                  </div>
+                  <span className="text-right text-muted-foreground">n={bin.count}</span>
+                </div>
+              ))}
+              {(!curve || curve.calibration.length === 0) && !isLoading && (
+                <p className="text-center text-sm text-muted-foreground">No resolved predictions yet</p>
+              )}
+              {curve && curve.calibration.length > 0 && (
+                <div className="flex items-center gap-4 pt-2 text-[10px] text-muted-foreground">
+                  <span className="flex items-center gap-1"><span className="w-3 h-1.5 rounded bg-primary/60" /> Mean estimate</span>
+                  <span className="flex items-center gap-1"><span className="w-3 h-1.5 rounded bg-success/70" /> Resolved YES</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Predictions */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">PREDICTIONS</span>
+              <span className="text-xs text-muted-foreground">({predictions.length})</span>
+            </div>
+
+            <div className="max-h-[500px] overflow-y-auto divide-y divide-border/30">
+              {predictions.map(prediction => (
+                <div key={prediction.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="truncate text-foreground" title={prediction.title || prediction.ticker}>
+                      {prediction.title || prediction.ticker}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(prediction.createdAt).toLocaleString()} · {prediction.platform} · {prediction.source} · {prediction.model}
+                      {prediction.tools.length > 0 ? ` · ${prediction.tools.join(", ")}` : ""}
+                      {!prediction.market ? " · UNMATCHED" : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 font-mono text-xs shrink-0">
+                    <span className="text-muted-foreground" title="Market probability">{formatPercent(prediction.marketProbability)}</span>
+                    <span className="text-primary" title="Estimated probability">{formatPercent(prediction.estimatedProbability)}</span>
+                    <span className="text-foreground">{prediction.predictedWinner}</span>
+                    <span className={
+                      !prediction.outcome
+                        ? "text-warning"
+                        : prediction.outcome === prediction.predictedWinner.toLowerCase() ? "text-success" : "text-destructive"
+                    }>
+                      {prediction.outcome ? `RESOLVED ${prediction.outcome.toUpperCase()}` : "OPEN"}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {predictions.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No predictions recorded yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationLeaderboard;
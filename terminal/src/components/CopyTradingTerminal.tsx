@@ -0,0 +1,485 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Copy, Play, Pause, Square, Trash2, RefreshCw, AlertTriangle, Loader2 } from "lucide-react";
+import type {
+  CopySizingMode,
+  CopyStreamStatus,
+  CopyTrade,
+  CopyTradeStatus,
+  CopyTrader,
+  CopyTraderRequest,
+  CopyTraderResponse,
+} from "@/types/copytrading";
+
+const POLL_INTERVAL_MS = 10000;
+const WALLET_ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const STATUS_CLASSES: Record<CopyTradeStatus, string> = {
+  pending: "text-muted-foreground",
+  copied: "text-success",
+  skipped: "text-warning",
+  failed: "text-destructive",
+};
+
+/**
+ * Call the copytrading API
+ */
+async function callCopytrading(request: CopyTraderRequest): Promise<CopyTraderResponse> {
+  const response = await fetch("/api/copytrading", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const parseList = (value: string) => value.split(/[\s,]+/).map(v => v.trim()).filter(Boolean);
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatSizing = (trader: CopyTrader) => {
+  const base = trader.sizing.mode === "fixed"
+    ? `$${trader.sizing.fixedUsd} per order`
+    : `${((trader.sizing.ratio ?? 0) * 100).toFixed(0)}% of leader`;
+  return trader.sizing.maxPerMarketUsd ? `${base}, max $${trader.sizing.maxPerMarketUsd}/market` : base;
+};
+
+const CopyTradingTerminal = () => {
+  // New copy trader
+  const [name, setName] = useState("");
+  const [leadersInput, setLeadersInput] = useState("");
+  const [sizingMode, setSizingMode] = useState<CopySizingMode>("fixed");
+  const [fixedUsd, setFixedUsd] = useState<number>(10);
+  const [ratioPercent, setRatioPercent] = useState<number>(10);
+  const [maxPerMarketUsd, setMaxPerMarketUsd] = useState<string>("");
+  const [slippageCents, setSlippageCents] = useState<number>(2);
+  const [dailyLossCapUsd, setDailyLossCapUsd] = useState<string>("");
+  const [allowInput, setAllowInput] = useState("");
+  const [denyInput, setDenyInput] = useState("");
+  const [copySells, setCopySells] = useState(true);
+  const [paperTrading, setPaperTrading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Copy traders and their log
+  const [copyTraders, setCopyTraders] = useState<CopyTrader[]>([]);
+  const [streams, setStreams] = useState<CopyStreamStatus[]>([]);
+  const [trades, setTrades] = useState<CopyTrade[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // State is only set once both responses arrive, so the polling effect can call this
+  const fetchData = useCallback(() => Promise.all([
+    callCopytrading({ action: "list" }),
+    callCopytrading({ action: "trades", copyTraderId: selectedId ?? undefined, limit: 200 }),
+  ])
+    .then(([listData, tradesData]) => {
+      if (listData.success) {
+        setCopyTraders(listData.copyTraders || []);
+        setStreams(listData.streams || []);
+      } else {
+        setError(listData.error || "Failed to load copy traders");
+      }
+
+      if (tradesData.success) {
+        setTrades(tradesData.trades || []);
+      } else {
+        setError(tradesData.error || "Failed to load copy trades");
+      }
+    })
+    .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+    .finally(() => setIsLoading(false)), [selectedId]);
+
+  const refreshData = () => {
+    setIsLoading(true);
+    fetchData();
+  };
+
+  // Fetch on mount (which also resumes the order streams) and keep the log fresh
+  useEffect(() => {
+    fetchData();
+    const interval = setInterval(fetchData, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchData]);
+
+  const createCopyTrader = async () => {
+    const leaders = parseList(leadersInput);
+    if (leaders.length === 0) {
+      setError("Enter at least one leader wallet address");
+      return;
+    }
+    const invalid = leaders.find(l => !WALLET_ADDRESS_PATTERN.test(l));
+    if (invalid) {
+      setError(`Invalid wallet address: ${invalid}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const data = await callCopytrading({
+        action: "create",
+        start: true,
+        settings: {
+          name: name.trim() || undefined,
+          leaders,
+          sizing: {
+            mode: sizingMode,
+            fixedUsd: sizingMode === "fixed" ? fixedUsd : undefined,
+            ratio: sizingMode === "proportional" ? ratioPercent / 100 : undefined,
+            maxPerMarketUsd: parseFloat(maxPerMarketUsd) || undefined,
+          },
+          maxSlippage: slippageCents / 100,
+          allowMarkets: parseList(allowInput),
+          denyMarkets: parseList(denyInput),
+          dailyLossCapUsd: parseFloat(dailyLossCapUsd) || undefined,
+          copySells,
+          paperTrading,
+        },
+      });
+
+      if (!data.success) {
+        setError(data.error || "Failed to create copy trader");
+      } else {
+        setName("");
+        setLeadersInput("");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
+      refreshData();
+    }
+  };
+
+  const runAction = async (action: "start" | "pause" | "stop" | "delete", trader: CopyTrader) => {
+    if (action === "delete" && !window.confirm(`Delete "${trader.name}" and its trade log?`)) return;
+
+    const data = await callCopytrading({ action, copyTraderId: trader.id });
+    if (!data.success) {
+      setError(data.error || `Failed to ${action} copy trader`);
+    }
+    if (action === "delete" && selectedId === trader.id) {
+      setSelectedId(null);
+    }
+    refreshData();
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg bg-secondary/50 border border-border text-sm hover:border-primary/50 transition-all focus:outline-none focus:border-primary disabled:opacity-50";
+  const labelClass = "flex flex-col gap-1 text-xs text-muted-foreground";
+  const traderName = (id: string) => copyTraders.find(t => t.id === id)?.name || id.slice(0, 8);
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center py-8 fade-in">
+            <div className="relative mb-8">
+              <h2 className="font-display text-xl md:text-2xl font-bold text-primary text-glow mb-1">
+                Copytrading
+              </h2>
+              <p className="text-muted-foreground max-w-lg mx-auto">
+                Mirror the Polymarket orders of leader wallets with your own sizing and risk limits. Every copied or skipped order is logged with its reason.
+              </p>
+            </div>
+          </div>
+
+          {/* Setup Card */}
+          <div className="relative z-20 border border-border rounded-lg bg-card/80 backdrop-blur-sm border-glow">
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-border/50">
+              <Copy className="w-4 h-4 text-primary" />
+              <span className="text-xs text-muted-foreground font-display">NEW COPY TRADER</span>
+            </div>
+
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name (optional)"
+                  disabled={isSubmitting}
+                  className={inputClass}
+                />
+                <textarea
+                  value={leadersInput}
+                  onChange={(e) => setLeadersInput(e.target.value)}
+                  placeholder="Leader wallet addresses (0x..., one per line)"
+                  rows={1}
+                  disabled={isSubmitting}
+                  className={`${inputClass} font-mono resize-y`}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <label className={labelClass}>
+                  SIZING
+                  <select
+                    value={sizingMode}
+                    onChange={(e) => setSizingMode(e.target.value as CopySizingMode)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  >
+                    <option value="fixed">Fixed USD</option>
+                    <option value="proportional">Proportional</option>
+                  </select>
+                </label>
+                {sizingMode === "fixed" ? (
+                  <label className={labelClass}>
+                    USD PER ORDER
+                    <input
+                      type="number"
+                      min={1}
+                      value={fixedUsd}
+                      onChange={(e) => setFixedUsd(Math.max(parseFloat(e.target.value) || 1, 1))}
+                      disabled={isSubmitting}
+                      className={inputClass}
+                    />
+                  </label>
+                ) : (
+                  <label className={labelClass}>
+                    % OF LEADER
+                    <input
+                      type="number"
+                      min={1}
+                      value={ratioPercent}
+                      onChange={(e) => setRatioPercent(Math.max(parseFloat(e.target.value) || 1, 1))}
+                      disabled={isSubmitting}
+                      className={inputClass}
+                    />
+                  </label>
+                )}
+                <label className={labelClass}>
+                  MAX $ / MARKET
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxPerMarketUsd}
+                    onChange={(e) => setMaxPerMarketUsd(e.target.value)}
+                    placeholder="No limit"
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  MAX SLIPPAGE (¢)
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={slippageCents}
+                    onChange={(e) => setSlippageCents(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 20))}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  DAILY LOSS CAP $
+                  <input
+                    type="number"
+                    min={1}
+                    value={dailyLossCapUsd}
+                    onChange={(e) => setDailyLossCapUsd(e.target.value)}
+                    placeholder="No cap"
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={allowInput}
+                  onChange={(e) => setAllowInput(e.target.value)}
+                  placeholder="Allow list: slugs or condition IDs (empty = all markets)"
+                  disabled={isSubmitting}
+                  className={`${inputClass} font-mono`}
+                />
+                <input
+                  type="text"
+                  value={denyInput}
+                  onChange={(e) => setDenyInput(e.target.value)}
+                  placeholder="Deny list: slugs or condition IDs"
+                  disabled={isSubmitting}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={copySells}
+                    onChange={(e) => setCopySells(e.target.checked)}
+                    disabled={isSubmitting}
+                    className="accent-primary"
+                  />
+                  Copy SELLs
+                </label>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={paperTrading}
+                    onChange={(e) => setPaperTrading(e.target.checked)}
+                    disabled={isSubmitting}
+                    className="accent-primary"
+                  />
+                  Paper trading (no real funds)
+                </label>
+                <button
+                  type="button"
+                  onClick={createCopyTrader}
+                  disabled={isSubmitting}
+                  className="ml-auto flex items-center gap-2 px-6 py-2 rounded-lg bg-primary/20 border border-primary/50 text-primary font-display text-sm hover:bg-primary/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                  START COPYING
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {error && (
+            <div className="border border-destructive/50 rounded-lg bg-destructive/10 p-4 fade-in">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <p className="text-destructive text-sm font-mono">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Copy Traders */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">COPY TRADERS</span>
+              <button
+                type="button"
+                onClick={refreshData}
+                disabled={isLoading}
+                className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+                Refresh
+              </button>
+            </div>
+
+            <div className="divide-y divide-border/30">
+              {copyTraders.map(trader => {
+                const stream = streams.find(s => s.copyTraderId === trader.id);
+                const isSelected = selectedId === trader.id;
+                return (
+                  <div
+                    key={trader.id}
+                    onClick={() => { setIsLoading(true); setSelectedId(isSelected ? null : trader.id); }}
+                    className={`flex flex-wrap items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer transition-colors ${isSelected ? "bg-primary/10" : "hover:bg-secondary/30"}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-foreground truncate">{trader.name}</span>
+                        <span className={`text-[10px] font-mono ${trader.status === "running" ? "text-success" : "text-muted-foreground"}`}>
+                          {trader.status.toUpperCase()}
+                        </span>
+                        {trader.paperTrading && <span className="text-[10px] text-warning font-mono">PAPER</span>}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">
+                        {trader.leaders.map(shortAddress).join(", ")} · {formatSizing(trader)} · slippage {Math.round(trader.maxSlippage * 100)}¢
+                        {trader.dailyLossCapUsd ? ` · loss cap $${trader.dailyLossCapUsd}` : ""}
+                      </div>
+                      {trader.status === "running" && (
+                        <div className={`text-[10px] font-mono ${stream?.connected ? "text-success" : "text-warning"}`} title={stream?.lastError}>
+                          {stream?.connected
+                            ? `● streaming · ${stream.ordersReceived} order(s) received`
+                            : `○ ${stream?.lastError || "connecting..."}`}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                      {trader.status !== "running" && (
+                        <button type="button" onClick={() => runAction("start", trader)} className="p-1.5 text-muted-foreground hover:text-success transition-colors" title="Start">
+                          <Play className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {trader.status === "running" && (
+                        <button type="button" onClick={() => runAction("pause", trader)} className="p-1.5 text-muted-foreground hover:text-warning transition-colors" title="Pause">
+                          <Pause className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      {trader.status !== "stopped" && (
+                        <button type="button" onClick={() => runAction("stop", trader)} className="p-1.5 text-muted-foreground hover:text-destructive transition-colors" title="Stop">
+                          <Square className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      <button type="button" onClick={() => runAction("delete", trader)} className="p-1.5 text-muted-foreground hover:text-destructive transition-colors" title="Delete">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+              {copyTraders.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No copy traders yet</p>
+              )}
+            </div>
+          </div>
+
+          {/* Trade Log */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">
+                TRADE LOG{selectedId ? ` · ${traderName(selectedId).toUpperCase()}` : ""}
+              </span>
+              <span className="text-xs text-muted-foreground">({trades.length})</span>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-muted-foreground border-b border-border/50">
+                    <th className="text-left px-4 py-2 font-normal">Time</th>
+                    {!selectedId && <th className="text-left px-4 py-2 font-normal">Copy Trader</th>}
+                    <th className="text-left px-4 py-2 font-normal">Market</th>
+                    <th className="text-right px-4 py-2 font-normal">Leader</th>
+                    <th className="text-right px-4 py-2 font-normal">Copy</th>
+                    <th className="text-left px-4 py-2 font-normal">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {trades.map(trade => (
+                    <tr key={trade.id}>
+                      <td className="px-4 py-2 text-muted-foreground whitespace-nowrap">{new Date(trade.createdAt).toLocaleTimeString()}</td>
+                      {!selectedId && <td className="px-4 py-2 text-muted-foreground">{traderName(trade.copyTraderId)}</td>}
+                      <td className="px-4 py-2 text-foreground max-w-[260px] truncate" title={trade.title || trade.marketSlug}>
+                        <span className={trade.side === "BUY" ? "text-success" : "text-destructive"}>{trade.side}</span>{" "}
+                        {trade.outcome ? `${trade.outcome} · ` : ""}{trade.title || trade.marketSlug}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap" title={trade.leader}>
+                        {trade.leaderShares.toFixed(1)} @ {trade.leaderPrice.toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {trade.size !== undefined && trade.price !== undefined ? `${trade.size} @ ${trade.price.toFixed(2)}` : "—"}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={STATUS_CLASSES[trade.status]}>{trade.status.toUpperCase()}</span>
+                        {trade.reason && <div className="text-[10px] text-muted-foreground max-w-[280px]">{trade.reason}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {trades.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No leader orders yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CopyTradingTerminal;
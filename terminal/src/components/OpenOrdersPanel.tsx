@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { RefreshCw, ListOrdered, X, Trash2, Loader2, AlertTriangle } from "lucide-react";
+import type { OpenOrder, OrdersRequest, OrdersResponse } from "@/types/betting-bot";
+
+interface OpenOrdersPanelProps {
+  /** Poll for open orders while true */
+  isActive: boolean;
+  /** List and cancel orders of the paper trading account */
+  paperTrading?: boolean;
+}
+
+const POLL_INTERVAL_MS = 30000; // 30 seconds
+
+/**
+ * Call the polymarket-orders API
+ */
+async function callOrders(request: OrdersRequest): Promise<OrdersResponse> {
+  const response = await fetch("/api/polymarket-orders", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+export const OpenOrdersPanel: React.FC<OpenOrdersPanelProps> = ({ isActive, paperTrading = false }) => {
+  const [orders, setOrders] = useState<OpenOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // State is only set once the response arrives, so the polling effect can call this
+  const fetchOrders = useCallback(() => callOrders({ action: "list", paperTrading })
+    .then(data => {
+      if (data.success && data.data) {
+        setOrders(data.data.orders || []);
+        setError(null);
+      } else {
+        setError(data.error || "Failed to fetch open orders");
+      }
+    })
+    .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+    .finally(() => setIsLoading(false)), [paperTrading]);
+
+  const refreshOrders = () => {
+    setIsLoading(true);
+    fetchOrders();
+  };
+
+  // Fetch on mount and poll while active
+  useEffect(() => {
+    fetchOrders();
+
+    if (isActive) {
+      const interval = setInterval(fetchOrders, POLL_INTERVAL_MS);
+      return () => clearInterval(interval);
+    }
+  }, [isActive, fetchOrders]);
+
+  // Run a cancel action, then refresh the list
+  const cancel = useCallback(async (key: string, request: OrdersRequest) => {
+    setPendingAction(key);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await callOrders({ ...request, paperTrading });
+
+      if (!data.success) {
+        setError(data.error || "Failed to cancel orders");
+      } else {
+        const canceled = data.data?.canceled?.length || 0;
+        const failed = Object.keys(data.data?.notCanceled || {}).length;
+        setMessage(`Cancelled ${canceled} order(s)${failed > 0 ? `, ${failed} could not be cancelled` : ""}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setPendingAction(null);
+      fetchOrders();
+    }
+  }, [paperTrading, fetchOrders]);
+
+  const cancelAll = useCallback(() => {
+    if (!window.confirm(`Cancel all ${orders.length} open order(s) on your ${paperTrading ? "paper trading" : "Polymarket"} account?`)) return;
+    cancel("all", { action: "cancel-all" });
+  }, [orders.length, paperTrading, cancel]);
+
+  // Group orders by market (condition ID)
+  const ordersByMarket = orders.reduce<Record<string, OpenOrder[]>>((groups, order) => {
+    (groups[order.market] ||= []).push(order);
+    return groups;
+  }, {});
+
+  return (
+    <div className="border border-border rounded-lg bg-card/50 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-secondary/30">
+        <div className="flex items-center gap-2">
+          <ListOrdered className="w-4 h-4 text-primary" />
+          <span className="text-sm font-medium">Open Orders</span>
+          <span className="text-xs text-muted-foreground">({orders.length})</span>
+          {paperTrading && <span className="text-xs text-warning font-mono">PAPER</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          {orders.length > 0 && (
+            <button
+              onClick={cancelAll}
+              disabled={pendingAction !== null}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+            >
+              {pendingAction === "all" ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              Cancel All
+            </button>
+          )}
+          <button
+            onClick={refreshOrders}
+            disabled={isLoading}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Orders grouped by market */}
+      {Object.entries(ordersByMarket).map(([market, marketOrders]) => (
+        <div key={market} className="border-b border-border last:border-b-0">
+          <div className="flex items-center justify-between px-4 py-2 bg-secondary/10">
+            <span className="text-xs font-mono text-muted-foreground" title={market}>
+              Market {market.slice(0, 10)}...{market.slice(-6)}
+            </span>
+            <button
+              onClick={() => cancel(`market:${market}`, { action: "cancel-market", market })}
+              disabled={pendingAction !== null}
+              className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+            >
+              {pendingAction === `market:${market}` ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+              Cancel Market
+            </button>
+          </div>
+          <div className="divide-y divide-border/50">
+            {marketOrders
+              .sort((a, b) => parseFloat(b.price) - parseFloat(a.price))
+              .map(order => (
+                <div key={order.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs font-medium ${order.side === "BUY" ? "text-green-400" : "text-red-400"}`}>
+                      {order.side}
+                    </span>
+                    <span className="text-foreground">{order.outcome || "—"}</span>
+                  </div>
+                  <div className="flex items-center gap-3 font-mono text-xs">
+                    <span className="text-primary">{(parseFloat(order.price) * 100).toFixed(0)}%</span>
+                    <span className="text-muted-foreground">
+                      {parseFloat(order.size_matched).toFixed(0)}/{parseFloat(order.original_size).toFixed(0)} filled
+                    </span>
+                    <button
+                      onClick={() => cancel(order.id, { action: "cancel", orderId: order.id })}
+                      disabled={pendingAction !== null}
+                      className="p-1 text-muted-foreground hover:text-red-400 transition-colors disabled:opacity-50"
+                      title="Cancel order"
+                    >
+                      {pendingAction === order.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+                    </button>
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+
+      {/* Empty State */}
+      {orders.length === 0 && !isLoading && !error && (
+        <div className="p-4 text-center">
+          <p className="text-sm text-muted-foreground">No open orders</p>
+        </div>
+      )}
+
+      {/* Status */}
+      {(error || message) && (
+        <div className="px-4 py-2 border-t border-border">
+          {error ? (
+            <div className="flex items-start gap-2 text-xs text-red-300">
+              <AlertTriangle className="w-3 h-3 mt-0.5 text-red-400" />
+              <span>{error}</span>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">{message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpenOrdersPanel;
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Briefcase, RefreshCw, AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+import type { PortfolioEvent, PortfolioResponse } from "@/types/portfolio";
+
+const POLL_INTERVAL_MS = 60000; // 1 minute
+
+const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+const pnlClass = (value: number) => value > 0 ? "text-success" : value < 0 ? "text-destructive" : "text-muted-foreground";
+
+/**
+ * Time until resolution, e.g. "3d 4h" or "ended"
+ */
+const formatTimeToResolution = (endDate?: string) => {
+  if (!endDate) return "—";
+  const ms = new Date(endDate).getTime() - Date.now();
+  if (ms <= 0) return "ended";
+  const hours = Math.floor(ms / 3600000);
+  if (hours < 1) return `${Math.max(1, Math.floor(ms / 60000))}m`;
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+const PortfolioTerminal = () => {
+  const [data, setData] = useState<PortfolioResponse["data"] | null>(null);
+  const [paperTrading, setPaperTrading] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  // State is only set once the response arrives, so the polling effect can call this
+  const fetchPortfolio = useCallback(() => fetch("/api/portfolio", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ paperTrading }),
+  })
+    .then(response => response.json() as Promise<PortfolioResponse>)
+    .then(result => {
+      if (result.success && result.data) {
+        setData(result.data);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load portfolio");
+      }
+    })
+    .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+    .finally(() => setIsLoading(false)), [paperTrading]);
+
+  const refreshPortfolio = () => {
+    setIsLoading(true);
+    fetchPortfolio();
+  };
+
+  // Fetch on mount and keep marks fresh
+  useEffect(() => {
+    fetchPortfolio();
+    const interval = setInterval(fetchPortfolio, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchPortfolio]);
+
+  const toggleEvent = (eventSlug: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(eventSlug)) {
+        next.delete(eventSlug);
+      } else {
+        next.add(eventSlug);
+      }
+      return next;
+    });
+  };
+
+  const totals = data?.totals;
+  const summaryCards = totals ? [
+    { label: "Positions", value: `${totals.positions} in ${totals.events} event(s)`, className: "text-foreground" },
+    { label: "Cost Basis", value: formatUsd(totals.costBasisUsd), className: "text-foreground" },
+    { label: "Current Value", value: formatUsd(totals.currentValueUsd), className: "text-foreground" },
+    {
+      label: "Unrealised PnL",
+      value: `${formatUsd(totals.unrealizedPnlUsd)} (${totals.unrealizedPnlPercent.toFixed(1)}%)`,
+      className: pnlClass(totals.unrealizedPnlUsd),
+    },
+  ] : [];
+
+  const renderEvent = (event: PortfolioEvent) => {
+    const isCollapsed = collapsed.has(event.eventSlug);
+
+    return (
+      <div key={event.eventSlug} className="border-b border-border/50 last:border-b-0">
+        <button
+          type="button"
+          onClick={() => toggleEvent(event.eventSlug)}
+          className="w-full flex items-center justify-between gap-4 px-4 py-3 bg-secondary/10 hover:bg-secondary/20 transition-colors text-left"
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            {isCollapsed ? <ChevronRight className="w-4 h-4 shrink-0" /> : <ChevronDown className="w-4 h-4 shrink-0" />}
+            <span className="truncate text-sm text-foreground">{event.title}</span>
+          </div>
+          <div className="flex items-center gap-4 font-mono text-xs shrink-0">
+            <span className="text-muted-foreground">{formatTimeToResolution(event.endDate)}</span>
+            <span>{formatUsd(event.currentValueUsd)}</span>
+            <span className={pnlClass(event.unrealizedPnlUsd)}>{formatUsd(event.unrealizedPnlUsd)}</span>
+          </div>
+        </button>
+
+        {!isCollapsed && (
+          <div className="divide-y divide-border/30">
+            {event.positions.map(position => (
+              <div key={position.asset} className="flex items-center justify-between gap-4 px-4 py-2 pl-10 text-sm">
+                <div className="min-w-0">
+                  <div className="truncate text-foreground" title={position.title}>
+                    <span className="text-primary">{position.outcome || "—"}</span> · {position.title}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {position.endDate ? `Resolves ${new Date(position.endDate).toLocaleDateString()}` : "No resolution date"}
+                    {position.trades > 0 ? ` · ${position.trades} trade(s)` : ""}
+                    {position.redeemable ? " · REDEEMABLE" : ""}
+                  </div>
+                </div>
+                <div className="grid grid-cols-4 gap-4 font-mono text-xs text-right shrink-0">
+                  <span className="text-muted-foreground" title="Shares">{position.size.toFixed(1)}</span>
+                  <span title="Average price → mark">
+                    {(position.avgPrice * 100).toFixed(1)}¢ → {position.markPrice !== null ? `${(position.markPrice * 100).toFixed(1)}¢` : "—"}
+                  </span>
+                  <span title="Cost basis">{formatUsd(position.costBasisUsd)}</span>
+                  <span className={pnlClass(position.unrealizedPnlUsd)} title="Unrealised PnL">
+                    {formatUsd(position.unrealizedPnlUsd)} ({position.unrealizedPnlPercent.toFixed(1)}%)
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center py-8 fade-in">
+            <div className="relative mb-8">
+              <h2 className="font-display text-xl md:text-2xl font-bold text-primary text-glow mb-1">
+                Polymarket Portfolio
+              </h2>
+              <p className="text-muted-foreground max-w-lg mx-auto">
+                Every open position across all Polymarket markets, marked to the current price and grouped by event.
+              </p>
+            </div>
+          </div>
+
+          {/* Summary Card */}
+          <div className="relative z-20 border border-border rounded-lg bg-card/80 backdrop-blur-sm border-glow">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <div className="flex items-center gap-2">
+                <Briefcase className="w-4 h-4 text-primary" />
+                <span className="text-xs text-muted-foreground font-display">
+                  PORTFOLIO
+                </span>
+                {data?.paperTrading && <span className="text-xs text-warning font-mono">PAPER</span>}
+              </div>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={paperTrading}
+                    onChange={(e) => { setIsLoading(true); setPaperTrading(e.target.checked); }}
+                    className="accent-primary"
+                  />
+                  Paper Trading
+                </label>
+                <button
+                  type="button"
+                  onClick={refreshPortfolio}
+                  disabled={isLoading}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+                  Refresh
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4">
+              {totals ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {summaryCards.map(card => (
+                    <div key={card.label} className="rounded-lg bg-secondary/30 border border-border/50 px-3 py-2">
+                      <div className="text-xs text-muted-foreground">{card.label}</div>
+                      <div className={`font-mono text-sm ${card.className}`}>{card.value}</div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{isLoading ? "Loading positions..." : "No data yet"}</p>
+              )}
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {error && (
+            <div className="border border-destructive/50 rounded-lg bg-destructive/10 p-4 fade-in">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <p className="text-destructive text-sm font-mono">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Positions by Event */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">POSITIONS BY EVENT</span>
+              <span className="text-xs text-muted-foreground">Sorted by resolution date</span>
+            </div>
+
+            {data && data.events.length > 0 ? (
+              data.events.map(renderEvent)
+            ) : (
+              <p className="p-4 text-center text-sm text-muted-foreground">
+                {isLoading ? "Loading..." : "No open positions"}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioTerminal;
@@ -1,13 +1,21 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { RefreshCw, TrendingUp, TrendingDown, Shield, AlertTriangle, Loader2, DollarSign } from "lucide-react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { RefreshCw, TrendingUp, TrendingDown, Shield, AlertTriangle, Loader2, DollarSign, Scale } from "lucide-react";
 import type { SupportedAsset } from "@/types/betting-bot";
-import type { MarketPosition, PositionTrackerResponse, PairStatus } from "@/types/position-tracker";
+import type {
+  MarketPosition,
+  PositionTrackerResponse,
+  PositionRebalancerResponse,
+  PairStatus,
+  RebalancePlan,
+} from "@/types/position-tracker";
 
 interface PositionDashboardProps {
   asset: SupportedAsset;
   isActive: boolean;
+  /** Track and rebalance the paper trading account */
+  paperTrading?: boolean;
   onPositionUpdate?: (position: MarketPosition | null) => void;
 }
 
@@ -58,47 +66,120 @@ const STATUS_CONFIG: Record<PairStatus, { label: string; color: string; icon: Re
 
 const POLL_INTERVAL_MS = 10000; // 10 seconds
 
+/**
+ * Whether a position only has shares on one side
+ */
+function isDirectional(position: MarketPosition | null): position is MarketPosition {
+  return position?.status === "DIRECTIONAL_YES" || position?.status === "DIRECTIONAL_NO";
+}
+
 export const PositionDashboard: React.FC<PositionDashboardProps> = ({
   asset,
   isActive,
+  paperTrading = false,
   onPositionUpdate,
 }) => {
   const [position, setPosition] = useState<MarketPosition | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [isLoading, setIsLoading] = useState(isActive);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [rebalancePlan, setRebalancePlan] = useState<(RebalancePlan & { marketSlug: string }) | null>(null);
+  const [isRebalancing, setIsRebalancing] = useState(false);
+  const [rebalanceMessage, setRebalanceMessage] = useState<string | null>(null);
+  const [autoRebalance, setAutoRebalance] = useState(false);
+  const autoRebalanceRef = useRef(false);
+  const autoRebalancedSlugsRef = useRef<Set<string>>(new Set());
+  // Market of the latest rebalance plan, previewed once per market
+  const planSlugRef = useRef<string | null>(null);
 
-  const fetchPosition = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  // Preview (dryRun) or place the rebalance order for a directional position
+  const requestRebalance = useCallback(async (target: MarketPosition, dryRun: boolean) => {
+    setIsRebalancing(true);
 
     try {
-      const response = await fetch("/api/position-tracker", {
+      const response = await fetch("/api/position-rebalancer", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ asset }),
+        body: JSON.stringify({
+          asset,
+          marketSlug: target.marketSlug,
+          tokenIds: target.tokenIds,
+          dryRun,
+          paperTrading,
+        }),
       });
 
-      const data: PositionTrackerResponse = await response.json();
+      const data: PositionRebalancerResponse = await response.json();
+
+      if (data.data) {
+        setRebalancePlan({ ...data.data.plan, marketSlug: target.marketSlug });
+        planSlugRef.current = target.marketSlug;
+      }
+
+      if (!dryRun) {
+        setRebalanceMessage(data.success
+          ? data.data?.order?.success
+            ? `${data.data.plan.action === "HEDGE" ? "Hedge" : "Flatten"} order placed (${data.data.plan.shares} shares @ $${data.data.plan.price?.toFixed(2)})`
+            : data.data?.plan.reason || "Nothing to rebalance"
+          : data.error || "Rebalance failed");
+      }
+    } catch (err) {
+      setRebalanceMessage(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsRebalancing(false);
+    }
+  }, [asset, paperTrading]);
+
+  // Preview the plan for directional positions, or rebalance once per market in auto mode
+  const handleDirectional = useCallback((target: MarketPosition | null, auto: boolean) => {
+    if (!isDirectional(target)) return;
+
+    if (auto && !autoRebalancedSlugsRef.current.has(target.marketSlug)) {
+      autoRebalancedSlugsRef.current.add(target.marketSlug);
+      requestRebalance(target, false);
+    } else if (planSlugRef.current !== target.marketSlug) {
+      requestRebalance(target, true);
+    }
+  }, [requestRebalance]);
 
+  // State is only set once the response arrives, so the polling effect can call this
+  const fetchPosition = useCallback(() => fetch("/api/position-tracker", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ asset, paperTrading }),
+  })
+    .then(response => response.json() as Promise<PositionTrackerResponse>)
+    .then(data => {
       if (data.success && data.data) {
+        setError(null);
         setPosition(data.data.position);
         setLastUpdated(new Date());
         onPositionUpdate?.(data.data.position);
+        handleDirectional(data.data.position, autoRebalanceRef.current);
       } else {
         setError(data.error || "Failed to fetch position");
         setPosition(null);
         onPositionUpdate?.(null);
       }
-    } catch (err) {
+    })
+    .catch(err => {
       const errorMsg = err instanceof Error ? err.message : "Network error";
       setError(errorMsg);
       setPosition(null);
       onPositionUpdate?.(null);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [asset, onPositionUpdate]);
+    })
+    .finally(() => setIsLoading(false)), [asset, paperTrading, onPositionUpdate, handleDirectional]);
+
+  const refreshPosition = () => {
+    setIsLoading(true);
+    fetchPosition();
+  };
+
+  const toggleAutoRebalance = (enabled: boolean) => {
+    setAutoRebalance(enabled);
+    autoRebalanceRef.current = enabled;
+    if (enabled) handleDirectional(position, true);
+  };
 
   // Fetch position on mount and when active
   useEffect(() => {
@@ -122,7 +203,7 @@ export const PositionDashboard: React.FC<PositionDashboardProps> = ({
           <span className="text-sm font-medium">Position Status</span>
         </div>
         <button
-          onClick={fetchPosition}
+          onClick={refreshPosition}
           disabled={isLoading}
           className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
         >
@@ -242,6 +323,48 @@ export const PositionDashboard: React.FC<PositionDashboardProps> = ({
               </div>
             </div>
           )}
+
+          {/* Rebalance */}
+          {isDirectional(position) && (
+            <div className="border border-border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Scale className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-medium">Rebalance</span>
+                </div>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoRebalance}
+                    onChange={(e) => toggleAutoRebalance(e.target.checked)}
+                    className="accent-primary"
+                  />
+                  Auto
+                </label>
+              </div>
+              {rebalancePlan && rebalancePlan.marketSlug === position.marketSlug && (
+                <p className="text-xs text-muted-foreground">
+                  {rebalancePlan.action !== "NONE" && (
+                    <span className="font-mono text-foreground">
+                      {rebalancePlan.action === "HEDGE" ? "BUY" : "SELL"} {rebalancePlan.shares} {rebalancePlan.side === "up" ? "YES" : "NO"} @ ${rebalancePlan.price?.toFixed(2)}{" — "}
+                    </span>
+                  )}
+                  {rebalancePlan.reason}
+                </p>
+              )}
+              <button
+                onClick={() => requestRebalance(position, false)}
+                disabled={isRebalancing || rebalancePlan?.action === "NONE"}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-xs font-medium rounded-md border border-primary/50 text-primary hover:bg-primary/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRebalancing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Scale className="w-3 h-3" />}
+                Rebalance Now
+              </button>
+              {rebalanceMessage && (
+                <p className="text-xs text-muted-foreground">{rebalanceMessage}</p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
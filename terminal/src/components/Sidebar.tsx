@@ -17,7 +17,11 @@ import {
   ArrowLeftRight,
   Coins,
   TrendingUp,
-  Eye
+  Eye,
+  BookOpen,
+  Briefcase,
+  Target,
+  Swords
 } from "lucide-react";
 
 interface SidebarProps {
@@ -29,9 +33,13 @@ const navItems = [
   { id: "arbitrage", label: "Arbitrage Intelligence", icon: ArrowLeftRight, available: true, href: "/arbitrage" },
   { id: "betting-bots", label: "Betting Bots", icon: Bot, available: true, href: "/betting-bots" },
   { id: "wallet-tracking", label: "Wallet Tracking", icon: Eye, available: true, href: "/wallet-tracking" },
+  { id: "copytrading", label: "Copytrading", icon: Copy, available: true, href: "/copytrading" },
+  { id: "whale-tracking", label: "Whale Tracking", icon: Fish, available: true, href: "/whale-tracking" },
+  { id: "portfolio", label: "Portfolio", icon: Briefcase, available: true, href: "/portfolio" },
+  { id: "trade-journal", label: "Trade Journal", icon: BookOpen, available: true, href: "/trade-journal" },
+  { id: "calibration", label: "Agent Calibration", icon: Target, available: true, href: "/calibration" },
+  { id: "agent-battles", label: "Agent Battles", icon: Swords, available: true, href: "/agent-battles" },
   { id: "no-code-builder", label: "No Code Builder", icon: Wand2, available: false },
-  { id: "whale-tracking", label: "Whale Tracking", icon: Fish, available: false },
-  { id: "copytrading", label: "Copytrading", icon: Copy, available: false },
   { id: "perps", label: "Perps Trading / Leverage", icon: TrendingUp, available: false },
   { id: "staking", label: "$Predict Staking", icon: Coins, available: false },
   { id: "sdk", label: "Predict Protocol SDK", icon: Blocks, available: false },
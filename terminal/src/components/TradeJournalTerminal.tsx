@@ -0,0 +1,342 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { BookOpen, RefreshCw, AlertTriangle, Loader2 } from "lucide-react";
+import type {
+  JournalEntry,
+  JournalFilter,
+  PnlGroup,
+  PnlReport,
+  TradeJournalRequest,
+  TradeJournalResponse,
+  TradeSource,
+} from "@/types/trade-journal";
+
+type GroupBy = "strategy" | "asset" | "model";
+
+const GROUP_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: "strategy", label: "Strategy" },
+  { value: "asset", label: "Asset" },
+  { value: "model", label: "Model" },
+];
+
+const SOURCE_OPTIONS: { value: TradeSource | ""; label: string }[] = [
+  { value: "", label: "All sources" },
+  { value: "bot", label: "Bots" },
+  { value: "autonomous", label: "Autonomous" },
+  { value: "manual", label: "Manual" },
+  { value: "copytrade", label: "Copytrading" },
+  { value: "arbitrage", label: "Arbitrage" },
+];
+
+/**
+ * Call the trade-journal API
+ */
+async function callJournal(request: TradeJournalRequest): Promise<TradeJournalResponse> {
+  const response = await fetch("/api/trade-journal", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toFixed(2)}`;
+
+const pnlClass = (value: number) => value > 0 ? "text-success" : value < 0 ? "text-destructive" : "text-muted-foreground";
+
+const statusClass = (status: JournalEntry["status"]) => {
+  switch (status) {
+    case "resolved":
+      return "text-primary";
+    case "filled":
+      return "text-success";
+    case "failed":
+      return "text-destructive";
+    case "cancelled":
+      return "text-muted-foreground";
+    default:
+      return "text-warning";
+  }
+};
+
+const TradeJournalTerminal = () => {
+  const [report, setReport] = useState<PnlReport | null>(null);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [groupBy, setGroupBy] = useState<GroupBy>("strategy");
+  const [source, setSource] = useState<TradeSource | "">("");
+  const [includePaper, setIncludePaper] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const filter: JournalFilter = {
+    ...(source ? { source } : {}),
+    ...(includePaper ? {} : { paperTrading: false }),
+  };
+  const filterKey = JSON.stringify(filter);
+
+  // State is only set once both responses arrive, so the filter effect can call this
+  const fetchJournal = useCallback(() => {
+    const currentFilter: JournalFilter = JSON.parse(filterKey);
+    return Promise.all([
+      callJournal({ action: "pnl", filter: currentFilter }),
+      callJournal({ action: "list", filter: currentFilter, limit: 200 }),
+    ])
+      .then(([pnlData, listData]) => {
+        setError(null);
+
+        if (pnlData.success && pnlData.report) {
+          setReport(pnlData.report);
+        } else {
+          setError(pnlData.error || "Failed to load PnL report");
+        }
+
+        if (listData.success) {
+          setEntries(listData.entries || []);
+        } else {
+          setError(listData.error || "Failed to load trades");
+        }
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Network error"))
+      .finally(() => setIsLoading(false));
+  }, [filterKey]);
+
+  const refreshJournal = useCallback(() => {
+    setIsLoading(true);
+    fetchJournal();
+  }, [fetchJournal]);
+
+  useEffect(() => {
+    fetchJournal();
+  }, [fetchJournal]);
+
+  // Refresh fills, marks and resolutions, then reload
+  const syncJournal = useCallback(async () => {
+    setIsSyncing(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await callJournal({ action: "sync" });
+      if (data.success && data.sync) {
+        const failed = data.sync.errors.length;
+        setMessage(`Synced ${data.sync.synced} trade(s), ${data.sync.resolved} resolved${failed > 0 ? `, ${failed} failed` : ""}`);
+      } else {
+        setError(data.error || "Sync failed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSyncing(false);
+      refreshJournal();
+    }
+  }, [refreshJournal]);
+
+  const groups: PnlGroup[] = report
+    ? groupBy === "strategy" ? report.byStrategy : groupBy === "asset" ? report.byAsset : report.byModel
+    : [];
+
+  const summaryCards = report ? [
+    { label: "Realised PnL", value: formatUsd(report.total.realizedPnlUsd), className: pnlClass(report.total.realizedPnlUsd) },
+    { label: "Unrealised PnL", value: formatUsd(report.total.unrealizedPnlUsd), className: pnlClass(report.total.unrealizedPnlUsd) },
+    { label: "Total PnL", value: formatUsd(report.total.totalPnlUsd), className: pnlClass(report.total.totalPnlUsd) },
+    { label: "Cost", value: formatUsd(report.total.costUsd), className: "text-foreground" },
+    { label: "Orders", value: `${report.total.filledOrders}/${report.total.orders} filled`, className: "text-foreground" },
+    { label: "Won / Lost", value: `${report.total.wins} / ${report.total.losses}`, className: "text-foreground" },
+  ] : [];
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center py-8 fade-in">
+            <div className="relative mb-8">
+              <h2 className="font-display text-xl md:text-2xl font-bold text-primary text-glow mb-1">
+                Trade Journal
+              </h2>
+              <p className="text-muted-foreground max-w-lg mx-auto">
+                Every order placed by bots, autonomous mode and manual calls, with realised and unrealised PnL.
+              </p>
+            </div>
+          </div>
+
+          {/* Controls Card */}
+          <div className="relative z-20 border border-border rounded-lg bg-card/80 backdrop-blur-sm border-glow">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <div className="flex items-center gap-2">
+                <BookOpen className="w-4 h-4 text-primary" />
+                <span className="text-xs text-muted-foreground font-display">
+                  PNL REPORT
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={syncJournal}
+                  disabled={isSyncing}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  {isSyncing ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                  Sync Fills
+                </button>
+                <button
+                  type="button"
+                  onClick={refreshJournal}
+                  disabled={isLoading}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-3 h-3 ${isLoading ? "animate-spin" : ""}`} />
+                  Refresh
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 space-y-4">
+              {/* Filters */}
+              <div className="flex flex-wrap items-center gap-4">
+                <select
+                  value={source}
+                  onChange={(e) => { setIsLoading(true); setSource(e.target.value as TradeSource | ""); }}
+                  className="px-3 py-2 rounded-lg bg-secondary/50 border border-border text-sm hover:border-primary/50 transition-all focus:outline-none focus:border-primary"
+                >
+                  {SOURCE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={includePaper}
+                    onChange={(e) => { setIsLoading(true); setIncludePaper(e.target.checked); }}
+                    className="accent-primary"
+                  />
+                  Include paper trades
+                </label>
+              </div>
+
+              {/* Summary */}
+              {report && (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {summaryCards.map(card => (
+                    <div key={card.label} className="rounded-lg bg-secondary/30 border border-border/50 px-3 py-2">
+                      <div className="text-xs text-muted-foreground">{card.label}</div>
+                      <div className={`font-mono text-sm ${card.className}`}>{card.value}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {message && <p className="text-xs text-muted-foreground">{message}</p>}
+            </div>
+          </div>
+
+          {/* Error Display */}
+          {error && (
+            <div className="border border-destructive/50 rounded-lg bg-destructive/10 p-4 fade-in">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <p className="text-destructive text-sm font-mono">{error}</p>
+              </div>
+            </div>
+          )}
+
+          {/* PnL Breakdown */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">PNL BY {groupBy.toUpperCase()}</span>
+              <div className="flex items-center gap-1">
+                {GROUP_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setGroupBy(option.value)}
+                    className={`px-2 py-1 rounded text-xs transition-colors ${
+                      groupBy === option.value ? "bg-primary/20 text-primary" : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm font-mono">
+                <thead>
+                  <tr className="text-xs text-muted-foreground border-b border-border/50">
+                    <th className="text-left px-4 py-2 font-normal">{GROUP_OPTIONS.find(o => o.value === groupBy)?.label}</th>
+                    <th className="text-right px-4 py-2 font-normal">Orders</th>
+                    <th className="text-right px-4 py-2 font-normal">Cost</th>
+                    <th className="text-right px-4 py-2 font-normal">Realised</th>
+                    <th className="text-right px-4 py-2 font-normal">Unrealised</th>
+                    <th className="text-right px-4 py-2 font-normal">Total</th>
+                    <th className="text-right px-4 py-2 font-normal">W/L</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border/30">
+                  {groups.map(group => (
+                    <tr key={group.key}>
+                      <td className="px-4 py-2 text-foreground">{group.key}</td>
+                      <td className="px-4 py-2 text-right text-muted-foreground">{group.filledOrders}/{group.orders}</td>
+                      <td className="px-4 py-2 text-right">{formatUsd(group.costUsd)}</td>
+                      <td className={`px-4 py-2 text-right ${pnlClass(group.realizedPnlUsd)}`}>{formatUsd(group.realizedPnlUsd)}</td>
+                      <td className={`px-4 py-2 text-right ${pnlClass(group.unrealizedPnlUsd)}`}>{formatUsd(group.unrealizedPnlUsd)}</td>
+                      <td className={`px-4 py-2 text-right ${pnlClass(group.totalPnlUsd)}`}>{formatUsd(group.totalPnlUsd)}</td>
+                      <td className="px-4 py-2 text-right text-muted-foreground">{group.wins}/{group.losses}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {groups.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No trades recorded yet</p>
+              )}
+            </div>
+          </div>
+
+          {/* Trades */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">TRADES</span>
+              <span className="text-xs text-muted-foreground">({entries.length})</span>
+            </div>
+
+            <div className="max-h-[500px] overflow-y-auto divide-y divide-border/30">
+              {entries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="truncate text-foreground" title={entry.title || entry.marketSlug}>
+                      {entry.title || entry.marketSlug || entry.market || "—"}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()} · {entry.platform} · {entry.source} · {entry.strategy}
+                      {entry.model ? ` · ${entry.model}` : ""}
+                      {entry.paperTrading ? " · PAPER" : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 font-mono text-xs shrink-0">
+                    <span className="text-foreground">{entry.side === "SELL" ? "SELL " : ""}{entry.outcome || "—"}</span>
+                    <span className="text-primary">{(entry.price * 100).toFixed(1)}%</span>
+                    <span className="text-muted-foreground">
+                      {entry.filledSize.toFixed(0)}/{entry.size.toFixed(0)}
+                    </span>
+                    <span className={statusClass(entry.status)} title={entry.error}>
+                      {entry.status === "resolved" ? entry.resolution?.toUpperCase() : entry.status.toUpperCase()}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {entries.length === 0 && !isLoading && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No trades recorded yet</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TradeJournalTerminal;
@@ -0,0 +1,286 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { History, Search, Play, Square, Download, Loader2 } from "lucide-react";
+import type { TrackedWallet, WalletHistoryRequest, WalletHistoryResponse, WalletOrder } from "@/types/wallet-tracking";
+
+interface WalletHistoryPanelProps {
+  wallets: TrackedWallet[];
+  getWalletColor: (address: string) => string;
+  getWalletLabel: (address: string) => string;
+  /** Called for every replayed order, oldest first */
+  onReplayOrder: (order: WalletOrder) => void;
+  onReplayStatus: (message: string) => void;
+}
+
+// Replay speed: history time per real second (0 = all at once)
+const REPLAY_SPEEDS = [
+  { value: 0, label: "Instant" },
+  { value: 60, label: "1 min/s" },
+  { value: 600, label: "10 min/s" },
+  { value: 3600, label: "1 hour/s" },
+];
+// Longest real-time pause between two replayed orders
+const MAX_REPLAY_GAP_MS = 3000;
+
+const CSV_COLUMNS = [
+  "ordered_at", "wallet", "label", "side", "outcome", "price", "shares", "notional_usd",
+  "market_slug", "title", "condition_id", "token_id", "order_hash", "tx_hash",
+];
+
+/**
+ * Call the wallet history API
+ */
+async function callWalletHistory(request: WalletHistoryRequest): Promise<WalletHistoryResponse> {
+  const response = await fetch("/api/wallet-history", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function downloadFile(content: string, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Recorded orders of tracked wallets: filter, replay into the activity log and export
+ */
+const WalletHistoryPanel = ({ wallets, getWalletColor, getWalletLabel, onReplayOrder, onReplayStatus }: WalletHistoryPanelProps) => {
+  const [walletFilter, setWalletFilter] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [market, setMarket] = useState("");
+  const [limit, setLimit] = useState(500);
+  const [orders, setOrders] = useState<WalletOrder[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [replaySpeed, setReplaySpeed] = useState(600);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const replayTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Stop a running replay on unmount
+  useEffect(() => {
+    return () => {
+      if (replayTimerRef.current) clearTimeout(replayTimerRef.current);
+    };
+  }, []);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await callWalletHistory({
+        action: "list",
+        wallets: walletFilter === "all" ? wallets.map(w => w.address) : [walletFilter],
+        from: from ? new Date(from).toISOString() : undefined,
+        to: to ? new Date(to).toISOString() : undefined,
+        market: market.trim() || undefined,
+        limit,
+        ascending: true,
+      });
+
+      if (data.success) {
+        setOrders(data.orders || []);
+        setHasLoaded(true);
+      } else {
+        setError(data.error || "Failed to load history");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const stopReplay = () => {
+    if (replayTimerRef.current) {
+      clearTimeout(replayTimerRef.current);
+      replayTimerRef.current = null;
+    }
+    setIsReplaying(false);
+  };
+
+  const startReplay = () => {
+    if (orders.length === 0) return;
+
+    onReplayStatus(`Replaying ${orders.length} recorded order(s)`);
+    if (replaySpeed === 0) {
+      orders.forEach(onReplayOrder);
+      onReplayStatus("Replay finished");
+      return;
+    }
+
+    setIsReplaying(true);
+    const step = (index: number) => {
+      onReplayOrder(orders[index]);
+
+      const next = orders[index + 1];
+      if (!next) {
+        replayTimerRef.current = null;
+        setIsReplaying(false);
+        onReplayStatus("Replay finished");
+        return;
+      }
+
+      const gapMs = Date.parse(next.orderedAt) - Date.parse(orders[index].orderedAt);
+      const delayMs = Math.min(Math.max(gapMs / replaySpeed, 0), MAX_REPLAY_GAP_MS);
+      replayTimerRef.current = setTimeout(() => step(index + 1), delayMs);
+    };
+    step(0);
+  };
+
+  const exportJson = () => {
+    downloadFile(JSON.stringify(orders, null, 2), `wallet-history-${Date.now()}.json`, "application/json");
+  };
+
+  const exportCsv = () => {
+    const rows = orders.map(o => [
+      o.orderedAt, o.wallet, getWalletLabel(o.wallet), o.side, o.outcome, o.price, o.shares,
+      (o.price * o.shares).toFixed(2), o.marketSlug, o.title, o.conditionId, o.tokenId, o.orderHash, o.txHash,
+    ].map(csvCell).join(","));
+    downloadFile([CSV_COLUMNS.join(","), ...rows].join("\n"), `wallet-history-${Date.now()}.csv`, "text/csv");
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg bg-secondary/50 border border-border text-xs font-mono hover:border-primary/50 transition-all focus:outline-none focus:border-primary disabled:opacity-50";
+  const buttonClass = "flex items-center gap-1 px-3 py-2 rounded-lg text-xs bg-secondary/50 border border-border text-muted-foreground hover:border-primary/50 hover:text-foreground transition-all disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-border/50">
+        <History className="w-4 h-4 text-primary" />
+        <span className="text-xs text-muted-foreground font-display">HISTORY</span>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+          <select value={walletFilter} onChange={(e) => setWalletFilter(e.target.value)} className={inputClass}>
+            <option value="all">All tracked wallets</option>
+            {wallets.map(wallet => (
+              <option key={wallet.address} value={wallet.address}>{wallet.label}</option>
+            ))}
+          </select>
+          <input
+            type="datetime-local"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            title="From"
+            className={inputClass}
+          />
+          <input
+            type="datetime-local"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            title="To"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={market}
+            onChange={(e) => setMarket(e.target.value)}
+            placeholder="Market slug, title or condition ID"
+            className={inputClass}
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              max={5000}
+              value={limit}
+              onChange={(e) => setLimit(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 5000))}
+              title="Maximum number of orders"
+              className={`${inputClass} w-20`}
+            />
+            <button
+              type="button"
+              onClick={loadHistory}
+              disabled={isLoading || wallets.length === 0}
+              className={buttonClass}
+            >
+              {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Search className="w-3 h-3" />}
+              Load
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-destructive text-xs font-mono">{error}</p>}
+
+        {hasLoaded && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-muted-foreground font-mono mr-auto">
+                {orders.length} order(s){orders.length >= limit ? " (limit reached)" : ""}
+              </span>
+              <select
+                value={replaySpeed}
+                onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                disabled={isReplaying}
+                className={inputClass}
+              >
+                {REPLAY_SPEEDS.map(speed => (
+                  <option key={speed.value} value={speed.value}>{speed.label}</option>
+                ))}
+              </select>
+              {isReplaying ? (
+                <button type="button" onClick={stopReplay} className={buttonClass}>
+                  <Square className="w-3 h-3" />
+                  Stop
+                </button>
+              ) : (
+                <button type="button" onClick={startReplay} disabled={orders.length === 0} className={buttonClass}>
+                  <Play className="w-3 h-3" />
+                  Replay
+                </button>
+              )}
+              <button type="button" onClick={exportCsv} disabled={orders.length === 0} className={buttonClass}>
+                <Download className="w-3 h-3" />
+                CSV
+              </button>
+              <button type="button" onClick={exportJson} disabled={orders.length === 0} className={buttonClass}>
+                <Download className="w-3 h-3" />
+                JSON
+              </button>
+            </div>
+
+            <div className="max-h-[240px] overflow-y-auto font-mono text-xs space-y-1">
+              {orders.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">No recorded orders match these filters.</p>
+              ) : (
+                [...orders].reverse().map(order => (
+                  <div key={order.id} className="flex gap-2">
+                    <span className="text-muted-foreground/60 whitespace-nowrap">
+                      {new Date(order.orderedAt).toLocaleString()}
+                    </span>
+                    <span className={`${getWalletColor(order.wallet)} whitespace-nowrap`}>
+                      [{getWalletLabel(order.wallet)}]
+                    </span>
+                    <span className={order.side === "BUY" ? "text-success" : "text-destructive"}>{order.side}</span>
+                    <span className="text-foreground truncate">
+                      {order.shares.toFixed(2)} {order.outcome || "shares"} @ {(order.price * 100).toFixed(1)}¢ — {order.title || order.marketSlug}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WalletHistoryPanel;
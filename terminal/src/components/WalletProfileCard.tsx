@@ -0,0 +1,168 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { BarChart3, Loader2, X, ExternalLink } from "lucide-react";
+import type { WalletProfile, WalletProfileResponse } from "@/types/wallet-tracking";
+
+interface WalletProfileCardProps {
+  address: string;
+  label?: string;
+  onClose: () => void;
+}
+
+const formatUsd = (value: number) => {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(Math.round(value)).toLocaleString("en-US")}`;
+};
+
+const formatPercent = (value: number | null) => value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+
+const formatCents = (value: number | null) => value === null ? "—" : `${(value * 100).toFixed(1)}¢`;
+
+const formatDate = (iso?: string) => iso ? new Date(iso).toLocaleDateString() : "—";
+
+const pnlClass = (value: number) => value > 0 ? "text-success" : value < 0 ? "text-destructive" : "text-foreground";
+
+/**
+ * Historical trading profile of a wallet: win rate, PnL, entry vs resolution,
+ * categories and typical size
+ */
+const WalletProfileCard = ({ address, label, onClose }: WalletProfileCardProps) => {
+  const [profile, setProfile] = useState<WalletProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setProfile(null);
+
+      try {
+        const response = await fetch(`/api/wallet-profile?wallet=${encodeURIComponent(address)}`);
+        const data: WalletProfileResponse = await response.json();
+        if (cancelled) return;
+        if (data.success && data.profile) {
+          setProfile(data.profile);
+        } else {
+          setError(data.error || "Failed to load wallet profile");
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Network error");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [address]);
+
+  const stats = profile ? [
+    { label: "WIN RATE", value: formatPercent(profile.winRate), hint: `${profile.wins}W / ${profile.losses}L of ${profile.closedPositions} closed` },
+    { label: "REALISED PNL", value: formatUsd(profile.realizedPnlUsd), hint: `ROI ${formatPercent(profile.roi)}`, className: pnlClass(profile.realizedPnlUsd) },
+    { label: "ENTRY → RESOLUTION", value: `${formatCents(profile.avgEntryPrice)} → ${formatCents(profile.avgResolutionPrice)}`, hint: `${profile.resolvedPositions} resolved position(s)` },
+    { label: "TYPICAL TRADE", value: formatUsd(profile.medianTradeUsd), hint: `avg ${formatUsd(profile.averageTradeUsd)} · max ${formatUsd(profile.largestTradeUsd)}` },
+    { label: "VOLUME", value: formatUsd(profile.totalVolumeUsd), hint: `${profile.tradesAnalyzed} trades · ${Math.round(profile.buyShare * 100)}% buys` },
+    { label: "OPEN POSITIONS", value: String(profile.openPositions), hint: `${formatUsd(profile.openValueUsd)} · uPnL ${formatUsd(profile.unrealizedPnlUsd)}` },
+  ] : [];
+
+  return (
+    <div className="border border-border rounded-lg bg-card/80 backdrop-blur-sm fade-in">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+        <div className="flex items-center gap-2 min-w-0">
+          <BarChart3 className="w-4 h-4 text-primary shrink-0" />
+          <span className="text-xs text-muted-foreground font-display shrink-0">WALLET PROFILE</span>
+          <a
+            href={`https://polymarket.com/profile/${address}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs font-mono text-primary hover:underline truncate"
+          >
+            {label || profile?.name || address}
+            <ExternalLink className="w-3 h-3 shrink-0" />
+          </a>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-muted-foreground hover:text-foreground transition-colors"
+          aria-label="Close profile"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading trade history...
+          </div>
+        )}
+
+        {error && <p className="text-destructive text-sm font-mono">{error}</p>}
+
+        {profile && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {stats.map(stat => (
+                <div key={stat.label} className="px-3 py-2 rounded-lg bg-secondary/30 border border-border/50">
+                  <div className="text-[10px] text-muted-foreground font-display">{stat.label}</div>
+                  <div className={`text-lg font-mono ${stat.className || "text-foreground"}`}>{stat.value}</div>
+                  <div className="text-[10px] text-muted-foreground font-mono">{stat.hint}</div>
+                </div>
+              ))}
+            </div>
+
+            {profile.categories.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">FAVOURED CATEGORIES</span>
+                {profile.categories.slice(0, 5).map(category => (
+                  <div key={category.category} className="flex items-center gap-3 text-xs font-mono">
+                    <span className="w-32 truncate text-foreground">{category.category}</span>
+                    <div className="flex-1 h-2 rounded bg-secondary/50 overflow-hidden">
+                      <div className="h-full bg-primary/60" style={{ width: `${Math.round(category.share * 100)}%` }} />
+                    </div>
+                    <span className="w-28 text-right text-muted-foreground">
+                      {Math.round(category.share * 100)}% · {formatUsd(category.volumeUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {profile.topPositions.length > 0 && (
+              <div className="space-y-1">
+                <span className="text-xs text-muted-foreground">LARGEST CLOSED POSITIONS</span>
+                {profile.topPositions.map((position, i) => (
+                  <div key={`${position.slug}-${position.outcome}-${i}`} className="flex items-center justify-between gap-3 text-xs font-mono">
+                    <span className="truncate text-foreground" title={position.title}>
+                      {position.title} <span className="text-muted-foreground">({position.outcome})</span>
+                    </span>
+                    <span className="whitespace-nowrap text-muted-foreground">
+                      {formatCents(position.avgPrice)} → {formatCents(position.resolutionPrice)}
+                    </span>
+                    <span className={`w-20 text-right ${pnlClass(position.realizedPnlUsd)}`}>
+                      {formatUsd(position.realizedPnlUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="text-[10px] text-muted-foreground font-mono">
+              Active {formatDate(profile.firstTradeAt)} – {formatDate(profile.lastTradeAt)} · based on the last {profile.tradesAnalyzed} trades and {profile.closedPositions} closed positions
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WalletProfileCard;
@@ -1,14 +1,55 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { Play, Square, Eye, AlertTriangle } from "lucide-react";
-import type { WalletTrackingLogEntry, SSEMessage, OrderEvent } from "@/types/wallet-tracking";
+import { Play, Square, Eye, AlertTriangle, Plus, X, BarChart3 } from "lucide-react";
+import WalletProfileCard from "./WalletProfileCard";
+import WalletHistoryPanel from "./WalletHistoryPanel";
+import type { WalletTrackingLogEntry, SSEMessage, OrderEvent, TrackedWallet, WalletOrder } from "@/types/wallet-tracking";
+
+// Tracked wallets are kept in the browser between visits
+const STORAGE_KEY = "predictos.wallet-tracking.wallets";
+
+// Colours assigned to tracked wallets in list order
+const WALLET_COLORS = [
+  "text-sky-400",
+  "text-amber-400",
+  "text-fuchsia-400",
+  "text-emerald-400",
+  "text-rose-400",
+  "text-violet-400",
+  "text-lime-400",
+  "text-orange-400",
+];
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Read the saved wallets; empty on the server or when storage is unreadable
+const loadSavedWallets = (): TrackedWallet[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (Array.isArray(parsed)) {
+      return parsed.filter((w): w is TrackedWallet =>
+        typeof w?.address === "string" && typeof w?.label === "string"
+      );
+    }
+  } catch {
+    // Ignore unreadable storage
+  }
+  return [];
+};
 
 const WalletTrackingTerminal = () => {
+  const [wallets, setWallets] = useState<TrackedWallet[]>(loadSavedWallets);
+  const [walletLabel, setWalletLabel] = useState<string>("");
   const [walletAddress, setWalletAddress] = useState<string>("");
+  const [walletFilter, setWalletFilter] = useState<string>("all");
   const [isTracking, setIsTracking] = useState(false);
   const [logs, setLogs] = useState<WalletTrackingLogEntry[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // Wallet whose profile is shown
+  const [profileAddress, setProfileAddress] = useState<string | null>(null);
   const logsEndRef = useRef<HTMLDivElement>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
 
@@ -26,16 +67,72 @@ const WalletTrackingTerminal = () => {
     };
   }, []);
 
+  // Save wallets whenever the list changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(wallets));
+    } catch {
+      // Storage might be unavailable
+    }
+  }, [wallets]);
+
   // Add log entry
-  const addLog = useCallback((level: WalletTrackingLogEntry["level"], message: string, details?: Record<string, unknown>) => {
+  const addLog = useCallback((level: WalletTrackingLogEntry["level"], message: string, details?: Record<string, unknown>, wallet?: string) => {
     setLogs(prev => [...prev, {
       timestamp: new Date().toISOString(),
       level,
       message,
+      wallet,
       details,
     }]);
   }, []);
 
+  const getWalletColor = (address: string) => {
+    const index = wallets.findIndex(w => w.address === address);
+    return index === -1 ? "text-primary" : WALLET_COLORS[index % WALLET_COLORS.length];
+  };
+
+  const getWalletLabel = (address: string) =>
+    wallets.find(w => w.address === address)?.label || shortAddress(address);
+
+  // Add a wallet to the tracked list
+  const addWallet = () => {
+    const address = walletAddress.toLowerCase();
+
+    // Validate wallet address format
+    if (!address.match(/^0x[a-f0-9]{40}$/)) {
+      setError("Invalid wallet address format. Must be a valid Ethereum address (0x...)");
+      return;
+    }
+
+    if (wallets.some(w => w.address === address)) {
+      setError("This wallet is already in the list");
+      return;
+    }
+
+    setError(null);
+    setWallets(prev => [...prev, { label: walletLabel.trim() || shortAddress(address), address }]);
+    setWalletLabel("");
+    setWalletAddress("");
+  };
+
+  // Profile of the address being entered, before it is added
+  const showProfile = () => {
+    if (!walletAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
+      setError("Invalid wallet address format. Must be a valid Ethereum address (0x...)");
+      return;
+    }
+    setError(null);
+    setProfileAddress(walletAddress.toLowerCase());
+  };
+
+  const removeWallet = (address: string) => {
+    setWallets(prev => prev.filter(w => w.address !== address));
+    if (walletFilter === address) {
+      setWalletFilter("all");
+    }
+  };
+
   // Format order for display
   const formatOrderMessage = (order: OrderEvent): string => {
     const side = order.side === "BUY" ? "📈 BUY" : "📉 SELL";
@@ -44,25 +141,39 @@ const WalletTrackingTerminal = () => {
     return `${side} ${shares} shares @ ${price}¢ — ${order.title || order.market_slug}`;
   };
 
+  // Recorded orders are logged at the time they were placed
+  const replayOrder = useCallback((order: WalletOrder) => {
+    const side = order.side === "BUY" ? "📈 BUY" : "📉 SELL";
+    setLogs(prev => [...prev, {
+      timestamp: order.orderedAt,
+      level: "ORDER",
+      message: `⏪ ${side} ${order.shares.toFixed(2)} shares @ ${(order.price * 100).toFixed(1)}¢ — ${order.title || order.marketSlug}`,
+      wallet: order.wallet,
+      details: {
+        tx_hash: order.txHash,
+        token_id: order.tokenId,
+        condition_id: order.conditionId,
+        outcome: order.outcome,
+      },
+    }]);
+  }, []);
+
   // Start tracking
   const startTracking = useCallback(() => {
-    if (!walletAddress) {
-      setError("Please enter a wallet address");
-      return;
-    }
-
-    // Validate wallet address format
-    if (!walletAddress.match(/^0x[a-fA-F0-9]{40}$/)) {
-      setError("Invalid wallet address format. Must be a valid Ethereum address (0x...)");
+    if (wallets.length === 0) {
+      setError("Please add at least one wallet");
       return;
     }
 
     setError(null);
     setIsTracking(true);
-    addLog("INFO", `Starting wallet tracking for ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}`);
+    addLog("INFO", wallets.length === 1
+      ? `Starting wallet tracking for ${wallets[0].label}`
+      : `Starting wallet tracking for ${wallets.length} wallets`);
 
-    // Create EventSource for SSE
-    const eventSource = new EventSource(`/api/wallet-tracking?wallet=${encodeURIComponent(walletAddress)}`);
+    // One EventSource for the whole list
+    const addresses = wallets.map(w => w.address).join(",");
+    const eventSource = new EventSource(`/api/wallet-tracking?wallets=${encodeURIComponent(addresses)}`);
     eventSourceRef.current = eventSource;
 
     eventSource.onmessage = (event) => {
@@ -76,7 +187,7 @@ const WalletTrackingTerminal = () => {
           
           case "subscribed": {
             const subData = message.data as { subscription_id?: string; message?: string };
-            addLog("SUCCESS", subData.message || "Subscribed to wallet");
+            addLog("SUCCESS", subData.message || "Subscribed to wallets");
             break;
           }
           
@@ -88,7 +199,7 @@ const WalletTrackingTerminal = () => {
               market_slug: order.market_slug,
               price: order.price,
               shares: order.shares_normalized,
-            });
+            }, order.user?.toLowerCase());
             break;
           }
           
@@ -121,7 +232,7 @@ const WalletTrackingTerminal = () => {
         setIsTracking(false);
       }
     };
-  }, [walletAddress, addLog]);
+  }, [wallets, addLog]);
 
   // Stop tracking
   const stopTracking = useCallback(() => {
@@ -164,6 +275,11 @@ const WalletTrackingTerminal = () => {
     }
   };
 
+  // Status entries are shown under every filter
+  const visibleLogs = walletFilter === "all"
+    ? logs
+    : logs.filter(log => !log.wallet || log.wallet === walletFilter);
+
   return (
     <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
       <div className="max-w-4xl mx-auto">
@@ -175,7 +291,7 @@ const WalletTrackingTerminal = () => {
                 Polymarket Wallet Tracking
               </h2>
               <p className="text-muted-foreground max-w-lg mx-auto">
-                Track real-time order activity on any Polymarket wallet using Dome API WebSocket.
+                Track real-time order activity on a list of Polymarket wallets using Dome API WebSocket.
               </p>
             </div>
           </div>
@@ -198,24 +314,87 @@ const WalletTrackingTerminal = () => {
             </div>
 
             <div className="p-4 space-y-4">
-              {/* Wallet Address Input */}
+              {/* Wallet Inputs */}
               <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
                 <label className="text-sm font-medium text-muted-foreground min-w-[120px] shrink-0">
-                  Wallet Address:
+                  Add Wallet:
                 </label>
-                
-                <div className="flex-1 w-full">
+
+                <div className="flex-1 w-full flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={walletLabel}
+                    onChange={(e) => setWalletLabel(e.target.value)}
+                    disabled={isTracking}
+                    placeholder="Label (optional)"
+                    className="sm:w-40 px-4 py-3 rounded-lg bg-secondary/50 border border-border text-sm font-mono hover:border-primary/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed placeholder:text-muted-foreground/50 focus:outline-none focus:border-primary"
+                  />
                   <input
                     type="text"
                     value={walletAddress}
                     onChange={(e) => setWalletAddress(e.target.value.trim())}
+                    onKeyDown={(e) => e.key === "Enter" && addWallet()}
                     disabled={isTracking}
                     placeholder="0x..."
-                    className="w-full px-4 py-3 rounded-lg bg-secondary/50 border border-border text-sm font-mono hover:border-primary/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed placeholder:text-muted-foreground/50 focus:outline-none focus:border-primary"
+                    className="flex-1 px-4 py-3 rounded-lg bg-secondary/50 border border-border text-sm font-mono hover:border-primary/50 transition-all disabled:opacity-50 disabled:cursor-not-allowed placeholder:text-muted-foreground/50 focus:outline-none focus:border-primary"
                   />
+                  <button
+                    type="button"
+                    onClick={showProfile}
+                    disabled={!walletAddress}
+                    title="Check the wallet's trading history before adding it"
+                    className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg text-sm font-medium transition-all bg-secondary/50 border border-border text-muted-foreground hover:border-primary/50 hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    <span>Profile</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={addWallet}
+                    disabled={isTracking || !walletAddress}
+                    className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg text-sm font-medium transition-all bg-secondary/50 border border-border text-muted-foreground hover:border-primary/50 hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add</span>
+                  </button>
                 </div>
               </div>
 
+              {/* Tracked Wallets */}
+              {wallets.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {wallets.map((wallet) => (
+                    <div
+                      key={wallet.address}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-secondary/50 border border-border text-xs font-mono"
+                      title={wallet.address}
+                    >
+                      <span className={getWalletColor(wallet.address)}>●</span>
+                      <span className="text-foreground">{wallet.label}</span>
+                      <span className="text-muted-foreground">{shortAddress(wallet.address)}</span>
+                      <button
+                        type="button"
+                        onClick={() => setProfileAddress(profileAddress === wallet.address ? null : wallet.address)}
+                        className={`transition-colors ${profileAddress === wallet.address ? "text-primary" : "text-muted-foreground hover:text-primary"}`}
+                        aria-label={`Profile of ${wallet.label}`}
+                      >
+                        <BarChart3 className="w-3 h-3" />
+                      </button>
+                      {!isTracking && (
+                        <button
+                          type="button"
+                          onClick={() => removeWallet(wallet.address)}
+                          className="text-muted-foreground hover:text-destructive transition-colors"
+                          aria-label={`Remove ${wallet.label}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Start/Stop Tracking Button */}
               <div className="flex flex-wrap items-center gap-4 pt-2">
                 {!isTracking ? (
@@ -251,6 +430,24 @@ const WalletTrackingTerminal = () => {
             </div>
           )}
 
+          {/* Wallet Profile */}
+          {profileAddress && (
+            <WalletProfileCard
+              address={profileAddress}
+              label={wallets.find(w => w.address === profileAddress)?.label}
+              onClose={() => setProfileAddress(null)}
+            />
+          )}
+
+          {/* Recorded History */}
+          <WalletHistoryPanel
+            wallets={wallets}
+            getWalletColor={getWalletColor}
+            getWalletLabel={getWalletLabel}
+            onReplayOrder={replayOrder}
+            onReplayStatus={(message) => addLog("INFO", message)}
+          />
+
           {/* Logs Output */}
           <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
             <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
@@ -260,23 +457,37 @@ const WalletTrackingTerminal = () => {
                   ACTIVITY LOG
                 </span>
               </div>
-              <button
-                type="button"
-                onClick={() => setLogs([])}
-                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-              >
-                Clear
-              </button>
+              <div className="flex items-center gap-3">
+                {wallets.length > 1 && (
+                  <select
+                    value={walletFilter}
+                    onChange={(e) => setWalletFilter(e.target.value)}
+                    className="px-2 py-1 rounded bg-secondary/50 border border-border text-xs font-mono text-muted-foreground focus:outline-none focus:border-primary"
+                  >
+                    <option value="all">All wallets</option>
+                    {wallets.map((wallet) => (
+                      <option key={wallet.address} value={wallet.address}>{wallet.label}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setLogs([])}
+                  className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Clear
+                </button>
+              </div>
             </div>
 
             <div className="h-[400px] overflow-y-auto p-4 font-mono text-sm">
-              {logs.length === 0 ? (
+              {visibleLogs.length === 0 ? (
                 <div className="flex items-center justify-center h-full text-muted-foreground">
-                  <span>No activity yet. Enter a wallet address and start tracking.</span>
+                  <span>No activity yet. Add wallets and start tracking.</span>
                 </div>
               ) : (
                 <div className="space-y-1">
-                  {logs.map((log, index) => (
+                  {visibleLogs.map((log, index) => (
                     <div key={index} className="flex gap-2 leading-relaxed">
                       <span className="text-muted-foreground/60 text-xs whitespace-nowrap">
                         {new Date(log.timestamp).toLocaleTimeString()}
@@ -284,6 +495,11 @@ const WalletTrackingTerminal = () => {
                       <span className={`${getLogLevelStyle(log.level)} w-4`}>
                         {getLogLevelIcon(log.level)}
                       </span>
+                      {log.wallet && (
+                        <span className={`${getWalletColor(log.wallet)} whitespace-nowrap`}>
+                          [{getWalletLabel(log.wallet)}]
+                        </span>
+                      )}
                       <span className={getLogLevelStyle(log.level)}>
                         {log.message}
                       </span>
@@ -0,0 +1,555 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Fish, Play, Square, Plus, Send, Trash2, AlertTriangle, Loader2, ExternalLink } from "lucide-react";
+import type { TrackedWallet } from "@/types/wallet-tracking";
+import type {
+  WhaleAlert,
+  WhaleAlertMessage,
+  WhaleAlertRequest,
+  WhaleAlertResponse,
+  WhaleAlertSettings,
+  WhaleAlertSink,
+  WhaleAlertSinkType,
+  WhaleAlertStatus,
+} from "@/types/whale-alerts";
+
+// Settings are kept in the browser so the monitor can be restarted after a server restart
+const STORAGE_KEY = "predictos.whale-tracking.settings";
+const MAX_ALERTS = 200;
+const WALLET_ADDRESS_PATTERN = /0x[a-fA-F0-9]{40}/;
+
+const SINK_TYPES: { value: WhaleAlertSinkType; label: string }[] = [
+  { value: "discord", label: "Discord webhook" },
+  { value: "telegram", label: "Telegram bot" },
+  { value: "webhook", label: "Webhook (JSON)" },
+];
+
+interface SavedWhaleSettings {
+  settings: WhaleAlertSettings;
+  running: boolean;
+}
+
+/**
+ * Call the whale alerts API
+ */
+async function callWhaleAlerts(request: WhaleAlertRequest): Promise<WhaleAlertResponse> {
+  const response = await fetch("/api/whale-alerts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  return response.json();
+}
+
+const parseList = (value: string) => value.split(/[\s,]+/).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Watchlist lines: an address with an optional label, e.g. "Big fish 0x1234..."
+ */
+const parseWatchlist = (value: string): TrackedWallet[] =>
+  value.split("\n").flatMap(line => {
+    const match = line.match(WALLET_ADDRESS_PATTERN);
+    if (!match) return [];
+    const address = match[0].toLowerCase();
+    const label = line.replace(match[0], "").replace(/[,:\-\s]+/g, " ").trim();
+    return [{ label: label || `${address.slice(0, 6)}...${address.slice(-4)}`, address }];
+  });
+
+const formatWatchlist = (watchlist: TrackedWallet[]) =>
+  watchlist.map(w => `${w.label} ${w.address}`).join("\n");
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString("en-US")}`;
+
+const sinkTarget = (sink: WhaleAlertSink) =>
+  sink.type === "telegram" ? `chat ${sink.chatId}` : (sink.url || "").replace(/^https?:\/\//, "").slice(0, 48);
+
+const WhaleTrackingTerminal = () => {
+  // Settings
+  const [minNotionalUsd, setMinNotionalUsd] = useState<number>(10000);
+  const [side, setSide] = useState<"" | "BUY" | "SELL">("");
+  const [marketsInput, setMarketsInput] = useState("");
+  const [watchlistInput, setWatchlistInput] = useState("");
+  const [sinks, setSinks] = useState<WhaleAlertSink[]>([]);
+
+  // New sink
+  const [sinkType, setSinkType] = useState<WhaleAlertSinkType>("discord");
+  const [sinkUrl, setSinkUrl] = useState("");
+  const [sinkBotToken, setSinkBotToken] = useState("");
+  const [sinkChatId, setSinkChatId] = useState("");
+  const [testingSinkId, setTestingSinkId] = useState<string | null>(null);
+
+  // Monitor
+  const [status, setStatus] = useState<WhaleAlertStatus | null>(null);
+  const [alerts, setAlerts] = useState<WhaleAlert[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const applySettings = (settings: WhaleAlertSettings) => {
+    setMinNotionalUsd(settings.minNotionalUsd);
+    setSide(settings.side || "");
+    setMarketsInput(settings.markets.join("\n"));
+    setWatchlistInput(formatWatchlist(settings.watchlist));
+    setSinks(settings.sinks);
+  };
+
+  const buildSettings = (): WhaleAlertSettings => ({
+    minNotionalUsd,
+    side: side || undefined,
+    markets: parseList(marketsInput),
+    watchlist: parseWatchlist(watchlistInput),
+    sinks,
+  });
+
+  const saveSettings = (saved: SavedWhaleSettings) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    } catch {
+      // Storage might be unavailable
+    }
+  };
+
+  // Load the monitor's state; restart it from the saved settings if the server lost them
+  useEffect(() => {
+    const load = async () => {
+      let saved: SavedWhaleSettings | null = null;
+      try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        saved = raw ? JSON.parse(raw) : null;
+      } catch {
+        // Ignore unreadable storage
+      }
+
+      try {
+        let data = await callWhaleAlerts({ action: "get" });
+        if (data.success && !data.status?.running && saved?.running && saved.settings) {
+          data = await callWhaleAlerts({ action: "start", settings: saved.settings });
+        }
+
+        if (!data.success) {
+          setError(data.error || "Failed to load whale alerts");
+        } else {
+          setStatus(data.status || null);
+          setAlerts(data.alerts || []);
+        }
+
+        const settings = data.settings || saved?.settings;
+        if (settings) applySettings(settings);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error");
+      }
+    };
+    load();
+  }, []);
+
+  // Live alerts and status
+  useEffect(() => {
+    const eventSource = new EventSource("/api/whale-alerts");
+
+    eventSource.onmessage = (event) => {
+      try {
+        const message: WhaleAlertMessage = JSON.parse(event.data);
+
+        switch (message.type) {
+          case "alert": {
+            const alert = message.data as WhaleAlert;
+            setAlerts(prev => [alert, ...prev.filter(a => a.id !== alert.id)].slice(0, MAX_ALERTS));
+            break;
+          }
+
+          case "status":
+            setStatus(message.data as WhaleAlertStatus);
+            break;
+
+          default:
+            // Heartbeats and unknown event types
+            break;
+        }
+      } catch (e) {
+        console.error("Failed to parse SSE message:", e);
+      }
+    };
+
+    return () => eventSource.close();
+  }, []);
+
+  const startMonitor = async () => {
+    const settings = buildSettings();
+    if (settings.markets.length === 0 && settings.watchlist.length === 0) {
+      setError("Add at least one market or watchlist wallet");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const data = await callWhaleAlerts({ action: "start", settings });
+      if (!data.success) {
+        setError(data.error || "Failed to start whale alerts");
+        return;
+      }
+      setStatus(data.status || null);
+      saveSettings({ settings, running: true });
+      if (data.settings) applySettings(data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const stopMonitor = async () => {
+    setIsSubmitting(true);
+    try {
+      const data = await callWhaleAlerts({ action: "stop" });
+      if (!data.success) {
+        setError(data.error || "Failed to stop whale alerts");
+        return;
+      }
+      setStatus(data.status || null);
+      saveSettings({ settings: buildSettings(), running: false });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const addSink = () => {
+    const sink: WhaleAlertSink = {
+      id: crypto.randomUUID(),
+      type: sinkType,
+      url: sinkType === "telegram" ? undefined : sinkUrl.trim(),
+      botToken: sinkType === "telegram" ? sinkBotToken.trim() : undefined,
+      chatId: sinkType === "telegram" ? sinkChatId.trim() : undefined,
+      enabled: true,
+    };
+
+    if (sink.type === "telegram" ? !sink.botToken || !sink.chatId : !/^https?:\/\//.test(sink.url || "")) {
+      setError(sink.type === "telegram" ? "Enter a bot token and a chat ID" : "Enter an http(s) URL");
+      return;
+    }
+
+    setError(null);
+    setSinks(prev => [...prev, sink]);
+    setSinkUrl("");
+    setSinkBotToken("");
+    setSinkChatId("");
+  };
+
+  const testSink = async (sink: WhaleAlertSink) => {
+    setTestingSinkId(sink.id);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const data = await callWhaleAlerts({ action: "test-sink", sink });
+      if (data.success) {
+        setNotice(`Test alert sent to ${sinkTarget(sink)}`);
+      } else {
+        setError(data.error || "Test alert failed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setTestingSinkId(null);
+    }
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg bg-secondary/50 border border-border text-sm hover:border-primary/50 transition-all focus:outline-none focus:border-primary disabled:opacity-50";
+  const labelClass = "flex flex-col gap-1 text-xs text-muted-foreground";
+  const isRunning = !!status?.running;
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] px-2 py-4 md:px-4 md:py-6">
+      <div className="max-w-5xl mx-auto">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="text-center py-8 fade-in">
+            <div className="relative mb-8">
+              <h2 className="font-display text-xl md:text-2xl font-bold text-primary text-glow mb-1">
+                Whale Tracking
+              </h2>
+              <p className="text-muted-foreground max-w-lg mx-auto">
+                Get alerted on large Polymarket orders in the markets you watch and on every order of your watchlist wallets — in the terminal, Discord, Telegram or any webhook.
+              </p>
+            </div>
+          </div>
+
+          {/* Settings Card */}
+          <div className="relative z-20 border border-border rounded-lg bg-card/80 backdrop-blur-sm border-glow">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <div className="flex items-center gap-2">
+                <Fish className="w-4 h-4 text-primary" />
+                <span className="text-xs text-muted-foreground font-display">WHALE ALERTS</span>
+              </div>
+              {isRunning && (
+                <div className="flex items-center gap-2" title={status?.lastError}>
+                  <div className={`w-2 h-2 rounded-full ${status?.connected ? "bg-green-500" : "bg-yellow-500"} animate-pulse`} />
+                  <span className={`text-xs font-mono ${status?.connected ? "text-green-500" : "text-warning"}`}>
+                    {status?.connected ? `WATCHING · ${status.ordersScanned} orders scanned` : "CONNECTING"}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            <div className="p-4 space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <label className={labelClass}>
+                  MIN ORDER SIZE $
+                  <input
+                    type="number"
+                    min={1}
+                    value={minNotionalUsd}
+                    onChange={(e) => setMinNotionalUsd(Math.max(parseFloat(e.target.value) || 1, 1))}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  />
+                </label>
+                <label className={labelClass}>
+                  SIDE
+                  <select
+                    value={side}
+                    onChange={(e) => setSide(e.target.value as "" | "BUY" | "SELL")}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  >
+                    <option value="">BUY and SELL</option>
+                    <option value="BUY">BUY only</option>
+                    <option value="SELL">SELL only</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className={labelClass}>
+                  MARKETS
+                  <textarea
+                    value={marketsInput}
+                    onChange={(e) => setMarketsInput(e.target.value)}
+                    placeholder="Market slugs, Polymarket market URLs or condition IDs (one per line)"
+                    rows={4}
+                    disabled={isSubmitting}
+                    className={`${inputClass} font-mono resize-y`}
+                  />
+                </label>
+                <label className={labelClass}>
+                  WATCHLIST
+                  <textarea
+                    value={watchlistInput}
+                    onChange={(e) => setWatchlistInput(e.target.value)}
+                    placeholder={"Label 0x... (one wallet per line)\nEvery order of these wallets is flagged"}
+                    rows={4}
+                    disabled={isSubmitting}
+                    className={`${inputClass} font-mono resize-y`}
+                  />
+                </label>
+              </div>
+
+              {/* Sinks */}
+              <div className="space-y-2">
+                <span className="text-xs text-muted-foreground">SINKS</span>
+                {sinks.map(sink => (
+                  <div key={sink.id} className="flex flex-wrap items-center gap-3 px-3 py-2 rounded-lg bg-secondary/30 border border-border/50 text-xs font-mono">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={sink.enabled}
+                        onChange={(e) => setSinks(prev => prev.map(s => s.id === sink.id ? { ...s, enabled: e.target.checked } : s))}
+                        disabled={isSubmitting}
+                        className="accent-primary"
+                      />
+                      <span className="text-foreground">{SINK_TYPES.find(t => t.value === sink.type)?.label}</span>
+                    </label>
+                    <span className="text-muted-foreground truncate flex-1 min-w-0">{sinkTarget(sink)}</span>
+                    <button
+                      type="button"
+                      onClick={() => testSink(sink)}
+                      disabled={testingSinkId !== null}
+                      className="flex items-center gap-1 text-muted-foreground hover:text-primary transition-colors disabled:opacity-50"
+                    >
+                      {testingSinkId === sink.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+                      Test
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSinks(prev => prev.filter(s => s.id !== sink.id))}
+                      disabled={isSubmitting}
+                      className="text-muted-foreground hover:text-destructive transition-colors"
+                      aria-label="Remove sink"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+
+                <div className="flex flex-col md:flex-row gap-2">
+                  <select
+                    value={sinkType}
+                    onChange={(e) => setSinkType(e.target.value as WhaleAlertSinkType)}
+                    disabled={isSubmitting}
+                    className={inputClass}
+                  >
+                    {SINK_TYPES.map(t => (
+                      <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                  </select>
+                  {sinkType === "telegram" ? (
+                    <>
+                      <input
+                        type="password"
+                        value={sinkBotToken}
+                        onChange={(e) => setSinkBotToken(e.target.value)}
+                        placeholder="Bot token"
+                        disabled={isSubmitting}
+                        className={`${inputClass} font-mono flex-1`}
+                      />
+                      <input
+                        type="text"
+                        value={sinkChatId}
+                        onChange={(e) => setSinkChatId(e.target.value)}
+                        placeholder="Chat ID"
+                        disabled={isSubmitting}
+                        className={`${inputClass} font-mono md:w-40`}
+                      />
+                    </>
+                  ) : (
+                    <input
+                      type="text"
+                      value={sinkUrl}
+                      onChange={(e) => setSinkUrl(e.target.value)}
+                      placeholder={sinkType === "discord" ? "https://discord.com/api/webhooks/..." : "https://..."}
+                      disabled={isSubmitting}
+                      className={`${inputClass} font-mono flex-1`}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={addSink}
+                    disabled={isSubmitting}
+                    className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm bg-secondary/50 border border-border text-muted-foreground hover:border-primary/50 hover:text-foreground transition-all disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Sink
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 pt-2">
+                <button
+                  type="button"
+                  onClick={startMonitor}
+                  disabled={isSubmitting}
+                  className="flex items-center gap-2 px-6 py-2 rounded-lg bg-primary/20 border border-primary/50 text-primary font-display text-sm hover:bg-primary/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                  {isRunning ? "APPLY CHANGES" : "START ALERTS"}
+                </button>
+                {isRunning && (
+                  <button
+                    type="button"
+                    onClick={stopMonitor}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-2 px-6 py-2 rounded-lg bg-destructive/20 border border-destructive/50 text-destructive font-display text-sm hover:bg-destructive/30 transition-all disabled:opacity-50"
+                  >
+                    <Square className="w-4 h-4" />
+                    STOP
+                  </button>
+                )}
+                {status?.sinkErrors?.[0] && (
+                  <span className="text-xs text-warning font-mono truncate" title={status.sinkErrors[0].error}>
+                    Last sink error: {status.sinkErrors[0].error}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Error / Notice Display */}
+          {error && (
+            <div className="border border-destructive/50 rounded-lg bg-destructive/10 p-4 fade-in">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-destructive" />
+                <p className="text-destructive text-sm font-mono">{error}</p>
+              </div>
+            </div>
+          )}
+          {notice && !error && (
+            <div className="border border-success/50 rounded-lg bg-success/10 p-4 fade-in">
+              <p className="text-success text-sm font-mono">{notice}</p>
+            </div>
+          )}
+
+          {/* Alerts */}
+          <div className="relative z-10 border border-border rounded-lg bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border/50">
+              <span className="text-xs text-muted-foreground font-display">
+                ALERTS{status ? ` (${status.alertsRaised} since start)` : ""}
+              </span>
+              <button
+                type="button"
+                onClick={() => setAlerts([])}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+
+            <div className="max-h-[500px] overflow-y-auto divide-y divide-border/30">
+              {alerts.length === 0 ? (
+                <div className="p-8 text-center text-sm text-muted-foreground">
+                  No alerts yet. Add markets or watchlist wallets and start alerts.
+                </div>
+              ) : (
+                alerts.map(alert => (
+                  <div key={alert.id} className="px-4 py-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-muted-foreground/60 text-xs font-mono whitespace-nowrap">
+                        {new Date(alert.timestamp).toLocaleTimeString()}
+                      </span>
+                      <span className={`font-mono font-bold ${alert.side === "BUY" ? "text-success" : "text-destructive"}`}>
+                        {alert.side}
+                      </span>
+                      <span className="font-mono text-foreground">{formatUsd(alert.notionalUsd)}</span>
+                      <span className="text-muted-foreground font-mono">
+                        {alert.outcome ? `${alert.outcome} ` : ""}@ {(alert.price * 100).toFixed(1)}¢
+                        {alert.currentPrice !== undefined ? ` · now ${(alert.currentPrice * 100).toFixed(1)}¢` : ""}
+                      </span>
+                      {alert.reasons.includes("notional") && (
+                        <span className="text-[10px] font-mono text-amber-400">WHALE</span>
+                      )}
+                      {alert.reasons.includes("watchlist") && (
+                        <span className="text-[10px] font-mono text-sky-400">WATCHLIST</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <a
+                        href={`https://polymarket.com/market/${alert.marketSlug}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-primary hover:underline truncate"
+                      >
+                        {alert.title}
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                      </a>
+                      <span className="text-muted-foreground font-mono" title={alert.wallet}>
+                        {alert.walletLabel ? `${alert.walletLabel} (${shortAddress(alert.wallet)})` : shortAddress(alert.wallet)}
+                      </span>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WhaleTrackingTerminal;
@@ -0,0 +1,413 @@
+/**
+ * Agent Pipeline
+ *
+ * Server-side version of the Super Intelligence run: get-events, PayAI sellers,
+ * predict agents (with PolyFactual research), the bookmaker and, in autonomous
+ * mode, the mapper agent and put-order. Progress is reported through `emit` so
+ * the API route can stream it over SSE.
+ */
+
+import type {
+  AgentConfig,
+  AgentPipelineEventType,
+  AgentPipelineRequest,
+  AgentPipelineResult,
+  AggregatorConfig,
+  AnalysisAggregatorResponse,
+  AutonomousOrderResult,
+  EventAnalysisAgentResponse,
+  GetEventsResponse,
+  GrokTool,
+  MarketAnalysis,
+  PmType,
+  PolyfactualResearchResult,
+} from "@/types/agentic";
+import type { CallSellerResponse } from "@/types/x402";
+import type { PolyfactualResearchResponse } from "@/types/polyfactual";
+import type { AgentPresetsResponse } from "@/types/agent-presets";
+import { presetToConfigs } from "./agent-presets";
+
+export type PipelineEmitter = (type: AgentPipelineEventType, data?: Record<string, unknown>) => void;
+
+// Limit markets sent to each agent to avoid token limits
+const MAX_MARKETS_PER_AGENT = 10;
+// PayAI seller responses are truncated before aggregation
+const MAX_X402_RESPONSE_CHARS = 3000;
+
+function isX402Agent(agent: AgentConfig): boolean {
+  return agent.tools?.includes('x402') === true && !!agent.x402Seller;
+}
+
+/**
+ * Call a Supabase Edge Function, honouring its SUPABASE_EDGE_FUNCTION_* override
+ */
+async function callEdgeFunction<T>(name: string, body: unknown): Promise<T> {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Server configuration error: Missing Supabase credentials");
+  }
+
+  const envKey = `SUPABASE_EDGE_FUNCTION_${name.toUpperCase().replace(/-/g, "_")}`;
+  const edgeFunctionUrl = process.env[envKey] || `${supabaseUrl}/functions/v1/${name}`;
+
+  const response = await fetch(edgeFunctionUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseAnonKey}`,
+      apikey: supabaseAnonKey,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const responseText = await response.text();
+  try {
+    return JSON.parse(responseText) as T;
+  } catch {
+    throw new Error(`${name} returned a non-JSON response (${response.status}): ${responseText.substring(0, 200)}`);
+  }
+}
+
+/**
+ * Replace the request's agent team with its saved preset, if one is given
+ */
+export async function resolvePipelinePreset(body: AgentPipelineRequest): Promise<AgentPipelineRequest> {
+  if (!body.presetId) return body;
+
+  const presetData = await callEdgeFunction<AgentPresetsResponse>("agent-presets", {
+    action: "get",
+    presetId: body.presetId,
+  });
+
+  if (!presetData.success || !presetData.preset) {
+    throw new Error(presetData.error || `Preset not found: ${body.presetId}`);
+  }
+
+  return { ...body, ...presetToConfigs(presetData.preset) };
+}
+
+/**
+ * Validate a pipeline request, returning the first problem found
+ */
+export function validatePipelineRequest(body: AgentPipelineRequest): string | null {
+  if (!body.url?.trim()) return "Missing required field: url";
+  if (!Array.isArray(body.agents) || body.agents.length === 0) return "Missing required field: agents (or presetId)";
+  if (body.mode !== 'supervised' && body.mode !== 'autonomous') return "Invalid mode. Must be 'supervised' or 'autonomous'";
+
+  if (body.agents.some(a => !isX402Agent(a) && !a.model)) {
+    return "Every agent needs a model (or a PayAI seller)";
+  }
+  if (body.agents.some(a => isX402Agent(a) && !a.userCommand?.trim())) {
+    return "x402 agents need a command (it is sent as the query)";
+  }
+  if (body.agents.filter(a => !isX402Agent(a)).length > 1 && !body.aggregator?.model) {
+    return "Missing aggregator model (required with more than one agent)";
+  }
+
+  if (body.mode === 'autonomous') {
+    const budgetUsd = body.autonomous?.budgetUsd;
+    if (typeof budgetUsd !== "number" || budgetUsd < 1 || budgetUsd > 100) {
+      return "Invalid autonomous.budgetUsd. Must be between $1 and $100";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map the analysis to order params and place the order
+ */
+async function placeOrder(
+  analysis: MarketAnalysis,
+  eventIdentifier: string,
+  markets: unknown[],
+  pmType: PmType,
+  request: AgentPipelineRequest,
+  journal: { model: string; analysisRequestId: string }
+): Promise<{ status: 'success' | 'error'; order: AutonomousOrderResult; orderParams?: Record<string, unknown> }> {
+  const side = analysis.recommendedAction === "BUY YES" ? "YES" : "NO";
+  const isKalshi = pmType === 'Kalshi';
+
+  // Kalshi events hold one market per strike; Polymarket uses the first market
+  const market = (isKalshi
+    ? markets.find(m => (m as Record<string, unknown>).ticker === analysis.ticker) ?? markets[0]
+    : markets[0]) as Record<string, unknown>;
+
+  const mapperData = await callEdgeFunction<{
+    success: boolean;
+    data?: { orderParams: Record<string, unknown>; analysis?: { side?: string } };
+    error?: string;
+  }>("mapper-agent", {
+    platform: pmType,
+    analysisResult: {
+      recommendedAction: analysis.recommendedAction,
+      predictedWinner: analysis.predictedWinner,
+      winnerConfidence: analysis.winnerConfidence,
+      marketProbability: analysis.marketProbability,
+      estimatedActualProbability: analysis.estimatedActualProbability,
+      ticker: analysis.ticker,
+      title: analysis.title,
+    },
+    marketData: isKalshi ? {
+      ticker: market.ticker,
+      event_ticker: market.event_ticker,
+      status: market.status,
+      yes_bid: market.yes_bid,
+      yes_ask: market.yes_ask,
+      no_bid: market.no_bid,
+      no_ask: market.no_ask,
+      last_price: market.last_price,
+      tick_size: market.tick_size,
+      price_level_structure: market.price_level_structure,
+      title: market.title,
+    } : {
+      conditionId: market.conditionId,
+      slug: eventIdentifier,
+      clobTokenIds: market.clobTokenIds,
+      outcomes: market.outcomes,
+      outcomePrices: market.outcomePrices,
+      acceptingOrders: market.acceptingOrders,
+      active: market.active,
+      closed: market.closed,
+      minimumTickSize: market.minimumTickSize,
+      negRisk: market.negRisk,
+      title: market.title || market.question,
+    },
+    budgetUsd: request.autonomous!.budgetUsd,
+  });
+
+  if (!mapperData.success || !mapperData.data) {
+    return { status: 'error', order: { errorMsg: mapperData.error || "Mapper Agent failed", side } };
+  }
+
+  const orderParams = mapperData.data.orderParams;
+  const orderData = await callEdgeFunction<{
+    success: boolean;
+    data?: {
+      order?: { orderId?: string; size?: number; count?: number; price?: number; priceCents?: number; costUsd?: number };
+      paperTrading?: boolean;
+    };
+    error?: string;
+  }>(isKalshi ? "kalshi-put-order" : "polymarket-put-order", {
+    orderParams,
+    paperTrading: isKalshi ? undefined : request.autonomous?.paperTrading,
+    journal: { source: "autonomous", model: journal.model, asset: eventIdentifier, analysisRequestId: journal.analysisRequestId },
+  });
+
+  if (!orderData.success) {
+    return { status: 'error', order: { errorMsg: orderData.error || "Order placement failed", side }, orderParams };
+  }
+
+  return {
+    status: 'success',
+    order: {
+      orderId: orderData.data?.order?.orderId,
+      side: mapperData.data.analysis?.side || side,
+      // Kalshi reports contracts and a limit price in cents
+      size: isKalshi ? orderData.data?.order?.count : orderData.data?.order?.size,
+      price: isKalshi ? (orderData.data?.order?.priceCents ?? 0) / 100 : orderData.data?.order?.price,
+      costUsd: orderData.data?.order?.costUsd,
+      paperTrading: orderData.data?.paperTrading,
+      platform: pmType,
+    },
+    orderParams,
+  };
+}
+
+/**
+ * Run the whole pipeline for the given agent configuration
+ */
+export async function runAgentPipeline(
+  runId: string,
+  request: AgentPipelineRequest,
+  emit: PipelineEmitter
+): Promise<AgentPipelineResult> {
+  const agents: AgentConfig[] = (request.agents || []).map(a => ({ ...a, status: 'idle', result: undefined, error: undefined }));
+  const result: AgentPipelineResult = { runId, agents, orderStatus: 'idle' };
+
+  // Step 1: Fetch event data (Kalshi and Jupiter via DFlow, Polymarket via Dome)
+  const lowerUrl = request.url.toLowerCase();
+  const isKalshiBased = lowerUrl.includes("kalshi") || lowerUrl.includes("jup.ag/prediction");
+  const eventsData = await callEdgeFunction<GetEventsResponse>("get-events", {
+    url: request.url,
+    dataProvider: isKalshiBased ? "dflow" : "dome",
+  });
+
+  if (!eventsData.success || !eventsData.markets || !eventsData.eventIdentifier || !eventsData.pmType) {
+    throw new Error(eventsData.error || "Failed to fetch event data");
+  }
+
+  const { markets, eventIdentifier, pmType } = eventsData;
+  result.eventIdentifier = eventIdentifier;
+  result.pmType = pmType;
+  emit("events_loaded", {
+    eventIdentifier,
+    eventId: eventsData.eventId,
+    pmType,
+    urlSource: eventsData.urlSource,
+    marketsCount: markets.length,
+  });
+
+  // Step 2: Run each agent sequentially
+  const completedAnalyses: { agentId: string; model: string; analysis: MarketAnalysis }[] = [];
+  const x402Results: { agentId: string; seller: string; query: string; response: string }[] = [];
+
+  for (let i = 0; i < agents.length; i++) {
+    const agent = agents[i];
+    agents[i] = { ...agent, status: 'running' };
+    emit("agent_started", { agentId: agent.id, index: i });
+
+    try {
+      if (isX402Agent(agent) && agent.x402Seller) {
+        const query = agent.userCommand?.trim() || "";
+        const x402Data = await callEdgeFunction<CallSellerResponse>("x402-seller", {
+          action: "call",
+          resourceUrl: agent.x402Seller.id,
+          query,
+          network: agent.x402Seller.network,
+        });
+
+        agents[i] = {
+          ...agent,
+          status: x402Data.success ? 'completed' : 'error',
+          x402Result: {
+            response: x402Data.data,
+            query,
+            payment: x402Data.metadata ? {
+              txId: x402Data.metadata.paymentTxId,
+              cost: x402Data.metadata.costUsdc,
+              network: x402Data.metadata.network,
+            } : undefined,
+          },
+          error: x402Data.error,
+        };
+        emit("tool_result", { agentId: agent.id, tool: "x402", result: agents[i].x402Result });
+
+        if (!x402Data.success) {
+          emit("agent_error", { agent: agents[i] });
+          continue;
+        }
+
+        const responseStr = typeof x402Data.data === 'string' ? x402Data.data : JSON.stringify(x402Data.data);
+        x402Results.push({
+          agentId: agent.id,
+          seller: agent.x402Seller.name || 'PayAI Seller',
+          query,
+          response: responseStr.length > MAX_X402_RESPONSE_CHARS
+            ? responseStr.substring(0, MAX_X402_RESPONSE_CHARS) + '... [truncated]'
+            : responseStr,
+        });
+        emit("analysis_done", { agent: agents[i] });
+        continue;
+      }
+
+      const grokTools = agent.tools?.filter(t => t === 'x_search' || t === 'web_search') as GrokTool[] | undefined;
+      const agentData = await callEdgeFunction<EventAnalysisAgentResponse>("event-analysis-agent", {
+        markets: markets.slice(0, MAX_MARKETS_PER_AGENT),
+        eventIdentifier,
+        pmType,
+        model: agent.model,
+        tools: grokTools && grokTools.length > 0 ? grokTools : undefined,
+        userCommand: agent.userCommand?.trim() || undefined,
+        calibration: { analysisRequestId: runId, presetId: request.presetId, tools: agent.tools },
+      });
+
+      if (!agentData.success || !agentData.data) {
+        throw new Error(agentData.error || "Agent analysis failed");
+      }
+
+      // PolyFactual research is best-effort and never fails the agent
+      let polyfactualResearch: PolyfactualResearchResult | undefined;
+      if (agent.tools?.includes('polyfactual') && agentData.data.title) {
+        try {
+          const polyfactualData = await callEdgeFunction<PolyfactualResearchResponse>("polyfactual-research", {
+            query: agentData.data.title,
+          });
+          if (polyfactualData.success && polyfactualData.answer) {
+            polyfactualResearch = {
+              answer: polyfactualData.answer,
+              citations: polyfactualData.citations || [],
+              query: agentData.data.title,
+            };
+            emit("tool_result", { agentId: agent.id, tool: "polyfactual", result: polyfactualResearch });
+          }
+        } catch (pfError) {
+          console.warn("[Agent Pipeline] Failed to fetch Polyfactual research:", pfError);
+        }
+      }
+
+      agents[i] = { ...agent, status: 'completed', result: agentData.data, polyfactualResearch };
+      completedAnalyses.push({ agentId: agent.id, model: agent.model, analysis: agentData.data });
+      emit("analysis_done", { agent: agents[i] });
+    } catch (agentError) {
+      agents[i] = { ...agent, status: 'error', error: agentError instanceof Error ? agentError.message : "Unknown error" };
+      emit("agent_error", { agent: agents[i] });
+    }
+  }
+
+  // Step 3: Aggregate when there are several results
+  let finalAnalysis: MarketAnalysis | undefined;
+  let finalModel = "";
+
+  if (completedAnalyses.length + x402Results.length >= 2) {
+    const aggregator: AggregatorConfig = { model: request.aggregator?.model || "", status: 'running' };
+    result.aggregator = aggregator;
+    emit("aggregation_started", { model: aggregator.model });
+
+    try {
+      const aggregatorData = await callEdgeFunction<AnalysisAggregatorResponse>("bookmaker-agent", {
+        analyses: completedAnalyses,
+        x402Results,
+        eventIdentifier,
+        pmType,
+        model: aggregator.model,
+        calibration: { analysisRequestId: runId, presetId: request.presetId },
+      });
+
+      if (!aggregatorData.success || !aggregatorData.data) {
+        throw new Error(aggregatorData.error || "Aggregation failed");
+      }
+
+      result.aggregator = { ...aggregator, status: 'completed', result: aggregatorData.data };
+      finalAnalysis = aggregatorData.data;
+      finalModel = aggregator.model;
+      emit("aggregation_done", { aggregator: result.aggregator });
+    } catch (aggError) {
+      result.aggregator = { ...aggregator, status: 'error', error: aggError instanceof Error ? aggError.message : "Unknown error" };
+      emit("aggregation_error", { aggregator: result.aggregator });
+    }
+  } else if (completedAnalyses.length === 1) {
+    finalAnalysis = completedAnalyses[0].analysis;
+    finalModel = completedAnalyses[0].model;
+  }
+
+  // Step 4: Autonomous mode places the recommended order
+  if (request.mode === 'autonomous' && finalAnalysis) {
+    if (finalAnalysis.recommendedAction === "NO TRADE") {
+      result.orderStatus = 'skipped';
+      result.order = { errorMsg: "Agents recommend NO TRADE - order not placed" };
+      emit("order_skipped", { order: result.order });
+    } else {
+      try {
+        const placed = await placeOrder(finalAnalysis, eventIdentifier, markets, pmType, request, {
+          model: finalModel,
+          analysisRequestId: runId,
+        });
+        result.orderStatus = placed.status;
+        result.order = placed.order;
+        result.orderParams = placed.orderParams;
+      } catch (orderError) {
+        result.orderStatus = 'error';
+        result.order = { errorMsg: orderError instanceof Error ? orderError.message : "Unknown error" };
+      }
+      emit(result.orderStatus === 'success' ? "order_placed" : "order_error", {
+        order: result.order,
+        orderParams: result.orderParams,
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * Agent Preset Helpers
+ *
+ * Conversion between saved agent team presets and the AgentConfig /
+ * AggregatorConfig state used by Super Intelligence.
+ */
+
+import type { AgentConfig, AggregatorConfig } from "@/types/agentic";
+import type { AgentPresetExport, PresetAgent, PresetAggregator } from "@/types/agent-presets";
+
+/**
+ * Fresh (idle) agent team from a preset
+ */
+export function presetToConfigs(preset: { agents: PresetAgent[]; aggregator?: PresetAggregator }): {
+  agents: AgentConfig[];
+  aggregator: AggregatorConfig;
+} {
+  return {
+    agents: preset.agents.map((agent, i) => ({
+      id: `agent-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 11)}`,
+      model: agent.model || "",
+      tools: agent.tools?.length ? agent.tools : undefined,
+      userCommand: agent.userCommand || "",
+      x402Seller: agent.x402Seller,
+      status: 'idle',
+    })),
+    aggregator: { model: preset.aggregator?.model || "", status: 'idle' },
+  };
+}
+
+/**
+ * Portable preset from the current agent team (results and status are dropped)
+ */
+export function configsToPreset(
+  name: string,
+  agents: AgentConfig[],
+  aggregator: AggregatorConfig,
+  description?: string
+): AgentPresetExport {
+  return {
+    version: 1,
+    name,
+    description,
+    agents: agents.map(agent => ({
+      model: agent.model,
+      tools: agent.tools?.length ? agent.tools : undefined,
+      userCommand: agent.userCommand?.trim() || undefined,
+      x402Seller: agent.tools?.includes('x402') ? agent.x402Seller : undefined,
+    })),
+    aggregator: agents.length > 1 && aggregator.model ? { model: aggregator.model } : undefined,
+  };
+}
+
+/**
+ * Whether the agent team still matches a preset (ignoring run state), so its
+ * predictions can be attributed to the preset
+ */
+export function matchesPreset(
+  preset: { agents: PresetAgent[]; aggregator?: PresetAggregator },
+  agents: AgentConfig[],
+  aggregator: AggregatorConfig
+): boolean {
+  const saved = presetToConfigs(preset);
+  const a = configsToPreset("", saved.agents, saved.aggregator);
+  const b = configsToPreset("", agents, aggregator);
+  return JSON.stringify([a.agents, a.aggregator]) === JSON.stringify([b.agents, b.aggregator]);
+}
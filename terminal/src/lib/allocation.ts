@@ -0,0 +1,87 @@
+/**
+ * Batch Budget Allocation
+ *
+ * Ranks independently analysed markets by the size of their alpha and splits a
+ * shared budget across the top N, proportionally to alpha, without exceeding a
+ * per-market cap.
+ */
+
+import type { BatchAllocationConfig, BatchMarketResult } from "@/types/agentic";
+
+function isTradable(result: BatchMarketResult): boolean {
+  return !!result.analysis && result.analysis.hasAlpha && result.analysis.recommendedAction !== "NO TRADE";
+}
+
+function alphaWeight(result: BatchMarketResult): number {
+  return Math.abs(result.analysis?.alphaOpportunity ?? 0);
+}
+
+/**
+ * Tradable markets, largest |alphaOpportunity| first
+ * (ties go to the higher winner confidence, then the market key)
+ */
+export function rankOpportunities(results: BatchMarketResult[]): BatchMarketResult[] {
+  return results
+    .filter(isTradable)
+    .sort((a, b) =>
+      alphaWeight(b) - alphaWeight(a) ||
+      (b.analysis?.winnerConfidence ?? 0) - (a.analysis?.winnerConfidence ?? 0) ||
+      a.key.localeCompare(b.key)
+    );
+}
+
+/**
+ * Split the budget proportionally to the weights; whatever a capped market
+ * cannot take is redistributed among the others
+ */
+function fillToCaps(weights: number[], budgetUsd: number, capUsd: number): number[] {
+  const allocation = weights.map(() => 0);
+  let open = weights.map((_, i) => i);
+  let remaining = budgetUsd;
+
+  while (open.length > 0 && remaining >= 0.01) {
+    const totalWeight = open.reduce((sum, i) => sum + weights[i], 0);
+    const stillOpen: number[] = [];
+    let spent = 0;
+
+    for (const i of open) {
+      const share = totalWeight > 0 ? remaining * (weights[i] / totalWeight) : remaining / open.length;
+      const added = Math.min(share, capUsd - allocation[i]);
+      allocation[i] += added;
+      spent += added;
+      if (allocation[i] < capUsd) stillOpen.push(i);
+    }
+
+    remaining -= spent;
+    // Nothing hit its cap, so the whole remainder was handed out
+    if (stillOpen.length === open.length) break;
+    open = stillOpen;
+  }
+
+  return allocation.map(usd => Math.floor(usd * 100) / 100);
+}
+
+/**
+ * Allocate the shared budget across the top N ranked markets.
+ * Markets whose share falls below the minimum order are dropped (lowest
+ * ranked first) and the budget is re-split among the rest.
+ *
+ * @returns allocation in USD by market key, in rank order
+ */
+export function allocateBudget(
+  ranked: BatchMarketResult[],
+  config: BatchAllocationConfig
+): Map<string, number> {
+  const capUsd = Math.min(config.maxPerMarketUsd, config.budgetUsd);
+  let selected = ranked.slice(0, Math.max(0, config.topN));
+
+  while (selected.length > 0) {
+    const allocation = fillToCaps(selected.map(alphaWeight), config.budgetUsd, capUsd);
+    if (allocation[allocation.length - 1] >= config.minOrderUsd) {
+      return new Map(selected.map((result, i) => [result.key, allocation[i]]));
+    }
+    selected = selected.slice(0, -1);
+  }
+
+  return new Map();
+}
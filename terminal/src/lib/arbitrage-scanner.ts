@@ -0,0 +1,235 @@
+/**
+ * Arbitrage Scanner
+ *
+ * Refreshes the arbitrage-scanner edge function on an interval. Each refresh
+ * lists the open Polymarket and Kalshi markets, pairs them and recomputes the
+ * YES + NO arbitrage of every pair. Pairs are tracked across refreshes, and
+ * the ones whose net profit reaches the threshold are pushed to the UI (SSE
+ * listeners).
+ *
+ * Like the whale alert monitor, the scanner lives in the Next.js server
+ * process; the Arbitrage page keeps its settings and restarts it after a
+ * server restart.
+ */
+
+import type {
+  ArbitrageScannerSettings,
+  ArbitrageScannerStatus,
+  ScannedPair,
+  TrackedArbitragePair,
+} from "@/types/arbitrage";
+
+export type ArbitrageScannerListener = (
+  event: "opportunities" | "status",
+  data: TrackedArbitragePair[] | ArbitrageScannerStatus
+) => void;
+
+interface ScanResponse {
+  success: boolean;
+  pairs?: ScannedPair[];
+  marketCounts?: { polymarket: number; kalshi: number };
+  error?: string;
+}
+
+const MIN_INTERVAL_SECONDS = 30;
+const MAX_EVENTS = 500;
+
+let settings: ArbitrageScannerSettings | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let status: ArbitrageScannerStatus = emptyStatus();
+let pairs = new Map<string, TrackedArbitragePair>();
+// Bumped on every start and stop so a refresh in flight can tell it is stale
+let generation = 0;
+const listeners = new Set<ArbitrageScannerListener>();
+
+function emptyStatus(): ArbitrageScannerStatus {
+  return { running: false, scanning: false, scans: 0, pairsMatched: 0, opportunities: 0 };
+}
+
+function notify(event: "opportunities" | "status", data: TrackedArbitragePair[] | ArbitrageScannerStatus): void {
+  for (const listener of listeners) {
+    try {
+      listener(event, data);
+    } catch (error) {
+      console.error("[Arbitrage Scanner] Listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Check arbitrage scanner settings. Returns an error message, or null when valid.
+ */
+export function validateArbitrageScannerSettings(input: ArbitrageScannerSettings | undefined): string | null {
+  if (!input) {
+    return "Missing required parameter: 'settings'";
+  }
+  if (typeof input.minNetProfit !== "number" || input.minNetProfit < 0 || input.minNetProfit >= 100) {
+    return "minNetProfit must be a number from 0 to below 100";
+  }
+  if (!Number.isInteger(input.intervalSeconds) || input.intervalSeconds < MIN_INTERVAL_SECONDS) {
+    return `intervalSeconds must be a whole number of at least ${MIN_INTERVAL_SECONDS}`;
+  }
+  if (!Number.isInteger(input.maxEvents) || input.maxEvents < 1 || input.maxEvents > MAX_EVENTS) {
+    return `maxEvents must be a whole number between 1 and ${MAX_EVENTS}`;
+  }
+  if (typeof input.minMatchScore !== "number" || input.minMatchScore <= 0 || input.minMatchScore > 1) {
+    return "minMatchScore must be a number above 0 and at most 1";
+  }
+  return null;
+}
+
+/**
+ * Call the arbitrage-scanner edge function
+ */
+async function callArbitrageScanner(maxEvents: number, minMatchScore: number): Promise<ScanResponse> {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Server configuration error: Missing Supabase credentials");
+  }
+
+  const edgeFunctionUrl = process.env.SUPABASE_EDGE_FUNCTION_ARBITRAGE_SCANNER
+    || `${supabaseUrl}/functions/v1/arbitrage-scanner`;
+
+  const response = await fetch(edgeFunctionUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseAnonKey}`,
+      apikey: supabaseAnonKey,
+    },
+    body: JSON.stringify({ action: "scan", maxEvents, minMatchScore }),
+  });
+
+  const responseText = await response.text();
+  try {
+    return JSON.parse(responseText) as ScanResponse;
+  } catch {
+    throw new Error(`arbitrage-scanner returned a non-JSON response (${response.status}): ${responseText.substring(0, 200)}`);
+  }
+}
+
+const netProfit = (pair: ScannedPair) => pair.opportunity.strategy?.netProfit ?? 0;
+
+/**
+ * Opportunities at or above the threshold, most profitable first
+ */
+function currentOpportunities(): TrackedArbitragePair[] {
+  if (!settings) return [];
+  const minNetProfit = settings.minNetProfit;
+  return [...pairs.values()]
+    .filter(p => p.opportunity.hasArbitrage && netProfit(p) >= minNetProfit)
+    .sort((a, b) => netProfit(b) - netProfit(a));
+}
+
+/**
+ * Replace the tracked pairs with a refresh, keeping when each was first seen
+ */
+function applyScan(scanned: ScannedPair[], minNetProfit: number): void {
+  const now = new Date().toISOString();
+  const next = new Map<string, TrackedArbitragePair>();
+
+  for (const pair of scanned) {
+    const id = `${pair.polymarket.marketId}:${pair.kalshi.marketId}`;
+    const previous = pairs.get(id);
+    const isOpportunity = pair.opportunity.hasArbitrage && netProfit(pair) >= minNetProfit;
+
+    next.set(id, {
+      ...pair,
+      id,
+      firstSeenAt: previous?.firstSeenAt ?? now,
+      opportunitySince: isOpportunity ? (previous?.opportunitySince ?? now) : undefined,
+      updatedAt: now,
+    });
+  }
+
+  pairs = next;
+}
+
+async function refresh(): Promise<void> {
+  if (!settings) return;
+
+  const run = generation;
+  const { maxEvents, minMatchScore, minNetProfit, intervalSeconds } = settings;
+  status = { ...status, scanning: true };
+  notify("status", status);
+
+  try {
+    const data = await callArbitrageScanner(maxEvents, minMatchScore);
+    if (run !== generation) return;
+    if (!data.success) {
+      throw new Error(data.error || "Scan failed");
+    }
+
+    applyScan(data.pairs || [], minNetProfit);
+    const opportunities = currentOpportunities();
+    status = {
+      ...status,
+      scans: status.scans + 1,
+      pairsMatched: pairs.size,
+      opportunities: opportunities.length,
+      marketCounts: data.marketCounts,
+      lastScanAt: new Date().toISOString(),
+      lastError: undefined,
+    };
+    notify("opportunities", opportunities);
+  } catch (error) {
+    if (run !== generation) return;
+    status.lastError = error instanceof Error ? error.message : String(error);
+    console.error("[Arbitrage Scanner] Scan failed:", status.lastError);
+  }
+
+  status = { ...status, scanning: false };
+  notify("status", status);
+  timer = setTimeout(refresh, intervalSeconds * 1000);
+}
+
+/**
+ * Start the scanner, or restart it with new settings.
+ * Settings must have passed validateArbitrageScannerSettings.
+ */
+export function startArbitrageScanner(newSettings: ArbitrageScannerSettings): void {
+  if (timer) clearTimeout(timer);
+  generation++;
+
+  settings = { ...newSettings };
+  status = { ...emptyStatus(), running: true, startedAt: new Date().toISOString() };
+  pairs = new Map();
+
+  console.log(`[Arbitrage Scanner] Scanning ${settings.maxEvents} events per platform every ${settings.intervalSeconds}s`);
+  notify("opportunities", []);
+  void refresh();
+}
+
+/**
+ * Stop the scanner. The last opportunities are kept.
+ */
+export function stopArbitrageScanner(): void {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  generation++;
+  status = { ...status, running: false, scanning: false };
+  notify("status", status);
+}
+
+/**
+ * Current settings, status and opportunities
+ */
+export function getArbitrageScannerState(): {
+  settings: ArbitrageScannerSettings | null;
+  status: ArbitrageScannerStatus;
+  opportunities: TrackedArbitragePair[];
+} {
+  return { settings, status: { ...status }, opportunities: currentOpportunities() };
+}
+
+/**
+ * Receive opportunity refreshes and status changes. Returns the function that stops them.
+ */
+export function subscribeArbitrageScanner(listener: ArbitrageScannerListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Copytrading Order Streams
+ *
+ * Follows the leader wallets of every running copy trader on the shared Dome
+ * order stream (lib/dome-orders.ts) and sends each of their orders to the
+ * polymarket-copytrader edge function, which applies the copy trader's rules
+ * and places the mirrored order. Streams are reconciled with the stored copy
+ * traders on every /api/copytrading call, so after a server restart they
+ * resume as soon as the Copytrading page is opened.
+ */
+
+import { subscribeOrders } from "./dome-orders";
+import type {
+  CopyStreamStatus,
+  CopyTrader,
+  CopyTraderRequest,
+  CopyTraderResponse,
+  LeaderOrder,
+} from "@/types/copytrading";
+
+interface CopyStream {
+  trader: CopyTrader;
+  status: CopyStreamStatus;
+  unsubscribe: () => void;
+  /** Leader orders are copied one at a time so sizing limits see earlier copies */
+  queue: Promise<void>;
+}
+
+// Open streams by copy trader ID
+const streams = new Map<string, CopyStream>();
+
+/**
+ * Call the polymarket-copytrader edge function
+ */
+export async function callCopyTrader(body: CopyTraderRequest): Promise<CopyTraderResponse> {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Server configuration error: Missing Supabase credentials");
+  }
+
+  const edgeFunctionUrl = process.env.SUPABASE_EDGE_FUNCTION_COPYTRADER
+    || `${supabaseUrl}/functions/v1/polymarket-copytrader`;
+
+  const response = await fetch(edgeFunctionUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseAnonKey}`,
+      apikey: supabaseAnonKey,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const responseText = await response.text();
+  try {
+    return JSON.parse(responseText) as CopyTraderResponse;
+  } catch {
+    throw new Error(`polymarket-copytrader returned a non-JSON response (${response.status}): ${responseText.substring(0, 200)}`);
+  }
+}
+
+/**
+ * Send a leader order to the edge function
+ */
+async function copyOrder(stream: CopyStream, order: LeaderOrder): Promise<void> {
+  try {
+    const data = await callCopyTrader({ action: "copy", copyTraderId: stream.trader.id, order });
+    if (!data.success) {
+      throw new Error(data.error || "Copy failed");
+    }
+    if (data.trade) {
+      console.log(`[Copytrading] ${stream.trader.name}: ${data.trade.status} ${order.side} ${order.market_slug}${data.trade.reason ? ` (${data.trade.reason})` : ""}`);
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    stream.status.lastError = errorMsg;
+    console.error(`[Copytrading] ${stream.trader.name}: failed to copy ${order.order_hash}:`, errorMsg);
+  }
+}
+
+function openStream(trader: CopyTrader): void {
+  const stream: CopyStream = {
+    trader,
+    status: { copyTraderId: trader.id, connected: false, ordersReceived: 0 },
+    unsubscribe: () => {},
+    queue: Promise.resolve(),
+  };
+  streams.set(trader.id, stream);
+
+  stream.unsubscribe = subscribeOrders({ users: trader.leaders }, {
+    onOrder: (order) => {
+      stream.status.ordersReceived++;
+      stream.status.lastOrderAt = new Date().toISOString();
+      stream.queue = stream.queue.then(() => copyOrder(stream, order));
+    },
+    onStatus: (event, message) => {
+      if (event === "subscribed") {
+        stream.status.connected = true;
+        stream.status.lastError = undefined;
+      } else if (event === "disconnected") {
+        stream.status.connected = false;
+      } else if (event === "error") {
+        stream.status.lastError = message;
+      }
+    },
+  });
+}
+
+function closeStream(stream: CopyStream): void {
+  stream.unsubscribe();
+  streams.delete(stream.trader.id);
+}
+
+/**
+ * Open a stream for every running copy trader and close the others.
+ * Streams are reopened when a copy trader's leaders change. The stored copy
+ * traders are fetched when they are not passed in.
+ */
+export async function reconcileCopyStreams(traders?: CopyTrader[]): Promise<void> {
+  if (!traders) {
+    const data = await callCopyTrader({ action: "list" });
+    if (!data.success || !data.copyTraders) {
+      throw new Error(data.error || "Failed to list copy traders");
+    }
+    traders = data.copyTraders;
+  }
+
+  const running = new Map(traders.filter(t => t.status === "running").map(t => [t.id, t]));
+
+  for (const stream of [...streams.values()]) {
+    const trader = running.get(stream.trader.id);
+    if (!trader || trader.leaders.join(",") !== stream.trader.leaders.join(",")) {
+      closeStream(stream);
+    } else {
+      // Settings other than the leaders are read by the edge function on every copy
+      stream.trader = trader;
+    }
+  }
+
+  for (const trader of running.values()) {
+    if (!streams.has(trader.id)) {
+      openStream(trader);
+    }
+  }
+}
+
+/**
+ * Status of every open stream
+ */
+export function getCopyStreamStatus(): CopyStreamStatus[] {
+  return [...streams.values()].map(s => ({ ...s.status }));
+}
@@ -0,0 +1,305 @@
+/**
+ * Shared Dome Order Stream
+ *
+ * One Dome WebSocket for the whole Next.js server process. Every consumer
+ * (wallet-tracking SSE clients, copytrading streams, the whale alert monitor)
+ * subscribes with a filter of wallets, condition IDs and/or market slugs; the
+ * upstream keeps one subscription per filter kind covering the union of all
+ * consumers, and each order is fanned out to the consumers whose filter it
+ * matches.
+ *
+ * When a union changes, the new subscription is sent first and the old one
+ * is dropped once Dome acknowledges it, so no orders are missed in between.
+ * Orders delivered twice (during a switch, or by two subscriptions) are
+ * de-duplicated by order hash.
+ */
+
+import WebSocket from "ws";
+import type { OrderEvent } from "@/types/wallet-tracking";
+
+export type OrderStreamStatusEvent = "connected" | "subscribed" | "disconnected" | "error";
+
+/**
+ * Orders a consumer follows. An order matches when any of the fields does.
+ */
+export interface OrderFilter {
+  /** Wallet addresses */
+  users?: string[];
+  conditionIds?: string[];
+  marketSlugs?: string[];
+}
+
+export interface OrderStreamListener {
+  onOrder: (order: OrderEvent) => void;
+  onStatus?: (event: OrderStreamStatusEvent, message: string) => void;
+}
+
+// Dome `filters` keys, subscribed in this order
+type FilterKind = "users" | "condition_ids" | "market_slugs";
+const FILTER_KINDS: FilterKind[] = ["users", "condition_ids", "market_slugs"];
+
+type SubscriberFilter = Record<FilterKind, Set<string>>;
+
+interface Subscriber {
+  filter: SubscriberFilter;
+  listener: OrderStreamListener;
+}
+
+interface SubscriptionSlot {
+  id: string | null;
+  values: Set<string>;
+}
+
+const RECONNECT_BASE_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+// Order hashes remembered for de-duplication
+const MAX_RECENT_ORDERS = 1000;
+
+const subscribers = new Map<number, Subscriber>();
+let nextSubscriberId = 1;
+
+let ws: WebSocket | null = null;
+let isConnected = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+// Active subscription per filter kind
+let slots = emptySlots();
+// Subscription sent but not acknowledged yet (one at a time, so acks can be matched)
+let pending: { kind: FilterKind; values: Set<string> } | null = null;
+const recentOrders = new Set<string>();
+
+function emptySlots(): Record<FilterKind, SubscriptionSlot> {
+  return {
+    users: { id: null, values: new Set() },
+    condition_ids: { id: null, values: new Set() },
+    market_slugs: { id: null, values: new Set() },
+  };
+}
+
+function toSubscriberFilter(filter: OrderFilter): SubscriberFilter {
+  const normalize = (values?: string[]) => new Set((values || []).map(v => v.trim().toLowerCase()).filter(Boolean));
+  return {
+    users: normalize(filter.users),
+    condition_ids: normalize(filter.conditionIds),
+    market_slugs: normalize(filter.marketSlugs),
+  };
+}
+
+function union(kind: FilterKind): Set<string> {
+  const values = new Set<string>();
+  for (const subscriber of subscribers.values()) {
+    subscriber.filter[kind].forEach(v => values.add(v));
+  }
+  return values;
+}
+
+const sameValues = (a: Set<string>, b: Set<string>) => a.size === b.size && [...a].every(v => b.has(v));
+
+function matches(filter: SubscriberFilter, order: OrderEvent): boolean {
+  return filter.users.has(order.user?.toLowerCase())
+    || filter.condition_ids.has(order.condition_id?.toLowerCase())
+    || filter.market_slugs.has(order.market_slug?.toLowerCase());
+}
+
+function subscriptionSummary(): string {
+  const parts = [`${slots.users.values.size} wallet(s)`];
+  const markets = slots.condition_ids.values.size + slots.market_slugs.values.size;
+  if (markets > 0) parts.push(`${markets} market(s)`);
+  return `Subscribed to ${parts.join(" and ")}`;
+}
+
+function broadcast(event: OrderStreamStatusEvent, message: string): void {
+  for (const subscriber of subscribers.values()) {
+    subscriber.listener.onStatus?.(event, message);
+  }
+}
+
+function sendSubscribe(kind: FilterKind, values: Set<string>): void {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+  pending = { kind, values };
+  ws.send(JSON.stringify({
+    action: "subscribe",
+    platform: "polymarket",
+    version: 1,
+    type: "orders",
+    filters: {
+      [kind]: [...values],
+    },
+  }));
+}
+
+function sendUnsubscribe(subscriptionId: string): void {
+  if (ws?.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ action: "unsubscribe", version: 1, subscription_id: subscriptionId }));
+  }
+}
+
+function handleMessage(data: { toString(): string }): void {
+  try {
+    const message = JSON.parse(data.toString());
+
+    if (message.type === "ack") {
+      if (!pending) return;
+
+      const previousId = slots[pending.kind].id;
+      slots[pending.kind] = { id: message.subscription_id, values: pending.values };
+      pending = null;
+      reconnectAttempts = 0;
+
+      // Drop the subscription this one replaces
+      if (previousId && previousId !== message.subscription_id) {
+        sendUnsubscribe(previousId);
+      }
+
+      // Consumers may have changed while the subscription was in flight
+      if (!syncSubscription()) {
+        broadcast("subscribed", subscriptionSummary());
+      }
+    } else if (message.type === "event" && message.data) {
+      const order = message.data as OrderEvent;
+      const key = `${order.order_hash}:${order.user}`;
+      if (recentOrders.has(key)) return;
+
+      recentOrders.add(key);
+      if (recentOrders.size > MAX_RECENT_ORDERS) {
+        recentOrders.delete(recentOrders.values().next().value as string);
+      }
+
+      for (const subscriber of subscribers.values()) {
+        if (matches(subscriber.filter, order)) {
+          subscriber.listener.onOrder(order);
+        }
+      }
+    }
+  } catch (e) {
+    console.error("[Dome WS] Failed to parse message:", e);
+  }
+}
+
+function connect(): void {
+  const apiKey = process.env.DOME_API_KEY;
+  if (!apiKey) {
+    broadcast("error", "DOME_API_KEY not configured");
+    return;
+  }
+
+  console.log("[Dome WS] Connecting...");
+  const socket = new WebSocket(`wss://ws.domeapi.io/${apiKey}`);
+  ws = socket;
+
+  socket.on("open", () => {
+    isConnected = true;
+    broadcast("connected", "WebSocket connected to Dome");
+    syncSubscription();
+  });
+
+  socket.on("message", handleMessage);
+
+  socket.on("close", (code, reason) => {
+    if (ws !== socket) return;
+
+    console.log("[Dome WS] Connection closed. Code:", code, "Reason:", reason?.toString() || "none");
+    ws = null;
+    isConnected = false;
+    slots = emptySlots();
+    pending = null;
+    broadcast("disconnected", reason?.toString() || "WebSocket disconnected");
+    scheduleReconnect();
+  });
+
+  socket.on("error", (error) => {
+    console.error("[Dome WS] Error:", error.message);
+    broadcast("error", error.message || "WebSocket error");
+  });
+}
+
+function scheduleReconnect(): void {
+  if (reconnectTimer || subscribers.size === 0) return;
+
+  const delayMs = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    if (subscribers.size > 0 && !ws) connect();
+  }, delayMs);
+}
+
+/**
+ * Bring the upstream connection and subscriptions in line with the
+ * consumers. Returns true while they are not in line yet.
+ */
+function syncSubscription(): boolean {
+  if (subscribers.size === 0) {
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    const socket = ws;
+    ws = null;
+    isConnected = false;
+    slots = emptySlots();
+    pending = null;
+    socket?.close();
+    return false;
+  }
+
+  if (!ws) {
+    if (!reconnectTimer) connect();
+    return true;
+  }
+
+  // Wait for the connection, or for the subscription in flight to be acknowledged
+  if (pending || !isConnected) return true;
+
+  for (const kind of FILTER_KINDS) {
+    const values = union(kind);
+    const slot = slots[kind];
+    if (sameValues(values, slot.values)) continue;
+
+    if (values.size === 0) {
+      if (slot.id) sendUnsubscribe(slot.id);
+      slots[kind] = { id: null, values };
+      continue;
+    }
+
+    sendSubscribe(kind, values);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Follow the orders matching a filter. Returns the function that stops
+ * following them.
+ */
+export function subscribeOrders(filter: OrderFilter, listener: OrderStreamListener): () => void {
+  const id = nextSubscriberId++;
+  subscribers.set(id, { filter: toSubscriberFilter(filter), listener });
+
+  // Already covered by the active subscriptions
+  if (!syncSubscription()) {
+    queueMicrotask(() => {
+      listener.onStatus?.("connected", "WebSocket connected to Dome");
+      listener.onStatus?.("subscribed", subscriptionSummary());
+    });
+  }
+
+  return () => {
+    if (subscribers.delete(id)) {
+      syncSubscription();
+    }
+  };
+}
+
+/**
+ * State of the shared stream
+ */
+export function getOrderStreamStatus(): { connected: boolean; wallets: number; markets: number; subscribers: number } {
+  return {
+    connected: isConnected,
+    wallets: slots.users.values.size,
+    markets: slots.condition_ids.values.size + slots.market_slugs.values.size,
+    subscribers: subscribers.size,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Wallet Tracking History
+ *
+ * Records every order delivered to /api/wallet-tracking clients through the
+ * wallet-tracking-history edge function, in batches, so a wallet's activity
+ * survives a reload and can be replayed or exported. Recording is skipped
+ * when Supabase is not configured; live tracking works either way.
+ */
+
+import type { OrderEvent, WalletHistoryRequest, WalletHistoryResponse } from "@/types/wallet-tracking";
+
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH = 100;
+// Orders kept for retry while the edge function is unreachable
+const MAX_BUFFERED_ORDERS = 2000;
+// Order hashes remembered so one order tracked by several clients is sent once
+const MAX_RECENT_ORDERS = 1000;
+
+let buffer: OrderEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let isFlushing = false;
+let warnedUnconfigured = false;
+const recentOrders = new Set<string>();
+
+/**
+ * Call the wallet-tracking-history edge function
+ */
+export async function callWalletHistory(body: WalletHistoryRequest): Promise<WalletHistoryResponse> {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Server configuration error: Missing Supabase credentials");
+  }
+
+  const edgeFunctionUrl = process.env.SUPABASE_EDGE_FUNCTION_WALLET_HISTORY
+    || `${supabaseUrl}/functions/v1/wallet-tracking-history`;
+
+  const response = await fetch(edgeFunctionUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseAnonKey}`,
+      apikey: supabaseAnonKey,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const responseText = await response.text();
+  try {
+    return JSON.parse(responseText) as WalletHistoryResponse;
+  } catch {
+    throw new Error(`wallet-tracking-history returned a non-JSON response (${response.status}): ${responseText.substring(0, 200)}`);
+  }
+}
+
+async function flush(): Promise<void> {
+  flushTimer = null;
+  if (isFlushing || buffer.length === 0) return;
+
+  isFlushing = true;
+  const batch = buffer.slice(0, MAX_BATCH);
+
+  try {
+    const data = await callWalletHistory({ action: "record", orders: batch });
+    if (!data.success) {
+      throw new Error(data.error || "Failed to record orders");
+    }
+    buffer = buffer.slice(batch.length);
+  } catch (error) {
+    console.error("[Wallet History] Failed to record orders:", error instanceof Error ? error.message : error);
+  } finally {
+    isFlushing = false;
+    if (buffer.length > 0) scheduleFlush();
+  }
+}
+
+function scheduleFlush(): void {
+  if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS);
+  }
+}
+
+/**
+ * Queue an order of a tracked wallet for recording
+ */
+export function recordWalletOrder(order: OrderEvent): void {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
+    if (!warnedUnconfigured) {
+      console.log("[Wallet History] Supabase not configured, orders are not recorded");
+      warnedUnconfigured = true;
+    }
+    return;
+  }
+
+  const key = `${order.order_hash}:${order.user}`;
+  if (recentOrders.has(key)) return;
+  recentOrders.add(key);
+  if (recentOrders.size > MAX_RECENT_ORDERS) {
+    recentOrders.delete(recentOrders.values().next().value as string);
+  }
+
+  buffer.push(order);
+  if (buffer.length > MAX_BUFFERED_ORDERS) {
+    buffer = buffer.slice(-MAX_BUFFERED_ORDERS);
+  }
+
+  if (buffer.length >= MAX_BATCH) {
+    void flush();
+  } else {
+    scheduleFlush();
+  }
+}
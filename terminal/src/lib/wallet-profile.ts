@@ -0,0 +1,253 @@
+/**
+ * Wallet Profile Analytics
+ *
+ * Builds the trading history of any Polymarket wallet from the public Data
+ * API (trades, open and closed positions) and Gamma (event categories): win
+ * rate, realised PnL, average entry vs resolution price, favoured categories
+ * and typical trade size. Used to judge whether a wallet is worth tracking
+ * or copying.
+ */
+
+import type {
+  WalletCategoryShare,
+  WalletClosedPosition,
+  WalletProfile,
+} from "@/types/wallet-tracking";
+
+const DATA_API_URL = "https://data-api.polymarket.com"; // Public API (no auth required)
+const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+const REQUEST_TIMEOUT_MS = 10000;
+
+// History analysed per wallet
+const TRADES_PAGE_SIZE = 500;
+const MAX_TRADES = 1000;
+const CLOSED_PAGE_SIZE = 50;
+const MAX_CLOSED_POSITIONS = 500;
+// Events looked up on Gamma for categories, by traded volume
+const MAX_CATEGORY_EVENTS = 20;
+const MAX_TOP_POSITIONS = 5;
+// Profiles are reused for this long
+const PROFILE_CACHE_MS = 60000;
+
+// Gamma tags that say nothing about the market's subject
+const GENERIC_TAGS = new Set(["all", "featured", "recurring", "hide from new", "new", "trending"]);
+
+interface DataApiTrade {
+  side: "BUY" | "SELL";
+  size: number;
+  price: number;
+  /** Unix timestamp (seconds) */
+  timestamp: number;
+  eventSlug?: string;
+  name?: string;
+  pseudonym?: string;
+}
+
+interface DataApiPosition {
+  size: number;
+  currentValue?: number;
+  cashPnl?: number;
+  realizedPnl?: number;
+}
+
+interface DataApiClosedPosition {
+  avgPrice: number;
+  /** Shares bought */
+  totalBought: number;
+  realizedPnl: number;
+  curPrice: number;
+  title?: string;
+  slug?: string;
+  outcome?: string;
+  /** Unix timestamp (seconds) */
+  timestamp?: number;
+}
+
+const profileCache = new Map<string, { profile: WalletProfile; fetchedAt: number }>();
+const categoryCache = new Map<string, string>();
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Data API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Fetch pages until a short page or the cap
+ */
+async function fetchPaged<T>(buildUrl: (offset: number) => string, pageSize: number, max: number): Promise<T[]> {
+  const rows: T[] = [];
+  while (rows.length < max) {
+    const page = await fetchJson<T[]>(buildUrl(rows.length));
+    rows.push(...(page || []));
+    if (!page || page.length < pageSize) break;
+  }
+  return rows.slice(0, max);
+}
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Category of an event: its first subject tag on Gamma
+ */
+async function lookupCategory(eventSlug: string): Promise<string> {
+  const cached = categoryCache.get(eventSlug);
+  if (cached) return cached;
+
+  let category = "Other";
+  try {
+    const events = await fetchJson<Array<{ tags?: Array<{ label?: string }> }>>(
+      `${GAMMA_API_URL}/events?slug=${encodeURIComponent(eventSlug)}`
+    );
+    const tag = events[0]?.tags?.find(t => t.label && !GENERIC_TAGS.has(t.label.toLowerCase()));
+    if (tag?.label) category = tag.label;
+  } catch (error) {
+    console.error("[Wallet Profile] Category lookup failed:", error instanceof Error ? error.message : error);
+  }
+
+  categoryCache.set(eventSlug, category);
+  return category;
+}
+
+async function buildCategories(trades: DataApiTrade[], totalVolumeUsd: number): Promise<WalletCategoryShare[]> {
+  const byEvent = new Map<string, { volumeUsd: number; trades: number }>();
+  for (const trade of trades) {
+    const slug = trade.eventSlug || "";
+    const entry = byEvent.get(slug) || { volumeUsd: 0, trades: 0 };
+    entry.volumeUsd += trade.size * trade.price;
+    entry.trades++;
+    byEvent.set(slug, entry);
+  }
+
+  const events = [...byEvent.entries()].sort((a, b) => b[1].volumeUsd - a[1].volumeUsd);
+  const looked = events.slice(0, MAX_CATEGORY_EVENTS);
+  const labels = await Promise.all(looked.map(([slug]) => slug ? lookupCategory(slug) : Promise.resolve("Other")));
+
+  const byCategory = new Map<string, { volumeUsd: number; trades: number }>();
+  const add = (category: string, volumeUsd: number, count: number) => {
+    const entry = byCategory.get(category) || { volumeUsd: 0, trades: 0 };
+    entry.volumeUsd += volumeUsd;
+    entry.trades += count;
+    byCategory.set(category, entry);
+  };
+  looked.forEach(([, stats], i) => add(labels[i], stats.volumeUsd, stats.trades));
+  events.slice(MAX_CATEGORY_EVENTS).forEach(([, stats]) => add("Other", stats.volumeUsd, stats.trades));
+
+  return [...byCategory.entries()]
+    .map(([category, stats]) => ({
+      category,
+      volumeUsd: round(stats.volumeUsd),
+      share: totalVolumeUsd > 0 ? round(stats.volumeUsd / totalVolumeUsd, 4) : 0,
+      trades: stats.trades,
+    }))
+    .sort((a, b) => b.volumeUsd - a.volumeUsd);
+}
+
+const isResolvedPrice = (price: number) => price <= 0.001 || price >= 0.999;
+
+/**
+ * Build the profile of a wallet. Profiles are cached for a minute.
+ */
+export async function getWalletProfile(address: string): Promise<WalletProfile> {
+  const wallet = address.toLowerCase();
+  const cached = profileCache.get(wallet);
+  if (cached && Date.now() - cached.fetchedAt < PROFILE_CACHE_MS) {
+    return cached.profile;
+  }
+
+  const user = encodeURIComponent(wallet);
+  const [trades, openPositions, closedPositions] = await Promise.all([
+    fetchPaged<DataApiTrade>(
+      offset => `${DATA_API_URL}/trades?user=${user}&takerOnly=false&limit=${TRADES_PAGE_SIZE}&offset=${offset}`,
+      TRADES_PAGE_SIZE,
+      MAX_TRADES
+    ),
+    fetchJson<DataApiPosition[]>(`${DATA_API_URL}/positions?user=${user}&sizeThreshold=0&limit=500`),
+    fetchPaged<DataApiClosedPosition>(
+      offset => `${DATA_API_URL}/closed-positions?user=${user}&limit=${CLOSED_PAGE_SIZE}&offset=${offset}`,
+      CLOSED_PAGE_SIZE,
+      MAX_CLOSED_POSITIONS
+    ),
+  ]);
+
+  // Trades
+  const tradeSizes = trades.map(t => t.size * t.price);
+  const totalVolumeUsd = tradeSizes.reduce((sum, v) => sum + v, 0);
+  const buyVolumeUsd = trades.filter(t => t.side === "BUY").reduce((sum, t) => sum + t.size * t.price, 0);
+  const timestamps = trades.map(t => t.timestamp).filter(Boolean);
+
+  // Closed positions
+  const closed: WalletClosedPosition[] = closedPositions.map(p => ({
+    title: p.title || p.slug || "Unknown market",
+    slug: p.slug,
+    outcome: p.outcome || "",
+    avgPrice: p.avgPrice,
+    resolutionPrice: p.curPrice,
+    resolved: isResolvedPrice(p.curPrice),
+    costUsd: round(p.totalBought * p.avgPrice),
+    realizedPnlUsd: round(p.realizedPnl),
+    closedAt: p.timestamp ? new Date(p.timestamp * 1000).toISOString() : undefined,
+  }));
+  const wins = closed.filter(p => p.realizedPnlUsd > 0).length;
+  const losses = closed.filter(p => p.realizedPnlUsd < 0).length;
+  const closedCostUsd = closed.reduce((sum, p) => sum + p.costUsd, 0);
+  const closedPnlUsd = closed.reduce((sum, p) => sum + p.realizedPnlUsd, 0);
+
+  const resolved = closed.filter(p => p.resolved && p.costUsd > 0);
+  const resolvedCostUsd = resolved.reduce((sum, p) => sum + p.costUsd, 0);
+  const weightedAverage = (value: (p: WalletClosedPosition) => number) =>
+    resolvedCostUsd > 0 ? round(resolved.reduce((sum, p) => sum + value(p) * p.costUsd, 0) / resolvedCostUsd, 4) : null;
+
+  // Open positions
+  const open = (openPositions || []).filter(p => p.size > 0);
+  const openRealizedUsd = open.reduce((sum, p) => sum + (p.realizedPnl || 0), 0);
+
+  const firstTrade = trades.find(t => t.name || t.pseudonym);
+  const profile: WalletProfile = {
+    address: wallet,
+    name: firstTrade?.name || firstTrade?.pseudonym || undefined,
+    generatedAt: new Date().toISOString(),
+
+    tradesAnalyzed: trades.length,
+    firstTradeAt: timestamps.length ? new Date(Math.min(...timestamps) * 1000).toISOString() : undefined,
+    lastTradeAt: timestamps.length ? new Date(Math.max(...timestamps) * 1000).toISOString() : undefined,
+    buyShare: totalVolumeUsd > 0 ? round(buyVolumeUsd / totalVolumeUsd, 4) : 0,
+    totalVolumeUsd: round(totalVolumeUsd),
+
+    medianTradeUsd: round(median(tradeSizes)),
+    averageTradeUsd: trades.length ? round(totalVolumeUsd / trades.length) : 0,
+    largestTradeUsd: round(Math.max(0, ...tradeSizes)),
+
+    closedPositions: closed.length,
+    wins,
+    losses,
+    winRate: wins + losses > 0 ? round(wins / (wins + losses), 4) : null,
+    realizedPnlUsd: round(closedPnlUsd + openRealizedUsd),
+    roi: closedCostUsd > 0 ? round(closedPnlUsd / closedCostUsd, 4) : null,
+
+    avgEntryPrice: weightedAverage(p => p.avgPrice),
+    avgResolutionPrice: weightedAverage(p => p.resolutionPrice),
+    resolvedPositions: resolved.length,
+
+    openPositions: open.length,
+    openValueUsd: round(open.reduce((sum, p) => sum + (p.currentValue || 0), 0)),
+    unrealizedPnlUsd: round(open.reduce((sum, p) => sum + (p.cashPnl || 0), 0)),
+
+    categories: await buildCategories(trades, totalVolumeUsd),
+    topPositions: [...closed]
+      .sort((a, b) => Math.abs(b.realizedPnlUsd) - Math.abs(a.realizedPnlUsd))
+      .slice(0, MAX_TOP_POSITIONS),
+  };
+
+  profileCache.set(wallet, { profile, fetchedAt: Date.now() });
+  return profile;
+}
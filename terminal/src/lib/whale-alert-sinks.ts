@@ -0,0 +1,162 @@
+/**
+ * Whale Alert Sinks
+ *
+ * Delivers whale alerts outside the UI. Each sink type has a payload
+ * formatter and a sender; adding a destination means adding an entry to
+ * SINK_SENDERS (and its settings check to validateSink).
+ */
+
+import type { WhaleAlert, WhaleAlertSink, WhaleAlertSinkType } from "@/types/whale-alerts";
+
+const SINK_TIMEOUT_MS = 10000;
+
+// Discord embed colours
+const BUY_COLOR = 0x22c55e;
+const SELL_COLOR = 0xef4444;
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString("en-US")}`;
+const formatCents = (price: number) => `${(price * 100).toFixed(1)}¢`;
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Polymarket link for the alert's market
+ */
+export function alertMarketUrl(alert: WhaleAlert): string {
+  return `https://polymarket.com/market/${alert.marketSlug}`;
+}
+
+function walletName(alert: WhaleAlert): string {
+  return alert.walletLabel
+    ? `${alert.walletLabel} (${shortAddress(alert.wallet)})`
+    : shortAddress(alert.wallet);
+}
+
+/**
+ * One-line summary, e.g. "🐋 BUY $12,500 of Yes @ 55.0¢ — Will BTC hit $100k?"
+ */
+export function formatAlertSummary(alert: WhaleAlert): string {
+  const outcome = alert.outcome ? ` of ${alert.outcome}` : "";
+  return `🐋 ${alert.side} ${formatUsd(alert.notionalUsd)}${outcome} @ ${formatCents(alert.price)} — ${alert.title}`;
+}
+
+/**
+ * Plain-text alert for chat destinations
+ */
+export function formatAlertText(alert: WhaleAlert): string {
+  const lines = [
+    formatAlertSummary(alert),
+    `Wallet: ${walletName(alert)}${alert.reasons.includes("watchlist") ? " [watchlist]" : ""}`,
+    `Size: ${alert.shares.toFixed(2)} shares`,
+  ];
+  if (alert.currentPrice !== undefined) {
+    lines.push(`Now: ${formatCents(alert.currentPrice)}`);
+  }
+  lines.push(alertMarketUrl(alert));
+  return lines.join("\n");
+}
+
+/**
+ * Discord webhook payload (one embed per alert)
+ */
+export function toDiscordPayload(alert: WhaleAlert) {
+  const fields = [
+    { name: "Side", value: alert.side, inline: true },
+    { name: "Notional", value: formatUsd(alert.notionalUsd), inline: true },
+    { name: "Price", value: formatCents(alert.price), inline: true },
+    { name: "Outcome", value: alert.outcome || "—", inline: true },
+    { name: "Shares", value: alert.shares.toFixed(2), inline: true },
+    { name: "Current", value: alert.currentPrice !== undefined ? formatCents(alert.currentPrice) : "—", inline: true },
+    { name: "Wallet", value: walletName(alert), inline: false },
+  ];
+
+  return {
+    username: "PredictOS Whale Alerts",
+    embeds: [{
+      title: `🐋 ${alert.title}`.slice(0, 256),
+      url: alertMarketUrl(alert),
+      color: alert.side === "BUY" ? BUY_COLOR : SELL_COLOR,
+      fields,
+      footer: { text: alert.reasons.includes("watchlist") ? "Watchlist wallet" : "Large order" },
+      timestamp: alert.timestamp,
+    }],
+  };
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Telegram sendMessage payload (HTML parse mode)
+ */
+export function toTelegramPayload(alert: WhaleAlert, chatId: string) {
+  const [summary, ...rest] = formatAlertText(alert).split("\n");
+  const url = rest.pop() as string;
+
+  return {
+    chat_id: chatId,
+    text: [`<b>${escapeHtml(summary)}</b>`, ...rest.map(escapeHtml), `<a href="${url}">Open on Polymarket</a>`].join("\n"),
+    parse_mode: "HTML",
+    disable_web_page_preview: true,
+  };
+}
+
+/**
+ * Generic webhook payload
+ */
+export function toWebhookPayload(alert: WhaleAlert) {
+  return {
+    event: "whale_alert",
+    text: formatAlertText(alert),
+    alert,
+  };
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(SINK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`${response.status} ${response.statusText}${text ? `: ${text.substring(0, 200)}` : ""}`);
+  }
+}
+
+const SINK_SENDERS: Record<WhaleAlertSinkType, (sink: WhaleAlertSink, alert: WhaleAlert) => Promise<void>> = {
+  webhook: (sink, alert) => postJson(sink.url!, toWebhookPayload(alert)),
+  discord: (sink, alert) => postJson(sink.url!, toDiscordPayload(alert)),
+  telegram: (sink, alert) => postJson(
+    `https://api.telegram.org/bot${sink.botToken}/sendMessage`,
+    toTelegramPayload(alert, sink.chatId!)
+  ),
+};
+
+/**
+ * Check a sink's settings. Returns an error message, or null when valid.
+ */
+export function validateSink(sink: WhaleAlertSink): string | null {
+  if (!sink || !(sink.type in SINK_SENDERS)) {
+    return `Invalid sink type. Must be one of: ${Object.keys(SINK_SENDERS).join(", ")}`;
+  }
+
+  if (sink.type === "telegram") {
+    if (!sink.botToken || !sink.chatId) {
+      return "Telegram sinks need a bot token and a chat ID";
+    }
+    return null;
+  }
+
+  if (!sink.url || !/^https?:\/\//.test(sink.url)) {
+    return `${sink.type === "discord" ? "Discord" : "Webhook"} sinks need an http(s) URL`;
+  }
+  return null;
+}
+
+/**
+ * Deliver an alert to a sink. Throws when delivery fails.
+ */
+export async function sendToSink(sink: WhaleAlertSink, alert: WhaleAlert): Promise<void> {
+  await SINK_SENDERS[sink.type](sink, alert);
+}
@@ -0,0 +1,321 @@
+/**
+ * Whale Alert Monitor
+ *
+ * Watches the order flow of chosen markets and watchlist wallets on the
+ * shared Dome order stream (lib/dome-orders.ts), flags orders at or above a
+ * USD notional threshold and every order of a watchlist wallet, enriches
+ * them with the market title and the outcome's current midpoint, and hands
+ * the alerts to the UI (SSE listeners) and to the configured sinks.
+ *
+ * The monitor lives in the Next.js server process and keeps running while
+ * no page is open. Its settings are not persisted on the server; the Whale
+ * Tracking page keeps a copy and restarts the monitor after a restart.
+ */
+
+import { subscribeOrders } from "./dome-orders";
+import { sendToSink, validateSink } from "./whale-alert-sinks";
+import type { OrderEvent } from "@/types/wallet-tracking";
+import type {
+  WhaleAlert,
+  WhaleAlertReason,
+  WhaleAlertSettings,
+  WhaleAlertSink,
+  WhaleAlertStatus,
+} from "@/types/whale-alerts";
+
+export type WhaleAlertListener = (event: "alert" | "status", data: WhaleAlert | WhaleAlertStatus) => void;
+
+const GAMMA_API_URL = "https://gamma-api.polymarket.com";
+const CLOB_HOST = "https://clob.polymarket.com";
+const ENRICH_TIMEOUT_MS = 5000;
+// Midpoints are reused for this long
+const PRICE_CACHE_MS = 10000;
+
+const MAX_ALERTS = 200;
+const MAX_SINK_ERRORS = 20;
+const MAX_MARKETS = 100;
+const MAX_WATCHLIST = 100;
+
+const CONDITION_ID_PATTERN = /^0x[a-f0-9]{64}$/;
+const WALLET_PATTERN = /^0x[a-f0-9]{40}$/;
+
+let settings: WhaleAlertSettings | null = null;
+let unsubscribe: (() => void) | null = null;
+let watchlist = new Map<string, string>();
+let status: WhaleAlertStatus = emptyStatus();
+let alerts: WhaleAlert[] = [];
+const listeners = new Set<WhaleAlertListener>();
+
+const titleCache = new Map<string, string>();
+const priceCache = new Map<string, { price: number; fetchedAt: number }>();
+
+function emptyStatus(): WhaleAlertStatus {
+  return { running: false, connected: false, ordersScanned: 0, alertsRaised: 0, sinkErrors: [] };
+}
+
+function notify(event: "alert" | "status", data: WhaleAlert | WhaleAlertStatus): void {
+  for (const listener of listeners) {
+    try {
+      listener(event, data);
+    } catch (error) {
+      console.error("[Whale Alerts] Listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Market slug from a slug or a Polymarket URL
+ */
+function normalizeMarket(market: string): string {
+  const trimmed = market.trim().toLowerCase();
+  if (trimmed.startsWith("http")) {
+    return trimmed.split("?")[0].replace(/\/+$/, "").split("/").pop() || "";
+  }
+  return trimmed;
+}
+
+/**
+ * Check whale alert settings. Returns an error message, or null when valid.
+ */
+export function validateWhaleAlertSettings(input: WhaleAlertSettings | undefined): string | null {
+  if (!input) {
+    return "Missing required parameter: 'settings'";
+  }
+  if (typeof input.minNotionalUsd !== "number" || !(input.minNotionalUsd > 0)) {
+    return "minNotionalUsd must be a positive number";
+  }
+  if (!Array.isArray(input.markets) || !Array.isArray(input.watchlist) || !Array.isArray(input.sinks)) {
+    return "markets, watchlist and sinks must be arrays";
+  }
+  if (input.markets.length === 0 && input.watchlist.length === 0) {
+    return "Add at least one market or watchlist wallet";
+  }
+  if (input.markets.length > MAX_MARKETS) {
+    return `At most ${MAX_MARKETS} markets can be watched`;
+  }
+  if (input.watchlist.length > MAX_WATCHLIST) {
+    return `At most ${MAX_WATCHLIST} watchlist wallets are supported`;
+  }
+  if (input.markets.some(m => typeof m !== "string" || !normalizeMarket(m))) {
+    return "Markets must be market slugs, Polymarket URLs or condition IDs";
+  }
+
+  const invalidWallet = input.watchlist.find(w => !WALLET_PATTERN.test(w?.address?.toLowerCase() || ""));
+  if (invalidWallet) {
+    return `Invalid wallet address format: ${invalidWallet.address}`;
+  }
+  if (input.side && input.side !== "BUY" && input.side !== "SELL") {
+    return "side must be BUY or SELL";
+  }
+
+  for (const sink of input.sinks) {
+    const error = validateSink(sink);
+    if (error) return error;
+  }
+  return null;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(ENRICH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  return response.json();
+}
+
+async function lookupTitle(marketSlug: string): Promise<string | undefined> {
+  const cached = titleCache.get(marketSlug);
+  if (cached) return cached;
+
+  try {
+    const markets = await fetchJson(`${GAMMA_API_URL}/markets?slug=${encodeURIComponent(marketSlug)}`) as Array<{ question?: string }>;
+    const title = markets[0]?.question;
+    if (title) titleCache.set(marketSlug, title);
+    return title;
+  } catch (error) {
+    console.error("[Whale Alerts] Title lookup failed:", error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+async function lookupMidpoint(tokenId: string): Promise<number | undefined> {
+  const cached = priceCache.get(tokenId);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_MS) return cached.price;
+
+  try {
+    const data = await fetchJson(`${CLOB_HOST}/midpoint?token_id=${encodeURIComponent(tokenId)}`) as { mid?: string };
+    const price = parseFloat(data.mid ?? "");
+    if (isNaN(price)) return undefined;
+    priceCache.set(tokenId, { price, fetchedAt: Date.now() });
+    return price;
+  } catch (error) {
+    console.error("[Whale Alerts] Price lookup failed:", error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+/**
+ * Why an order is flagged, if it is
+ */
+function flagOrder(order: OrderEvent, notionalUsd: number): WhaleAlertReason[] {
+  if (!settings || (settings.side && order.side !== settings.side)) return [];
+
+  const reasons: WhaleAlertReason[] = [];
+  if (notionalUsd >= settings.minNotionalUsd) reasons.push("notional");
+  if (watchlist.has(order.user?.toLowerCase())) reasons.push("watchlist");
+  return reasons;
+}
+
+function recordSinkError(sink: WhaleAlertSink, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(`[Whale Alerts] ${sink.type} sink failed:`, message);
+  status.sinkErrors = [
+    { sinkId: sink.id, error: message, timestamp: new Date().toISOString() },
+    ...status.sinkErrors,
+  ].slice(0, MAX_SINK_ERRORS);
+  notify("status", status);
+}
+
+async function handleOrder(order: OrderEvent): Promise<void> {
+  status.ordersScanned++;
+
+  const shares = order.shares_normalized ?? Number(order.shares);
+  const notionalUsd = order.price * shares;
+  const reasons = flagOrder(order, notionalUsd);
+  if (reasons.length === 0) return;
+
+  const [title, currentPrice] = await Promise.all([
+    order.title ? Promise.resolve(order.title) : lookupTitle(order.market_slug),
+    lookupMidpoint(order.token_id),
+  ]);
+
+  // Stopped or reconfigured while enriching
+  if (!settings) return;
+
+  const wallet = order.user.toLowerCase();
+  const timestampMs = order.timestamp < 1e12 ? order.timestamp * 1000 : order.timestamp;
+  const alert: WhaleAlert = {
+    id: order.order_hash,
+    reasons,
+    wallet,
+    walletLabel: watchlist.get(wallet),
+    side: order.side,
+    outcome: order.token_label,
+    title: title || order.market_slug,
+    marketSlug: order.market_slug,
+    conditionId: order.condition_id,
+    tokenId: order.token_id,
+    price: order.price,
+    shares,
+    notionalUsd,
+    currentPrice,
+    txHash: order.tx_hash,
+    orderHash: order.order_hash,
+    timestamp: new Date(timestampMs || Date.now()).toISOString(),
+  };
+
+  alerts = [alert, ...alerts].slice(0, MAX_ALERTS);
+  status.alertsRaised++;
+  notify("alert", alert);
+
+  for (const sink of settings.sinks.filter(s => s.enabled)) {
+    sendToSink(sink, alert).catch(error => recordSinkError(sink, error));
+  }
+}
+
+/**
+ * Start the monitor, or restart it with new settings.
+ * Settings must have passed validateWhaleAlertSettings.
+ */
+export function startWhaleAlerts(newSettings: WhaleAlertSettings): void {
+  unsubscribe?.();
+
+  settings = {
+    ...newSettings,
+    markets: [...new Set(newSettings.markets.map(normalizeMarket))],
+    watchlist: newSettings.watchlist.map(w => ({ label: w.label, address: w.address.toLowerCase() })),
+  };
+  watchlist = new Map(settings.watchlist.map(w => [w.address, w.label]));
+  status = { ...emptyStatus(), running: true, startedAt: new Date().toISOString() };
+
+  unsubscribe = subscribeOrders({
+    users: settings.watchlist.map(w => w.address),
+    conditionIds: settings.markets.filter(m => CONDITION_ID_PATTERN.test(m)),
+    marketSlugs: settings.markets.filter(m => !CONDITION_ID_PATTERN.test(m)),
+  }, {
+    onOrder: (order) => {
+      handleOrder(order).catch(error => {
+        status.lastError = error instanceof Error ? error.message : String(error);
+        console.error("[Whale Alerts] Failed to handle order:", error);
+      });
+    },
+    onStatus: (event, message) => {
+      if (event === "subscribed") {
+        status.connected = true;
+        status.lastError = undefined;
+      } else if (event === "disconnected") {
+        status.connected = false;
+      } else if (event === "error") {
+        status.lastError = message;
+      }
+      notify("status", status);
+    },
+  });
+
+  console.log(`[Whale Alerts] Watching ${settings.markets.length} market(s) and ${settings.watchlist.length} wallet(s)`);
+  notify("status", status);
+}
+
+/**
+ * Stop the monitor. Recent alerts are kept.
+ */
+export function stopWhaleAlerts(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  settings = null;
+  watchlist = new Map();
+  status = { ...status, running: false, connected: false };
+  notify("status", status);
+}
+
+/**
+ * Current settings, status and recent alerts (newest first)
+ */
+export function getWhaleAlertState(): { settings: WhaleAlertSettings | null; status: WhaleAlertStatus; alerts: WhaleAlert[] } {
+  return { settings, status: { ...status }, alerts: [...alerts] };
+}
+
+/**
+ * Receive alerts and status changes. Returns the function that stops them.
+ */
+export function subscribeWhaleAlerts(listener: WhaleAlertListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Send a sample alert to a sink
+ */
+export async function sendTestAlert(sink: WhaleAlertSink): Promise<void> {
+  await sendToSink(sink, {
+    id: "test",
+    reasons: ["notional"],
+    wallet: "0x0000000000000000000000000000000000000000",
+    walletLabel: "Test",
+    side: "BUY",
+    outcome: "Yes",
+    title: "PredictOS whale alert test",
+    marketSlug: "predictos-test",
+    conditionId: "",
+    tokenId: "",
+    price: 0.55,
+    shares: 20000,
+    notionalUsd: 11000,
+    currentPrice: 0.56,
+    txHash: "",
+    orderHash: "",
+    timestamp: new Date().toISOString(),
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Types for the Agent Battles API
+ */
+
+import type { BotLogEntry } from "./betting-bot";
+import type { Prediction, PredictionSyncResult } from "./calibration";
+
+/** Tools a battle contestant can use */
+export type BattleTool = "x_search" | "web_search";
+
+/** Battle lifecycle */
+export type BattleStatus = "running" | "completed" | "failed";
+
+/**
+ * One agent configuration competing in a battle
+ */
+export interface BattleContestant {
+  /** Short ID, unique within the battle (A, B, ...) */
+  id: string;
+  name: string;
+  model: string;
+  tools?: BattleTool[];
+  userCommand?: string;
+}
+
+/**
+ * Contestant of a battle to create
+ */
+export interface NewBattleContestant {
+  name?: string;
+  model: string;
+  tools?: BattleTool[];
+  userCommand?: string;
+}
+
+/**
+ * Battle to create
+ */
+export interface NewBattle {
+  name?: string;
+  contestants: NewBattleContestant[];
+  urls?: string[];
+  /** Simulated stake per recommended trade (default $10) */
+  stakeUsd?: number;
+}
+
+/**
+ * Battle
+ */
+export interface AgentBattle {
+  id: string;
+  name: string;
+  status: BattleStatus;
+  contestants: BattleContestant[];
+  urls: string[];
+  stakeUsd: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A contestant's score in a battle
+ */
+export interface ContestantScore {
+  contestant: string;
+  name: string;
+  model: string;
+  tools: string[];
+  userCommand?: string;
+  predictions: number;
+  resolved: number;
+  brierScore?: number;
+  logLoss?: number;
+  hitRate?: number;
+  trades: number;
+  pnlUsd: number;
+  rank?: number;
+}
+
+/**
+ * Battle with its scoreboard
+ */
+export interface BattleResult extends AgentBattle {
+  scores: ContestantScore[];
+  markets: number;
+  resolvedMarkets: number;
+  /** Winning contestant once every market has resolved */
+  winner?: string;
+}
+
+/**
+ * Standings of one agent configuration across battles
+ */
+export interface BattleStanding {
+  key: string;
+  model: string;
+  tools: string[];
+  userCommand?: string;
+  battles: number;
+  wins: number;
+  predictions: number;
+  resolved: number;
+  brierScore?: number;
+  hitRate?: number;
+  pnlUsd: number;
+}
+
+/**
+ * Agent battle actions
+ */
+export type AgentBattlesAction = "create" | "finish" | "list" | "get" | "delete" | "sync" | "standings";
+
+/**
+ * Request body for agent battles
+ */
+export interface AgentBattlesRequest {
+  action: AgentBattlesAction;
+  battleId?: string;
+  battle?: NewBattle;
+  /** Error that stopped the run (finish) */
+  error?: string;
+  limit?: number;
+  /** Sync unresolved predictions first (get, list, standings) */
+  sync?: boolean;
+}
+
+/**
+ * Response from agent battles
+ */
+export interface AgentBattlesResponse {
+  success: boolean;
+  battle?: AgentBattle | BattleResult;
+  battles?: BattleResult[];
+  predictions?: Prediction[];
+  standings?: BattleStanding[];
+  sync?: PredictionSyncResult;
+  logs: BotLogEntry[];
+  error?: string;
+}
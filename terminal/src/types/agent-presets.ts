@@ -0,0 +1,76 @@
+/**
+ * Types for the Agent Presets API
+ */
+
+import type { BotLogEntry } from "./betting-bot";
+import type { AgentTool, X402SellerConfig } from "./agentic";
+
+/**
+ * One agent of a team (the saved part of an AgentConfig)
+ */
+export interface PresetAgent {
+  /** Model; empty for x402 agents */
+  model: string;
+  tools?: AgentTool[];
+  userCommand?: string;
+  x402Seller?: X402SellerConfig;
+}
+
+/**
+ * Bookmaker aggregator settings
+ */
+export interface PresetAggregator {
+  model: string;
+}
+
+/**
+ * Saved agent team
+ */
+export interface AgentPreset {
+  id: string;
+  name: string;
+  description?: string;
+  agents: PresetAgent[];
+  aggregator?: PresetAggregator;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Portable preset JSON (export / import)
+ */
+export interface AgentPresetExport {
+  version: 1;
+  name: string;
+  description?: string;
+  agents: PresetAgent[];
+  aggregator?: PresetAggregator;
+}
+
+/**
+ * Agent preset actions
+ */
+export type AgentPresetsAction = "list" | "get" | "save" | "delete" | "import";
+
+/**
+ * Request body for agent presets
+ */
+export interface AgentPresetsRequest {
+  action: AgentPresetsAction;
+  /** Preset ID (get, delete; save to overwrite) */
+  presetId?: string;
+  /** Preset to save or import (save, import) */
+  preset?: AgentPresetExport;
+}
+
+/**
+ * Response from agent presets
+ */
+export interface AgentPresetsResponse {
+  success: boolean;
+  presets?: AgentPreset[];
+  preset?: AgentPreset;
+  export?: AgentPresetExport;
+  logs: BotLogEntry[];
+  error?: string;
+}
@@ -51,6 +51,24 @@ export interface EventAnalysisAgentRequest {
   tools?: ('x_search' | 'web_search')[];
   /** Optional user command to prioritize in the analysis */
   userCommand?: string;
+  /** Optional context recorded with the prediction for calibration tracking */
+  calibration?: PredictionCalibrationContext;
+}
+
+/**
+ * Context recorded with an agent or bookmaker prediction
+ */
+export interface PredictionCalibrationContext {
+  /** Analysis run shared by the team's agents and bookmaker */
+  analysisRequestId?: string;
+  /** Agent preset the team was loaded from */
+  presetId?: string;
+  /** The agent's full tool set, including polyfactual (agents only) */
+  tools?: string[];
+  /** Agent battle the analysis is part of (agents only) */
+  battleId?: string;
+  /** Battle contestant making the analysis (agents only) */
+  contestant?: string;
 }
 
 export interface MarketAnalysis {
@@ -127,6 +145,7 @@ export interface AnalysisAggregatorRequest {
   eventIdentifier: string;
   pmType: PmType;
   model: string;
+  calibration?: PredictionCalibrationContext;
 }
 
 export interface AnalysisAggregatorResponse {
@@ -261,3 +280,110 @@ export interface AggregatorConfig {
   error?: string;
 }
 
+
+/** Outcome of an autonomous order (mapper agent + put-order) */
+export interface AutonomousOrderResult {
+  orderId?: string;
+  side?: string;
+  size?: number;
+  price?: number;
+  costUsd?: number;
+  paperTrading?: boolean;
+  platform?: PmType;
+  errorMsg?: string;
+}
+
+// ============================================================================
+// Batch Autonomous Types
+// ============================================================================
+
+/** Batch allocation settings */
+export interface BatchAllocationConfig {
+  /** Shared budget across all orders (USD) */
+  budgetUsd: number;
+  /** Number of top-ranked markets to trade */
+  topN: number;
+  /** Cap per market (USD) */
+  maxPerMarketUsd: number;
+  /** Smallest order worth placing (USD) */
+  minOrderUsd: number;
+}
+
+/** A market analysed on its own in batch mode */
+export interface BatchMarketResult {
+  /** Market ticker (Kalshi) or condition ID (Polymarket) */
+  key: string;
+  eventIdentifier: string;
+  pmType: PmType;
+  title: string;
+  status: 'pending' | 'analyzing' | 'analyzed' | 'error';
+  analysis?: MarketAnalysis;
+  /** 1-based rank by |alphaOpportunity| among tradable markets */
+  rank?: number;
+  allocationUsd?: number;
+  orderStatus?: 'placing' | 'success' | 'error' | 'skipped';
+  order?: AutonomousOrderResult;
+  error?: string;
+}
+
+// ============================================================================
+// Agent Pipeline (server-side orchestration) Types
+// ============================================================================
+
+/** Request to run the whole pipeline on the server */
+export interface AgentPipelineRequest {
+  url: string;
+  /** Saved agent team to run; replaces agents and aggregator */
+  presetId?: string;
+  /** Required unless presetId is given */
+  agents?: AgentConfig[];
+  /** Required when there is more than one non-x402 agent */
+  aggregator?: AggregatorConfig;
+  mode: 'supervised' | 'autonomous';
+  /** Autonomous mode order settings */
+  autonomous?: {
+    budgetUsd: number;
+    /** Simulate the order (Polymarket only) */
+    paperTrading?: boolean;
+  };
+}
+
+/** Progress event types streamed over SSE */
+export type AgentPipelineEventType =
+  | 'run'
+  | 'events_loaded'
+  | 'agent_started'
+  | 'tool_result'
+  | 'analysis_done'
+  | 'agent_error'
+  | 'aggregation_started'
+  | 'aggregation_done'
+  | 'aggregation_error'
+  | 'order_placed'
+  | 'order_skipped'
+  | 'order_error'
+  | 'done'
+  | 'error'
+  | 'heartbeat';
+
+/** Final state of a pipeline run */
+export interface AgentPipelineResult {
+  runId: string;
+  eventIdentifier?: string;
+  pmType?: PmType;
+  agents: AgentConfig[];
+  aggregator?: AggregatorConfig;
+  orderStatus: 'idle' | 'success' | 'error' | 'skipped';
+  order?: AutonomousOrderResult;
+  /** Mapper agent order params (autonomous mode) */
+  orderParams?: Record<string, unknown>;
+}
+
+/** SSE message payload */
+export interface AgentPipelineEvent {
+  /** Sequence number within the run (also the SSE event id) */
+  id: number;
+  type: AgentPipelineEventType;
+  data?: Record<string, unknown>;
+  timestamp: string;
+}
@@ -2,6 +2,8 @@
  * Types for cross-market arbitrage detection
  */
 
+import type { BotLogEntry } from "./betting-bot";
+
 /** Source market platform */
 export type ArbitrageMarketSource = 'polymarket' | 'kalshi';
 
@@ -35,6 +37,8 @@ export interface ArbitrageOpportunity {
   hasArbitrage: boolean;
   /** Profit percentage if arb exists */
   profitPercent?: number;
+  /** Profit percentage per year until both legs resolve */
+  annualizedReturnPercent?: number;
   /** Recommended strategy */
   strategy?: {
     /** Which market to buy YES on */
@@ -45,8 +49,10 @@ export interface ArbitrageOpportunity {
     buyNoOn: ArbitrageMarketSource;
     /** Price to buy NO */
     buyNoPrice: number;
-    /** Total cost for $100 bet on each side */
+    /** Total cost for $100 bet on each side, fees included */
     totalCost: number;
+    /** Trading and settlement fees included in the total cost */
+    fees?: number;
     /** Guaranteed payout ($100) */
     guaranteedPayout: number;
     /** Net profit */
@@ -54,6 +60,90 @@ export interface ArbitrageOpportunity {
   };
 }
 
+/** Severity of an arbitrage risk */
+export type ArbitrageRiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * A risk that the two legs do not pay out $1 together
+ */
+export interface ArbitrageRiskFlag {
+  type: 'resolution_criteria' | 'resolution_date' | 'settlement';
+  level: ArbitrageRiskLevel;
+  message: string;
+}
+
+/**
+ * Fee- and settlement-aware arbitrage calculation. Prices 0-100, amounts in USD.
+ */
+export interface ArbitrageCalculation {
+  buyYesOn: ArbitrageMarketSource;
+  yesPrice: number;
+  buyNoOn: ArbitrageMarketSource;
+  noPrice: number;
+  size: number;
+  yesCost: number;
+  noCost: number;
+  kalshiFees: number;
+  polymarketFees: number;
+  settlementCost: number;
+  totalCost: number;
+  guaranteedPayout: number;
+  netProfit: number;
+  /** Net profit over total cost (%) */
+  returnPercent: number;
+  /** When the later leg resolves, freeing the capital (ISO) */
+  resolutionDate?: string;
+  daysToResolution?: number;
+  annualizedReturnPercent?: number;
+  /** Risk that the legs resolve differently */
+  mismatchRisk: ArbitrageRiskLevel;
+  riskFlags: ArbitrageRiskFlag[];
+}
+
+/**
+ * One leg of an arbitrage: the side bought on a platform
+ */
+export interface DepthLeg {
+  source: ArbitrageMarketSource;
+  side: 'yes' | 'no';
+  /** CLOB token ID of the side (Polymarket) or market ticker (Kalshi) */
+  marketId: string;
+}
+
+/**
+ * Cumulative cost and profit of buying `size` contracts of both legs. USD.
+ */
+export interface DepthPoint {
+  size: number;
+  yesCost: number;
+  noCost: number;
+  fees: number;
+  netProfit: number;
+  /** Average cost of a YES + NO contract pair, fees included (0-100) */
+  averagePairCost: number;
+}
+
+/**
+ * Executable size of an arbitrage against both order books
+ */
+export interface ArbitrageDepth {
+  yesLeg: DepthLeg;
+  noLeg: DepthLeg;
+  /** Best asks (0-100) */
+  yesAsk?: number;
+  noAsk?: number;
+  polymarketFeeRateBps: number;
+  /** Contracts that can be bought while each YES + NO pair costs under $1 after fees */
+  maxSize: number;
+  /** Net profit at maxSize (USD) */
+  maxNetProfit: number;
+  /** Size at which the net profit falls back to zero, unless the books run out first */
+  breakEvenSize?: number;
+  bookExhausted: boolean;
+  /** Size vs profit, one point per filled level */
+  curve: DepthPoint[];
+}
+
 /** AI analysis result for arbitrage */
 export interface ArbitrageAnalysis {
   /** Whether the markets represent the same underlying event */
@@ -66,8 +156,14 @@ export interface ArbitrageAnalysis {
   polymarketData?: ArbitrageMarketData;
   /** Kalshi data (if found) */
   kalshiData?: ArbitrageMarketData;
-  /** Arbitrage opportunity analysis */
+  /** Arbitrage opportunity analysis, recomputed after fees when the legs are known */
   arbitrage: ArbitrageOpportunity;
+  /** The agent's own arbitrage numbers, when they were recomputed */
+  modelArbitrage?: ArbitrageOpportunity;
+  /** Fee- and settlement-aware calculation of the arbitrage */
+  calculation?: ArbitrageCalculation;
+  /** Executable size of the arbitrage against both order books */
+  depth?: ArbitrageDepth;
   /** Overall summary of findings */
   summary: string;
   /** Key risks or caveats */
@@ -82,12 +178,16 @@ export interface ArbitrageRequest {
   url: string;
   /** AI model to use */
   model: string;
+  /** Cost of converting USD to USDC for the Polymarket leg (bps, default 0) */
+  settlementCostBps?: number;
 }
 
 /** Response from arbitrage detection edge function */
 export interface ArbitrageResponse {
   success: boolean;
   data?: ArbitrageAnalysis;
+  /** Match index entry of the compared events, when there is one */
+  match?: MarketMatch;
   error?: string;
   metadata: {
     requestId: string;
@@ -103,3 +203,303 @@ export interface ArbitrageResponse {
 
 
 
+
+// ============================================================================
+// Arbitrage Scanner
+// ============================================================================
+
+/**
+ * An open binary market listed by the scanner. Prices are normalized to 0-100.
+ */
+export interface ScanMarket {
+  source: ArbitrageMarketSource;
+  /** Event slug (Polymarket) or event ticker (Kalshi) */
+  eventId: string;
+  eventTitle: string;
+  /** Condition ID (Polymarket) or market ticker (Kalshi) */
+  marketId: string;
+  title: string;
+  /** Price to buy YES */
+  yesAsk: number;
+  /** Price to buy NO */
+  noAsk: number;
+  volume?: number;
+  closeTime?: string;
+  url: string;
+}
+
+/**
+ * A matched Polymarket/Kalshi pair with the arbitrage math at the listed prices
+ */
+export interface ScannedPair {
+  polymarket: ScanMarket;
+  kalshi: ScanMarket;
+  /** Title similarity (0-1), 1 for confirmed matches */
+  matchScore: number;
+  /** Stored match of the pair, when it has been reviewed */
+  matchId?: string;
+  matchStatus?: MarketMatchStatus;
+  opportunity: ArbitrageOpportunity;
+}
+
+/**
+ * A pair tracked by the scanner across refreshes
+ */
+export interface TrackedArbitragePair extends ScannedPair {
+  /** `${polymarket.marketId}:${kalshi.marketId}` */
+  id: string;
+  /** First refresh the pair was matched in */
+  firstSeenAt: string;
+  /** First refresh of the current run of refreshes above the threshold */
+  opportunitySince?: string;
+  updatedAt: string;
+}
+
+/**
+ * Arbitrage scanner settings
+ */
+export interface ArbitrageScannerSettings {
+  /** Net profit per $100 payout an opportunity must reach to be pushed */
+  minNetProfit: number;
+  /** Seconds between refreshes */
+  intervalSeconds: number;
+  /** Events listed per platform, by recent volume */
+  maxEvents: number;
+  /** Minimum title similarity for a pair (0-1) */
+  minMatchScore: number;
+}
+
+/**
+ * State of the arbitrage scanner on the terminal server
+ */
+export interface ArbitrageScannerStatus {
+  running: boolean;
+  scanning: boolean;
+  scans: number;
+  pairsMatched: number;
+  opportunities: number;
+  marketCounts?: { polymarket: number; kalshi: number };
+  startedAt?: string;
+  lastScanAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Arbitrage scanner actions
+ */
+export type ArbitrageScannerAction = "get" | "start" | "stop";
+
+/**
+ * Request body for the arbitrage scanner API
+ */
+export interface ArbitrageScannerRequest {
+  action: ArbitrageScannerAction;
+  /** Settings to start the scanner with (start) */
+  settings?: ArbitrageScannerSettings;
+}
+
+/**
+ * Response from the arbitrage scanner API
+ */
+export interface ArbitrageScannerResponse {
+  success: boolean;
+  settings?: ArbitrageScannerSettings;
+  status?: ArbitrageScannerStatus;
+  /** Current opportunities above the threshold, most profitable first */
+  opportunities?: TrackedArbitragePair[];
+  error?: string;
+}
+
+/**
+ * Arbitrage scanner SSE events
+ */
+export type ArbitrageScannerEventType = "opportunities" | "status" | "heartbeat";
+
+/**
+ * Arbitrage scanner SSE message payload
+ */
+export interface ArbitrageScannerMessage {
+  type: ArbitrageScannerEventType;
+  data?: TrackedArbitragePair[] | ArbitrageScannerStatus | { status: string };
+  timestamp: string;
+}
+
+// ============================================================================
+// Market Matches
+// ============================================================================
+
+/**
+ * Review state of a market match
+ */
+export type MarketMatchStatus = 'suggested' | 'confirmed' | 'rejected';
+
+/**
+ * A stored Polymarket <-> Kalshi match
+ */
+export interface MarketMatch {
+  id: string;
+  /** Condition ID, or the event slug for event-level matches */
+  polymarketId: string;
+  polymarketSlug?: string;
+  polymarketTitle: string;
+  /** Market ticker, or the event ticker for event-level matches */
+  kalshiTicker: string;
+  kalshiEventTicker?: string;
+  kalshiTitle: string;
+  status: MarketMatchStatus;
+  /** Confidence that both ask the same question (0-100) */
+  confidence?: number;
+  /** Who proposed the match */
+  matchedBy: 'scanner' | 'llm' | 'human';
+  /** Who confirmed or rejected the match */
+  reviewedBy?: 'llm' | 'human';
+  reviewedAt?: string;
+  /** Differences in resolution criteria, sources or deadlines */
+  resolutionNotes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields of a new match
+ */
+export interface MarketMatchInput {
+  polymarketId: string;
+  polymarketSlug?: string;
+  polymarketTitle: string;
+  kalshiTicker: string;
+  kalshiEventTicker?: string;
+  kalshiTitle: string;
+  confidence?: number;
+  resolutionNotes?: string;
+}
+
+/**
+ * Editable fields of a match
+ */
+export interface MarketMatchUpdate {
+  polymarketTitle?: string;
+  kalshiTitle?: string;
+  confidence?: number;
+  resolutionNotes?: string;
+}
+
+/**
+ * Market match actions
+ */
+export type ArbitrageMatchesAction = "list" | "create" | "confirm" | "reject" | "update" | "delete";
+
+/**
+ * Request body for the market matches API
+ */
+export interface ArbitrageMatchesRequest {
+  action: ArbitrageMatchesAction;
+  /** Filters (list) */
+  statuses?: MarketMatchStatus[];
+  polymarketId?: string;
+  kalshiTicker?: string;
+  search?: string;
+  limit?: number;
+  /** Match to act on (confirm, reject, update, delete) */
+  matchId?: string;
+  /** Pair to save (create) */
+  match?: MarketMatchInput;
+  /** Review of the new pair (create, default "confirmed") */
+  status?: "confirmed" | "rejected";
+  /** Fields to change (update) */
+  update?: MarketMatchUpdate;
+  /** Resolution notes to store with the review (confirm, reject) */
+  resolutionNotes?: string;
+}
+
+/**
+ * Response from the market matches API
+ */
+export interface ArbitrageMatchesResponse {
+  success: boolean;
+  matches?: MarketMatch[];
+  match?: MarketMatch;
+  logs: BotLogEntry[];
+  error?: string;
+}
+
+/**
+ * State of an executed arbitrage
+ */
+export type ArbitragePositionStatus = 'open' | 'cancelled' | 'unwound' | 'unhedged';
+
+/**
+ * Orders placed for one leg of an executed arbitrage. Prices are 0-100.
+ */
+export interface ArbitrageLegExecution extends DepthLeg {
+  limitPrice: number;
+  requested: number;
+  filled: number;
+  orderId?: string;
+  /** Contracts sold back because the other leg fell short */
+  unwound: number;
+  unwindOrderId?: string;
+  unwindPrice?: number;
+  error?: string;
+}
+
+/**
+ * Result of executing both legs of an arbitrage
+ */
+export interface ArbitrageExecution {
+  title: string;
+  polymarketId?: string;
+  kalshiId?: string;
+  yesLeg: ArbitrageLegExecution;
+  noLeg: ArbitrageLegExecution;
+  status: ArbitragePositionStatus;
+  /** Paired YES + NO contracts held */
+  size: number;
+  /** Cost of the pairs at the limit prices, fees included (USD) */
+  costUsd: number;
+  expectedProfitUsd: number;
+  /** Contracts of one leg held without the other */
+  unhedgedSize: number;
+  resolutionDate?: string;
+}
+
+/**
+ * A recorded arbitrage position
+ */
+export interface ArbitragePosition extends ArbitrageExecution {
+  id: string;
+  createdAt: string;
+}
+
+/**
+ * Arbitrage executor actions
+ */
+export type ArbitrageExecutorAction = "execute" | "list";
+
+/**
+ * Request body for the arbitrage executor API
+ */
+export interface ArbitrageExecutorRequest {
+  action: ArbitrageExecutorAction;
+  /** Analysis to execute (execute) */
+  analysis?: ArbitrageAnalysis;
+  /** YES + NO pairs to buy (execute, default: the order books' max size) */
+  size?: number;
+  /** Cents above the strategy prices each leg may pay (execute, default 0) */
+  maxSlippageCents?: number;
+  /** Filters (list) */
+  statuses?: ArbitragePositionStatus[];
+  limit?: number;
+}
+
+/**
+ * Response from the arbitrage executor API
+ */
+export interface ArbitrageExecutorResponse {
+  success: boolean;
+  execution?: ArbitrageExecution;
+  position?: ArbitragePosition;
+  positions?: ArbitragePosition[];
+  logs: BotLogEntry[];
+  error?: string;
+}
@@ -89,6 +89,65 @@ export interface LimitOrderBotRequest {
   sizeUsd?: number;
   /** Ladder betting configuration */
   ladder?: LadderConfig;
+  /** Place simulated paper orders instead of live ones */
+  paperTrading?: boolean;
+}
+
+/**
+ * Per-asset settings for a batch request
+ */
+export interface BatchAssetConfig {
+  asset: SupportedAsset;
+  /** Order price as a percentage (e.g., 48 for 48%) - ignored if ladder.enabled */
+  price?: number;
+  /** Bankroll in USD for this asset. Defaults to $25 */
+  sizeUsd?: number;
+  /** Ladder betting configuration */
+  ladder?: LadderConfig;
+}
+
+/**
+ * Batch request body for the limit-order-bot endpoint
+ */
+export interface LimitOrderBotBatchRequest {
+  /** Assets to trade with per-asset settings (each asset at most once) */
+  assets: BatchAssetConfig[];
+  /** Global bankroll cap in USD across both sides of every order (an asset commits twice its sizeUsd) - per-asset bankrolls are scaled down proportionally to fit */
+  maxTotalBankrollUsd?: number;
+  /** Place simulated paper orders for every asset */
+  paperTrading?: boolean;
+}
+
+/**
+ * Aggregated summary of a batch run
+ */
+export interface BatchSummary {
+  assetsRequested: number;
+  assetsSucceeded: number;
+  assetsFailed: number;
+  requestedBankrollUsd: number;
+  allocatedBankrollUsd: number;
+  /** Whether per-asset bankrolls were scaled down to fit the cap */
+  capApplied: boolean;
+  totalOrders: number;
+  successfulOrders: number;
+}
+
+/**
+ * Batch response from the limit-order-bot endpoint
+ */
+export interface LimitOrderBotBatchResponse {
+  success: boolean;
+  data?: {
+    targetTimestamp: number;
+    /** Bankroll allocated to each asset (USD) */
+    allocations: Partial<Record<SupportedAsset, number>>;
+    /** Market result per asset */
+    markets: Partial<Record<SupportedAsset, MarketOrderResult>>;
+    summary: BatchSummary;
+  };
+  logs: BotLogEntry[];
+  error?: string;
 }
 
 /**
@@ -107,3 +166,186 @@ export interface LimitOrderBotResponse {
   logs: BotLogEntry[];
   error?: string;
 }
+
+/**
+ * Lifecycle status of a persistent (server-side) bot
+ */
+export type BotStatus = "running" | "paused" | "stopped";
+
+/**
+ * Post-placement order management settings
+ */
+export interface OrderManagementConfig {
+  /** Seconds before the market window opens at which all resting orders are cancelled */
+  cutoffSeconds: number;
+  /** Fill percentage (0-100) at which a side's remaining resting orders are cancelled */
+  fillThresholdPercent: number;
+}
+
+/**
+ * An order cancelled by the order manager
+ */
+export interface CancelledOrder {
+  orderId: string;
+  side: "up" | "down";
+  /** Price level as percentage */
+  pricePercent: number;
+  originalSize: number;
+  sizeMatched: number;
+  reason: "CUTOFF" | "FILL_THRESHOLD" | "STOPPED";
+}
+
+/**
+ * Result of one order management pass
+ */
+export interface OrderManagementResult {
+  checkedOrders: number;
+  upFillPercent: number;
+  downFillPercent: number;
+  cutoffReached: boolean;
+  cancelled: CancelledOrder[];
+  notCancelled: Array<{ orderId: string; reason: string }>;
+  finalized: boolean;
+}
+
+/**
+ * Persistent bot configuration
+ */
+export interface BotConfig {
+  id: string;
+  name: string;
+  asset: SupportedAsset;
+  /** Order price as percentage (vanilla mode) */
+  price?: number;
+  /** Total bankroll in USD per market window */
+  sizeUsd: number;
+  /** Ladder betting configuration (ladder mode) */
+  ladder?: LadderConfig;
+  /** Post-placement order management (undefined if disabled) */
+  orderManagement?: OrderManagementConfig;
+  /** Whether the bot places simulated paper orders */
+  paperTrading: boolean;
+  status: BotStatus;
+  /** Unix timestamp of the last market window the bot was fired for */
+  lastTargetTimestamp?: number;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Persisted result of a single bot run
+ */
+export interface BotRun {
+  id: string;
+  botId: string;
+  /** Unix timestamp of the market window */
+  targetTimestamp: number;
+  marketSlug: string;
+  success: boolean;
+  market: MarketOrderResult;
+  logs: BotLogEntry[];
+  /** Latest order management pass */
+  orderManagement?: OrderManagementResult;
+  /** Orders cancelled by the order manager so far */
+  cancelledOrders: CancelledOrder[];
+  ordersFinalized: boolean;
+  createdAt: string;
+}
+
+/**
+ * Request body for the bot-manager endpoint
+ */
+export interface BotManagerRequest {
+  action: "list" | "create" | "start" | "pause" | "stop" | "runs";
+  /** Target bot ID (start, pause, stop, runs) */
+  botId?: string;
+  /** Display name (create) */
+  name?: string;
+  asset?: SupportedAsset;
+  /** Order price as percentage (create, vanilla mode) */
+  price?: number;
+  /** Total bankroll in USD per market window (create) */
+  sizeUsd?: number;
+  /** Ladder betting configuration (create, ladder mode) */
+  ladder?: LadderConfig;
+  /** Post-placement order management (create). Omitted fields use defaults; null disables it */
+  orderManagement?: Partial<OrderManagementConfig> | null;
+  /** Place simulated paper orders instead of live ones (create) */
+  paperTrading?: boolean;
+  /** Start the bot immediately after creating it (create) */
+  start?: boolean;
+  /** Maximum number of runs to return (runs) */
+  limit?: number;
+}
+
+/**
+ * Response from the bot-manager endpoint
+ */
+export interface BotManagerResponse {
+  success: boolean;
+  bots?: BotConfig[];
+  bot?: BotConfig;
+  /** Runs, newest first */
+  runs?: BotRun[];
+  /** Resting orders cancelled by stop */
+  cancelledOrders?: CancelledOrder[];
+  logs: BotLogEntry[];
+  error?: string;
+}
+
+/**
+ * Open order from the Polymarket CLOB
+ */
+export interface OpenOrder {
+  id: string;
+  /** Market condition ID */
+  market: string;
+  /** Token ID */
+  asset_id: string;
+  side: "BUY" | "SELL";
+  price: string;
+  size_matched: string;
+  original_size: string;
+  status: string;
+  /** Outcome the order trades (e.g., "Up" / "Down") */
+  outcome?: string;
+  created_at: number;
+  expiration: number;
+}
+
+/**
+ * Request body for the polymarket-orders endpoint
+ */
+export interface OrdersRequest {
+  action: "list" | "cancel" | "cancel-market" | "cancel-all";
+  /** Market condition ID (list, cancel-market) */
+  market?: string;
+  /** Market slug, resolved to its condition ID (list, cancel-market) */
+  marketSlug?: string;
+  /** Token ID (list, cancel-market) */
+  assetId?: string;
+  /** Order ID to cancel (cancel) */
+  orderId?: string;
+  /** Order IDs to cancel (cancel) */
+  orderIds?: string[];
+  /** Act on the paper trading account instead of the live one */
+  paperTrading?: boolean;
+}
+
+/**
+ * Response from the polymarket-orders endpoint
+ */
+export interface OrdersResponse {
+  success: boolean;
+  data?: {
+    /** Open orders (list) */
+    orders?: OpenOrder[];
+    /** IDs of cancelled orders (cancel actions) */
+    canceled?: string[];
+    /** Orders that could not be cancelled, keyed by ID with the reason */
+    notCanceled?: Record<string, string>;
+  };
+  logs: BotLogEntry[];
+  error?: string;
+}
@@ -0,0 +1,136 @@
+/**
+ * Types for the Agent Calibration API
+ */
+
+import type { BotLogEntry } from "./betting-bot";
+
+/** Who made the prediction */
+export type PredictionSource = "agent" | "bookmaker";
+
+/** Venue of the predicted market */
+export type PredictionPlatform = "Polymarket" | "Kalshi";
+
+/**
+ * Recorded agent or bookmaker prediction (probabilities are 0-1 for the YES outcome)
+ */
+export interface Prediction {
+  id: string;
+  createdAt: string;
+  source: PredictionSource;
+  platform: PredictionPlatform;
+  model: string;
+  tools: string[];
+  userCommand?: string;
+  presetId?: string;
+  analysisRequestId?: string;
+  battleId?: string;
+  contestant?: string;
+  eventIdentifier: string;
+  market?: string;
+  ticker: string;
+  title?: string;
+  marketProbability?: number;
+  estimatedProbability: number;
+  predictedWinner: "YES" | "NO";
+  winnerConfidence?: number;
+  recommendedAction: string;
+  confidence?: number;
+  outcome?: "yes" | "no";
+  resolvedAt?: string;
+  lastCheckedAt?: string;
+}
+
+/**
+ * Filters for listing predictions
+ */
+export interface PredictionFilter {
+  source?: PredictionSource;
+  platform?: PredictionPlatform;
+  model?: string;
+  presetId?: string;
+  analysisRequestId?: string;
+  battleId?: string;
+  resolved?: boolean;
+  /** ISO timestamp; only predictions made at or after it */
+  since?: string;
+}
+
+/**
+ * One bin of a calibration curve
+ */
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanEstimate: number;
+  observedRate: number;
+}
+
+/**
+ * Calibration scores for a set of predictions
+ */
+export interface CalibrationSummary {
+  predictions: number;
+  resolved: number;
+  brierScore?: number;
+  marketBrierScore?: number;
+  logLoss?: number;
+  hitRate?: number;
+  calibration: CalibrationBin[];
+}
+
+/**
+ * Calibration for one value of a grouping key
+ */
+export interface CalibrationGroup extends CalibrationSummary {
+  key: string;
+  /** Display name when the key is an ID (presets) */
+  label?: string;
+}
+
+/**
+ * Calibration leaderboard by model, preset and tool set
+ */
+export interface CalibrationReport {
+  total: CalibrationSummary;
+  byModel: CalibrationGroup[];
+  byPreset: CalibrationGroup[];
+  byTools: CalibrationGroup[];
+}
+
+/**
+ * Summary of a sync pass
+ */
+export interface PredictionSyncResult {
+  checked: number;
+  resolved: number;
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Agent calibration actions
+ */
+export type AgentCalibrationAction = "list" | "sync" | "leaderboard";
+
+/**
+ * Request body for agent calibration
+ */
+export interface AgentCalibrationRequest {
+  action: AgentCalibrationAction;
+  filter?: PredictionFilter;
+  limit?: number;
+  /** Sync unresolved predictions before building the leaderboard (leaderboard) */
+  sync?: boolean;
+}
+
+/**
+ * Response from agent calibration
+ */
+export interface AgentCalibrationResponse {
+  success: boolean;
+  predictions?: Prediction[];
+  report?: CalibrationReport;
+  sync?: PredictionSyncResult;
+  logs: BotLogEntry[];
+  error?: string;
+}
@@ -0,0 +1,150 @@
+/**
+ * Types for the Copytrading API
+ */
+
+import type { BotLogEntry } from "./betting-bot";
+import type { OrderEvent } from "./wallet-tracking";
+
+/** How copied orders are sized */
+export type CopySizingMode = "fixed" | "proportional";
+
+/** Lifecycle status of a copy trader */
+export type CopyTraderStatus = "running" | "paused" | "stopped";
+
+/** Outcome of a leader order */
+export type CopyTradeStatus = "pending" | "copied" | "skipped" | "failed";
+
+/**
+ * Copy trader sizing
+ */
+export interface CopySizing {
+  mode: CopySizingMode;
+  /** USD per copied order (fixed) */
+  fixedUsd?: number;
+  /** Fraction of the leader's order, e.g. 0.1 = 10% (proportional) */
+  ratio?: number;
+  /** Cap on the net USD bought per market across all copies */
+  maxPerMarketUsd?: number;
+}
+
+/**
+ * Copy trader settings (create / update)
+ */
+export interface CopyTraderSettings {
+  name?: string;
+  /** Leader proxy wallet addresses */
+  leaders: string[];
+  sizing: CopySizing;
+  /** Max price difference (0-1) accepted vs the leader's price. Default: 0.02 */
+  maxSlippage?: number;
+  /** Only copy markets matching one of these condition IDs or slug fragments */
+  allowMarkets?: string[];
+  /** Never copy markets matching one of these condition IDs or slug fragments */
+  denyMarkets?: string[];
+  /** Skip new BUYs once the day's (UTC) copied trades are down this much */
+  dailyLossCapUsd?: number;
+  /** Mirror the leaders' SELLs. Default: true */
+  copySells?: boolean;
+  paperTrading?: boolean;
+}
+
+/**
+ * Persistent copy trader
+ */
+export interface CopyTrader {
+  id: string;
+  name: string;
+  leaders: string[];
+  sizing: CopySizing;
+  maxSlippage: number;
+  allowMarkets: string[];
+  denyMarkets: string[];
+  dailyLossCapUsd?: number;
+  copySells: boolean;
+  paperTrading: boolean;
+  status: CopyTraderStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Order event of a leader wallet (Dome WebSocket)
+ */
+export interface LeaderOrder extends OrderEvent {
+  token_label?: string;
+}
+
+/**
+ * A leader order and what the copy trader did with it
+ */
+export interface CopyTrade {
+  id: string;
+  copyTraderId: string;
+  leader: string;
+  leaderOrderHash: string;
+  leaderTxHash?: string;
+  side: "BUY" | "SELL";
+  tokenId: string;
+  conditionId: string;
+  marketSlug?: string;
+  title?: string;
+  outcome?: string;
+  leaderPrice: number;
+  leaderShares: number;
+  status: CopyTradeStatus;
+  /** Why the order was skipped or failed, or how it was adjusted */
+  reason?: string;
+  orderId?: string;
+  price?: number;
+  size?: number;
+  costUsd?: number;
+  paperTrading: boolean;
+  createdAt: string;
+}
+
+/**
+ * State of a running copy trader's order stream on the terminal server
+ */
+export interface CopyStreamStatus {
+  copyTraderId: string;
+  connected: boolean;
+  /** Leader orders received since the stream started */
+  ordersReceived: number;
+  lastOrderAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Copytrading actions
+ */
+export type CopyTraderAction = "list" | "create" | "update" | "start" | "pause" | "stop" | "delete" | "copy" | "trades";
+
+/**
+ * Request body for the copytrading API
+ */
+export interface CopyTraderRequest {
+  action: CopyTraderAction;
+  copyTraderId?: string;
+  settings?: CopyTraderSettings;
+  /** Start the copy trader immediately after creating it (create) */
+  start?: boolean;
+  /** Leader order to copy (copy; only sent by the order stream) */
+  order?: LeaderOrder;
+  /** Maximum number of trades to return (trades). Default: 100 */
+  limit?: number;
+}
+
+/**
+ * Response from the copytrading API
+ */
+export interface CopyTraderResponse {
+  success: boolean;
+  copyTraders?: CopyTrader[];
+  copyTrader?: CopyTrader;
+  trade?: CopyTrade;
+  trades?: CopyTrade[];
+  /** Order streams of running copy traders (added by the terminal server) */
+  streams?: CopyStreamStatus[];
+  logs: BotLogEntry[];
+  error?: string;
+}
@@ -0,0 +1,82 @@
+/**
+ * Types for the Portfolio API
+ */
+
+import type { BotLogEntry } from "./betting-bot";
+
+/**
+ * Open position with its mark and unrealised PnL
+ */
+export interface PortfolioPosition {
+  /** Outcome token ID */
+  asset: string;
+  conditionId: string;
+  outcome: string;
+  title: string;
+  slug?: string;
+  /** Shares held */
+  size: number;
+  /** Average entry price (0-1) */
+  avgPrice: number;
+  costBasisUsd: number;
+  /** Current outcome price (0-1), null if no mark is available */
+  markPrice: number | null;
+  currentValueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPercent: number;
+  /** Market resolution date (ISO) */
+  endDate?: string;
+  /** Market resolved; the position is waiting to be redeemed */
+  redeemable: boolean;
+  trades: number;
+  /** Unix timestamp (seconds) of the last trade */
+  lastTradeAt?: number;
+}
+
+/**
+ * Positions grouped by event
+ */
+export interface PortfolioEvent {
+  eventSlug: string;
+  title: string;
+  endDate?: string;
+  positions: PortfolioPosition[];
+  costBasisUsd: number;
+  currentValueUsd: number;
+  unrealizedPnlUsd: number;
+}
+
+/**
+ * Portfolio-wide totals
+ */
+export interface PortfolioTotals {
+  positions: number;
+  events: number;
+  costBasisUsd: number;
+  currentValueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPercent: number;
+}
+
+/**
+ * Request body for the portfolio
+ */
+export interface PortfolioRequest {
+  /** Show the paper trading account */
+  paperTrading?: boolean;
+}
+
+/**
+ * Response from the portfolio
+ */
+export interface PortfolioResponse {
+  success: boolean;
+  data?: {
+    /** Events sorted by the earliest resolution date */
+    events: PortfolioEvent[];
+    totals: PortfolioTotals;
+    paperTrading: boolean;
+  };
+  logs: BotLogEntry[];
+  error?: string;
+}
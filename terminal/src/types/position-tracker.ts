@@ -2,7 +2,7 @@
  * Types for the Position Tracker API
  */
 
-import type { SupportedAsset, BotLogEntry } from "./betting-bot";
+import type { SupportedAsset, BotLogEntry, OrderResponse } from "./betting-bot";
 
 /**
  * Token IDs for Up and Down outcomes
@@ -84,6 +84,8 @@ export interface PositionTrackerRequest {
   marketSlug?: string;
   /** Token IDs for the market (optional - required if marketSlug is custom) */
   tokenIds?: TokenIds;
+  /** Read the position from the paper trading account */
+  paperTrading?: boolean;
 }
 
 /**
@@ -105,7 +107,65 @@ export interface PositionTrackerResponse {
   error?: string;
 }
 
+/**
+ * Rebalance mode
+ * - auto: hedge when possible, otherwise flatten
+ * - hedge: only buy the missing side
+ * - flatten: only sell the excess side
+ */
+export type RebalanceMode = "auto" | "hedge" | "flatten";
 
+/**
+ * Rebalance plan for a one-sided position
+ */
+export interface RebalancePlan {
+  action: "HEDGE" | "FLATTEN" | "NONE";
+  /** Side the order trades (HEDGE: missing side, FLATTEN: excess side) */
+  side?: "up" | "down";
+  tokenId?: string;
+  orderSide?: "BUY" | "SELL";
+  shares: number;
+  /** Limit price (decimal) */
+  price?: number;
+  /** Max price for the missing side that keeps pairCost under target */
+  maxHedgePrice: number | null;
+  targetPairCost: number;
+  /** Why this action was chosen */
+  reason: string;
+}
 
+/**
+ * Request body for the position rebalancer endpoint
+ */
+export interface PositionRebalancerRequest {
+  /** Asset of the market to rebalance (BTC, SOL, ETH, XRP) */
+  asset: SupportedAsset;
+  /** Market slug (optional - if not provided, uses the current 15-min market) */
+  marketSlug?: string;
+  /** Token IDs for the market (optional - required if marketSlug is custom) */
+  tokenIds?: TokenIds;
+  /** Default: auto */
+  mode?: RebalanceMode;
+  /** Pair cost to stay below when hedging. Default: 0.99 */
+  targetPairCost?: number;
+  /** Compute the plan without placing the order */
+  dryRun?: boolean;
+  /** Rebalance the paper trading position with simulated orders */
+  paperTrading?: boolean;
+}
 
-
+/**
+ * Response from the position rebalancer endpoint
+ */
+export interface PositionRebalancerResponse {
+  success: boolean;
+  data?: {
+    asset: SupportedAsset;
+    position: MarketPosition;
+    plan: RebalancePlan;
+    /** Order placement result (absent for dry runs and NONE plans) */
+    order?: OrderResponse;
+  };
+  logs: BotLogEntry[];
+  error?: string;
+}
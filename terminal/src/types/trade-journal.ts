@@ -0,0 +1,152 @@
+/**
+ * Types for the Trade Journal API
+ */
+
+import type { BotLogEntry } from "./betting-bot";
+
+/** What placed the order */
+export type TradeSource = "bot" | "autonomous" | "manual" | "copytrade" | "arbitrage";
+
+/** Venue the order was sent to */
+export type TradePlatform = "Polymarket" | "Kalshi";
+
+/** Whether the order bought or sold the outcome */
+export type TradeSide = "BUY" | "SELL";
+
+/** Journal entry status */
+export type TradeStatus = "open" | "filled" | "cancelled" | "failed" | "resolved";
+
+/**
+ * Context attached to an order placed from the terminal
+ */
+export interface JournalContext {
+  source: TradeSource;
+  strategy?: string;
+  asset?: string;
+  model?: string;
+  analysisRequestId?: string;
+  botId?: string;
+}
+
+/**
+ * Journal entry (prices are 0-1 for every platform)
+ */
+export interface JournalEntry {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  source: TradeSource;
+  platform: TradePlatform;
+  strategy: string;
+  asset?: string;
+  model?: string;
+  analysisRequestId?: string;
+  botId?: string;
+  paperTrading: boolean;
+  orderId?: string;
+  market?: string;
+  marketSlug?: string;
+  title?: string;
+  tokenId?: string;
+  outcome?: string;
+  side: TradeSide;
+  price: number;
+  size: number;
+  orderParams?: Record<string, unknown>;
+  status: TradeStatus;
+  filledSize: number;
+  avgFillPrice?: number;
+  feeUsd: number;
+  error?: string;
+  currentPrice?: number;
+  resolution?: "won" | "lost";
+  payoutUsd?: number;
+  realizedPnlUsd?: number;
+  resolvedAt?: string;
+  lastSyncedAt?: string;
+}
+
+/**
+ * Filters for listing journal entries
+ */
+export interface JournalFilter {
+  source?: TradeSource;
+  platform?: TradePlatform;
+  strategy?: string;
+  asset?: string;
+  model?: string;
+  status?: TradeStatus;
+  analysisRequestId?: string;
+  botId?: string;
+  paperTrading?: boolean;
+  /** ISO timestamp; only entries created at or after it */
+  since?: string;
+}
+
+/**
+ * Aggregated PnL for a set of entries
+ */
+export interface PnlSummary {
+  orders: number;
+  filledOrders: number;
+  costUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  totalPnlUsd: number;
+  wins: number;
+  losses: number;
+}
+
+/**
+ * PnL for one value of a grouping key
+ */
+export interface PnlGroup extends PnlSummary {
+  key: string;
+}
+
+/**
+ * PnL report by strategy, asset and model
+ */
+export interface PnlReport {
+  total: PnlSummary;
+  byStrategy: PnlGroup[];
+  byAsset: PnlGroup[];
+  byModel: PnlGroup[];
+}
+
+/**
+ * Summary of a sync pass
+ */
+export interface JournalSyncResult {
+  synced: number;
+  resolved: number;
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Trade journal actions
+ */
+export type TradeJournalAction = "list" | "sync" | "pnl";
+
+/**
+ * Request body for the trade journal
+ */
+export interface TradeJournalRequest {
+  action: TradeJournalAction;
+  filter?: JournalFilter;
+  limit?: number;
+  /** Sync unsettled entries before building the report (pnl) */
+  sync?: boolean;
+}
+
+/**
+ * Response from the trade journal
+ */
+export interface TradeJournalResponse {
+  success: boolean;
+  entries?: JournalEntry[];
+  report?: PnlReport;
+  sync?: JournalSyncResult;
+  logs: BotLogEntry[];
+  error?: string;
+}
@@ -2,6 +2,8 @@
  * Types for the Wallet Tracking feature using Dome API
  */
 
+import type { BotLogEntry } from "./betting-bot";
+
 /**
  * Log entry for wallet tracking events
  */
@@ -9,6 +11,8 @@ export interface WalletTrackingLogEntry {
   timestamp: string;
   level: "INFO" | "WARN" | "ERROR" | "SUCCESS" | "ORDER";
   message: string;
+  /** Tracked wallet the entry belongs to (lowercase address) */
+  wallet?: string;
   details?: Record<string, unknown>;
 }
 
@@ -17,6 +21,7 @@ export interface WalletTrackingLogEntry {
  */
 export interface OrderEvent {
   token_id: string;
+  token_label?: string;
   side: "BUY" | "SELL";
   market_slug: string;
   condition_id: string;
@@ -28,6 +33,15 @@ export interface OrderEvent {
   timestamp: number;
   order_hash: string;
   user: string;
+  taker?: string;
+}
+
+/**
+ * A tracked wallet and its display label
+ */
+export interface TrackedWallet {
+  label: string;
+  address: string;
 }
 
 /**
@@ -50,3 +64,149 @@ export interface SSEMessage {
   timestamp: string;
 }
 
+
+/**
+ * Category share of a wallet's traded volume
+ */
+export interface WalletCategoryShare {
+  category: string;
+  volumeUsd: number;
+  /** Share of the wallet's traded volume (0-1) */
+  share: number;
+  trades: number;
+}
+
+/**
+ * Closed position of a wallet
+ */
+export interface WalletClosedPosition {
+  title: string;
+  slug?: string;
+  outcome: string;
+  avgPrice: number;
+  /** Final outcome price: 1 or 0 once resolved, otherwise the exit mark */
+  resolutionPrice: number;
+  resolved: boolean;
+  costUsd: number;
+  realizedPnlUsd: number;
+  closedAt?: string;
+}
+
+/**
+ * Historical performance of a wallet (Polymarket Data API)
+ */
+export interface WalletProfile {
+  address: string;
+  /** Public Polymarket username, if any */
+  name?: string;
+  generatedAt: string;
+
+  /** Trades analysed (most recent first, capped) */
+  tradesAnalyzed: number;
+  firstTradeAt?: string;
+  lastTradeAt?: string;
+  /** BUY share of traded volume (0-1) */
+  buyShare: number;
+  totalVolumeUsd: number;
+
+  /** Typical trade size in USD */
+  medianTradeUsd: number;
+  averageTradeUsd: number;
+  largestTradeUsd: number;
+
+  /** Closed positions analysed */
+  closedPositions: number;
+  wins: number;
+  losses: number;
+  /** wins / (wins + losses), null without closed positions */
+  winRate: number | null;
+  /** Realised PnL of closed positions plus partial exits of open ones */
+  realizedPnlUsd: number;
+  /** Realised PnL / cost of closed positions, null without closed positions */
+  roi: number | null;
+
+  /** Cost-weighted average entry price of resolved positions */
+  avgEntryPrice: number | null;
+  /** Cost-weighted average resolution price of the same positions */
+  avgResolutionPrice: number | null;
+  resolvedPositions: number;
+
+  openPositions: number;
+  openValueUsd: number;
+  unrealizedPnlUsd: number;
+
+  /** Categories by traded volume, largest first */
+  categories: WalletCategoryShare[];
+  /** Largest closed positions by absolute PnL */
+  topPositions: WalletClosedPosition[];
+}
+
+/**
+ * Response from the wallet profile API
+ */
+export interface WalletProfileResponse {
+  success: boolean;
+  profile?: WalletProfile;
+  error?: string;
+}
+
+/**
+ * Recorded order of a tracked wallet
+ */
+export interface WalletOrder {
+  id: string;
+  wallet: string;
+  orderHash: string;
+  txHash?: string;
+  side: "BUY" | "SELL";
+  tokenId: string;
+  conditionId: string;
+  marketSlug?: string;
+  title?: string;
+  outcome?: string;
+  price: number;
+  shares: number;
+  /** When the order was placed (ISO) */
+  orderedAt: string;
+  createdAt: string;
+}
+
+/**
+ * Wallet history actions ("record" is only sent by the terminal server)
+ */
+export type WalletHistoryAction = "record" | "list" | "clear";
+
+/**
+ * Request body for the wallet history API
+ */
+export interface WalletHistoryRequest {
+  action: WalletHistoryAction;
+  /** Orders to record (record) */
+  orders?: OrderEvent[];
+  /** Wallet whose history is deleted (clear) */
+  wallet?: string;
+  /** Wallets to list; all recorded wallets when empty (list) */
+  wallets?: string[];
+  /** Orders placed at or after this time, ISO (list) */
+  from?: string;
+  /** Orders placed before this time, ISO (list) */
+  to?: string;
+  /** Condition ID, or a fragment of the market slug or title (list) */
+  market?: string;
+  /** Maximum number of orders (list). Default: 500, max 5000 */
+  limit?: number;
+  /** Oldest first (list). Default: newest first */
+  ascending?: boolean;
+}
+
+/**
+ * Response from the wallet history API
+ */
+export interface WalletHistoryResponse {
+  success: boolean;
+  orders?: WalletOrder[];
+  /** Orders newly recorded (record) or deleted (clear) */
+  count?: number;
+  logs: BotLogEntry[];
+  error?: string;
+}
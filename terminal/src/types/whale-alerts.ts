@@ -0,0 +1,132 @@
+/**
+ * Types for the Whale Tracking alerts
+ */
+
+import type { TrackedWallet } from "./wallet-tracking";
+
+/** Where alerts are delivered besides the UI */
+export type WhaleAlertSinkType = "webhook" | "discord" | "telegram";
+
+/** Why an order was flagged */
+export type WhaleAlertReason = "notional" | "watchlist";
+
+/**
+ * Alert destination
+ */
+export interface WhaleAlertSink {
+  id: string;
+  type: WhaleAlertSinkType;
+  /** Webhook URL (webhook, discord) */
+  url?: string;
+  /** Bot token (telegram) */
+  botToken?: string;
+  /** Chat ID (telegram) */
+  chatId?: string;
+  enabled: boolean;
+}
+
+/**
+ * Whale alert monitor settings
+ */
+export interface WhaleAlertSettings {
+  /** Flag orders of at least this USD notional (price × shares) */
+  minNotionalUsd: number;
+  /** Markets whose order flow is watched (market slugs or condition IDs) */
+  markets: string[];
+  /** Wallets whose orders are flagged at any size, in any market */
+  watchlist: TrackedWallet[];
+  /** Only flag BUYs or SELLs. Default: both */
+  side?: "BUY" | "SELL";
+  sinks: WhaleAlertSink[];
+}
+
+/**
+ * A flagged order
+ */
+export interface WhaleAlert {
+  id: string;
+  reasons: WhaleAlertReason[];
+  wallet: string;
+  /** Watchlist label of the wallet */
+  walletLabel?: string;
+  side: "BUY" | "SELL";
+  /** Outcome bought or sold, e.g. "Yes" */
+  outcome?: string;
+  title: string;
+  marketSlug: string;
+  conditionId: string;
+  tokenId: string;
+  price: number;
+  shares: number;
+  notionalUsd: number;
+  /** Outcome midpoint when the alert was raised */
+  currentPrice?: number;
+  txHash: string;
+  orderHash: string;
+  /** When the order was placed (ISO) */
+  timestamp: string;
+}
+
+/**
+ * Delivery failure of a sink
+ */
+export interface WhaleAlertSinkError {
+  sinkId: string;
+  error: string;
+  timestamp: string;
+}
+
+/**
+ * State of the whale alert monitor on the terminal server
+ */
+export interface WhaleAlertStatus {
+  running: boolean;
+  connected: boolean;
+  ordersScanned: number;
+  alertsRaised: number;
+  startedAt?: string;
+  lastError?: string;
+  sinkErrors: WhaleAlertSinkError[];
+}
+
+/**
+ * Whale alert actions
+ */
+export type WhaleAlertAction = "get" | "start" | "stop" | "test-sink";
+
+/**
+ * Request body for the whale alerts API
+ */
+export interface WhaleAlertRequest {
+  action: WhaleAlertAction;
+  /** Settings to start the monitor with (start) */
+  settings?: WhaleAlertSettings;
+  /** Sink to send a sample alert to (test-sink) */
+  sink?: WhaleAlertSink;
+}
+
+/**
+ * Response from the whale alerts API
+ */
+export interface WhaleAlertResponse {
+  success: boolean;
+  settings?: WhaleAlertSettings;
+  status?: WhaleAlertStatus;
+  /** Recent alerts, newest first */
+  alerts?: WhaleAlert[];
+  error?: string;
+}
+
+/**
+ * Whale alert SSE events
+ */
+export type WhaleAlertEventType = "alert" | "status" | "heartbeat";
+
+/**
+ * Whale alert SSE message payload
+ */
+export interface WhaleAlertMessage {
+  type: WhaleAlertEventType;
+  data?: WhaleAlert | WhaleAlertStatus | { status: string };
+  timestamp: string;
+}